@@ -23,6 +23,8 @@ import { CacheModule } from './cache/cache.module';
 import { NotificationsModule } from './notifications/notifications.module';
 import { FinanceModule } from './modules/finance/finance.module';
 import { SalesModule } from './modules/sales/sales.module';
+import { DiscrepanciesModule } from './modules/discrepancies/discrepancies.module';
+import { MailModule } from './mail/mail.module';
 import configuration from './config/configuration';
 
 @Module({
@@ -90,6 +92,8 @@ import configuration from './config/configuration';
     NotificationsModule,
     FinanceModule,
     SalesModule,
+    DiscrepanciesModule,
+    MailModule,
     TypeOrmModule.forFeature([UserModule]),
   ],
   providers: [
@@ -0,0 +1,37 @@
+import { decodeText, detectDelimiter, readCsvWorksheet } from './csv';
+
+describe('csv utils', () => {
+  describe('decodeText', () => {
+    it('should decode UTF-8 and drop the BOM', () => {
+      const buffer = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('Дата;Сумма', 'utf8')]);
+      expect(decodeText(buffer)).toBe('Дата;Сумма');
+    });
+
+    it('should fall back to Windows-1251 for invalid UTF-8', () => {
+      // "Дата" in Windows-1251
+      expect(decodeText(Buffer.from([0xc4, 0xe0, 0xf2, 0xe0]))).toBe('Дата');
+    });
+  });
+
+  describe('detectDelimiter', () => {
+    it('should pick the most frequent delimiter', () => {
+      expect(detectDelimiter('a;b;c\n1;2,5;3')).toBe(';');
+      expect(detectDelimiter('a\tb\tc')).toBe('\t');
+      expect(detectDelimiter('a,b')).toBe(',');
+    });
+
+    it('should default to comma', () => {
+      expect(detectDelimiter('single column')).toBe(',');
+    });
+  });
+
+  describe('readCsvWorksheet', () => {
+    it('should keep raw strings and turn empty cells into null', async () => {
+      const sheet = await readCsvWorksheet('code;price;note\nA01;0012000;\n');
+
+      expect(sheet.getRow(2).getCell(1).value).toBe('A01');
+      expect(sheet.getRow(2).getCell(2).value).toBe('0012000');
+      expect(sheet.getRow(2).getCell(3).value).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { Readable } from 'stream';
+import * as ExcelJS from 'exceljs';
+
+/**
+ * Decode an uploaded text file. Telemetry and bank exports come either as
+ * UTF-8 (with or without BOM) or as Windows-1251 from older Windows tools;
+ * anything that isn't valid UTF-8 is treated as Windows-1251.
+ */
+export function decodeText(buffer: Buffer): string {
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    text = new TextDecoder('windows-1251').decode(buffer);
+  }
+  return text.replace(/^\uFEFF/, '');
+}
+
+/** Pick the most frequent of ; , and tab in the first lines */
+export function detectDelimiter(text: string): string {
+  const sample = text.split(/\r?\n/).slice(0, 5).join('\n');
+  const counts = [';', ',', '\t'].map((d) => [d, sample.split(d).length - 1] as const);
+  const [best, count] = counts.reduce((a, b) => (b[1] > a[1] ? b : a));
+  return count > 0 ? best : ',';
+}
+
+/**
+ * Load CSV text into a worksheet so it goes through the same row handling
+ * as Excel files. Cells keep their raw strings (empty ones become null);
+ * dates and amounts are parsed by the caller's own rules.
+ */
+export async function readCsvWorksheet(text: string, delimiter?: string): Promise<ExcelJS.Worksheet> {
+  const workbook = new ExcelJS.Workbook();
+  return workbook.csv.read(Readable.from([text]), {
+    parserOptions: { delimiter: delimiter || detectDelimiter(text) },
+    map: (value: string) => (value === '' ? null : value),
+  });
+}
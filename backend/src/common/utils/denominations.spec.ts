@@ -0,0 +1,93 @@
+import {
+  findInvalidDenomination,
+  formatDenominations,
+  normalizeDenominations,
+  parseDenominationInput,
+  sumDenominations,
+} from './denominations';
+
+describe('denominations utils', () => {
+  describe('parseDenominationInput', () => {
+    it('should parse space-separated value x count pairs', () => {
+      expect(parseDenominationInput('5000x10 10000x3')).toEqual([
+        { currency: 'UZS', value: 5000, count: 10 },
+        { currency: 'UZS', value: 10000, count: 3 },
+      ]);
+    });
+
+    it('should accept *, ×, Cyrillic х and spaces around the sign', () => {
+      expect(parseDenominationInput('50000*2, 1000 × 15; 200х4')).toEqual([
+        { currency: 'UZS', value: 50000, count: 2 },
+        { currency: 'UZS', value: 1000, count: 15 },
+        { currency: 'UZS', value: 200, count: 4 },
+      ]);
+    });
+
+    it('should apply currency prefix to the following pair only', () => {
+      expect(parseDenominationInput('usd 100x1 5000x2')).toEqual([
+        { currency: 'USD', value: 100, count: 1 },
+        { currency: 'UZS', value: 5000, count: 2 },
+      ]);
+    });
+
+    it('should return null for plain amounts and garbage', () => {
+      expect(parseDenominationInput('150000')).toBeNull();
+      expect(parseDenominationInput('5000x')).toBeNull();
+      expect(parseDenominationInput('USD')).toBeNull();
+      expect(parseDenominationInput('   ')).toBeNull();
+    });
+  });
+
+  describe('normalizeDenominations', () => {
+    it('should merge duplicates, drop zero counts and put base currency first', () => {
+      expect(
+        normalizeDenominations([
+          { currency: 'USD', value: 10, count: 1 },
+          { currency: 'UZS', value: 5000, count: 1 },
+          { currency: 'UZS', value: 1000, count: 0 },
+          { currency: 'UZS', value: 5000, count: 2 },
+          { currency: 'UZS', value: 2000, count: 1 },
+        ]),
+      ).toEqual([
+        { currency: 'UZS', value: 2000, count: 1 },
+        { currency: 'UZS', value: 5000, count: 3 },
+        { currency: 'USD', value: 10, count: 1 },
+      ]);
+    });
+  });
+
+  describe('sumDenominations', () => {
+    it('should sum only entries of the requested currency', () => {
+      const items = [
+        { currency: 'UZS', value: 5000, count: 3 },
+        { currency: 'USD', value: 100, count: 2 },
+      ];
+      expect(sumDenominations(items)).toBe(15000);
+      expect(sumDenominations(items, 'USD')).toBe(200);
+    });
+  });
+
+  describe('findInvalidDenomination', () => {
+    it('should flag unknown face values and currencies', () => {
+      expect(findInvalidDenomination([{ currency: 'UZS', value: 5000, count: 1 }])).toBeUndefined();
+      expect(findInvalidDenomination([{ currency: 'UZS', value: 3000, count: 1 }])).toEqual(
+        expect.objectContaining({ value: 3000 }),
+      );
+      expect(findInvalidDenomination([{ currency: 'JPY', value: 1000, count: 1 }])).toEqual(
+        expect.objectContaining({ currency: 'JPY' }),
+      );
+    });
+  });
+
+  describe('formatDenominations', () => {
+    it('should format breakdown for history', () => {
+      expect(
+        formatDenominations([
+          { currency: 'USD', value: 100, count: 1 },
+          { currency: 'UZS', value: 1000, count: 5 },
+        ]),
+      ).toBe('1000×5, USD 100×1');
+      expect(formatDenominations(null)).toBe('');
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Cash denomination utilities for VendCash.
+ *
+ * Operators and managers may record how many banknotes and coins of each
+ * face value were in a cash box. Collection amounts are always kept in the
+ * base currency (UZS); foreign notes occasionally found in a machine are
+ * recorded in the breakdown but do not count towards `amount`.
+ */
+
+/** Currency of Collection.amount. */
+export const BASE_CURRENCY = 'UZS';
+
+/** Accepted face values per currency (coins and banknotes). */
+export const CASH_DENOMINATIONS: Record<string, number[]> = {
+  UZS: [50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000, 50000, 100000, 200000],
+  USD: [1, 2, 5, 10, 20, 50, 100],
+  EUR: [5, 10, 20, 50, 100, 200, 500],
+  RUB: [50, 100, 200, 500, 1000, 2000, 5000],
+};
+
+export const SUPPORTED_CURRENCIES = Object.keys(CASH_DENOMINATIONS);
+
+export interface DenominationCount {
+  currency: string;
+  value: number;
+  count: number;
+}
+
+/**
+ * Find the first entry whose face value is not a known denomination
+ * for its currency. Returns undefined when every entry is valid.
+ */
+export function findInvalidDenomination(
+  items: DenominationCount[],
+): DenominationCount | undefined {
+  return items.find((item) => {
+    const values = CASH_DENOMINATIONS[item.currency];
+    return !values || !values.includes(item.value);
+  });
+}
+
+/**
+ * Merge duplicate entries, drop zero counts and sort by currency
+ * (base currency first) and then by face value.
+ */
+export function normalizeDenominations(items: DenominationCount[]): DenominationCount[] {
+  const merged = new Map<string, DenominationCount>();
+  for (const item of items) {
+    if (!item.count) continue;
+    const key = `${item.currency}:${item.value}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.count += item.count;
+    } else {
+      merged.set(key, { currency: item.currency, value: item.value, count: item.count });
+    }
+  }
+
+  return Array.from(merged.values()).sort((a, b) => {
+    if (a.currency !== b.currency) {
+      if (a.currency === BASE_CURRENCY) return -1;
+      if (b.currency === BASE_CURRENCY) return 1;
+      return a.currency.localeCompare(b.currency);
+    }
+    return a.value - b.value;
+  });
+}
+
+/** Total value of all entries in the given currency. */
+export function sumDenominations(
+  items: DenominationCount[],
+  currency: string = BASE_CURRENCY,
+): number {
+  return items
+    .filter((item) => item.currency === currency)
+    .reduce((sum, item) => sum + item.value * item.count, 0);
+}
+
+/**
+ * Human-readable representation used in audit history and messages.
+ * "1000×5, 5000×10, USD 100×1"
+ */
+export function formatDenominations(items: DenominationCount[] | null | undefined): string {
+  if (!items || items.length === 0) return '';
+  return normalizeDenominations(items)
+    .map((item) =>
+      item.currency === BASE_CURRENCY
+        ? `${item.value}×${item.count}`
+        : `${item.currency} ${item.value}×${item.count}`,
+    )
+    .join(', ');
+}
+
+/**
+ * Parse free-form breakdown text typed by an operator, e.g.
+ *   "5000x10 10000x3"
+ *   "50000*2, 1000 × 15"
+ *   "USD 100x1"
+ *
+ * Cyrillic "х" is accepted as a multiplication sign as well.
+ * Returns null if the text contains an unparseable token.
+ */
+export function parseDenominationInput(text: string): DenominationCount[] | null {
+  const tokens = text
+    .toUpperCase()
+    .replace(/\s*[X×*Х]\s*/g, 'X')
+    .split(/[\s,;]+/)
+    .filter(Boolean);
+
+  if (tokens.length === 0) return null;
+
+  const items: DenominationCount[] = [];
+  let currency: string | null = null;
+  for (const token of tokens) {
+    if (/^[A-Z]{3}$/.test(token)) {
+      if (currency) return null;
+      currency = token;
+      continue;
+    }
+
+    const match = token.match(/^(\d+)X(\d+)$/);
+    if (!match) return null;
+
+    items.push({
+      currency: currency || BASE_CURRENCY,
+      value: parseInt(match[1], 10),
+      count: parseInt(match[2], 10),
+    });
+    currency = null;
+  }
+
+  return currency ? null : items;
+}
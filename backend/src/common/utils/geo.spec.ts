@@ -0,0 +1,14 @@
+import { haversineMeters } from './geo';
+
+describe('haversineMeters', () => {
+  it('should return zero for the same point', () => {
+    const point = { latitude: 41.311081, longitude: 69.240562 };
+    expect(haversineMeters(point, point)).toBe(0);
+  });
+
+  it('should measure one degree of latitude as about 111 km', () => {
+    const distance = haversineMeters({ latitude: 41, longitude: 69 }, { latitude: 42, longitude: 69 });
+    expect(distance).toBeGreaterThan(111000);
+    expect(distance).toBeLessThan(111400);
+  });
+});
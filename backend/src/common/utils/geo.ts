@@ -0,0 +1,21 @@
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * Great-circle distance between two GPS coordinates (haversine formula).
+ * @returns distance in meters
+ */
+export function haversineMeters(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
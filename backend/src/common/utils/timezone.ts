@@ -115,3 +115,58 @@ export function endOfMonthTashkent(): Date {
  * Use in raw SQL: `DATE(column AT TIME ZONE 'Asia/Tashkent')`
  */
 export const PG_TASHKENT_TZ = 'Asia/Tashkent';
+
+/**
+ * Tashkent calendar date (YYYY-MM-DD) of a UTC Date.
+ *
+ * 2025-02-09T19:00:00.000Z → "2025-02-10"
+ */
+export function toTashkentDateString(date: Date): string {
+  return new Date(date.getTime() + TASHKENT_OFFSET_HOURS * 60 * 60 * 1000)
+    .toISOString()
+    .split('T')[0];
+}
+
+/**
+ * Minutes since Tashkent midnight of a UTC Date.
+ *
+ * 2025-02-09T19:30:00.000Z → 30
+ */
+export function tashkentMinutesOfDay(date: Date): number {
+  const minutes = date.getUTCHours() * 60 + date.getUTCMinutes() + TASHKENT_OFFSET_HOURS * 60;
+  return minutes % (24 * 60);
+}
+
+/** True when `timeZone` is an IANA zone name the runtime knows */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert a wall-clock time in an arbitrary IANA zone to a real UTC Date.
+ * `wallClock` carries the local time in its UTC fields, the way ExcelJS
+ * returns Excel dates.
+ *
+ * (2025-02-10T08:00:00Z, "Europe/Moscow") → 2025-02-10T05:00:00.000Z
+ */
+export function zonedTimeToUtc(wallClock: Date, timeZone: string): Date {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(wallClock);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const zoned = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  const offset = zoned - Math.floor(wallClock.getTime() / 1000) * 1000;
+  return new Date(wallClock.getTime() - offset);
+}
@@ -95,6 +95,15 @@ export default () => {
       telegramId: parseInt(process.env.ADMIN_TELEGRAM_ID || '0', 10),
       name: process.env.ADMIN_NAME || 'Администратор',
     },
+    // SMTP; email is off while MAIL_HOST is empty
+    mail: {
+      host: process.env.MAIL_HOST || '',
+      port: parseInt(process.env.MAIL_PORT || '587', 10),
+      secure: process.env.MAIL_SECURE === 'true',
+      user: process.env.MAIL_USER || '',
+      password: process.env.MAIL_PASSWORD || '',
+      from: process.env.MAIL_FROM || 'VendCash <no-reply@vendcash.local>',
+    },
     frontendUrl: process.env.FRONTEND_URL || 'http://localhost:5173',
     timezone: process.env.TZ || 'Asia/Tashkent',
     // Application settings
@@ -0,0 +1,26 @@
+import { IsEnum, IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { EmailKind } from '../entities/email-delivery.entity';
+
+export class DeliveryQueryDto {
+  @ApiProperty({ enum: EmailKind, required: false })
+  @IsEnum(EmailKind)
+  @IsOptional()
+  kind?: EmailKind;
+
+  @ApiProperty({ required: false, minimum: 1, default: 1 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  page?: number;
+
+  @ApiProperty({ required: false, minimum: 1, maximum: 100, default: 20 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+}
@@ -0,0 +1,11 @@
+import { ArrayMaxSize, ArrayMinSize, IsArray, IsEmail } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SendEmailDto {
+  @ApiProperty({ description: 'Email addresses to send to', type: [String], example: ['accountant@example.com'] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @IsEmail({}, { each: true })
+  recipients: string[];
+}
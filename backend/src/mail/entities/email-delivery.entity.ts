@@ -0,0 +1,51 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+export enum EmailKind {
+  REPORT = 'report',
+  RECONCILIATION = 'reconciliation',
+  DIGEST = 'digest',
+}
+
+export enum EmailDeliveryStatus {
+  SENT = 'sent',
+  FAILED = 'failed',
+}
+
+/**
+ * One outgoing email and how the SMTP server took it. Attachments are
+ * logged by name and size only.
+ */
+@Entity('email_deliveries')
+@Index(['createdAt'])
+export class EmailDelivery {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 30 })
+  kind: EmailKind;
+
+  @Column({ type: 'varchar', array: true })
+  recipients: string[];
+
+  @Column({ type: 'varchar', length: 255 })
+  subject: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  status: EmailDeliveryStatus;
+
+  @Column({ name: 'message_id', type: 'varchar', length: 255, nullable: true })
+  messageId: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  attachments: Array<{ filename: string; size: number }>;
+
+  // Null for scheduled mail such as the digest
+  @Column({ name: 'requested_by_id', type: 'uuid', nullable: true })
+  requestedById: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
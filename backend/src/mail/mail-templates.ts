@@ -0,0 +1,79 @@
+/** Subject and bodies of one email, ready for the transport */
+export interface MailTemplate {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const htmlToText = (html: string) =>
+  html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|h1|h2|div|tr)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/** Shared frame; inline styles only, since mail clients drop <style> blocks */
+function layout(title: string, content: string): string {
+  return (
+    `<!DOCTYPE html><html lang="ru"><head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>` +
+    `<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827">` +
+    `<div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">` +
+    `<h1 style="margin:0 0 16px;font-size:20px">${escapeHtml(title)}</h1>` +
+    content +
+    `<p style="margin:24px 0 0;font-size:12px;color:#6b7280">Письмо отправлено автоматически системой VendCash.</p>` +
+    `</div></body></html>`
+  );
+}
+
+function build(subject: string, title: string, content: string): MailTemplate {
+  const html = layout(title, content);
+  return { subject, html, text: htmlToText(content) };
+}
+
+const formatPeriod = (from: string, to: string) => (from === to ? from : `${from} — ${to}`);
+
+export function reportTemplate(period: { from: string; to: string }): MailTemplate {
+  const range = escapeHtml(formatPeriod(period.from, period.to));
+  return build(
+    `VendCash: отчёт по инкассациям за ${formatPeriod(period.from, period.to)}`,
+    'Отчёт по инкассациям',
+    `<p>Период: <b>${range}</b></p>` +
+      `<p>Во вложении Excel-файл с листами «По автоматам», «По датам» и «По операторам».</p>`,
+  );
+}
+
+export function reconciliationTemplate(period: { from?: string; to?: string }): MailTemplate {
+  const label = period.from && period.to ? formatPeriod(period.from, period.to) : 'весь период';
+  return build(
+    `VendCash: сверка инкассаций с продажами (${label})`,
+    'Сверка инкассаций с продажами',
+    `<p>Период: <b>${escapeHtml(label)}</b></p>` +
+      `<p>Во вложении Excel-файл со сверкой: ожидаемая сумма по продажам, фактическая инкассация и расхождение.</p>`,
+  );
+}
+
+/**
+ * `sections` are digest blocks in the Telegram HTML subset (<b>, <i>) with
+ * plain newlines, as DigestService builds them.
+ */
+export function digestTemplate(digest: { title: string; period: string; sections: string[]; hasAttachment: boolean }): MailTemplate {
+  const blocks = digest.sections
+    .map((s) => `<div style="margin:0 0 16px;line-height:1.5">${s.replace(/\n/g, '<br>')}</div>`)
+    .join('');
+  return build(
+    `VendCash: ${digest.title.toLowerCase()} за ${digest.period}`,
+    digest.title,
+    `<p style="color:#6b7280">${escapeHtml(digest.period)}</p>` +
+      blocks +
+      (digest.hasAttachment ? `<p>Во вложении отчёт по инкассациям за этот период.</p>` : ''),
+  );
+}
@@ -0,0 +1,29 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { MailService } from './mail.service';
+import { DeliveryQueryDto } from './dto/delivery-query.dto';
+import { Roles } from '../common/decorators/roles.decorator';
+import { RequireModule } from '../common/decorators/require-module.decorator';
+import { UserRole } from '../modules/users/entities/user.entity';
+
+@ApiTags('mail')
+@Controller('mail')
+@ApiBearerAuth()
+@RequireModule('settings')
+export class MailController {
+  constructor(private readonly mailService: MailService) {}
+
+  @Get('status')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Whether SMTP is configured' })
+  getStatus() {
+    return { enabled: this.mailService.isEnabled() };
+  }
+
+  @Get('deliveries')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Email delivery log, newest first' })
+  async findDeliveries(@Query() query: DeliveryQueryDto) {
+    return this.mailService.findDeliveries(query);
+  }
+}
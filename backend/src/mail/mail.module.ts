@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { EmailDelivery } from './entities/email-delivery.entity';
+import { MailService } from './mail.service';
+import { MailController } from './mail.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([EmailDelivery])],
+  controllers: [MailController],
+  providers: [MailService],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,140 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ServiceUnavailableException } from '@nestjs/common';
+import { createTransport } from 'nodemailer';
+import { MailService } from './mail.service';
+import { EmailDelivery, EmailDeliveryStatus, EmailKind } from './entities/email-delivery.entity';
+import { reportTemplate, digestTemplate } from './mail-templates';
+
+jest.mock('nodemailer', () => ({ createTransport: jest.fn() }));
+
+describe('MailService', () => {
+  let repository: { create: jest.Mock; save: jest.Mock; findAndCount: jest.Mock };
+  let sendMail: jest.Mock;
+
+  const createService = async (config: Record<string, unknown>): Promise<MailService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MailService,
+        { provide: ConfigService, useValue: { get: jest.fn((key: string) => config[key]) } },
+        { provide: getRepositoryToken(EmailDelivery), useValue: repository },
+      ],
+    }).compile();
+    return module.get(MailService);
+  };
+
+  const smtp = {
+    'mail.host': 'localhost',
+    'mail.port': 1025,
+    'mail.secure': false,
+    'mail.from': 'VendCash <no-reply@vendcash.local>',
+  };
+
+  beforeEach(() => {
+    repository = {
+      create: jest.fn((data) => data),
+      save: jest.fn(async (data) => ({ id: 'delivery-1', ...data })),
+      findAndCount: jest.fn(),
+    };
+    sendMail = jest.fn().mockResolvedValue({ messageId: '<abc@localhost>' });
+    (createTransport as jest.Mock).mockReset().mockReturnValue({ sendMail });
+  });
+
+  it('should stay disabled without a host', async () => {
+    const service = await createService({});
+
+    expect(service.isEnabled()).toBe(false);
+    expect(createTransport).not.toHaveBeenCalled();
+    await expect(
+      service.send({ kind: EmailKind.REPORT, to: ['a@example.com'], template: reportTemplate({ from: '2025-02-01', to: '2025-02-28' }) }),
+    ).rejects.toThrow(ServiceUnavailableException);
+  });
+
+  it('should only authenticate when a user is configured', async () => {
+    await createService(smtp);
+    expect(createTransport).toHaveBeenCalledWith({ host: 'localhost', port: 1025, secure: false, auth: undefined });
+
+    await createService({ ...smtp, 'mail.user': 'bot', 'mail.password': 'secret' });
+    expect(createTransport).toHaveBeenLastCalledWith(
+      expect.objectContaining({ auth: { user: 'bot', pass: 'secret' } }),
+    );
+  });
+
+  it('should send and log the delivery with attachment sizes', async () => {
+    const service = await createService(smtp);
+    const content = Buffer.from('xlsx');
+
+    const delivery = await service.send({
+      kind: EmailKind.REPORT,
+      to: ['a@example.com'],
+      template: reportTemplate({ from: '2025-02-01', to: '2025-02-28' }),
+      attachments: [{ filename: 'report.xlsx', content }],
+      requestedById: 'manager-1',
+    });
+
+    expect(sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        from: 'VendCash <no-reply@vendcash.local>',
+        to: ['a@example.com'],
+        subject: 'VendCash: отчёт по инкассациям за 2025-02-01 — 2025-02-28',
+        attachments: [{ filename: 'report.xlsx', content }],
+      }),
+    );
+    expect(delivery).toEqual(
+      expect.objectContaining({
+        status: EmailDeliveryStatus.SENT,
+        messageId: '<abc@localhost>',
+        attachments: [{ filename: 'report.xlsx', size: 4 }],
+        requestedById: 'manager-1',
+      }),
+    );
+  });
+
+  it('should log a failed delivery instead of throwing', async () => {
+    const service = await createService(smtp);
+    sendMail.mockRejectedValue(new Error('Connection refused'));
+
+    const delivery = await service.send({
+      kind: EmailKind.DIGEST,
+      to: ['a@example.com'],
+      template: reportTemplate({ from: '2025-02-01', to: '2025-02-01' }),
+    });
+
+    expect(repository.save).toHaveBeenCalled();
+    expect(delivery.status).toBe(EmailDeliveryStatus.FAILED);
+    expect(delivery.error).toBe('Connection refused');
+    expect(delivery.requestedById).toBeNull();
+  });
+
+  it('should page the delivery log newest first', async () => {
+    const service = await createService(smtp);
+    repository.findAndCount.mockResolvedValue([[{ id: 'delivery-1' }], 21]);
+
+    const result = await service.findDeliveries({ kind: EmailKind.REPORT, page: 2, limit: 20 });
+
+    expect(result).toEqual({ data: [{ id: 'delivery-1' }], total: 21 });
+    expect(repository.findAndCount).toHaveBeenCalledWith({
+      where: { kind: EmailKind.REPORT },
+      order: { createdAt: 'DESC' },
+      skip: 20,
+      take: 20,
+    });
+  });
+});
+
+describe('mail templates', () => {
+  it('should keep digest markup and turn newlines into breaks', () => {
+    const template = digestTemplate({
+      title: 'Дайджест',
+      period: '10.02.2025',
+      sections: ['<b>💰 Инкассации</b>\nСобрано: <b>3</b>'],
+      hasAttachment: false,
+    });
+
+    expect(template.subject).toBe('VendCash: дайджест за 10.02.2025');
+    expect(template.html).toContain('<b>💰 Инкассации</b><br>Собрано: <b>3</b>');
+    expect(template.html).not.toContain('Во вложении');
+    expect(template.text).toContain('💰 Инкассации\nСобрано: 3');
+  });
+});
@@ -0,0 +1,109 @@
+import { Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createTransport, Transporter } from 'nodemailer';
+import { EmailDelivery, EmailDeliveryStatus, EmailKind } from './entities/email-delivery.entity';
+import { MailTemplate } from './mail-templates';
+import { DeliveryQueryDto } from './dto/delivery-query.dto';
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+export interface SendMailOptions {
+  kind: EmailKind;
+  to: string[];
+  template: MailTemplate;
+  attachments?: MailAttachment[];
+  requestedById?: string | null;
+}
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Sends email over SMTP and logs every attempt. Without MAIL_HOST the
+ * channel is off: `isEnabled()` is false and `send` refuses.
+ */
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+  private readonly transporter: Transporter | null;
+  private readonly from: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(EmailDelivery)
+    private readonly deliveryRepository: Repository<EmailDelivery>,
+  ) {
+    const host = this.configService.get<string>('mail.host');
+    const user = this.configService.get<string>('mail.user');
+    this.from = this.configService.get<string>('mail.from') || 'VendCash <no-reply@vendcash.local>';
+    this.transporter = host
+      ? createTransport({
+          host,
+          port: this.configService.get<number>('mail.port'),
+          secure: this.configService.get<boolean>('mail.secure'),
+          auth: user ? { user, pass: this.configService.get<string>('mail.password') } : undefined,
+        })
+      : null;
+  }
+
+  isEnabled(): boolean {
+    return this.transporter !== null;
+  }
+
+  /** Resolves with the logged delivery also when the SMTP server rejected it */
+  async send(options: SendMailOptions): Promise<EmailDelivery> {
+    if (!this.transporter) {
+      throw new ServiceUnavailableException('Email is not configured');
+    }
+
+    const attachments = options.attachments || [];
+    const delivery = this.deliveryRepository.create({
+      kind: options.kind,
+      recipients: options.to,
+      subject: options.template.subject,
+      attachments: attachments.map((a) => ({ filename: a.filename, size: a.content.length })),
+      requestedById: options.requestedById ?? null,
+      messageId: null,
+      error: null,
+    });
+
+    try {
+      const info = await this.transporter.sendMail({
+        from: this.from,
+        to: options.to,
+        subject: options.template.subject,
+        html: options.template.html,
+        text: options.template.text,
+        attachments,
+      });
+      delivery.status = EmailDeliveryStatus.SENT;
+      delivery.messageId = info.messageId || null;
+    } catch (error) {
+      delivery.status = EmailDeliveryStatus.FAILED;
+      delivery.error = getErrorMessage(error);
+      this.logger.error(`Failed to send ${options.kind} email to ${options.to.join(', ')}: ${delivery.error}`);
+    }
+
+    return this.deliveryRepository.save(delivery);
+  }
+
+  async findDeliveries(query: DeliveryQueryDto): Promise<{ data: EmailDelivery[]; total: number }> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const [data, total] = await this.deliveryRepository.findAndCount({
+      where: query.kind ? { kind: query.kind } : {},
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { data, total };
+  }
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add optional banknote/coin breakdown to collections.
+ *
+ * Stored as a JSONB array of { currency, value, count } entries.
+ * UZS entries must sum to collections.amount (validated in CollectionsService).
+ */
+export class AddCollectionDenominations1739000000000 implements MigrationInterface {
+  name = 'AddCollectionDenominations1739000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "collections" ADD COLUMN IF NOT EXISTS "denominations" jsonb`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "collections" DROP COLUMN IF EXISTS "denominations"`);
+  }
+}
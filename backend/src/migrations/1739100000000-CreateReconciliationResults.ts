@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Persisted reconciliation runs.
+ *
+ * Every row is a snapshot of one ReconciliationItem; rows of the same run
+ * share run_id. No foreign keys on purpose — history must survive deletion
+ * of sales batches and edits of collections.
+ */
+export class CreateReconciliationResults1739100000000 implements MigrationInterface {
+  name = 'CreateReconciliationResults1739100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "reconciliation_results" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "run_id" uuid NOT NULL,
+        "trigger" varchar(20) NOT NULL DEFAULT 'scheduled',
+        "collection_id" uuid,
+        "machine_code" varchar(50) NOT NULL,
+        "machine_name" varchar(255),
+        "period_start" TIMESTAMP NOT NULL,
+        "period_end" TIMESTAMP NOT NULL,
+        "expected_amount" decimal(15, 2) NOT NULL,
+        "actual_amount" decimal(15, 2) NOT NULL,
+        "difference" decimal(15, 2) NOT NULL,
+        "percent_deviation" decimal(8, 2) NOT NULL,
+        "status" varchar(20) NOT NULL,
+        "cash_orders_count" integer NOT NULL DEFAULT 0,
+        "alerted" boolean NOT NULL DEFAULT false,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_reconciliation_results_run" ON "reconciliation_results" ("run_id")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_reconciliation_results_collection" ON "reconciliation_results" ("collection_id", "created_at")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "reconciliation_results"`);
+  }
+}
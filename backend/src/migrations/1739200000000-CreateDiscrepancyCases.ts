@@ -0,0 +1,83 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateDiscrepancyCases1739200000000 implements MigrationInterface {
+  name = 'CreateDiscrepancyCases1739200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "discrepancy_cases_kind_enum" AS ENUM('shortage', 'overage');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "discrepancy_cases_status_enum" AS ENUM(
+          'open', 'investigating', 'explained', 'written_off', 'recovered_from_operator'
+        );
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "discrepancy_cases" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "collection_id" uuid NOT NULL REFERENCES "collections"("id"),
+        "kind" "discrepancy_cases_kind_enum" NOT NULL,
+        "status" "discrepancy_cases_status_enum" NOT NULL DEFAULT 'open',
+        "expected_amount" decimal(15, 2) NOT NULL,
+        "actual_amount" decimal(15, 2) NOT NULL,
+        "difference" decimal(15, 2) NOT NULL,
+        "owner_id" uuid REFERENCES "users"("id"),
+        "resolution" text,
+        "recovered_amount" decimal(15, 2),
+        "created_by_id" uuid NOT NULL REFERENCES "users"("id"),
+        "closed_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_discrepancy_cases_collection" ON "discrepancy_cases" ("collection_id")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_discrepancy_cases_status_created" ON "discrepancy_cases" ("status", "created_at")`);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "discrepancy_comments" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "case_id" uuid NOT NULL REFERENCES "discrepancy_cases"("id") ON DELETE CASCADE,
+        "author_id" uuid NOT NULL REFERENCES "users"("id"),
+        "text" text,
+        "status_from" varchar(30),
+        "status_to" varchar(30),
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_discrepancy_comments_case" ON "discrepancy_comments" ("case_id", "created_at")`);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "discrepancy_attachments" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "case_id" uuid NOT NULL REFERENCES "discrepancy_cases"("id") ON DELETE CASCADE,
+        "original_name" varchar(255) NOT NULL,
+        "mime_type" varchar(100),
+        "file_size" integer,
+        "telegram_file_id" varchar(255) NOT NULL,
+        "telegram_message_id" integer,
+        "uploaded_by_id" uuid NOT NULL REFERENCES "users"("id"),
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        PRIMARY KEY ("id")
+      )
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "discrepancy_attachments"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "discrepancy_comments"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "discrepancy_cases"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "discrepancy_cases_status_enum"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "discrepancy_cases_kind_enum"`);
+  }
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Cash handovers: one manager receipt covering several collections of an operator.
+ * Collections received one by one keep handover_id NULL.
+ */
+export class CreateCashHandovers1739300000000 implements MigrationInterface {
+  name = 'CreateCashHandovers1739300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "cash_handovers" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "operator_id" uuid NOT NULL REFERENCES "users"("id"),
+        "manager_id" uuid NOT NULL REFERENCES "users"("id"),
+        "total_amount" decimal(15, 2) NOT NULL,
+        "collections_count" integer NOT NULL,
+        "notes" text,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_cash_handovers_operator_created" ON "cash_handovers" ("operator_id", "created_at")`);
+
+    await queryRunner.query(`
+      ALTER TABLE "collections"
+      ADD COLUMN IF NOT EXISTS "handover_id" uuid REFERENCES "cash_handovers"("id") ON DELETE SET NULL
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_collections_handover" ON "collections" ("handover_id")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_collections_handover"`);
+    await queryRunner.query(`ALTER TABLE "collections" DROP COLUMN IF EXISTS "handover_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "cash_handovers"`);
+  }
+}
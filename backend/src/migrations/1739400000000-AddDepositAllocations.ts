@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Link bank deposits to the received collections they cover.
+ * Adds deposit slip number and bank account to bank_deposits.
+ */
+export class AddDepositAllocations1739400000000 implements MigrationInterface {
+  name = 'AddDepositAllocations1739400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "bank_deposits" ADD COLUMN IF NOT EXISTS "slip_number" varchar(50)`);
+    await queryRunner.query(`ALTER TABLE "bank_deposits" ADD COLUMN IF NOT EXISTS "bank_account" varchar(50)`);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "deposit_allocations" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "deposit_id" uuid NOT NULL REFERENCES "bank_deposits"("id") ON DELETE CASCADE,
+        "collection_id" uuid NOT NULL REFERENCES "collections"("id"),
+        "amount" decimal(15, 2) NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_deposit_allocations_deposit_collection" ON "deposit_allocations" ("deposit_id", "collection_id")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_deposit_allocations_collection" ON "deposit_allocations" ("collection_id")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "deposit_allocations"`);
+    await queryRunner.query(`ALTER TABLE "bank_deposits" DROP COLUMN IF EXISTS "bank_account"`);
+    await queryRunner.query(`ALTER TABLE "bank_deposits" DROP COLUMN IF EXISTS "slip_number"`);
+  }
+}
@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Record which bank statement line confirmed a deposit.
+ */
+export class AddDepositBankConfirmation1739500000000 implements MigrationInterface {
+  name = 'AddDepositBankConfirmation1739500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "bank_deposits" ADD COLUMN IF NOT EXISTS "bank_reference" varchar(100)`);
+    await queryRunner.query(`ALTER TABLE "bank_deposits" ADD COLUMN IF NOT EXISTS "bank_confirmed_at" TIMESTAMP`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_bank_deposits_deposit_date" ON "bank_deposits" ("deposit_date")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_bank_deposits_deposit_date"`);
+    await queryRunner.query(`ALTER TABLE "bank_deposits" DROP COLUMN IF EXISTS "bank_confirmed_at"`);
+    await queryRunner.query(`ALTER TABLE "bank_deposits" DROP COLUMN IF EXISTS "bank_reference"`);
+  }
+}
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Audit trail for edited and cancelled bank deposits.
+ */
+export class AddDepositHistory1739600000000 implements MigrationInterface {
+  name = 'AddDepositHistory1739600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "bank_deposits" ADD COLUMN IF NOT EXISTS "cancelled_at" TIMESTAMP`);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "deposit_history" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "deposit_id" uuid NOT NULL REFERENCES "bank_deposits"("id") ON DELETE CASCADE,
+        "changed_by" uuid NOT NULL REFERENCES "users"("id"),
+        "field_name" varchar(50) NOT NULL,
+        "old_value" text,
+        "new_value" text,
+        "reason" text NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_deposit_history_deposit" ON "deposit_history" ("deposit_id")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "deposit_history"`);
+    await queryRunner.query(`ALTER TABLE "bank_deposits" DROP COLUMN IF EXISTS "cancelled_at"`);
+  }
+}
@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Named sales import layouts, editable by admins.
+ */
+export class AddSalesImportProfiles1739700000000 implements MigrationInterface {
+  name = 'AddSalesImportProfiles1739700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "sales_import_profiles" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "name" varchar(100) NOT NULL,
+        "description" text,
+        "columns" jsonb NOT NULL,
+        "header_row" int NOT NULL DEFAULT 1,
+        "date_format" varchar(50) NOT NULL DEFAULT 'auto',
+        "timezone" varchar(50) NOT NULL DEFAULT 'Asia/Tashkent',
+        "payments" jsonb NOT NULL,
+        "skip_rules" jsonb NOT NULL DEFAULT '[]',
+        "detect_headers" jsonb NOT NULL DEFAULT '[]',
+        "is_active" boolean NOT NULL DEFAULT true,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_sales_import_profiles_name" ON "sales_import_profiles" ("name")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "sales_import_profiles"`);
+  }
+}
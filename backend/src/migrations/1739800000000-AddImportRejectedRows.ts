@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Rows skipped or rejected during a sales import, with their raw values.
+ */
+export class AddImportRejectedRows1739800000000 implements MigrationInterface {
+  name = 'AddImportRejectedRows1739800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "import_rejected_rows" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "batch_id" varchar(50) NOT NULL,
+        "row_number" int NOT NULL,
+        "reason" varchar(30) NOT NULL,
+        "message" text,
+        "headers" jsonb NOT NULL,
+        "raw_values" jsonb NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_import_rejected_rows_batch" ON "import_rejected_rows" ("batch_id", "row_number")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "import_rejected_rows"`);
+  }
+}
@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Vendor machine codes mapped to our machines for sales import.
+ */
+export class AddMachineCodeAliases1739900000000 implements MigrationInterface {
+  name = 'AddMachineCodeAliases1739900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "machine_code_aliases" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "code" varchar(50) NOT NULL,
+        "machine_id" uuid NOT NULL REFERENCES "machines"("id") ON DELETE CASCADE,
+        "created_by_id" uuid REFERENCES "users"("id"),
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_machine_code_aliases_code" ON "machine_code_aliases" ("code")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "machine_code_aliases"`);
+  }
+}
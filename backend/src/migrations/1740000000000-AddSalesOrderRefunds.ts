@@ -0,0 +1,60 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Refund orders linked to the order they reverse, per-machine setting for
+ * cash refunds paid out of the box, and the refund amount in reconciliation
+ * snapshots.
+ */
+export class AddSalesOrderRefunds1740000000000 implements MigrationInterface {
+  name = 'AddSalesOrderRefunds1740000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "sales_orders"
+      ADD COLUMN IF NOT EXISTS "refund_of_id" uuid REFERENCES "sales_orders"("id") ON DELETE SET NULL
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_sales_orders_refund_of" ON "sales_orders" ("refund_of_id")`);
+
+    // A refund row usually repeats the number, machine and time of the sale it
+    // reverses; without the status in the key it would be dropped as a duplicate
+    await queryRunner.query(`DROP INDEX IF EXISTS "UQ_sales_order_dedup"`);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "UQ_sales_order_dedup"
+      ON "sales_orders" ("order_number", "machine_code", "order_date", "payment_status")
+      WHERE "order_number" IS NOT NULL
+    `);
+
+    await queryRunner.query(`
+      UPDATE "sales_orders" r
+      SET "refund_of_id" = o."id"
+      FROM "sales_orders" o
+      WHERE r."payment_status" = 'refunded'
+        AND r."refund_of_id" IS NULL
+        AND o."payment_status" = 'paid'
+        AND o."order_number" = r."order_number"
+        AND LOWER(o."machine_code") = LOWER(r."machine_code")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "machines"
+      ADD COLUMN IF NOT EXISTS "cash_refunds_from_box" boolean NOT NULL DEFAULT false
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "reconciliation_results"
+      ADD COLUMN IF NOT EXISTS "refunds_amount" decimal(15,2) NOT NULL DEFAULT 0
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "reconciliation_results" DROP COLUMN IF EXISTS "refunds_amount"`);
+    await queryRunner.query(`ALTER TABLE "machines" DROP COLUMN IF EXISTS "cash_refunds_from_box"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "UQ_sales_order_dedup"`);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "UQ_sales_order_dedup"
+      ON "sales_orders" ("order_number", "machine_code", "order_date")
+      WHERE "order_number" IS NOT NULL
+    `);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_sales_orders_refund_of"`);
+    await queryRunner.query(`ALTER TABLE "sales_orders" DROP COLUMN IF EXISTS "refund_of_id"`);
+  }
+}
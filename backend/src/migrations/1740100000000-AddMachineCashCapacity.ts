@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * How much cash a machine's box holds, used to project when it fills up.
+ */
+export class AddMachineCashCapacity1740100000000 implements MigrationInterface {
+  name = 'AddMachineCashCapacity1740100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "machines"
+      ADD COLUMN IF NOT EXISTS "cash_capacity" decimal(15,2)
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "machines" DROP COLUMN IF EXISTS "cash_capacity"`);
+  }
+}
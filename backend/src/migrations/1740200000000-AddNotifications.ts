@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Stored notifications so clients that were offline when one was emitted can
+ * still see it, with per-user read state.
+ */
+export class AddNotifications1740200000000 implements MigrationInterface {
+  name = 'AddNotifications1740200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "notifications" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "type" varchar(50) NOT NULL,
+        "data" jsonb NOT NULL,
+        "recipient_user_ids" uuid[] NOT NULL DEFAULT '{}',
+        "recipient_roles" varchar(20)[] NOT NULL DEFAULT '{}',
+        "read_by" uuid[] NOT NULL DEFAULT '{}',
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_notifications_created_at" ON "notifications" ("created_at")`);
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_notifications_recipient_user_ids"
+      ON "notifications" USING GIN ("recipient_user_ids")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "notifications"`);
+  }
+}
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Per-user notification channels and quiet hours, and the users a stored
+ * notification was muted for.
+ */
+export class AddNotificationPreferences1740300000000 implements MigrationInterface {
+  name = 'AddNotificationPreferences1740300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "notification_preferences" (
+        "user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+        "events" jsonb NOT NULL DEFAULT '{}',
+        "quiet_hours_start" varchar(5),
+        "quiet_hours_end" varchar(5),
+        "digest_email" varchar(255),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        PRIMARY KEY ("user_id")
+      )
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "notifications"
+      ADD COLUMN IF NOT EXISTS "muted_user_ids" uuid[] NOT NULL DEFAULT '{}'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "notifications" DROP COLUMN IF EXISTS "muted_user_ids"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "notification_preferences"`);
+  }
+}
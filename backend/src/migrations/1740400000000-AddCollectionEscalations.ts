@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Escalation history of collections left pending past the SLA: the
+ * operator reminder and the manager alert, with when they were sent.
+ */
+export class AddCollectionEscalations1740400000000 implements MigrationInterface {
+  name = 'AddCollectionEscalations1740400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "collections"
+      ADD COLUMN IF NOT EXISTS "escalations" jsonb NOT NULL DEFAULT '[]'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "collections" DROP COLUMN IF EXISTS "escalations"`);
+  }
+}
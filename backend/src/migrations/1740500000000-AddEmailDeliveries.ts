@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Log of emails sent over SMTP: reports, reconciliation exports and digests.
+ */
+export class AddEmailDeliveries1740500000000 implements MigrationInterface {
+  name = 'AddEmailDeliveries1740500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "email_deliveries" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "kind" varchar(30) NOT NULL,
+        "recipients" varchar[] NOT NULL,
+        "subject" varchar(255) NOT NULL,
+        "status" varchar(20) NOT NULL,
+        "message_id" varchar(255),
+        "error" text,
+        "attachments" jsonb NOT NULL DEFAULT '[]',
+        "requested_by_id" uuid REFERENCES "users"("id") ON DELETE SET NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_email_deliveries_created_at" ON "email_deliveries" ("created_at")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "email_deliveries"`);
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Status of background sales imports, so a job that died with its process
+ * is reported as failed instead of disappearing.
+ */
+export class AddSalesImportJobs1740600000000 implements MigrationInterface {
+  name = 'AddSalesImportJobs1740600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "sales_import_jobs" (
+        "id" uuid NOT NULL,
+        "user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+        "file_name" varchar(255) NOT NULL,
+        "batch_id" varchar(50) NOT NULL,
+        "status" varchar(20) NOT NULL,
+        "percent" int NOT NULL DEFAULT 0,
+        "processed_rows" int NOT NULL DEFAULT 0,
+        "result" jsonb,
+        "error" text,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_sales_import_jobs_batch_id" ON "sales_import_jobs" ("batch_id")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "sales_import_jobs"`);
+  }
+}
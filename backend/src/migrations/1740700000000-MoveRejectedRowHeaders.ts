@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Store the header row of rejected rows once per batch instead of on
+ * every row.
+ */
+export class MoveRejectedRowHeaders1740700000000 implements MigrationInterface {
+  name = 'MoveRejectedRowHeaders1740700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "import_rejected_headers" (
+        "batch_id" varchar(50) NOT NULL,
+        "headers" jsonb NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        PRIMARY KEY ("batch_id")
+      )
+    `);
+    await queryRunner.query(`
+      INSERT INTO "import_rejected_headers" ("batch_id", "headers", "created_at")
+      SELECT DISTINCT ON ("batch_id") "batch_id", "headers", "created_at"
+      FROM "import_rejected_rows"
+      ORDER BY "batch_id", "row_number"
+      ON CONFLICT ("batch_id") DO NOTHING
+    `);
+    await queryRunner.query(`ALTER TABLE "import_rejected_rows" DROP COLUMN IF EXISTS "headers"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "import_rejected_rows" ADD COLUMN IF NOT EXISTS "headers" jsonb NOT NULL DEFAULT '[]'`);
+    await queryRunner.query(`
+      UPDATE "import_rejected_rows" r SET "headers" = h."headers"
+      FROM "import_rejected_headers" h
+      WHERE h."batch_id" = r."batch_id"
+    `);
+    await queryRunner.query(`ALTER TABLE "import_rejected_rows" ALTER COLUMN "headers" DROP DEFAULT`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "import_rejected_headers"`);
+  }
+}
@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+/**
+ * Track the web inbox notification of a shortage apart from the Telegram
+ * alert, so a shortage retried on Telegram is not posted to the inbox again.
+ */
+export class AddReconciliationWebNotified1740800000000 implements MigrationInterface {
+  name = 'AddReconciliationWebNotified1740800000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "reconciliation_results"
+      ADD COLUMN IF NOT EXISTS "web_notified" boolean NOT NULL DEFAULT false
+    `)
+    // Until now both channels were notified together
+    await queryRunner.query(
+      `UPDATE "reconciliation_results" SET "web_notified" = true WHERE "alerted"`,
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "reconciliation_results" DROP COLUMN IF EXISTS "web_notified"`,
+    )
+  }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Telegram messages waiting for the end of the recipient's quiet hours.
+ */
+export class AddDeferredTelegramMessages1740900000000 implements MigrationInterface {
+  name = 'AddDeferredTelegramMessages1740900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "deferred_telegram_messages" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+        "text" text NOT NULL,
+        "deliver_at" TIMESTAMP NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_deferred_telegram_messages_deliver_at" ON "deferred_telegram_messages" ("deliver_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "deferred_telegram_messages"`);
+  }
+}
@@ -0,0 +1,178 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CollectionEscalationService, isOverdue } from './collection-escalation.service';
+import { Collection, CollectionStatus, EscalationLevel } from './entities/collection.entity';
+import { SettingsService, SETTING_KEYS } from '../settings/settings.service';
+import { TelegramService } from '../../telegram/telegram.service';
+
+describe('CollectionEscalationService', () => {
+  let service: CollectionEscalationService;
+  let repository: { find: jest.Mock; manager: { query: jest.Mock } };
+  let telegramService: {
+    remindOperatorAboutPendingCollections: jest.Mock;
+    alertManagersAboutStaleCollections: jest.Mock;
+  };
+
+  const now = new Date('2025-02-11T12:00:00.000Z');
+
+  const makeCollection = (
+    id: string,
+    operatorId: string,
+    escalations: Collection['escalations'] = [],
+    createdAt = new Date('2025-02-09T12:00:00.000Z'),
+  ) =>
+    ({
+      id,
+      operatorId,
+      operator: { id: operatorId, name: `Operator ${operatorId}`, telegramId: 100 },
+      machine: { name: `Machine ${id}`, code: id },
+      status: CollectionStatus.COLLECTED,
+      collectedAt: new Date('2025-02-09T12:00:00.000Z'),
+      createdAt,
+      escalations,
+    }) as unknown as Collection;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CollectionEscalationService,
+        {
+          provide: getRepositoryToken(Collection),
+          useValue: { find: jest.fn().mockResolvedValue([]), manager: { query: jest.fn() } },
+        },
+        {
+          provide: SettingsService,
+          useValue: {
+            getNumericSetting: jest.fn().mockImplementation(async (key: string, fallback: number) =>
+              key === SETTING_KEYS.PENDING_SLA_HOURS ? 24 : fallback,
+            ),
+          },
+        },
+        {
+          provide: TelegramService,
+          useValue: {
+            remindOperatorAboutPendingCollections: jest.fn().mockResolvedValue(true),
+            alertManagersAboutStaleCollections: jest.fn().mockResolvedValue(2),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(CollectionEscalationService);
+    repository = module.get(getRepositoryToken(Collection));
+    telegramService = module.get(TelegramService);
+  });
+
+  it('should look for collections created before the SLA', async () => {
+    await service.escalate(now);
+
+    const where = repository.find.mock.calls[0][0].where;
+    expect(where.status).toBe(CollectionStatus.COLLECTED);
+    expect(where.createdAt.value).toEqual(new Date('2025-02-10T12:00:00.000Z'));
+  });
+
+  it('should send one reminder per operator and record it', async () => {
+    repository.find.mockResolvedValue([
+      makeCollection('c1', 'op1'),
+      makeCollection('c2', 'op1'),
+      makeCollection('c3', 'op2'),
+    ]);
+
+    const result = await service.escalate(now);
+
+    expect(result).toEqual({ reminded: 3, alerted: 0 });
+    expect(telegramService.remindOperatorAboutPendingCollections).toHaveBeenCalledTimes(2);
+    expect(telegramService.remindOperatorAboutPendingCollections.mock.calls[0][1]).toHaveLength(2);
+    expect(telegramService.alertManagersAboutStaleCollections).not.toHaveBeenCalled();
+    expect(repository.manager.query).toHaveBeenCalledWith(expect.stringContaining('escalations ||'), [
+      ['c1', 'c2'],
+      JSON.stringify([{ level: EscalationLevel.OPERATOR_REMINDER, at: now.toISOString(), notified: 1 }]),
+    ]);
+  });
+
+  it('should alert managers once the escalation delay after the reminder has passed', async () => {
+    const remindedLongAgo = [{ level: EscalationLevel.OPERATOR_REMINDER, at: '2025-02-10T23:00:00.000Z', notified: 1 }];
+    const remindedRecently = [{ level: EscalationLevel.OPERATOR_REMINDER, at: '2025-02-11T06:00:00.000Z', notified: 1 }];
+    repository.find.mockResolvedValue([
+      makeCollection('c1', 'op1', remindedLongAgo),
+      makeCollection('c2', 'op1', remindedRecently),
+    ]);
+
+    const result = await service.escalate(now);
+
+    expect(result).toEqual({ reminded: 0, alerted: 1 });
+    expect(telegramService.alertManagersAboutStaleCollections).toHaveBeenCalledWith(
+      [expect.objectContaining({ id: 'c1' })],
+      36,
+    );
+    expect(repository.manager.query).toHaveBeenCalledWith(expect.any(String), [
+      ['c1'],
+      JSON.stringify([{ level: EscalationLevel.MANAGER_ALERT, at: now.toISOString(), notified: 2 }]),
+    ]);
+  });
+
+  it('should not escalate a collection twice', async () => {
+    repository.find.mockResolvedValue([
+      makeCollection('c1', 'op1', [
+        { level: EscalationLevel.OPERATOR_REMINDER, at: '2025-02-10T00:00:00.000Z', notified: 1 },
+        { level: EscalationLevel.MANAGER_ALERT, at: '2025-02-10T12:00:00.000Z', notified: 2 },
+      ]),
+    ]);
+
+    const result = await service.escalate(now);
+
+    expect(result).toEqual({ reminded: 0, alerted: 0 });
+    expect(repository.manager.query).not.toHaveBeenCalled();
+  });
+
+  it('should not record an undelivered reminder, so it is retried', async () => {
+    telegramService.remindOperatorAboutPendingCollections.mockResolvedValue(false);
+    repository.find.mockResolvedValue([makeCollection('c1', 'op1', [], new Date('2025-02-10T06:00:00.000Z'))]);
+
+    const result = await service.escalate(now);
+
+    expect(result).toEqual({ reminded: 0, alerted: 0 });
+    expect(repository.manager.query).not.toHaveBeenCalled();
+  });
+
+  it('should not record a manager alert nobody received', async () => {
+    telegramService.alertManagersAboutStaleCollections.mockResolvedValue(0);
+    repository.find.mockResolvedValue([
+      makeCollection('c1', 'op1', [{ level: EscalationLevel.OPERATOR_REMINDER, at: '2025-02-10T23:00:00.000Z', notified: 1 }]),
+    ]);
+
+    const result = await service.escalate(now);
+
+    expect(telegramService.alertManagersAboutStaleCollections).toHaveBeenCalled();
+    expect(result).toEqual({ reminded: 0, alerted: 0 });
+    expect(repository.manager.query).not.toHaveBeenCalled();
+  });
+
+  it('should alert managers when the operator could not be reminded by the escalation deadline', async () => {
+    telegramService.remindOperatorAboutPendingCollections.mockResolvedValue(false);
+    repository.find.mockResolvedValue([makeCollection('c1', 'op1')]);
+
+    const result = await service.escalate(now);
+
+    expect(result).toEqual({ reminded: 0, alerted: 1 });
+    expect(telegramService.alertManagersAboutStaleCollections).toHaveBeenCalledWith(
+      [expect.objectContaining({ id: 'c1' })],
+      36,
+    );
+    expect(repository.manager.query).toHaveBeenCalledTimes(1);
+    expect(repository.manager.query.mock.calls[0][1][1]).toContain(EscalationLevel.MANAGER_ALERT);
+  });
+
+  it('should not throw from the cron job when escalation fails', async () => {
+    repository.find.mockRejectedValue(new Error('DB down'));
+
+    await expect(service.runEscalation()).resolves.toBeUndefined();
+  });
+
+  it('isOverdue should be true once the collection was escalated', () => {
+    expect(isOverdue({ escalations: [] })).toBe(false);
+    expect(
+      isOverdue({ escalations: [{ level: EscalationLevel.OPERATOR_REMINDER, at: now.toISOString(), notified: 0 }] }),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,121 @@
+import { Inject, Injectable, Logger, forwardRef } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { LessThan, Repository } from 'typeorm';
+import {
+  Collection,
+  CollectionEscalation,
+  CollectionStatus,
+  EscalationLevel,
+} from './entities/collection.entity';
+import { SettingsService, SETTING_KEYS } from '../settings/settings.service';
+import { TelegramService } from '../../telegram/telegram.service';
+import { PG_TASHKENT_TZ } from '../../common/utils/timezone';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** True once the collection got its first escalation, i.e. waited past the SLA */
+export const isOverdue = (collection: Pick<Collection, 'escalations'>): boolean =>
+  (collection.escalations || []).length > 0;
+
+/**
+ * Escalates collections stuck in COLLECTED. Past the SLA the operator is
+ * reminded to hand over the cash; if the collection is still pending some
+ * hours later, managers and admins are alerted. A step is stored on the
+ * collection once a message for it went out, and is retried on later runs
+ * until then. When the operator can't be reached, managers are alerted once
+ * the collection has waited as long as it would have with a reminder.
+ *
+ * Waiting time counts from when the collection entered the system, so
+ * back-dated history entries get the full SLA too.
+ */
+@Injectable()
+export class CollectionEscalationService {
+  private readonly logger = new Logger(CollectionEscalationService.name);
+
+  constructor(
+    @InjectRepository(Collection)
+    private readonly collectionRepository: Repository<Collection>,
+    private readonly settingsService: SettingsService,
+    @Inject(forwardRef(() => TelegramService))
+    private readonly telegramService: TelegramService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_30_MINUTES, { timeZone: PG_TASHKENT_TZ })
+  async runEscalation() {
+    try {
+      const { reminded, alerted } = await this.escalate();
+      if (reminded > 0 || alerted > 0) {
+        this.logger.log(`Pending escalation: ${reminded} operator reminders, ${alerted} collections alerted`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to escalate pending collections:', error);
+    }
+  }
+
+  async escalate(now = new Date()): Promise<{ reminded: number; alerted: number }> {
+    const slaHours = await this.settingsService.getNumericSetting(SETTING_KEYS.PENDING_SLA_HOURS, 24);
+    const escalationHours = await this.settingsService.getNumericSetting(SETTING_KEYS.PENDING_ESCALATION_HOURS, 12);
+
+    const overdue = await this.collectionRepository.find({
+      where: {
+        status: CollectionStatus.COLLECTED,
+        createdAt: LessThan(new Date(now.getTime() - slaHours * HOUR_MS)),
+      },
+      relations: ['machine', 'operator'],
+      order: { createdAt: 'ASC' },
+    });
+
+    const has = (c: Collection, level: EscalationLevel) => (c.escalations || []).find((e) => e.level === level);
+    const toRemind = overdue.filter((c) => !has(c, EscalationLevel.OPERATOR_REMINDER));
+
+    // One reminder per operator, listing all of their overdue collections
+    const byOperator = new Map<string, Collection[]>();
+    for (const c of toRemind) {
+      byOperator.set(c.operatorId, [...(byOperator.get(c.operatorId) || []), c]);
+    }
+    const remindedNow = new Set<string>();
+    for (const collections of byOperator.values()) {
+      const delivered = await this.telegramService.remindOperatorAboutPendingCollections(
+        collections[0].operator,
+        collections,
+        slaHours,
+      );
+      if (delivered) {
+        await this.record(collections, EscalationLevel.OPERATOR_REMINDER, 1, now);
+        collections.forEach((c) => remindedNow.add(c.id));
+      }
+    }
+
+    const toAlert = overdue.filter((c) => {
+      if (has(c, EscalationLevel.MANAGER_ALERT) || remindedNow.has(c.id)) return false;
+      const reminder = has(c, EscalationLevel.OPERATOR_REMINDER);
+      const waitingSince = reminder
+        ? new Date(reminder.at).getTime()
+        : new Date(c.createdAt).getTime() + slaHours * HOUR_MS;
+      return now.getTime() - waitingSince >= escalationHours * HOUR_MS;
+    });
+
+    let alerted = 0;
+    if (toAlert.length > 0) {
+      const delivered = await this.telegramService.alertManagersAboutStaleCollections(
+        toAlert,
+        slaHours + escalationHours,
+      );
+      if (delivered > 0) {
+        await this.record(toAlert, EscalationLevel.MANAGER_ALERT, delivered, now);
+        alerted = toAlert.length;
+      }
+    }
+
+    return { reminded: remindedNow.size, alerted };
+  }
+
+  private async record(collections: Collection[], level: EscalationLevel, notified: number, now: Date) {
+    const entry: CollectionEscalation = { level, at: now.toISOString(), notified };
+    await this.collectionRepository.manager.query(
+      `UPDATE collections SET escalations = escalations || $2::jsonb WHERE id = ANY($1)`,
+      [collections.map((c) => c.id), JSON.stringify([entry])],
+    );
+  }
+}
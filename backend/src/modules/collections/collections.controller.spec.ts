@@ -3,12 +3,14 @@ import { CollectionsController } from './collections.controller';
 import { CollectionsService } from './collections.service';
 import { Collection, CollectionStatus, CollectionSource } from './entities/collection.entity';
 import { CollectionHistory } from './entities/collection-history.entity';
+import { CashHandover } from './entities/cash-handover.entity';
 import { User, UserRole } from '../users/entities/user.entity';
 import { CreateCollectionDto } from './dto/create-collection.dto';
 import { ReceiveCollectionDto } from './dto/receive-collection.dto';
 import { EditCollectionDto } from './dto/edit-collection.dto';
 import { CancelCollectionDto } from './dto/cancel-collection.dto';
 import { BulkCancelCollectionDto } from './dto/bulk-cancel-collection.dto';
+import { CreateHandoverDto } from './dto/create-handover.dto';
 import { BulkCreateCollectionDto } from './dto/bulk-create-collection.dto';
 import { CollectionQueryDto } from './dto/collection-query.dto';
 import { ForbiddenException } from '@nestjs/common';
@@ -85,6 +87,7 @@ describe('CollectionsController', () => {
             create: jest.fn(),
             bulkCreate: jest.fn(),
             receive: jest.fn(),
+            handover: jest.fn(),
             edit: jest.fn(),
             cancel: jest.fn(),
             bulkCancel: jest.fn(),
@@ -369,6 +372,21 @@ describe('CollectionsController', () => {
     });
   });
 
+  describe('handover', () => {
+    it('should pass the manager id and dto to the service', async () => {
+      const dto: CreateHandoverDto = {
+        operatorId: 'operator-123',
+        items: [{ collectionId: 'collection-123', amount: 1000 }],
+      };
+      collectionsService.handover.mockResolvedValue({ id: 'handover-1' } as unknown as CashHandover);
+
+      const result = await controller.handover(dto, mockManagerUser);
+
+      expect(collectionsService.handover).toHaveBeenCalledWith(mockManagerUser.id, dto);
+      expect(result).toEqual({ id: 'handover-1' });
+    });
+  });
+
   describe('receive', () => {
     it('should receive a collection', async () => {
       const dto: ReceiveCollectionDto = {
@@ -22,6 +22,7 @@ import { BulkCreateCollectionDto } from './dto/bulk-create-collection.dto';
 import { CollectionQueryDto } from './dto/collection-query.dto';
 import { CancelCollectionDto } from './dto/cancel-collection.dto';
 import { BulkCancelCollectionDto } from './dto/bulk-cancel-collection.dto';
+import { CreateHandoverDto } from './dto/create-handover.dto';
 
 @ApiTags('collections')
 @Controller('collections')
@@ -88,6 +89,13 @@ export class CollectionsController {
     return this.collectionsService.bulkCreate(dto, user.id);
   }
 
+  @Post('handovers')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Receive several collections of one operator in a single handover' })
+  async handover(@Body() dto: CreateHandoverDto, @CurrentUser() user: User) {
+    return this.collectionsService.handover(user.id, dto);
+  }
+
   @Patch(':id/receive')
   @Roles(UserRole.MANAGER, UserRole.ADMIN)
   @ApiOperation({ summary: 'Receive collection' })
@@ -2,21 +2,25 @@ import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Collection } from './entities/collection.entity';
 import { CollectionHistory } from './entities/collection-history.entity';
+import { CashHandover } from './entities/cash-handover.entity';
 import { CollectionsController } from './collections.controller';
 import { CollectionsService } from './collections.service';
+import { CollectionEscalationService } from './collection-escalation.service';
 import { MachinesModule } from '../machines/machines.module';
 import { UsersModule } from '../users/users.module';
+import { SettingsModule } from '../settings/settings.module';
 import { TelegramModule } from '../../telegram/telegram.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Collection, CollectionHistory]),
+    TypeOrmModule.forFeature([Collection, CollectionHistory, CashHandover]),
     MachinesModule,
     UsersModule,
+    SettingsModule,
     forwardRef(() => TelegramModule),
   ],
   controllers: [CollectionsController],
-  providers: [CollectionsService],
+  providers: [CollectionsService, CollectionEscalationService],
   exports: [CollectionsService],
 })
 export class CollectionsModule {}
@@ -1,7 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Repository, DataSource } from 'typeorm';
-import { NotFoundException, BadRequestException } from '@nestjs/common';
+import { NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { ConfigService } from '@nestjs/config';
 import { CollectionsService } from './collections.service';
@@ -11,17 +11,27 @@ import {
   CollectionSource,
 } from './entities/collection.entity';
 import { CollectionHistory } from './entities/collection-history.entity';
+import { CashHandover } from './entities/cash-handover.entity';
+import { DepositAllocation } from '../finance/entities/deposit-allocation.entity';
+import { DepositHistory } from '../finance/entities/deposit-history.entity';
 import { MachinesService } from '../machines/machines.service';
 import { TelegramService } from '../../telegram/telegram.service';
+import { JwtService } from '@nestjs/jwt';
+import { NotificationsGateway } from '../../notifications/notifications.gateway';
+import { NotificationsService } from '../../notifications/notifications.service';
+import { NotificationPreferencesService } from '../../notifications/notification-preferences.service';
 
 describe('CollectionsService', () => {
   let service: CollectionsService;
   let collectionRepository: jest.Mocked<Repository<Collection>>;
   let historyRepository: jest.Mocked<Repository<CollectionHistory>>;
+  let handoverRepository: jest.Mocked<Repository<CashHandover>>;
   let machinesService: jest.Mocked<MachinesService>;
   let telegramService: jest.Mocked<TelegramService>;
   let cacheManager: { get: jest.Mock; set: jest.Mock; del: jest.Mock };
   let configService: jest.Mocked<ConfigService>;
+  let notificationsService: { create: jest.Mock };
+  let mockServer: { to: jest.Mock; except: jest.Mock; emit: jest.Mock };
   let mockQueryRunner: any;
   let mockQueryBuilder: any;
 
@@ -122,6 +132,12 @@ describe('CollectionsService', () => {
             find: jest.fn(),
           },
         },
+        {
+          provide: getRepositoryToken(CashHandover),
+          useValue: {
+            findOneOrFail: jest.fn(),
+          },
+        },
         {
           provide: MachinesService,
           useValue: {
@@ -161,7 +177,11 @@ describe('CollectionsService', () => {
               release: jest.fn(),
               manager: {
                 findOne: jest.fn(),
+                find: jest.fn().mockResolvedValue([]),
+                count: jest.fn().mockResolvedValue(0),
                 save: jest.fn(),
+                remove: jest.fn(),
+                delete: jest.fn(),
                 create: jest.fn().mockImplementation((_, data) => data),
                 createQueryBuilder: jest.fn(),
               },
@@ -171,16 +191,33 @@ describe('CollectionsService', () => {
             };
           },
         },
+        // Real gateway, so tests see what gets stored for the notification bell
+        NotificationsGateway,
+        { provide: JwtService, useValue: { verify: jest.fn() } },
+        {
+          provide: NotificationsService,
+          useValue: {
+            create: jest.fn().mockResolvedValue({ id: 'notification-1', createdAt: new Date() }),
+          },
+        },
+        {
+          provide: NotificationPreferencesService,
+          useValue: { findMutedUserIds: jest.fn().mockResolvedValue([]) },
+        },
       ],
     }).compile();
 
     service = module.get<CollectionsService>(CollectionsService);
     collectionRepository = module.get(getRepositoryToken(Collection));
     historyRepository = module.get(getRepositoryToken(CollectionHistory));
+    handoverRepository = module.get(getRepositoryToken(CashHandover));
     machinesService = module.get(MachinesService);
     telegramService = module.get(TelegramService);
     cacheManager = module.get(CACHE_MANAGER);
     configService = module.get(ConfigService);
+    notificationsService = module.get(NotificationsService);
+    mockServer = { to: jest.fn().mockReturnThis(), except: jest.fn().mockReturnThis(), emit: jest.fn() };
+    module.get(NotificationsGateway).server = mockServer as any;
   });
 
   it('should be defined', () => {
@@ -218,6 +255,40 @@ describe('CollectionsService', () => {
       expect(collectionRepository.save).toHaveBeenCalled();
     });
 
+    it('should store a notification for managers and admins', async () => {
+      machinesService.findByIdOrFail.mockResolvedValue(mockMachine as any);
+      collectionRepository.findOne.mockResolvedValue(null);
+      collectionRepository.create.mockReturnValue(mockCollection);
+      collectionRepository.save.mockResolvedValue(mockCollection);
+
+      await service.create({ machineId: 'machine-123', collectedAt: new Date('2025-01-15T10:00:00Z') }, 'operator-123');
+
+      expect(notificationsService.create).toHaveBeenCalledWith(
+        'collection_created',
+        expect.objectContaining({ id: 'collection-123', machine: mockMachine }),
+        expect.objectContaining({ roles: ['manager', 'admin'] }),
+      );
+      expect(mockServer.emit).toHaveBeenCalledWith(
+        'notification',
+        expect.objectContaining({ id: 'notification-1', type: 'collection_created' }),
+      );
+    });
+
+    it('should still create the collection when storing the notification fails', async () => {
+      machinesService.findByIdOrFail.mockResolvedValue(mockMachine as any);
+      collectionRepository.findOne.mockResolvedValue(null);
+      collectionRepository.create.mockReturnValue(mockCollection);
+      collectionRepository.save.mockResolvedValue(mockCollection);
+      notificationsService.create.mockRejectedValue(new Error('DB down'));
+
+      const result = await service.create(
+        { machineId: 'machine-123', collectedAt: new Date('2025-01-15T10:00:00Z') },
+        'operator-123',
+      );
+
+      expect(result).toEqual(mockCollection);
+    });
+
     it('should create a collection with all optional fields', async () => {
       const dto = {
         machineId: 'machine-123',
@@ -1009,6 +1080,21 @@ describe('CollectionsService', () => {
       expect(mockQueryRunner.release).toHaveBeenCalled();
     });
 
+    it('should store a notification for the operator', async () => {
+      mockQueryRunner.manager.findOne
+        .mockResolvedValueOnce({ ...mockCollection })
+        .mockResolvedValueOnce({ ...mockCollection });
+      mockQueryRunner.manager.save.mockResolvedValue(mockReceivedCollection);
+
+      await service.receive('collection-123', 'manager-123', { amount: 5000 });
+
+      expect(notificationsService.create).toHaveBeenCalledWith(
+        'collection_received',
+        expect.objectContaining({ id: mockReceivedCollection.id }),
+        expect.objectContaining({ userIds: [mockReceivedCollection.operatorId] }),
+      );
+    });
+
     it('should create audit history records for status and amount', async () => {
       mockQueryRunner.manager.findOne
         .mockResolvedValueOnce({ ...mockCollection })
@@ -1161,6 +1247,297 @@ describe('CollectionsService', () => {
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // handover
+  // ---------------------------------------------------------------------------
+  describe('handover', () => {
+    const second = {
+      ...mockCollection,
+      id: 'collection-456',
+      machineId: 'machine-456',
+    } as unknown as Collection;
+
+    const dto = {
+      operatorId: 'operator-123',
+      items: [
+        { collectionId: 'collection-123', amount: 5000 },
+        { collectionId: 'collection-456', amount: 7000 },
+      ],
+      notes: 'Сдал утром',
+    };
+
+    beforeEach(() => {
+      mockQueryRunner.manager.save.mockImplementation(async (entity: any) =>
+        entity.totalAmount !== undefined ? { ...entity, id: 'handover-1' } : entity,
+      );
+      handoverRepository.findOneOrFail.mockResolvedValue({ id: 'handover-1', collections: [] } as unknown as CashHandover);
+    });
+
+    it('should receive all listed collections under one handover', async () => {
+      mockQueryRunner.manager.find.mockResolvedValue([{ ...mockCollection }, { ...second }]);
+
+      const result = await service.handover('manager-123', dto);
+
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(CashHandover, {
+        operatorId: 'operator-123',
+        managerId: 'manager-123',
+        totalAmount: 12000,
+        collectionsCount: 2,
+        notes: 'Сдал утром',
+      });
+      expect(mockQueryRunner.manager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'collection-456',
+          status: CollectionStatus.RECEIVED,
+          amount: 7000,
+          managerId: 'manager-123',
+          handoverId: 'handover-1',
+        }),
+      );
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        CollectionHistory,
+        expect.objectContaining({
+          collectionId: 'collection-123',
+          fieldName: 'status',
+          reason: 'Collection received in handover',
+        }),
+      );
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+      expect(cacheManager.del).toHaveBeenCalledWith('report:summary');
+      expect(result.id).toBe('handover-1');
+    });
+
+    it('should reject collections of another operator', async () => {
+      mockQueryRunner.manager.find.mockResolvedValue([
+        { ...mockCollection },
+        { ...second, operatorId: 'operator-999' },
+      ]);
+
+      await expect(service.handover('manager-123', dto)).rejects.toThrow(BadRequestException);
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+      expect(mockQueryRunner.release).toHaveBeenCalled();
+    });
+
+    it('should reject collections that are already received', async () => {
+      mockQueryRunner.manager.find.mockResolvedValue([
+        { ...mockCollection },
+        { ...second, status: CollectionStatus.RECEIVED },
+      ]);
+
+      await expect(service.handover('manager-123', dto)).rejects.toThrow(
+        'Collection collection-456 is not in collected status',
+      );
+    });
+
+    it('should throw NotFoundException for unknown collections', async () => {
+      mockQueryRunner.manager.find.mockResolvedValue([{ ...mockCollection }]);
+
+      await expect(service.handover('manager-123', dto)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should reject duplicate collections before opening a transaction', async () => {
+      await expect(
+        service.handover('manager-123', {
+          operatorId: 'operator-123',
+          items: [
+            { collectionId: 'collection-123', amount: 5000 },
+            { collectionId: 'collection-123', amount: 5000 },
+          ],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockQueryRunner.startTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // denomination breakdown
+  // ---------------------------------------------------------------------------
+  describe('denomination breakdown', () => {
+    const breakdown = [
+      { value: 1000, count: 5 },
+      { value: 5000, count: 1 },
+      { currency: 'USD', value: 100, count: 1 },
+    ];
+
+    it('should store operator breakdown on create without amount check', async () => {
+      machinesService.findByIdOrFail.mockResolvedValue(mockMachine as any);
+      collectionRepository.findOne.mockResolvedValue(null);
+      collectionRepository.create.mockReturnValue(mockCollection);
+      collectionRepository.save.mockResolvedValue(mockCollection);
+
+      await service.create(
+        {
+          machineId: 'machine-123',
+          collectedAt: new Date('2025-01-15T10:00:00Z'),
+          denominations: [{ value: 5000, count: 2 }, { value: 1000, count: 0 }],
+        },
+        'operator-123',
+      );
+
+      expect(collectionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          denominations: [{ currency: 'UZS', value: 5000, count: 2 }],
+        }),
+      );
+    });
+
+    it('should reject unknown denominations on create', async () => {
+      await expect(
+        service.create(
+          {
+            machineId: 'machine-123',
+            collectedAt: new Date('2025-01-15T10:00:00Z'),
+            denominations: [{ value: 3000, count: 1 }],
+          },
+          'operator-123',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(machinesService.findByIdOrFail).not.toHaveBeenCalled();
+    });
+
+    it('should save breakdown and history on receive when UZS total matches amount', async () => {
+      mockQueryRunner.manager.findOne
+        .mockResolvedValueOnce({ ...mockCollection })
+        .mockResolvedValueOnce({ ...mockCollection });
+      mockQueryRunner.manager.save.mockImplementation(async (entity: any) => entity);
+
+      const result = await service.receive('collection-123', 'manager-123', {
+        amount: 10000,
+        denominations: breakdown,
+      });
+
+      expect(result.denominations).toEqual([
+        { currency: 'UZS', value: 1000, count: 5 },
+        { currency: 'UZS', value: 5000, count: 1 },
+        { currency: 'USD', value: 100, count: 1 },
+      ]);
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        CollectionHistory,
+        expect.objectContaining({
+          fieldName: 'denominations',
+          newValue: '1000×5, 5000×1, USD 100×1',
+          reason: 'Denomination breakdown set on receive',
+        }),
+      );
+    });
+
+    it('should reject receive when breakdown does not sum to amount', async () => {
+      await expect(
+        service.receive('collection-123', 'manager-123', {
+          amount: 12000,
+          denominations: breakdown,
+        }),
+      ).rejects.toThrow('does not match amount');
+      expect(mockQueryRunner.startTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should drop operator breakdown that disagrees with received amount', async () => {
+      const withBreakdown = {
+        ...mockCollection,
+        denominations: [{ currency: 'UZS', value: 5000, count: 2 }],
+      };
+      mockQueryRunner.manager.findOne
+        .mockResolvedValueOnce({ ...withBreakdown })
+        .mockResolvedValueOnce({ ...withBreakdown });
+      mockQueryRunner.manager.save.mockImplementation(async (entity: any) => entity);
+
+      const result = await service.receive('collection-123', 'manager-123', { amount: 9000 });
+
+      expect(result.denominations).toBeNull();
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        CollectionHistory,
+        expect.objectContaining({
+          fieldName: 'denominations',
+          oldValue: '5000×2',
+          newValue: undefined,
+        }),
+      );
+    });
+
+    it('should keep operator breakdown that matches received amount', async () => {
+      const withBreakdown = {
+        ...mockCollection,
+        denominations: [{ currency: 'UZS', value: 5000, count: 2 }],
+      };
+      mockQueryRunner.manager.findOne
+        .mockResolvedValueOnce({ ...withBreakdown })
+        .mockResolvedValueOnce({ ...withBreakdown });
+      mockQueryRunner.manager.save.mockImplementation(async (entity: any) => entity);
+
+      const result = await service.receive('collection-123', 'manager-123', { amount: 10000 });
+
+      expect(result.denominations).toEqual(withBreakdown.denominations);
+      expect(mockQueryRunner.manager.create).not.toHaveBeenCalledWith(
+        CollectionHistory,
+        expect.objectContaining({ fieldName: 'denominations' }),
+      );
+    });
+
+    it('should record breakdown edit in history', async () => {
+      const received = {
+        ...mockReceivedCollection,
+        denominations: [{ currency: 'UZS', value: 5000, count: 1 }],
+      };
+      mockQueryRunner.manager.findOne
+        .mockResolvedValueOnce({ ...received })
+        .mockResolvedValueOnce({ ...received });
+      mockQueryRunner.manager.save.mockImplementation(async (entity: any) => entity);
+
+      const result = await service.edit('collection-received', 'user-123', {
+        reason: 'Recount',
+        denominations: [{ value: 1000, count: 5 }],
+      });
+
+      expect(result.denominations).toEqual([{ currency: 'UZS', value: 1000, count: 5 }]);
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        CollectionHistory,
+        expect.objectContaining({
+          fieldName: 'denominations',
+          oldValue: '5000×1',
+          newValue: '1000×5',
+          reason: 'Recount',
+        }),
+      );
+    });
+
+    it('should validate edited breakdown against the new amount', async () => {
+      mockQueryRunner.manager.findOne
+        .mockResolvedValueOnce({ ...mockReceivedCollection })
+        .mockResolvedValueOnce({ ...mockReceivedCollection });
+
+      await expect(
+        service.edit('collection-received', 'user-123', {
+          amount: 7000,
+          reason: 'Recount',
+          denominations: [{ value: 5000, count: 1 }],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+
+    it('should clear stale breakdown when amount changes without a new one', async () => {
+      const received = {
+        ...mockReceivedCollection,
+        denominations: [{ currency: 'UZS', value: 5000, count: 1 }],
+      };
+      mockQueryRunner.manager.findOne
+        .mockResolvedValueOnce({ ...received })
+        .mockResolvedValueOnce({ ...received });
+      mockQueryRunner.manager.save.mockImplementation(async (entity: any) => entity);
+
+      const result = await service.edit('collection-received', 'user-123', {
+        amount: 7000,
+        reason: 'Correction',
+      });
+
+      expect(result.denominations).toBeNull();
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        CollectionHistory,
+        expect.objectContaining({ fieldName: 'denominations', oldValue: '5000×1' }),
+      );
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // edit
   // ---------------------------------------------------------------------------
@@ -1450,6 +1827,106 @@ describe('CollectionsService', () => {
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // Deposit allocations
+  // ---------------------------------------------------------------------------
+  describe('deposit allocations', () => {
+    const allocations = [
+      { id: 'alloc-1', depositId: 'deposit-1', collectionId: 'collection-received', amount: '3000.00' },
+      { id: 'alloc-2', depositId: 'deposit-2', collectionId: 'collection-received', amount: '1500.00' },
+    ];
+
+    it('cancel should release allocations and log them on each deposit', async () => {
+      mockQueryRunner.manager.findOne
+        .mockResolvedValueOnce({ ...mockReceivedCollection })
+        .mockResolvedValueOnce({ ...mockReceivedCollection });
+      mockQueryRunner.manager.find.mockResolvedValue(allocations);
+      mockQueryRunner.manager.save.mockImplementation(async (data: unknown) => data);
+
+      await service.cancel('collection-received', 'admin-1', 'Counted twice');
+
+      expect(mockQueryRunner.manager.find).toHaveBeenCalledWith(DepositAllocation, {
+        where: { collectionId: 'collection-received' },
+      });
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(DepositHistory, {
+        depositId: 'deposit-1',
+        changedById: 'admin-1',
+        fieldName: 'allocations',
+        oldValue: 'collection collection-received: 3000',
+        newValue: null,
+        reason: 'Counted twice',
+      });
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        DepositHistory,
+        expect.objectContaining({ depositId: 'deposit-2' }),
+      );
+      expect(mockQueryRunner.manager.remove).toHaveBeenCalledWith(allocations);
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('bulkCancel should release allocations of every cancelled collection', async () => {
+      mockQueryRunner.manager.findOne.mockResolvedValueOnce({ ...mockReceivedCollection });
+      mockQueryRunner.manager.find.mockResolvedValue(allocations);
+      mockQueryRunner.manager.save.mockResolvedValue({});
+
+      const result = await service.bulkCancel({ ids: ['collection-received'] }, 'admin-1');
+
+      expect(result.cancelled).toBe(1);
+      expect(mockQueryRunner.manager.remove).toHaveBeenCalledWith(allocations);
+    });
+
+    it('remove should release allocations before deleting the collection', async () => {
+      const collection = { ...mockReceivedCollection };
+      mockQueryRunner.manager.findOne.mockResolvedValueOnce(collection);
+      mockQueryRunner.manager.find.mockResolvedValue(allocations);
+      mockQueryRunner.manager.save.mockResolvedValue({});
+
+      const result = await service.remove('collection-received', 'admin-1');
+
+      expect(result).toEqual({ success: true });
+      expect(mockQueryRunner.manager.remove).toHaveBeenNthCalledWith(1, allocations);
+      expect(mockQueryRunner.manager.remove).toHaveBeenNthCalledWith(2, collection);
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('remove should refuse a collection that has a discrepancy case', async () => {
+      mockQueryRunner.manager.findOne.mockResolvedValueOnce({ ...mockReceivedCollection });
+      mockQueryRunner.manager.count.mockResolvedValueOnce(1);
+
+      await expect(service.remove('collection-received', 'admin-1')).rejects.toThrow(ConflictException);
+
+      expect(mockQueryRunner.manager.remove).not.toHaveBeenCalled();
+      expect(mockQueryRunner.manager.delete).not.toHaveBeenCalled();
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+
+    it('edit should reject an amount below the allocated total', async () => {
+      mockQueryRunner.manager.findOne
+        .mockResolvedValueOnce({ ...mockReceivedCollection })
+        .mockResolvedValueOnce({ ...mockReceivedCollection });
+      mockQueryRunner.manager.find.mockResolvedValue(allocations);
+
+      await expect(
+        service.edit('collection-received', 'manager-123', { amount: 4000, reason: 'Recount' }),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(mockQueryRunner.manager.save).not.toHaveBeenCalled();
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+
+    it('edit should allow an amount that still covers the allocations', async () => {
+      mockQueryRunner.manager.findOne
+        .mockResolvedValueOnce({ ...mockReceivedCollection })
+        .mockResolvedValueOnce({ ...mockReceivedCollection });
+      mockQueryRunner.manager.find.mockResolvedValue(allocations);
+      mockQueryRunner.manager.save.mockImplementation(async (data: unknown) => data);
+
+      const result = await service.edit('collection-received', 'manager-123', { amount: 4500, reason: 'Recount' });
+
+      expect(result.amount).toBe(4500);
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // bulkCancel
   // ---------------------------------------------------------------------------
@@ -2169,6 +2646,10 @@ describe('CollectionsService', () => {
             provide: getRepositoryToken(CollectionHistory),
             useValue: { save: jest.fn(), find: jest.fn() },
           },
+          {
+            provide: getRepositoryToken(CashHandover),
+            useValue: { findOneOrFail: jest.fn() },
+          },
           {
             provide: MachinesService,
             useValue: { findByIdOrFail: jest.fn(), findById: jest.fn(), findByCode: jest.fn() },
@@ -2186,6 +2667,7 @@ describe('CollectionsService', () => {
             provide: DataSource,
             useValue: { createQueryRunner: jest.fn() },
           },
+          { provide: NotificationsGateway, useValue: { notifyNewCollection: jest.fn() } },
         ],
       }).compile();
 
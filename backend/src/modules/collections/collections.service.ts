@@ -2,30 +2,46 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  ConflictException,
   Inject,
   Logger,
   forwardRef,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { ConfigService } from '@nestjs/config';
-import { Repository, Between, DataSource } from 'typeorm';
+import { Repository, Between, DataSource, EntityManager, In } from 'typeorm';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Cache } from 'cache-manager';
 import { Collection, CollectionStatus, CollectionSource } from './entities/collection.entity';
 import { CollectionHistory } from './entities/collection-history.entity';
+import { CashHandover } from './entities/cash-handover.entity';
+import { DepositAllocation } from '../finance/entities/deposit-allocation.entity';
+import { DepositHistory } from '../finance/entities/deposit-history.entity';
+import { DiscrepancyCase } from '../discrepancies/entities/discrepancy-case.entity';
 import { MachinesService } from '../machines/machines.service';
 import { Machine } from '../machines/entities/machine.entity';
 import { TelegramService } from '../../telegram/telegram.service';
+import { NotificationsGateway } from '../../notifications/notifications.gateway';
 import { CreateCollectionDto } from './dto/create-collection.dto';
 import { ReceiveCollectionDto } from './dto/receive-collection.dto';
 import { EditCollectionDto } from './dto/edit-collection.dto';
 import { BulkCreateCollectionDto } from './dto/bulk-create-collection.dto';
 import { BulkCancelCollectionDto } from './dto/bulk-cancel-collection.dto';
 import { CollectionQueryDto } from './dto/collection-query.dto';
+import { CreateHandoverDto } from './dto/create-handover.dto';
 import {
   startOfDayTashkent,
   endOfDayTashkent,
 } from '../../common/utils/timezone';
+import {
+  BASE_CURRENCY,
+  DenominationCount,
+  findInvalidDenomination,
+  formatDenominations,
+  normalizeDenominations,
+  sumDenominations,
+} from '../../common/utils/denominations';
+import { haversineMeters } from '../../common/utils/geo';
 
 // Distance threshold in meters — collections beyond this are flagged as suspicious
 const DISTANCE_WARNING_THRESHOLD = 50;
@@ -35,36 +51,17 @@ export class CollectionsService {
   private readonly logger = new Logger(CollectionsService.name);
   private readonly duplicateCheckMinutes: number;
 
-  /**
-   * Calculate distance between two GPS coordinates using Haversine formula
-   * @returns distance in meters
-   */
-  private calculateDistanceMeters(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number,
-  ): number {
-    const R = 6371000; // Earth's radius in meters
-    const toRad = (deg: number) => (deg * Math.PI) / 180;
-    const dLat = toRad(lat2 - lat1);
-    const dLon = toRad(lon2 - lon1);
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }
-
   constructor(
     @InjectRepository(Collection)
     private readonly collectionRepository: Repository<Collection>,
     @InjectRepository(CollectionHistory)
     private readonly historyRepository: Repository<CollectionHistory>,
+    @InjectRepository(CashHandover)
+    private readonly handoverRepository: Repository<CashHandover>,
     private readonly machinesService: MachinesService,
     @Inject(forwardRef(() => TelegramService))
     private readonly telegramService: TelegramService,
+    private readonly notificationsGateway: NotificationsGateway,
     @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
     private readonly configService: ConfigService,
     private readonly dataSource: DataSource,
@@ -86,7 +83,89 @@ export class CollectionsService {
     }
   }
 
+  /**
+   * Send a web notification without letting its failure undo the change
+   * that triggered it — the change is already committed at this point.
+   */
+  private async notifyWeb(send: () => Promise<void>): Promise<void> {
+    try {
+      await send();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Failed to send web notification: ${message}`);
+    }
+  }
+
+  /**
+   * Validate and normalize a banknote/coin breakdown.
+   * When amount is given, UZS entries must add up to it exactly.
+   */
+  private resolveDenominations(
+    items: Array<Partial<DenominationCount>>,
+    amount?: number,
+  ): DenominationCount[] {
+    const normalized = normalizeDenominations(
+      items.map((item) => ({
+        currency: item.currency || BASE_CURRENCY,
+        value: Number(item.value),
+        count: Number(item.count),
+      })),
+    );
+
+    const invalid = findInvalidDenomination(normalized);
+    if (invalid) {
+      throw new BadRequestException(
+        `Unknown denomination ${invalid.value} for currency ${invalid.currency}`,
+      );
+    }
+
+    if (amount !== undefined) {
+      const total = sumDenominations(normalized);
+      if (Math.abs(total - Number(amount)) > 0.005) {
+        throw new BadRequestException(
+          `Denomination breakdown total (${total}) does not match amount (${amount})`,
+        );
+      }
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Drop the deposit allocations of a collection that is being cancelled or
+   * removed, so its cash no longer counts towards those deposits. Each
+   * deposit gets a history row. Must run inside the caller's transaction.
+   */
+  private async releaseAllocations(
+    manager: EntityManager,
+    collectionId: string,
+    userId: string,
+    reason: string,
+  ): Promise<void> {
+    const allocations = await manager.find(DepositAllocation, { where: { collectionId } });
+    if (allocations.length === 0) return;
+
+    await manager.save(
+      allocations.map((a) =>
+        manager.create(DepositHistory, {
+          depositId: a.depositId,
+          changedById: userId,
+          fieldName: 'allocations',
+          oldValue: `collection ${collectionId}: ${Number(a.amount)}`,
+          newValue: null,
+          reason,
+        }),
+      ),
+    );
+    await manager.remove(allocations);
+  }
+
   async create(dto: CreateCollectionDto, operatorId: string): Promise<Collection> {
+    // Operator's count is not checked against an amount — that is set on receive
+    const denominations = dto.denominations?.length
+      ? this.resolveDenominations(dto.denominations)
+      : undefined;
+
     // Verify machine exists
     const machine = await this.machinesService.findByIdOrFail(dto.machineId);
 
@@ -121,9 +200,9 @@ export class CollectionsService {
       machine.latitude != null && machine.longitude != null
     ) {
       distanceFromMachine = Math.round(
-        this.calculateDistanceMeters(
-          dto.latitude, dto.longitude,
-          Number(machine.latitude), Number(machine.longitude),
+        haversineMeters(
+          { latitude: dto.latitude, longitude: dto.longitude },
+          { latitude: Number(machine.latitude), longitude: Number(machine.longitude) },
         ) * 100,
       ) / 100; // round to 2 decimal places
 
@@ -143,10 +222,12 @@ export class CollectionsService {
       distanceFromMachine,
       source: dto.source || CollectionSource.REALTIME,
       notes: dto.notes,
+      denominations,
     });
 
     const saved = await this.collectionRepository.save(collection);
     await this.invalidateReportsCache();
+    await this.notifyWeb(() => this.notificationsGateway.notifyNewCollection({ ...saved, machine }));
 
     // Notify managers about new collection (async, don't block)
     this.notifyManagersAsync(saved.id, distanceFromMachine).catch((err) => {
@@ -345,6 +426,10 @@ export class CollectionsService {
   }
 
   async receive(id: string, managerId: string, dto: ReceiveCollectionDto): Promise<Collection> {
+    const denominations = dto.denominations?.length
+      ? this.resolveDenominations(dto.denominations, dto.amount)
+      : undefined;
+
     const queryRunner = this.dataSource.createQueryRunner();
     await queryRunner.connect();
     await queryRunner.startTransaction();
@@ -373,50 +458,180 @@ export class CollectionsService {
         throw new NotFoundException('Collection not found');
       }
 
-      // Store old values for audit logging
-      const oldStatus = collection.status;
-      const oldAmount = collection.amount;
+      const saved = await this.applyReceive(queryRunner.manager, collection, managerId, {
+        amount: dto.amount,
+        notes: dto.notes,
+        denominations,
+      });
 
-      collection.managerId = managerId;
-      collection.amount = dto.amount;
-      collection.receivedAt = new Date();
-      collection.status = CollectionStatus.RECEIVED;
-      if (dto.notes) {
-        collection.notes = dto.notes;
-      }
+      await queryRunner.commitTransaction();
+      await this.invalidateReportsCache();
+      await this.notifyWeb(() => this.notificationsGateway.notifyCollectionReceived(saved, saved.operatorId));
+      return saved;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
 
-      const saved = await queryRunner.manager.save(collection);
+  /**
+   * Receive several collections of one operator under a single handover.
+   * Collections not listed stay with the operator (partial handover).
+   */
+  async handover(managerId: string, dto: CreateHandoverDto): Promise<CashHandover> {
+    const ids = dto.items.map((item) => item.collectionId);
+    if (new Set(ids).size !== ids.length) {
+      throw new BadRequestException('Duplicate collections in handover');
+    }
 
-      // Create audit records for receive operation
-      const historyStatus = queryRunner.manager.create(CollectionHistory, {
-        collectionId: id,
-        changedById: managerId,
-        fieldName: 'status',
-        oldValue: oldStatus,
-        newValue: CollectionStatus.RECEIVED,
-        reason: 'Collection received by manager',
-      });
-      await queryRunner.manager.save(historyStatus);
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
 
-      const historyAmount = queryRunner.manager.create(CollectionHistory, {
-        collectionId: id,
-        changedById: managerId,
-        fieldName: 'amount',
-        oldValue: oldAmount?.toString() || undefined,
-        newValue: dto.amount.toString(),
-        reason: 'Initial amount set on receive',
+    let handoverId: string;
+    try {
+      const locked = await queryRunner.manager.find(Collection, {
+        where: { id: In(ids) },
+        lock: { mode: 'pessimistic_write' },
       });
-      await queryRunner.manager.save(historyAmount);
+      const byId = new Map(locked.map((c) => [c.id, c]));
+
+      for (const id of ids) {
+        const collection = byId.get(id);
+        if (!collection) {
+          throw new NotFoundException(`Collection ${id} not found`);
+        }
+        if (collection.status !== CollectionStatus.COLLECTED) {
+          throw new BadRequestException(`Collection ${id} is not in collected status`);
+        }
+        if (collection.operatorId !== dto.operatorId) {
+          throw new BadRequestException(`Collection ${id} belongs to another operator`);
+        }
+      }
+
+      const totalAmount = Math.round(
+        dto.items.reduce((sum, item) => sum + item.amount, 0) * 100,
+      ) / 100;
+
+      const handover = await queryRunner.manager.save(
+        queryRunner.manager.create(CashHandover, {
+          operatorId: dto.operatorId,
+          managerId,
+          totalAmount,
+          collectionsCount: dto.items.length,
+          notes: dto.notes || null,
+        }),
+      );
+
+      for (const item of dto.items) {
+        const collection = byId.get(item.collectionId)!;
+        collection.handoverId = handover.id;
+        await this.applyReceive(queryRunner.manager, collection, managerId, {
+          amount: item.amount,
+        });
+      }
 
       await queryRunner.commitTransaction();
-      await this.invalidateReportsCache();
-      return saved;
+      handoverId = handover.id;
     } catch (error) {
       await queryRunner.rollbackTransaction();
       throw error;
     } finally {
       await queryRunner.release();
     }
+
+    await this.invalidateReportsCache();
+    this.logger.log(`Handover ${handoverId}: ${ids.length} collections from operator ${dto.operatorId}`);
+
+    const result = await this.handoverRepository.findOneOrFail({
+      where: { id: handoverId },
+      relations: ['operator', 'manager', 'collections', 'collections.machine'],
+    });
+    for (const collection of result.collections) {
+      await this.notifyWeb(() => this.notificationsGateway.notifyCollectionReceived(collection, collection.operatorId));
+    }
+    return result;
+  }
+
+  /**
+   * Move a locked COLLECTED collection to RECEIVED and write its audit trail.
+   */
+  private async applyReceive(
+    manager: EntityManager,
+    collection: Collection,
+    managerId: string,
+    data: { amount: number; notes?: string; denominations?: DenominationCount[] },
+  ): Promise<Collection> {
+    const id = collection.id;
+
+    // Store old values for audit logging
+    const oldStatus = collection.status;
+    const oldAmount = collection.amount;
+    const oldDenominations = collection.denominations;
+
+    collection.managerId = managerId;
+    collection.amount = data.amount;
+    collection.receivedAt = new Date();
+    collection.status = CollectionStatus.RECEIVED;
+    if (data.notes) {
+      collection.notes = data.notes;
+    }
+
+    // Manager's count replaces the operator's. An operator breakdown that
+    // disagrees with the received amount is dropped but kept in history.
+    if (data.denominations) {
+      collection.denominations = data.denominations;
+    } else if (
+      oldDenominations?.length &&
+      Math.abs(sumDenominations(oldDenominations) - data.amount) > 0.005
+    ) {
+      collection.denominations = null;
+    }
+
+    const saved = await manager.save(collection);
+
+    // Create audit records for receive operation
+    const historyStatus = manager.create(CollectionHistory, {
+      collectionId: id,
+      changedById: managerId,
+      fieldName: 'status',
+      oldValue: oldStatus,
+      newValue: CollectionStatus.RECEIVED,
+      reason: collection.handoverId
+        ? 'Collection received in handover'
+        : 'Collection received by manager',
+    });
+    await manager.save(historyStatus);
+
+    const historyAmount = manager.create(CollectionHistory, {
+      collectionId: id,
+      changedById: managerId,
+      fieldName: 'amount',
+      oldValue: oldAmount?.toString() || undefined,
+      newValue: data.amount.toString(),
+      reason: 'Initial amount set on receive',
+    });
+    await manager.save(historyAmount);
+
+    const oldBreakdown = formatDenominations(oldDenominations);
+    const newBreakdown = formatDenominations(collection.denominations);
+    if (oldBreakdown !== newBreakdown) {
+      const historyDenominations = manager.create(CollectionHistory, {
+        collectionId: id,
+        changedById: managerId,
+        fieldName: 'denominations',
+        oldValue: oldBreakdown || undefined,
+        newValue: newBreakdown || undefined,
+        reason: data.denominations
+          ? 'Denomination breakdown set on receive'
+          : 'Operator breakdown does not match received amount',
+      });
+      await manager.save(historyDenominations);
+    }
+
+    return saved;
   }
 
   async edit(id: string, userId: string, dto: EditCollectionDto): Promise<Collection> {
@@ -448,6 +663,33 @@ export class CollectionsService {
         throw new NotFoundException('Collection not found');
       }
 
+      // Resolve breakdown against the amount the collection will have after the edit.
+      // Changing the amount without a new breakdown invalidates the stored one.
+      const newAmount = dto.amount !== undefined ? dto.amount : Number(collection.amount);
+      let newDenominations = collection.denominations;
+      if (dto.denominations !== undefined) {
+        newDenominations = dto.denominations.length
+          ? this.resolveDenominations(dto.denominations, newAmount)
+          : null;
+      } else if (
+        collection.denominations?.length &&
+        Math.abs(sumDenominations(collection.denominations) - newAmount) > 0.005
+      ) {
+        newDenominations = null;
+      }
+
+      if (dto.amount !== undefined && dto.amount !== Number(collection.amount)) {
+        const allocations = await queryRunner.manager.find(DepositAllocation, { where: { collectionId: id } });
+        const allocated = allocations.reduce((sum, a) => sum + Number(a.amount), 0);
+        if (dto.amount < allocated - 0.005) {
+          throw new BadRequestException({
+            code: 'COLLECTION_OVERALLOCATED',
+            message: 'Collection amount cannot be lower than the amount already allocated to deposits',
+            allocated: Math.round(allocated * 100) / 100,
+          });
+        }
+      }
+
       // Log history within transaction
       if (dto.amount !== undefined && dto.amount !== collection.amount) {
         const history = queryRunner.manager.create(CollectionHistory, {
@@ -476,6 +718,21 @@ export class CollectionsService {
         collection.notes = dto.notes;
       }
 
+      const oldBreakdown = formatDenominations(collection.denominations);
+      const newBreakdown = formatDenominations(newDenominations);
+      if (oldBreakdown !== newBreakdown) {
+        const denominationsHistory = queryRunner.manager.create(CollectionHistory, {
+          collectionId: id,
+          changedById: userId,
+          fieldName: 'denominations',
+          oldValue: oldBreakdown || undefined,
+          newValue: newBreakdown || undefined,
+          reason: dto.reason,
+        });
+        await queryRunner.manager.save(denominationsHistory);
+      }
+      collection.denominations = newDenominations;
+
       const saved = await queryRunner.manager.save(collection);
       await queryRunner.commitTransaction();
       await this.invalidateReportsCache();
@@ -527,12 +784,14 @@ export class CollectionsService {
         reason: reason || 'Cancelled by user',
       });
       await queryRunner.manager.save(history);
+      await this.releaseAllocations(queryRunner.manager, id, userId, reason || 'Cancelled by user');
 
       collection.status = CollectionStatus.CANCELLED;
 
       const saved = await queryRunner.manager.save(collection);
       await queryRunner.commitTransaction();
       await this.invalidateReportsCache();
+      await this.notifyWeb(() => this.notificationsGateway.notifyCollectionCancelled(saved, saved.operatorId));
       return saved;
     } catch (error) {
       await queryRunner.rollbackTransaction();
@@ -643,6 +902,7 @@ export class CollectionsService {
             reason: dto.reason || 'Bulk cancellation',
           });
           await queryRunner.manager.save(history);
+          await this.releaseAllocations(queryRunner.manager, id, userId, dto.reason || 'Bulk cancellation');
 
           collection.status = CollectionStatus.CANCELLED;
           await queryRunner.manager.save(collection);
@@ -685,6 +945,15 @@ export class CollectionsService {
         throw new NotFoundException('Collection not found');
       }
 
+      // A discrepancy case is an audit record; it must outlive the collection's edits
+      const cases = await queryRunner.manager.count(DiscrepancyCase, { where: { collectionId: id } });
+      if (cases > 0) {
+        throw new ConflictException({
+          code: 'COLLECTION_HAS_CASE',
+          message: 'Collection has a discrepancy case and cannot be deleted; cancel it instead',
+        });
+      }
+
       // Log deletion in history before removing
       const history = queryRunner.manager.create(CollectionHistory, {
         collectionId: id,
@@ -695,6 +964,7 @@ export class CollectionsService {
         reason: 'Deleted by admin',
       });
       await queryRunner.manager.save(history);
+      await this.releaseAllocations(queryRunner.manager, id, userId, 'Collection deleted by admin');
 
       // Delete history records first (FK constraint), then collection
       await queryRunner.manager.delete(CollectionHistory, { collectionId: id });
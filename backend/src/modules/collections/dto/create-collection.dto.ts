@@ -1,7 +1,8 @@
-import { IsUUID, IsDate, IsOptional, IsString, IsBoolean, IsEnum, IsNumber, Min, Max, MaxLength, ValidateIf, Validate, ValidatorConstraint, ValidatorConstraintInterface, ValidationArguments } from 'class-validator';
+import { IsUUID, IsDate, IsOptional, IsString, IsBoolean, IsEnum, IsNumber, IsArray, ArrayMaxSize, ValidateNested, Min, Max, MaxLength, ValidateIf, Validate, ValidatorConstraint, ValidatorConstraintInterface, ValidationArguments } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 import { CollectionSource } from '../entities/collection.entity';
+import { DenominationCountDto } from './denomination-count.dto';
 
 @ValidatorConstraint({ name: 'coordinatesPair', async: false })
 class CoordinatesPairValidator implements ValidatorConstraintInterface {
@@ -50,6 +51,14 @@ export class CreateCollectionDto {
   @IsOptional()
   notes?: string;
 
+  @ApiProperty({ description: 'Banknote and coin counts from the cash box', type: [DenominationCountDto], required: false })
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => DenominationCountDto)
+  @IsOptional()
+  denominations?: DenominationCountDto[];
+
   @ApiProperty({ enum: CollectionSource, required: false })
   @IsEnum(CollectionSource)
   @IsOptional()
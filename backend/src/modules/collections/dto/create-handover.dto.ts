@@ -0,0 +1,48 @@
+import {
+  IsArray,
+  IsUUID,
+  IsNumber,
+  IsOptional,
+  IsString,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class HandoverItemDto {
+  @ApiProperty({ description: 'ID инкассации' })
+  @IsUUID('4', { message: 'Некорректный ID инкассации' })
+  collectionId: string;
+
+  @ApiProperty({ description: 'Сумма в UZS', minimum: 1, maximum: 1000000000 })
+  @IsNumber({}, { message: 'Сумма должна быть числом' })
+  @Min(1, { message: 'Сумма должна быть больше 0' })
+  @Max(1000000000, { message: 'Сумма не может превышать 1,000,000,000 сум' })
+  amount: number;
+}
+
+export class CreateHandoverDto {
+  @ApiProperty({ description: 'ID оператора, сдающего наличные' })
+  @IsUUID('4', { message: 'Некорректный ID оператора' })
+  operatorId: string;
+
+  @ApiProperty({ description: 'Инкассации, принятые в этой сдаче', type: [HandoverItemDto] })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Укажите хотя бы одну инкассацию' })
+  @ArrayMaxSize(200, { message: 'Максимум 200 инкассаций за одну сдачу' })
+  @ValidateNested({ each: true })
+  @Type(() => HandoverItemDto)
+  items: HandoverItemDto[];
+
+  @ApiProperty({ description: 'Примечание', required: false })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsString()
+  @MaxLength(1000, { message: 'Примечание не может превышать 1000 символов' })
+  @IsOptional()
+  notes?: string;
+}
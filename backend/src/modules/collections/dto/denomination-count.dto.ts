@@ -0,0 +1,21 @@
+import { IsIn, IsInt, IsOptional, Min, Max } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES } from '../../../common/utils/denominations';
+
+export class DenominationCountDto {
+  @ApiProperty({ description: 'Валюта', enum: SUPPORTED_CURRENCIES, default: BASE_CURRENCY, required: false })
+  @IsIn(SUPPORTED_CURRENCIES, { message: 'Неподдерживаемая валюта' })
+  @IsOptional()
+  currency?: string;
+
+  @ApiProperty({ description: 'Номинал купюры или монеты', example: 5000 })
+  @IsInt({ message: 'Номинал должен быть целым числом' })
+  @Min(1, { message: 'Номинал должен быть больше 0' })
+  value: number;
+
+  @ApiProperty({ description: 'Количество', example: 10 })
+  @IsInt({ message: 'Количество должно быть целым числом' })
+  @Min(0, { message: 'Количество не может быть отрицательным' })
+  @Max(100000, { message: 'Количество не может превышать 100000' })
+  count: number;
+}
@@ -1,6 +1,7 @@
-import { IsNumber, IsString, IsNotEmpty, IsOptional, Min, Max, MaxLength } from 'class-validator';
-import { Transform } from 'class-transformer';
+import { IsNumber, IsString, IsNotEmpty, IsOptional, IsArray, ArrayMaxSize, ValidateNested, Min, Max, MaxLength } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
+import { DenominationCountDto } from './denomination-count.dto';
 
 export class EditCollectionDto {
   @ApiProperty({ description: 'Новая сумма в UZS', minimum: 1, maximum: 1000000000, required: false })
@@ -23,4 +24,12 @@ export class EditCollectionDto {
   @IsOptional()
   @MaxLength(1000, { message: 'Примечание не может превышать 1000 символов' })
   notes?: string;
+
+  @ApiProperty({ description: 'Новая разбивка по купюрам и монетам (пустой массив — удалить разбивку)', type: [DenominationCountDto], required: false })
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => DenominationCountDto)
+  @IsOptional()
+  denominations?: DenominationCountDto[];
 }
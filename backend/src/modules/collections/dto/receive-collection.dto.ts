@@ -1,6 +1,7 @@
-import { IsNumber, IsOptional, IsString, Min, Max, MaxLength } from 'class-validator';
-import { Transform } from 'class-transformer';
+import { IsNumber, IsOptional, IsString, IsArray, ArrayMaxSize, ValidateNested, Min, Max, MaxLength } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
+import { DenominationCountDto } from './denomination-count.dto';
 
 export class ReceiveCollectionDto {
   @ApiProperty({ description: 'Сумма в UZS', minimum: 1, maximum: 1000000000 })
@@ -15,4 +16,12 @@ export class ReceiveCollectionDto {
   @MaxLength(1000, { message: 'Примечание не может превышать 1000 символов' })
   @IsOptional()
   notes?: string;
+
+  @ApiProperty({ description: 'Разбивка по купюрам и монетам (сумма UZS должна совпадать с amount)', type: [DenominationCountDto], required: false })
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => DenominationCountDto)
+  @IsOptional()
+  denominations?: DenominationCountDto[];
 }
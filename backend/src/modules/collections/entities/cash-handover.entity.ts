@@ -0,0 +1,53 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { Collection } from './collection.entity';
+
+/**
+ * One manager receipt of cash from an operator. A handover may cover any
+ * subset of the operator's pending collections; the rest stay with the
+ * operator until a later handover.
+ */
+@Entity('cash_handovers')
+@Index(['operatorId', 'createdAt'])
+export class CashHandover {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'operator_id' })
+  operator: User;
+
+  @Column({ name: 'operator_id' })
+  operatorId: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'manager_id' })
+  manager: User;
+
+  @Column({ name: 'manager_id' })
+  managerId: string;
+
+  @Column({ name: 'total_amount', type: 'decimal', precision: 15, scale: 2 })
+  totalAmount: number;
+
+  @Column({ name: 'collections_count', type: 'int' })
+  collectionsCount: number;
+
+  @Column({ type: 'text', nullable: true })
+  notes: string | null;
+
+  @OneToMany(() => Collection, (collection) => collection.handover)
+  collections: Collection[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
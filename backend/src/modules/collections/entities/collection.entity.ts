@@ -11,6 +11,8 @@ import {
 import { User } from '../../users/entities/user.entity';
 import { Machine } from '../../machines/entities/machine.entity';
 import { MachineLocation } from '../../machines/entities/machine-location.entity';
+import { DenominationCount } from '../../../common/utils/denominations';
+import { CashHandover } from './cash-handover.entity';
 
 export enum CollectionStatus {
   COLLECTED = 'collected',
@@ -24,6 +26,20 @@ export enum CollectionSource {
   EXCEL_IMPORT = 'excel_import',
 }
 
+export enum EscalationLevel {
+  OPERATOR_REMINDER = 'operator_reminder',
+  MANAGER_ALERT = 'manager_alert',
+}
+
+/** One step taken for a collection left pending past the SLA */
+export interface CollectionEscalation {
+  level: EscalationLevel;
+  /** ISO timestamp */
+  at: string;
+  /** Telegram messages actually delivered */
+  notified: number;
+}
+
 @Entity('collections')
 @Index(['status', 'collectedAt']) // Reports query: WHERE status AND collectedAt BETWEEN
 @Index(['machineId', 'collectedAt']) // Reports by-machine query
@@ -62,6 +78,10 @@ export class Collection {
   @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true })
   amount: number;
 
+  // Optional per-denomination counts; UZS entries sum to amount once received
+  @Column({ type: 'jsonb', nullable: true })
+  denominations: DenominationCount[] | null;
+
   @Column({
     type: 'enum',
     enum: CollectionStatus,
@@ -96,6 +116,18 @@ export class Collection {
   @Column({ name: 'location_id', nullable: true })
   locationId: string;
 
+  // Set when the collection was received as part of a multi-collection handover
+  @ManyToOne(() => CashHandover, (handover) => handover.collections, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'handover_id' })
+  handover: CashHandover;
+
+  @Column({ name: 'handover_id', type: 'uuid', nullable: true })
+  handoverId: string | null;
+
+  // Reminders and alerts sent while the collection waited past the SLA, oldest first
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  escalations: CollectionEscalation[];
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -0,0 +1,105 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { DiscrepanciesController } from './discrepancies.controller';
+import { DiscrepanciesService } from './discrepancies.service';
+import { DiscrepancyKind, DiscrepancyStatus } from './entities/discrepancy-case.entity';
+import { User, UserRole } from '../users/entities/user.entity';
+
+describe('DiscrepanciesController', () => {
+  let controller: DiscrepanciesController;
+  let service: jest.Mocked<DiscrepanciesService>;
+
+  const mockUser = {
+    id: 'manager-1',
+    name: 'Manager',
+    role: UserRole.MANAGER,
+  } as User;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [DiscrepanciesController],
+      providers: [
+        {
+          provide: DiscrepanciesService,
+          useValue: {
+            findAll: jest.fn(),
+            findByIdOrFail: jest.fn(),
+            create: jest.fn(),
+            update: jest.fn(),
+            addComment: jest.fn(),
+            addAttachment: jest.fn(),
+            getAttachmentUrl: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    controller = module.get(DiscrepanciesController);
+    service = module.get(DiscrepanciesService);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should pass query to findAll', async () => {
+    service.findAll.mockResolvedValue({ data: [], total: 0 });
+
+    const result = await controller.findAll({ activeOnly: true, page: 2 });
+
+    expect(service.findAll).toHaveBeenCalledWith({ activeOnly: true, page: 2 });
+    expect(result).toEqual({ data: [], total: 0 });
+  });
+
+  it('should create a case on behalf of the current user', async () => {
+    const dto = {
+      collectionId: 'col-1',
+      kind: DiscrepancyKind.SHORTAGE,
+      expectedAmount: 100000,
+      actualAmount: 80000,
+    };
+    service.create.mockResolvedValue({ id: 'case-1' } as any);
+
+    await controller.create(dto, mockUser);
+
+    expect(service.create).toHaveBeenCalledWith(dto, 'manager-1');
+  });
+
+  it('should update a case on behalf of the current user', async () => {
+    const dto = { status: DiscrepancyStatus.INVESTIGATING };
+    service.update.mockResolvedValue({ id: 'case-1' } as any);
+
+    await controller.update('case-1', dto, mockUser);
+
+    expect(service.update).toHaveBeenCalledWith('case-1', dto, 'manager-1');
+  });
+
+  it('should add a comment', async () => {
+    await controller.addComment('case-1', { text: 'Called operator' }, mockUser);
+
+    expect(service.addComment).toHaveBeenCalledWith('case-1', 'Called operator', 'manager-1');
+  });
+
+  it('should reject attachment upload without file', async () => {
+    await expect(
+      controller.addAttachment('case-1', undefined as any, mockUser),
+    ).rejects.toThrow(BadRequestException);
+    expect(service.addAttachment).not.toHaveBeenCalled();
+  });
+
+  it('should upload attachment', async () => {
+    const file = { buffer: Buffer.from('x'), originalname: 'act.pdf', mimetype: 'application/pdf' };
+
+    await controller.addAttachment('case-1', file, mockUser);
+
+    expect(service.addAttachment).toHaveBeenCalledWith('case-1', file, 'manager-1');
+  });
+
+  it('should return attachment URL', async () => {
+    service.getAttachmentUrl.mockResolvedValue({ url: 'https://file', originalName: 'act.pdf' });
+
+    const result = await controller.getAttachmentUrl('case-1', 'att-1');
+
+    expect(result).toEqual({ url: 'https://file', originalName: 'act.pdf' });
+  });
+});
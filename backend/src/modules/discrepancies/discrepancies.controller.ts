@@ -0,0 +1,105 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiConsumes } from '@nestjs/swagger';
+import { DiscrepanciesService } from './discrepancies.service';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { RequireModule } from '../../common/decorators/require-module.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { UserRole, User } from '../users/entities/user.entity';
+import { CreateDiscrepancyCaseDto } from './dto/create-discrepancy-case.dto';
+import { UpdateDiscrepancyCaseDto } from './dto/update-discrepancy-case.dto';
+import { AddDiscrepancyCommentDto } from './dto/add-discrepancy-comment.dto';
+import { DiscrepancyQueryDto } from './dto/discrepancy-query.dto';
+
+@ApiTags('discrepancies')
+@Controller('discrepancies')
+@ApiBearerAuth()
+@RequireModule('sales')
+export class DiscrepanciesController {
+  constructor(private readonly discrepanciesService: DiscrepanciesService) {}
+
+  @Get()
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'List discrepancy cases' })
+  async findAll(@Query() query: DiscrepancyQueryDto) {
+    return this.discrepanciesService.findAll(query);
+  }
+
+  @Get(':id')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get discrepancy case with comments and attachments' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return this.discrepanciesService.findByIdOrFail(id);
+  }
+
+  @Post()
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Open a discrepancy case for a reconciled collection' })
+  async create(@Body() dto: CreateDiscrepancyCaseDto, @CurrentUser() user: User) {
+    return this.discrepanciesService.create(dto, user.id);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Change status, owner or resolution of a case' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateDiscrepancyCaseDto,
+    @CurrentUser() user: User,
+  ) {
+    return this.discrepanciesService.update(id, dto, user.id);
+  }
+
+  @Post(':id/comments')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Add a comment to a case' })
+  async addComment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: AddDiscrepancyCommentDto,
+    @CurrentUser() user: User,
+  ) {
+    return this.discrepanciesService.addComment(id, dto.text, user.id);
+  }
+
+  @Post(':id/attachments')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Attach a file (photo, act, receipt) to a case' })
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: 20 * 1024 * 1024 }, // 20MB — Telegram bot upload limit is 50MB
+    }),
+  )
+  async addAttachment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @UploadedFile() file: { buffer: Buffer; originalname: string; mimetype: string; size?: number },
+    @CurrentUser() user: User,
+  ) {
+    if (!file) {
+      throw new BadRequestException('Файл не загружен');
+    }
+    return this.discrepanciesService.addAttachment(id, file, user.id);
+  }
+
+  @Get(':id/attachments/:attachmentId/url')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get download URL for an attachment' })
+  async getAttachmentUrl(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('attachmentId', ParseUUIDPipe) attachmentId: string,
+  ) {
+    return this.discrepanciesService.getAttachmentUrl(id, attachmentId);
+  }
+}
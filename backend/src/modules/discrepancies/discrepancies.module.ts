@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { MulterModule } from '@nestjs/platform-express';
+import { DiscrepancyCase } from './entities/discrepancy-case.entity';
+import { DiscrepancyComment } from './entities/discrepancy-comment.entity';
+import { DiscrepancyAttachment } from './entities/discrepancy-attachment.entity';
+import { Collection } from '../collections/entities/collection.entity';
+import { DiscrepanciesController } from './discrepancies.controller';
+import { DiscrepanciesService } from './discrepancies.service';
+import { UsersModule } from '../users/users.module';
+import { TelegramModule } from '../../telegram/telegram.module';
+import { SalesModule } from '../sales/sales.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([DiscrepancyCase, DiscrepancyComment, DiscrepancyAttachment, Collection]),
+    MulterModule.register({
+      storage: undefined, // memory storage (default)
+    }),
+    UsersModule,
+    TelegramModule,
+    SalesModule,
+  ],
+  controllers: [DiscrepanciesController],
+  providers: [DiscrepanciesService],
+  exports: [DiscrepanciesService],
+})
+export class DiscrepanciesModule {}
@@ -0,0 +1,449 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { NotFoundException, BadRequestException } from '@nestjs/common';
+import { DiscrepanciesService } from './discrepancies.service';
+import {
+  DiscrepancyCase,
+  DiscrepancyKind,
+  DiscrepancyStatus,
+} from './entities/discrepancy-case.entity';
+import { DiscrepancyComment } from './entities/discrepancy-comment.entity';
+import { DiscrepancyAttachment } from './entities/discrepancy-attachment.entity';
+import { Collection, CollectionStatus } from '../collections/entities/collection.entity';
+import { UsersService } from '../users/users.service';
+import { UserRole } from '../users/entities/user.entity';
+import { TelegramService } from '../../telegram/telegram.service';
+import { SalesService } from '../sales/sales.service';
+
+describe('DiscrepanciesService', () => {
+  let service: DiscrepanciesService;
+  let caseRepository: any;
+  let commentRepository: any;
+  let attachmentRepository: any;
+  let collectionRepository: any;
+  let usersService: { findById: jest.Mock };
+  let telegramService: { getArchiveChannelId: jest.Mock; sendDocument: jest.Mock; getFileUrl: jest.Mock };
+  let salesService: { getReconciliation: jest.Mock };
+  let mockQueryRunner: any;
+  let mockQueryBuilder: any;
+
+  const receivedCollection = {
+    id: 'col-1',
+    status: CollectionStatus.RECEIVED,
+    amount: 80000,
+    collectedAt: new Date('2025-02-10T10:00:00.000Z'),
+    machine: { code: 'A01' },
+  };
+  const openCase = {
+    id: 'case-1',
+    collectionId: 'col-1',
+    kind: DiscrepancyKind.SHORTAGE,
+    status: DiscrepancyStatus.OPEN,
+    ownerId: null,
+    resolution: null,
+    recoveredAmount: null,
+    closedAt: null,
+  };
+  const manager = { id: 'manager-1', name: 'Manager', role: UserRole.MANAGER, isActive: true };
+
+  beforeEach(async () => {
+    mockQueryBuilder = {
+      leftJoinAndSelect: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      skip: jest.fn().mockReturnThis(),
+      take: jest.fn().mockReturnThis(),
+      getManyAndCount: jest.fn().mockResolvedValue([[], 0]),
+    };
+
+    mockQueryRunner = {
+      connect: jest.fn(),
+      startTransaction: jest.fn(),
+      commitTransaction: jest.fn(),
+      rollbackTransaction: jest.fn(),
+      release: jest.fn(),
+      manager: {
+        findOne: jest.fn(),
+        save: jest.fn().mockImplementation(async (entity) => ({ id: 'case-1', ...entity })),
+        create: jest.fn().mockImplementation((_, data) => data),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DiscrepanciesService,
+        {
+          provide: getRepositoryToken(DiscrepancyCase),
+          useValue: {
+            findOne: jest.fn(),
+            count: jest.fn(),
+            createQueryBuilder: jest.fn().mockReturnValue(mockQueryBuilder),
+          },
+        },
+        {
+          provide: getRepositoryToken(DiscrepancyComment),
+          useValue: {
+            create: jest.fn().mockImplementation((data) => data),
+            save: jest.fn().mockImplementation(async (data) => ({ id: 'comment-1', ...data })),
+          },
+        },
+        {
+          provide: getRepositoryToken(DiscrepancyAttachment),
+          useValue: {
+            create: jest.fn().mockImplementation((data) => data),
+            save: jest.fn().mockImplementation(async (data) => ({ id: 'att-1', ...data })),
+            findOne: jest.fn(),
+          },
+        },
+        {
+          provide: getRepositoryToken(Collection),
+          useValue: { findOne: jest.fn() },
+        },
+        {
+          provide: UsersService,
+          useValue: { findById: jest.fn() },
+        },
+        {
+          provide: TelegramService,
+          useValue: {
+            getArchiveChannelId: jest.fn().mockReturnValue('-100123'),
+            sendDocument: jest.fn(),
+            getFileUrl: jest.fn(),
+          },
+        },
+        {
+          provide: SalesService,
+          useValue: {
+            getReconciliation: jest.fn().mockResolvedValue({
+              items: [{ collectionId: 'col-1', expectedAmount: 100000, actualAmount: 80000, difference: 20000 }],
+              summary: {},
+            }),
+          },
+        },
+        {
+          provide: DataSource,
+          useValue: { createQueryRunner: jest.fn().mockReturnValue(mockQueryRunner) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(DiscrepanciesService);
+    caseRepository = module.get(getRepositoryToken(DiscrepancyCase));
+    commentRepository = module.get(getRepositoryToken(DiscrepancyComment));
+    attachmentRepository = module.get(getRepositoryToken(DiscrepancyAttachment));
+    collectionRepository = module.get(getRepositoryToken(Collection));
+    usersService = module.get(UsersService);
+    telegramService = module.get(TelegramService);
+    salesService = module.get(SalesService);
+  });
+
+  describe('findAll', () => {
+    it('should filter active cases and paginate', async () => {
+      await service.findAll({ activeOnly: true, page: 2, limit: 10 });
+
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'dc.status NOT IN (:...closed)',
+        { closed: ['explained', 'written_off', 'recovered_from_operator'] },
+      );
+      expect(mockQueryBuilder.skip).toHaveBeenCalledWith(10);
+      expect(mockQueryBuilder.take).toHaveBeenCalledWith(10);
+    });
+
+    it('should prefer explicit status over activeOnly', async () => {
+      await service.findAll({ status: DiscrepancyStatus.WRITTEN_OFF, activeOnly: true });
+
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('dc.status = :status', {
+        status: DiscrepancyStatus.WRITTEN_OFF,
+      });
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('findByIdOrFail', () => {
+    it('should throw NotFoundException for unknown case', async () => {
+      caseRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findByIdOrFail('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('create', () => {
+    const dto = {
+      collectionId: 'col-1',
+      kind: DiscrepancyKind.SHORTAGE,
+      comment: 'Operator says coin jam',
+    };
+
+    it('should open a case and log the opening event', async () => {
+      collectionRepository.findOne.mockResolvedValue(receivedCollection);
+      caseRepository.findOne
+        .mockResolvedValueOnce(null) // no existing case
+        .mockResolvedValueOnce({ ...openCase }); // findByIdOrFail
+
+      const result = await service.create(dto, 'manager-1');
+
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        DiscrepancyCase,
+        expect.objectContaining({
+          collectionId: 'col-1',
+          kind: DiscrepancyKind.SHORTAGE,
+          status: DiscrepancyStatus.OPEN,
+          expectedAmount: 100000,
+          actualAmount: 80000,
+          difference: 20000,
+          createdById: 'manager-1',
+        }),
+      );
+      expect(salesService.getReconciliation).toHaveBeenCalledWith({ machineCode: 'A01', to: '2025-02-10' });
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        DiscrepancyComment,
+        expect.objectContaining({
+          caseId: 'case-1',
+          text: 'Operator says coin jam',
+          statusTo: DiscrepancyStatus.OPEN,
+        }),
+      );
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+      expect(result.id).toBe('case-1');
+    });
+
+    it('should reject collections that are not received', async () => {
+      collectionRepository.findOne.mockResolvedValue({ id: 'col-1', status: CollectionStatus.COLLECTED });
+
+      await expect(service.create(dto, 'manager-1')).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a second case for the same collection', async () => {
+      collectionRepository.findOne.mockResolvedValue(receivedCollection);
+      caseRepository.findOne.mockResolvedValue({ ...openCase });
+
+      await expect(service.create(dto, 'manager-1')).rejects.toMatchObject({
+        response: expect.objectContaining({ code: 'CASE_EXISTS', existingCaseId: 'case-1' }),
+      });
+    });
+
+    it('should reject kind that contradicts amounts', async () => {
+      collectionRepository.findOne.mockResolvedValue(receivedCollection);
+      caseRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.create({ ...dto, kind: DiscrepancyKind.OVERAGE }, 'manager-1'),
+      ).rejects.toThrow('Amounts do not describe a overage');
+    });
+
+    it('should take actual amount from the collection, not the reconciliation row', async () => {
+      collectionRepository.findOne.mockResolvedValue({ ...receivedCollection, amount: 120000 });
+      caseRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.create(dto, 'manager-1')).rejects.toThrow('Amounts do not describe a shortage');
+    });
+
+    it('should reject collections without a reconciliation result', async () => {
+      collectionRepository.findOne.mockResolvedValue(receivedCollection);
+      caseRepository.findOne.mockResolvedValue(null);
+      salesService.getReconciliation.mockResolvedValue({ items: [], summary: {} });
+
+      await expect(service.create(dto, 'manager-1')).rejects.toThrow('No reconciliation result for this collection');
+    });
+
+    it('should reject operators as owners', async () => {
+      collectionRepository.findOne.mockResolvedValue(receivedCollection);
+      caseRepository.findOne.mockResolvedValue(null);
+      usersService.findById.mockResolvedValue({ ...manager, role: UserRole.OPERATOR });
+
+      await expect(
+        service.create({ ...dto, ownerId: 'op-1' }, 'manager-1'),
+      ).rejects.toThrow('Only managers and admins can own a case');
+    });
+  });
+
+  describe('update', () => {
+    beforeEach(() => {
+      caseRepository.findOne.mockResolvedValue({ ...openCase });
+    });
+
+    it('should log status transitions', async () => {
+      mockQueryRunner.manager.findOne.mockResolvedValue({ ...openCase });
+
+      await service.update('case-1', { status: DiscrepancyStatus.INVESTIGATING, comment: 'Checking video' }, 'manager-1');
+
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        DiscrepancyComment,
+        expect.objectContaining({
+          text: 'Checking video',
+          statusFrom: DiscrepancyStatus.OPEN,
+          statusTo: DiscrepancyStatus.INVESTIGATING,
+        }),
+      );
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('should require resolution to close a case', async () => {
+      mockQueryRunner.manager.findOne.mockResolvedValue({ ...openCase });
+
+      await expect(
+        service.update('case-1', { status: DiscrepancyStatus.WRITTEN_OFF }, 'manager-1'),
+      ).rejects.toThrow('Resolution is required to close a case');
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+
+    it('should require recovered amount for recovered_from_operator', async () => {
+      mockQueryRunner.manager.findOne.mockResolvedValue({ ...openCase });
+
+      await expect(
+        service.update(
+          'case-1',
+          { status: DiscrepancyStatus.RECOVERED_FROM_OPERATOR, resolution: 'Deducted from salary' },
+          'manager-1',
+        ),
+      ).rejects.toThrow('Recovered amount is required');
+    });
+
+    it('should close a case and set closedAt', async () => {
+      mockQueryRunner.manager.findOne.mockResolvedValue({ ...openCase });
+
+      await service.update(
+        'case-1',
+        {
+          status: DiscrepancyStatus.RECOVERED_FROM_OPERATOR,
+          resolution: 'Deducted from salary',
+          recoveredAmount: 20000,
+        },
+        'manager-1',
+      );
+
+      const saved = mockQueryRunner.manager.save.mock.calls[0][0];
+      expect(saved.status).toBe(DiscrepancyStatus.RECOVERED_FROM_OPERATOR);
+      expect(saved.recoveredAmount).toBe(20000);
+      expect(saved.closedAt).toBeInstanceOf(Date);
+    });
+
+    it('should clear closedAt when a case is reopened', async () => {
+      mockQueryRunner.manager.findOne.mockResolvedValue({
+        ...openCase,
+        status: DiscrepancyStatus.EXPLAINED,
+        resolution: 'Sales export was wrong',
+        closedAt: new Date(),
+      });
+
+      await service.update('case-1', { status: DiscrepancyStatus.INVESTIGATING }, 'manager-1');
+
+      expect(mockQueryRunner.manager.save.mock.calls[0][0].closedAt).toBeNull();
+    });
+
+    it('should note owner changes in the activity log', async () => {
+      mockQueryRunner.manager.findOne.mockResolvedValue({ ...openCase });
+      usersService.findById.mockResolvedValue(manager);
+
+      await service.update('case-1', { ownerId: 'manager-1' }, 'admin-1');
+
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(
+        DiscrepancyComment,
+        expect.objectContaining({ text: 'Ответственный: Manager', statusFrom: null, statusTo: null }),
+      );
+    });
+
+    it('should throw NotFoundException for unknown case', async () => {
+      mockQueryRunner.manager.findOne.mockResolvedValue(null);
+
+      await expect(service.update('missing', { comment: 'x' }, 'manager-1')).rejects.toThrow(NotFoundException);
+      expect(mockQueryRunner.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('addComment', () => {
+    it('should save a comment for an existing case', async () => {
+      caseRepository.count.mockResolvedValue(1);
+
+      const result = await service.addComment('case-1', 'Called operator', 'manager-1');
+
+      expect(commentRepository.save).toHaveBeenCalledWith({
+        caseId: 'case-1',
+        authorId: 'manager-1',
+        text: 'Called operator',
+      });
+      expect(result.id).toBe('comment-1');
+    });
+
+    it('should throw NotFoundException for unknown case', async () => {
+      caseRepository.count.mockResolvedValue(0);
+
+      await expect(service.addComment('missing', 'x', 'manager-1')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('addAttachment', () => {
+    const file = { buffer: Buffer.from('pdf'), originalname: 'act.pdf', mimetype: 'application/pdf' };
+
+    it('should archive file to Telegram and store file_id', async () => {
+      caseRepository.findOne.mockResolvedValue({ ...openCase, collection: { machine: { code: 'A01' } } });
+      telegramService.sendDocument.mockResolvedValue({ fileId: 'tg-file', messageId: 42 });
+
+      await service.addAttachment('case-1', file, 'manager-1');
+
+      expect(telegramService.sendDocument).toHaveBeenCalledWith(
+        '-100123',
+        file.buffer,
+        'act.pdf',
+        expect.stringContaining('A01'),
+      );
+      expect(attachmentRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          caseId: 'case-1',
+          originalName: 'act.pdf',
+          telegramFileId: 'tg-file',
+          telegramMessageId: 42,
+          fileSize: 3,
+        }),
+      );
+    });
+
+    it('should escape HTML in the caption', async () => {
+      caseRepository.findOne.mockResolvedValue({ ...openCase, collection: { machine: { code: 'A01' } } });
+      telegramService.sendDocument.mockResolvedValue({ fileId: 'tg-file', messageId: 42 });
+
+      await service.addAttachment('case-1', { ...file, originalname: '<b>act</b> & co.pdf' }, 'manager-1');
+
+      expect(telegramService.sendDocument).toHaveBeenCalledWith(
+        '-100123',
+        file.buffer,
+        '<b>act</b> & co.pdf',
+        expect.stringContaining('Файл: &lt;b&gt;act&lt;/b&gt; &amp; co.pdf'),
+      );
+    });
+
+    it('should fail when archive channel is not configured', async () => {
+      caseRepository.findOne.mockResolvedValue({ ...openCase });
+      telegramService.getArchiveChannelId.mockReturnValue('');
+
+      await expect(service.addAttachment('case-1', file, 'manager-1')).rejects.toThrow(BadRequestException);
+    });
+
+    it('should fail when Telegram upload fails', async () => {
+      caseRepository.findOne.mockResolvedValue({ ...openCase });
+      telegramService.sendDocument.mockResolvedValue(null);
+
+      await expect(service.addAttachment('case-1', file, 'manager-1')).rejects.toThrow(BadRequestException);
+      expect(attachmentRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAttachmentUrl', () => {
+    it('should resolve Telegram file URL', async () => {
+      attachmentRepository.findOne.mockResolvedValue({ telegramFileId: 'tg-file', originalName: 'act.pdf' });
+      telegramService.getFileUrl.mockResolvedValue('https://api.telegram.org/file/x');
+
+      const result = await service.getAttachmentUrl('case-1', 'att-1');
+
+      expect(attachmentRepository.findOne).toHaveBeenCalledWith({ where: { id: 'att-1', caseId: 'case-1' } });
+      expect(result).toEqual({ url: 'https://api.telegram.org/file/x', originalName: 'act.pdf' });
+    });
+
+    it('should throw NotFoundException for unknown attachment', async () => {
+      attachmentRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.getAttachmentUrl('case-1', 'att-x')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
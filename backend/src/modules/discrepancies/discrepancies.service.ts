@@ -0,0 +1,363 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, DataSource } from 'typeorm';
+import {
+  DiscrepancyCase,
+  DiscrepancyKind,
+  DiscrepancyStatus,
+  CLOSED_DISCREPANCY_STATUSES,
+} from './entities/discrepancy-case.entity';
+import { DiscrepancyComment } from './entities/discrepancy-comment.entity';
+import { DiscrepancyAttachment } from './entities/discrepancy-attachment.entity';
+import { Collection, CollectionStatus } from '../collections/entities/collection.entity';
+import { UsersService } from '../users/users.service';
+import { UserRole } from '../users/entities/user.entity';
+import { TelegramService } from '../../telegram/telegram.service';
+import { SalesService } from '../sales/sales.service';
+import { toTashkentDateString } from '../../common/utils/timezone';
+import { CreateDiscrepancyCaseDto } from './dto/create-discrepancy-case.dto';
+import { UpdateDiscrepancyCaseDto } from './dto/update-discrepancy-case.dto';
+import { DiscrepancyQueryDto } from './dto/discrepancy-query.dto';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+@Injectable()
+export class DiscrepanciesService {
+  private readonly logger = new Logger(DiscrepanciesService.name);
+
+  constructor(
+    @InjectRepository(DiscrepancyCase)
+    private readonly caseRepository: Repository<DiscrepancyCase>,
+    @InjectRepository(DiscrepancyComment)
+    private readonly commentRepository: Repository<DiscrepancyComment>,
+    @InjectRepository(DiscrepancyAttachment)
+    private readonly attachmentRepository: Repository<DiscrepancyAttachment>,
+    @InjectRepository(Collection)
+    private readonly collectionRepository: Repository<Collection>,
+    private readonly usersService: UsersService,
+    private readonly telegramService: TelegramService,
+    private readonly salesService: SalesService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async findAll(query: DiscrepancyQueryDto): Promise<{ data: DiscrepancyCase[]; total: number }> {
+    const qb = this.caseRepository
+      .createQueryBuilder('dc')
+      .leftJoinAndSelect('dc.collection', 'collection')
+      .leftJoinAndSelect('collection.machine', 'machine')
+      .leftJoinAndSelect('collection.operator', 'operator')
+      .leftJoinAndSelect('dc.owner', 'owner');
+
+    if (query.status) {
+      qb.andWhere('dc.status = :status', { status: query.status });
+    } else if (query.activeOnly) {
+      qb.andWhere('dc.status NOT IN (:...closed)', { closed: CLOSED_DISCREPANCY_STATUSES });
+    }
+
+    if (query.ownerId) {
+      qb.andWhere('dc.ownerId = :ownerId', { ownerId: query.ownerId });
+    }
+
+    if (query.collectionId) {
+      qb.andWhere('dc.collectionId = :collectionId', { collectionId: query.collectionId });
+    }
+
+    qb.orderBy('dc.createdAt', 'DESC');
+
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    qb.skip((page - 1) * limit).take(limit);
+
+    const [data, total] = await qb.getManyAndCount();
+    return { data, total };
+  }
+
+  async findByIdOrFail(id: string): Promise<DiscrepancyCase> {
+    const found = await this.caseRepository.findOne({
+      where: { id },
+      relations: [
+        'collection',
+        'collection.machine',
+        'collection.operator',
+        'owner',
+        'createdBy',
+        'comments',
+        'comments.author',
+        'attachments',
+        'attachments.uploadedBy',
+      ],
+      order: {
+        comments: { createdAt: 'ASC' },
+        attachments: { createdAt: 'ASC' },
+      },
+    });
+    if (!found) {
+      throw new NotFoundException('Discrepancy case not found');
+    }
+    return found;
+  }
+
+  async create(dto: CreateDiscrepancyCaseDto, userId: string): Promise<DiscrepancyCase> {
+    const collection = await this.collectionRepository.findOne({
+      where: { id: dto.collectionId },
+      relations: ['machine'],
+    });
+    if (!collection) {
+      throw new NotFoundException('Collection not found');
+    }
+    if (collection.status !== CollectionStatus.RECEIVED) {
+      throw new BadRequestException('Cases can only be opened for received collections');
+    }
+
+    const existing = await this.caseRepository.findOne({ where: { collectionId: dto.collectionId } });
+    if (existing) {
+      throw new BadRequestException({
+        code: 'CASE_EXISTS',
+        message: 'A discrepancy case already exists for this collection',
+        existingCaseId: existing.id,
+      });
+    }
+
+    // Amounts are never taken from the client: actual is what was collected,
+    // expected is what reconciliation computes for the collection's period
+    const item = await this.findReconciliationItem(collection);
+    if (!item) {
+      throw new BadRequestException('No reconciliation result for this collection');
+    }
+    const expectedAmount = item.expectedAmount;
+    const actualAmount = Number(collection.amount);
+    // Same sign convention as reconciliation: difference = expected - actual
+    const difference = Math.round((expectedAmount - actualAmount) * 100) / 100;
+    if (
+      (dto.kind === DiscrepancyKind.SHORTAGE && difference <= 0) ||
+      (dto.kind === DiscrepancyKind.OVERAGE && difference >= 0)
+    ) {
+      throw new BadRequestException(`Amounts do not describe a ${dto.kind}`);
+    }
+
+    if (dto.ownerId) {
+      await this.assertValidOwner(dto.ownerId);
+    }
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    let caseId: string;
+    try {
+      const saved = await queryRunner.manager.save(
+        queryRunner.manager.create(DiscrepancyCase, {
+          collectionId: dto.collectionId,
+          kind: dto.kind,
+          status: DiscrepancyStatus.OPEN,
+          expectedAmount,
+          actualAmount,
+          difference,
+          ownerId: dto.ownerId ?? null,
+          createdById: userId,
+        }),
+      );
+
+      await queryRunner.manager.save(
+        queryRunner.manager.create(DiscrepancyComment, {
+          caseId: saved.id,
+          authorId: userId,
+          text: dto.comment || null,
+          statusFrom: null,
+          statusTo: DiscrepancyStatus.OPEN,
+        }),
+      );
+
+      await queryRunner.commitTransaction();
+      caseId = saved.id;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+
+    this.logger.log(`Discrepancy case ${caseId} opened for collection ${dto.collectionId}`);
+    return this.findByIdOrFail(caseId);
+  }
+
+  async update(id: string, dto: UpdateDiscrepancyCaseDto, userId: string): Promise<DiscrepancyCase> {
+    if (dto.ownerId) {
+      await this.assertValidOwner(dto.ownerId);
+    }
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      const dc = await queryRunner.manager.findOne(DiscrepancyCase, {
+        where: { id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!dc) {
+        throw new NotFoundException('Discrepancy case not found');
+      }
+
+      if (dto.resolution !== undefined) {
+        dc.resolution = dto.resolution || null;
+      }
+      if (dto.recoveredAmount !== undefined) {
+        dc.recoveredAmount = dto.recoveredAmount;
+      }
+
+      const statusFrom = dc.status;
+      const statusChanged = dto.status !== undefined && dto.status !== dc.status;
+      if (statusChanged) {
+        const closing = CLOSED_DISCREPANCY_STATUSES.includes(dto.status!);
+        if (closing && !dc.resolution) {
+          throw new BadRequestException('Resolution is required to close a case');
+        }
+        if (dto.status === DiscrepancyStatus.RECOVERED_FROM_OPERATOR && !dc.recoveredAmount) {
+          throw new BadRequestException('Recovered amount is required');
+        }
+        dc.status = dto.status!;
+        dc.closedAt = closing ? new Date() : null;
+      }
+
+      let ownerNote: string | null = null;
+      if (dto.ownerId !== undefined && dto.ownerId !== dc.ownerId) {
+        dc.ownerId = dto.ownerId;
+        if (dto.ownerId) {
+          const owner = await this.usersService.findById(dto.ownerId);
+          ownerNote = `Ответственный: ${owner?.name ?? dto.ownerId}`;
+        } else {
+          ownerNote = 'Ответственный снят';
+        }
+      }
+
+      await queryRunner.manager.save(dc);
+
+      const text = [ownerNote, dto.comment].filter(Boolean).join('\n') || null;
+      if (statusChanged || text) {
+        await queryRunner.manager.save(
+          queryRunner.manager.create(DiscrepancyComment, {
+            caseId: id,
+            authorId: userId,
+            text,
+            statusFrom: statusChanged ? statusFrom : null,
+            statusTo: statusChanged ? dc.status : null,
+          }),
+        );
+      }
+
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+
+    return this.findByIdOrFail(id);
+  }
+
+  async addComment(id: string, text: string, userId: string): Promise<DiscrepancyComment> {
+    await this.assertExists(id);
+    const comment = this.commentRepository.create({
+      caseId: id,
+      authorId: userId,
+      text,
+    });
+    return this.commentRepository.save(comment);
+  }
+
+  /**
+   * Attach a file to a case. The file is archived to the Telegram
+   * channel (same as sales import files), only file_id is stored.
+   */
+  async addAttachment(
+    id: string,
+    file: { buffer: Buffer; originalname: string; mimetype?: string; size?: number },
+    userId: string,
+  ): Promise<DiscrepancyAttachment> {
+    const dc = await this.caseRepository.findOne({
+      where: { id },
+      relations: ['collection', 'collection.machine'],
+    });
+    if (!dc) {
+      throw new NotFoundException('Discrepancy case not found');
+    }
+
+    const channelId = this.telegramService.getArchiveChannelId();
+    if (!channelId) {
+      throw new BadRequestException('Архив файлов не настроен (TELEGRAM_ARCHIVE_CHANNEL_ID)');
+    }
+
+    const machineCode = dc.collection?.machine?.code ?? '';
+    const caption =
+      `📎 <b>Расхождение</b> ${escapeHtml(machineCode)}\n` +
+      `Case: <code>${dc.id}</code>\n` +
+      `Файл: ${escapeHtml(file.originalname)}`;
+    const result = await this.telegramService.sendDocument(channelId, file.buffer, file.originalname, caption);
+    if (!result) {
+      throw new BadRequestException('Не удалось сохранить файл');
+    }
+
+    const attachment = this.attachmentRepository.create({
+      caseId: id,
+      originalName: file.originalname,
+      mimeType: file.mimetype || null,
+      fileSize: file.size ?? file.buffer.length,
+      telegramFileId: result.fileId,
+      telegramMessageId: result.messageId,
+      uploadedById: userId,
+    });
+    return this.attachmentRepository.save(attachment);
+  }
+
+  async getAttachmentUrl(id: string, attachmentId: string): Promise<{ url: string; originalName: string }> {
+    const attachment = await this.attachmentRepository.findOne({
+      where: { id: attachmentId, caseId: id },
+    });
+    if (!attachment) {
+      throw new NotFoundException('Attachment not found');
+    }
+
+    const url = await this.telegramService.getFileUrl(attachment.telegramFileId);
+    if (!url) {
+      throw new NotFoundException('Файл недоступен');
+    }
+    return { url, originalName: attachment.originalName };
+  }
+
+  /**
+   * The live reconciliation row of a collection. Its period starts at the
+   * machine's previous collection, so only the end of the range is bounded.
+   */
+  private async findReconciliationItem(collection: Collection) {
+    const { items } = await this.salesService.getReconciliation({
+      machineCode: collection.machine.code,
+      to: toTashkentDateString(new Date(collection.collectedAt)),
+    });
+    return items.find((i) => i.collectionId === collection.id) ?? null;
+  }
+
+  private async assertExists(id: string): Promise<void> {
+    const count = await this.caseRepository.count({ where: { id } });
+    if (count === 0) {
+      throw new NotFoundException('Discrepancy case not found');
+    }
+  }
+
+  private async assertValidOwner(ownerId: string): Promise<void> {
+    const owner = await this.usersService.findById(ownerId);
+    if (!owner || !owner.isActive) {
+      throw new BadRequestException('Owner not found or inactive');
+    }
+    if (owner.role === UserRole.OPERATOR) {
+      throw new BadRequestException('Only managers and admins can own a case');
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AddDiscrepancyCommentDto {
+  @ApiProperty({ description: 'Текст комментария' })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsString({ message: 'Комментарий должен быть строкой' })
+  @IsNotEmpty({ message: 'Комментарий не может быть пустым' })
+  @MaxLength(2000, { message: 'Комментарий не может превышать 2000 символов' })
+  text: string;
+}
@@ -0,0 +1,26 @@
+import { IsUUID, IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { DiscrepancyKind } from '../entities/discrepancy-case.entity';
+
+export class CreateDiscrepancyCaseDto {
+  @ApiProperty({ description: 'ID инкассации из сверки' })
+  @IsUUID('4', { message: 'Некорректный ID инкассации' })
+  collectionId: string;
+
+  @ApiProperty({ enum: DiscrepancyKind, description: 'Тип расхождения' })
+  @IsEnum(DiscrepancyKind, { message: 'Тип должен быть shortage или overage' })
+  kind: DiscrepancyKind;
+
+  @ApiProperty({ description: 'Ответственный', required: false })
+  @IsUUID('4', { message: 'Некорректный ID ответственного' })
+  @IsOptional()
+  ownerId?: string;
+
+  @ApiProperty({ description: 'Первый комментарий', required: false })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsString()
+  @MaxLength(2000, { message: 'Комментарий не может превышать 2000 символов' })
+  @IsOptional()
+  comment?: string;
+}
@@ -0,0 +1,42 @@
+import { IsEnum, IsOptional, IsUUID, IsNumber, IsBoolean, Min, Max } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { DiscrepancyStatus } from '../entities/discrepancy-case.entity';
+
+export class DiscrepancyQueryDto {
+  @ApiProperty({ enum: DiscrepancyStatus, required: false })
+  @IsEnum(DiscrepancyStatus)
+  @IsOptional()
+  status?: DiscrepancyStatus;
+
+  @ApiProperty({ description: 'Only open/investigating cases', required: false })
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  @IsOptional()
+  activeOnly?: boolean;
+
+  @ApiProperty({ required: false })
+  @IsUUID()
+  @IsOptional()
+  ownerId?: string;
+
+  @ApiProperty({ required: false })
+  @IsUUID()
+  @IsOptional()
+  collectionId?: string;
+
+  @ApiProperty({ required: false, minimum: 1, default: 1 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  page?: number;
+
+  @ApiProperty({ required: false, minimum: 1, maximum: 100, default: 20 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+}
@@ -0,0 +1,38 @@
+import { IsUUID, IsEnum, IsNumber, IsOptional, IsString, MaxLength, Min, Max, ValidateIf } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { DiscrepancyStatus } from '../entities/discrepancy-case.entity';
+
+export class UpdateDiscrepancyCaseDto {
+  @ApiProperty({ enum: DiscrepancyStatus, required: false })
+  @IsEnum(DiscrepancyStatus, { message: 'Некорректный статус' })
+  @IsOptional()
+  status?: DiscrepancyStatus;
+
+  @ApiProperty({ description: 'Ответственный (null — снять)', required: false, nullable: true })
+  @ValidateIf((o) => o.ownerId !== null)
+  @IsUUID('4', { message: 'Некорректный ID ответственного' })
+  @IsOptional()
+  ownerId?: string | null;
+
+  @ApiProperty({ description: 'Итог расследования (обязателен при закрытии)', required: false })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsString()
+  @MaxLength(2000, { message: 'Итог не может превышать 2000 символов' })
+  @IsOptional()
+  resolution?: string;
+
+  @ApiProperty({ description: 'Сумма, возмещённая оператором', required: false })
+  @IsNumber({}, { message: 'Сумма должна быть числом' })
+  @Min(1, { message: 'Сумма должна быть больше 0' })
+  @Max(1000000000, { message: 'Сумма не может превышать 1,000,000,000 сум' })
+  @IsOptional()
+  recoveredAmount?: number;
+
+  @ApiProperty({ description: 'Комментарий к изменению', required: false })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsString()
+  @MaxLength(2000, { message: 'Комментарий не может превышать 2000 символов' })
+  @IsOptional()
+  comment?: string;
+}
@@ -0,0 +1,52 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { DiscrepancyCase } from './discrepancy-case.entity';
+
+/**
+ * File attached to a case. Like sales import files, the content lives in
+ * the Telegram archive channel; only the file_id is stored here.
+ */
+@Entity('discrepancy_attachments')
+export class DiscrepancyAttachment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => DiscrepancyCase, (c) => c.attachments, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'case_id' })
+  case: DiscrepancyCase;
+
+  @Column({ name: 'case_id' })
+  caseId: string;
+
+  @Column({ name: 'original_name', type: 'varchar', length: 255 })
+  originalName: string;
+
+  @Column({ name: 'mime_type', type: 'varchar', length: 100, nullable: true })
+  mimeType: string | null;
+
+  @Column({ name: 'file_size', type: 'int', nullable: true })
+  fileSize: number | null;
+
+  @Column({ name: 'telegram_file_id', type: 'varchar', length: 255 })
+  telegramFileId: string;
+
+  @Column({ name: 'telegram_message_id', type: 'int', nullable: true })
+  telegramMessageId: number | null;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'uploaded_by_id' })
+  uploadedBy: User;
+
+  @Column({ name: 'uploaded_by_id' })
+  uploadedById: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,105 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { Collection } from '../../collections/entities/collection.entity';
+import { DiscrepancyComment } from './discrepancy-comment.entity';
+import { DiscrepancyAttachment } from './discrepancy-attachment.entity';
+
+export enum DiscrepancyKind {
+  SHORTAGE = 'shortage',
+  OVERAGE = 'overage',
+}
+
+export enum DiscrepancyStatus {
+  OPEN = 'open',
+  INVESTIGATING = 'investigating',
+  EXPLAINED = 'explained',
+  WRITTEN_OFF = 'written_off',
+  RECOVERED_FROM_OPERATOR = 'recovered_from_operator',
+}
+
+/** Statuses that close a case; moving into one requires a resolution */
+export const CLOSED_DISCREPANCY_STATUSES: DiscrepancyStatus[] = [
+  DiscrepancyStatus.EXPLAINED,
+  DiscrepancyStatus.WRITTEN_OFF,
+  DiscrepancyStatus.RECOVERED_FROM_OPERATOR,
+];
+
+@Entity('discrepancy_cases')
+@Index(['status', 'createdAt'])
+export class DiscrepancyCase {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Collection)
+  @JoinColumn({ name: 'collection_id' })
+  collection: Collection;
+
+  @Index({ unique: true })
+  @Column({ name: 'collection_id' })
+  collectionId: string;
+
+  @Column({ type: 'enum', enum: DiscrepancyKind })
+  kind: DiscrepancyKind;
+
+  @Column({
+    type: 'enum',
+    enum: DiscrepancyStatus,
+    default: DiscrepancyStatus.OPEN,
+  })
+  status: DiscrepancyStatus;
+
+  // Reconciliation figures at the moment the case was opened
+  @Column({ name: 'expected_amount', type: 'decimal', precision: 15, scale: 2 })
+  expectedAmount: number;
+
+  @Column({ name: 'actual_amount', type: 'decimal', precision: 15, scale: 2 })
+  actualAmount: number;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2 })
+  difference: number;
+
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: 'owner_id' })
+  owner: User;
+
+  @Column({ name: 'owner_id', type: 'uuid', nullable: true })
+  ownerId: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  resolution: string | null;
+
+  @Column({ name: 'recovered_amount', type: 'decimal', precision: 15, scale: 2, nullable: true })
+  recoveredAmount: number | null;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'created_by_id' })
+  createdBy: User;
+
+  @Column({ name: 'created_by_id' })
+  createdById: string;
+
+  @Column({ name: 'closed_at', type: 'timestamp', nullable: true })
+  closedAt: Date | null;
+
+  @OneToMany(() => DiscrepancyComment, (comment) => comment.case)
+  comments: DiscrepancyComment[];
+
+  @OneToMany(() => DiscrepancyAttachment, (attachment) => attachment.case)
+  attachments: DiscrepancyAttachment[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
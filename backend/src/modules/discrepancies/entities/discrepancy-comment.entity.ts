@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { DiscrepancyCase, DiscrepancyStatus } from './discrepancy-case.entity';
+
+/**
+ * Case activity log: free-text comments and status transitions.
+ * A status change is stored as a comment with statusFrom/statusTo set.
+ */
+@Entity('discrepancy_comments')
+@Index(['caseId', 'createdAt'])
+export class DiscrepancyComment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => DiscrepancyCase, (c) => c.comments, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'case_id' })
+  case: DiscrepancyCase;
+
+  @Column({ name: 'case_id' })
+  caseId: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'author_id' })
+  author: User;
+
+  @Column({ name: 'author_id' })
+  authorId: string;
+
+  @Column({ type: 'text', nullable: true })
+  text: string | null;
+
+  @Column({ name: 'status_from', type: 'varchar', length: 30, nullable: true })
+  statusFrom: DiscrepancyStatus | null;
+
+  @Column({ name: 'status_to', type: 'varchar', length: 30, nullable: true })
+  statusTo: DiscrepancyStatus | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
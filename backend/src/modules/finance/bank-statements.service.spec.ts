@@ -0,0 +1,270 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository, DataSource, FindOperator } from 'typeorm';
+import { BadRequestException } from '@nestjs/common';
+import * as ExcelJS from 'exceljs';
+import { BankStatementsService } from './bank-statements.service';
+import { BankDeposit } from './entities/bank-deposit.entity';
+
+describe('BankStatementsService', () => {
+  let service: BankStatementsService;
+  let depositRepository: jest.Mocked<Repository<BankDeposit>>;
+
+  let mockQueryRunner: {
+    connect: jest.Mock;
+    startTransaction: jest.Mock;
+    commitTransaction: jest.Mock;
+    rollbackTransaction: jest.Mock;
+    release: jest.Mock;
+    manager: {
+      findOne: jest.Mock;
+      count: jest.Mock;
+      save: jest.Mock;
+      create: jest.Mock;
+    };
+  };
+
+  // Bank export with a preamble above the header, ';' separated, Russian number format
+  const csvStatement = [
+    'Выписка по счёту 20208000900123456001',
+    'Период: 01.02.2025 - 07.02.2025',
+    '',
+    'Дата операции;Номер документа;Дебет;Кредит;Назначение платежа',
+    '03.02.2025;101;;1 500 000,00;Взнос наличных',
+    '04.02.2025;102;250 000,00;;Комиссия банка',
+    '05.02.2025;103;;800 000,00;Взнос наличных',
+    'Итого;;250 000,00;2 300 000,00;',
+  ].join('\n');
+
+  beforeEach(async () => {
+    mockQueryRunner = {
+      connect: jest.fn(),
+      startTransaction: jest.fn(),
+      commitTransaction: jest.fn(),
+      rollbackTransaction: jest.fn(),
+      release: jest.fn(),
+      manager: {
+        findOne: jest.fn(),
+        count: jest.fn().mockResolvedValue(0),
+        save: jest.fn().mockImplementation((entity) => Promise.resolve(entity)),
+        create: jest.fn().mockImplementation((_, data) => data),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BankStatementsService,
+        {
+          provide: getRepositoryToken(BankDeposit),
+          useValue: {
+            find: jest.fn().mockResolvedValue([]),
+          },
+        },
+        {
+          provide: DataSource,
+          useValue: {
+            createQueryRunner: jest.fn().mockReturnValue(mockQueryRunner),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<BankStatementsService>(BankStatementsService);
+    depositRepository = module.get(getRepositoryToken(BankDeposit));
+  });
+
+  describe('importStatement', () => {
+    it('should find the header below the preamble and parse credit lines', async () => {
+      const result = await service.importStatement(Buffer.from(csvStatement), 'statement.csv');
+
+      expect(result.headerRow).toBe(4);
+      expect(result.columns).toEqual(expect.objectContaining({ date: 1, reference: 2, debit: 3, credit: 4, description: 5 }));
+      expect(result.lines).toHaveLength(2);
+      expect(result.lines[0]).toEqual(expect.objectContaining({
+        row: 5,
+        amount: 1500000,
+        reference: '101',
+        description: 'Взнос наличных',
+        // 03.02.2025 00:00 in Tashkent
+        date: new Date('2025-02-02T19:00:00.000Z'),
+      }));
+      expect(result.summary.debitsSkipped).toBe(1);
+      // The totals row has no parsable date
+      expect(result.errors).toEqual(['Строка 8: невозможно распознать дату']);
+    });
+
+    it('should match credits to deposits by amount within the date window', async () => {
+      depositRepository.find.mockResolvedValue([
+        { id: 'dep-far', amount: 1500000, depositDate: new Date('2025-01-20'), slipNumber: null, bankReference: null },
+        { id: 'dep-1', amount: 1500000, depositDate: new Date('2025-02-02T10:00:00Z'), slipNumber: null, bankReference: null },
+        { id: 'dep-2', amount: 800000, depositDate: new Date('2025-02-05'), slipNumber: null, bankReference: '103', bankConfirmedAt: new Date() },
+      ] as unknown as BankDeposit[]);
+
+      const result = await service.importStatement(Buffer.from(csvStatement), 'statement.csv');
+
+      expect(result.lines.map((l) => [l.status, l.depositId])).toEqual([
+        ['matched', 'dep-1'],
+        ['confirmed', 'dep-2'],
+      ]);
+      expect(result.summary).toEqual(expect.objectContaining({ matched: 1, confirmed: 1, unmatched: 0 }));
+    });
+
+    it('should prefer the deposit whose slip number equals the line reference', async () => {
+      depositRepository.find.mockResolvedValue([
+        { id: 'dep-close', amount: 1500000, depositDate: new Date('2025-02-03'), slipNumber: null, bankReference: null },
+        { id: 'dep-slip', amount: 1500000, depositDate: new Date('2025-02-01'), slipNumber: '101', bankReference: null },
+      ] as unknown as BankDeposit[]);
+
+      const result = await service.importStatement(Buffer.from(csvStatement), 'statement.csv');
+
+      expect(result.lines[0].depositId).toBe('dep-slip');
+      expect(result.lines[1]).toEqual(expect.objectContaining({ status: 'unmatched', depositId: null }));
+      expect(result.summary.unmatchedAmount).toBe(800000);
+    });
+
+    it('should use explicit column mapping', async () => {
+      const csv = 'col1,col2,col3\n2025-02-03,x,1500000\n2025-02-04,y,-300\n';
+
+      const result = await service.importStatement(Buffer.from(csv), 'export.csv', {
+        dateColumn: 'A',
+        creditColumn: '3',
+        referenceColumn: 'col2',
+      });
+
+      expect(result.columns).toEqual(expect.objectContaining({ date: 1, credit: 3, reference: 2 }));
+      expect(result.lines).toHaveLength(1);
+      expect(result.lines[0]).toEqual(expect.objectContaining({ amount: 1500000, reference: 'x' }));
+      expect(result.summary.debitsSkipped).toBe(1);
+    });
+
+    it('should read XLSX statements with date cells', async () => {
+      const workbook = new ExcelJS.Workbook();
+      const sheet = workbook.addWorksheet('Выписка');
+      sheet.addRow(['Дата', 'Сумма', 'Назначение']);
+      // ExcelJS stores local Tashkent time as UTC
+      sheet.addRow([new Date('2025-02-03T00:00:00Z'), 2000000, 'Взнос']);
+      const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+      const result = await service.importStatement(buffer, 'statement.xlsx');
+
+      expect(result.lines).toHaveLength(1);
+      expect(result.lines[0].date).toEqual(new Date('2025-02-02T19:00:00.000Z'));
+      expect(result.lines[0].amount).toBe(2000000);
+    });
+
+    it('should throw when date or amount columns cannot be found', async () => {
+      const csv = 'foo,bar\n1,2\n';
+
+      await expect(service.importStatement(Buffer.from(csv), 'x.csv')).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('confirm', () => {
+    it('should confirm matched deposits and create the rest', async () => {
+      const deposit = { id: 'dep-1', amount: '1500000.00', bankConfirmedAt: null, bankReference: null };
+      mockQueryRunner.manager.findOne
+        .mockResolvedValueOnce(deposit)
+        .mockResolvedValueOnce(null);
+
+      const result = await service.confirm('user-1', {
+        lines: [
+          { date: '2025-02-03', amount: 1500000, reference: '101', depositId: 'dep-1' },
+          { date: '2025-02-05', amount: 800000, reference: '103', description: 'Взнос наличных' },
+        ],
+      });
+
+      expect(result).toEqual({ confirmed: 1, created: 1, skipped: 0 });
+      expect(deposit.bankConfirmedAt).toBeInstanceOf(Date);
+      expect(deposit.bankReference).toBe('101');
+      expect(mockQueryRunner.manager.create).toHaveBeenCalledWith(BankDeposit, expect.objectContaining({
+        amount: 800000,
+        slipNumber: '103',
+        bankReference: '103',
+        notes: 'Взнос наличных',
+        createdById: 'user-1',
+      }));
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('should skip lines already applied', async () => {
+      mockQueryRunner.manager.findOne
+        .mockResolvedValueOnce({ id: 'dep-1', amount: 1500000, bankConfirmedAt: new Date() })
+        .mockResolvedValueOnce({ id: 'dep-2', amount: 800000, bankReference: '103' });
+
+      const result = await service.confirm('user-1', {
+        lines: [
+          { date: '2025-02-03', amount: 1500000, depositId: 'dep-1' },
+          { date: '2025-02-05', amount: 800000, reference: '103' },
+        ],
+      });
+
+      expect(result).toEqual({ confirmed: 0, created: 0, skipped: 2 });
+      expect(mockQueryRunner.manager.save).not.toHaveBeenCalled();
+    });
+
+    it('should not create deposits again when the same statement is confirmed twice', async () => {
+      // Deposits table kept in memory, queried with the same where clauses
+      const stored: Array<Record<string, unknown>> = [];
+      const matches = (row: Record<string, unknown>, where: Record<string, unknown>) =>
+        Object.entries(where).every(([key, value]) => {
+          if (value instanceof FindOperator) return value.type === 'isNull' ? row[key] == null : row[key] != null;
+          if (value instanceof Date) return (row[key] as Date)?.getTime() === value.getTime();
+          return row[key] === value;
+        });
+      mockQueryRunner.manager.save.mockImplementation(async (entity) => {
+        stored.push(entity);
+        return entity;
+      });
+      mockQueryRunner.manager.findOne.mockImplementation(async (_, { where }) =>
+        stored.find((row) => matches(row, where)) ?? null,
+      );
+      mockQueryRunner.manager.count.mockImplementation(async (_, { where }) =>
+        stored.filter((row) => matches(row, where)).length,
+      );
+
+      const dto = {
+        lines: [
+          { date: '2025-02-05', amount: 800000, reference: '103' },
+          // Two identical credits on one day without a reference are both real
+          { date: '2025-02-06', amount: 500000, account: '20208000900123456001', description: 'Взнос' },
+          { date: '2025-02-06', amount: 500000, account: '20208000900123456001', description: 'Взнос' },
+          { date: '2025-02-07', amount: 300000 },
+        ],
+      };
+
+      expect(await service.confirm('user-1', dto)).toEqual({ confirmed: 0, created: 4, skipped: 0 });
+      expect(await service.confirm('user-1', dto)).toEqual({ confirmed: 0, created: 0, skipped: 4 });
+      expect(stored).toHaveLength(4);
+    });
+
+    it('should create only the lines beyond those imported earlier', async () => {
+      mockQueryRunner.manager.count.mockResolvedValue(1);
+
+      const line = { date: '2025-02-06', amount: 500000, description: 'Взнос' };
+      const result = await service.confirm('user-1', { lines: [line, line] });
+
+      expect(result).toEqual({ confirmed: 0, created: 1, skipped: 1 });
+      expect(mockQueryRunner.manager.count).toHaveBeenCalledTimes(1);
+    });
+
+    it('should roll back when the amount differs from the deposit', async () => {
+      mockQueryRunner.manager.findOne.mockResolvedValueOnce({ id: 'dep-1', amount: 1000000, bankConfirmedAt: null });
+
+      await expect(service.confirm('user-1', {
+        lines: [{ date: '2025-02-03', amount: 1500000, depositId: 'dep-1' }],
+      })).rejects.toThrow(BadRequestException);
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+      expect(mockQueryRunner.release).toHaveBeenCalled();
+    });
+
+    it('should reject the same deposit on several lines', async () => {
+      await expect(service.confirm('user-1', {
+        lines: [
+          { date: '2025-02-03', amount: 1500000, depositId: 'dep-1' },
+          { date: '2025-02-04', amount: 1500000, depositId: 'dep-1' },
+        ],
+      })).rejects.toThrow(BadRequestException);
+      expect(mockQueryRunner.manager.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,512 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, DataSource, Between, IsNull, Not } from 'typeorm';
+import * as ExcelJS from 'exceljs';
+import { BankDeposit } from './entities/bank-deposit.entity';
+import { ImportStatementDto, ConfirmStatementDto } from './dto/bank-statement.dto';
+import { startOfDayTashkent } from '../../common/utils/timezone';
+import { decodeText, readCsvWorksheet } from '../../common/utils/csv';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Asia/Tashkent offset; ExcelJS returns local dates as if they were UTC */
+const TASHKENT_OFFSET_MS = 5 * 60 * 60 * 1000;
+
+/** Rows scanned when looking for the header below a bank's preamble */
+const HEADER_SCAN_ROWS = 20;
+
+const MAX_STATEMENT_LINES = 5000;
+
+/**
+ * Statement column positions (1-based). Only date and credit are required;
+ * some banks put credits and debits in one signed column.
+ */
+export interface StatementColumnMap {
+    date: number;
+    credit: number;
+    debit?: number;
+    reference?: number;
+    description?: number;
+    account?: number;
+}
+
+/**
+ * Header substrings per field, most specific first. Columns already
+ * claimed by another field are not reused.
+ */
+const STATEMENT_HEADER_PATTERNS: Record<keyof StatementColumnMap, string[]> = {
+    date: ['дата операц', 'дата проводк', 'дата документ', 'дата', 'date'],
+    credit: ['кредит', 'поступлен', 'приход', 'credit', 'сумма', 'amount'],
+    debit: ['дебет', 'списан', 'расход', 'debit'],
+    reference: ['номер документ', '№ документ', '№ док', 'номер', 'reference', 'doc'],
+    description: ['назначение', 'описание', 'комментар', 'description', 'purpose'],
+    account: ['счёт', 'счет', 'account'],
+};
+
+const COLUMN_OVERRIDES: Array<[keyof StatementColumnMap, keyof ImportStatementDto]> = [
+    ['date', 'dateColumn'],
+    ['credit', 'creditColumn'],
+    ['debit', 'debitColumn'],
+    ['reference', 'referenceColumn'],
+    ['description', 'descriptionColumn'],
+    ['account', 'accountColumn'],
+];
+
+export type StatementLineStatus = 'matched' | 'confirmed' | 'unmatched';
+
+export interface StatementLine {
+    row: number;
+    date: Date;
+    amount: number;
+    reference: string | null;
+    description: string | null;
+    account: string | null;
+    /** matched — an unconfirmed deposit fits; confirmed — already confirmed by an earlier import */
+    status: StatementLineStatus;
+    depositId: string | null;
+    depositDate: Date | null;
+}
+
+export interface StatementImportResult {
+    headerRow: number;
+    columns: StatementColumnMap;
+    lines: StatementLine[];
+    summary: {
+        credits: number;
+        matched: number;
+        confirmed: number;
+        unmatched: number;
+        unmatchedAmount: number;
+        debitsSkipped: number;
+    };
+    errors: string[];
+}
+
+/** Plain text of an ExcelJS cell value (rich text, formulas and hyperlinks included) */
+function cellText(value: ExcelJS.CellValue): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object') {
+        if ('richText' in value) return value.richText.map((part) => part.text).join('');
+        if ('result' in value) return cellText(value.result as ExcelJS.CellValue);
+        if ('text' in value) return String(value.text);
+        return '';
+    }
+    return String(value);
+}
+
+/** "1 500 000,50", "1,500,000.50" and "-250000" are all accepted */
+function parseStatementAmount(value: ExcelJS.CellValue): number | null {
+    if (typeof value === 'number') return Math.round(value * 100) / 100;
+    let str = cellText(value).replace(/\s/g, '');
+    if (!str) return null;
+    if (str.includes(',') && str.includes('.')) {
+        str = str.replace(/,/g, '');
+    } else {
+        str = str.replace(',', '.');
+    }
+    const num = parseFloat(str.replace(/[^\d.-]/g, ''));
+    return isNaN(num) ? null : Math.round(num * 100) / 100;
+}
+
+/** Statement dates are Tashkent calendar days: Excel dates, dd.mm.yyyy or ISO */
+function parseStatementDate(value: ExcelJS.CellValue): Date | null {
+    if (value instanceof Date) {
+        return new Date(value.getTime() - TASHKENT_OFFSET_MS);
+    }
+    const str = cellText(value).trim();
+    const dmy = str.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2}|\d{4})\b/);
+    if (dmy) {
+        const year = dmy[3].length === 2 ? `20${dmy[3]}` : dmy[3];
+        const iso = `${year}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}`;
+        const date = startOfDayTashkent(iso);
+        return isNaN(date.getTime()) ? null : date;
+    }
+    if (/^\d{4}-\d{2}-\d{2}/.test(str)) {
+        const date = startOfDayTashkent(str.slice(0, 10));
+        return isNaN(date.getTime()) ? null : date;
+    }
+    return null;
+}
+
+/**
+ * Header values of a row, lowercased and keyed by column number.
+ */
+function readHeader(row: ExcelJS.Row): Record<number, string> {
+    const header: Record<number, string> = {};
+    row.eachCell({ includeEmpty: false }, (cell, colNumber) => {
+        const val = cellText(cell.value).trim().toLowerCase();
+        if (val) header[colNumber] = val;
+    });
+    return header;
+}
+
+/**
+ * Resolve a user-supplied column reference: a number, a column letter or
+ * a header substring. Returns null when nothing in the header matches.
+ */
+function resolveColumn(ref: string, header: Record<number, string>): number | null {
+    const trimmed = ref.trim();
+    if (/^\d+$/.test(trimmed)) return parseInt(trimmed);
+    if (/^[A-Za-z]{1,2}$/.test(trimmed)) {
+        return trimmed
+            .toUpperCase()
+            .split('')
+            .reduce((acc, ch) => acc * 26 + ch.charCodeAt(0) - 64, 0);
+    }
+    const needle = trimmed.toLowerCase();
+    for (const [colNum, headerVal] of Object.entries(header)) {
+        if (headerVal.includes(needle)) return parseInt(colNum);
+    }
+    return null;
+}
+
+/**
+ * Detect statement columns from a header row, the same way sales imports
+ * do. Explicit overrides win over auto-detection; returns null when an
+ * override names a header this row does not have.
+ */
+function detectStatementColumns(
+    header: Record<number, string>,
+    overrides: ImportStatementDto,
+): Partial<StatementColumnMap> | null {
+    const cols: Partial<StatementColumnMap> = {};
+    const used = new Set<number>();
+
+    for (const [field, option] of COLUMN_OVERRIDES) {
+        const ref = overrides[option];
+        if (typeof ref !== 'string' || !ref.trim()) continue;
+        const col = resolveColumn(ref, header);
+        if (!col) return null;
+        cols[field] = col;
+        used.add(col);
+    }
+
+    for (const [field, patterns] of Object.entries(STATEMENT_HEADER_PATTERNS)) {
+        const key = field as keyof StatementColumnMap;
+        if (cols[key]) continue;
+        for (const pattern of patterns) {
+            const match = Object.entries(header).find(
+                ([colNum, headerVal]) => !used.has(parseInt(colNum)) && headerVal.includes(pattern),
+            );
+            if (match) {
+                cols[key] = parseInt(match[0]);
+                used.add(cols[key] as number);
+                break;
+            }
+        }
+    }
+
+    return cols;
+}
+
+@Injectable()
+export class BankStatementsService {
+    private readonly logger = new Logger(BankStatementsService.name);
+
+    constructor(
+        @InjectRepository(BankDeposit)
+        private readonly depositRepository: Repository<BankDeposit>,
+        private readonly dataSource: DataSource,
+    ) { }
+
+    /**
+     * Parse a bank statement (XLSX or CSV) and match its credit lines to
+     * recorded deposits by amount within a date window. Nothing is written;
+     * the result is a preview for `confirm`.
+     */
+    async importStatement(
+        fileBuffer: Buffer,
+        originalName: string,
+        options: ImportStatementDto = {},
+    ): Promise<StatementImportResult> {
+        const worksheet = await this.readWorksheet(fileBuffer, originalName, options);
+
+        const { headerRow, columns } = this.locateHeader(worksheet, options);
+        this.logger.log(
+            `Statement "${originalName}": header row ${headerRow}, columns ${JSON.stringify(columns)}`,
+        );
+
+        const lines: Omit<StatementLine, 'status' | 'depositId' | 'depositDate'>[] = [];
+        const errors: string[] = [];
+        let debitsSkipped = 0;
+
+        worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+            if (rowNumber <= headerRow) return;
+
+            const rawDate = row.getCell(columns.date).value;
+            const amount = parseStatementAmount(row.getCell(columns.credit).value);
+            const debit = columns.debit ? parseStatementAmount(row.getCell(columns.debit).value) : null;
+
+            // Blank, subtotal and footer rows
+            if (!cellText(rawDate).trim() && amount === null) return;
+
+            // Outgoing payments: a separate debit column or a negative signed amount
+            if (amount === null || amount <= 0) {
+                if ((debit ?? 0) > 0 || (amount ?? 0) < 0) debitsSkipped++;
+                return;
+            }
+
+            const date = parseStatementDate(rawDate);
+            if (!date) {
+                errors.push(`Строка ${rowNumber}: невозможно распознать дату`);
+                return;
+            }
+
+            const text = (col?: number) => (col ? cellText(row.getCell(col).value).trim() || null : null);
+            lines.push({
+                row: rowNumber,
+                date,
+                amount,
+                reference: text(columns.reference)?.slice(0, 100) ?? null,
+                description: text(columns.description)?.slice(0, 1000) ?? null,
+                account: text(columns.account)?.slice(0, 50) ?? null,
+            });
+        });
+
+        if (lines.length > MAX_STATEMENT_LINES) {
+            throw new BadRequestException(`Выписка содержит больше ${MAX_STATEMENT_LINES} поступлений`);
+        }
+
+        const matched = await this.matchLines(lines, options.dateWindowDays ?? 3);
+        const unmatched = matched.filter((l) => l.status === 'unmatched');
+
+        return {
+            headerRow,
+            columns,
+            lines: matched,
+            summary: {
+                credits: matched.length,
+                matched: matched.filter((l) => l.status === 'matched').length,
+                confirmed: matched.filter((l) => l.status === 'confirmed').length,
+                unmatched: unmatched.length,
+                unmatchedAmount: Math.round(unmatched.reduce((sum, l) => sum + l.amount, 0) * 100) / 100,
+                debitsSkipped,
+            },
+            errors,
+        };
+    }
+
+    /**
+     * Apply a reviewed statement: lines with a depositId confirm that deposit,
+     * the rest become new deposits. Re-submitting the same statement creates
+     * nothing new: lines with a bank reference are skipped when a deposit with
+     * that reference and amount exists; lines without one are skipped as many
+     * times as there are deposits already imported with the same account,
+     * date, amount and description, so identical credits on one day still
+     * count separately.
+     */
+    async confirm(userId: string, dto: ConfirmStatementDto) {
+        const queryRunner = this.dataSource.createQueryRunner();
+        await queryRunner.connect();
+        await queryRunner.startTransaction();
+
+        const now = new Date();
+        let confirmed = 0;
+        let created = 0;
+        let skipped = 0;
+        // Earlier imports of reference-less lines not yet matched in this submission
+        const unreferencedLeft = new Map<string, number>();
+
+        try {
+            const depositIds = dto.lines.map((l) => l.depositId).filter((id): id is string => !!id);
+            if (new Set(depositIds).size !== depositIds.length) {
+                throw new BadRequestException({
+                    code: 'DUPLICATE_DEPOSIT',
+                    message: 'The same deposit is matched to several statement lines',
+                });
+            }
+
+            for (const line of dto.lines) {
+                if (line.depositId) {
+                    const deposit = await queryRunner.manager.findOne(BankDeposit, {
+                        where: { id: line.depositId },
+                        lock: { mode: 'pessimistic_write' },
+                    });
+                    if (!deposit) {
+                        throw new NotFoundException('Deposit not found');
+                    }
+                    if (deposit.cancelledAt) {
+                        throw new BadRequestException('Cannot confirm a cancelled deposit');
+                    }
+                    if (Math.abs(Number(deposit.amount) - line.amount) >= 0.01) {
+                        throw new BadRequestException({
+                            code: 'AMOUNT_MISMATCH',
+                            message: 'Statement amount differs from the deposit amount',
+                            depositId: deposit.id,
+                            depositAmount: Number(deposit.amount),
+                        });
+                    }
+                    if (deposit.bankConfirmedAt) {
+                        skipped++;
+                        continue;
+                    }
+                    deposit.bankConfirmedAt = now;
+                    deposit.bankReference = line.reference || deposit.bankReference;
+                    await queryRunner.manager.save(deposit);
+                    confirmed++;
+                    continue;
+                }
+
+                const notes = line.description || 'Импорт из банковской выписки';
+                if (line.reference) {
+                    const existing = await queryRunner.manager.findOne(BankDeposit, {
+                        where: { bankReference: line.reference, amount: line.amount, cancelledAt: IsNull() },
+                    });
+                    if (existing) {
+                        skipped++;
+                        continue;
+                    }
+                } else {
+                    const key = [line.account ?? '', line.date, line.amount, notes].join('|');
+                    let left = unreferencedLeft.get(key);
+                    if (left === undefined) {
+                        // Counted before this submission creates any deposit for the key
+                        left = await queryRunner.manager.count(BankDeposit, {
+                            where: {
+                                bankReference: IsNull(),
+                                bankAccount: line.account ? line.account : IsNull(),
+                                depositDate: new Date(line.date),
+                                amount: line.amount,
+                                notes,
+                                bankConfirmedAt: Not(IsNull()),
+                                cancelledAt: IsNull(),
+                            },
+                        });
+                    }
+                    if (left > 0) {
+                        unreferencedLeft.set(key, left - 1);
+                        skipped++;
+                        continue;
+                    }
+                    unreferencedLeft.set(key, 0);
+                }
+
+                const deposit = queryRunner.manager.create(BankDeposit, {
+                    amount: line.amount,
+                    depositDate: new Date(line.date),
+                    notes,
+                    slipNumber: line.reference ? line.reference.slice(0, 50) : null,
+                    bankReference: line.reference || null,
+                    bankAccount: line.account || null,
+                    bankConfirmedAt: now,
+                    createdById: userId,
+                });
+                await queryRunner.manager.save(deposit);
+                created++;
+            }
+
+            await queryRunner.commitTransaction();
+        } catch (error) {
+            await queryRunner.rollbackTransaction();
+            throw error;
+        } finally {
+            await queryRunner.release();
+        }
+
+        return { confirmed, created, skipped };
+    }
+
+    private async readWorksheet(
+        fileBuffer: Buffer,
+        originalName: string,
+        options: ImportStatementDto,
+    ): Promise<ExcelJS.Worksheet> {
+        if (originalName.toLowerCase().endsWith('.csv')) {
+            return readCsvWorksheet(decodeText(fileBuffer), options.delimiter);
+        }
+
+        const workbook = new ExcelJS.Workbook();
+        await workbook.xlsx.load(fileBuffer as unknown as ExcelJS.Buffer);
+        const worksheet = workbook.worksheets[0];
+        if (!worksheet) {
+            throw new BadRequestException('Excel файл не содержит листов');
+        }
+        return worksheet;
+    }
+
+    /**
+     * Find the header row (given, or the first of the top rows where date
+     * and amount columns are recognised) and its column mapping.
+     */
+    private locateHeader(
+        worksheet: ExcelJS.Worksheet,
+        options: ImportStatementDto,
+    ): { headerRow: number; columns: StatementColumnMap } {
+        const candidates = options.headerRow
+            ? [options.headerRow]
+            : Array.from({ length: Math.min(HEADER_SCAN_ROWS, worksheet.rowCount) }, (_, i) => i + 1);
+
+        for (const rowNumber of candidates) {
+            const header = readHeader(worksheet.getRow(rowNumber));
+            if (Object.keys(header).length === 0) continue;
+            const cols = detectStatementColumns(header, options);
+            if (cols?.date && cols.credit) {
+                return { headerRow: rowNumber, columns: cols as StatementColumnMap };
+            }
+        }
+
+        throw new BadRequestException(
+            'Не удалось определить колонки даты и суммы. Проверьте строку заголовка и настройки колонок',
+        );
+    }
+
+    /**
+     * Pair each credit line with at most one deposit of the same amount whose
+     * date is within the window. A deposit whose slip number or bank reference
+     * equals the line reference is preferred, then the closest date.
+     */
+    private async matchLines(
+        lines: Omit<StatementLine, 'status' | 'depositId' | 'depositDate'>[],
+        windowDays: number,
+    ): Promise<StatementLine[]> {
+        if (lines.length === 0) return [];
+
+        // One extra day absorbs the time of day on manually entered deposits
+        const windowMs = windowDays * DAY_MS + DAY_MS;
+        const times = lines.map((l) => l.date.getTime());
+        const deposits = await this.depositRepository.find({
+            where: {
+                depositDate: Between(
+                    new Date(Math.min(...times) - windowMs),
+                    new Date(Math.max(...times) + windowMs),
+                ),
+                cancelledAt: IsNull(),
+            },
+        });
+
+        const used = new Set<string>();
+        const results = new Map<number, StatementLine>();
+
+        // Lines carrying a reference go first so their exact matches are not taken by others
+        const sorted = [...lines].sort((a, b) => Number(!a.reference) - Number(!b.reference)
+            || a.date.getTime() - b.date.getTime());
+
+        for (const line of sorted) {
+            const reference = line.reference?.toLowerCase();
+            const candidates = deposits
+                .filter((d) => !used.has(d.id)
+                    && Math.abs(Number(d.amount) - line.amount) < 0.01
+                    && Math.abs(new Date(d.depositDate).getTime() - line.date.getTime()) < windowMs)
+                .map((d) => ({
+                    deposit: d,
+                    referenceMatch: !!reference && [d.slipNumber, d.bankReference]
+                        .some((r) => r?.toLowerCase() === reference),
+                    distance: Math.abs(new Date(d.depositDate).getTime() - line.date.getTime()),
+                }))
+                .sort((a, b) => Number(b.referenceMatch) - Number(a.referenceMatch) || a.distance - b.distance);
+
+            const best = candidates[0]?.deposit;
+            if (best) used.add(best.id);
+
+            results.set(line.row, {
+                ...line,
+                status: !best ? 'unmatched' : best.bankConfirmedAt ? 'confirmed' : 'matched',
+                depositId: best?.id ?? null,
+                depositDate: best?.depositDate ?? null,
+            });
+        }
+
+        return lines.map((l) => results.get(l.row) as StatementLine);
+    }
+}
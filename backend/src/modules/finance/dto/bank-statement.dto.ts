@@ -0,0 +1,130 @@
+import {
+  IsOptional,
+  IsString,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsUUID,
+  IsDateString,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Options sent as multipart fields alongside the statement file.
+ * Column overrides accept a 1-based number, a column letter ("C")
+ * or part of the header text; anything not given is auto-detected.
+ */
+export class ImportStatementDto {
+  @ApiProperty({ required: false, description: 'Номер строки заголовка (по умолчанию ищется автоматически)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  headerRow?: number;
+
+  @ApiProperty({ required: false, default: 3, description: 'Допустимое расхождение дат при сопоставлении (дней)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(31)
+  dateWindowDays?: number;
+
+  @ApiProperty({ required: false, description: 'Разделитель CSV (по умолчанию определяется автоматически)' })
+  @IsOptional()
+  @IsIn([',', ';', '\t'], { message: 'Допустимые разделители: запятая, точка с запятой, табуляция' })
+  delimiter?: string;
+
+  @ApiProperty({ required: false, description: 'Колонка даты операции' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  dateColumn?: string;
+
+  @ApiProperty({ required: false, description: 'Колонка суммы поступления (кредит)' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  creditColumn?: string;
+
+  @ApiProperty({ required: false, description: 'Колонка суммы списания (дебет)' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  debitColumn?: string;
+
+  @ApiProperty({ required: false, description: 'Колонка номера документа' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  referenceColumn?: string;
+
+  @ApiProperty({ required: false, description: 'Колонка назначения платежа' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  descriptionColumn?: string;
+
+  @ApiProperty({ required: false, description: 'Колонка счёта' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  accountColumn?: string;
+}
+
+export class ConfirmStatementLineDto {
+  @ApiProperty({ description: 'Дата операции по выписке' })
+  @IsDateString({}, { message: 'Укажите корректную дату' })
+  date: string;
+
+  @ApiProperty({ description: 'Сумма поступления (UZS)' })
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Сумма должна быть числом' })
+  @Min(1, { message: 'Сумма должна быть больше 0' })
+  @Max(1000000000, { message: 'Сумма не может превышать 1,000,000,000 сум' })
+  amount: number;
+
+  @ApiProperty({ required: false, description: 'Номер документа в банке' })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsOptional()
+  @IsString()
+  @MaxLength(100, { message: 'Номер документа не может превышать 100 символов' })
+  reference?: string;
+
+  @ApiProperty({ required: false, description: 'Назначение платежа' })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000, { message: 'Назначение платежа не может превышать 1000 символов' })
+  description?: string;
+
+  @ApiProperty({ required: false, description: 'Банковский счёт' })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsOptional()
+  @IsString()
+  @MaxLength(50, { message: 'Номер счёта не может превышать 50 символов' })
+  account?: string;
+
+  @ApiProperty({ required: false, description: 'Сопоставленный депозит; без него будет создан новый' })
+  @IsOptional()
+  @IsUUID('4', { message: 'Некорректный ID депозита' })
+  depositId?: string;
+}
+
+export class ConfirmStatementDto {
+  @ApiProperty({ type: [ConfirmStatementLineDto] })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Выберите хотя бы одну строку выписки' })
+  @ArrayMaxSize(1000, { message: 'Максимум 1000 строк за один запрос' })
+  @ValidateNested({ each: true })
+  @Type(() => ConfirmStatementLineDto)
+  lines: ConfirmStatementLineDto[];
+}
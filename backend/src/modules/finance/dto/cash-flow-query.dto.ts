@@ -0,0 +1,21 @@
+import { IsOptional, IsDateString, IsIn } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type CashFlowGroupBy = 'day' | 'week' | 'month';
+
+export class CashFlowQueryDto {
+  @ApiProperty({ description: 'From date (YYYY-MM-DD), defaults to start of current month', required: false })
+  @IsDateString()
+  @IsOptional()
+  from?: string;
+
+  @ApiProperty({ description: 'To date (YYYY-MM-DD), defaults to today', required: false })
+  @IsDateString()
+  @IsOptional()
+  to?: string;
+
+  @ApiProperty({ enum: ['day', 'week', 'month'], required: false, default: 'day' })
+  @IsIn(['day', 'week', 'month'], { message: 'Группировка: day, week или month' })
+  @IsOptional()
+  groupBy?: CashFlowGroupBy;
+}
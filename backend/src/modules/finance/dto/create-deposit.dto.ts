@@ -1,6 +1,18 @@
-import { IsNumber, IsString, IsOptional, IsDateString, Min, Max, MaxLength } from 'class-validator';
-import { Transform } from 'class-transformer';
+import {
+  IsNumber,
+  IsString,
+  IsOptional,
+  IsDateString,
+  IsArray,
+  ArrayMaxSize,
+  ValidateNested,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
+import { DepositAllocationDto } from './deposit-allocation.dto';
 
 export class CreateDepositDto {
   @ApiProperty({ description: 'Сумма депозита в UZS', minimum: 1, maximum: 1000000000 })
@@ -19,4 +31,26 @@ export class CreateDepositDto {
   @MaxLength(1000, { message: 'Примечание не может превышать 1000 символов' })
   @IsOptional()
   notes?: string;
+
+  @ApiProperty({ description: 'Номер квитанции (бланка взноса)', required: false })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsString()
+  @MaxLength(50, { message: 'Номер квитанции не может превышать 50 символов' })
+  @IsOptional()
+  slipNumber?: string;
+
+  @ApiProperty({ description: 'Банковский счёт', required: false })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsString()
+  @MaxLength(50, { message: 'Номер счёта не может превышать 50 символов' })
+  @IsOptional()
+  bankAccount?: string;
+
+  @ApiProperty({ description: 'Инкассации, покрываемые депозитом', type: [DepositAllocationDto], required: false })
+  @IsArray()
+  @ArrayMaxSize(500, { message: 'Максимум 500 инкассаций на один депозит' })
+  @ValidateNested({ each: true })
+  @Type(() => DepositAllocationDto)
+  @IsOptional()
+  allocations?: DepositAllocationDto[];
 }
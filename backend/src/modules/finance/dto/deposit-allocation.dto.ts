@@ -0,0 +1,25 @@
+import { IsUUID, IsNumber, IsArray, ArrayMinSize, ArrayMaxSize, ValidateNested, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class DepositAllocationDto {
+  @ApiProperty({ description: 'ID принятой инкассации' })
+  @IsUUID('4', { message: 'Некорректный ID инкассации' })
+  collectionId: string;
+
+  @ApiProperty({ description: 'Сумма, покрываемая депозитом (UZS)', minimum: 0.01 })
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Сумма должна быть числом' })
+  @Min(0.01, { message: 'Сумма должна быть больше 0' })
+  @Max(1000000000, { message: 'Сумма не может превышать 1,000,000,000 сум' })
+  amount: number;
+}
+
+export class AllocateDepositDto {
+  @ApiProperty({ type: [DepositAllocationDto] })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Укажите хотя бы одну инкассацию' })
+  @ArrayMaxSize(500, { message: 'Максимум 500 инкассаций за один запрос' })
+  @ValidateNested({ each: true })
+  @Type(() => DepositAllocationDto)
+  allocations: DepositAllocationDto[];
+}
@@ -0,0 +1,54 @@
+import { IsNumber, IsString, IsNotEmpty, IsOptional, IsDateString, Min, Max, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class EditDepositDto {
+  @ApiProperty({ description: 'Новая сумма в UZS', minimum: 1, maximum: 1000000000, required: false })
+  @IsNumber({}, { message: 'Сумма должна быть числом' })
+  @IsOptional()
+  @Min(1, { message: 'Сумма банковского депозита должна быть больше 0' })
+  @Max(1000000000, { message: 'Сумма не может превышать 1,000,000,000 сум' })
+  amount?: number;
+
+  @ApiProperty({ description: 'Новая дата депозита (ISO строка)', required: false })
+  @IsDateString({}, { message: 'Укажите корректную дату' })
+  @IsOptional()
+  date?: string;
+
+  @ApiProperty({ description: 'Примечание', required: false })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsString()
+  @MaxLength(1000, { message: 'Примечание не может превышать 1000 символов' })
+  @IsOptional()
+  notes?: string;
+
+  @ApiProperty({ description: 'Номер квитанции', required: false })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsString()
+  @MaxLength(50, { message: 'Номер квитанции не может превышать 50 символов' })
+  @IsOptional()
+  slipNumber?: string;
+
+  @ApiProperty({ description: 'Банковский счёт', required: false })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsString()
+  @MaxLength(50, { message: 'Номер счёта не может превышать 50 символов' })
+  @IsOptional()
+  bankAccount?: string;
+
+  @ApiProperty({ description: 'Причина изменения' })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsString({ message: 'Причина должна быть строкой' })
+  @IsNotEmpty({ message: 'Укажите причину изменения' })
+  @MaxLength(500, { message: 'Причина не может превышать 500 символов' })
+  reason: string;
+}
+
+export class CancelDepositDto {
+  @ApiProperty({ description: 'Причина отмены' })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsString({ message: 'Причина должна быть строкой' })
+  @IsNotEmpty({ message: 'Укажите причину отмены' })
+  @MaxLength(500, { message: 'Причина не может превышать 500 символов' })
+  reason: string;
+}
@@ -0,0 +1,23 @@
+import { IsOptional, IsDateString, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UnallocatedQueryDto {
+  @ApiProperty({ required: false, description: 'Принято с (ISO дата)' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({ required: false, description: 'Принято по (ISO дата)' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiProperty({ required: false, default: 200 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number;
+}
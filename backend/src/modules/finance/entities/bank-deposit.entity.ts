@@ -4,9 +4,11 @@ import {
     Column,
     CreateDateColumn,
     ManyToOne,
+    OneToMany,
     JoinColumn,
 } from 'typeorm';
 import { User } from '../../users/entities/user.entity';
+import { DepositAllocation } from './deposit-allocation.entity';
 
 @Entity('bank_deposits')
 export class BankDeposit {
@@ -22,6 +24,27 @@ export class BankDeposit {
     @Column({ type: 'text', nullable: true })
     notes: string;
 
+    @Column({ name: 'slip_number', type: 'varchar', length: 50, nullable: true })
+    slipNumber: string | null;
+
+    @Column({ name: 'bank_account', type: 'varchar', length: 50, nullable: true })
+    bankAccount: string | null;
+
+    /** Transaction reference from the bank statement line this deposit was matched to */
+    @Column({ name: 'bank_reference', type: 'varchar', length: 100, nullable: true })
+    bankReference: string | null;
+
+    /** Set when the deposit has been seen on a bank statement */
+    @Column({ name: 'bank_confirmed_at', type: 'timestamp', nullable: true })
+    bankConfirmedAt: Date | null;
+
+    /** Cancelled deposits stay listed but no longer count towards the balance */
+    @Column({ name: 'cancelled_at', type: 'timestamp', nullable: true })
+    cancelledAt: Date | null;
+
+    @OneToMany(() => DepositAllocation, (allocation) => allocation.deposit)
+    allocations: DepositAllocation[];
+
     @ManyToOne(() => User)
     @JoinColumn({ name: 'created_by_id' })
     createdBy: User;
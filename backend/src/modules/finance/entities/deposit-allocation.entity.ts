@@ -0,0 +1,44 @@
+import {
+    Entity,
+    PrimaryGeneratedColumn,
+    Column,
+    CreateDateColumn,
+    ManyToOne,
+    JoinColumn,
+    Index,
+} from 'typeorm';
+import { BankDeposit } from './bank-deposit.entity';
+import { Collection } from '../../collections/entities/collection.entity';
+
+/**
+ * Part of a bank deposit attributed to a received collection.
+ * A deposit may cover several collections and a collection may be
+ * split across several deposits.
+ */
+@Entity('deposit_allocations')
+@Index(['depositId', 'collectionId'], { unique: true })
+@Index(['collectionId'])
+export class DepositAllocation {
+    @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+    @ManyToOne(() => BankDeposit, (deposit) => deposit.allocations, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'deposit_id' })
+    deposit: BankDeposit;
+
+    @Column({ name: 'deposit_id' })
+    depositId: string;
+
+    @ManyToOne(() => Collection)
+    @JoinColumn({ name: 'collection_id' })
+    collection: Collection;
+
+    @Column({ name: 'collection_id' })
+    collectionId: string;
+
+    @Column('decimal', { precision: 15, scale: 2 })
+    amount: number;
+
+    @CreateDateColumn({ name: 'created_at' })
+    createdAt: Date;
+}
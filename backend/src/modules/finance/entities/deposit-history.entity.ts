@@ -0,0 +1,48 @@
+import {
+    Entity,
+    PrimaryGeneratedColumn,
+    Column,
+    CreateDateColumn,
+    ManyToOne,
+    JoinColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { BankDeposit } from './bank-deposit.entity';
+
+/**
+ * One row per changed field of a bank deposit, like collection_history.
+ */
+@Entity('deposit_history')
+export class DepositHistory {
+    @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+    @ManyToOne(() => BankDeposit)
+    @JoinColumn({ name: 'deposit_id' })
+    deposit: BankDeposit;
+
+    @Column({ name: 'deposit_id' })
+    depositId: string;
+
+    @ManyToOne(() => User)
+    @JoinColumn({ name: 'changed_by' })
+    changedBy: User;
+
+    @Column({ name: 'changed_by' })
+    changedById: string;
+
+    @Column({ name: 'field_name', length: 50 })
+    fieldName: string;
+
+    @Column({ name: 'old_value', type: 'text', nullable: true })
+    oldValue: string | null;
+
+    @Column({ name: 'new_value', type: 'text', nullable: true })
+    newValue: string | null;
+
+    @Column({ type: 'text' })
+    reason: string;
+
+    @CreateDateColumn({ name: 'created_at' })
+    createdAt: Date;
+}
@@ -1,11 +1,14 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
 import { FinanceController } from './finance.controller';
 import { FinanceService } from './finance.service';
+import { BankStatementsService } from './bank-statements.service';
 import { User, UserRole } from '../users/entities/user.entity';
 
 describe('FinanceController', () => {
   let controller: FinanceController;
   let financeService: jest.Mocked<FinanceService>;
+  let bankStatementsService: jest.Mocked<BankStatementsService>;
 
   const mockUser = {
     id: 'user-123',
@@ -21,8 +24,22 @@ describe('FinanceController', () => {
           provide: FinanceService,
           useValue: {
             getBalance: jest.fn(),
+            getCashFlow: jest.fn(),
+            getOperatorBalances: jest.fn(),
             findAllDeposits: jest.fn(),
             createDeposit: jest.fn(),
+            allocateDeposit: jest.fn(),
+            editDeposit: jest.fn(),
+            cancelDeposit: jest.fn(),
+            getDepositHistory: jest.fn(),
+            findUnallocated: jest.fn(),
+          },
+        },
+        {
+          provide: BankStatementsService,
+          useValue: {
+            importStatement: jest.fn(),
+            confirm: jest.fn(),
           },
         },
       ],
@@ -30,6 +47,7 @@ describe('FinanceController', () => {
 
     controller = module.get<FinanceController>(FinanceController);
     financeService = module.get(FinanceService);
+    bankStatementsService = module.get(BankStatementsService);
   });
 
   it('should be defined', () => {
@@ -48,6 +66,63 @@ describe('FinanceController', () => {
     });
   });
 
+  describe('cash flow', () => {
+    const report = {
+      from: '2025-02-01',
+      to: '2025-02-02',
+      groupBy: 'day' as const,
+      periods: [
+        { start: '2025-02-01', end: '2025-02-01', opening: 100, received: 50, receivedCount: 1, deposited: 0, depositsCount: 0, closing: 150 },
+        { start: '2025-02-02', end: '2025-02-02', opening: 150, received: 0, receivedCount: 0, deposited: 150, depositsCount: 1, closing: 0 },
+      ],
+      totals: { opening: 100, received: 50, deposited: 150, closing: 0 },
+    };
+
+    it('should return cash flow report from service', async () => {
+      financeService.getCashFlow.mockResolvedValue(report);
+
+      const result = await controller.getCashFlow({ from: '2025-02-01', to: '2025-02-02' });
+
+      expect(result).toEqual(report);
+      expect(financeService.getCashFlow).toHaveBeenCalledWith({ from: '2025-02-01', to: '2025-02-02' });
+    });
+
+    it('should send cash flow as Excel file', async () => {
+      financeService.getCashFlow.mockResolvedValue(report);
+      const mockRes = {
+        setHeader: jest.fn(),
+        send: jest.fn(),
+      } as any;
+
+      await controller.exportCashFlow({ from: '2025-02-01', to: '2025-02-02' }, mockRes);
+
+      expect(mockRes.setHeader).toHaveBeenCalledWith(
+        'Content-Type',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      );
+      expect(mockRes.setHeader).toHaveBeenCalledWith(
+        'Content-Disposition',
+        'attachment; filename=vendcash-cash-flow-2025-02-01-2025-02-02.xlsx',
+      );
+      expect(mockRes.send).toHaveBeenCalledWith(expect.any(Buffer));
+    });
+  });
+
+  describe('getOperatorBalances', () => {
+    it('should return operator balances from service', async () => {
+      const balances = {
+        operators: [],
+        totals: { pendingCount: 0, declaredAmount: 0, over72h: 0 },
+      };
+      financeService.getOperatorBalances.mockResolvedValue(balances);
+
+      const result = await controller.getOperatorBalances();
+
+      expect(result).toEqual(balances);
+      expect(financeService.getOperatorBalances).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('getDeposits', () => {
     it('should return deposits from service', async () => {
       const deposits = [
@@ -91,4 +166,81 @@ describe('FinanceController', () => {
       expect(financeService.createDeposit).toHaveBeenCalledWith('admin-456', dto);
     });
   });
+
+  describe('deposit corrections', () => {
+    it('should pass admin id and changes to editDeposit', async () => {
+      const dto = { amount: 4500, reason: 'Опечатка' };
+      financeService.editDeposit.mockResolvedValue({ id: 'dep-1' } as any);
+
+      await controller.editDeposit('dep-1', dto, mockUser);
+
+      expect(financeService.editDeposit).toHaveBeenCalledWith('dep-1', 'user-123', dto);
+    });
+
+    it('should pass reason to cancelDeposit', async () => {
+      financeService.cancelDeposit.mockResolvedValue({ id: 'dep-1' } as any);
+
+      await controller.cancelDeposit('dep-1', { reason: 'Дубликат' }, mockUser);
+
+      expect(financeService.cancelDeposit).toHaveBeenCalledWith('dep-1', 'user-123', 'Дубликат');
+    });
+
+    it('should return deposit history', async () => {
+      financeService.getDepositHistory.mockResolvedValue([]);
+
+      await expect(controller.getDepositHistory('dep-1')).resolves.toEqual([]);
+      expect(financeService.getDepositHistory).toHaveBeenCalledWith('dep-1');
+    });
+  });
+
+  describe('allocateDeposit', () => {
+    it('should pass deposit id and allocations to service', async () => {
+      const allocations = [{ collectionId: 'col-1', amount: 3000 }];
+      financeService.allocateDeposit.mockResolvedValue({ id: 'dep-1' } as any);
+
+      await controller.allocateDeposit('dep-1', { allocations });
+
+      expect(financeService.allocateDeposit).toHaveBeenCalledWith('dep-1', allocations);
+    });
+  });
+
+  describe('getUnallocated', () => {
+    it('should return unallocated cash report from service', async () => {
+      const report = { items: [], count: 0, total: 0 };
+      financeService.findUnallocated.mockResolvedValue(report);
+
+      const result = await controller.getUnallocated({ from: '2025-01-01' });
+
+      expect(result).toEqual(report);
+      expect(financeService.findUnallocated).toHaveBeenCalledWith({ from: '2025-01-01' });
+    });
+  });
+
+  describe('importStatement', () => {
+    it('should reject a request without file', async () => {
+      await expect(controller.importStatement(undefined as any, {})).rejects.toThrow(BadRequestException);
+      expect(bankStatementsService.importStatement).not.toHaveBeenCalled();
+    });
+
+    it('should pass file and mapping options to service', async () => {
+      const file = { buffer: Buffer.from('a;b'), originalname: 'statement.csv' };
+      bankStatementsService.importStatement.mockResolvedValue({ lines: [] } as any);
+
+      await controller.importStatement(file, { creditColumn: 'C' });
+
+      expect(bankStatementsService.importStatement).toHaveBeenCalledWith(file.buffer, 'statement.csv', { creditColumn: 'C' });
+    });
+  });
+
+  describe('confirmStatement', () => {
+    it('should pass user id and lines to service', async () => {
+      const dto = { lines: [{ date: '2025-02-01', amount: 5000 }] };
+      bankStatementsService.confirm.mockResolvedValue({ confirmed: 0, created: 1, skipped: 0 });
+
+      const result = await controller.confirmStatement(dto, mockUser);
+
+      expect(result).toEqual({ confirmed: 0, created: 1, skipped: 0 });
+      expect(bankStatementsService.confirm).toHaveBeenCalledWith('user-123', dto);
+    });
+  });
 });
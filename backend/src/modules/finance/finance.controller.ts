@@ -2,20 +2,42 @@ import {
     Controller,
     Get,
     Post,
+    Patch,
     Body,
+    Param,
+    Query,
+    ParseUUIDPipe,
+    UseInterceptors,
+    UploadedFile,
+    BadRequestException,
+    Res,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { Response } from 'express';
+import * as ExcelJS from 'exceljs';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiConsumes } from '@nestjs/swagger';
 import { FinanceService } from './finance.service';
+import { BankStatementsService } from './bank-statements.service';
 import { Roles } from '../../common/decorators/roles.decorator';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { UserRole, User } from '../users/entities/user.entity';
 import { CreateDepositDto } from './dto/create-deposit.dto';
+import { AllocateDepositDto } from './dto/deposit-allocation.dto';
+import { EditDepositDto, CancelDepositDto } from './dto/edit-deposit.dto';
+import { UnallocatedQueryDto } from './dto/unallocated-query.dto';
+import { ImportStatementDto, ConfirmStatementDto } from './dto/bank-statement.dto';
+import { CashFlowQueryDto } from './dto/cash-flow-query.dto';
+
+const CASH_FLOW_GROUP_LABELS = { day: 'по дням', week: 'по неделям', month: 'по месяцам' };
 
 @ApiTags('finance')
 @Controller('finance')
 @ApiBearerAuth()
 export class FinanceController {
-    constructor(private readonly financeService: FinanceService) { }
+    constructor(
+        private readonly financeService: FinanceService,
+        private readonly bankStatementsService: BankStatementsService,
+    ) { }
 
     @Get('balance')
     @Roles(UserRole.MANAGER, UserRole.ADMIN)
@@ -24,6 +46,73 @@ export class FinanceController {
         return this.financeService.getBalance();
     }
 
+    @Get('cash-flow')
+    @Roles(UserRole.MANAGER, UserRole.ADMIN)
+    @ApiOperation({ summary: 'Cash flow statement for a period: opening, received, deposited, closing' })
+    async getCashFlow(@Query() query: CashFlowQueryDto) {
+        return this.financeService.getCashFlow(query);
+    }
+
+    @Get('cash-flow/export')
+    @Roles(UserRole.MANAGER, UserRole.ADMIN)
+    @ApiOperation({ summary: 'Export cash flow statement to Excel' })
+    async exportCashFlow(@Query() query: CashFlowQueryDto, @Res() res: Response) {
+        const report = await this.financeService.getCashFlow(query);
+
+        const wb = new ExcelJS.Workbook();
+        wb.creator = 'VendCash';
+        wb.created = new Date();
+
+        const sheet = wb.addWorksheet('Движение наличных');
+        sheet.columns = [
+            { header: 'Период с', key: 'start', width: 14 },
+            { header: 'Период по', key: 'end', width: 14 },
+            { header: 'Остаток на начало', key: 'opening', width: 20 },
+            { header: 'Принято', key: 'received', width: 18 },
+            { header: 'Инкассаций', key: 'receivedCount', width: 12 },
+            { header: 'Сдано в банк', key: 'deposited', width: 18 },
+            { header: 'Депозитов', key: 'depositsCount', width: 12 },
+            { header: 'Остаток на конец', key: 'closing', width: 20 },
+        ];
+        report.periods.forEach((period) => sheet.addRow(period));
+        const totalRow = sheet.addRow({
+            start: 'ИТОГО',
+            end: '',
+            opening: report.totals.opening,
+            received: report.totals.received,
+            receivedCount: report.periods.reduce((sum, p) => sum + p.receivedCount, 0),
+            deposited: report.totals.deposited,
+            depositsCount: report.periods.reduce((sum, p) => sum + p.depositsCount, 0),
+            closing: report.totals.closing,
+        });
+
+        sheet.getRow(1).font = { bold: true };
+        totalRow.font = { bold: true };
+        ['opening', 'received', 'deposited', 'closing'].forEach((key) => {
+            sheet.getColumn(key).numFmt = '#,##0.00';
+        });
+        sheet.headerFooter.oddHeader = `Движение наличных ${report.from} — ${report.to} (${CASH_FLOW_GROUP_LABELS[report.groupBy]})`;
+
+        const buffer = await wb.xlsx.writeBuffer();
+
+        res.setHeader(
+            'Content-Type',
+            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        );
+        res.setHeader(
+            'Content-Disposition',
+            `attachment; filename=vendcash-cash-flow-${report.from}-${report.to}.xlsx`,
+        );
+        res.send(Buffer.from(buffer));
+    }
+
+    @Get('operators/balances')
+    @Roles(UserRole.MANAGER, UserRole.ADMIN)
+    @ApiOperation({ summary: 'Get cash held by each operator (collected, not yet received)' })
+    async getOperatorBalances() {
+        return this.financeService.getOperatorBalances();
+    }
+
     @Get('deposits')
     @Roles(UserRole.MANAGER, UserRole.ADMIN)
     @ApiOperation({ summary: 'Get deposit history' })
@@ -40,4 +129,87 @@ export class FinanceController {
     ) {
         return this.financeService.createDeposit(user.id, dto);
     }
+
+    @Patch('deposits/:id')
+    @Roles(UserRole.ADMIN)
+    @ApiOperation({ summary: 'Correct a bank deposit (reason required)' })
+    async editDeposit(
+        @Param('id', ParseUUIDPipe) id: string,
+        @Body() dto: EditDepositDto,
+        @CurrentUser() user: User,
+    ) {
+        return this.financeService.editDeposit(id, user.id, dto);
+    }
+
+    @Patch('deposits/:id/cancel')
+    @Roles(UserRole.ADMIN)
+    @ApiOperation({ summary: 'Cancel a bank deposit (reason required)' })
+    async cancelDeposit(
+        @Param('id', ParseUUIDPipe) id: string,
+        @Body() dto: CancelDepositDto,
+        @CurrentUser() user: User,
+    ) {
+        return this.financeService.cancelDeposit(id, user.id, dto.reason);
+    }
+
+    @Get('deposits/:id/history')
+    @Roles(UserRole.MANAGER, UserRole.ADMIN)
+    @ApiOperation({ summary: 'Get deposit change history' })
+    async getDepositHistory(@Param('id', ParseUUIDPipe) id: string) {
+        return this.financeService.getDepositHistory(id);
+    }
+
+    @Post('deposits/:id/allocations')
+    @Roles(UserRole.MANAGER, UserRole.ADMIN)
+    @ApiOperation({ summary: 'Attribute a deposit to received collections' })
+    async allocateDeposit(
+        @Param('id', ParseUUIDPipe) id: string,
+        @Body() dto: AllocateDepositDto,
+    ) {
+        return this.financeService.allocateDeposit(id, dto.allocations);
+    }
+
+    @Get('unallocated')
+    @Roles(UserRole.MANAGER, UserRole.ADMIN)
+    @ApiOperation({ summary: 'Received cash not yet covered by any deposit' })
+    async getUnallocated(@Query() query: UnallocatedQueryDto) {
+        return this.financeService.findUnallocated(query);
+    }
+
+    @Post('statements/import')
+    @Roles(UserRole.MANAGER, UserRole.ADMIN)
+    @ApiOperation({ summary: 'Parse a bank statement and match its credits to deposits (preview)' })
+    @ApiConsumes('multipart/form-data')
+    @UseInterceptors(
+        FileInterceptor('file', {
+            limits: { fileSize: 10 * 1024 * 1024 }, // 10MB
+            fileFilter: (_req, file, cb) => {
+                const name = file.originalname.toLowerCase();
+                if (name.endsWith('.xlsx') || name.endsWith('.csv')) {
+                    cb(null, true);
+                } else {
+                    cb(new BadRequestException('Допустимы только файлы .xlsx и .csv'), false);
+                }
+            },
+        }),
+    )
+    async importStatement(
+        @UploadedFile() file: { buffer: Buffer; originalname: string },
+        @Body() dto: ImportStatementDto,
+    ) {
+        if (!file) {
+            throw new BadRequestException('Файл не загружен');
+        }
+        return this.bankStatementsService.importStatement(file.buffer, file.originalname, dto);
+    }
+
+    @Post('statements/confirm')
+    @Roles(UserRole.MANAGER, UserRole.ADMIN)
+    @ApiOperation({ summary: 'Confirm matched deposits and create deposits for unmatched statement lines' })
+    async confirmStatement(
+        @Body() dto: ConfirmStatementDto,
+        @CurrentUser() user: User,
+    ) {
+        return this.bankStatementsService.confirm(user.id, dto);
+    }
 }
@@ -2,12 +2,17 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { FinanceController } from './finance.controller';
 import { FinanceService } from './finance.service';
+import { BankStatementsService } from './bank-statements.service';
 import { BankDeposit } from './entities/bank-deposit.entity';
+import { DepositAllocation } from './entities/deposit-allocation.entity';
+import { DepositHistory } from './entities/deposit-history.entity';
 import { Collection } from '../collections/entities/collection.entity';
+import { CashHandover } from '../collections/entities/cash-handover.entity';
 
 @Module({
-    imports: [TypeOrmModule.forFeature([BankDeposit, Collection])],
+    imports: [TypeOrmModule.forFeature([BankDeposit, DepositAllocation, DepositHistory, Collection, CashHandover])],
     controllers: [FinanceController],
-    providers: [FinanceService],
+    providers: [FinanceService, BankStatementsService],
+    exports: [FinanceService],
 })
 export class FinanceModule { }
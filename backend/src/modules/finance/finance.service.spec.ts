@@ -1,9 +1,13 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Repository, DataSource } from 'typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
 import { FinanceService } from './finance.service';
 import { BankDeposit } from './entities/bank-deposit.entity';
+import { DepositAllocation } from './entities/deposit-allocation.entity';
+import { DepositHistory } from './entities/deposit-history.entity';
 import { Collection, CollectionStatus } from '../collections/entities/collection.entity';
+import { CashHandover } from '../collections/entities/cash-handover.entity';
 
 describe('FinanceService', () => {
   let service: FinanceService;
@@ -38,22 +42,68 @@ describe('FinanceService', () => {
     release: jest.Mock;
     manager: {
       createQueryBuilder: jest.Mock;
+      find: jest.Mock;
+      findOne: jest.Mock;
+      save: jest.Mock;
+      create: jest.Mock;
+      remove: jest.Mock;
     };
   };
 
   // Query builder returned by queryRunner.manager.createQueryBuilder
   let mockQrQueryBuilder: {
     select: jest.Mock;
+    addSelect: jest.Mock;
     where: jest.Mock;
+    andWhere: jest.Mock;
+    groupBy: jest.Mock;
     getRawOne: jest.Mock;
+    getRawMany: jest.Mock;
+  };
+
+  // Query builder for the unallocated cash report
+  let mockCollectionQueryBuilder: Record<string, jest.Mock>;
+
+  // Query builder for the last-handover lookup
+  let mockHandoverQueryBuilder: {
+    select: jest.Mock;
+    addSelect: jest.Mock;
+    where: jest.Mock;
+    groupBy: jest.Mock;
+    getRawMany: jest.Mock;
   };
 
   beforeEach(async () => {
+    mockHandoverQueryBuilder = {
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      getRawMany: jest.fn().mockResolvedValue([]),
+    };
+
     mockQrQueryBuilder = {
       select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      getRawOne: jest.fn(),
+      getRawMany: jest.fn().mockResolvedValue([]),
+    };
+
+    mockCollectionQueryBuilder = {
+      leftJoin: jest.fn().mockReturnThis(),
       where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
       getRawOne: jest.fn(),
+      getRawMany: jest.fn(),
     };
+    mockCollectionQueryBuilder.clone = jest.fn().mockReturnValue(mockCollectionQueryBuilder);
 
     mockQueryRunner = {
       connect: jest.fn(),
@@ -63,6 +113,11 @@ describe('FinanceService', () => {
       release: jest.fn(),
       manager: {
         createQueryBuilder: jest.fn().mockReturnValue(mockQrQueryBuilder),
+        find: jest.fn().mockResolvedValue([]),
+        findOne: jest.fn(),
+        save: jest.fn().mockImplementation(async (entity) => entity),
+        create: jest.fn().mockImplementation((_, data) => data),
+        remove: jest.fn(),
       },
     };
 
@@ -75,11 +130,27 @@ describe('FinanceService', () => {
             create: jest.fn(),
             save: jest.fn(),
             find: jest.fn(),
+            findOne: jest.fn(),
           },
         },
         {
           provide: getRepositoryToken(Collection),
-          useValue: {},
+          useValue: {
+            find: jest.fn(),
+            createQueryBuilder: jest.fn().mockReturnValue(mockCollectionQueryBuilder),
+          },
+        },
+        {
+          provide: getRepositoryToken(CashHandover),
+          useValue: {
+            createQueryBuilder: jest.fn().mockReturnValue(mockHandoverQueryBuilder),
+          },
+        },
+        {
+          provide: getRepositoryToken(DepositHistory),
+          useValue: {
+            find: jest.fn(),
+          },
         },
         {
           provide: DataSource,
@@ -153,11 +224,281 @@ describe('FinanceService', () => {
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // deposit allocations
+  // ---------------------------------------------------------------------------
+  describe('deposit allocations', () => {
+    const dto = {
+      amount: 15000,
+      date: '2025-01-15',
+      slipNumber: 'КВ-001',
+      bankAccount: '20208000100',
+      allocations: [
+        { collectionId: 'collection-123', amount: 10000 },
+        { collectionId: 'collection-456', amount: 5000 },
+      ],
+    };
+    const second = { ...mockCollection, id: 'collection-456', amount: 8000 } as unknown as Collection;
+
+    beforeEach(() => {
+      depositRepository.create.mockImplementation((data) => ({ ...data, id: 'deposit-new' }) as BankDeposit);
+      mockQueryRunner.manager.find
+        .mockResolvedValueOnce([mockCollection, second]) // locked collections
+        .mockResolvedValueOnce([]); // existing rows for this deposit
+      mockQrQueryBuilder.getRawOne.mockResolvedValue({ depositAllocated: '0' });
+    });
+
+    it('should save the deposit without a transaction when nothing is allocated', async () => {
+      depositRepository.save.mockResolvedValue(mockDeposit);
+
+      await service.createDeposit('user-123', { amount: 5000, date: '2025-01-15', slipNumber: 'КВ-001' });
+
+      expect(depositRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ slipNumber: 'КВ-001' }),
+      );
+      expect(dataSource.createQueryRunner).not.toHaveBeenCalled();
+    });
+
+    it('should store the deposit and its allocations in one transaction', async () => {
+      const result = await service.createDeposit('user-123', dto);
+
+      expect(result).toMatchObject({ id: 'deposit-new', slipNumber: 'КВ-001', bankAccount: '20208000100' });
+      expect(mockQueryRunner.manager.save).toHaveBeenLastCalledWith([
+        { depositId: 'deposit-new', collectionId: 'collection-123', amount: 10000 },
+        { depositId: 'deposit-new', collectionId: 'collection-456', amount: 5000 },
+      ]);
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+      expect(mockQueryRunner.release).toHaveBeenCalled();
+    });
+
+    it('should allow partial allocation of a collection', async () => {
+      // 3000 of the 8000 collection were already covered by another deposit
+      mockQrQueryBuilder.getRawMany.mockResolvedValue([{ collectionId: 'collection-456', allocated: '3000' }]);
+
+      await service.createDeposit('user-123', dto);
+
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('should reject allocation beyond the unallocated part of a collection', async () => {
+      mockQrQueryBuilder.getRawMany.mockResolvedValue([{ collectionId: 'collection-456', allocated: '4000' }]);
+
+      await expect(service.createDeposit('user-123', dto)).rejects.toMatchObject({
+        response: expect.objectContaining({ code: 'COLLECTION_OVERALLOCATED', remaining: 4000 }),
+      });
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+      expect(mockQueryRunner.release).toHaveBeenCalled();
+    });
+
+    it('should reject allocations above the deposit amount', async () => {
+      await expect(
+        service.createDeposit('user-123', { ...dto, amount: 12000 }),
+      ).rejects.toMatchObject({
+        response: expect.objectContaining({ code: 'DEPOSIT_OVERALLOCATED', remaining: 12000 }),
+      });
+    });
+
+    it('should reject collections that are not received', async () => {
+      mockQueryRunner.manager.find.mockReset().mockResolvedValueOnce([
+        mockCollection,
+        { ...second, status: CollectionStatus.COLLECTED },
+      ]);
+
+      await expect(service.createDeposit('user-123', dto)).rejects.toThrow(
+        'Collection collection-456 is not received',
+      );
+    });
+
+    it('should reject duplicate collections', async () => {
+      await expect(
+        service.createDeposit('user-123', {
+          ...dto,
+          allocations: [dto.allocations[0], dto.allocations[0]],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should top up an existing allocation of the same deposit', async () => {
+      mockQueryRunner.manager.findOne.mockResolvedValue({ ...mockDeposit, amount: 20000 });
+      mockQueryRunner.manager.find
+        .mockReset()
+        .mockResolvedValueOnce([mockCollection])
+        .mockResolvedValueOnce([{ id: 'alloc-1', depositId: 'deposit-123', collectionId: 'collection-123', amount: '4000' }]);
+      mockQrQueryBuilder.getRawMany.mockResolvedValue([{ collectionId: 'collection-123', allocated: '4000' }]);
+      mockQrQueryBuilder.getRawOne.mockResolvedValue({ depositAllocated: '4000' });
+      depositRepository.findOne.mockResolvedValue(mockDeposit);
+
+      await service.allocateDeposit('deposit-123', [{ collectionId: 'collection-123', amount: 6000 }]);
+
+      expect(mockQueryRunner.manager.findOne).toHaveBeenCalledWith(BankDeposit, {
+        where: { id: 'deposit-123' },
+        lock: { mode: 'pessimistic_write' },
+      });
+      expect(mockQueryRunner.manager.save).toHaveBeenCalledWith([
+        { id: 'alloc-1', depositId: 'deposit-123', collectionId: 'collection-123', amount: 10000 },
+      ]);
+      expect(mockQueryRunner.manager.create).not.toHaveBeenCalledWith(DepositAllocation, expect.anything());
+    });
+
+    it('should throw NotFoundException for an unknown deposit', async () => {
+      mockQueryRunner.manager.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.allocateDeposit('missing', [{ collectionId: 'collection-123', amount: 100 }]),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // findUnallocated
+  // ---------------------------------------------------------------------------
+  describe('deposit corrections', () => {
+    const activeDeposit = () => ({
+      id: 'deposit-123',
+      amount: '5000.00',
+      depositDate: new Date('2025-01-15T10:00:00Z'),
+      notes: 'Weekly deposit',
+      slipNumber: null,
+      bankAccount: null,
+      cancelledAt: null,
+    });
+
+    it('should log every changed field with the reason', async () => {
+      const deposit = activeDeposit();
+      mockQueryRunner.manager.findOne.mockResolvedValue(deposit);
+      mockQrQueryBuilder.getRawOne.mockResolvedValue({ allocated: '0' });
+      depositRepository.findOne.mockResolvedValue(deposit as any);
+
+      await service.editDeposit('deposit-123', 'admin-1', {
+        amount: 4500,
+        notes: 'Weekly deposit',
+        slipNumber: 'A-17',
+        reason: 'Опечатка в сумме',
+      });
+
+      expect(mockQueryRunner.manager.save).toHaveBeenCalledWith([
+        expect.objectContaining({ fieldName: 'amount', oldValue: '5000', newValue: '4500', reason: 'Опечатка в сумме', changedById: 'admin-1' }),
+        expect.objectContaining({ fieldName: 'slipNumber', oldValue: null, newValue: 'A-17' }),
+      ]);
+      expect(deposit.amount).toBe(4500);
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('should not lower the amount below allocated total', async () => {
+      mockQueryRunner.manager.findOne.mockResolvedValue(activeDeposit());
+      mockQrQueryBuilder.getRawOne.mockResolvedValue({ allocated: '4000' });
+
+      await expect(
+        service.editDeposit('deposit-123', 'admin-1', { amount: 3000, reason: 'x' }),
+      ).rejects.toMatchObject({ response: { code: 'DEPOSIT_OVERALLOCATED', allocated: 4000 } });
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+
+    it('should reject edits that change nothing', async () => {
+      mockQueryRunner.manager.findOne.mockResolvedValue(activeDeposit());
+
+      await expect(
+        service.editDeposit('deposit-123', 'admin-1', { notes: 'Weekly deposit', reason: 'x' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should not edit a cancelled deposit', async () => {
+      mockQueryRunner.manager.findOne.mockResolvedValue({ ...activeDeposit(), cancelledAt: new Date() });
+
+      await expect(
+        service.editDeposit('deposit-123', 'admin-1', { amount: 1, reason: 'x' }),
+      ).rejects.toThrow('Cannot edit a cancelled deposit');
+    });
+
+    it('should cancel a deposit and release its allocations', async () => {
+      const deposit = activeDeposit();
+      const allocations = [
+        { id: 'a1', collectionId: 'c1', amount: '3000.00' },
+        { id: 'a2', collectionId: 'c2', amount: '2000.00' },
+      ];
+      mockQueryRunner.manager.findOne.mockResolvedValue(deposit);
+      mockQueryRunner.manager.find.mockResolvedValue(allocations);
+      depositRepository.findOne.mockResolvedValue(deposit as any);
+
+      await service.cancelDeposit('deposit-123', 'admin-1', 'Дубликат');
+
+      expect(mockQueryRunner.manager.remove).toHaveBeenCalledWith(allocations);
+      expect(mockQueryRunner.manager.save).toHaveBeenCalledWith([
+        expect.objectContaining({ fieldName: 'status', oldValue: 'active', newValue: 'cancelled', reason: 'Дубликат' }),
+        expect.objectContaining({ fieldName: 'allocations', oldValue: '2 collections, 5000', newValue: null }),
+      ]);
+      expect(deposit.cancelledAt).toBeInstanceOf(Date);
+    });
+
+    it('should not cancel a deposit twice', async () => {
+      mockQueryRunner.manager.findOne.mockResolvedValue({ ...activeDeposit(), cancelledAt: new Date() });
+
+      await expect(service.cancelDeposit('deposit-123', 'admin-1', 'x')).rejects.toThrow(BadRequestException);
+      expect(mockQueryRunner.manager.save).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for unknown deposit', async () => {
+      mockQueryRunner.manager.findOne.mockResolvedValue(null);
+
+      await expect(service.cancelDeposit('missing', 'admin-1', 'x')).rejects.toThrow(NotFoundException);
+    });
+
+    it('should not allocate a cancelled deposit', async () => {
+      mockQueryRunner.manager.findOne.mockResolvedValue({ ...activeDeposit(), cancelledAt: new Date() });
+
+      await expect(
+        service.allocateDeposit('deposit-123', [{ collectionId: 'c1', amount: 100 }]),
+      ).rejects.toThrow('Cannot allocate a cancelled deposit');
+    });
+  });
+
+  describe('findUnallocated', () => {
+    it('should return remaining amounts and totals of received collections', async () => {
+      mockCollectionQueryBuilder.getRawOne.mockResolvedValue({ count: '2', remaining: '12000.00' });
+      mockCollectionQueryBuilder.getRawMany.mockResolvedValue([
+        {
+          collectionId: 'c1',
+          machineCode: 'A01',
+          machineName: 'Machine',
+          operatorName: 'Operator',
+          receivedAt: '2025-01-15T10:00:00.000Z',
+          amount: '10000.00',
+          allocated: '3000.00',
+        },
+        {
+          collectionId: 'c2',
+          machineCode: 'A02',
+          machineName: 'Machine 2',
+          operatorName: 'Operator',
+          receivedAt: '2025-01-16T10:00:00.000Z',
+          amount: '5000.00',
+          allocated: '0',
+        },
+      ]);
+
+      const result = await service.findUnallocated({ from: '2025-01-01', limit: 50 });
+
+      expect(mockCollectionQueryBuilder.where).toHaveBeenCalledWith('c.status = :status', {
+        status: CollectionStatus.RECEIVED,
+      });
+      expect(mockCollectionQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'c.receivedAt >= :from',
+        expect.objectContaining({ from: expect.any(Date) }),
+      );
+      expect(mockCollectionQueryBuilder.limit).toHaveBeenCalledWith(50);
+      expect(result.count).toBe(2);
+      expect(result.total).toBe(12000);
+      expect(result.items[0]).toMatchObject({ amount: 10000, allocated: 3000, remaining: 7000 });
+      expect(result.items[1].remaining).toBe(5000);
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // findAllDeposits
   // ---------------------------------------------------------------------------
   describe('findAllDeposits', () => {
-    it('should return all deposits ordered by depositDate DESC with createdBy relation', async () => {
+    it('should return all deposits ordered by depositDate DESC with createdBy and allocations', async () => {
       const deposits = [mockDeposit];
       depositRepository.find.mockResolvedValue(deposits);
 
@@ -166,7 +507,7 @@ describe('FinanceService', () => {
       expect(result).toEqual(deposits);
       expect(depositRepository.find).toHaveBeenCalledWith({
         order: { depositDate: 'DESC' },
-        relations: ['createdBy'],
+        relations: ['createdBy', 'allocations'],
       });
     });
 
@@ -303,6 +644,16 @@ describe('FinanceService', () => {
       );
     });
 
+    it('should exclude cancelled deposits', async () => {
+      mockQrQueryBuilder.getRawOne
+        .mockResolvedValueOnce({ totalReceived: '0' })
+        .mockResolvedValueOnce({ totalDeposited: '0' });
+
+      await service.getBalance();
+
+      expect(mockQrQueryBuilder.where).toHaveBeenCalledWith('deposit.cancelledAt IS NULL');
+    });
+
     it('should rollback transaction and re-throw on query error', async () => {
       const dbError = new Error('Query failed');
       mockQrQueryBuilder.getRawOne.mockRejectedValueOnce(dbError);
@@ -343,4 +694,155 @@ describe('FinanceService', () => {
       expect(mockQueryRunner.release).toHaveBeenCalled();
     });
   });
+
+  // ---------------------------------------------------------------------------
+  // getOperatorBalances
+  // ---------------------------------------------------------------------------
+  describe('getCashFlow', () => {
+    const mockMovements = (
+      openingReceived: string,
+      openingDeposited: string,
+      received: Array<{ period: string; total: string; count: string }>,
+      deposited: Array<{ period: string; total: string; count: string }>,
+    ) => {
+      mockQrQueryBuilder.getRawOne
+        .mockResolvedValueOnce({ total: openingReceived })
+        .mockResolvedValueOnce({ total: openingDeposited });
+      mockQrQueryBuilder.getRawMany
+        .mockResolvedValueOnce(received)
+        .mockResolvedValueOnce(deposited);
+    };
+
+    it('should roll opening balance through daily periods', async () => {
+      mockMovements(
+        '10000',
+        '4000',
+        [{ period: '2025-02-04', total: '5000.00', count: '2' }],
+        [{ period: '2025-02-05', total: '3000.00', count: '1' }],
+      );
+
+      const result = await service.getCashFlow({ from: '2025-02-03', to: '2025-02-06' });
+
+      expect(result.periods).toEqual([
+        { start: '2025-02-03', end: '2025-02-03', opening: 6000, received: 0, receivedCount: 0, deposited: 0, depositsCount: 0, closing: 6000 },
+        { start: '2025-02-04', end: '2025-02-04', opening: 6000, received: 5000, receivedCount: 2, deposited: 0, depositsCount: 0, closing: 11000 },
+        { start: '2025-02-05', end: '2025-02-05', opening: 11000, received: 0, receivedCount: 0, deposited: 3000, depositsCount: 1, closing: 8000 },
+        { start: '2025-02-06', end: '2025-02-06', opening: 8000, received: 0, receivedCount: 0, deposited: 0, depositsCount: 0, closing: 8000 },
+      ]);
+      expect(result.totals).toEqual({ opening: 6000, received: 5000, deposited: 3000, closing: 8000 });
+      expect(mockQueryRunner.startTransaction).toHaveBeenCalledWith('REPEATABLE READ');
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('should clip weekly periods to the requested range', async () => {
+      mockMovements('0', '0', [{ period: '2025-02-03', total: '700', count: '1' }], []);
+
+      // 2025-02-05 is a Wednesday; weeks start on Monday like DATE_TRUNC
+      const result = await service.getCashFlow({ from: '2025-02-05', to: '2025-02-12', groupBy: 'week' });
+
+      expect(result.periods.map((p) => [p.start, p.end, p.received])).toEqual([
+        ['2025-02-05', '2025-02-09', 700],
+        ['2025-02-10', '2025-02-12', 0],
+      ]);
+    });
+
+    it('should group by calendar month', async () => {
+      mockMovements('0', '0', [], [{ period: '2025-02-01', total: '100', count: '1' }]);
+
+      const result = await service.getCashFlow({ from: '2025-01-15', to: '2025-03-10', groupBy: 'month' });
+
+      expect(result.periods.map((p) => [p.start, p.end, p.deposited])).toEqual([
+        ['2025-01-15', '2025-01-31', 0],
+        ['2025-02-01', '2025-02-28', 100],
+        ['2025-03-01', '2025-03-10', 0],
+      ]);
+      expect(result.totals.closing).toBe(-100);
+    });
+
+    it('should exclude cancelled deposits', async () => {
+      mockMovements('0', '0', [], []);
+
+      await service.getCashFlow({ from: '2025-02-01', to: '2025-02-01' });
+
+      expect(mockQrQueryBuilder.where).toHaveBeenCalledWith('deposit.cancelledAt IS NULL');
+    });
+
+    it('should reject an inverted range', async () => {
+      await expect(service.getCashFlow({ from: '2025-02-10', to: '2025-02-01' })).rejects.toThrow(BadRequestException);
+      expect(dataSource.createQueryRunner).not.toHaveBeenCalled();
+    });
+
+    it('should rollback and re-throw on query error', async () => {
+      mockQrQueryBuilder.getRawOne.mockRejectedValueOnce(new Error('Query failed'));
+
+      await expect(service.getCashFlow({ from: '2025-02-01', to: '2025-02-02' })).rejects.toThrow('Query failed');
+      expect(mockQueryRunner.rollbackTransaction).toHaveBeenCalled();
+      expect(mockQueryRunner.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('getOperatorBalances', () => {
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
+    const pending = (id: string, operatorId: string, hours: number, denominations: unknown = null) =>
+      ({
+        id,
+        operatorId,
+        operator: { id: operatorId, name: operatorId === 'op-1' ? 'Алишер' : 'Бобур' },
+        machine: { code: `M-${id}`, name: `Machine ${id}` },
+        collectedAt: hoursAgo(hours),
+        status: CollectionStatus.COLLECTED,
+        denominations,
+      }) as unknown as Collection;
+
+    it('should group pending collections by operator with ageing buckets', async () => {
+      collectionRepository.find.mockResolvedValue([
+        pending('c1', 'op-1', 100, [{ currency: 'UZS', value: 5000, count: 10 }]),
+        pending('c2', 'op-2', 50),
+        pending('c3', 'op-1', 30, [{ currency: 'UZS', value: 10000, count: 2 }, { currency: 'USD', value: 100, count: 1 }]),
+        pending('c4', 'op-1', 2),
+      ]);
+      mockHandoverQueryBuilder.getRawMany.mockResolvedValue([
+        { operatorId: 'op-1', lastHandoverAt: '2025-01-10T08:00:00.000Z' },
+      ]);
+
+      const result = await service.getOperatorBalances();
+
+      expect(collectionRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { status: CollectionStatus.COLLECTED } }),
+      );
+      expect(result.operators).toHaveLength(2);
+
+      const [first, second] = result.operators;
+      expect(first).toMatchObject({
+        operatorId: 'op-1',
+        operatorName: 'Алишер',
+        pendingCount: 3,
+        declaredAmount: 70000, // foreign notes are not counted
+        undeclaredCount: 1,
+        ageing: { upTo24h: 1, upTo72h: 1, over72h: 1 },
+        lastHandoverAt: new Date('2025-01-10T08:00:00.000Z'),
+      });
+      expect(first.collections.map((c) => c.declaredAmount)).toEqual([50000, 20000, null]);
+      expect(second).toMatchObject({
+        operatorId: 'op-2',
+        pendingCount: 1,
+        declaredAmount: 0,
+        ageing: { upTo24h: 0, upTo72h: 1, over72h: 0 },
+        lastHandoverAt: null,
+      });
+      expect(result.totals).toEqual({ pendingCount: 4, declaredAmount: 70000, over72h: 1 });
+    });
+
+    it('should skip the handover lookup when nobody holds cash', async () => {
+      collectionRepository.find.mockResolvedValue([]);
+
+      const result = await service.getOperatorBalances();
+
+      expect(result).toEqual({
+        operators: [],
+        totals: { pendingCount: 0, declaredAmount: 0, over72h: 0 },
+      });
+      expect(mockHandoverQueryBuilder.getRawMany).not.toHaveBeenCalled();
+    });
+  });
 });
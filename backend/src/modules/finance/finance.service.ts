@@ -1,8 +1,104 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, DataSource } from 'typeorm';
+import { Repository, DataSource, EntityManager, In } from 'typeorm';
 import { BankDeposit } from './entities/bank-deposit.entity';
+import { DepositAllocation } from './entities/deposit-allocation.entity';
+import { DepositHistory } from './entities/deposit-history.entity';
+import { CreateDepositDto } from './dto/create-deposit.dto';
+import { EditDepositDto } from './dto/edit-deposit.dto';
+import { DepositAllocationDto } from './dto/deposit-allocation.dto';
+import { UnallocatedQueryDto } from './dto/unallocated-query.dto';
+import { CashFlowQueryDto, CashFlowGroupBy } from './dto/cash-flow-query.dto';
 import { Collection, CollectionStatus } from '../collections/entities/collection.entity';
+import { CashHandover } from '../collections/entities/cash-handover.entity';
+import { sumDenominations } from '../../common/utils/denominations';
+import {
+    startOfDayTashkent,
+    endOfDayTashkent,
+    startOfMonthTashkent,
+    endOfTodayTashkent,
+    toTashkentDateString,
+    PG_TASHKENT_TZ,
+} from '../../common/utils/timezone';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface OperatorBalance {
+    operatorId: string;
+    operatorName: string;
+    pendingCount: number;
+    /** Sum of operator-declared breakdowns; undeclared collections are not counted */
+    declaredAmount: number;
+    undeclaredCount: number;
+    oldestCollectedAt: Date;
+    ageing: {
+        upTo24h: number;
+        upTo72h: number;
+        over72h: number;
+    };
+    lastHandoverAt: Date | null;
+    collections: Array<{
+        id: string;
+        machineCode: string;
+        machineName: string;
+        collectedAt: Date;
+        declaredAmount: number | null;
+    }>;
+}
+
+export interface CashFlowPeriod {
+    /** First Tashkent calendar day of the period (YYYY-MM-DD) */
+    start: string;
+    /** Last day of the period, clipped to the requested range */
+    end: string;
+    opening: number;
+    received: number;
+    receivedCount: number;
+    deposited: number;
+    depositsCount: number;
+    closing: number;
+}
+
+export interface CashFlowReport {
+    from: string;
+    to: string;
+    groupBy: CashFlowGroupBy;
+    periods: CashFlowPeriod[];
+    totals: {
+        opening: number;
+        received: number;
+        deposited: number;
+        closing: number;
+    };
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Add days to a YYYY-MM-DD string */
+function addDays(date: string, days: number): string {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().split('T')[0];
+}
+
+/** Start of the day/week (Monday)/month containing a YYYY-MM-DD date, as Postgres date_trunc does */
+function truncateDate(date: string, groupBy: CashFlowGroupBy): string {
+    if (groupBy === 'month') return `${date.slice(0, 7)}-01`;
+    if (groupBy === 'week') {
+        const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+        return addDays(date, -((weekday + 6) % 7));
+    }
+    return date;
+}
+
+function nextPeriodStart(start: string, groupBy: CashFlowGroupBy): string {
+    if (groupBy === 'month') {
+        const d = new Date(`${start}T00:00:00Z`);
+        d.setUTCMonth(d.getUTCMonth() + 1);
+        return d.toISOString().split('T')[0];
+    }
+    return addDays(start, groupBy === 'week' ? 7 : 1);
+}
 
 @Injectable()
 export class FinanceService {
@@ -11,29 +107,317 @@ export class FinanceService {
         private readonly depositRepository: Repository<BankDeposit>,
         @InjectRepository(Collection)
         private readonly collectionRepository: Repository<Collection>,
+        @InjectRepository(CashHandover)
+        private readonly handoverRepository: Repository<CashHandover>,
+        @InjectRepository(DepositHistory)
+        private readonly depositHistoryRepository: Repository<DepositHistory>,
         private readonly dataSource: DataSource,
     ) { }
 
-    async createDeposit(
-        userId: string,
-        data: { amount: number; notes?: string; date: string },
-    ) {
+    async createDeposit(userId: string, data: CreateDepositDto) {
         const deposit = this.depositRepository.create({
             amount: data.amount,
             notes: data.notes,
             depositDate: new Date(data.date),
             createdById: userId,
+            slipNumber: data.slipNumber,
+            bankAccount: data.bankAccount,
+        });
+
+        if (!data.allocations?.length) {
+            return this.depositRepository.save(deposit);
+        }
+
+        const queryRunner = this.dataSource.createQueryRunner();
+        await queryRunner.connect();
+        await queryRunner.startTransaction();
+
+        try {
+            const saved = await queryRunner.manager.save(deposit);
+            await this.applyAllocations(queryRunner.manager, saved, data.allocations);
+            await queryRunner.commitTransaction();
+            return saved;
+        } catch (error) {
+            await queryRunner.rollbackTransaction();
+            throw error;
+        } finally {
+            await queryRunner.release();
+        }
+    }
+
+    /**
+     * Attribute (more of) an existing deposit to received collections.
+     */
+    async allocateDeposit(id: string, allocations: DepositAllocationDto[]) {
+        const queryRunner = this.dataSource.createQueryRunner();
+        await queryRunner.connect();
+        await queryRunner.startTransaction();
+
+        try {
+            const deposit = await queryRunner.manager.findOne(BankDeposit, {
+                where: { id },
+                lock: { mode: 'pessimistic_write' },
+            });
+            if (!deposit) {
+                throw new NotFoundException('Deposit not found');
+            }
+            if (deposit.cancelledAt) {
+                throw new BadRequestException('Cannot allocate a cancelled deposit');
+            }
+
+            await this.applyAllocations(queryRunner.manager, deposit, allocations);
+            await queryRunner.commitTransaction();
+        } catch (error) {
+            await queryRunner.rollbackTransaction();
+            throw error;
+        } finally {
+            await queryRunner.release();
+        }
+
+        return this.depositRepository.findOne({
+            where: { id },
+            relations: ['createdBy', 'allocations'],
+        });
+    }
+
+    /**
+     * Correct a deposit (admin only). Every changed field is written to
+     * deposit_history with the given reason.
+     */
+    async editDeposit(id: string, userId: string, dto: EditDepositDto) {
+        const queryRunner = this.dataSource.createQueryRunner();
+        await queryRunner.connect();
+        await queryRunner.startTransaction();
+
+        try {
+            const deposit = await queryRunner.manager.findOne(BankDeposit, {
+                where: { id },
+                lock: { mode: 'pessimistic_write' },
+            });
+            if (!deposit) {
+                throw new NotFoundException('Deposit not found');
+            }
+            if (deposit.cancelledAt) {
+                throw new BadRequestException('Cannot edit a cancelled deposit');
+            }
+
+            if (dto.amount !== undefined && dto.amount !== Number(deposit.amount)) {
+                const { allocated } = await queryRunner.manager
+                    .createQueryBuilder(DepositAllocation, 'a')
+                    .select('COALESCE(SUM(a.amount), 0)', 'allocated')
+                    .where('a.depositId = :depositId', { depositId: id })
+                    .getRawOne();
+                if (dto.amount < (Number(allocated) || 0) - 0.005) {
+                    throw new BadRequestException({
+                        code: 'DEPOSIT_OVERALLOCATED',
+                        message: 'Deposit amount cannot be lower than its allocated total',
+                        allocated: Number(allocated),
+                    });
+                }
+            }
+
+            const changes: Array<{ field: string; oldValue: string | null; newValue: string | null }> = [];
+            const track = (field: string, oldValue: string | null, newValue: string | null) => {
+                if ((oldValue || null) !== (newValue || null)) {
+                    changes.push({ field, oldValue: oldValue || null, newValue: newValue || null });
+                }
+            };
+
+            if (dto.amount !== undefined) {
+                track('amount', String(Number(deposit.amount)), String(dto.amount));
+                deposit.amount = dto.amount;
+            }
+            if (dto.date !== undefined) {
+                const newDate = new Date(dto.date);
+                track('depositDate', new Date(deposit.depositDate).toISOString(), newDate.toISOString());
+                deposit.depositDate = newDate;
+            }
+            if (dto.notes !== undefined) {
+                track('notes', deposit.notes, dto.notes);
+                deposit.notes = dto.notes;
+            }
+            if (dto.slipNumber !== undefined) {
+                track('slipNumber', deposit.slipNumber, dto.slipNumber);
+                deposit.slipNumber = dto.slipNumber || null;
+            }
+            if (dto.bankAccount !== undefined) {
+                track('bankAccount', deposit.bankAccount, dto.bankAccount);
+                deposit.bankAccount = dto.bankAccount || null;
+            }
+
+            if (changes.length === 0) {
+                throw new BadRequestException('Nothing to change');
+            }
+
+            await queryRunner.manager.save(changes.map((change) => queryRunner.manager.create(DepositHistory, {
+                depositId: id,
+                changedById: userId,
+                fieldName: change.field,
+                oldValue: change.oldValue,
+                newValue: change.newValue,
+                reason: dto.reason,
+            })));
+            await queryRunner.manager.save(deposit);
+            await queryRunner.commitTransaction();
+        } catch (error) {
+            await queryRunner.rollbackTransaction();
+            throw error;
+        } finally {
+            await queryRunner.release();
+        }
+
+        return this.depositRepository.findOne({
+            where: { id },
+            relations: ['createdBy', 'allocations'],
+        });
+    }
+
+    /**
+     * Cancel a deposit (admin only). Its allocations are released so the
+     * collections show up as unallocated cash again.
+     */
+    async cancelDeposit(id: string, userId: string, reason: string) {
+        const queryRunner = this.dataSource.createQueryRunner();
+        await queryRunner.connect();
+        await queryRunner.startTransaction();
+
+        try {
+            const deposit = await queryRunner.manager.findOne(BankDeposit, {
+                where: { id },
+                lock: { mode: 'pessimistic_write' },
+            });
+            if (!deposit) {
+                throw new NotFoundException('Deposit not found');
+            }
+            if (deposit.cancelledAt) {
+                throw new BadRequestException('Deposit is already cancelled');
+            }
+
+            const history = [
+                queryRunner.manager.create(DepositHistory, {
+                    depositId: id,
+                    changedById: userId,
+                    fieldName: 'status',
+                    oldValue: 'active',
+                    newValue: 'cancelled',
+                    reason,
+                }),
+            ];
+
+            const allocations = await queryRunner.manager.find(DepositAllocation, {
+                where: { depositId: id },
+            });
+            if (allocations.length > 0) {
+                const allocated = allocations.reduce((sum, a) => sum + Number(a.amount), 0);
+                history.push(queryRunner.manager.create(DepositHistory, {
+                    depositId: id,
+                    changedById: userId,
+                    fieldName: 'allocations',
+                    oldValue: `${allocations.length} collections, ${Math.round(allocated * 100) / 100}`,
+                    newValue: null,
+                    reason,
+                }));
+                await queryRunner.manager.remove(allocations);
+            }
+
+            await queryRunner.manager.save(history);
+            deposit.cancelledAt = new Date();
+            await queryRunner.manager.save(deposit);
+            await queryRunner.commitTransaction();
+        } catch (error) {
+            await queryRunner.rollbackTransaction();
+            throw error;
+        } finally {
+            await queryRunner.release();
+        }
+
+        return this.depositRepository.findOne({
+            where: { id },
+            relations: ['createdBy', 'allocations'],
+        });
+    }
+
+    async getDepositHistory(id: string) {
+        return this.depositHistoryRepository.find({
+            where: { depositId: id },
+            relations: ['changedBy'],
+            order: { createdAt: 'DESC' },
         });
-        return this.depositRepository.save(deposit);
     }
 
     async findAllDeposits() {
         return this.depositRepository.find({
             order: { depositDate: 'DESC' },
-            relations: ['createdBy'],
+            relations: ['createdBy', 'allocations'],
         });
     }
 
+    /**
+     * Received cash that no deposit has been attributed to yet, oldest first.
+     * Partially allocated collections are listed with their remainder.
+     */
+    async findUnallocated(query: UnallocatedQueryDto) {
+        const qb = this.collectionRepository
+            .createQueryBuilder('c')
+            .leftJoin('c.machine', 'm')
+            .leftJoin('c.operator', 'o')
+            .leftJoin(
+                (sub) => sub
+                    .select('a.collection_id', 'collection_id')
+                    .addSelect('SUM(a.amount)', 'allocated')
+                    .from(DepositAllocation, 'a')
+                    .groupBy('a.collection_id'),
+                'alloc',
+                'alloc.collection_id = c.id',
+            )
+            .where('c.status = :status', { status: CollectionStatus.RECEIVED })
+            .andWhere('COALESCE(alloc.allocated, 0) < c.amount');
+
+        if (query.from) {
+            qb.andWhere('c.receivedAt >= :from', { from: startOfDayTashkent(query.from) });
+        }
+        if (query.to) {
+            qb.andWhere('c.receivedAt <= :to', { to: endOfDayTashkent(query.to) });
+        }
+
+        const summary = await qb
+            .clone()
+            .select('COUNT(*)', 'count')
+            .addSelect('COALESCE(SUM(c.amount - COALESCE(alloc.allocated, 0)), 0)', 'remaining')
+            .getRawOne();
+
+        const rows = await qb
+            .select('c.id', 'collectionId')
+            .addSelect('m.code', 'machineCode')
+            .addSelect('m.name', 'machineName')
+            .addSelect('o.name', 'operatorName')
+            .addSelect('c.receivedAt', 'receivedAt')
+            .addSelect('c.amount', 'amount')
+            .addSelect('COALESCE(alloc.allocated, 0)', 'allocated')
+            .orderBy('c.receivedAt', 'ASC')
+            .limit(query.limit || 200)
+            .getRawMany();
+
+        return {
+            items: rows.map((r) => {
+                const amount = Number(r.amount) || 0;
+                const allocated = Number(r.allocated) || 0;
+                return {
+                    collectionId: r.collectionId,
+                    machineCode: r.machineCode,
+                    machineName: r.machineName,
+                    operatorName: r.operatorName,
+                    receivedAt: r.receivedAt,
+                    amount,
+                    allocated,
+                    remaining: Math.round((amount - allocated) * 100) / 100,
+                };
+            }),
+            count: parseInt(summary?.count) || 0,
+            total: Math.round((Number(summary?.remaining) || 0) * 100) / 100,
+        };
+    }
+
     async getBalance() {
         // Use a transaction to ensure consistent snapshot of both sums
         const queryRunner = this.dataSource.createQueryRunner();
@@ -48,10 +432,11 @@ export class FinanceService {
                 .where('collection.status = :status', { status: CollectionStatus.RECEIVED })
                 .getRawOne();
 
-            // 2. Sum up all DEPOSITS
+            // 2. Sum up all DEPOSITS that were not cancelled
             const { totalDeposited } = await queryRunner.manager
                 .createQueryBuilder(BankDeposit, 'deposit')
                 .select('COALESCE(SUM(deposit.amount), 0)::numeric', 'totalDeposited')
+                .where('deposit.cancelledAt IS NULL')
                 .getRawOne();
 
             await queryRunner.commitTransaction();
@@ -73,4 +458,304 @@ export class FinanceService {
             await queryRunner.release();
         }
     }
+
+    /**
+     * Cash book for a period: cash on hand at the start, collections received,
+     * deposits made and cash at the end, per day, week or month in Tashkent
+     * time. Matches getBalance: received collections in, active deposits out.
+     */
+    async getCashFlow(query: CashFlowQueryDto): Promise<CashFlowReport> {
+        const groupBy = query.groupBy || 'day';
+        const fromDate = query.from ? startOfDayTashkent(query.from) : startOfMonthTashkent();
+        const toDate = query.to ? endOfDayTashkent(query.to) : endOfTodayTashkent();
+        if (fromDate > toDate) {
+            throw new BadRequestException('Start date must be before end date');
+        }
+        if (groupBy === 'day' && toDate.getTime() - fromDate.getTime() > 731 * 24 * HOUR_MS) {
+            throw new BadRequestException('Daily breakdown is limited to two years, group by week or month');
+        }
+        const from = toTashkentDateString(fromDate);
+        const to = toTashkentDateString(toDate);
+
+        const bucket = (column: string) =>
+            `TO_CHAR(DATE_TRUNC('${groupBy}', ${column} AT TIME ZONE 'UTC' AT TIME ZONE '${PG_TASHKENT_TZ}'), 'YYYY-MM-DD')`;
+
+        const queryRunner = this.dataSource.createQueryRunner();
+        await queryRunner.connect();
+        await queryRunner.startTransaction('REPEATABLE READ');
+
+        let openingReceived: number;
+        let openingDeposited: number;
+        let receivedRows: Array<{ period: string; total: string; count: string }>;
+        let depositRows: Array<{ period: string; total: string; count: string }>;
+
+        try {
+            const receivedBefore = await queryRunner.manager
+                .createQueryBuilder(Collection, 'collection')
+                .select('COALESCE(SUM(collection.amount), 0)::numeric', 'total')
+                .where('collection.status = :status', { status: CollectionStatus.RECEIVED })
+                .andWhere('collection.receivedAt < :from', { from: fromDate })
+                .getRawOne();
+
+            const depositedBefore = await queryRunner.manager
+                .createQueryBuilder(BankDeposit, 'deposit')
+                .select('COALESCE(SUM(deposit.amount), 0)::numeric', 'total')
+                .where('deposit.cancelledAt IS NULL')
+                .andWhere('deposit.depositDate < :from', { from: fromDate })
+                .getRawOne();
+
+            receivedRows = await queryRunner.manager
+                .createQueryBuilder(Collection, 'collection')
+                .select(bucket('collection.received_at'), 'period')
+                .addSelect('COALESCE(SUM(collection.amount), 0)::numeric', 'total')
+                .addSelect('COUNT(*)', 'count')
+                .where('collection.status = :status', { status: CollectionStatus.RECEIVED })
+                .andWhere('collection.receivedAt BETWEEN :from AND :to', { from: fromDate, to: toDate })
+                .groupBy('period')
+                .getRawMany();
+
+            depositRows = await queryRunner.manager
+                .createQueryBuilder(BankDeposit, 'deposit')
+                .select(bucket('deposit.deposit_date'), 'period')
+                .addSelect('COALESCE(SUM(deposit.amount), 0)::numeric', 'total')
+                .addSelect('COUNT(*)', 'count')
+                .where('deposit.cancelledAt IS NULL')
+                .andWhere('deposit.depositDate BETWEEN :from AND :to', { from: fromDate, to: toDate })
+                .groupBy('period')
+                .getRawMany();
+
+            await queryRunner.commitTransaction();
+
+            openingReceived = Number(receivedBefore?.total) || 0;
+            openingDeposited = Number(depositedBefore?.total) || 0;
+        } catch (error) {
+            await queryRunner.rollbackTransaction();
+            throw error;
+        } finally {
+            await queryRunner.release();
+        }
+
+        const receivedByPeriod = new Map(receivedRows.map((r) => [r.period, r]));
+        const depositsByPeriod = new Map(depositRows.map((r) => [r.period, r]));
+
+        // Every period in the range is listed, including ones without movements
+        const periods: CashFlowPeriod[] = [];
+        let balance = round2(openingReceived - openingDeposited);
+        for (let start = truncateDate(from, groupBy); start <= to; start = nextPeriodStart(start, groupBy)) {
+            const received = receivedByPeriod.get(start);
+            const deposited = depositsByPeriod.get(start);
+            const end = addDays(nextPeriodStart(start, groupBy), -1);
+            const period: CashFlowPeriod = {
+                start: start < from ? from : start,
+                end: end > to ? to : end,
+                opening: balance,
+                received: round2(Number(received?.total) || 0),
+                receivedCount: parseInt(received?.count ?? '') || 0,
+                deposited: round2(Number(deposited?.total) || 0),
+                depositsCount: parseInt(deposited?.count ?? '') || 0,
+                closing: 0,
+            };
+            period.closing = round2(period.opening + period.received - period.deposited);
+            balance = period.closing;
+            periods.push(period);
+        }
+
+        const opening = round2(openingReceived - openingDeposited);
+        return {
+            from,
+            to,
+            groupBy,
+            periods,
+            totals: {
+                opening,
+                received: round2(periods.reduce((sum, p) => sum + p.received, 0)),
+                deposited: round2(periods.reduce((sum, p) => sum + p.deposited, 0)),
+                closing: balance,
+            },
+        };
+    }
+
+    /**
+     * Cash currently held by each operator: collections they have collected
+     * but no manager has received yet, with ageing buckets. The exact amount
+     * is unknown until a manager counts it, so only operator-declared
+     * breakdowns are summed.
+     */
+    async getOperatorBalances(): Promise<{
+        operators: OperatorBalance[];
+        totals: { pendingCount: number; declaredAmount: number; over72h: number };
+    }> {
+        const pending = await this.collectionRepository.find({
+            where: { status: CollectionStatus.COLLECTED },
+            relations: ['operator', 'machine'],
+            order: { collectedAt: 'ASC' },
+        });
+
+        const now = Date.now();
+        const balances = new Map<string, OperatorBalance>();
+
+        for (const collection of pending) {
+            let balance = balances.get(collection.operatorId);
+            if (!balance) {
+                balance = {
+                    operatorId: collection.operatorId,
+                    operatorName: collection.operator?.name ?? '',
+                    pendingCount: 0,
+                    declaredAmount: 0,
+                    undeclaredCount: 0,
+                    // Rows are sorted by collectedAt, so the first one is the oldest
+                    oldestCollectedAt: collection.collectedAt,
+                    ageing: { upTo24h: 0, upTo72h: 0, over72h: 0 },
+                    lastHandoverAt: null,
+                    collections: [],
+                };
+                balances.set(collection.operatorId, balance);
+            }
+
+            const declared = collection.denominations?.length
+                ? sumDenominations(collection.denominations)
+                : null;
+
+            balance.pendingCount++;
+            if (declared === null) {
+                balance.undeclaredCount++;
+            } else {
+                balance.declaredAmount += declared;
+            }
+
+            const ageHours = (now - new Date(collection.collectedAt).getTime()) / HOUR_MS;
+            if (ageHours <= 24) {
+                balance.ageing.upTo24h++;
+            } else if (ageHours <= 72) {
+                balance.ageing.upTo72h++;
+            } else {
+                balance.ageing.over72h++;
+            }
+
+            balance.collections.push({
+                id: collection.id,
+                machineCode: collection.machine?.code ?? '',
+                machineName: collection.machine?.name ?? '',
+                collectedAt: collection.collectedAt,
+                declaredAmount: declared,
+            });
+        }
+
+        if (balances.size > 0) {
+            const lastHandovers = await this.handoverRepository
+                .createQueryBuilder('h')
+                .select('h.operatorId', 'operatorId')
+                .addSelect('MAX(h.createdAt)', 'lastHandoverAt')
+                .where('h.operatorId IN (:...ids)', { ids: Array.from(balances.keys()) })
+                .groupBy('h.operatorId')
+                .getRawMany();
+
+            for (const row of lastHandovers) {
+                const balance = balances.get(row.operatorId);
+                if (balance) {
+                    balance.lastHandoverAt = row.lastHandoverAt ? new Date(row.lastHandoverAt) : null;
+                }
+            }
+        }
+
+        const operators = Array.from(balances.values());
+        return {
+            operators,
+            totals: {
+                pendingCount: pending.length,
+                declaredAmount: operators.reduce((sum, b) => sum + b.declaredAmount, 0),
+                over72h: operators.reduce((sum, b) => sum + b.ageing.over72h, 0),
+            },
+        };
+    }
+
+    /**
+     * Validate and store allocations of a deposit. Neither the deposit nor any
+     * collection may end up allocated beyond its amount. Must run inside a
+     * transaction; affected collections are locked.
+     */
+    private async applyAllocations(
+        manager: EntityManager,
+        deposit: BankDeposit,
+        items: DepositAllocationDto[],
+    ): Promise<void> {
+        const ids = items.map((item) => item.collectionId);
+        if (new Set(ids).size !== ids.length) {
+            throw new BadRequestException('Duplicate collections in allocation');
+        }
+
+        const collections = await manager.find(Collection, {
+            where: { id: In(ids) },
+            lock: { mode: 'pessimistic_write' },
+        });
+        const byId = new Map(collections.map((c) => [c.id, c]));
+
+        const allocatedRows = await manager
+            .createQueryBuilder(DepositAllocation, 'a')
+            .select('a.collectionId', 'collectionId')
+            .addSelect('SUM(a.amount)', 'allocated')
+            .where('a.collectionId IN (:...ids)', { ids })
+            .groupBy('a.collectionId')
+            .getRawMany();
+        const allocatedByCollection = new Map<string, number>(
+            allocatedRows.map((r) => [r.collectionId, Number(r.allocated) || 0]),
+        );
+
+        for (const item of items) {
+            const collection = byId.get(item.collectionId);
+            if (!collection) {
+                throw new NotFoundException(`Collection ${item.collectionId} not found`);
+            }
+            if (collection.status !== CollectionStatus.RECEIVED) {
+                throw new BadRequestException(`Collection ${item.collectionId} is not received`);
+            }
+
+            const remaining = Math.round(
+                (Number(collection.amount) - (allocatedByCollection.get(item.collectionId) || 0)) * 100,
+            ) / 100;
+            if (item.amount > remaining + 0.005) {
+                throw new BadRequestException({
+                    code: 'COLLECTION_OVERALLOCATED',
+                    message: `Allocation exceeds unallocated amount of collection ${item.collectionId}`,
+                    collectionId: item.collectionId,
+                    remaining,
+                });
+            }
+        }
+
+        const { depositAllocated } = await manager
+            .createQueryBuilder(DepositAllocation, 'a')
+            .select('COALESCE(SUM(a.amount), 0)', 'depositAllocated')
+            .where('a.depositId = :depositId', { depositId: deposit.id })
+            .getRawOne();
+        const alreadyAllocated = Number(depositAllocated) || 0;
+        const requested = items.reduce((sum, item) => sum + item.amount, 0);
+        if (alreadyAllocated + requested > Number(deposit.amount) + 0.005) {
+            throw new BadRequestException({
+                code: 'DEPOSIT_OVERALLOCATED',
+                message: 'Allocations exceed deposit amount',
+                remaining: Math.round((Number(deposit.amount) - alreadyAllocated) * 100) / 100,
+            });
+        }
+
+        // Allocating the same collection to a deposit again tops up the existing row
+        const existing = await manager.find(DepositAllocation, {
+            where: { depositId: deposit.id, collectionId: In(ids) },
+        });
+        const existingByCollection = new Map(existing.map((a) => [a.collectionId, a]));
+
+        const toSave = items.map((item) => {
+            const row = existingByCollection.get(item.collectionId);
+            if (row) {
+                row.amount = Math.round((Number(row.amount) + item.amount) * 100) / 100;
+                return row;
+            }
+            return manager.create(DepositAllocation, {
+                depositId: deposit.id,
+                collectionId: item.collectionId,
+                amount: item.amount,
+            });
+        });
+        await manager.save(toSave);
+    }
 }
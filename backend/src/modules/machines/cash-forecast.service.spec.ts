@@ -0,0 +1,105 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CashForecastService } from './cash-forecast.service';
+import { Machine } from './entities/machine.entity';
+
+describe('CashForecastService', () => {
+  let service: CashForecastService;
+  let query: jest.Mock;
+
+  const now = new Date('2025-10-15T12:00:00Z');
+
+  const row = (overrides: Record<string, unknown>) => ({
+    id: 'machine-1',
+    code: 'A01',
+    name: 'Lobby',
+    location: 'Main st',
+    cashCapacity: '1000000',
+    lastCollectedAt: new Date('2025-10-10T12:00:00Z'),
+    lastSaleAt: new Date('2025-10-15T12:00:00Z'),
+    importedCash: '500000',
+    // 100 000 a day over the 14-day window
+    recentCash: '1400000',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    query = jest.fn().mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CashForecastService,
+        { provide: getRepositoryToken(Machine), useValue: { manager: { query } } },
+      ],
+    }).compile();
+
+    service = module.get<CashForecastService>(CashForecastService);
+  });
+
+  it('should project the fill date from the daily average', async () => {
+    query.mockResolvedValue([row({})]);
+
+    const [forecast] = await service.getForecast(now);
+
+    expect(forecast).toMatchObject({
+      expectedCash: 500000,
+      dailyAverage: 100000,
+      fillPercent: 50,
+      daysUntilFull: 5,
+      projectedFullAt: '2025-10-20T12:00:00.000Z',
+      collectToday: false,
+    });
+  });
+
+  it('should extrapolate sales that are not imported yet', async () => {
+    query.mockResolvedValue([row({ lastSaleAt: new Date('2025-10-11T12:00:00Z') })]);
+
+    const [forecast] = await service.getForecast(now);
+
+    expect(forecast.importedCash).toBe(500000);
+    expect(forecast.expectedCash).toBe(900000);
+    expect(forecast.daysUntilFull).toBe(1);
+    expect(forecast.collectToday).toBe(true);
+  });
+
+  it('should put full machines first and skip the projection without a capacity', async () => {
+    query.mockResolvedValue([
+      row({ id: 'no-capacity', cashCapacity: null, importedCash: '5000000' }),
+      row({ id: 'half-full' }),
+      row({ id: 'full', importedCash: '1200000' }),
+    ]);
+
+    const forecast = await service.getForecast(now);
+
+    expect(forecast.map((f) => f.machine.id)).toEqual(['full', 'half-full', 'no-capacity']);
+    expect(forecast[0]).toMatchObject({ fillPercent: 100, daysUntilFull: 0, collectToday: true });
+    expect(forecast[2]).toMatchObject({ fillPercent: null, daysUntilFull: null, collectToday: false });
+  });
+
+  it('should not project a fill date for a machine without recent sales', async () => {
+    query.mockResolvedValue([row({ recentCash: '0', lastSaleAt: null })]);
+
+    const [forecast] = await service.getForecast(now);
+
+    expect(forecast.expectedCash).toBe(500000);
+    expect(forecast.daysUntilFull).toBeNull();
+    expect(forecast.projectedFullAt).toBeNull();
+  });
+
+  it('should net refunds paid from the box out of the recent cash, as for the imported cash', async () => {
+    await service.getForecast(now);
+
+    const sql: string = query.mock.calls[0][0];
+    const recentCash = sql.slice(sql.indexOf('AS imported_cash'), sql.indexOf('AS recent_cash'));
+    expect(recentCash).toContain('WHEN m.cash_refunds_from_box THEN -ABS(so.price)');
+  });
+
+  it('should not let refunds make the daily average negative', async () => {
+    query.mockResolvedValue([row({ recentCash: '-70000' })]);
+
+    const [forecast] = await service.getForecast(now);
+
+    expect(forecast.dailyAverage).toBe(0);
+    expect(forecast.daysUntilFull).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Machine, MachineStatus } from './entities/machine.entity';
+import { CollectionStatus } from '../collections/entities/collection.entity';
+import { PaymentMethod, PaymentStatus } from '../sales/entities/sales-order.entity';
+
+export interface MachineCashForecast {
+  machine: { id: string; code: string; name: string; location: string | null };
+  lastCollectedAt: string | null;
+  /** Latest imported cash sale; sales after it are extrapolated */
+  lastSaleAt: string | null;
+  /** Cash sales imported since the last collection, minus refunds paid from the box */
+  importedCash: number;
+  /** importedCash plus the daily average for the days not imported yet */
+  expectedCash: number;
+  dailyAverage: number;
+  cashCapacity: number | null;
+  fillPercent: number | null;
+  daysUntilFull: number | null;
+  projectedFullAt: string | null;
+  /** Full already or fills up within a day */
+  collectToday: boolean;
+}
+
+interface ForecastRow {
+  id: string;
+  code: string;
+  name: string;
+  location: string | null;
+  cashCapacity: string | null;
+  lastCollectedAt: Date | null;
+  lastSaleAt: Date | null;
+  importedCash: string;
+  recentCash: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Daily average is taken over this many recent days */
+export const FORECAST_WINDOW_DAYS = 14;
+
+/** A machine filling up within this many days goes on today's route */
+const COLLECT_TODAY_DAYS = 1;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Estimates the cash sitting in each machine from imported cash sales since
+ * its last collection and projects when the box fills up.
+ */
+@Injectable()
+export class CashForecastService {
+  constructor(
+    @InjectRepository(Machine)
+    private readonly machineRepository: Repository<Machine>,
+  ) {}
+
+  /** Active machines, most urgent first */
+  async getForecast(now = new Date()): Promise<MachineCashForecast[]> {
+    const windowStart = new Date(now.getTime() - FORECAST_WINDOW_DAYS * DAY_MS);
+
+    const rows: ForecastRow[] = await this.machineRepository.manager.query(
+      `WITH last_collection AS (
+         SELECT c.machine_id, MAX(c.collected_at) AS collected_at
+         FROM collections c
+         WHERE c.status IN ($1, $2)
+         GROUP BY c.machine_id
+       )
+       SELECT m.id, m.code, m.name, m.location, m.cash_capacity AS "cashCapacity",
+              lc.collected_at AS "lastCollectedAt",
+              s.last_sale_at AS "lastSaleAt",
+              COALESCE(s.imported_cash, 0) AS "importedCash",
+              COALESCE(s.recent_cash, 0) AS "recentCash"
+       FROM machines m
+       LEFT JOIN last_collection lc ON lc.machine_id = m.id
+       LEFT JOIN LATERAL (
+         SELECT
+           MAX(so.order_date) FILTER (WHERE so.payment_status = $4) AS last_sale_at,
+           SUM(CASE
+             WHEN lc.collected_at IS NOT NULL AND so.order_date <= lc.collected_at THEN 0
+             WHEN so.payment_status = $4 THEN so.price
+             WHEN m.cash_refunds_from_box THEN -ABS(so.price)
+             ELSE 0
+           END) AS imported_cash,
+           -- Refunds paid out of the box reduce the daily pace the same way
+           SUM(CASE
+             WHEN so.order_date < $5 THEN 0
+             WHEN so.payment_status = $4 THEN so.price
+             WHEN m.cash_refunds_from_box THEN -ABS(so.price)
+             ELSE 0
+           END) AS recent_cash
+         FROM sales_orders so
+         LEFT JOIN sales_orders orig ON orig.id = so.refund_of_id
+         WHERE (so.machine_id = m.id OR (so.machine_id IS NULL AND LOWER(so.machine_code) = LOWER(m.code)))
+           -- A refund counts as cash when the order it reverses was paid in cash
+           AND COALESCE(orig.payment_method, so.payment_method) = $3
+           AND (lc.collected_at IS NULL OR so.order_date > lc.collected_at OR so.order_date >= $5)
+       ) s ON true
+       WHERE m.status = $6 AND m.is_active = true`,
+      [
+        CollectionStatus.COLLECTED,
+        CollectionStatus.RECEIVED,
+        PaymentMethod.CASH,
+        PaymentStatus.PAID,
+        windowStart,
+        MachineStatus.APPROVED,
+      ],
+    );
+
+    const forecasts = rows.map((r) => this.project(r, now));
+    return forecasts.sort((a, b) => {
+      const aDays = a.daysUntilFull ?? Infinity;
+      const bDays = b.daysUntilFull ?? Infinity;
+      if (aDays !== bDays) return aDays - bDays;
+      return b.expectedCash - a.expectedCash;
+    });
+  }
+
+  private project(row: ForecastRow, now: Date): MachineCashForecast {
+    const lastCollectedAt = row.lastCollectedAt ? new Date(row.lastCollectedAt) : null;
+    const lastSaleAt = row.lastSaleAt ? new Date(row.lastSaleAt) : null;
+    const importedCash = Math.max(0, Number(row.importedCash) || 0);
+    const dailyAverage = Math.max(0, Number(row.recentCash) || 0) / FORECAST_WINDOW_DAYS;
+
+    // Sales are imported with a delay; assume the machine kept selling at its
+    // usual pace since the later of the last imported sale and the collection
+    const knownUntil = Math.max(lastSaleAt?.getTime() ?? 0, lastCollectedAt?.getTime() ?? 0);
+    const missingDays = knownUntil > 0 ? Math.max(0, (now.getTime() - knownUntil) / DAY_MS) : 0;
+    const expectedCash = importedCash + dailyAverage * missingDays;
+
+    const capacity = row.cashCapacity !== null ? Number(row.cashCapacity) : null;
+    let fillPercent: number | null = null;
+    let daysUntilFull: number | null = null;
+    let projectedFullAt: string | null = null;
+    if (capacity && capacity > 0) {
+      fillPercent = Math.min(100, (expectedCash / capacity) * 100);
+      if (expectedCash >= capacity) {
+        daysUntilFull = 0;
+      } else if (dailyAverage > 0) {
+        daysUntilFull = (capacity - expectedCash) / dailyAverage;
+      }
+      if (daysUntilFull !== null) {
+        projectedFullAt = new Date(now.getTime() + daysUntilFull * DAY_MS).toISOString();
+      }
+    }
+
+    return {
+      machine: { id: row.id, code: row.code, name: row.name, location: row.location || null },
+      lastCollectedAt: lastCollectedAt?.toISOString() ?? null,
+      lastSaleAt: lastSaleAt?.toISOString() ?? null,
+      importedCash: round2(importedCash),
+      expectedCash: round2(expectedCash),
+      dailyAverage: round2(dailyAverage),
+      cashCapacity: capacity,
+      fillPercent: fillPercent !== null ? round2(fillPercent) : null,
+      daysUntilFull: daysUntilFull !== null ? round2(daysUntilFull) : null,
+      projectedFullAt,
+      collectToday: daysUntilFull !== null && daysUntilFull <= COLLECT_TODAY_DAYS,
+    };
+  }
+}
@@ -38,4 +38,15 @@ export class CreateMachineDto {
   @IsBoolean()
   @IsOptional()
   isActive?: boolean;
+
+  @ApiProperty({ description: 'Cash refunds are paid out of the cash box', required: false, default: false })
+  @IsBoolean()
+  @IsOptional()
+  cashRefundsFromBox?: boolean;
+
+  @ApiProperty({ description: 'Cash box capacity', required: false })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  cashCapacity?: number | null;
 }
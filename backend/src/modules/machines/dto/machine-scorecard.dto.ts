@@ -0,0 +1,14 @@
+import { IsOptional, IsDateString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MachineScorecardQueryDto {
+  @ApiProperty({ required: false, description: 'Start date (YYYY-MM-DD), defaults to one year ago' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({ required: false, description: 'End date (YYYY-MM-DD), defaults to today' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
@@ -0,0 +1,28 @@
+import { ArrayMaxSize, IsArray, IsNumber, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/** Stops in one route; the default list of machines due today is cut to it too */
+export const MAX_ROUTE_MACHINES = 50;
+
+export class PlanRouteDto {
+  @ApiProperty({ description: 'Machines to visit; defaults to the ones due for collection today', required: false, type: [String] })
+  @IsArray()
+  @ArrayMaxSize(MAX_ROUTE_MACHINES)
+  @IsUUID('4', { each: true })
+  @IsOptional()
+  machineIds?: string[];
+
+  @ApiProperty({ description: 'Start latitude', required: false })
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  @IsOptional()
+  startLatitude?: number;
+
+  @ApiProperty({ description: 'Start longitude', required: false })
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  @IsOptional()
+  startLongitude?: number;
+}
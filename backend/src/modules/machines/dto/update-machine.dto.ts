@@ -1,4 +1,4 @@
-import { IsString, IsBoolean, IsOptional, IsNumber, MinLength, MaxLength } from 'class-validator';
+import { IsString, IsBoolean, IsOptional, IsNumber, Min, MinLength, MaxLength } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class UpdateMachineDto {
@@ -27,6 +27,17 @@ export class UpdateMachineDto {
   @IsOptional()
   isActive?: boolean;
 
+  @ApiProperty({ description: 'Cash refunds are paid out of the cash box', required: false })
+  @IsBoolean()
+  @IsOptional()
+  cashRefundsFromBox?: boolean;
+
+  @ApiProperty({ description: 'Cash box capacity', required: false })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  cashCapacity?: number | null;
+
   @ApiProperty({ description: 'Latitude', required: false })
   @IsNumber()
   @IsOptional()
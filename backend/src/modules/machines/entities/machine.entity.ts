@@ -38,6 +38,14 @@ export class Machine {
   @Column({ name: 'is_active', default: true })
   isActive: boolean;
 
+  // Cash refunds are paid out of the machine's cash box, so reconciliation expects less
+  @Column({ name: 'cash_refunds_from_box', default: false })
+  cashRefundsFromBox: boolean;
+
+  // Cash the box holds before it needs emptying; unset means no fill forecast
+  @Column({ name: 'cash_capacity', type: 'decimal', precision: 15, scale: 2, nullable: true })
+  cashCapacity: number | null;
+
   @Column({
     type: 'enum',
     enum: MachineStatus,
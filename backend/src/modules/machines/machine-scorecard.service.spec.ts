@@ -0,0 +1,151 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { MachineScorecardService } from './machine-scorecard.service';
+import { MachinesService } from './machines.service';
+import { Machine } from './entities/machine.entity';
+import { MachineLocation } from './entities/machine-location.entity';
+import { SalesOrder } from '../sales/entities/sales-order.entity';
+import { ReconciliationRecord } from '../sales/entities/reconciliation-record.entity';
+import { Collection } from '../collections/entities/collection.entity';
+import { SettingsService } from '../settings/settings.service';
+
+describe('MachineScorecardService', () => {
+  let service: MachineScorecardService;
+  let machinesService: { findByIdOrFail: jest.Mock };
+  let locationRepository: { find: jest.Mock };
+  let salesOrderRepository: { createQueryBuilder: jest.Mock; manager: { query: jest.Mock } };
+  let collectionRepository: { find: jest.Mock };
+  let recordQb: any;
+  let salesQb: any;
+
+  const machine = { id: 'machine-1', code: 'A01', name: 'Lobby', location: 'Main st', isActive: true } as Machine;
+
+  const collection = (id: string, collectedAt: string, amount: number, distance: number | null = null) => ({
+    id,
+    collectedAt: new Date(collectedAt),
+    amount,
+    distanceFromMachine: distance,
+    operator: { name: 'Ali' },
+  });
+
+  beforeEach(async () => {
+    salesQb = {
+      select: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      setParameters: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      getRawMany: jest.fn().mockResolvedValue([
+        { month: '2025-08', cash: '300000', card: '100000', ordersCount: '40' },
+        { month: '2025-09', cash: '300000', card: '100000', ordersCount: '38' },
+      ]),
+    };
+    recordQb = {
+      distinctOn: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([
+        { collectionId: 'c2', status: 'shortage', difference: '15000' },
+        { collectionId: 'c3', status: 'overage', difference: '-2000' },
+        { collectionId: 'c4', status: 'shortage', difference: '5000' },
+      ]),
+    };
+    machinesService = { findByIdOrFail: jest.fn().mockResolvedValue(machine) };
+    locationRepository = {
+      find: jest.fn().mockResolvedValue([
+        { id: 'loc-1', address: 'Old mall', validFrom: '2025-01-01', validTo: '2025-01-10', isCurrent: false },
+        { id: 'loc-2', address: 'Main st', validFrom: '2025-01-11', validTo: null, isCurrent: true },
+      ]),
+    };
+    salesOrderRepository = {
+      createQueryBuilder: jest.fn().mockReturnValue(salesQb),
+      manager: { query: jest.fn().mockResolvedValue([{ id: 'loc-1', revenue: '500000', ordersCount: '50' }]) },
+    };
+    collectionRepository = {
+      find: jest.fn().mockResolvedValue([
+        collection('c1', '2025-09-01T10:00:00Z', 200000),
+        collection('c2', '2025-09-04T10:00:00Z', 150000, 20),
+        collection('c3', '2025-09-08T10:00:00Z', 180000, 420),
+        collection('c4', '2025-09-13T10:00:00Z', 100000),
+      ]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MachineScorecardService,
+        { provide: MachinesService, useValue: machinesService },
+        { provide: getRepositoryToken(MachineLocation), useValue: locationRepository },
+        { provide: getRepositoryToken(SalesOrder), useValue: salesOrderRepository },
+        { provide: getRepositoryToken(Collection), useValue: collectionRepository },
+        { provide: getRepositoryToken(ReconciliationRecord), useValue: { createQueryBuilder: jest.fn().mockReturnValue(recordQb) } },
+        {
+          provide: SettingsService,
+          useValue: { getAppSettings: jest.fn().mockResolvedValue({ collectionDistanceMeters: 100 }) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MachineScorecardService>(MachineScorecardService);
+  });
+
+  it('should combine sales, collections and discrepancies for the period', async () => {
+    const result = await service.getScorecard('machine-1', { from: '2025-08-01', to: '2025-09-30' });
+
+    expect(result.period).toEqual({ from: '2025-08-01', to: '2025-09-30' });
+    expect(result.revenue).toEqual({ total: 800000, cash: 600000, card: 200000, ordersCount: 78, cashShare: 75 });
+    expect(result.revenueTrend).toHaveLength(2);
+    expect(result.collections).toMatchObject({ count: 4, totalAmount: 630000, averageDaysBetween: 4 });
+    expect(result.discrepancies).toEqual({
+      reconciledCount: 3,
+      shortageCount: 2,
+      cumulativeShortage: 20000,
+      overageCount: 1,
+      cumulativeOverage: 2000,
+    });
+    expect(recordQb.where).toHaveBeenCalledWith('r.collectionId IN (:...collectionIds)', {
+      collectionIds: ['c1', 'c2', 'c3', 'c4'],
+    });
+  });
+
+  it('should flag collections made beyond the distance threshold', async () => {
+    const result = await service.getScorecard('machine-1', {});
+
+    expect(result.distance.thresholdMeters).toBe(100);
+    expect(result.distance.checkedCount).toBe(2);
+    expect(result.distance.anomalies).toEqual([
+      { collectionId: 'c3', collectedAt: '2025-09-08T10:00:00.000Z', distanceMeters: 420, operatorName: 'Ali' },
+    ]);
+  });
+
+  it('should report revenue per location period', async () => {
+    const result = await service.getScorecard('machine-1', {});
+
+    expect(result.locations[0]).toMatchObject({
+      address: 'Old mall',
+      days: 10,
+      revenue: 500000,
+      ordersCount: 50,
+      revenuePerDay: 50000,
+    });
+    expect(result.locations[1]).toMatchObject({ address: 'Main st', validTo: null, revenue: 0, ordersCount: 0 });
+  });
+
+  it('should skip the reconciliation lookup when there are no collections', async () => {
+    collectionRepository.find.mockResolvedValue([]);
+
+    const result = await service.getScorecard('machine-1', {});
+
+    expect(result.collections).toEqual({ count: 0, totalAmount: 0, averageDaysBetween: null, lastCollectedAt: null });
+    expect(result.discrepancies.reconciledCount).toBe(0);
+    expect(recordQb.getMany).not.toHaveBeenCalled();
+  });
+
+  it('should propagate NotFoundException for an unknown machine', async () => {
+    machinesService.findByIdOrFail.mockRejectedValue(new NotFoundException('Machine not found'));
+
+    await expect(service.getScorecard('missing', {})).rejects.toThrow(NotFoundException);
+  });
+});
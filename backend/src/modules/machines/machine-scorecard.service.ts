@@ -0,0 +1,266 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, Between } from 'typeorm';
+import { Machine } from './entities/machine.entity';
+import { MachineLocation } from './entities/machine-location.entity';
+import { MachinesService } from './machines.service';
+import { MachineScorecardQueryDto } from './dto/machine-scorecard.dto';
+import { SalesOrder, PaymentMethod, PaymentStatus } from '../sales/entities/sales-order.entity';
+import { ReconciliationRecord } from '../sales/entities/reconciliation-record.entity';
+import { Collection, CollectionStatus } from '../collections/entities/collection.entity';
+import { SettingsService } from '../settings/settings.service';
+import {
+  startOfDayTashkent,
+  endOfDayTashkent,
+  toTashkentDateString,
+  PG_TASHKENT_TZ,
+} from '../../common/utils/timezone';
+
+export interface MachineScorecard {
+  machine: { id: string; code: string; name: string; location: string | null; isActive: boolean };
+  period: { from: string; to: string };
+  revenue: {
+    total: number;
+    cash: number;
+    card: number;
+    ordersCount: number;
+    /** Cash share of revenue, % */
+    cashShare: number;
+  };
+  /** Paid sales per calendar month (Tashkent time) */
+  revenueTrend: Array<{ month: string; cash: number; card: number; total: number; ordersCount: number }>;
+  collections: {
+    count: number;
+    totalAmount: number;
+    averageDaysBetween: number | null;
+    lastCollectedAt: string | null;
+  };
+  /** From the latest reconciliation snapshot of each collection in the period */
+  discrepancies: {
+    reconciledCount: number;
+    shortageCount: number;
+    cumulativeShortage: number;
+    overageCount: number;
+    cumulativeOverage: number;
+  };
+  distance: {
+    thresholdMeters: number;
+    checkedCount: number;
+    anomalies: Array<{ collectionId: string; collectedAt: string; distanceMeters: number; operatorName: string | null }>;
+  };
+  /** Whole validity of each address, regardless of the requested period */
+  locations: Array<{
+    id: string;
+    address: string;
+    validFrom: string;
+    validTo: string | null;
+    isCurrent: boolean;
+    days: number;
+    revenue: number;
+    ordersCount: number;
+    revenuePerDay: number;
+  }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** `date` columns come back as strings or Dates depending on the driver setup */
+const toDateString = (value: Date | string): string =>
+  typeof value === 'string' ? value.split('T')[0] : value.toISOString().split('T')[0];
+
+// Orders are linked by machine id once the code is resolved; older or
+// unresolved rows only carry the code
+const MACHINE_ORDERS = '(so.machine_id = :machineId OR (so.machine_id IS NULL AND LOWER(so.machine_code) = LOWER(:machineCode)))';
+
+/**
+ * One-stop performance view of a machine: sales, collections, reconciliation
+ * outcome, GPS anomalies and how each location performed.
+ */
+@Injectable()
+export class MachineScorecardService {
+  constructor(
+    private readonly machinesService: MachinesService,
+    @InjectRepository(MachineLocation)
+    private readonly locationRepository: Repository<MachineLocation>,
+    @InjectRepository(SalesOrder)
+    private readonly salesOrderRepository: Repository<SalesOrder>,
+    @InjectRepository(Collection)
+    private readonly collectionRepository: Repository<Collection>,
+    @InjectRepository(ReconciliationRecord)
+    private readonly recordRepository: Repository<ReconciliationRecord>,
+    private readonly settingsService: SettingsService,
+  ) {}
+
+  async getScorecard(machineId: string, query: MachineScorecardQueryDto): Promise<MachineScorecard> {
+    const machine = await this.machinesService.findByIdOrFail(machineId);
+    const toDate = query.to || toTashkentDateString(new Date());
+    const fromDate = query.from || toTashkentDateString(new Date(Date.now() - 365 * DAY_MS));
+    const from = startOfDayTashkent(fromDate);
+    const to = endOfDayTashkent(toDate);
+
+    const [revenueTrend, collections, locations, settings] = await Promise.all([
+      this.getRevenueTrend(machine, from, to),
+      this.collectionRepository.find({
+        where: { machineId, status: CollectionStatus.RECEIVED, collectedAt: Between(from, to) },
+        relations: ['operator'],
+        order: { collectedAt: 'ASC' },
+      }),
+      this.getLocations(machine),
+      this.settingsService.getAppSettings(),
+    ]);
+
+    const revenue = revenueTrend.reduce(
+      (acc, m) => ({
+        total: acc.total + m.total,
+        cash: acc.cash + m.cash,
+        card: acc.card + m.card,
+        ordersCount: acc.ordersCount + m.ordersCount,
+      }),
+      { total: 0, cash: 0, card: 0, ordersCount: 0 },
+    );
+
+    const gaps = collections.slice(1).map((c, i) => c.collectedAt.getTime() - collections[i].collectedAt.getTime());
+    const thresholdMeters = settings.collectionDistanceMeters;
+    const withDistance = collections.filter((c) => c.distanceFromMachine !== null && c.distanceFromMachine !== undefined);
+
+    return {
+      machine: {
+        id: machine.id,
+        code: machine.code,
+        name: machine.name,
+        location: machine.location || null,
+        isActive: machine.isActive,
+      },
+      period: { from: fromDate, to: toDate },
+      revenue: {
+        total: round2(revenue.total),
+        cash: round2(revenue.cash),
+        card: round2(revenue.card),
+        ordersCount: revenue.ordersCount,
+        cashShare: revenue.total > 0 ? round2((revenue.cash / revenue.total) * 100) : 0,
+      },
+      revenueTrend,
+      collections: {
+        count: collections.length,
+        totalAmount: round2(collections.reduce((sum, c) => sum + Number(c.amount || 0), 0)),
+        averageDaysBetween: gaps.length > 0
+          ? Math.round((gaps.reduce((a, b) => a + b, 0) / gaps.length / DAY_MS) * 10) / 10
+          : null,
+        lastCollectedAt: collections.length > 0 ? collections[collections.length - 1].collectedAt.toISOString() : null,
+      },
+      discrepancies: await this.getDiscrepancies(collections.map((c) => c.id)),
+      distance: {
+        thresholdMeters,
+        checkedCount: withDistance.length,
+        anomalies: withDistance
+          .filter((c) => Number(c.distanceFromMachine) > thresholdMeters)
+          .map((c) => ({
+            collectionId: c.id,
+            collectedAt: c.collectedAt.toISOString(),
+            distanceMeters: Math.round(Number(c.distanceFromMachine)),
+            operatorName: c.operator?.name ?? null,
+          }))
+          .reverse(),
+      },
+      locations,
+    };
+  }
+
+  private async getRevenueTrend(machine: Machine, from: Date, to: Date): Promise<MachineScorecard['revenueTrend']> {
+    const month = `TO_CHAR(so.orderDate AT TIME ZONE 'UTC' AT TIME ZONE '${PG_TASHKENT_TZ}', 'YYYY-MM')`;
+    const rows = await this.salesOrderRepository
+      .createQueryBuilder('so')
+      .select([
+        `${month} AS "month"`,
+        `COALESCE(SUM(CASE WHEN so.paymentMethod = :cash THEN so.price ELSE 0 END), 0) AS "cash"`,
+        `COALESCE(SUM(CASE WHEN so.paymentMethod = :card THEN so.price ELSE 0 END), 0) AS "card"`,
+        'COUNT(*) AS "ordersCount"',
+      ])
+      .where(MACHINE_ORDERS, { machineId: machine.id, machineCode: machine.code })
+      .andWhere('so.paymentStatus = :paid', { paid: PaymentStatus.PAID })
+      .andWhere('so.orderDate BETWEEN :from AND :to', { from, to })
+      .setParameters({ cash: PaymentMethod.CASH, card: PaymentMethod.CARD })
+      .groupBy(month)
+      .orderBy('"month"', 'ASC')
+      .getRawMany();
+
+    return rows.map((r) => {
+      const cash = round2(Number(r.cash));
+      const card = round2(Number(r.card));
+      return { month: r.month, cash, card, total: round2(cash + card), ordersCount: parseInt(r.ordersCount) || 0 };
+    });
+  }
+
+  private async getDiscrepancies(collectionIds: string[]): Promise<MachineScorecard['discrepancies']> {
+    const result = { reconciledCount: 0, shortageCount: 0, cumulativeShortage: 0, overageCount: 0, cumulativeOverage: 0 };
+    if (collectionIds.length === 0) return result;
+
+    // Collections are reconciled again on every run; only the latest snapshot counts
+    const records = await this.recordRepository
+      .createQueryBuilder('r')
+      .distinctOn(['r.collectionId'])
+      .where('r.collectionId IN (:...collectionIds)', { collectionIds })
+      .orderBy('r.collectionId')
+      .addOrderBy('r.createdAt', 'DESC')
+      .getMany();
+
+    for (const record of records) {
+      const difference = Number(record.difference);
+      result.reconciledCount++;
+      if (record.status === 'shortage') {
+        result.shortageCount++;
+        result.cumulativeShortage += difference;
+      } else if (record.status === 'overage') {
+        result.overageCount++;
+        result.cumulativeOverage += -difference;
+      }
+    }
+    result.cumulativeShortage = round2(result.cumulativeShortage);
+    result.cumulativeOverage = round2(result.cumulativeOverage);
+    return result;
+  }
+
+  private async getLocations(machine: Machine): Promise<MachineScorecard['locations']> {
+    const locations = await this.locationRepository.find({
+      where: { machineId: machine.id },
+      order: { validFrom: 'ASC' },
+    });
+    if (locations.length === 0) return [];
+
+    const localDate = `(so.order_date AT TIME ZONE 'UTC' AT TIME ZONE '${PG_TASHKENT_TZ}')::date`;
+    const rows: Array<{ id: string; revenue: string; ordersCount: string }> = await this.salesOrderRepository.manager.query(
+      `SELECT ml.id, COALESCE(SUM(so.price), 0) AS "revenue", COUNT(so.id) AS "ordersCount"
+       FROM machine_locations ml
+       LEFT JOIN sales_orders so
+         ON (so.machine_id = $1 OR (so.machine_id IS NULL AND LOWER(so.machine_code) = LOWER($2)))
+         AND so.payment_status = $3
+         AND ${localDate} >= ml.valid_from
+         AND (ml.valid_to IS NULL OR ${localDate} <= ml.valid_to)
+       WHERE ml.machine_id = $1
+       GROUP BY ml.id`,
+      [machine.id, machine.code, PaymentStatus.PAID],
+    );
+    const totals = new Map(rows.map((r) => [r.id, r]));
+    const today = toTashkentDateString(new Date());
+
+    return locations.map((loc) => {
+      const validFrom = toDateString(loc.validFrom);
+      const validTo = loc.validTo ? toDateString(loc.validTo) : null;
+      const days = Math.max(1, Math.round((new Date(validTo ?? today).getTime() - new Date(validFrom).getTime()) / DAY_MS) + 1);
+      const revenue = round2(Number(totals.get(loc.id)?.revenue ?? 0));
+      return {
+        id: loc.id,
+        address: loc.address,
+        validFrom,
+        validTo,
+        isCurrent: loc.isCurrent,
+        days,
+        revenue,
+        ordersCount: parseInt(totals.get(loc.id)?.ordersCount ?? '0') || 0,
+        revenuePerDay: round2(revenue / days),
+      };
+    });
+  }
+}
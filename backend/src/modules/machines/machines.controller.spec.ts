@@ -1,6 +1,9 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { MachinesController } from './machines.controller';
 import { MachinesService } from './machines.service';
+import { MachineScorecardService } from './machine-scorecard.service';
+import { CashForecastService } from './cash-forecast.service';
+import { RoutePlannerService } from './route-planner.service';
 import { Machine, MachineStatus } from './entities/machine.entity';
 import { User, UserRole } from '../users/entities/user.entity';
 import { CreateMachineDto } from './dto/create-machine.dto';
@@ -98,6 +101,24 @@ describe('MachinesController', () => {
             setCurrentLocation: jest.fn(),
           },
         },
+        {
+          provide: MachineScorecardService,
+          useValue: {
+            getScorecard: jest.fn(),
+          },
+        },
+        {
+          provide: CashForecastService,
+          useValue: {
+            getForecast: jest.fn(),
+          },
+        },
+        {
+          provide: RoutePlannerService,
+          useValue: {
+            plan: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
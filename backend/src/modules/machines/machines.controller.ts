@@ -7,6 +7,9 @@ import {
   Body,
   Param,
   Query,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -15,6 +18,9 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { MachinesService } from './machines.service';
+import { MachineScorecardService } from './machine-scorecard.service';
+import { CashForecastService } from './cash-forecast.service';
+import { RoutePlannerService } from './route-planner.service';
 import { Roles } from '../../common/decorators/roles.decorator';
 import { RequireModule } from '../../common/decorators/require-module.decorator';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
@@ -22,6 +28,8 @@ import { UserRole, User } from '../users/entities/user.entity';
 import { CreateMachineDto } from './dto/create-machine.dto';
 import { UpdateMachineDto } from './dto/update-machine.dto';
 import { RejectMachineDto } from './dto/reject-machine.dto';
+import { MachineScorecardQueryDto } from './dto/machine-scorecard.dto';
+import { PlanRouteDto } from './dto/plan-route.dto';
 import {
   CreateMachineLocationDto,
   UpdateMachineLocationDto,
@@ -32,7 +40,12 @@ import {
 @ApiBearerAuth()
 @RequireModule('machines')
 export class MachinesController {
-  constructor(private readonly machinesService: MachinesService) {}
+  constructor(
+    private readonly machinesService: MachinesService,
+    private readonly scorecardService: MachineScorecardService,
+    private readonly cashForecastService: CashForecastService,
+    private readonly routePlannerService: RoutePlannerService,
+  ) {}
 
   @Get()
   @ApiOperation({ summary: 'Get all machines' })
@@ -60,6 +73,31 @@ export class MachinesController {
     return this.machinesService.findPending();
   }
 
+  @Get('cash-forecast')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Get expected cash per machine and which to collect today' })
+  async getCashForecast() {
+    return this.cashForecastService.getForecast();
+  }
+
+  @Post('route')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Order machines into a short visiting route' })
+  async planRoute(@Body() dto: PlanRouteDto) {
+    return this.routePlannerService.plan(dto);
+  }
+
+  @Get(':id/scorecard')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Get machine performance: sales, collections, discrepancies, locations' })
+  async getScorecard(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: MachineScorecardQueryDto,
+  ) {
+    return this.scorecardService.getScorecard(id, query);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get machine by ID' })
   async findOne(@Param('id') id: string) {
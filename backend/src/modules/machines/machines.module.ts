@@ -4,11 +4,21 @@ import { Machine } from './entities/machine.entity';
 import { MachineLocation } from './entities/machine-location.entity';
 import { MachinesController } from './machines.controller';
 import { MachinesService } from './machines.service';
+import { MachineScorecardService } from './machine-scorecard.service';
+import { CashForecastService } from './cash-forecast.service';
+import { RoutePlannerService } from './route-planner.service';
+import { SalesOrder } from '../sales/entities/sales-order.entity';
+import { ReconciliationRecord } from '../sales/entities/reconciliation-record.entity';
+import { Collection } from '../collections/entities/collection.entity';
+import { SettingsModule } from '../settings/settings.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Machine, MachineLocation])],
+  imports: [
+    TypeOrmModule.forFeature([Machine, MachineLocation, SalesOrder, Collection, ReconciliationRecord]),
+    SettingsModule,
+  ],
   controllers: [MachinesController],
-  providers: [MachinesService],
-  exports: [MachinesService],
+  providers: [MachinesService, MachineScorecardService, CashForecastService, RoutePlannerService],
+  exports: [MachinesService, CashForecastService, RoutePlannerService],
 })
 export class MachinesModule {}
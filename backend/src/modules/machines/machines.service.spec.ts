@@ -9,11 +9,17 @@ import {
 import { MachinesService } from './machines.service';
 import { Machine, MachineStatus } from './entities/machine.entity';
 import { MachineLocation } from './entities/machine-location.entity';
+import { NotificationsGateway } from '../../notifications/notifications.gateway';
 
 describe('MachinesService', () => {
   let service: MachinesService;
   let machineRepository: jest.Mocked<Repository<Machine>>;
   let locationRepository: jest.Mocked<Repository<MachineLocation>>;
+  let notificationsGateway: {
+    notifyMachinePending: jest.Mock;
+    notifyMachineApproved: jest.Mock;
+    notifyMachineRejected: jest.Mock;
+  };
 
   // Factory functions that return fresh objects every time, preventing
   // cross-test mutation issues caused by Object.assign in the service.
@@ -155,12 +161,21 @@ describe('MachinesService', () => {
             createQueryRunner: jest.fn().mockReturnValue(mockQueryRunner),
           },
         },
+        {
+          provide: NotificationsGateway,
+          useValue: {
+            notifyMachinePending: jest.fn().mockResolvedValue(undefined),
+            notifyMachineApproved: jest.fn().mockResolvedValue(undefined),
+            notifyMachineRejected: jest.fn().mockResolvedValue(undefined),
+          },
+        },
       ],
     }).compile();
 
     service = module.get<MachinesService>(MachinesService);
     machineRepository = module.get(getRepositoryToken(Machine));
     locationRepository = module.get(getRepositoryToken(MachineLocation));
+    notificationsGateway = module.get(NotificationsGateway);
   });
 
   it('should be defined', () => {
@@ -273,6 +288,7 @@ describe('MachinesService', () => {
         status: MachineStatus.PENDING,
         createdById: userId,
       });
+      expect(notificationsGateway.notifyMachinePending).toHaveBeenCalledWith(pendingMachine);
     });
 
     it('should throw ConflictException when code already exists', async () => {
@@ -610,6 +626,30 @@ describe('MachinesService', () => {
         service.approve('non-existent', 'admin-123'),
       ).rejects.toThrow(NotFoundException);
     });
+
+    it('should notify the operator who submitted the machine', async () => {
+      const approvedMachine = createMockMachine({ createdById: 'operator-1' });
+      machineRepository.findOne.mockResolvedValue(
+        createMockMachine({ status: MachineStatus.PENDING, createdById: 'operator-1' }),
+      );
+      machineRepository.save.mockResolvedValue(approvedMachine);
+
+      await service.approve('machine-123', 'admin-123');
+
+      expect(notificationsGateway.notifyMachineApproved).toHaveBeenCalledWith(approvedMachine, 'operator-1');
+    });
+
+    it('should not fail the approval when the notification fails', async () => {
+      machineRepository.findOne.mockResolvedValue(
+        createMockMachine({ status: MachineStatus.PENDING, createdById: 'operator-1' }),
+      );
+      machineRepository.save.mockResolvedValue(createMockMachine({ createdById: 'operator-1' }));
+      notificationsGateway.notifyMachineApproved.mockRejectedValue(new Error('DB down'));
+
+      const result = await service.approve('machine-123', 'admin-123');
+
+      expect(result.status).toBe(MachineStatus.APPROVED);
+    });
   });
 
   // ===========================================================================
@@ -662,6 +702,18 @@ describe('MachinesService', () => {
         service.reject('non-existent', 'admin-123', 'reason'),
       ).rejects.toThrow(NotFoundException);
     });
+
+    it('should notify the operator who submitted the machine', async () => {
+      const rejectedMachine = createMockMachine({ status: MachineStatus.REJECTED, createdById: 'operator-1' });
+      machineRepository.findOne.mockResolvedValue(
+        createMockMachine({ status: MachineStatus.PENDING, createdById: 'operator-1' }),
+      );
+      machineRepository.save.mockResolvedValue(rejectedMachine);
+
+      await service.reject('machine-123', 'admin-123', 'Duplicate');
+
+      expect(notificationsGateway.notifyMachineRejected).toHaveBeenCalledWith(rejectedMachine, 'operator-1');
+    });
   });
 
   // ===========================================================================
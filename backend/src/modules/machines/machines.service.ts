@@ -3,11 +3,13 @@ import {
   NotFoundException,
   ConflictException,
   BadRequestException,
+  Logger,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, DataSource } from 'typeorm';
 import { Machine, MachineStatus } from './entities/machine.entity';
 import { MachineLocation } from './entities/machine-location.entity';
+import { NotificationsGateway } from '../../notifications/notifications.gateway';
 import { CreateMachineDto } from './dto/create-machine.dto';
 import { UpdateMachineDto } from './dto/update-machine.dto';
 import {
@@ -17,14 +19,30 @@ import {
 
 @Injectable()
 export class MachinesService {
+  private readonly logger = new Logger(MachinesService.name);
+
   constructor(
     @InjectRepository(Machine)
     private readonly machineRepository: Repository<Machine>,
     @InjectRepository(MachineLocation)
     private readonly locationRepository: Repository<MachineLocation>,
     private readonly dataSource: DataSource,
+    private readonly notificationsGateway: NotificationsGateway,
   ) {}
 
+  /**
+   * Send a web notification about a machine. A failed notification must not
+   * undo the change, which is already saved.
+   */
+  private async notifyWeb(machine: Machine, send: () => Promise<void>): Promise<void> {
+    try {
+      await send();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Failed to notify about machine ${machine.code}: ${message}`);
+    }
+  }
+
   async create(createMachineDto: CreateMachineDto): Promise<Machine> {
     const existing = await this.machineRepository.findOne({
       where: { code: createMachineDto.code },
@@ -58,7 +76,9 @@ export class MachinesService {
       status: MachineStatus.PENDING,
       createdById: userId,
     });
-    return this.machineRepository.save(machine);
+    const saved = await this.machineRepository.save(machine);
+    await this.notifyWeb(saved, () => this.notificationsGateway.notifyMachinePending(saved));
+    return saved;
   }
 
   async findAll(activeOnly = true, approvedOnly = true, limit = 500): Promise<Machine[]> {
@@ -135,7 +155,11 @@ export class MachinesService {
     machine.approvedById = adminId;
     machine.approvedAt = new Date();
 
-    return this.machineRepository.save(machine);
+    const saved = await this.machineRepository.save(machine);
+    if (saved.createdById) {
+      await this.notifyWeb(saved, () => this.notificationsGateway.notifyMachineApproved(saved, saved.createdById));
+    }
+    return saved;
   }
 
   async reject(id: string, adminId: string, reason: string): Promise<Machine> {
@@ -150,7 +174,11 @@ export class MachinesService {
     machine.approvedAt = new Date();
     machine.rejectionReason = reason;
 
-    return this.machineRepository.save(machine);
+    const saved = await this.machineRepository.save(machine);
+    if (saved.createdById) {
+      await this.notifyWeb(saved, () => this.notificationsGateway.notifyMachineRejected(saved, saved.createdById));
+    }
+    return saved;
   }
 
   async update(
@@ -0,0 +1,114 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { RoutePlannerService, orderStops } from './route-planner.service';
+import { CashForecastService } from './cash-forecast.service';
+import { Machine } from './entities/machine.entity';
+import { MAX_ROUTE_MACHINES } from './dto/plan-route.dto';
+
+// Points along one street, about 1 km apart
+const point = (name: string, longitude: number) => ({ name, latitude: 41.3, longitude });
+
+describe('orderStops', () => {
+  it('should visit points along a line from the start outwards', () => {
+    const points = [point('c', 69.22), point('a', 69.2), point('d', 69.23), point('b', 69.21)];
+
+    const order = orderStops(points, { latitude: 41.3, longitude: 69.19 });
+
+    expect(order.map((p) => p.name)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('should pick the best end to start from without a start point', () => {
+    const points = [point('c', 69.22), point('a', 69.2), point('d', 69.23), point('b', 69.21)];
+
+    const order = orderStops(points).map((p) => p.name);
+
+    expect([order, [...order].reverse()]).toContainEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('should fix the detour the greedy pass takes', () => {
+    // Greedy takes the nearest point ahead, then doubles back past the start
+    const points = [point('ahead', 69.21), point('behind', 69.188), point('far', 69.25)];
+
+    const order = orderStops(points, { latitude: 41.3, longitude: 69.2 });
+
+    expect(order.map((p) => p.name)).toEqual(['behind', 'ahead', 'far']);
+  });
+
+  it('should visit every point of a full route without a start point', () => {
+    const points = Array.from({ length: 50 }, (_, i) => ({
+      name: `p${i}`,
+      latitude: 41.25 + ((i * 37) % 50) / 500,
+      longitude: 69.2 + ((i * 17) % 50) / 500,
+    }));
+
+    const order = orderStops(points);
+
+    expect(order).toHaveLength(50);
+    expect(new Set(order.map((p) => p.name)).size).toBe(50);
+  });
+});
+
+describe('RoutePlannerService', () => {
+  let service: RoutePlannerService;
+  let machineRepository: { find: jest.Mock };
+  let cashForecastService: { getForecast: jest.Mock };
+
+  const machine = (id: string, longitude: number | null) =>
+    ({ id, code: id.toUpperCase(), name: `Machine ${id}`, location: null, latitude: longitude === null ? null : 41.3, longitude }) as unknown as Machine;
+
+  beforeEach(async () => {
+    machineRepository = {
+      find: jest.fn().mockResolvedValue([machine('m2', 69.22), machine('m1', 69.21), machine('m3', null)]),
+    };
+    cashForecastService = {
+      getForecast: jest.fn().mockResolvedValue([
+        { machine: { id: 'm1' }, collectToday: true },
+        { machine: { id: 'm2' }, collectToday: true },
+        { machine: { id: 'm9' }, collectToday: false },
+      ]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoutePlannerService,
+        { provide: getRepositoryToken(Machine), useValue: machineRepository },
+        { provide: CashForecastService, useValue: cashForecastService },
+      ],
+    }).compile();
+
+    service = module.get<RoutePlannerService>(RoutePlannerService);
+  });
+
+  it('should plan the machines due today when none are given', async () => {
+    const route = await service.plan({ startLatitude: 41.3, startLongitude: 69.2 });
+
+    expect(machineRepository.find.mock.calls[0][0].where.id.value).toEqual(['m1', 'm2']);
+    expect(route.stops.map((s) => [s.order, s.machine.id])).toEqual([[1, 'm1'], [2, 'm2']]);
+    expect(route.stops[0].distanceFromPreviousMeters).toBeGreaterThan(800);
+    expect(route.totalDistanceMeters).toBe(
+      route.stops[0].distanceFromPreviousMeters + route.stops[1].distanceFromPreviousMeters,
+    );
+    expect(route.skipped).toEqual([{ id: 'm3', code: 'M3', name: 'Machine m3' }]);
+  });
+
+  it('should plan at most MAX_ROUTE_MACHINES of the machines due today', async () => {
+    cashForecastService.getForecast.mockResolvedValue(
+      Array.from({ length: MAX_ROUTE_MACHINES + 10 }, (_, i) => ({ machine: { id: `m${i}` }, collectToday: true })),
+    );
+
+    await service.plan({});
+
+    const ids = machineRepository.find.mock.calls[0][0].where.id.value;
+    expect(ids).toHaveLength(MAX_ROUTE_MACHINES);
+    expect(ids[0]).toBe('m0');
+  });
+
+  it('should use the given machines and skip the forecast', async () => {
+    const route = await service.plan({ machineIds: ['m1', 'm2', 'm3'] });
+
+    expect(cashForecastService.getForecast).not.toHaveBeenCalled();
+    expect(route.start).toBeNull();
+    expect(route.stops).toHaveLength(2);
+    expect(route.stops[0].distanceFromPreviousMeters).toBe(0);
+  });
+});
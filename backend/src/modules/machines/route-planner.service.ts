@@ -0,0 +1,172 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Machine } from './entities/machine.entity';
+import { CashForecastService } from './cash-forecast.service';
+import { PlanRouteDto, MAX_ROUTE_MACHINES } from './dto/plan-route.dto';
+import { GeoPoint, haversineMeters } from '../../common/utils/geo';
+
+export interface RouteStop {
+  order: number;
+  machine: { id: string; code: string; name: string; location: string | null };
+  latitude: number;
+  longitude: number;
+  distanceFromPreviousMeters: number;
+}
+
+export interface PlannedRoute {
+  start: GeoPoint | null;
+  stops: RouteStop[];
+  totalDistanceMeters: number;
+  /** Machines left out because they have no coordinates */
+  skipped: Array<{ id: string; code: string; name: string }>;
+}
+
+/** Upper bound on 2-opt passes; each pass is O(n²) */
+const MAX_TWO_OPT_PASSES = 50;
+
+/** Without a start point only this many candidates are tried as the first stop */
+const MAX_FIRST_STOP_CANDIDATES = 6;
+
+const pathLength = (path: GeoPoint[]) =>
+  path.slice(1).reduce((sum, point, i) => sum + haversineMeters(path[i], point), 0);
+
+function nearestNeighbour<T extends GeoPoint>(first: GeoPoint, points: T[]): T[] {
+  const left = [...points];
+  const order: T[] = [];
+  let current = first;
+  while (left.length > 0) {
+    let best = 0;
+    for (let i = 1; i < left.length; i++) {
+      if (haversineMeters(current, left[i]) < haversineMeters(current, left[best])) best = i;
+    }
+    current = left.splice(best, 1)[0];
+    order.push(current as T);
+  }
+  return order;
+}
+
+/**
+ * Improve an open path by reversing segments while that shortens it.
+ * With `fixedStart` the first point never moves.
+ */
+function twoOpt<T extends GeoPoint>(path: T[], fixedStart: boolean): T[] {
+  const result = [...path];
+  const d = (i: number, j: number) =>
+    i < 0 || j >= result.length ? 0 : haversineMeters(result[i], result[j]);
+
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false;
+    for (let i = fixedStart ? 1 : 0; i < result.length - 1; i++) {
+      for (let k = i + 1; k < result.length; k++) {
+        const delta = d(i - 1, k) + d(i, k + 1) - d(i - 1, i) - d(k, k + 1);
+        if (delta < -1e-6) {
+          result.splice(i, k - i + 1, ...result.slice(i, k + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return result;
+}
+
+/**
+ * Visiting order for the points: nearest neighbour, then 2-opt. Without a
+ * start the points farthest from the centre — the likely ends of an open
+ * path — are tried as the first one and the shortest path wins.
+ */
+export function orderStops<T extends GeoPoint>(points: T[], start?: GeoPoint | null): T[] {
+  if (points.length < 2) return [...points];
+
+  if (start) {
+    const path = twoOpt<GeoPoint>([start, ...nearestNeighbour(start, points)], true);
+    return path.slice(1) as T[];
+  }
+
+  const centre = {
+    latitude: points.reduce((sum, p) => sum + p.latitude, 0) / points.length,
+    longitude: points.reduce((sum, p) => sum + p.longitude, 0) / points.length,
+  };
+  const candidates = [...points]
+    .sort((a, b) => haversineMeters(centre, b) - haversineMeters(centre, a))
+    .slice(0, MAX_FIRST_STOP_CANDIDATES);
+
+  let best: T[] = [];
+  let bestLength = Infinity;
+  for (const first of candidates) {
+    const rest = points.filter((p) => p !== first);
+    const path = twoOpt([first, ...nearestNeighbour(first, rest)], false);
+    const length = pathLength(path);
+    if (length < bestLength) {
+      best = path;
+      bestLength = length;
+    }
+  }
+  return best;
+}
+
+/**
+ * Orders the machines an operator should visit, shortest path first, from
+ * straight-line distances — no external routing service involved.
+ */
+@Injectable()
+export class RoutePlannerService {
+  constructor(
+    @InjectRepository(Machine)
+    private readonly machineRepository: Repository<Machine>,
+    private readonly cashForecastService: CashForecastService,
+  ) {}
+
+  /**
+   * Without machine ids plans the machines due for collection today, the
+   * most urgent MAX_ROUTE_MACHINES of them.
+   */
+  async plan(dto: PlanRouteDto): Promise<PlannedRoute> {
+    let machineIds = dto.machineIds;
+    if (!machineIds) {
+      const forecast = await this.cashForecastService.getForecast();
+      machineIds = forecast
+        .filter((f) => f.collectToday)
+        .slice(0, MAX_ROUTE_MACHINES)
+        .map((f) => f.machine.id);
+    }
+    const machines = machineIds.length > 0
+      ? await this.machineRepository.find({ where: { id: In(machineIds) } })
+      : [];
+
+    const start = dto.startLatitude != null && dto.startLongitude != null
+      ? { latitude: dto.startLatitude, longitude: dto.startLongitude }
+      : null;
+
+    const located = machines
+      .filter((m) => m.latitude != null && m.longitude != null)
+      .map((m) => ({ machine: m, latitude: Number(m.latitude), longitude: Number(m.longitude) }));
+    const skipped = machines
+      .filter((m) => m.latitude == null || m.longitude == null)
+      .map((m) => ({ id: m.id, code: m.code, name: m.name }));
+
+    const ordered = orderStops(located, start);
+    let previous: GeoPoint | null = start;
+    let totalDistanceMeters = 0;
+    const stops: RouteStop[] = ordered.map((point, index) => {
+      const distance = previous ? Math.round(haversineMeters(previous, point)) : 0;
+      totalDistanceMeters += distance;
+      previous = point;
+      return {
+        order: index + 1,
+        machine: {
+          id: point.machine.id,
+          code: point.machine.code,
+          name: point.machine.name,
+          location: point.machine.location || null,
+        },
+        latitude: point.latitude,
+        longitude: point.longitude,
+        distanceFromPreviousMeters: distance,
+      };
+    });
+
+    return { start, stops, totalDistanceMeters, skipped };
+  }
+}
@@ -0,0 +1,82 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DigestSchedulerService } from './digest-scheduler.service';
+import { DigestService } from './digest.service';
+import { SettingsService, DigestSettingsDto } from '../settings/settings.service';
+
+describe('DigestSchedulerService', () => {
+  let service: DigestSchedulerService;
+  let digestService: { send: jest.Mock };
+  let settingsService: { getDigestSettings: jest.Mock };
+
+  const settings: DigestSettingsDto = {
+    dailyEnabled: true,
+    weeklyEnabled: true,
+    hour: 9,
+    weeklyDay: 1,
+    sections: ['collections'],
+    pendingHours: 24,
+    staleDays: 7,
+    emailRecipients: [],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DigestSchedulerService,
+        { provide: DigestService, useValue: { send: jest.fn().mockResolvedValue(1) } },
+        { provide: SettingsService, useValue: { getDigestSettings: jest.fn().mockResolvedValue(settings) } },
+      ],
+    }).compile();
+
+    service = module.get(DigestSchedulerService);
+    digestService = module.get(DigestService);
+    settingsService = module.get(SettingsService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should send nothing outside the configured hour', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-02-11T05:00:00.000Z')); // 10:00 Tuesday in Tashkent
+
+    await service.sendScheduledDigests();
+
+    expect(digestService.send).not.toHaveBeenCalled();
+  });
+
+  it('should send only the daily digest on other weekdays', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-02-11T04:10:00.000Z')); // 09:10 Tuesday in Tashkent
+
+    await service.sendScheduledDigests();
+
+    expect(digestService.send).toHaveBeenCalledTimes(1);
+    expect(digestService.send).toHaveBeenCalledWith('daily', expect.any(Date));
+  });
+
+  it('should add the weekly digest on the configured weekday', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-02-10T04:00:00.000Z')); // 09:00 Monday in Tashkent
+
+    await service.sendScheduledDigests();
+
+    expect(digestService.send).toHaveBeenCalledWith('daily', expect.any(Date));
+    expect(digestService.send).toHaveBeenCalledWith('weekly', expect.any(Date));
+  });
+
+  it('should use the Tashkent date for the weekday', async () => {
+    settingsService.getDigestSettings.mockResolvedValue({ ...settings, hour: 0, dailyEnabled: false });
+    jest.useFakeTimers().setSystemTime(new Date('2025-02-09T19:30:00.000Z')); // Sunday in UTC, 00:30 Monday in Tashkent
+
+    await service.sendScheduledDigests();
+
+    expect(digestService.send).toHaveBeenCalledTimes(1);
+    expect(digestService.send).toHaveBeenCalledWith('weekly', expect.any(Date));
+  });
+
+  it('should not throw when sending fails', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-02-11T04:00:00.000Z'));
+    digestService.send.mockRejectedValue(new Error('DB down'));
+
+    await expect(service.sendScheduledDigests()).resolves.toBeUndefined();
+  });
+});
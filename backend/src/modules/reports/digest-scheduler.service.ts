@@ -0,0 +1,37 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DigestService } from './digest.service';
+import { SettingsService } from '../settings/settings.service';
+import { PG_TASHKENT_TZ, tashkentMinutesOfDay, toTashkentDateString } from '../../common/utils/timezone';
+
+// Runs every hour and sends only at the hour set in settings, so changing
+// the send time needs no restart.
+@Injectable()
+export class DigestSchedulerService {
+  private readonly logger = new Logger(DigestSchedulerService.name);
+
+  constructor(
+    private readonly digestService: DigestService,
+    private readonly settingsService: SettingsService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_HOUR, { timeZone: PG_TASHKENT_TZ })
+  async sendScheduledDigests() {
+    try {
+      const now = new Date();
+      const settings = await this.settingsService.getDigestSettings();
+      if (Math.floor(tashkentMinutesOfDay(now) / 60) !== settings.hour) return;
+
+      if (settings.dailyEnabled) {
+        await this.digestService.send('daily', now);
+      }
+      // ISO weekday of the Tashkent date: Monday = 1 … Sunday = 7
+      const weekday = new Date(toTashkentDateString(now)).getUTCDay() || 7;
+      if (settings.weeklyEnabled && weekday === settings.weeklyDay) {
+        await this.digestService.send('weekly', now);
+      }
+    } catch (error) {
+      this.logger.error('Failed to send digests:', error);
+    }
+  }
+}
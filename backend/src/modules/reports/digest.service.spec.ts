@@ -0,0 +1,265 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DigestService, DigestReport } from './digest.service';
+import { Collection } from '../collections/entities/collection.entity';
+import { FinanceService } from '../finance/finance.service';
+import { SettingsService, DigestSettingsDto } from '../settings/settings.service';
+import { UsersService } from '../users/users.service';
+import { UserRole } from '../users/entities/user.entity';
+import { TelegramService } from '../../telegram/telegram.service';
+import { NotificationPreferencesService } from '../../notifications/notification-preferences.service';
+import { NotificationChannel, NotificationEvent } from '../../notifications/entities/notification-preference.entity';
+import { MailService } from '../../mail/mail.service';
+import { EmailKind } from '../../mail/entities/email-delivery.entity';
+import { ReportsService } from './reports.service';
+
+describe('DigestService', () => {
+  let service: DigestService;
+  let mockQuery: jest.Mock;
+  let financeService: { getBalance: jest.Mock };
+  let settingsService: { getDigestSettings: jest.Mock };
+  let usersService: { findAllActive: jest.Mock };
+  let telegramService: { sendMessage: jest.Mock };
+  let preferencesService: { findDigestEmails: jest.Mock; filterRecipients: jest.Mock };
+  let mailService: { isEnabled: jest.Mock; send: jest.Mock };
+
+  const settings: DigestSettingsDto = {
+    dailyEnabled: true,
+    weeklyEnabled: true,
+    hour: 9,
+    weeklyDay: 1,
+    sections: ['collections', 'pending', 'shortages', 'stale_machines', 'finance'],
+    pendingHours: 24,
+    staleDays: 7,
+    emailRecipients: [],
+  };
+
+  // 09:00 on Feb 11 in Tashkent
+  const now = new Date('2025-02-11T04:00:00.000Z');
+
+  beforeEach(async () => {
+    mockQuery = jest.fn().mockResolvedValue([]);
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DigestService,
+        { provide: getRepositoryToken(Collection), useValue: { manager: { query: mockQuery } } },
+        { provide: FinanceService, useValue: { getBalance: jest.fn() } },
+        { provide: SettingsService, useValue: { getDigestSettings: jest.fn().mockResolvedValue(settings) } },
+        { provide: UsersService, useValue: { findAllActive: jest.fn() } },
+        { provide: TelegramService, useValue: { sendMessage: jest.fn().mockResolvedValue(true) } },
+        {
+          provide: NotificationPreferencesService,
+          useValue: {
+            findDigestEmails: jest.fn().mockResolvedValue([]),
+            filterRecipients: jest.fn(async (users: unknown[]) => users),
+          },
+        },
+        { provide: MailService, useValue: { isEnabled: jest.fn().mockReturnValue(false), send: jest.fn() } },
+        {
+          provide: ReportsService,
+          useValue: {
+            getByMachine: jest.fn().mockResolvedValue({ data: [], totals: { collectionsCount: 0, totalAmount: 0 } }),
+            getByDate: jest.fn().mockResolvedValue({ data: [], totals: { collectionsCount: 0, totalAmount: 0 } }),
+            getByOperator: jest.fn().mockResolvedValue({ data: [], totals: { collectionsCount: 0, totalAmount: 0 } }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(DigestService);
+    financeService = module.get(FinanceService);
+    settingsService = module.get(SettingsService);
+    usersService = module.get(UsersService);
+    telegramService = module.get(TelegramService);
+    preferencesService = module.get(NotificationPreferencesService);
+    mailService = module.get(MailService);
+    financeService.getBalance.mockResolvedValue({ received: 1000000, deposited: 600000, balance: 400000 });
+  });
+
+  describe('build', () => {
+    it('should cover yesterday for the daily digest', async () => {
+      const report = await service.build('daily', { ...settings, sections: ['collections'] }, now);
+
+      expect(report.from).toBe('2025-02-10');
+      expect(report.to).toBe('2025-02-10');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1].slice(0, 2)).toEqual([
+        new Date('2025-02-09T19:00:00.000Z'),
+        new Date('2025-02-10T18:59:59.999Z'),
+      ]);
+    });
+
+    it('should cover the seven days up to yesterday for the weekly digest', async () => {
+      const report = await service.build('weekly', { ...settings, sections: ['collections'] }, now);
+
+      expect(report.from).toBe('2025-02-04');
+      expect(report.to).toBe('2025-02-10');
+    });
+
+    it('should only query the enabled sections', async () => {
+      const report = await service.build('daily', { ...settings, sections: ['finance'] }, now);
+
+      expect(mockQuery).not.toHaveBeenCalled();
+      expect(report.collections).toBeUndefined();
+      expect(report.finance).toEqual({ received: 1000000, deposited: 600000, balance: 400000 });
+    });
+
+    it('should sum pending collections older than the configured hours', async () => {
+      mockQuery.mockResolvedValue([
+        { machineCode: 'A1', machineName: 'Lobby', operatorName: 'Ivan', collectedAt: new Date('2025-02-08T10:00:00Z'), amount: null },
+        { machineCode: 'B2', machineName: 'Hall', operatorName: 'Oleg', collectedAt: new Date('2025-02-09T10:00:00Z'), amount: '50000' },
+      ]);
+
+      const report = await service.build('daily', { ...settings, sections: ['pending'], pendingHours: 48 }, now);
+
+      expect(mockQuery.mock.calls[0][1][2]).toEqual(new Date('2025-02-09T04:00:00.000Z'));
+      expect(report.pending).toEqual({
+        olderThanHours: 48,
+        count: 2,
+        amount: 50000,
+        oldest: [
+          { machineCode: 'A1', machineName: 'Lobby', operatorName: 'Ivan', collectedAt: new Date('2025-02-08T10:00:00Z') },
+          { machineCode: 'B2', machineName: 'Hall', operatorName: 'Oleg', collectedAt: new Date('2025-02-09T10:00:00Z') },
+        ],
+      });
+    });
+
+    it('should total shortages from the latest result of each collection', async () => {
+      mockQuery.mockResolvedValue([
+        { machineCode: 'A1', machineName: 'Lobby', difference: '-30000.00', percentDeviation: '-25.00' },
+        { machineCode: 'B2', machineName: 'Hall', difference: '-5000.00', percentDeviation: '-12.50' },
+      ]);
+
+      const report = await service.build('daily', { ...settings, sections: ['shortages'] }, now);
+
+      expect(mockQuery.mock.calls[0][0]).toContain('DISTINCT ON');
+      expect(report.shortages).toEqual({
+        count: 2,
+        totalDifference: -35000,
+        items: [
+          { machineCode: 'A1', machineName: 'Lobby', difference: -30000, percentDeviation: -25 },
+          { machineCode: 'B2', machineName: 'Hall', difference: -5000, percentDeviation: -12.5 },
+        ],
+      });
+    });
+  });
+
+  describe('format', () => {
+    const report: DigestReport = {
+      period: 'weekly',
+      from: '2025-02-04',
+      to: '2025-02-10',
+      collections: { count: 12, receivedCount: 10, receivedAmount: 2500000 },
+      staleMachines: { days: 7, count: 1, items: [{ code: 'X<1>', name: 'Bar & Grill', lastCollectedAt: null }] },
+      finance: { received: 1000000, deposited: 600000, balance: 400000 },
+    };
+
+    it('should include only the sections present in the report', () => {
+      const message = service.format(report);
+
+      expect(message).toContain('ИТОГИ НЕДЕЛИ');
+      expect(message).toContain('04.02.2025 — 10.02.2025');
+      expect(message).toContain('Инкассации');
+      expect(message).toContain('Финансы');
+      expect(message).not.toContain('Недостачи');
+      expect(message).not.toContain('Ждут приёма');
+    });
+
+    it('should escape machine names', () => {
+      const message = service.format(report);
+
+      expect(message).toContain('Bar &amp; Grill (X&lt;1&gt;) — ни разу');
+    });
+  });
+
+  describe('send', () => {
+    it('should send the digest to managers and admins with Telegram', async () => {
+      usersService.findAllActive.mockResolvedValue([
+        { id: 'u1', telegramId: 111 },
+        { id: 'u2', telegramId: null },
+        { id: 'u3', telegramId: 333 },
+      ]);
+      telegramService.sendMessage.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+      const sent = await service.send('daily', now);
+
+      expect(usersService.findAllActive).toHaveBeenCalledWith([UserRole.MANAGER, UserRole.ADMIN]);
+      expect(telegramService.sendMessage).toHaveBeenCalledTimes(2);
+      expect(telegramService.sendMessage).toHaveBeenCalledWith(111, expect.stringContaining('ДАЙДЖЕСТ'));
+      expect(sent).toBe(1);
+    });
+
+    it('should skip managers who muted the digest on Telegram or are in quiet hours', async () => {
+      usersService.findAllActive.mockResolvedValue([
+        { id: 'u1', telegramId: 111 },
+        { id: 'u3', telegramId: 333 },
+      ]);
+      preferencesService.filterRecipients.mockImplementation(async (users: Array<{ id: string }>) =>
+        users.filter((u) => u.id !== 'u3'),
+      );
+
+      const sent = await service.send('daily', now);
+
+      expect(preferencesService.filterRecipients).toHaveBeenCalledWith(
+        [{ id: 'u1', telegramId: 111 }, { id: 'u3', telegramId: 333 }],
+        NotificationEvent.DIGEST,
+        NotificationChannel.TELEGRAM,
+        now,
+      );
+      expect(telegramService.sendMessage).toHaveBeenCalledTimes(1);
+      expect(telegramService.sendMessage).toHaveBeenCalledWith(111, expect.any(String));
+      expect(sent).toBe(1);
+    });
+
+    it('should send nothing when every section is off', async () => {
+      settingsService.getDigestSettings.mockResolvedValue({ ...settings, sections: [] });
+
+      const sent = await service.send('daily', now);
+
+      expect(sent).toBe(0);
+      expect(usersService.findAllActive).not.toHaveBeenCalled();
+      expect(telegramService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should not look up email addresses while mail is off', async () => {
+      usersService.findAllActive.mockResolvedValue([{ id: 'u1', telegramId: 111 }]);
+
+      await service.send('daily', now);
+
+      expect(preferencesService.findDigestEmails).not.toHaveBeenCalled();
+      expect(mailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should email the digest with the report attached to settings and personal addresses', async () => {
+      mailService.isEnabled.mockReturnValue(true);
+      mailService.send.mockResolvedValue({ status: 'sent' });
+      settingsService.getDigestSettings.mockResolvedValue({ ...settings, emailRecipients: ['Accountant@example.com'] });
+      usersService.findAllActive.mockResolvedValue([{ id: 'u1', telegramId: null }]);
+      preferencesService.findDigestEmails.mockResolvedValue(['boss@example.com', 'accountant@example.com']);
+
+      const sent = await service.send('weekly', now);
+
+      expect(sent).toBe(0);
+      expect(preferencesService.findDigestEmails).toHaveBeenCalledWith(['u1']);
+      const options = mailService.send.mock.calls[0][0];
+      expect(options.kind).toBe(EmailKind.DIGEST);
+      expect(options.to).toEqual(['accountant@example.com', 'boss@example.com']);
+      expect(options.template.subject).toBe('VendCash: итоги недели за 04.02.2025 — 10.02.2025');
+      expect(options.template.html).toContain('Финансы');
+      expect(options.attachments[0].filename).toBe('vendcash-report-2025-02-04_2025-02-10.xlsx');
+      expect(options.attachments[0].content).toBeInstanceOf(Buffer);
+    });
+
+    it('should keep the Telegram result when the email fails', async () => {
+      mailService.isEnabled.mockReturnValue(true);
+      mailService.send.mockRejectedValue(new Error('SMTP down'));
+      settingsService.getDigestSettings.mockResolvedValue({ ...settings, emailRecipients: ['a@example.com'] });
+      usersService.findAllActive.mockResolvedValue([{ id: 'u1', telegramId: 111 }]);
+
+      const sent = await service.send('daily', now);
+
+      expect(sent).toBe(1);
+      expect(mailService.send).toHaveBeenCalled();
+    });
+  });
+});
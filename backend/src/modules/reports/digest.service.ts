@@ -0,0 +1,369 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Collection, CollectionStatus } from '../collections/entities/collection.entity';
+import { MachineStatus } from '../machines/entities/machine.entity';
+import { UserRole } from '../users/entities/user.entity';
+import { UsersService } from '../users/users.service';
+import { FinanceService } from '../finance/finance.service';
+import { SettingsService, DigestSection, DigestSettingsDto } from '../settings/settings.service';
+import { TelegramService } from '../../telegram/telegram.service';
+import { NotificationPreferencesService } from '../../notifications/notification-preferences.service';
+import { NotificationChannel, NotificationEvent } from '../../notifications/entities/notification-preference.entity';
+import { MailService, XLSX_CONTENT_TYPE } from '../../mail/mail.service';
+import { EmailKind } from '../../mail/entities/email-delivery.entity';
+import { digestTemplate } from '../../mail/mail-templates';
+import { ReportsService } from './reports.service';
+import { buildReportWorkbook } from './report-workbook';
+import {
+  startOfDayTashkent,
+  endOfDayTashkent,
+  toTashkentDateString,
+  PG_TASHKENT_TZ,
+} from '../../common/utils/timezone';
+
+export type DigestPeriod = 'daily' | 'weekly';
+
+export interface DigestReport {
+  period: DigestPeriod;
+  /** Tashkent dates the collections and shortages are counted for */
+  from: string;
+  to: string;
+  collections?: { count: number; receivedCount: number; receivedAmount: number };
+  pending?: {
+    olderThanHours: number;
+    count: number;
+    amount: number;
+    oldest: Array<{ machineCode: string; machineName: string; operatorName: string; collectedAt: Date }>;
+  };
+  shortages?: {
+    count: number;
+    totalDifference: number;
+    items: Array<{ machineCode: string; machineName: string; difference: number; percentDeviation: number }>;
+  };
+  staleMachines?: {
+    days: number;
+    count: number;
+    items: Array<{ code: string; name: string; lastCollectedAt: Date | null }>;
+  };
+  finance?: { received: number; deposited: number; balance: number };
+}
+
+/** How many rows of each list make it into the message */
+const LIST_LIMIT = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const shiftDate = (date: string, days: number) =>
+  new Date(new Date(date).getTime() + days * DAY_MS).toISOString().split('T')[0];
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const formatNum = (n: number) => new Intl.NumberFormat('ru-RU').format(Math.round(n));
+
+const formatDate = (date: string | Date) =>
+  new Date(date).toLocaleDateString('ru-RU', { timeZone: PG_TASHKENT_TZ });
+
+const formatDates = (report: Pick<DigestReport, 'from' | 'to'>) =>
+  report.from === report.to ? formatDate(report.from) : `${formatDate(report.from)} — ${formatDate(report.to)}`;
+
+/**
+ * Scheduled summary for managers and admins: one Telegram message with the
+ * numbers that otherwise arrive as separate alerts during the day. When SMTP
+ * is configured the same sections also go out by email, with the period's
+ * Excel report attached.
+ */
+@Injectable()
+export class DigestService {
+  private readonly logger = new Logger(DigestService.name);
+
+  constructor(
+    @InjectRepository(Collection)
+    private readonly collectionRepository: Repository<Collection>,
+    private readonly financeService: FinanceService,
+    private readonly settingsService: SettingsService,
+    private readonly usersService: UsersService,
+    private readonly telegramService: TelegramService,
+    private readonly notificationPreferencesService: NotificationPreferencesService,
+    private readonly mailService: MailService,
+    private readonly reportsService: ReportsService,
+  ) {}
+
+  /**
+   * The daily digest covers yesterday, the weekly one the seven days up to
+   * yesterday. Pending collections, stale machines and the balance are as of `now`.
+   */
+  async build(period: DigestPeriod, settings: DigestSettingsDto, now = new Date()): Promise<DigestReport> {
+    const to = shiftDate(toTashkentDateString(now), -1);
+    const from = period === 'weekly' ? shiftDate(to, -6) : to;
+    const range = { from: startOfDayTashkent(from), to: endOfDayTashkent(to) };
+    const wants = (section: DigestSection) => settings.sections.includes(section);
+
+    const report: DigestReport = { period, from, to };
+    if (wants('collections')) {
+      report.collections = await this.getCollections(range.from, range.to);
+    }
+    if (wants('pending')) {
+      report.pending = await this.getPending(settings.pendingHours, now);
+    }
+    if (wants('shortages')) {
+      report.shortages = await this.getShortages(range.from, range.to);
+    }
+    if (wants('stale_machines')) {
+      report.staleMachines = await this.getStaleMachines(settings.staleDays, now);
+    }
+    if (wants('finance')) {
+      const { received, deposited, balance } = await this.financeService.getBalance();
+      report.finance = { received, deposited, balance };
+    }
+    return report;
+  }
+
+  format(report: DigestReport): string {
+    const title = report.period === 'weekly' ? 'ИТОГИ НЕДЕЛИ' : 'ДАЙДЖЕСТ';
+    const header =
+      `╭─────────────────────╮\n` +
+      `│  📊  <b>${title}</b>\n` +
+      `╰─────────────────────╯\n` +
+      `<i>${formatDates(report)}</i>`;
+
+    return [header, ...this.formatSections(report)].join('\n\n');
+  }
+
+  /** One block per section, in the Telegram HTML subset */
+  formatSections(report: DigestReport): string[] {
+    const parts: string[] = [];
+
+    if (report.collections) {
+      const c = report.collections;
+      parts.push(
+        `<b>💰 Инкассации</b>\n` +
+        `Собрано: <b>${c.count}</b>\n` +
+        `Принято: <b>${c.receivedCount}</b> на <b>${formatNum(c.receivedAmount)} сум</b>`,
+      );
+    }
+
+    if (report.pending) {
+      const p = report.pending;
+      const lines = p.oldest.map(
+        (item) =>
+          `  • ${escapeHtml(item.machineName)} (${escapeHtml(item.machineCode)}) — ` +
+          `${escapeHtml(item.operatorName)}, ${formatDate(item.collectedAt)}`,
+      );
+      parts.push(
+        `<b>⏳ Ждут приёма дольше ${p.olderThanHours} ч</b>\n` +
+        (p.count === 0
+          ? 'Нет'
+          : `<b>${p.count}</b> на ${formatNum(p.amount)} сум\n${lines.join('\n')}` +
+            (p.count > p.oldest.length ? `\n  ... и ещё ${p.count - p.oldest.length}` : '')),
+      );
+    }
+
+    if (report.shortages) {
+      const s = report.shortages;
+      const lines = s.items.map(
+        (item) =>
+          `  • ${escapeHtml(item.machineName || item.machineCode)} (${escapeHtml(item.machineCode)}) — ` +
+          `${formatNum(Math.abs(item.difference))} сум (${Math.abs(item.percentDeviation).toFixed(1)}%)`,
+      );
+      parts.push(
+        `<b>⚠️ Недостачи по сверке</b>\n` +
+        (s.count === 0
+          ? 'Нет'
+          : `<b>${s.count}</b> на ${formatNum(Math.abs(s.totalDifference))} сум\n${lines.join('\n')}` +
+            (s.count > s.items.length ? `\n  ... и ещё ${s.count - s.items.length}` : '')),
+      );
+    }
+
+    if (report.staleMachines) {
+      const m = report.staleMachines;
+      const lines = m.items.map(
+        (item) =>
+          `  • ${escapeHtml(item.name)} (${escapeHtml(item.code)}) — ` +
+          (item.lastCollectedAt ? `с ${formatDate(item.lastCollectedAt)}` : 'ни разу'),
+      );
+      parts.push(
+        `<b>🏧 Без инкассации ${m.days}+ дн.</b>\n` +
+        (m.count === 0
+          ? 'Нет'
+          : `<b>${m.count}</b>\n${lines.join('\n')}` +
+            (m.count > m.items.length ? `\n  ... и ещё ${m.count - m.items.length}` : '')),
+      );
+    }
+
+    if (report.finance) {
+      const f = report.finance;
+      parts.push(
+        `<b>🏦 Финансы</b>\n` +
+        `Принято всего: ${formatNum(f.received)} сум\n` +
+        `Сдано в банк: ${formatNum(f.deposited)} сум\n` +
+        `Остаток на руках: <b>${formatNum(f.balance)} сум</b>`,
+      );
+    }
+
+    return parts;
+  }
+
+  /**
+   * Builds the digest and sends it on Telegram to the active managers and
+   * admins who want it there and are outside their quiet hours, then emails
+   * it if there are addresses; returns how many got it on Telegram.
+   */
+  async send(period: DigestPeriod, now = new Date()): Promise<number> {
+    const settings = await this.settingsService.getDigestSettings();
+    if (settings.sections.length === 0) return 0;
+
+    const managers = await this.usersService.findAllActive([UserRole.MANAGER, UserRole.ADMIN]);
+    const recipients = await this.notificationPreferencesService.filterRecipients(
+      managers.filter((u) => u.telegramId),
+      NotificationEvent.DIGEST,
+      NotificationChannel.TELEGRAM,
+      now,
+    );
+    const emails = this.mailService.isEnabled()
+      ? await this.getEmailRecipients(settings, managers.map((u) => u.id))
+      : [];
+    if (recipients.length === 0 && emails.length === 0) return 0;
+
+    const report = await this.build(period, settings, now);
+    const message = this.format(report);
+
+    let sent = 0;
+    for (const user of recipients) {
+      if (await this.telegramService.sendMessage(user.telegramId, message)) sent++;
+    }
+    if (recipients.length > 0) {
+      this.logger.log(`Sent ${period} digest to ${sent}/${recipients.length} users`);
+    }
+
+    if (emails.length > 0) {
+      await this.sendEmail(report, emails);
+    }
+    return sent;
+  }
+
+  /** Addresses from the digest settings plus managers' own digest emails */
+  private async getEmailRecipients(settings: DigestSettingsDto, userIds: string[]): Promise<string[]> {
+    const own = await this.notificationPreferencesService.findDigestEmails(userIds);
+    return [...new Set([...settings.emailRecipients, ...own].map((e) => e.toLowerCase()))];
+  }
+
+  /** Failures are logged so they never cost the Telegram digest or the next run */
+  private async sendEmail(report: DigestReport, emails: string[]) {
+    try {
+      const workbook = await buildReportWorkbook(this.reportsService, { from: report.from, to: report.to });
+      const delivery = await this.mailService.send({
+        kind: EmailKind.DIGEST,
+        to: emails,
+        template: digestTemplate({
+          title: report.period === 'weekly' ? 'Итоги недели' : 'Дайджест',
+          period: formatDates(report),
+          sections: this.formatSections(report),
+          hasAttachment: true,
+        }),
+        attachments: [{
+          filename: `vendcash-report-${report.from}_${report.to}.xlsx`,
+          content: workbook,
+          contentType: XLSX_CONTENT_TYPE,
+        }],
+      });
+      this.logger.log(`Emailed ${report.period} digest to ${emails.length} addresses: ${delivery.status}`);
+    } catch (error) {
+      this.logger.error(`Failed to email ${report.period} digest:`, error);
+    }
+  }
+
+  private async getCollections(from: Date, to: Date): Promise<DigestReport['collections']> {
+    const [row] = await this.collectionRepository.manager.query(
+      `SELECT COUNT(*) FILTER (WHERE c.status <> $3)::int AS "count",
+              COUNT(*) FILTER (WHERE c.status = $4)::int AS "receivedCount",
+              COALESCE(SUM(c.amount) FILTER (WHERE c.status = $4), 0) AS "receivedAmount"
+       FROM collections c
+       JOIN machines m ON m.id = c.machine_id
+       WHERE c.collected_at BETWEEN $1 AND $2 AND m.status = $5`,
+      [from, to, CollectionStatus.CANCELLED, CollectionStatus.RECEIVED, MachineStatus.APPROVED],
+    );
+    return {
+      count: Number(row?.count) || 0,
+      receivedCount: Number(row?.receivedCount) || 0,
+      receivedAmount: Number(row?.receivedAmount) || 0,
+    };
+  }
+
+  private async getPending(olderThanHours: number, now: Date): Promise<DigestReport['pending']> {
+    const rows: Array<{ machineCode: string; machineName: string; operatorName: string; collectedAt: Date; amount: string | null }> =
+      await this.collectionRepository.manager.query(
+        `SELECT m.code AS "machineCode", m.name AS "machineName", u.name AS "operatorName",
+                c.collected_at AS "collectedAt", c.amount
+         FROM collections c
+         JOIN machines m ON m.id = c.machine_id
+         JOIN users u ON u.id = c.operator_id
+         WHERE c.status = $1 AND m.status = $2 AND c.collected_at < $3
+         ORDER BY c.collected_at ASC`,
+        [CollectionStatus.COLLECTED, MachineStatus.APPROVED, new Date(now.getTime() - olderThanHours * 60 * 60 * 1000)],
+      );
+    return {
+      olderThanHours,
+      count: rows.length,
+      amount: rows.reduce((sum, r) => sum + (Number(r.amount) || 0), 0),
+      oldest: rows.slice(0, LIST_LIMIT).map((r) => ({
+        machineCode: r.machineCode,
+        machineName: r.machineName,
+        operatorName: r.operatorName,
+        collectedAt: r.collectedAt,
+      })),
+    };
+  }
+
+  /**
+   * Nightly runs re-check the last week, so a collection can have several
+   * results; only its latest one counts.
+   */
+  private async getShortages(from: Date, to: Date): Promise<DigestReport['shortages']> {
+    const rows: Array<{ machineCode: string; machineName: string; difference: string; percentDeviation: string }> =
+      await this.collectionRepository.manager.query(
+        `SELECT latest."machineCode", latest."machineName", latest.difference, latest."percentDeviation"
+         FROM (
+           SELECT DISTINCT ON (COALESCE(r.collection_id::text, r.id::text))
+                  r.machine_code AS "machineCode", r.machine_name AS "machineName",
+                  r.difference, r.percent_deviation AS "percentDeviation", r.status
+           FROM reconciliation_results r
+           WHERE r.period_end BETWEEN $1 AND $2
+           ORDER BY COALESCE(r.collection_id::text, r.id::text), r.created_at DESC
+         ) latest
+         WHERE latest.status = 'shortage'
+         ORDER BY latest.difference ASC`,
+        [from, to],
+      );
+    return {
+      count: rows.length,
+      totalDifference: rows.reduce((sum, r) => sum + Number(r.difference), 0),
+      items: rows.slice(0, LIST_LIMIT).map((r) => ({
+        machineCode: r.machineCode,
+        machineName: r.machineName,
+        difference: Number(r.difference),
+        percentDeviation: Number(r.percentDeviation),
+      })),
+    };
+  }
+
+  private async getStaleMachines(days: number, now: Date): Promise<DigestReport['staleMachines']> {
+    const rows: Array<{ code: string; name: string; lastCollectedAt: Date | null }> =
+      await this.collectionRepository.manager.query(
+        `SELECT m.code, m.name, lc.collected_at AS "lastCollectedAt"
+         FROM machines m
+         LEFT JOIN (
+           SELECT c.machine_id, MAX(c.collected_at) AS collected_at
+           FROM collections c
+           WHERE c.status IN ($1, $2)
+           GROUP BY c.machine_id
+         ) lc ON lc.machine_id = m.id
+         WHERE m.status = $3 AND m.is_active = true
+           AND (lc.collected_at IS NULL OR lc.collected_at < $4)
+         ORDER BY lc.collected_at ASC NULLS FIRST, m.name`,
+        [CollectionStatus.COLLECTED, CollectionStatus.RECEIVED, MachineStatus.APPROVED, new Date(now.getTime() - days * DAY_MS)],
+      );
+    return { days, count: rows.length, items: rows.slice(0, LIST_LIMIT) };
+  }
+}
@@ -2,10 +2,13 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { ReportsController } from './reports.controller';
 import { ReportsService } from './reports.service';
 import { ReportQueryDto } from './dto/report-query.dto';
+import { MailService } from '../../mail/mail.service';
+import { EmailKind } from '../../mail/entities/email-delivery.entity';
 
 describe('ReportsController', () => {
   let controller: ReportsController;
   let reportsService: jest.Mocked<ReportsService>;
+  let mailService: { send: jest.Mock };
 
   const mockSummary = {
     period: { from: '2024-01-01T00:00:00.000Z', to: '2024-01-31T23:59:59.999Z' },
@@ -76,13 +79,19 @@ describe('ReportsController', () => {
             getByMachine: jest.fn(),
             getByDate: jest.fn(),
             getByOperator: jest.fn(),
+            getByLocation: jest.fn(),
           },
         },
+        {
+          provide: MailService,
+          useValue: { send: jest.fn() },
+        },
       ],
     }).compile();
 
     controller = module.get<ReportsController>(ReportsController);
     reportsService = module.get(ReportsService);
+    mailService = module.get(MailService);
   });
 
   it('should be defined', () => {
@@ -158,6 +167,24 @@ describe('ReportsController', () => {
     });
   });
 
+  describe('getByLocation', () => {
+    it('should return location report', async () => {
+      const query: ReportQueryDto = { from: '2024-01-01', to: '2024-01-31' };
+      const mockByLocation = {
+        period: { from: '2024-01-01T00:00:00.000Z', to: '2024-01-31T23:59:59.999Z' },
+        data: [],
+        moves: [],
+        ranking: [],
+      };
+      reportsService.getByLocation.mockResolvedValue(mockByLocation);
+
+      const result = await controller.getByLocation(query);
+
+      expect(reportsService.getByLocation).toHaveBeenCalledWith(query);
+      expect(result).toEqual(mockByLocation);
+    });
+  });
+
   describe('exportToExcel', () => {
     it('should generate Excel file and send as response', async () => {
       const query: ReportQueryDto = { from: '2024-01-01', to: '2024-01-31' };
@@ -358,4 +385,42 @@ describe('ReportsController', () => {
       expect(mockRes.send).toHaveBeenCalledWith(expect.any(Buffer));
     });
   });
+
+  describe('emailExport', () => {
+    it('should email the same workbook as an attachment', async () => {
+      const query: ReportQueryDto = { from: '2024-01-01', to: '2024-01-31' };
+      reportsService.getByMachine.mockResolvedValue(mockByMachine);
+      reportsService.getByDate.mockResolvedValue(mockByDate);
+      reportsService.getByOperator.mockResolvedValue(mockByOperator);
+      mailService.send.mockResolvedValue({ id: 'delivery-1', status: 'sent' });
+
+      const result = await controller.emailExport(
+        query,
+        { recipients: ['accountant@example.com'] },
+        { id: 'manager-1' } as any,
+      );
+
+      expect(result).toEqual({ id: 'delivery-1', status: 'sent' });
+      const options = mailService.send.mock.calls[0][0];
+      expect(options.kind).toBe(EmailKind.REPORT);
+      expect(options.to).toEqual(['accountant@example.com']);
+      expect(options.requestedById).toBe('manager-1');
+      expect(options.template.subject).toContain('2024-01-01 — 2024-01-31');
+      expect(options.attachments).toHaveLength(1);
+      expect(options.attachments[0].filename).toMatch(/^vendcash-report-\d{4}-\d{2}-\d{2}\.xlsx$/);
+      expect(options.attachments[0].content).toBeInstanceOf(Buffer);
+    });
+
+    it('should describe the current month when no range is given', async () => {
+      reportsService.getByMachine.mockResolvedValue({ ...mockByMachine, data: [] });
+      reportsService.getByDate.mockResolvedValue({ ...mockByDate, data: [] });
+      reportsService.getByOperator.mockResolvedValue({ ...mockByOperator, data: [] });
+      mailService.send.mockResolvedValue({ id: 'delivery-2' });
+
+      await controller.emailExport({}, { recipients: ['a@example.com'] }, { id: 'manager-1' } as any);
+
+      const { template } = mailService.send.mock.calls[0][0];
+      expect(template.subject).toMatch(/\d{4}-\d{2}-01 — \d{4}-\d{2}-\d{2}/);
+    });
+  });
 });
@@ -1,35 +1,28 @@
-import { Controller, Get, Query, Res } from '@nestjs/common';
+import { Controller, Get, Post, Body, Query, Res } from '@nestjs/common';
 import { Response } from 'express';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
-import * as ExcelJS from 'exceljs';
 import { ReportsService } from './reports.service';
+import { buildReportWorkbook, reportFilename } from './report-workbook';
 import { Roles } from '../../common/decorators/roles.decorator';
 import { RequireModule } from '../../common/decorators/require-module.decorator';
-import { UserRole } from '../users/entities/user.entity';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { User, UserRole } from '../users/entities/user.entity';
 import { ReportQueryDto } from './dto/report-query.dto';
-
-/**
- * Sanitize string values for Excel export to prevent formula injection.
- * Characters =, +, -, @, |, and tab can trigger formula execution in Excel.
- */
-function sanitizeForExcel(value: unknown): string {
-  if (value === null || value === undefined) {
-    return '';
-  }
-  const str = String(value);
-  // Prefix dangerous characters with a single quote to prevent formula execution
-  if (/^[=+\-@|\t]/.test(str)) {
-    return `'${str}`;
-  }
-  return str;
-}
+import { MailService, XLSX_CONTENT_TYPE } from '../../mail/mail.service';
+import { EmailKind } from '../../mail/entities/email-delivery.entity';
+import { SendEmailDto } from '../../mail/dto/send-email.dto';
+import { reportTemplate } from '../../mail/mail-templates';
+import { endOfMonthTashkent, startOfMonthTashkent, toTashkentDateString } from '../../common/utils/timezone';
 
 @ApiTags('reports')
 @Controller('reports')
 @ApiBearerAuth()
 @RequireModule('reports')
 export class ReportsController {
-  constructor(private readonly reportsService: ReportsService) {}
+  constructor(
+    private readonly reportsService: ReportsService,
+    private readonly mailService: MailService,
+  ) {}
 
   @Get('summary')
   @Roles(UserRole.MANAGER, UserRole.ADMIN)
@@ -67,104 +60,44 @@ export class ReportsController {
     return this.reportsService.getByOperator(query);
   }
 
+  @Get('by-location')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get revenue by machine location, relocations and address ranking' })
+  async getByLocation(@Query() query: ReportQueryDto) {
+    return this.reportsService.getByLocation(query);
+  }
+
   @Get('export')
   @Roles(UserRole.MANAGER, UserRole.ADMIN)
   @ApiOperation({ summary: 'Export report to Excel' })
   async exportToExcel(@Query() query: ReportQueryDto, @Res() res: Response) {
-    const [byMachine, byDate, byOperator] = await Promise.all([
-      this.reportsService.getByMachine(query),
-      this.reportsService.getByDate(query),
-      this.reportsService.getByOperator(query),
-    ]);
-
-    const wb = new ExcelJS.Workbook();
-    wb.creator = 'VendCash';
-    wb.created = new Date();
+    const buffer = await buildReportWorkbook(this.reportsService, query);
 
-    // By Machine sheet
-    const machineSheet = wb.addWorksheet('По автоматам');
-    machineSheet.columns = [
-      { header: 'Код', key: 'code', width: 15 },
-      { header: 'Название', key: 'name', width: 25 },
-      { header: 'Кол-во', key: 'count', width: 12 },
-      { header: 'Сумма', key: 'total', width: 18 },
-      { header: 'Среднее', key: 'avg', width: 15 },
-    ];
-    byMachine.data.forEach((item) => {
-      machineSheet.addRow({
-        code: sanitizeForExcel(item.machine.code),
-        name: sanitizeForExcel(item.machine.name),
-        count: item.collectionsCount,
-        total: item.totalAmount,
-        avg: Math.round(item.averageAmount),
-      });
-    });
-    machineSheet.addRow({
-      code: '',
-      name: 'ИТОГО',
-      count: byMachine.totals.collectionsCount,
-      total: byMachine.totals.totalAmount,
-      avg: 0,
-    });
-
-    // By Date sheet
-    const dateSheet = wb.addWorksheet('По датам');
-    dateSheet.columns = [
-      { header: 'Дата', key: 'date', width: 15 },
-      { header: 'Кол-во', key: 'count', width: 12 },
-      { header: 'Сумма', key: 'total', width: 18 },
-    ];
-    byDate.data.forEach((item) => {
-      dateSheet.addRow({
-        date: sanitizeForExcel(item.date),
-        count: item.collectionsCount,
-        total: item.totalAmount,
-      });
-    });
-    dateSheet.addRow({
-      date: 'ИТОГО',
-      count: byDate.totals.collectionsCount,
-      total: byDate.totals.totalAmount,
-    });
+    res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+    res.setHeader('Content-Disposition', `attachment; filename=${reportFilename()}`);
+    res.send(buffer);
+  }
 
-    // By Operator sheet
-    const operatorSheet = wb.addWorksheet('По операторам');
-    operatorSheet.columns = [
-      { header: 'Оператор', key: 'operator', width: 25 },
-      { header: 'Telegram', key: 'telegram', width: 20 },
-      { header: 'Кол-во', key: 'count', width: 12 },
-      { header: 'Сумма', key: 'total', width: 18 },
-    ];
-    byOperator.data.forEach((item) => {
-      operatorSheet.addRow({
-        operator: sanitizeForExcel(item.operator.name),
-        telegram: sanitizeForExcel(item.operator.telegramUsername || '-'),
-        count: item.collectionsCount,
-        total: item.totalAmount,
-      });
-    });
-    operatorSheet.addRow({
-      operator: 'ИТОГО',
-      telegram: '',
-      count: byOperator.totals.collectionsCount,
-      total: byOperator.totals.totalAmount,
-    });
+  @Post('export/email')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Email the Excel report as an attachment' })
+  async emailExport(
+    @Query() query: ReportQueryDto,
+    @Body() dto: SendEmailDto,
+    @CurrentUser() user: User,
+  ) {
+    const buffer = await buildReportWorkbook(this.reportsService, query);
+    // Same fallback as the report itself: no range means the current month
+    const period = query.from && query.to
+      ? { from: query.from, to: query.to }
+      : { from: toTashkentDateString(startOfMonthTashkent()), to: toTashkentDateString(endOfMonthTashkent()) };
 
-    // Style header rows (bold)
-    [machineSheet, dateSheet, operatorSheet].forEach((sheet) => {
-      sheet.getRow(1).font = { bold: true };
+    return this.mailService.send({
+      kind: EmailKind.REPORT,
+      to: dto.recipients,
+      template: reportTemplate(period),
+      attachments: [{ filename: reportFilename(), content: buffer, contentType: XLSX_CONTENT_TYPE }],
+      requestedById: user.id,
     });
-
-    const buffer = await wb.xlsx.writeBuffer();
-
-    res.setHeader(
-      'Content-Type',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    );
-    res.setHeader(
-      'Content-Disposition',
-      `attachment; filename=vendcash-report-${new Date().toISOString().split('T')[0]}.xlsx`,
-    );
-    res.send(Buffer.from(buffer));
   }
 }
@@ -3,11 +3,27 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { Collection } from '../collections/entities/collection.entity';
 import { ReportsController } from './reports.controller';
 import { ReportsService } from './reports.service';
+import { DigestService } from './digest.service';
+import { DigestSchedulerService } from './digest-scheduler.service';
+import { FinanceModule } from '../finance/finance.module';
+import { SettingsModule } from '../settings/settings.module';
+import { UsersModule } from '../users/users.module';
+import { TelegramModule } from '../../telegram/telegram.module';
+import { MailModule } from '../../mail/mail.module';
+import { NotificationsModule } from '../../notifications/notifications.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Collection])],
+  imports: [
+    TypeOrmModule.forFeature([Collection]),
+    FinanceModule,
+    SettingsModule,
+    UsersModule,
+    TelegramModule,
+    MailModule,
+    NotificationsModule,
+  ],
   controllers: [ReportsController],
-  providers: [ReportsService],
+  providers: [ReportsService, DigestService, DigestSchedulerService],
   exports: [ReportsService],
 })
 export class ReportsModule {}
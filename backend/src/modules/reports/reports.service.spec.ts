@@ -12,6 +12,7 @@ describe('ReportsService', () => {
   let collectionRepository: jest.Mocked<Repository<Collection>>;
   let cacheManager: jest.Mocked<Cache>;
   let mockQueryBuilder: any;
+  let mockQuery: jest.Mock;
 
   beforeEach(async () => {
     mockQueryBuilder = {
@@ -27,6 +28,7 @@ describe('ReportsService', () => {
       getRawMany: jest.fn(),
       getCount: jest.fn(),
     };
+    mockQuery = jest.fn();
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -35,6 +37,7 @@ describe('ReportsService', () => {
           provide: getRepositoryToken(Collection),
           useValue: {
             createQueryBuilder: jest.fn().mockReturnValue(mockQueryBuilder),
+            manager: { query: mockQuery },
           },
         },
         {
@@ -468,6 +471,77 @@ describe('ReportsService', () => {
     });
   });
 
+  describe('getByLocation', () => {
+    const locationRow = (overrides: Record<string, unknown>) => ({
+      id: 'loc-1',
+      machineId: 'machine-1',
+      machineCode: 'A01',
+      machineName: 'Machine One',
+      address: 'ТЦ Самарканд Дарвоза',
+      validFrom: '2024-01-01',
+      validTo: '2024-01-10',
+      isCurrent: false,
+      days: '10',
+      revenue: '1000',
+      ordersCount: '50',
+      collectionsCount: '2',
+      collectionsAmount: '900',
+      ...overrides,
+    });
+
+    it('should compare daily revenue before and after a move', async () => {
+      cacheManager.get.mockResolvedValue(null);
+      mockQuery.mockResolvedValue([
+        locationRow({}),
+        locationRow({ id: 'loc-2', address: 'Метро Чиланзар', validFrom: '2024-01-11', validTo: null, isCurrent: true, days: '21', revenue: '4200' }),
+      ]);
+
+      const result = await service.getByLocation({ from: '2024-01-01', to: '2024-01-31' });
+
+      expect(mockQuery.mock.calls[0][1].slice(0, 2)).toEqual(['2024-01-01', '2024-01-31']);
+      expect(result.data[1].revenuePerDay).toBe(200);
+      expect(result.moves).toEqual([
+        expect.objectContaining({
+          fromAddress: 'ТЦ Самарканд Дарвоза',
+          toAddress: 'Метро Чиланзар',
+          movedOn: '2024-01-11',
+          revenuePerDayBefore: 100,
+          revenuePerDayAfter: 200,
+          changePercent: 100,
+        }),
+      ]);
+    });
+
+    it('should rank addresses across machines by daily revenue', async () => {
+      cacheManager.get.mockResolvedValue(null);
+      mockQuery.mockResolvedValue([
+        locationRow({ validTo: null, days: '31', revenue: '3100' }),
+        locationRow({ id: 'loc-2', machineId: 'machine-2', machineCode: 'B02', address: 'Метро Чиланзар', days: '31', revenue: '5890' }),
+        locationRow({ id: 'loc-3', machineId: 'machine-3', machineCode: 'C03', address: ' тц самарканд  дарвоза', days: '31', revenue: '9300' }),
+      ]);
+
+      const result = await service.getByLocation({ from: '2024-01-01', to: '2024-01-31' });
+
+      expect(result.moves).toEqual([]);
+      expect(result.ranking).toEqual([
+        expect.objectContaining({ rank: 1, address: 'ТЦ Самарканд Дарвоза', machinesCount: 2, days: 62, revenuePerDay: 200 }),
+        expect.objectContaining({ rank: 2, address: 'Метро Чиланзар', machinesCount: 1, revenuePerDay: 190 }),
+      ]);
+    });
+
+    it('should not report a change when there were no sales before the move', async () => {
+      cacheManager.get.mockResolvedValue(null);
+      mockQuery.mockResolvedValue([
+        locationRow({ revenue: '0', ordersCount: '0' }),
+        locationRow({ id: 'loc-2', address: 'Метро Чиланзар', validFrom: '2024-01-11', validTo: null }),
+      ]);
+
+      const result = await service.getByLocation({ from: '2024-01-01', to: '2024-01-31' });
+
+      expect(result.moves[0].changePercent).toBeNull();
+    });
+  });
+
   describe('getTodaySummary', () => {
     it('should return cached result if available', async () => {
       const cachedResult = { pending: 5, todayAmount: 1000, monthAmount: 15000 };
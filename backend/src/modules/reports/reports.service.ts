@@ -5,6 +5,7 @@ import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Cache } from 'cache-manager';
 import { Collection, CollectionStatus } from '../collections/entities/collection.entity';
 import { MachineStatus } from '../machines/entities/machine.entity';
+import { PaymentStatus } from '../sales/entities/sales-order.entity';
 import { ReportQueryDto } from './dto/report-query.dto';
 import {
   startOfDayTashkent,
@@ -13,6 +14,7 @@ import {
   endOfTodayTashkent,
   startOfMonthTashkent,
   endOfMonthTashkent,
+  toTashkentDateString,
   PG_TASHKENT_TZ,
 } from '../../common/utils/timezone';
 
@@ -45,6 +47,51 @@ export interface OperatorReport {
   totalAmount: number;
 }
 
+export interface LocationReport {
+  location: { id: string; address: string; validFrom: string; validTo: string | null; isCurrent: boolean };
+  machine: { id: string; code: string; name: string };
+  /** Days the machine stood here within the report period */
+  days: number;
+  revenue: number;
+  ordersCount: number;
+  revenuePerDay: number;
+  collectionsCount: number;
+  collectionsAmount: number;
+}
+
+export interface LocationMove {
+  machine: { id: string; code: string; name: string };
+  fromAddress: string;
+  toAddress: string;
+  movedOn: string;
+  revenuePerDayBefore: number;
+  revenuePerDayAfter: number;
+  /** Percent change of daily revenue; null when there were no sales before */
+  changePercent: number | null;
+}
+
+export interface AddressRanking {
+  rank: number;
+  address: string;
+  machinesCount: number;
+  days: number;
+  revenue: number;
+  revenuePerDay: number;
+  collectionsAmount: number;
+}
+
+export interface LocationsReport {
+  period: { from: string; to: string };
+  data: LocationReport[];
+  moves: LocationMove[];
+  ranking: AddressRanking[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Same site typed slightly differently by different people */
+const addressKey = (address: string) => address.trim().toLowerCase().replace(/\s+/g, ' ');
+
 @Injectable()
 export class ReportsService {
   private readonly CACHE_TTL = 60000; // 1 minute cache for reports
@@ -322,6 +369,158 @@ export class ReportsService {
     return report;
   }
 
+  /**
+   * Sales and collections attributed to the location each machine stood at
+   * on the day. When location periods overlap the later one wins, same as
+   * MachinesService.getLocationForDate.
+   */
+  async getByLocation(query: ReportQueryDto): Promise<LocationsReport> {
+    const cacheKey = this.getCacheKey('by-location', query);
+    const cached = await this.cacheManager.get<LocationsReport>(cacheKey);
+    if (cached) return cached;
+
+    const { from, to } = this.getDateRange(query);
+    const localOrderDate = `(so.order_date AT TIME ZONE 'UTC' AT TIME ZONE '${PG_TASHKENT_TZ}')::date`;
+    const localCollectedDate = `(c.collected_at AT TIME ZONE 'UTC' AT TIME ZONE '${PG_TASHKENT_TZ}')::date`;
+
+    const rows: Array<{
+      id: string;
+      machineId: string;
+      machineCode: string;
+      machineName: string;
+      address: string;
+      validFrom: string;
+      validTo: string | null;
+      isCurrent: boolean;
+      days: string;
+      revenue: string;
+      ordersCount: string;
+      collectionsCount: string;
+      collectionsAmount: string;
+    }> = await this.collectionRepository.manager.query(
+      `WITH loc AS (
+         SELECT ml.id, ml.machine_id, ml.address, ml.valid_from, ml.valid_to, ml.is_current,
+                m.code AS machine_code, m.name AS machine_name,
+                LEAST(
+                  COALESCE(ml.valid_to, $3::date),
+                  COALESCE(LEAD(ml.valid_from) OVER (PARTITION BY ml.machine_id ORDER BY ml.valid_from, ml.created_at) - 1, $3::date)
+                ) AS effective_to
+         FROM machine_locations ml
+         JOIN machines m ON m.id = ml.machine_id
+         WHERE m.status = $4
+       ), span AS (
+         SELECT loc.*, GREATEST(loc.valid_from, $1::date) AS span_from, LEAST(loc.effective_to, $2::date) AS span_to
+         FROM loc
+       )
+       SELECT s.id, s.machine_id AS "machineId", s.machine_code AS "machineCode", s.machine_name AS "machineName",
+              s.address, s.valid_from::text AS "validFrom", s.valid_to::text AS "validTo", s.is_current AS "isCurrent",
+              s.span_to - s.span_from + 1 AS "days",
+              sales.revenue AS "revenue", sales.orders_count AS "ordersCount",
+              col.collections_count AS "collectionsCount", col.collections_amount AS "collectionsAmount"
+       FROM span s
+       LEFT JOIN LATERAL (
+         SELECT COALESCE(SUM(so.price), 0) AS revenue, COUNT(*) AS orders_count
+         FROM sales_orders so
+         WHERE (so.machine_id = s.machine_id OR (so.machine_id IS NULL AND LOWER(so.machine_code) = LOWER(s.machine_code)))
+           AND so.payment_status = $5
+           AND ${localOrderDate} BETWEEN s.span_from AND s.span_to
+       ) sales ON true
+       LEFT JOIN LATERAL (
+         SELECT COUNT(*) AS collections_count, COALESCE(SUM(c.amount), 0) AS collections_amount
+         FROM collections c
+         WHERE c.machine_id = s.machine_id
+           AND c.status = $6
+           AND ${localCollectedDate} BETWEEN s.span_from AND s.span_to
+       ) col ON true
+       WHERE s.span_from <= s.span_to
+       ORDER BY s.machine_code, s.valid_from`,
+      [
+        toTashkentDateString(from),
+        toTashkentDateString(to),
+        toTashkentDateString(new Date()),
+        MachineStatus.APPROVED,
+        PaymentStatus.PAID,
+        CollectionStatus.RECEIVED,
+      ],
+    );
+
+    const data: LocationReport[] = rows.map((r) => {
+      const days = parseInt(r.days) || 1;
+      const revenue = round2(Number(r.revenue) || 0);
+      return {
+        location: {
+          id: r.id,
+          address: r.address,
+          validFrom: r.validFrom,
+          validTo: r.validTo,
+          isCurrent: r.isCurrent,
+        },
+        machine: { id: r.machineId, code: r.machineCode, name: r.machineName },
+        days,
+        revenue,
+        ordersCount: parseInt(r.ordersCount) || 0,
+        revenuePerDay: round2(revenue / days),
+        collectionsCount: parseInt(r.collectionsCount) || 0,
+        collectionsAmount: round2(Number(r.collectionsAmount) || 0),
+      };
+    });
+
+    // Rows are ordered by machine, then validFrom: neighbours of the same
+    // machine are a move
+    const moves: LocationMove[] = [];
+    for (let i = 1; i < data.length; i++) {
+      const before = data[i - 1];
+      const after = data[i];
+      if (before.machine.id !== after.machine.id) continue;
+      moves.push({
+        machine: after.machine,
+        fromAddress: before.location.address,
+        toAddress: after.location.address,
+        movedOn: after.location.validFrom,
+        revenuePerDayBefore: before.revenuePerDay,
+        revenuePerDayAfter: after.revenuePerDay,
+        changePercent: before.revenuePerDay > 0
+          ? round2(((after.revenuePerDay - before.revenuePerDay) / before.revenuePerDay) * 100)
+          : null,
+      });
+    }
+
+    const byAddress = new Map<string, { address: string; machines: Set<string>; days: number; revenue: number; collectionsAmount: number }>();
+    for (const item of data) {
+      const key = addressKey(item.location.address);
+      const entry = byAddress.get(key)
+        ?? { address: item.location.address, machines: new Set<string>(), days: 0, revenue: 0, collectionsAmount: 0 };
+      entry.machines.add(item.machine.id);
+      entry.days += item.days;
+      entry.revenue += item.revenue;
+      entry.collectionsAmount += item.collectionsAmount;
+      byAddress.set(key, entry);
+    }
+    const ranking: AddressRanking[] = [...byAddress.values()]
+      .map((entry) => ({
+        rank: 0,
+        address: entry.address,
+        machinesCount: entry.machines.size,
+        days: entry.days,
+        revenue: round2(entry.revenue),
+        revenuePerDay: round2(entry.revenue / entry.days),
+        collectionsAmount: round2(entry.collectionsAmount),
+      }))
+      .sort((a, b) => b.revenuePerDay - a.revenuePerDay)
+      .map((entry, index) => ({ ...entry, rank: index + 1 }));
+
+    const report: LocationsReport = {
+      period: { from: from.toISOString(), to: to.toISOString() },
+      data,
+      moves,
+      ranking,
+    };
+
+    this.trackCacheKey(cacheKey);
+    await this.cacheManager.set(cacheKey, report, this.CACHE_TTL);
+    return report;
+  }
+
   async getTodaySummary(): Promise<{ pending: number; todayAmount: number; monthAmount: number }> {
     const cacheKey = 'report:today-summary';
     const cached = await this.cacheManager.get<{ pending: number; todayAmount: number; monthAmount: number }>(cacheKey);
@@ -0,0 +1,257 @@
+import {
+  IsOptional,
+  IsString,
+  IsIn,
+  IsInt,
+  IsBoolean,
+  IsArray,
+  ArrayMaxSize,
+  ValidateNested,
+  MinLength,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { SALES_IMPORT_FIELDS, SalesImportField } from '../entities/sales-import-profile.entity';
+
+/**
+ * Column per field: a 1-based number, a column letter ("C") or part of
+ * the header text. Fields left out are not read from the file.
+ */
+export class ImportProfileColumnsDto {
+  @ApiProperty({ required: false, description: 'Номер заказа' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  orderNumber?: string;
+
+  @ApiProperty({ required: false, description: 'Продукт' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  product?: string;
+
+  @ApiProperty({ required: false, description: 'Вкус / добавка' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  flavor?: string;
+
+  @ApiProperty({ description: 'Способ оплаты' })
+  @IsString({ message: 'Укажите колонку способа оплаты' })
+  @MinLength(1, { message: 'Укажите колонку способа оплаты' })
+  @MaxLength(100)
+  paymentResource: string;
+
+  @ApiProperty({ required: false, description: 'Статус оплаты' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  paymentStatus?: string;
+
+  @ApiProperty({ description: 'Код автомата' })
+  @IsString({ message: 'Укажите колонку кода автомата' })
+  @MinLength(1, { message: 'Укажите колонку кода автомата' })
+  @MaxLength(100)
+  machineCode: string;
+
+  @ApiProperty({ required: false, description: 'Адрес' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  address?: string;
+
+  @ApiProperty({ description: 'Цена' })
+  @IsString({ message: 'Укажите колонку цены' })
+  @MinLength(1, { message: 'Укажите колонку цены' })
+  @MaxLength(100)
+  price: string;
+
+  @ApiProperty({ description: 'Дата заказа' })
+  @IsString({ message: 'Укажите колонку даты заказа' })
+  @MinLength(1, { message: 'Укажите колонку даты заказа' })
+  @MaxLength(100)
+  orderDate: string;
+}
+
+export class ImportProfilePaymentsDto {
+  @ApiProperty({ description: 'Ключевые слова наличной оплаты', example: ['наличн'] })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MinLength(1, { each: true, message: 'Ключевое слово не может быть пустым' })
+  @MaxLength(50, { each: true })
+  cash: string[];
+
+  @ApiProperty({ description: 'Ключевые слова безналичной оплаты', example: ['карт', 'qr'] })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MinLength(1, { each: true, message: 'Ключевое слово не может быть пустым' })
+  @MaxLength(50, { each: true })
+  card: string[];
+
+  @ApiProperty({ required: false, description: 'Ключевые слова возврата в статусе оплаты', example: ['возвращ'] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MinLength(1, { each: true, message: 'Ключевое слово не может быть пустым' })
+  @MaxLength(50, { each: true })
+  refund?: string[];
+}
+
+export class ImportProfileSkipRuleDto {
+  @ApiProperty({ enum: SALES_IMPORT_FIELDS })
+  @IsIn(SALES_IMPORT_FIELDS, { message: 'Неизвестное поле' })
+  field: SalesImportField;
+
+  @ApiProperty({ enum: ['contains', 'equals', 'empty'] })
+  @IsIn(['contains', 'equals', 'empty'], { message: 'Условие должно быть contains, equals или empty' })
+  match: 'contains' | 'equals' | 'empty';
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  value?: string;
+}
+
+export class CreateImportProfileDto {
+  @ApiProperty({ description: 'Название профиля' })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsString()
+  @MinLength(1, { message: 'Укажите название профиля' })
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ required: false })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({ type: ImportProfileColumnsDto })
+  @ValidateNested()
+  @Type(() => ImportProfileColumnsDto)
+  columns: ImportProfileColumnsDto;
+
+  @ApiProperty({ required: false, default: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  headerRow?: number;
+
+  @ApiProperty({ required: false, default: 'auto', description: 'auto или шаблон вида dd.MM.yyyy HH:mm:ss' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  dateFormat?: string;
+
+  @ApiProperty({ required: false, default: 'Asia/Tashkent', description: 'Часовой пояс дат в файле' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  timezone?: string;
+
+  @ApiProperty({ type: ImportProfilePaymentsDto })
+  @ValidateNested()
+  @Type(() => ImportProfilePaymentsDto)
+  payments: ImportProfilePaymentsDto;
+
+  @ApiProperty({ type: [ImportProfileSkipRuleDto], required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => ImportProfileSkipRuleDto)
+  skipRules?: ImportProfileSkipRuleDto[];
+
+  @ApiProperty({ required: false, description: 'Заголовки, по которым профиль определяется автоматически' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MinLength(1, { each: true })
+  @MaxLength(100, { each: true })
+  detectHeaders?: string[];
+
+  @ApiProperty({ required: false, default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateImportProfileDto {
+  @ApiProperty({ required: false })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsOptional()
+  @IsString()
+  @MinLength(1, { message: 'Укажите название профиля' })
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({ required: false })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({ type: ImportProfileColumnsDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ImportProfileColumnsDto)
+  columns?: ImportProfileColumnsDto;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  headerRow?: number;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  dateFormat?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  timezone?: string;
+
+  @ApiProperty({ type: ImportProfilePaymentsDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ImportProfilePaymentsDto)
+  payments?: ImportProfilePaymentsDto;
+
+  @ApiProperty({ type: [ImportProfileSkipRuleDto], required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => ImportProfileSkipRuleDto)
+  skipRules?: ImportProfileSkipRuleDto[];
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MinLength(1, { each: true })
+  @MaxLength(100, { each: true })
+  detectHeaders?: string[];
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -1,4 +1,15 @@
+import { IsOptional, IsUUID } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { PaymentMethod, PaymentStatus } from '../entities/sales-order.entity';
+import { ImportRejectReason } from '../entities/import-rejected-row.entity';
+
+/** Multipart fields sent alongside the sales file */
+export class ImportSalesOptionsDto {
+  @ApiProperty({ required: false, description: 'Профиль формата файла (по умолчанию определяется автоматически)' })
+  @IsOptional()
+  @IsUUID('4', { message: 'Некорректный профиль импорта' })
+  profileId?: string;
+}
 
 export class ImportSalesResultDto {
   @ApiProperty()
@@ -13,6 +24,9 @@ export class ImportSalesResultDto {
   @ApiProperty()
   errors: string[];
 
+  @ApiProperty({ description: 'Количество отклонённых и пропущенных строк по причинам' })
+  rejectedByReason: Partial<Record<ImportRejectReason, number>>;
+
   @ApiProperty()
   batchId: string;
 
@@ -21,4 +35,120 @@ export class ImportSalesResultDto {
 
   @ApiProperty()
   machinesNotFound: string[];
+
+  @ApiProperty({ description: 'Профиль, по которому разобран файл (null — встроенный формат)', nullable: true })
+  profileName: string | null;
+}
+
+export type ImportJobStatus = 'running' | 'completed' | 'failed';
+
+/** Background import of a large file; progress is pushed over WebSocket */
+export class ImportJobDto {
+  @ApiProperty()
+  jobId: string;
+
+  @ApiProperty({ enum: ['running', 'completed', 'failed'] })
+  status: ImportJobStatus;
+
+  @ApiProperty()
+  fileName: string;
+
+  @ApiProperty({ description: 'Оценка прогресса, %' })
+  percent: number;
+
+  @ApiProperty({ description: 'Обработано строк файла' })
+  processedRows: number;
+
+  @ApiProperty({ type: ImportSalesResultDto, nullable: true })
+  result: ImportSalesResultDto | null;
+
+  @ApiProperty({ nullable: true })
+  error: string | null;
+}
+
+export class ConfirmImportDto {
+  @ApiProperty({ description: 'Токен из предпросмотра импорта' })
+  @IsUUID('4', { message: 'Некорректный токен предпросмотра' })
+  token: string;
+}
+
+export class ImportPreviewColumnDto {
+  @ApiProperty()
+  field: string;
+
+  @ApiProperty({ description: 'Номер колонки (с 1)' })
+  column: number;
+
+  @ApiProperty({ nullable: true })
+  header: string | null;
+}
+
+export class ImportPreviewRowDto {
+  @ApiProperty({ nullable: true })
+  orderNumber: string | null;
+
+  @ApiProperty({ nullable: true })
+  productName: string | null;
+
+  @ApiProperty()
+  machineCode: string;
+
+  @ApiProperty({ enum: PaymentMethod })
+  paymentMethod: PaymentMethod;
+
+  @ApiProperty({ enum: PaymentStatus })
+  paymentStatus: PaymentStatus;
+
+  @ApiProperty()
+  price: number;
+
+  @ApiProperty()
+  orderDate: string;
+}
+
+export class ImportPreviewDto {
+  @ApiProperty({ description: 'Токен для подтверждения импорта' })
+  token: string;
+
+  @ApiProperty()
+  expiresAt: string;
+
+  @ApiProperty({ nullable: true })
+  profileName: string | null;
+
+  @ApiProperty({ type: [ImportPreviewColumnDto] })
+  columns: ImportPreviewColumnDto[];
+
+  @ApiProperty({ type: [ImportPreviewRowDto] })
+  sampleRows: ImportPreviewRowDto[];
+
+  @ApiProperty({ description: 'Распознанных заказов' })
+  totalRows: number;
+
+  @ApiProperty({ description: 'Будет добавлено' })
+  newCount: number;
+
+  @ApiProperty({ description: 'Уже есть в базе или повторяются в файле' })
+  duplicateCount: number;
+
+  @ApiProperty()
+  skipped: number;
+
+  @ApiProperty()
+  errors: string[];
+
+  @ApiProperty({ description: 'Количество отклонённых и пропущенных строк по причинам' })
+  rejectedByReason: Partial<Record<ImportRejectReason, number>>;
+
+  @ApiProperty()
+  machinesFound: number;
+
+  @ApiProperty()
+  machinesNotFound: string[];
+
+  @ApiProperty({ nullable: true })
+  dateFrom: string | null;
+
+  @ApiProperty({ nullable: true })
+  dateTo: string | null;
 }
@@ -0,0 +1,39 @@
+import { IsOptional, IsString, IsUUID, MinLength, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MapMachineCodeDto {
+  @ApiProperty({ description: 'Код автомата из файла продаж' })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsString()
+  @MinLength(1, { message: 'Укажите код автомата' })
+  @MaxLength(50)
+  code: string;
+
+  @ApiProperty({ description: 'Автомат, которому соответствует код' })
+  @IsUUID('4', { message: 'Некорректный автомат' })
+  machineId: string;
+}
+
+export class CreateMachineFromCodeDto {
+  @ApiProperty({ description: 'Код автомата из файла продаж' })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsString()
+  @MinLength(1, { message: 'Укажите код автомата' })
+  @MaxLength(50)
+  code: string;
+
+  @ApiProperty({ required: false, description: 'Название (по умолчанию — код)' })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiProperty({ required: false })
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().replace(/<[^>]*>/g, '') : value)
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  location?: string;
+}
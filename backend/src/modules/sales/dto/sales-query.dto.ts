@@ -83,3 +83,35 @@ export class ReconciliationQueryDto {
   @IsDateString()
   to?: string;
 }
+
+export class ProductAnalyticsQueryDto extends DateRangeQueryDto {
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  machineCode?: string;
+}
+
+export class ProductMixQueryDto {
+  @ApiProperty({ description: 'Start of the period (YYYY-MM-DD)' })
+  @IsDateString()
+  from: string;
+
+  @ApiProperty({ description: 'End of the period (YYYY-MM-DD)' })
+  @IsDateString()
+  to: string;
+
+  @ApiProperty({ required: false, description: 'Start of the comparison period; defaults to the same length right before' })
+  @IsOptional()
+  @IsDateString()
+  compareFrom?: string;
+
+  @ApiProperty({ required: false, description: 'End of the comparison period' })
+  @IsOptional()
+  @IsDateString()
+  compareTo?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  machineCode?: string;
+}
@@ -0,0 +1,23 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+} from 'typeorm';
+
+/**
+ * Header row of the source sheet for a batch's rejected rows, stored once
+ * per batch so the export doesn't depend on the archived original file.
+ */
+@Entity('import_rejected_headers')
+export class ImportRejectedHeaders {
+  @PrimaryColumn({ name: 'batch_id', type: 'varchar', length: 50 })
+  batchId: string;
+
+  /** Header row by column position */
+  @Column({ type: 'jsonb' })
+  headers: string[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
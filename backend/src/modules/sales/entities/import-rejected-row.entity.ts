@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum ImportRejectReason {
+  SKIP_RULE = 'skip_rule',
+  UNSUPPORTED_PAYMENT = 'unsupported_payment',
+  MISSING_MACHINE = 'missing_machine',
+  INVALID_DATE = 'invalid_date',
+  ZERO_PRICE = 'zero_price',
+  PARSE_ERROR = 'parse_error',
+}
+
+/**
+ * A sales file row that was not imported, kept per batch so it can be
+ * reviewed and downloaded for correction. The header row of the batch is
+ * stored once in ImportRejectedHeaders.
+ */
+@Entity('import_rejected_rows')
+@Index(['batchId', 'rowNumber'])
+export class ImportRejectedRow {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'batch_id', type: 'varchar', length: 50 })
+  batchId: string;
+
+  /** Row number in the source sheet (1-based, as shown in Excel) */
+  @Column({ name: 'row_number', type: 'int' })
+  rowNumber: number;
+
+  @Column({ type: 'varchar', length: 30 })
+  reason: ImportRejectReason;
+
+  @Column({ type: 'text', nullable: true })
+  message: string | null;
+
+  /** Cell values as text, by column position */
+  @Column({ name: 'raw_values', type: 'jsonb' })
+  rawValues: string[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Machine } from '../../machines/entities/machine.entity';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Machine code as sent by a telemetry vendor ("VM-012") mapped to one of
+ * our machines ("VM12"). Codes are stored lowercase; matching is
+ * case-insensitive like the machine lookup during import.
+ */
+@Entity('machine_code_aliases')
+export class MachineCodeAlias {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 50 })
+  code: string;
+
+  @ManyToOne(() => Machine, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'machine_id' })
+  machine: Machine;
+
+  @Column({ name: 'machine_id', type: 'uuid' })
+  machineId: string;
+
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: 'created_by_id' })
+  createdBy: User;
+
+  @Column({ name: 'created_by_id', type: 'uuid', nullable: true })
+  createdById: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,78 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum ReconciliationTrigger {
+  SCHEDULED = 'scheduled',
+  MANUAL = 'manual',
+}
+
+/**
+ * Snapshot of a single ReconciliationItem produced by a reconciliation run.
+ * Values are copied (no FK to collections or sales_orders) so the record
+ * survives batch deletion and later collection edits.
+ */
+@Entity('reconciliation_results')
+@Index(['runId'])
+@Index(['collectionId', 'createdAt'])
+export class ReconciliationRecord {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'run_id', type: 'uuid' })
+  runId: string;
+
+  @Column({ type: 'varchar', length: 20, default: ReconciliationTrigger.SCHEDULED })
+  trigger: ReconciliationTrigger;
+
+  @Column({ name: 'collection_id', type: 'uuid', nullable: true })
+  collectionId: string | null;
+
+  @Column({ name: 'machine_code', type: 'varchar', length: 50 })
+  machineCode: string;
+
+  @Column({ name: 'machine_name', type: 'varchar', length: 255, nullable: true })
+  machineName: string;
+
+  @Column({ name: 'period_start', type: 'timestamp' })
+  periodStart: Date;
+
+  @Column({ name: 'period_end', type: 'timestamp' })
+  periodEnd: Date;
+
+  @Column({ name: 'expected_amount', type: 'decimal', precision: 15, scale: 2 })
+  expectedAmount: number;
+
+  @Column({ name: 'refunds_amount', type: 'decimal', precision: 15, scale: 2, default: 0 })
+  refundsAmount: number;
+
+  @Column({ name: 'actual_amount', type: 'decimal', precision: 15, scale: 2 })
+  actualAmount: number;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2 })
+  difference: number;
+
+  @Column({ name: 'percent_deviation', type: 'decimal', precision: 8, scale: 2 })
+  percentDeviation: number;
+
+  @Column({ type: 'varchar', length: 20 })
+  status: string;
+
+  @Column({ name: 'cash_orders_count', type: 'int', default: 0 })
+  cashOrdersCount: number;
+
+  // True when a Telegram shortage alert was sent for this item in this run
+  @Column({ type: 'boolean', default: false })
+  alerted: boolean;
+
+  // True when the shortage was posted to the web inbox in this run
+  @Column({ name: 'web_notified', type: 'boolean', default: false })
+  webNotified: boolean;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,50 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { ImportJobStatus, ImportSalesResultDto } from '../dto/import-sales.dto';
+
+/**
+ * Background sales import. Kept in the database so the status survives a
+ * restart; updated_at doubles as the heartbeat of a running job.
+ */
+@Entity('sales_import_jobs')
+@Index(['batchId'])
+export class SalesImportJob {
+  @PrimaryColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @Column({ name: 'file_name', type: 'varchar', length: 255 })
+  fileName: string;
+
+  @Column({ name: 'batch_id', type: 'varchar', length: 50 })
+  batchId: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  status: ImportJobStatus;
+
+  @Column({ type: 'int', default: 0 })
+  percent: number;
+
+  @Column({ name: 'processed_rows', type: 'int', default: 0 })
+  processedRows: number;
+
+  @Column({ type: 'jsonb', nullable: true })
+  result: ImportSalesResultDto | null;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
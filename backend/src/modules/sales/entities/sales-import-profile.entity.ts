@@ -0,0 +1,96 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/** Order fields a sales file can provide */
+export const SALES_IMPORT_FIELDS = [
+  'orderNumber',
+  'product',
+  'flavor',
+  'paymentResource',
+  'paymentStatus',
+  'machineCode',
+  'address',
+  'price',
+  'orderDate',
+] as const;
+
+export type SalesImportField = (typeof SALES_IMPORT_FIELDS)[number];
+
+export type CriticalImportField = 'paymentResource' | 'machineCode' | 'price' | 'orderDate';
+
+/** Fields without which a row can't be reconciled */
+export const CRITICAL_IMPORT_FIELDS: CriticalImportField[] = ['paymentResource', 'machineCode', 'price', 'orderDate'];
+
+/**
+ * Column reference per field: a column number ("3"), a column letter ("C")
+ * or a header substring ("способ оплаты").
+ */
+export type ImportProfileColumns = Partial<Record<SalesImportField, string>>;
+
+/** Keyword lists (lowercase substrings) mapping payment text to our enums */
+export interface ImportProfilePayments {
+  cash: string[];
+  card: string[];
+  refund?: string[];
+}
+
+export interface ImportProfileSkipRule {
+  field: SalesImportField;
+  match: 'contains' | 'equals' | 'empty';
+  value?: string;
+}
+
+/**
+ * Layout of a sales export from one telemetry provider. Lets a new file
+ * format be supported by adding a row here instead of changing the parser.
+ */
+@Entity('sales_import_profiles')
+export class SalesImportProfile {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ type: 'jsonb' })
+  columns: ImportProfileColumns;
+
+  @Column({ name: 'header_row', type: 'int', default: 1 })
+  headerRow: number;
+
+  /** "auto" or a pattern of dd, MM, yyyy, HH, mm, ss tokens, e.g. "dd.MM.yyyy HH:mm" */
+  @Column({ name: 'date_format', type: 'varchar', length: 50, default: 'auto' })
+  dateFormat: string;
+
+  @Column({ type: 'varchar', length: 50, default: 'Asia/Tashkent' })
+  timezone: string;
+
+  @Column({ type: 'jsonb' })
+  payments: ImportProfilePayments;
+
+  @Column({ name: 'skip_rules', type: 'jsonb', default: () => "'[]'" })
+  skipRules: ImportProfileSkipRule[];
+
+  /** Header substrings that identify the format during auto-detection */
+  @Column({ name: 'detect_headers', type: 'jsonb', default: () => "'[]'" })
+  detectHeaders: string[];
+
+  @Column({ name: 'is_active', type: 'boolean', default: true })
+  isActive: boolean;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
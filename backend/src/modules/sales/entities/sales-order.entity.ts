@@ -72,6 +72,14 @@ export class SalesOrder {
   @Column({ name: 'import_batch_id', type: 'varchar', length: 50 })
   importBatchId: string;
 
+  /** For a refund: the paid order it reverses, matched by order number */
+  @ManyToOne(() => SalesOrder, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'refund_of_id' })
+  refundOf: SalesOrder | null;
+
+  @Column({ name: 'refund_of_id', type: 'uuid', nullable: true })
+  refundOfId: string | null;
+
   @Column({ name: 'imported_at', type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
   importedAt: Date;
 }
@@ -0,0 +1,158 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { MachineCodesService, normalizeMachineCode } from './machine-codes.service';
+import { MachineCodeAlias } from './entities/machine-code-alias.entity';
+import { SalesOrder } from './entities/sales-order.entity';
+import { Machine, MachineStatus } from '../machines/entities/machine.entity';
+import { MachinesService } from '../machines/machines.service';
+
+describe('MachineCodesService', () => {
+  let service: MachineCodesService;
+  let aliasRepository: any;
+  let machineRepository: any;
+  let salesOrderRepository: any;
+  let machinesService: { createByOperator: jest.Mock };
+  let updateQb: any;
+  let ownerQb: any;
+
+  const vm12 = { id: 'machine-1', code: 'VM12', name: 'Lobby' } as Machine;
+
+  beforeEach(async () => {
+    updateQb = {
+      update: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      execute: jest.fn().mockResolvedValue({ affected: 7 }),
+    };
+    ownerQb = {
+      where: jest.fn().mockReturnThis(),
+      getOne: jest.fn().mockResolvedValue(null),
+    };
+    aliasRepository = {
+      find: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn().mockResolvedValue(null),
+      create: jest.fn((data) => data),
+      save: jest.fn(async (data) => ({ id: 'alias-1', ...data })),
+      remove: jest.fn(),
+    };
+    machineRepository = {
+      find: jest.fn().mockResolvedValue([vm12]),
+      findOne: jest.fn().mockResolvedValue(vm12),
+      createQueryBuilder: jest.fn().mockReturnValue(ownerQb),
+    };
+    salesOrderRepository = {
+      createQueryBuilder: jest.fn().mockReturnValue(updateQb),
+    };
+    machinesService = {
+      createByOperator: jest.fn(async (dto, userId) => ({
+        id: 'machine-2',
+        ...dto,
+        status: MachineStatus.PENDING,
+        createdById: userId,
+      })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MachineCodesService,
+        { provide: getRepositoryToken(MachineCodeAlias), useValue: aliasRepository },
+        { provide: getRepositoryToken(Machine), useValue: machineRepository },
+        { provide: getRepositoryToken(SalesOrder), useValue: salesOrderRepository },
+        { provide: MachinesService, useValue: machinesService },
+      ],
+    }).compile();
+
+    service = module.get<MachineCodesService>(MachineCodesService);
+  });
+
+  describe('normalizeMachineCode', () => {
+    it('should ignore case, separators and leading zeros', () => {
+      expect(normalizeMachineCode('VM-012')).toBe('vm12');
+      expect(normalizeMachineCode('vm 12')).toBe('vm12');
+      expect(normalizeMachineCode('VM100')).toBe('vm100');
+    });
+  });
+
+  describe('getLookup', () => {
+    it('should resolve aliases and let machine codes win', async () => {
+      aliasRepository.find.mockResolvedValue([
+        { code: 'vm-012', machineId: 'machine-1' },
+        { code: 'vm12', machineId: 'machine-9' },
+      ]);
+
+      const lookup = await service.getLookup();
+
+      expect(lookup.get('vm-012')).toBe('machine-1');
+      expect(lookup.get('vm12')).toBe('machine-1');
+    });
+  });
+
+  describe('findUnresolved', () => {
+    it('should suggest the machine with the same normalized code', async () => {
+      const qb = {
+        select: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        groupBy: jest.fn().mockReturnThis(),
+        orderBy: jest.fn().mockReturnThis(),
+        getRawMany: jest.fn().mockResolvedValue([
+          { code: 'VM-012', ordersCount: '40', firstOrderDate: '2025-09-01T00:00:00Z', lastOrderDate: '2025-09-30T00:00:00Z' },
+          { code: 'X99', ordersCount: '2', firstOrderDate: '2025-09-05T00:00:00Z', lastOrderDate: '2025-09-06T00:00:00Z' },
+        ]),
+      };
+      salesOrderRepository.createQueryBuilder.mockReturnValue(qb);
+
+      const result = await service.findUnresolved();
+
+      expect(result[0]).toMatchObject({
+        code: 'VM-012',
+        ordersCount: 40,
+        suggestedMachine: { id: 'machine-1', code: 'VM12', name: 'Lobby' },
+      });
+      expect(result[1].suggestedMachine).toBeNull();
+    });
+  });
+
+  describe('mapCode', () => {
+    it('should save a lowercase alias and back-fill unlinked orders', async () => {
+      const result = await service.mapCode({ code: 'VM-012', machineId: 'machine-1' }, 'user-1');
+
+      expect(aliasRepository.save).toHaveBeenCalledWith({ code: 'vm-012', machineId: 'machine-1', createdById: 'user-1' });
+      expect(updateQb.set).toHaveBeenCalledWith({ machineId: 'machine-1' });
+      expect(updateQb.andWhere).toHaveBeenCalledWith('LOWER(machine_code) = :code', { code: 'vm-012' });
+      expect(result.updated).toBe(7);
+    });
+
+    it('should only back-fill when the code is the machine code itself', async () => {
+      const result = await service.mapCode({ code: 'vm12', machineId: 'machine-1' }, 'user-1');
+
+      expect(aliasRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({ alias: null, updated: 7 });
+    });
+
+    it('should refuse to alias the code of another machine', async () => {
+      ownerQb.getOne.mockResolvedValue({ id: 'machine-3', code: 'A01' });
+
+      await expect(service.mapCode({ code: 'A01', machineId: 'machine-1' }, 'user-1')).rejects.toThrow(ConflictException);
+      expect(updateQb.execute).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown machine', async () => {
+      machineRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.mapCode({ code: 'VM-012', machineId: 'missing' }, 'user-1')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('createMachine', () => {
+    it('should create a pending machine named after the code and link its orders', async () => {
+      const result = await service.createMachine({ code: 'X99' }, 'user-1');
+
+      expect(machinesService.createByOperator).toHaveBeenCalledWith({ code: 'X99', name: 'X99', location: undefined }, 'user-1');
+      expect(result.machine.status).toBe(MachineStatus.PENDING);
+      expect(updateQb.set).toHaveBeenCalledWith({ machineId: 'machine-2' });
+      expect(result.updated).toBe(7);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { SalesOrder } from './entities/sales-order.entity';
+import { MachineCodeAlias } from './entities/machine-code-alias.entity';
+import { Machine } from '../machines/entities/machine.entity';
+import { MachinesService } from '../machines/machines.service';
+import { MapMachineCodeDto, CreateMachineFromCodeDto } from './dto/machine-code.dto';
+
+/**
+ * Loose form of a machine code for suggestions: lowercase, letters and
+ * digits only, no leading zeros in numbers. "VM-012" → "vm12".
+ */
+export function normalizeMachineCode(code: string): string {
+  return code
+    .toLowerCase()
+    .replace(/[^a-z0-9а-яё]/g, '')
+    .replace(/(^|[^0-9])0+(?=\d)/g, '$1');
+}
+
+export interface UnresolvedMachineCode {
+  code: string;
+  ordersCount: number;
+  firstOrderDate: string;
+  lastOrderDate: string;
+  /** Machine whose code looks the same once normalized */
+  suggestedMachine: { id: string; code: string; name: string } | null;
+}
+
+/**
+ * Resolves machine codes from sales files to our machines: direct code
+ * match first, then admin-maintained aliases.
+ */
+@Injectable()
+export class MachineCodesService {
+  private readonly logger = new Logger(MachineCodesService.name);
+
+  constructor(
+    @InjectRepository(MachineCodeAlias)
+    private readonly aliasRepository: Repository<MachineCodeAlias>,
+    @InjectRepository(Machine)
+    private readonly machineRepository: Repository<Machine>,
+    @InjectRepository(SalesOrder)
+    private readonly salesOrderRepository: Repository<SalesOrder>,
+    private readonly machinesService: MachinesService,
+  ) {}
+
+  /** Lowercase code → machine id; a machine's own code wins over an alias */
+  async getLookup(): Promise<Map<string, string>> {
+    const [aliases, machines] = await Promise.all([this.aliasRepository.find(), this.machineRepository.find()]);
+    const lookup = new Map<string, string>();
+    aliases.forEach((a) => lookup.set(a.code, a.machineId));
+    machines.forEach((m) => lookup.set(m.code.toLowerCase(), m.id));
+    return lookup;
+  }
+
+  /** Codes of imported orders that aren't linked to any machine */
+  async findUnresolved(): Promise<UnresolvedMachineCode[]> {
+    const rows = await this.salesOrderRepository
+      .createQueryBuilder('so')
+      .select([
+        'so.machineCode AS "code"',
+        'COUNT(*) AS "ordersCount"',
+        'MIN(so.orderDate) AS "firstOrderDate"',
+        'MAX(so.orderDate) AS "lastOrderDate"',
+      ])
+      .where('so.machineId IS NULL')
+      .groupBy('so.machineCode')
+      .orderBy('"ordersCount"', 'DESC')
+      .getRawMany();
+
+    const machines = await this.machineRepository.find();
+    const byNormalized = new Map(machines.map((m) => [normalizeMachineCode(m.code), m]));
+
+    return rows.map((r) => {
+      const suggested = byNormalized.get(normalizeMachineCode(r.code));
+      return {
+        code: r.code,
+        ordersCount: parseInt(r.ordersCount) || 0,
+        firstOrderDate: new Date(r.firstOrderDate).toISOString(),
+        lastOrderDate: new Date(r.lastOrderDate).toISOString(),
+        suggestedMachine: suggested ? { id: suggested.id, code: suggested.code, name: suggested.name } : null,
+      };
+    });
+  }
+
+  async findAliases(): Promise<MachineCodeAlias[]> {
+    return this.aliasRepository.find({
+      relations: ['machine'],
+      order: { code: 'ASC' },
+    });
+  }
+
+  /**
+   * Map a vendor code to an existing machine and link its orders.
+   * Re-mapping an alias moves only orders that are still unlinked.
+   */
+  async mapCode(dto: MapMachineCodeDto, userId: string): Promise<{ alias: MachineCodeAlias | null; updated: number }> {
+    const machine = await this.machineRepository.findOne({ where: { id: dto.machineId } });
+    if (!machine) {
+      throw new NotFoundException('Machine not found');
+    }
+
+    const code = dto.code.toLowerCase();
+    let alias: MachineCodeAlias | null = null;
+    if (code !== machine.code.toLowerCase()) {
+      const owner = await this.machineRepository
+        .createQueryBuilder('m')
+        .where('LOWER(m.code) = :code', { code })
+        .getOne();
+      if (owner) {
+        throw new ConflictException(`Code belongs to machine ${owner.code}`);
+      }
+
+      alias = await this.aliasRepository.findOne({ where: { code } });
+      if (alias) {
+        alias.machineId = machine.id;
+      } else {
+        alias = this.aliasRepository.create({ code, machineId: machine.id, createdById: userId });
+      }
+      alias = await this.aliasRepository.save(alias);
+    }
+
+    const updated = await this.backfill(code, machine.id);
+    this.logger.log(`Machine code "${dto.code}" mapped to ${machine.code}, ${updated} orders linked`);
+    return { alias, updated };
+  }
+
+  /** Register an unknown code as a new machine awaiting approval */
+  async createMachine(dto: CreateMachineFromCodeDto, userId: string): Promise<{ machine: Machine; updated: number }> {
+    const machine = await this.machinesService.createByOperator(
+      { code: dto.code, name: dto.name || dto.code, location: dto.location },
+      userId,
+    );
+    const updated = await this.backfill(dto.code.toLowerCase(), machine.id);
+    this.logger.log(`Machine ${machine.code} created from sales code, ${updated} orders linked`);
+    return { machine, updated };
+  }
+
+  /** Orders already linked through the alias keep their machine */
+  async removeAlias(id: string): Promise<void> {
+    const alias = await this.aliasRepository.findOne({ where: { id } });
+    if (!alias) {
+      throw new NotFoundException('Alias not found');
+    }
+    await this.aliasRepository.remove(alias);
+  }
+
+  private async backfill(code: string, machineId: string): Promise<number> {
+    const result = await this.salesOrderRepository
+      .createQueryBuilder()
+      .update(SalesOrder)
+      .set({ machineId })
+      .where('machine_id IS NULL')
+      .andWhere('LOWER(machine_code) = :code', { code })
+      .execute();
+    return result.affected || 0;
+  }
+}
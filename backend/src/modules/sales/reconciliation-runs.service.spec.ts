@@ -0,0 +1,300 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { NotFoundException } from '@nestjs/common'
+import { ReconciliationRunsService } from './reconciliation-runs.service'
+import { SalesService, ReconciliationItem } from './sales.service'
+import {
+  ReconciliationRecord,
+  ReconciliationTrigger,
+} from './entities/reconciliation-record.entity'
+import { TelegramService } from '../../telegram/telegram.service'
+import { SettingsService } from '../settings/settings.service'
+import { NotificationsGateway } from '../../notifications/notifications.gateway'
+
+describe('ReconciliationRunsService', () => {
+  let service: ReconciliationRunsService
+  let recordRepository: any
+  let salesService: { getReconciliation: jest.Mock }
+  let telegramService: { notifyReconciliationShortages: jest.Mock }
+  let settingsService: { getNumericSetting: jest.Mock }
+  let notificationsGateway: { notifyReconciliationShortage: jest.Mock }
+  let qb: any
+
+  const makeItem = (overrides: Partial<ReconciliationItem> = {}): ReconciliationItem => ({
+    machineCode: 'A01',
+    machineName: 'Machine A01',
+    periodStart: '2025-02-01T10:00:00.000Z',
+    periodEnd: '2025-02-05T10:00:00.000Z',
+    expectedAmount: 100000,
+    refundsAmount: 0,
+    actualAmount: 100000,
+    difference: 0,
+    percentDeviation: 0,
+    status: 'matched',
+    cashOrdersCount: 10,
+    collectionId: 'col-1',
+    ...overrides,
+  })
+
+  const shortage = makeItem({
+    collectionId: 'col-2',
+    actualAmount: 80000,
+    difference: 20000,
+    percentDeviation: 20,
+    status: 'shortage',
+  })
+
+  const smallShortage = makeItem({
+    collectionId: 'col-3',
+    actualAmount: 95000,
+    difference: 5000,
+    percentDeviation: 5,
+    status: 'shortage',
+  })
+
+  beforeEach(async () => {
+    qb = {
+      select: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getRawMany: jest.fn().mockResolvedValue([]),
+    }
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReconciliationRunsService,
+        {
+          provide: getRepositoryToken(ReconciliationRecord),
+          useValue: {
+            create: jest.fn().mockImplementation((data) => data),
+            save: jest.fn().mockImplementation(async (data) => data),
+            find: jest.fn().mockResolvedValue([]),
+            createQueryBuilder: jest.fn().mockReturnValue(qb),
+          },
+        },
+        {
+          provide: SalesService,
+          useValue: { getReconciliation: jest.fn() },
+        },
+        {
+          provide: TelegramService,
+          useValue: { notifyReconciliationShortages: jest.fn().mockResolvedValue(2) },
+        },
+        {
+          provide: SettingsService,
+          useValue: { getNumericSetting: jest.fn().mockResolvedValue(10) },
+        },
+        {
+          provide: NotificationsGateway,
+          useValue: { notifyReconciliationShortage: jest.fn().mockResolvedValue(undefined) },
+        },
+      ],
+    }).compile()
+
+    service = module.get(ReconciliationRunsService)
+    recordRepository = module.get(getRepositoryToken(ReconciliationRecord))
+    salesService = module.get(SalesService)
+    telegramService = module.get(TelegramService)
+    settingsService = module.get(SettingsService)
+    notificationsGateway = module.get(NotificationsGateway)
+  })
+
+  describe('run', () => {
+    it('should persist every item under one run id', async () => {
+      salesService.getReconciliation.mockResolvedValue({
+        items: [makeItem(), shortage, smallShortage],
+        summary: {},
+      })
+
+      const result = await service.run(
+        { from: '2025-02-01' },
+        { trigger: ReconciliationTrigger.MANUAL },
+      )
+
+      expect(salesService.getReconciliation).toHaveBeenCalledWith({ from: '2025-02-01' })
+      const saved = recordRepository.save.mock.calls[0][0]
+      expect(saved).toHaveLength(3)
+      expect(new Set(saved.map((r: ReconciliationRecord) => r.runId))).toEqual(
+        new Set([result.runId]),
+      )
+      expect(saved[0]).toEqual(
+        expect.objectContaining({
+          trigger: ReconciliationTrigger.MANUAL,
+          collectionId: 'col-1',
+          periodStart: new Date('2025-02-01T10:00:00.000Z'),
+          status: 'matched',
+        }),
+      )
+      expect(result).toEqual({
+        runId: expect.any(String),
+        totalItems: 3,
+        shortagesFound: 1,
+        alertsSent: true,
+      })
+    })
+
+    it('should alert only shortages above threshold and mark them as alerted', async () => {
+      salesService.getReconciliation.mockResolvedValue({
+        items: [shortage, smallShortage],
+        summary: {},
+      })
+
+      await service.run({}, { trigger: ReconciliationTrigger.MANUAL })
+
+      expect(telegramService.notifyReconciliationShortages).toHaveBeenCalledWith([shortage])
+      expect(notificationsGateway.notifyReconciliationShortage).toHaveBeenCalledWith([shortage])
+      const saved = recordRepository.save.mock.calls[0][0]
+      expect(saved.find((r: ReconciliationRecord) => r.collectionId === 'col-2').alerted).toBe(true)
+      expect(saved.find((r: ReconciliationRecord) => r.collectionId === 'col-3').alerted).toBe(
+        false,
+      )
+      expect(saved.find((r: ReconciliationRecord) => r.collectionId === 'col-2').webNotified).toBe(
+        true,
+      )
+      expect(saved.find((r: ReconciliationRecord) => r.collectionId === 'col-3').webNotified).toBe(
+        false,
+      )
+    })
+
+    it('should use SHORTAGE_ALERT_THRESHOLD from settings', async () => {
+      settingsService.getNumericSetting.mockResolvedValue(3)
+      salesService.getReconciliation.mockResolvedValue({
+        items: [shortage, smallShortage],
+        summary: {},
+      })
+
+      const result = await service.run({}, { trigger: ReconciliationTrigger.MANUAL })
+
+      expect(result.shortagesFound).toBe(2)
+      expect(telegramService.notifyReconciliationShortages).toHaveBeenCalledWith([
+        shortage,
+        smallShortage,
+      ])
+    })
+
+    it('should skip collections alerted in earlier runs when requested', async () => {
+      salesService.getReconciliation.mockResolvedValue({ items: [shortage], summary: {} })
+      recordRepository.find.mockResolvedValue([{ collectionId: 'col-2' }])
+
+      const result = await service.run(
+        {},
+        { trigger: ReconciliationTrigger.SCHEDULED, skipAlreadyAlerted: true },
+      )
+
+      expect(telegramService.notifyReconciliationShortages).not.toHaveBeenCalled()
+      expect(result.alertsSent).toBe(false)
+      expect(result.shortagesFound).toBe(1)
+      expect(recordRepository.save.mock.calls[0][0][0].alerted).toBe(false)
+    })
+
+    it('should still persist results when Telegram fails', async () => {
+      salesService.getReconciliation.mockResolvedValue({ items: [shortage], summary: {} })
+      telegramService.notifyReconciliationShortages.mockRejectedValue(new Error('Bot down'))
+
+      const result = await service.run({}, { trigger: ReconciliationTrigger.SCHEDULED })
+
+      expect(result.alertsSent).toBe(false)
+      expect(recordRepository.save.mock.calls[0][0][0].alerted).toBe(false)
+    })
+
+    it('should not mark shortages as alerted when no manager got the message', async () => {
+      salesService.getReconciliation.mockResolvedValue({ items: [shortage], summary: {} })
+      telegramService.notifyReconciliationShortages.mockResolvedValue(0)
+
+      const result = await service.run({}, { trigger: ReconciliationTrigger.SCHEDULED })
+
+      expect(telegramService.notifyReconciliationShortages).toHaveBeenCalledWith([shortage])
+      expect(result.alertsSent).toBe(false)
+      expect(recordRepository.save.mock.calls[0][0][0].alerted).toBe(false)
+    })
+
+    it('should still alert over Telegram when the web notification fails', async () => {
+      salesService.getReconciliation.mockResolvedValue({ items: [shortage], summary: {} })
+      notificationsGateway.notifyReconciliationShortage.mockRejectedValue(new Error('DB down'))
+
+      const result = await service.run({}, { trigger: ReconciliationTrigger.SCHEDULED })
+
+      expect(telegramService.notifyReconciliationShortages).toHaveBeenCalledWith([shortage])
+      expect(result.alertsSent).toBe(true)
+      expect(recordRepository.save.mock.calls[0][0][0].webNotified).toBe(false)
+    })
+
+    it('should not repeat the web notification while the Telegram alert is retried', async () => {
+      salesService.getReconciliation.mockResolvedValue({ items: [shortage], summary: {} })
+      // col-2 reached the inbox in an earlier run but no manager on Telegram
+      recordRepository.find.mockImplementation(({ where }: { where: { webNotified?: boolean } }) =>
+        Promise.resolve(where.webNotified ? [{ collectionId: 'col-2' }] : []),
+      )
+
+      const result = await service.run(
+        {},
+        { trigger: ReconciliationTrigger.SCHEDULED, skipAlreadyAlerted: true },
+      )
+
+      expect(telegramService.notifyReconciliationShortages).toHaveBeenCalledWith([shortage])
+      expect(notificationsGateway.notifyReconciliationShortage).not.toHaveBeenCalled()
+      expect(result.alertsSent).toBe(true)
+      expect(recordRepository.save.mock.calls[0][0][0].webNotified).toBe(false)
+    })
+
+    it('should not save anything for an empty result', async () => {
+      salesService.getReconciliation.mockResolvedValue({ items: [], summary: {} })
+
+      const result = await service.run({}, { trigger: ReconciliationTrigger.SCHEDULED })
+
+      expect(recordRepository.save).not.toHaveBeenCalled()
+      expect(result.totalItems).toBe(0)
+    })
+  })
+
+  describe('findRuns', () => {
+    it('should aggregate records by run id', async () => {
+      qb.getRawMany.mockResolvedValue([
+        {
+          runId: 'run-1',
+          trigger: 'scheduled',
+          createdAt: '2025-02-06T21:00:00.000Z',
+          itemsCount: '12',
+          shortageCount: '3',
+          alertedCount: '1',
+          totalDifference: '15000.456',
+        },
+      ])
+
+      const result = await service.findRuns()
+
+      expect(qb.groupBy).toHaveBeenCalledWith('r.runId')
+      expect(qb.limit).toHaveBeenCalledWith(30)
+      expect(result).toEqual([
+        {
+          runId: 'run-1',
+          trigger: 'scheduled',
+          createdAt: '2025-02-06T21:00:00.000Z',
+          itemsCount: 12,
+          shortageCount: 3,
+          alertedCount: 1,
+          totalDifference: 15000.46,
+        },
+      ])
+    })
+  })
+
+  describe('findRunItems', () => {
+    it('should return records of the run', async () => {
+      recordRepository.find.mockResolvedValue([{ id: 'rec-1', runId: 'run-1' }])
+
+      const result = await service.findRunItems('run-1')
+
+      expect(recordRepository.find).toHaveBeenCalledWith({
+        where: { runId: 'run-1' },
+        order: { periodEnd: 'DESC' },
+      })
+      expect(result).toHaveLength(1)
+    })
+
+    it('should throw NotFoundException for unknown run', async () => {
+      await expect(service.findRunItems('missing')).rejects.toThrow(NotFoundException)
+    })
+  })
+})
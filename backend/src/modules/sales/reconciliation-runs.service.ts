@@ -0,0 +1,219 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { In, Repository } from 'typeorm'
+import { v4 as uuidv4 } from 'uuid'
+import { SalesService, ReconciliationItem } from './sales.service'
+import {
+  ReconciliationRecord,
+  ReconciliationTrigger,
+} from './entities/reconciliation-record.entity'
+import { ReconciliationQueryDto } from './dto/sales-query.dto'
+import { TelegramService } from '../../telegram/telegram.service'
+import { NotificationsGateway } from '../../notifications/notifications.gateway'
+import { SettingsService, SETTING_KEYS } from '../settings/settings.service'
+
+export interface ReconciliationRunOptions {
+  trigger: ReconciliationTrigger
+  /** Do not alert again for collections already alerted in an earlier run */
+  skipAlreadyAlerted?: boolean
+}
+
+export interface ReconciliationRunSummary {
+  runId: string
+  totalItems: number
+  shortagesFound: number
+  alertsSent: boolean
+}
+
+@Injectable()
+export class ReconciliationRunsService {
+  private readonly logger = new Logger(ReconciliationRunsService.name)
+
+  constructor(
+    @InjectRepository(ReconciliationRecord)
+    private readonly recordRepository: Repository<ReconciliationRecord>,
+    private readonly salesService: SalesService,
+    private readonly telegramService: TelegramService,
+    private readonly settingsService: SettingsService,
+    private readonly notificationsGateway: NotificationsGateway,
+  ) {}
+
+  /**
+   * Run reconciliation, alert managers about shortages above
+   * SHORTAGE_ALERT_THRESHOLD and persist every item under a new run id.
+   */
+  async run(
+    query: ReconciliationQueryDto,
+    options: ReconciliationRunOptions,
+  ): Promise<ReconciliationRunSummary> {
+    const runId = uuidv4()
+    const result = await this.salesService.getReconciliation(query)
+
+    // Get threshold from settings (default 10%)
+    const threshold = await this.settingsService.getNumericSetting(
+      SETTING_KEYS.SHORTAGE_ALERT_THRESHOLD,
+      10,
+    )
+
+    const significantShortages = result.items.filter(
+      (item) => item.status === 'shortage' && Math.abs(item.percentDeviation) > threshold,
+    )
+
+    let toAlert = significantShortages
+    if (options.skipAlreadyAlerted && significantShortages.length > 0) {
+      const alreadyAlerted = await this.findNotifiedCollectionIds(
+        significantShortages.map((item) => item.collectionId),
+        'alerted',
+      )
+      toAlert = significantShortages.filter((item) => !alreadyAlerted.has(item.collectionId))
+    }
+
+    let alertsSent = false
+    if (toAlert.length > 0) {
+      try {
+        // Nobody reached (all muted, in quiet hours or unreachable) leaves them for the next run
+        alertsSent = (await this.telegramService.notifyReconciliationShortages(toAlert)) > 0
+      } catch (err) {
+        this.logger.error('Failed to send reconciliation alerts', err)
+      }
+    }
+
+    // The inbox keeps notifications, so each shortage is posted there once,
+    // however often the Telegram alert is retried
+    let toNotifyWeb: ReconciliationItem[] = []
+    if (significantShortages.length > 0) {
+      const alreadyNotified = await this.findNotifiedCollectionIds(
+        significantShortages.map((item) => item.collectionId),
+        'webNotified',
+      )
+      toNotifyWeb = significantShortages.filter((item) => !alreadyNotified.has(item.collectionId))
+    }
+    let webSent = false
+    if (toNotifyWeb.length > 0) {
+      try {
+        await this.notificationsGateway.notifyReconciliationShortage(toNotifyWeb)
+        webSent = true
+      } catch (err) {
+        this.logger.error('Failed to send reconciliation web notification', err)
+      }
+    }
+
+    const alertedIds = new Set(alertsSent ? toAlert.map((item) => item.collectionId) : [])
+    const webNotifiedIds = new Set(webSent ? toNotifyWeb.map((item) => item.collectionId) : [])
+    const records = result.items.map((item) =>
+      this.toRecord(
+        item,
+        runId,
+        options.trigger,
+        alertedIds.has(item.collectionId),
+        webNotifiedIds.has(item.collectionId),
+      ),
+    )
+    if (records.length > 0) {
+      await this.recordRepository.save(records, { chunk: 500 })
+    }
+
+    this.logger.log(
+      `Reconciliation run ${runId} (${options.trigger}): items=${records.length} ` +
+        `shortages=${significantShortages.length} alerted=${alertedIds.size}`,
+    )
+
+    return {
+      runId,
+      totalItems: result.items.length,
+      shortagesFound: significantShortages.length,
+      alertsSent,
+    }
+  }
+
+  /**
+   * List past runs, newest first
+   */
+  async findRuns(limit = 30): Promise<
+    Array<{
+      runId: string
+      trigger: string
+      createdAt: string
+      itemsCount: number
+      shortageCount: number
+      alertedCount: number
+      totalDifference: number
+    }>
+  > {
+    const results = await this.recordRepository
+      .createQueryBuilder('r')
+      .select([
+        'r.runId AS "runId"',
+        'MIN(r.trigger) AS "trigger"',
+        'MIN(r.createdAt) AS "createdAt"',
+        'COUNT(*) AS "itemsCount"',
+        `COUNT(*) FILTER (WHERE r.status = 'shortage') AS "shortageCount"`,
+        'COUNT(*) FILTER (WHERE r.alerted) AS "alertedCount"',
+        'COALESCE(SUM(r.difference), 0) AS "totalDifference"',
+      ])
+      .groupBy('r.runId')
+      .orderBy('"createdAt"', 'DESC')
+      .limit(limit)
+      .getRawMany()
+
+    return results.map((r) => ({
+      runId: r.runId,
+      trigger: r.trigger,
+      createdAt: r.createdAt,
+      itemsCount: parseInt(r.itemsCount) || 0,
+      shortageCount: parseInt(r.shortageCount) || 0,
+      alertedCount: parseInt(r.alertedCount) || 0,
+      totalDifference: Math.round(Number(r.totalDifference) * 100) / 100,
+    }))
+  }
+
+  async findRunItems(runId: string): Promise<ReconciliationRecord[]> {
+    const records = await this.recordRepository.find({
+      where: { runId },
+      order: { periodEnd: 'DESC' },
+    })
+    if (records.length === 0) {
+      throw new NotFoundException('Reconciliation run not found')
+    }
+    return records
+  }
+
+  /** Collections that got `channel` in any earlier run */
+  private async findNotifiedCollectionIds(
+    collectionIds: string[],
+    channel: 'alerted' | 'webNotified',
+  ): Promise<Set<string>> {
+    const notified = await this.recordRepository.find({
+      select: ['collectionId'],
+      where: { collectionId: In(collectionIds), [channel]: true },
+    })
+    return new Set(notified.map((r) => r.collectionId as string))
+  }
+
+  private toRecord(
+    item: ReconciliationItem,
+    runId: string,
+    trigger: ReconciliationTrigger,
+    alerted: boolean,
+    webNotified: boolean,
+  ): ReconciliationRecord {
+    return this.recordRepository.create({
+      runId,
+      trigger,
+      collectionId: item.collectionId,
+      machineCode: item.machineCode,
+      machineName: item.machineName,
+      periodStart: new Date(item.periodStart),
+      periodEnd: new Date(item.periodEnd),
+      expectedAmount: item.expectedAmount,
+      refundsAmount: item.refundsAmount,
+      actualAmount: item.actualAmount,
+      difference: item.difference,
+      percentDeviation: item.percentDeviation,
+      status: item.status,
+      cashOrdersCount: item.cashOrdersCount,
+      alerted,
+      webNotified,
+    })
+  }
+}
@@ -0,0 +1,46 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ReconciliationSchedulerService } from './reconciliation-scheduler.service';
+import { ReconciliationRunsService } from './reconciliation-runs.service';
+import { ReconciliationTrigger } from './entities/reconciliation-record.entity';
+
+describe('ReconciliationSchedulerService', () => {
+  let service: ReconciliationSchedulerService;
+  let runsService: { run: jest.Mock };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReconciliationSchedulerService,
+        {
+          provide: ReconciliationRunsService,
+          useValue: { run: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(ReconciliationSchedulerService);
+    runsService = module.get(ReconciliationRunsService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should reconcile the last 7 Tashkent days as a scheduled run', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-02-10T21:30:00.000Z')); // 02:30 on Feb 11 in Tashkent
+    runsService.run.mockResolvedValue({ runId: 'run-1', totalItems: 5, shortagesFound: 1, alertsSent: true });
+
+    await service.runNightlyReconciliation();
+
+    expect(runsService.run).toHaveBeenCalledWith(
+      { from: '2025-02-04', to: '2025-02-11' },
+      { trigger: ReconciliationTrigger.SCHEDULED, skipAlreadyAlerted: true },
+    );
+  });
+
+  it('should not throw when the run fails', async () => {
+    runsService.run.mockRejectedValue(new Error('DB down'));
+
+    await expect(service.runNightlyReconciliation()).resolves.toBeUndefined();
+  });
+});
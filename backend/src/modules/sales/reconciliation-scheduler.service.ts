@@ -0,0 +1,38 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ReconciliationRunsService } from './reconciliation-runs.service';
+import { ReconciliationTrigger } from './entities/reconciliation-record.entity';
+import { PG_TASHKENT_TZ } from '../../common/utils/timezone';
+
+// Sales exports often arrive a few days late, so each nightly run
+// re-checks collections of the last week.
+const LOOKBACK_DAYS = 7;
+
+@Injectable()
+export class ReconciliationSchedulerService {
+  private readonly logger = new Logger(ReconciliationSchedulerService.name);
+
+  constructor(private readonly reconciliationRunsService: ReconciliationRunsService) {}
+
+  @Cron(CronExpression.EVERY_DAY_AT_2AM, { timeZone: PG_TASHKENT_TZ })
+  async runNightlyReconciliation() {
+    try {
+      const now = Date.now();
+      const toTashkentDate = (ms: number) =>
+        new Date(ms).toLocaleDateString('en-CA', { timeZone: PG_TASHKENT_TZ });
+
+      const result = await this.reconciliationRunsService.run(
+        {
+          from: toTashkentDate(now - LOOKBACK_DAYS * 24 * 60 * 60 * 1000),
+          to: toTashkentDate(now),
+        },
+        { trigger: ReconciliationTrigger.SCHEDULED, skipAlreadyAlerted: true },
+      );
+      this.logger.log(
+        `Nightly reconciliation ${result.runId}: ${result.totalItems} items, ${result.shortagesFound} shortages`,
+      );
+    } catch (error) {
+      this.logger.error('Failed to run nightly reconciliation:', error);
+    }
+  }
+}
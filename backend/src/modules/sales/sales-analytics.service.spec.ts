@@ -0,0 +1,152 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { SalesAnalyticsService } from './sales-analytics.service';
+import { SalesOrder, PaymentStatus } from './entities/sales-order.entity';
+import { MachineCodesService } from './machine-codes.service';
+
+describe('SalesAnalyticsService', () => {
+  let service: SalesAnalyticsService;
+  let salesOrderRepository: { createQueryBuilder: jest.Mock };
+  let machineCodesService: { getLookup: jest.Mock };
+
+  const createQb = (rows: unknown[]) => {
+    const qb: any = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      leftJoin: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      addGroupBy: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      getRawMany: jest.fn().mockResolvedValue(rows),
+    };
+    return qb;
+  };
+
+  beforeEach(async () => {
+    salesOrderRepository = { createQueryBuilder: jest.fn() };
+    // Vendor code "VM-012" is an alias of our machine "VM12"
+    machineCodesService = {
+      getLookup: jest.fn().mockResolvedValue(new Map([['vm12', 'machine-12'], ['vm-012', 'machine-12']])),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SalesAnalyticsService,
+        { provide: getRepositoryToken(SalesOrder), useValue: salesOrderRepository },
+        { provide: MachineCodesService, useValue: machineCodesService },
+      ],
+    }).compile();
+
+    service = module.get<SalesAnalyticsService>(SalesAnalyticsService);
+  });
+
+  describe('getProductSales', () => {
+    it('should group paid orders by product, flavor and machine', async () => {
+      const qb = createQb([
+        { productName: 'Latte', flavor: 'Vanilla', machineCode: 'A01', machineName: 'Lobby', units: '12', revenue: '180000.00' },
+        { productName: null, flavor: '', machineCode: 'B02', machineName: null, units: '1', revenue: '9000' },
+      ]);
+      salesOrderRepository.createQueryBuilder.mockReturnValue(qb);
+
+      const result = await service.getProductSales({ from: '2025-09-01', to: '2025-09-30', machineCode: 'a01' });
+
+      expect(qb.where).toHaveBeenCalledWith('so.paymentStatus = :paid', { paid: PaymentStatus.PAID });
+      expect(qb.andWhere).toHaveBeenCalledWith('LOWER(so.machineCode) = LOWER(:machineCode)', { machineCode: 'a01' });
+      expect(result).toEqual([
+        { productName: 'Latte', flavor: 'Vanilla', machineCode: 'A01', machineName: 'Lobby', units: 12, revenue: 180000 },
+        { productName: null, flavor: null, machineCode: 'B02', machineName: null, units: 1, revenue: 9000 },
+      ]);
+    });
+
+    it('should filter by machine id when the code resolves to a machine', async () => {
+      const qb = createQb([]);
+      salesOrderRepository.createQueryBuilder.mockReturnValue(qb);
+
+      await service.getProductSales({ machineCode: 'VM12' });
+
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        '(so.machineId = :machineId OR (so.machineId IS NULL AND LOWER(so.machineCode) = LOWER(:machineCode)))',
+        { machineId: 'machine-12', machineCode: 'VM12' },
+      );
+    });
+
+    it('should report orders under the machine code rather than the vendor variant', async () => {
+      const qb = createQb([]);
+      salesOrderRepository.createQueryBuilder.mockReturnValue(qb);
+
+      await service.getProductSales({});
+
+      expect(machineCodesService.getLookup).not.toHaveBeenCalled();
+      expect(qb.select.mock.calls[0][0]).toContain('COALESCE(machine.code, so.machineCode) AS "machineCode"');
+      expect(qb.addGroupBy).toHaveBeenCalledWith('COALESCE(machine.code, so.machineCode)');
+      expect(qb.addGroupBy).not.toHaveBeenCalledWith('so.machineCode');
+    });
+  });
+
+  describe('getHeatmap', () => {
+    it('should bucket sales by Tashkent weekday and hour', async () => {
+      const qb = createQb([{ weekday: '1', hour: '8', units: '5', revenue: '50000' }]);
+      salesOrderRepository.createQueryBuilder.mockReturnValue(qb);
+
+      const result = await service.getHeatmap({});
+
+      expect(qb.select.mock.calls[0][0][0]).toContain("AT TIME ZONE 'Asia/Tashkent'");
+      expect(qb.andWhere).not.toHaveBeenCalled();
+      expect(result).toEqual([{ weekday: 1, hour: 8, units: 5, revenue: 50000 }]);
+    });
+  });
+
+  describe('getProductMix', () => {
+    it('should compare shares with the preceding period of the same length', async () => {
+      const current = createQb([
+        { productName: 'Latte', flavor: null, units: '30', revenue: '300000' },
+        { productName: 'Tea', flavor: 'Lemon', units: '10', revenue: '50000' },
+      ]);
+      const previous = createQb([
+        { productName: 'Latte', flavor: null, units: '20', revenue: '200000' },
+        { productName: 'Cocoa', flavor: null, units: '20', revenue: '160000' },
+      ]);
+      salesOrderRepository.createQueryBuilder.mockReturnValueOnce(current).mockReturnValueOnce(previous);
+
+      const result = await service.getProductMix({ from: '2025-09-01', to: '2025-09-30' });
+
+      expect(result.comparePeriod).toEqual({ from: '2025-08-02', to: '2025-08-31' });
+      expect(result.items).toEqual([
+        expect.objectContaining({ productName: 'Latte', units: 30, share: 75, previousShare: 50, shareChange: 25 }),
+        expect.objectContaining({ productName: 'Tea', flavor: 'Lemon', units: 10, share: 25, previousUnits: 0, shareChange: 25 }),
+        expect.objectContaining({ productName: 'Cocoa', units: 0, share: 0, previousShare: 50, shareChange: -50 }),
+      ]);
+    });
+
+    it('should use the explicit comparison period', async () => {
+      salesOrderRepository.createQueryBuilder.mockImplementation(() => createQb([]));
+
+      const result = await service.getProductMix({
+        from: '2025-09-01',
+        to: '2025-09-30',
+        compareFrom: '2024-09-01',
+        compareTo: '2024-09-30',
+      });
+
+      expect(result.comparePeriod).toEqual({ from: '2024-09-01', to: '2024-09-30' });
+      expect(result.items).toEqual([]);
+    });
+
+    it('should resolve an alias once for both periods', async () => {
+      const qbs = [createQb([]), createQb([])];
+      salesOrderRepository.createQueryBuilder.mockReturnValueOnce(qbs[0]).mockReturnValueOnce(qbs[1]);
+
+      await service.getProductMix({ from: '2025-09-01', to: '2025-09-30', machineCode: 'VM-012' });
+
+      expect(machineCodesService.getLookup).toHaveBeenCalledTimes(1);
+      for (const qb of qbs) {
+        expect(qb.andWhere).toHaveBeenCalledWith(expect.stringContaining('so.machineId = :machineId'), {
+          machineId: 'machine-12',
+          machineCode: 'VM-012',
+        });
+      }
+    });
+  });
+});
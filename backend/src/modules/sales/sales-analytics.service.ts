@@ -0,0 +1,233 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { SalesOrder, PaymentStatus } from './entities/sales-order.entity';
+import { ProductAnalyticsQueryDto, ProductMixQueryDto } from './dto/sales-query.dto';
+import { MachineCodesService } from './machine-codes.service';
+import { startOfDayTashkent, endOfDayTashkent, PG_TASHKENT_TZ } from '../../common/utils/timezone';
+
+export interface ProductSalesItem {
+  productName: string | null;
+  flavor: string | null;
+  machineCode: string;
+  machineName: string | null;
+  units: number;
+  revenue: number;
+}
+
+export interface SalesHeatmapCell {
+  /** ISO weekday in Tashkent time: 1 = Monday … 7 = Sunday */
+  weekday: number;
+  hour: number;
+  units: number;
+  revenue: number;
+}
+
+export interface ProductMixItem {
+  productName: string | null;
+  flavor: string | null;
+  units: number;
+  revenue: number;
+  /** Share of units in the period, % */
+  share: number;
+  previousUnits: number;
+  previousRevenue: number;
+  previousShare: number;
+  /** share − previousShare, percentage points */
+  shareChange: number;
+}
+
+export interface ProductMixResult {
+  period: { from: string; to: string };
+  comparePeriod: { from: string; to: string };
+  items: ProductMixItem[];
+}
+
+/** Machine filter of a query; machineId is set when the code resolves to one of our machines */
+interface MachineFilter {
+  machineCode: string;
+  machineId: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Product-level sales aggregations for restocking: what sells where, when,
+ * and how the mix shifts. Every sold order is one unit; refunds are excluded.
+ */
+@Injectable()
+export class SalesAnalyticsService {
+  constructor(
+    @InjectRepository(SalesOrder)
+    private readonly salesOrderRepository: Repository<SalesOrder>,
+    private readonly machineCodesService: MachineCodesService,
+  ) {}
+
+  /**
+   * Units and revenue per product, flavor and machine. Orders linked to a
+   * machine are reported under its code, whatever code the vendor used.
+   */
+  async getProductSales(query: ProductAnalyticsQueryDto): Promise<ProductSalesItem[]> {
+    const machineCode = 'COALESCE(machine.code, so.machineCode)';
+    const qb = this.paidOrders(query.from, query.to, await this.resolveMachine(query.machineCode))
+      .leftJoin('so.machine', 'machine')
+      .select([
+        'so.productName AS "productName"',
+        'so.flavor AS "flavor"',
+        `${machineCode} AS "machineCode"`,
+        'machine.name AS "machineName"',
+        'COUNT(*) AS "units"',
+        'COALESCE(SUM(so.price), 0) AS "revenue"',
+      ])
+      .groupBy('so.productName')
+      .addGroupBy('so.flavor')
+      .addGroupBy(machineCode)
+      .addGroupBy('machine.name')
+      .orderBy('"revenue"', 'DESC');
+
+    const rows = await qb.getRawMany();
+    return rows.map((r) => ({
+      productName: r.productName || null,
+      flavor: r.flavor || null,
+      machineCode: r.machineCode,
+      machineName: r.machineName || null,
+      units: parseInt(r.units) || 0,
+      revenue: round2(Number(r.revenue)),
+    }));
+  }
+
+  /** Sales by weekday and hour of day in Tashkent time; empty cells are omitted */
+  async getHeatmap(query: ProductAnalyticsQueryDto): Promise<SalesHeatmapCell[]> {
+    const local = `so.orderDate AT TIME ZONE 'UTC' AT TIME ZONE '${PG_TASHKENT_TZ}'`;
+    const rows = await this.paidOrders(query.from, query.to, await this.resolveMachine(query.machineCode))
+      .select([
+        `EXTRACT(ISODOW FROM ${local}) AS "weekday"`,
+        `EXTRACT(HOUR FROM ${local}) AS "hour"`,
+        'COUNT(*) AS "units"',
+        'COALESCE(SUM(so.price), 0) AS "revenue"',
+      ])
+      .groupBy(`EXTRACT(ISODOW FROM ${local})`)
+      .addGroupBy(`EXTRACT(HOUR FROM ${local})`)
+      .orderBy('"weekday"', 'ASC')
+      .addOrderBy('"hour"', 'ASC')
+      .getRawMany();
+
+    return rows.map((r) => ({
+      weekday: parseInt(r.weekday),
+      hour: parseInt(r.hour),
+      units: parseInt(r.units) || 0,
+      revenue: round2(Number(r.revenue)),
+    }));
+  }
+
+  /**
+   * Compare each product's share of units between two periods. Without an
+   * explicit comparison period the one of equal length right before is used.
+   */
+  async getProductMix(query: ProductMixQueryDto): Promise<ProductMixResult> {
+    let { compareFrom, compareTo } = query;
+    if (!compareFrom || !compareTo) {
+      const days = Math.round((new Date(query.to).getTime() - new Date(query.from).getTime()) / DAY_MS) + 1;
+      const previousEnd = new Date(new Date(query.from).getTime() - DAY_MS);
+      compareTo = previousEnd.toISOString().split('T')[0];
+      compareFrom = new Date(previousEnd.getTime() - (days - 1) * DAY_MS).toISOString().split('T')[0];
+    }
+
+    const machine = await this.resolveMachine(query.machineCode);
+    const [current, previous] = await Promise.all([
+      this.getProductTotals(query.from, query.to, machine),
+      this.getProductTotals(compareFrom, compareTo, machine),
+    ]);
+
+    const totalUnits = (rows: Map<string, { units: number }>) =>
+      [...rows.values()].reduce((sum, r) => sum + r.units, 0);
+    const currentTotal = totalUnits(current);
+    const previousTotal = totalUnits(previous);
+    const shareOf = (units: number, total: number) => (total > 0 ? round2((units / total) * 100) : 0);
+
+    const keys = new Set([...current.keys(), ...previous.keys()]);
+    const items: ProductMixItem[] = [...keys].map((key) => {
+      const now = current.get(key);
+      const before = previous.get(key);
+      const product = now ?? before!;
+      const share = shareOf(now?.units ?? 0, currentTotal);
+      const previousShare = shareOf(before?.units ?? 0, previousTotal);
+      return {
+        productName: product.productName,
+        flavor: product.flavor,
+        units: now?.units ?? 0,
+        revenue: now?.revenue ?? 0,
+        share,
+        previousUnits: before?.units ?? 0,
+        previousRevenue: before?.revenue ?? 0,
+        previousShare,
+        shareChange: round2(share - previousShare),
+      };
+    });
+    items.sort((a, b) => b.units - a.units || b.previousUnits - a.previousUnits);
+
+    return {
+      period: { from: query.from, to: query.to },
+      comparePeriod: { from: compareFrom, to: compareTo },
+      items,
+    };
+  }
+
+  private async getProductTotals(
+    from: string,
+    to: string,
+    machine?: MachineFilter,
+  ): Promise<Map<string, { productName: string | null; flavor: string | null; units: number; revenue: number }>> {
+    const rows = await this.paidOrders(from, to, machine)
+      .select([
+        'so.productName AS "productName"',
+        'so.flavor AS "flavor"',
+        'COUNT(*) AS "units"',
+        'COALESCE(SUM(so.price), 0) AS "revenue"',
+      ])
+      .groupBy('so.productName')
+      .addGroupBy('so.flavor')
+      .getRawMany();
+
+    return new Map(rows.map((r) => [
+      `${r.productName ?? ''}|${r.flavor ?? ''}`,
+      {
+        productName: r.productName || null,
+        flavor: r.flavor || null,
+        units: parseInt(r.units) || 0,
+        revenue: round2(Number(r.revenue)),
+      },
+    ]));
+  }
+
+  /** Our code or a vendor alias both resolve to the machine */
+  private async resolveMachine(machineCode?: string): Promise<MachineFilter | undefined> {
+    if (!machineCode) return undefined;
+    const lookup = await this.machineCodesService.getLookup();
+    return { machineCode, machineId: lookup.get(machineCode.toLowerCase()) ?? null };
+  }
+
+  private paidOrders(from?: string, to?: string, machine?: MachineFilter): SelectQueryBuilder<SalesOrder> {
+    const qb = this.salesOrderRepository
+      .createQueryBuilder('so')
+      .where('so.paymentStatus = :paid', { paid: PaymentStatus.PAID });
+    if (from) {
+      qb.andWhere('so.orderDate >= :from', { from: startOfDayTashkent(from) });
+    }
+    if (to) {
+      qb.andWhere('so.orderDate <= :to', { to: endOfDayTashkent(to) });
+    }
+    if (machine?.machineId) {
+      // Linked orders by machine id; unlinked ones still only carry the code
+      qb.andWhere(
+        '(so.machineId = :machineId OR (so.machineId IS NULL AND LOWER(so.machineCode) = LOWER(:machineCode)))',
+        { machineId: machine.machineId, machineCode: machine.machineCode },
+      );
+    } else if (machine) {
+      qb.andWhere('LOWER(so.machineCode) = LOWER(:machineCode)', { machineCode: machine.machineCode });
+    }
+    return qb;
+  }
+}
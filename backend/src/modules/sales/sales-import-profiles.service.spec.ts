@@ -0,0 +1,157 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import * as ExcelJS from 'exceljs';
+import { SalesImportProfilesService } from './sales-import-profiles.service';
+import { SalesImportProfile } from './entities/sales-import-profile.entity';
+import { PaymentMethod, PaymentStatus } from './entities/sales-order.entity';
+
+describe('SalesImportProfilesService', () => {
+  let service: SalesImportProfilesService;
+  let profileRepository: any;
+
+  const makeProfile = (overrides: Partial<SalesImportProfile> = {}): SalesImportProfile => ({
+    id: 'profile-1',
+    name: 'Provider B',
+    description: null,
+    columns: { machineCode: 'device', price: 'sum', paymentResource: 'pay type', orderDate: 'time', paymentStatus: 'state' },
+    headerRow: 1,
+    dateFormat: 'dd/MM/yyyy HH:mm',
+    timezone: 'Europe/Moscow',
+    payments: { cash: ['cash'], card: ['card', 'click'], refund: ['refund'] },
+    skipRules: [{ field: 'machineCode', match: 'equals', value: 'TEST' }],
+    detectHeaders: ['device', 'pay type'],
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  const makeSheet = (rows: unknown[][]) => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Orders');
+    rows.forEach((row) => sheet.addRow(row));
+    return sheet;
+  };
+
+  const providerBSheet = () => makeSheet([['Device', 'Sum', 'Pay type', 'Time', 'State']]);
+
+  beforeEach(async () => {
+    profileRepository = {
+      find: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn().mockResolvedValue(null),
+      create: jest.fn((data) => data),
+      save: jest.fn(async (data) => ({ id: 'profile-1', ...data })),
+      remove: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SalesImportProfilesService,
+        { provide: getRepositoryToken(SalesImportProfile), useValue: profileRepository },
+      ],
+    }).compile();
+
+    service = module.get<SalesImportProfilesService>(SalesImportProfilesService);
+  });
+
+  describe('create', () => {
+    const dto = {
+      name: 'Provider B',
+      columns: { machineCode: 'A', price: 'B', paymentResource: 'C', orderDate: 'D' },
+      payments: { cash: ['cash'], card: ['card'] },
+    };
+
+    it('should fill defaults and save', async () => {
+      const result = await service.create(dto);
+
+      expect(result).toMatchObject({
+        name: 'Provider B',
+        headerRow: 1,
+        dateFormat: 'auto',
+        timezone: 'Asia/Tashkent',
+        skipRules: [],
+        detectHeaders: [],
+        isActive: true,
+      });
+    });
+
+    it('should reject a duplicate name', async () => {
+      profileRepository.findOne.mockResolvedValue(makeProfile());
+
+      await expect(service.create(dto)).rejects.toThrow(ConflictException);
+    });
+
+    it('should reject an unknown timezone or a date format without a day', async () => {
+      await expect(service.create({ ...dto, timezone: 'Mars/Olympus' })).rejects.toThrow(BadRequestException);
+      await expect(service.create({ ...dto, dateFormat: 'MM.yyyy' })).rejects.toThrow(BadRequestException);
+      expect(profileRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should throw NotFoundException for a missing profile', async () => {
+      await expect(service.update('missing', { isActive: false })).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('resolveFormat', () => {
+    it('should return null when no active profile fits the header', async () => {
+      profileRepository.find.mockResolvedValue([makeProfile()]);
+      const sheet = makeSheet([['Номер заказа', 'Ресурс оплаты', 'Код автомата', 'Цена', 'Дата заказа']]);
+
+      await expect(service.resolveFormat(sheet)).resolves.toBeNull();
+    });
+
+    it('should auto-detect the profile whose detection headers are present', async () => {
+      profileRepository.find.mockResolvedValue([
+        makeProfile({ id: 'other', name: 'Other', detectHeaders: ['serial'] }),
+        makeProfile(),
+      ]);
+
+      const format = await service.resolveFormat(providerBSheet());
+
+      expect(format?.profileName).toBe('Provider B');
+      expect(format?.columns).toEqual({ machineCode: 1, price: 2, paymentResource: 3, orderDate: 4, paymentStatus: 5 });
+    });
+
+    it('should reject an explicit profile that does not fit the file', async () => {
+      profileRepository.findOne.mockResolvedValue(makeProfile());
+      const sheet = makeSheet([['Device', 'Sum', 'Time']]);
+
+      await expect(service.resolveFormat(sheet, 'profile-1')).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject an inactive explicit profile', async () => {
+      profileRepository.findOne.mockResolvedValue(makeProfile({ isActive: false }));
+
+      await expect(service.resolveFormat(providerBSheet(), 'profile-1')).rejects.toThrow(BadRequestException);
+    });
+
+    it('should map payments, refunds and skip rules from the profile', async () => {
+      profileRepository.findOne.mockResolvedValue(makeProfile());
+
+      const format = (await service.resolveFormat(providerBSheet(), 'profile-1'))!;
+
+      expect(format.parsePaymentMethod('Cash')).toBe(PaymentMethod.CASH);
+      expect(format.parsePaymentMethod('Click')).toBe(PaymentMethod.CARD);
+      expect(format.parsePaymentMethod('bonus')).toBeNull();
+      expect(format.parsePaymentStatus('Refund done')).toBe(PaymentStatus.REFUNDED);
+      expect(format.parsePaymentStatus('ok')).toBe(PaymentStatus.PAID);
+      expect(format.shouldSkip((field) => (field === 'machineCode' ? 'test' : ''))).toBe(true);
+      expect(format.shouldSkip((field) => (field === 'machineCode' ? 'B07' : ''))).toBe(false);
+    });
+
+    it('should parse dates with the profile format and timezone', async () => {
+      profileRepository.findOne.mockResolvedValue(makeProfile());
+
+      const format = (await service.resolveFormat(providerBSheet(), 'profile-1'))!;
+
+      // 11 Sep 2025 23:06 Moscow (UTC+3)
+      expect(format.parseDate('11/09/2025 23:06')).toEqual(new Date('2025-09-11T20:06:00.000Z'));
+      expect(format.parseDate(new Date('2025-09-11T23:06:00.000Z'))).toEqual(new Date('2025-09-11T20:06:00.000Z'));
+      expect(format.parseDate('31/02/2025 10:00')).toBeNull();
+      expect(format.parseDate('2025-09-11')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,348 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as ExcelJS from 'exceljs';
+import {
+  SalesImportProfile,
+  SalesImportField,
+  CriticalImportField,
+  ImportProfileSkipRule,
+  SALES_IMPORT_FIELDS,
+  CRITICAL_IMPORT_FIELDS,
+} from './entities/sales-import-profile.entity';
+import { PaymentMethod, PaymentStatus } from './entities/sales-order.entity';
+import { CreateImportProfileDto, UpdateImportProfileDto } from './dto/import-profile.dto';
+import { isValidTimeZone, zonedTimeToUtc } from '../../common/utils/timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days between the Excel epoch (1899-12-30) and the Unix epoch */
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+
+/** Resolved 1-based column numbers; critical fields are always present */
+export type SalesImportColumns = Partial<Record<SalesImportField, number>> &
+  Record<CriticalImportField, number>;
+
+/**
+ * How SalesService reads one file layout: resolved column numbers plus
+ * the rules that turn cell values into order fields.
+ */
+export interface SalesImportFormat {
+  /** null for the built-in layout */
+  profileName: string | null;
+  headerRow: number;
+  columns: SalesImportColumns;
+  parsePaymentMethod(value: string): PaymentMethod | null;
+  parsePaymentStatus(value: string): PaymentStatus;
+  parseDate(value: ExcelJS.CellValue): Date | null;
+  shouldSkip(read: (field: SalesImportField) => string): boolean;
+}
+
+const DATE_TOKENS: Record<string, string> = {
+  yyyy: '(\\d{4})',
+  yy: '(\\d{2})',
+  MM: '(\\d{1,2})',
+  dd: '(\\d{1,2})',
+  HH: '(\\d{1,2})',
+  mm: '(\\d{2})',
+  ss: '(\\d{2})',
+};
+
+interface CompiledDateFormat {
+  regex: RegExp;
+  tokens: string[];
+}
+
+/**
+ * Turn "dd.MM.yyyy HH:mm" into a regex with one group per token.
+ * Returns null unless the pattern has a year, month and day.
+ */
+function compileDateFormat(format: string): CompiledDateFormat | null {
+  const tokens: string[] = [];
+  let source = '';
+  let i = 0;
+  while (i < format.length) {
+    const token = Object.keys(DATE_TOKENS).find((t) => format.startsWith(t, i));
+    if (token) {
+      tokens.push(token);
+      source += DATE_TOKENS[token];
+      i += token.length;
+    } else {
+      source += format[i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      i++;
+    }
+  }
+  const hasYear = tokens.includes('yyyy') || tokens.includes('yy');
+  if (!hasYear || !tokens.includes('MM') || !tokens.includes('dd')) return null;
+  return { regex: new RegExp(`^${source}`), tokens };
+}
+
+/** Wall-clock Date (local time in UTC fields), or null if the parts don't form a real date */
+function wallClock(year: number, month: number, day: number, hour = 0, minute = 0, second = 0): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day || hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+  return date;
+}
+
+function parseFormattedDate(str: string, format: CompiledDateFormat): Date | null {
+  const match = str.match(format.regex);
+  if (!match) return null;
+  const parts: Record<string, number> = {};
+  format.tokens.forEach((token, idx) => {
+    parts[token] = parseInt(match[idx + 1]);
+  });
+  const year = parts.yyyy ?? 2000 + parts.yy;
+  return wallClock(year, parts.MM, parts.dd, parts.HH, parts.mm, parts.ss);
+}
+
+/** ISO-like "2025-09-11 23:06:09" or "11.09.2025 23:06" */
+function parseAutoDate(str: string): Date | null {
+  const iso = str.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (iso) {
+    const [, y, mo, d, h, mi, s] = iso;
+    return wallClock(+y, +mo, +d, +(h || 0), +(mi || 0), +(s || 0));
+  }
+  const dmy = str.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})(?:[ ,]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (dmy) {
+    const [, d, mo, y, h, mi, s] = dmy;
+    return wallClock(+y, +mo, +d, +(h || 0), +(mi || 0), +(s || 0));
+  }
+  return null;
+}
+
+/**
+ * Header values of a row, lowercased and keyed by column number.
+ */
+function readHeader(row: ExcelJS.Row): Record<number, string> {
+  const header: Record<number, string> = {};
+  row.eachCell({ includeEmpty: false }, (cell, colNumber) => {
+    const val = String(cell.value || '').trim().toLowerCase();
+    if (val) header[colNumber] = val;
+  });
+  return header;
+}
+
+/** "3" and "C" point at a fixed column; anything else is a header substring */
+function isPositionalRef(ref: string): boolean {
+  return /^\d+$/.test(ref.trim()) || /^[A-Za-z]{1,2}$/.test(ref.trim());
+}
+
+/**
+ * Resolve a column reference: a number, a column letter or a header
+ * substring. Returns null when nothing in the header matches.
+ */
+function resolveColumn(ref: string, header: Record<number, string>): number | null {
+  const trimmed = ref.trim();
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed);
+  if (/^[A-Za-z]{1,2}$/.test(trimmed)) {
+    return trimmed
+      .toUpperCase()
+      .split('')
+      .reduce((acc, ch) => acc * 26 + ch.charCodeAt(0) - 64, 0);
+  }
+  const needle = trimmed.toLowerCase();
+  for (const [colNum, headerVal] of Object.entries(header)) {
+    if (headerVal.includes(needle)) return parseInt(colNum);
+  }
+  return null;
+}
+
+function matchesKeyword(value: string, keywords: string[] | undefined): boolean {
+  const lower = value.trim().toLowerCase();
+  return !!keywords?.some((k) => lower.includes(k.toLowerCase()));
+}
+
+function matchesSkipRule(rule: ImportProfileSkipRule, text: string): boolean {
+  const lower = text.trim().toLowerCase();
+  const value = (rule.value || '').toLowerCase();
+  switch (rule.match) {
+    case 'empty':
+      return !lower;
+    case 'equals':
+      return lower === value;
+    case 'contains':
+      return !!value && lower.includes(value);
+  }
+}
+
+@Injectable()
+export class SalesImportProfilesService {
+  private readonly logger = new Logger(SalesImportProfilesService.name);
+
+  constructor(
+    @InjectRepository(SalesImportProfile)
+    private readonly profileRepository: Repository<SalesImportProfile>,
+  ) {}
+
+  async findAll(): Promise<SalesImportProfile[]> {
+    return this.profileRepository.find({ order: { name: 'ASC' } });
+  }
+
+  async findOne(id: string): Promise<SalesImportProfile> {
+    const profile = await this.profileRepository.findOne({ where: { id } });
+    if (!profile) {
+      throw new NotFoundException('Import profile not found');
+    }
+    return profile;
+  }
+
+  async create(dto: CreateImportProfileDto): Promise<SalesImportProfile> {
+    await this.assertNameFree(dto.name);
+    const profile = this.profileRepository.create({
+      name: dto.name,
+      description: dto.description || null,
+      columns: dto.columns,
+      headerRow: dto.headerRow ?? 1,
+      dateFormat: dto.dateFormat || 'auto',
+      timezone: dto.timezone || 'Asia/Tashkent',
+      payments: dto.payments,
+      skipRules: dto.skipRules || [],
+      detectHeaders: dto.detectHeaders || [],
+      isActive: dto.isActive ?? true,
+    });
+    this.validateProfile(profile);
+    return this.profileRepository.save(profile);
+  }
+
+  async update(id: string, dto: UpdateImportProfileDto): Promise<SalesImportProfile> {
+    const profile = await this.findOne(id);
+    if (dto.name !== undefined && dto.name !== profile.name) {
+      await this.assertNameFree(dto.name);
+    }
+    Object.assign(profile, dto);
+    this.validateProfile(profile);
+    return this.profileRepository.save(profile);
+  }
+
+  async remove(id: string): Promise<void> {
+    const profile = await this.findOne(id);
+    await this.profileRepository.remove(profile);
+  }
+
+  /**
+   * Pick the layout for a worksheet. An explicit profile must fit the
+   * file; otherwise active profiles are tried and the one whose detection
+   * headers are all present wins (most headers first). Returns null when
+   * nothing fits so the caller falls back to the built-in layout.
+   */
+  async resolveFormat(worksheet: ExcelJS.Worksheet, profileId?: string): Promise<SalesImportFormat | null> {
+    if (profileId) {
+      const profile = await this.profileRepository.findOne({ where: { id: profileId } });
+      if (!profile || !profile.isActive) {
+        throw new BadRequestException('Профиль импорта не найден или отключён');
+      }
+      return this.buildFormat(profile, readHeader(worksheet.getRow(profile.headerRow)));
+    }
+
+    const profiles = await this.profileRepository.find({ where: { isActive: true }, order: { name: 'ASC' } });
+    let best: { profile: SalesImportProfile; header: Record<number, string>; score: number } | null = null;
+    for (const profile of profiles) {
+      const header = readHeader(worksheet.getRow(profile.headerRow));
+      const score = this.detectionScore(profile, header);
+      if (score !== null && (!best || score > best.score)) {
+        best = { profile, header, score };
+      }
+    }
+    if (!best) return null;
+
+    this.logger.log(`Sales import profile auto-detected: "${best.profile.name}"`);
+    return this.buildFormat(best.profile, best.header);
+  }
+
+  /**
+   * Number of detection headers found, or null when the profile doesn't
+   * fit. Profiles without detection headers are recognised by their
+   * header-named columns; purely positional ones must be chosen explicitly.
+   */
+  private detectionScore(profile: SalesImportProfile, header: Record<number, string>): number | null {
+    const signatures = profile.detectHeaders?.length
+      ? profile.detectHeaders
+      : Object.values(profile.columns).filter((ref): ref is string => !!ref && !isPositionalRef(ref));
+    if (signatures.length === 0) return null;
+
+    const values = Object.values(header);
+    const allPresent = signatures.every((sig) => values.some((v) => v.includes(sig.trim().toLowerCase())));
+    if (!allPresent) return null;
+
+    const criticalResolved = CRITICAL_IMPORT_FIELDS.every((field) => {
+      const ref = profile.columns[field];
+      return !!ref && resolveColumn(ref, header) !== null;
+    });
+    return criticalResolved ? signatures.length : null;
+  }
+
+  private buildFormat(profile: SalesImportProfile, header: Record<number, string>): SalesImportFormat {
+    const columns: Partial<Record<SalesImportField, number>> = {};
+    for (const field of SALES_IMPORT_FIELDS) {
+      const ref = profile.columns[field];
+      if (!ref) continue;
+      const col = resolveColumn(ref, header);
+      if (col !== null) {
+        columns[field] = col;
+      } else if ((CRITICAL_IMPORT_FIELDS as SalesImportField[]).includes(field)) {
+        throw new BadRequestException(`Профиль «${profile.name}»: в файле нет колонки «${ref}»`);
+      }
+    }
+
+    const compiled = profile.dateFormat === 'auto' ? null : compileDateFormat(profile.dateFormat);
+    const toUtc = (wall: Date | null) => (wall ? zonedTimeToUtc(wall, profile.timezone) : null);
+
+    return {
+      profileName: profile.name,
+      headerRow: profile.headerRow,
+      columns: columns as SalesImportColumns,
+      parsePaymentMethod: (value) => {
+        if (matchesKeyword(value, profile.payments.cash)) return PaymentMethod.CASH;
+        if (matchesKeyword(value, profile.payments.card)) return PaymentMethod.CARD;
+        return null;
+      },
+      parsePaymentStatus: (value) =>
+        matchesKeyword(value, profile.payments.refund) ? PaymentStatus.REFUNDED : PaymentStatus.PAID,
+      parseDate: (value) => {
+        if (value === null || value === undefined || value === '') return null;
+        // ExcelJS dates and raw serials both carry the file's wall-clock time
+        if (value instanceof Date) return toUtc(value);
+        if (typeof value === 'number') {
+          return toUtc(new Date(Math.round((value - EXCEL_EPOCH_OFFSET_DAYS) * DAY_MS)));
+        }
+        const str = String(value).trim();
+        if (compiled) return toUtc(parseFormattedDate(str, compiled));
+        // An explicit offset already pins the instant
+        if (/T.*(Z|[+-]\d{2}:?\d{2})$/.test(str)) {
+          const date = new Date(str);
+          return isNaN(date.getTime()) ? null : date;
+        }
+        return toUtc(parseAutoDate(str));
+      },
+      shouldSkip: (read) => (profile.skipRules || []).some((rule) => matchesSkipRule(rule, read(rule.field))),
+    };
+  }
+
+  private validateProfile(profile: SalesImportProfile): void {
+    if (!isValidTimeZone(profile.timezone)) {
+      throw new BadRequestException(`Unknown timezone: ${profile.timezone}`);
+    }
+    if (profile.dateFormat !== 'auto' && !compileDateFormat(profile.dateFormat)) {
+      throw new BadRequestException('Date format must contain yyyy (or yy), MM and dd tokens');
+    }
+    const invalidRule = (profile.skipRules || []).find((rule) => rule.match !== 'empty' && !rule.value);
+    if (invalidRule) {
+      throw new BadRequestException(`Skip rule for "${invalidRule.field}" needs a value`);
+    }
+  }
+
+  private async assertNameFree(name: string): Promise<void> {
+    const existing = await this.profileRepository.findOne({ where: { name } });
+    if (existing) {
+      throw new ConflictException('Import profile with this name already exists');
+    }
+  }
+}
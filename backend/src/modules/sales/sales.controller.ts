@@ -2,7 +2,9 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
   Delete,
+  Body,
   Query,
   Param,
   Res,
@@ -11,17 +13,60 @@ import {
   BadRequestException,
   NotFoundException,
   Logger,
+  ParseUUIDPipe,
 } from '@nestjs/common';
 import { Response } from 'express';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiConsumes } from '@nestjs/swagger';
-import { SalesService } from './sales.service';
-import { TelegramService } from '../../telegram/telegram.service';
-import { SettingsService, SETTING_KEYS } from '../settings/settings.service';
+import { SalesService, BACKGROUND_IMPORT_THRESHOLD } from './sales.service';
+import { SalesImportProfilesService } from './sales-import-profiles.service';
+import { MachineCodesService } from './machine-codes.service';
+import { SalesAnalyticsService } from './sales-analytics.service';
+import { ReconciliationRunsService } from './reconciliation-runs.service';
+import { ReconciliationTrigger } from './entities/reconciliation-record.entity';
 import { Roles } from '../../common/decorators/roles.decorator';
 import { RequireModule } from '../../common/decorators/require-module.decorator';
-import { UserRole } from '../users/entities/user.entity';
-import { SalesQueryDto, ReconciliationQueryDto, DateRangeQueryDto, TopMachinesQueryDto } from './dto/sales-query.dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { User, UserRole } from '../users/entities/user.entity';
+import {
+  SalesQueryDto,
+  ReconciliationQueryDto,
+  DateRangeQueryDto,
+  TopMachinesQueryDto,
+  ProductAnalyticsQueryDto,
+  ProductMixQueryDto,
+} from './dto/sales-query.dto';
+import { ImportSalesOptionsDto, ConfirmImportDto } from './dto/import-sales.dto';
+import { MailService, XLSX_CONTENT_TYPE } from '../../mail/mail.service';
+import { EmailKind } from '../../mail/entities/email-delivery.entity';
+import { SendEmailDto } from '../../mail/dto/send-email.dto';
+import { reconciliationTemplate } from '../../mail/mail-templates';
+import { CreateImportProfileDto, UpdateImportProfileDto } from './dto/import-profile.dto';
+import { MapMachineCodeDto, CreateMachineFromCodeDto } from './dto/machine-code.dto';
+
+type UploadedSalesFile = { buffer: Buffer; originalname: string; mimetype: string; size?: number };
+
+const SALES_FILE_UPLOAD = {
+  limits: { fileSize: 50 * 1024 * 1024 }, // 50MB
+  fileFilter: (
+    _req: unknown,
+    file: { originalname: string; mimetype: string },
+    cb: (error: Error | null, acceptFile: boolean) => void,
+  ) => {
+    const allowedMimes = [
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-excel',
+      'text/csv',
+      'application/json',
+    ];
+    const name = file.originalname.toLowerCase();
+    if (allowedMimes.includes(file.mimetype) || ['.xlsx', '.xls', '.csv', '.json'].some((ext) => name.endsWith(ext))) {
+      cb(null, true);
+    } else {
+      cb(new BadRequestException('Допустимы только файлы Excel (.xlsx, .xls), CSV и JSON'), false);
+    }
+  },
+};
 
 @ApiTags('sales')
 @Controller('sales')
@@ -32,38 +77,36 @@ export class SalesController {
 
   constructor(
     private readonly salesService: SalesService,
-    private readonly telegramService: TelegramService,
-    private readonly settingsService: SettingsService,
+    private readonly reconciliationRunsService: ReconciliationRunsService,
+    private readonly importProfilesService: SalesImportProfilesService,
+    private readonly machineCodesService: MachineCodesService,
+    private readonly analyticsService: SalesAnalyticsService,
+    private readonly mailService: MailService,
   ) {}
 
   @Post('import')
   @Roles(UserRole.MANAGER, UserRole.ADMIN)
-  @ApiOperation({ summary: 'Import sales orders from Excel file' })
+  @ApiOperation({ summary: 'Import sales orders from Excel, CSV or JSON file' })
   @ApiConsumes('multipart/form-data')
-  @UseInterceptors(
-    FileInterceptor('file', {
-      limits: { fileSize: 50 * 1024 * 1024 }, // 50MB
-      fileFilter: (_req, file, cb) => {
-        const allowedMimes = [
-          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-          'application/vnd.ms-excel',
-        ];
-        if (allowedMimes.includes(file.mimetype) || file.originalname.endsWith('.xlsx') || file.originalname.endsWith('.xls')) {
-          cb(null, true);
-        } else {
-          cb(new BadRequestException('Допустимы только Excel файлы (.xlsx, .xls)'), false);
-        }
-      },
-    }),
-  )
-  async importExcel(@UploadedFile() file: { buffer: Buffer; originalname: string; mimetype: string; size?: number }) {
+  @UseInterceptors(FileInterceptor('file', SALES_FILE_UPLOAD))
+  async importFile(
+    @UploadedFile() file: UploadedSalesFile,
+    @Body() options: ImportSalesOptionsDto,
+    @CurrentUser() user: User,
+  ) {
     if (!file) {
       throw new BadRequestException('Файл не загружен');
     }
-    const fileSizeMb = ((file.size || file.buffer.length) / (1024 * 1024)).toFixed(2);
+    const fileSize = file.size || file.buffer.length;
+    const fileSizeMb = (fileSize / (1024 * 1024)).toFixed(2);
     this.logger.log(`Sales import started: ${file.originalname} (${fileSizeMb} MB)`);
 
-    const result = await this.salesService.importExcel(file.buffer, file.originalname);
+    // Large files are streamed in the background; the client follows the job
+    if (fileSize > BACKGROUND_IMPORT_THRESHOLD) {
+      return this.salesService.startImportJob(file.buffer, file.originalname, user.id, options.profileId);
+    }
+
+    const result = await this.salesService.importFile(file.buffer, file.originalname, options.profileId);
 
     this.logger.log(
       `Sales import completed: batch=${result.batchId} imported=${result.imported} ` +
@@ -72,6 +115,69 @@ export class SalesController {
     return result;
   }
 
+  @Post('import/preview')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Parse a sales file without saving and return a confirmation token' })
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(FileInterceptor('file', SALES_FILE_UPLOAD))
+  async previewImport(
+    @UploadedFile() file: UploadedSalesFile,
+    @Body() options: ImportSalesOptionsDto,
+    @CurrentUser() user: User,
+  ) {
+    if (!file) {
+      throw new BadRequestException('Файл не загружен');
+    }
+    return this.salesService.previewImport(file.buffer, file.originalname, user.id, options.profileId);
+  }
+
+  @Post('import/confirm')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Commit a previewed sales import' })
+  async confirmImport(@Body() dto: ConfirmImportDto, @CurrentUser() user: User) {
+    const result = await this.salesService.confirmImport(dto.token, user.id);
+    this.logger.log(
+      `Sales import confirmed: batch=${result.batchId} imported=${result.imported} duplicates=${result.duplicates}`,
+    );
+    return result;
+  }
+
+  @Get('import/jobs/:jobId')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get status of a background sales import' })
+  getImportJob(@Param('jobId', ParseUUIDPipe) jobId: string, @CurrentUser() user: User) {
+    return this.salesService.getImportJob(jobId, user.id);
+  }
+
+  @Get('import-profiles')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'List sales import format profiles' })
+  async getImportProfiles() {
+    return this.importProfilesService.findAll();
+  }
+
+  @Post('import-profiles')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Create sales import format profile (admin only)' })
+  async createImportProfile(@Body() dto: CreateImportProfileDto) {
+    return this.importProfilesService.create(dto);
+  }
+
+  @Patch('import-profiles/:id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Update sales import format profile (admin only)' })
+  async updateImportProfile(@Param('id', ParseUUIDPipe) id: string, @Body() dto: UpdateImportProfileDto) {
+    return this.importProfilesService.update(id, dto);
+  }
+
+  @Delete('import-profiles/:id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Delete sales import format profile (admin only)' })
+  async deleteImportProfile(@Param('id', ParseUUIDPipe) id: string) {
+    await this.importProfilesService.remove(id);
+    return { success: true };
+  }
+
   @Get('orders')
   @Roles(UserRole.MANAGER, UserRole.ADMIN)
   @ApiOperation({ summary: 'Get sales orders with filters and pagination' })
@@ -97,30 +203,21 @@ export class SalesController {
   @Roles(UserRole.MANAGER, UserRole.ADMIN)
   @ApiOperation({ summary: 'Run reconciliation and send Telegram alerts for shortages above threshold' })
   async notifyReconciliationShortages(@Query() query: ReconciliationQueryDto) {
-    const result = await this.salesService.getReconciliation(query);
-
-    // Get threshold from settings (default 10%)
-    const threshold = await this.settingsService.getNumericSetting(
-      SETTING_KEYS.SHORTAGE_ALERT_THRESHOLD,
-      10,
-    );
-
-    const significantShortages = result.items
-      .filter((item) => item.status === 'shortage' && Math.abs(item.percentDeviation) > threshold);
+    return this.reconciliationRunsService.run(query, { trigger: ReconciliationTrigger.MANUAL });
+  }
 
-    if (significantShortages.length > 0) {
-      try {
-        await this.telegramService.notifyReconciliationShortages(significantShortages);
-      } catch (err) {
-        this.logger.error('Failed to send reconciliation alerts', err);
-      }
-    }
+  @Get('reconciliation/runs')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'List persisted reconciliation runs' })
+  async getReconciliationRuns() {
+    return this.reconciliationRunsService.findRuns();
+  }
 
-    return {
-      totalItems: result.items.length,
-      shortagesFound: significantShortages.length,
-      alertsSent: significantShortages.length > 0,
-    };
+  @Get('reconciliation/runs/:runId')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get items saved by a reconciliation run' })
+  async getReconciliationRun(@Param('runId', ParseUUIDPipe) runId: string) {
+    return this.reconciliationRunsService.findRunItems(runId);
   }
 
   @Get('reconciliation/export')
@@ -141,6 +238,29 @@ export class SalesController {
     res.end(buffer);
   }
 
+  @Post('reconciliation/export/email')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Email the reconciliation Excel file as an attachment' })
+  async emailReconciliation(
+    @Query() query: ReconciliationQueryDto,
+    @Body() dto: SendEmailDto,
+    @CurrentUser() user: User,
+  ) {
+    const buffer = await this.salesService.exportReconciliation(query);
+
+    return this.mailService.send({
+      kind: EmailKind.RECONCILIATION,
+      to: dto.recipients,
+      template: reconciliationTemplate({ from: query.from, to: query.to }),
+      attachments: [{
+        filename: `reconciliation_${new Date().toISOString().slice(0, 10)}.xlsx`,
+        content: buffer,
+        contentType: XLSX_CONTENT_TYPE,
+      }],
+      requestedById: user.id,
+    });
+  }
+
   @Get('daily-stats')
   @Roles(UserRole.MANAGER, UserRole.ADMIN)
   @ApiOperation({ summary: 'Get daily sales stats (cash/card totals)' })
@@ -155,6 +275,27 @@ export class SalesController {
     return this.salesService.getTopMachines(query);
   }
 
+  @Get('analytics/products')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get units and revenue by product, flavor and machine' })
+  async getProductSales(@Query() query: ProductAnalyticsQueryDto) {
+    return this.analyticsService.getProductSales(query);
+  }
+
+  @Get('analytics/heatmap')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get sales by weekday and hour of day' })
+  async getSalesHeatmap(@Query() query: ProductAnalyticsQueryDto) {
+    return this.analyticsService.getHeatmap(query);
+  }
+
+  @Get('analytics/product-mix')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Compare product mix between two periods' })
+  async getProductMix(@Query() query: ProductMixQueryDto) {
+    return this.analyticsService.getProductMix(query);
+  }
+
   @Get('machine-codes')
   @Roles(UserRole.MANAGER, UserRole.ADMIN)
   @ApiOperation({ summary: 'Get unique machine codes from sales data' })
@@ -162,6 +303,42 @@ export class SalesController {
     return this.salesService.getMachineCodes();
   }
 
+  @Get('machine-codes/unresolved')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'List sales machine codes not linked to any machine' })
+  async getUnresolvedMachineCodes() {
+    return this.machineCodesService.findUnresolved();
+  }
+
+  @Post('machine-codes/map')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Map a sales machine code to an existing machine and link its orders' })
+  async mapMachineCode(@Body() dto: MapMachineCodeDto, @CurrentUser() user: User) {
+    return this.machineCodesService.mapCode(dto, user.id);
+  }
+
+  @Post('machine-codes/create-machine')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Create a pending machine for a sales machine code and link its orders' })
+  async createMachineFromCode(@Body() dto: CreateMachineFromCodeDto, @CurrentUser() user: User) {
+    return this.machineCodesService.createMachine(dto, user.id);
+  }
+
+  @Get('machine-aliases')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'List machine code aliases' })
+  async getMachineAliases() {
+    return this.machineCodesService.findAliases();
+  }
+
+  @Delete('machine-aliases/:id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Delete a machine code alias' })
+  async removeMachineAlias(@Param('id', ParseUUIDPipe) id: string) {
+    await this.machineCodesService.removeAlias(id);
+    return { success: true };
+  }
+
   @Get('batches')
   @Roles(UserRole.MANAGER, UserRole.ADMIN)
   @ApiOperation({ summary: 'Get import batches info' })
@@ -176,6 +353,28 @@ export class SalesController {
     return this.salesService.deleteBatch(batchId);
   }
 
+  @Get('batches/:batchId/rejected')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'List rows skipped or rejected during a batch import' })
+  async getRejectedRows(@Param('batchId', ParseUUIDPipe) batchId: string) {
+    return this.salesService.getRejectedRows(batchId);
+  }
+
+  @Get('batches/:batchId/rejected/export')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Download rejected rows of a batch as Excel file for re-import' })
+  async exportRejectedRows(@Param('batchId', ParseUUIDPipe) batchId: string, @Res() res: Response) {
+    const buffer = await this.salesService.exportRejectedRows(batchId);
+    const filename = `rejected_${batchId}.xlsx`;
+
+    res.set({
+      'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Content-Length': buffer.length,
+    });
+    res.end(buffer);
+  }
+
   @Get('batches/:batchId/file')
   @Roles(UserRole.MANAGER, UserRole.ADMIN)
   @ApiOperation({ summary: 'Get download URL for original import file' })
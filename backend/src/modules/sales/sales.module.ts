@@ -3,24 +3,46 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { MulterModule } from '@nestjs/platform-express';
 import { SalesOrder } from './entities/sales-order.entity';
 import { ImportFile } from './entities/import-file.entity';
+import { ImportRejectedRow } from './entities/import-rejected-row.entity';
+import { ImportRejectedHeaders } from './entities/import-rejected-headers.entity';
+import { ReconciliationRecord } from './entities/reconciliation-record.entity';
+import { SalesImportProfile } from './entities/sales-import-profile.entity';
+import { SalesImportJob } from './entities/sales-import-job.entity';
+import { MachineCodeAlias } from './entities/machine-code-alias.entity';
 import { Machine } from '../machines/entities/machine.entity';
 import { Collection } from '../collections/entities/collection.entity';
 import { SalesController } from './sales.controller';
 import { SalesService } from './sales.service';
+import { SalesImportProfilesService } from './sales-import-profiles.service';
+import { MachineCodesService } from './machine-codes.service';
+import { SalesAnalyticsService } from './sales-analytics.service';
+import { ReconciliationRunsService } from './reconciliation-runs.service';
+import { ReconciliationSchedulerService } from './reconciliation-scheduler.service';
 import { TelegramModule } from '../../telegram/telegram.module';
 import { SettingsModule } from '../settings/settings.module';
+import { MachinesModule } from '../machines/machines.module';
+import { MailModule } from '../../mail/mail.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([SalesOrder, ImportFile, Machine, Collection]),
+    TypeOrmModule.forFeature([SalesOrder, ImportFile, ImportRejectedRow, ImportRejectedHeaders, ReconciliationRecord, SalesImportProfile, SalesImportJob, MachineCodeAlias, Machine, Collection]),
     MulterModule.register({
       storage: undefined, // memory storage (default)
     }),
     TelegramModule,
     SettingsModule,
+    MachinesModule,
+    MailModule,
   ],
   controllers: [SalesController],
-  providers: [SalesService],
+  providers: [
+    SalesService,
+    SalesImportProfilesService,
+    MachineCodesService,
+    SalesAnalyticsService,
+    ReconciliationRunsService,
+    ReconciliationSchedulerService,
+  ],
   exports: [SalesService],
 })
 export class SalesModule {}
@@ -1,18 +1,32 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { SalesService } from './sales.service';
+import * as ExcelJS from 'exceljs';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { SalesService, BACKGROUND_IMPORT_THRESHOLD } from './sales.service';
 import { SalesOrder, PaymentMethod, PaymentStatus } from './entities/sales-order.entity';
 import { ImportFile } from './entities/import-file.entity';
-import { Machine } from '../machines/entities/machine.entity';
+import { ImportRejectedRow, ImportRejectReason } from './entities/import-rejected-row.entity';
+import { ImportRejectedHeaders } from './entities/import-rejected-headers.entity';
+import { SalesImportJob } from './entities/sales-import-job.entity';
 import { Collection } from '../collections/entities/collection.entity';
 import { TelegramService } from '../../telegram/telegram.service';
+import { SalesImportProfilesService } from './sales-import-profiles.service';
+import { MachineCodesService } from './machine-codes.service';
+import { NotificationsGateway } from '../../notifications/notifications.gateway';
 
 describe('SalesService', () => {
   let service: SalesService;
   let salesOrderRepo: jest.Mocked<Repository<SalesOrder>>;
-  let machineRepo: jest.Mocked<Repository<Machine>>;
   let collectionRepo: jest.Mocked<Repository<Collection>>;
+  let importProfilesService: { resolveFormat: jest.Mock };
+  let rejectedRowRepo: { insert: jest.Mock; find: jest.Mock; delete: jest.Mock; createQueryBuilder: jest.Mock };
+  let notificationsGateway: { notifyImportProgress: jest.Mock };
+  let cache: Map<string, unknown>;
+  let importJobs: Map<string, SalesImportJob>;
+  let rejectedHeadersRepo: { findOne: jest.Mock; delete: jest.Mock; createQueryBuilder: jest.Mock };
+  let importJobRepo: { find: jest.Mock; createQueryBuilder: jest.Mock };
 
   const createMockQueryBuilder = (result: any = []) => ({
     select: jest.fn().mockReturnThis(),
@@ -39,10 +53,14 @@ describe('SalesService', () => {
     into: jest.fn().mockReturnThis(),
     values: jest.fn().mockReturnThis(),
     orIgnore: jest.fn().mockReturnThis(),
+    update: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
     execute: jest.fn().mockResolvedValue({ identifiers: [] }),
   });
 
   beforeEach(async () => {
+    cache = new Map();
+    importJobs = new Map();
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         SalesService,
@@ -60,13 +78,6 @@ describe('SalesService', () => {
             },
           },
         },
-        {
-          provide: getRepositoryToken(Machine),
-          useValue: {
-            find: jest.fn().mockResolvedValue([]),
-            findOne: jest.fn(),
-          },
-        },
         {
           provide: getRepositoryToken(Collection),
           useValue: {
@@ -81,6 +92,42 @@ describe('SalesService', () => {
             save: jest.fn(),
           },
         },
+        {
+          provide: getRepositoryToken(ImportRejectedRow),
+          useValue: {
+            insert: jest.fn(),
+            find: jest.fn().mockResolvedValue([]),
+            delete: jest.fn(),
+            createQueryBuilder: jest.fn().mockReturnValue(createMockQueryBuilder()),
+          },
+        },
+        {
+          provide: getRepositoryToken(ImportRejectedHeaders),
+          useValue: {
+            findOne: jest.fn().mockResolvedValue(null),
+            delete: jest.fn(),
+            createQueryBuilder: jest.fn().mockReturnValue(createMockQueryBuilder()),
+          },
+        },
+        {
+          provide: getRepositoryToken(SalesImportJob),
+          useValue: {
+            create: jest.fn((data: SalesImportJob) => data),
+            save: jest.fn(async (job: SalesImportJob) => {
+              importJobs.set(job.id, { ...job, updatedAt: new Date() });
+              return job;
+            }),
+            update: jest.fn(async (id: string, update: Partial<SalesImportJob>) => {
+              Object.assign(importJobs.get(id)!, update, { updatedAt: new Date() });
+            }),
+            findOne: jest.fn(async ({ where }: { where: { id: string; userId: string } }) => {
+              const job = importJobs.get(where.id);
+              return job && job.userId === where.userId ? { ...job } : null;
+            }),
+            find: jest.fn().mockResolvedValue([]),
+            createQueryBuilder: jest.fn().mockReturnValue(createMockQueryBuilder()),
+          },
+        },
         {
           provide: TelegramService,
           useValue: {
@@ -89,13 +136,43 @@ describe('SalesService', () => {
             getFileUrl: jest.fn().mockResolvedValue(null),
           },
         },
+        {
+          provide: MachineCodesService,
+          useValue: {
+            getLookup: jest.fn().mockResolvedValue(new Map()),
+          },
+        },
+        {
+          provide: SalesImportProfilesService,
+          useValue: {
+            resolveFormat: jest.fn().mockResolvedValue(null),
+          },
+        },
+        {
+          provide: NotificationsGateway,
+          useValue: {
+            notifyImportProgress: jest.fn(),
+          },
+        },
+        {
+          provide: CACHE_MANAGER,
+          useValue: {
+            get: jest.fn(async (key: string) => cache.get(key)),
+            set: jest.fn(async (key: string, value: unknown) => cache.set(key, value)),
+            del: jest.fn(async (key: string) => cache.delete(key)),
+          },
+        },
       ],
     }).compile();
 
     service = module.get<SalesService>(SalesService);
     salesOrderRepo = module.get(getRepositoryToken(SalesOrder));
-    machineRepo = module.get(getRepositoryToken(Machine));
     collectionRepo = module.get(getRepositoryToken(Collection));
+    importProfilesService = module.get(SalesImportProfilesService);
+    rejectedRowRepo = module.get(getRepositoryToken(ImportRejectedRow));
+    notificationsGateway = module.get(NotificationsGateway);
+    importJobRepo = module.get(getRepositoryToken(SalesImportJob));
+    rejectedHeadersRepo = module.get(getRepositoryToken(ImportRejectedHeaders));
   });
 
   it('should be defined', () => {
@@ -207,6 +284,93 @@ describe('SalesService', () => {
       expect(result).toHaveProperty('summary');
       expect(result.items.length).toBeGreaterThanOrEqual(0);
     });
+
+    it('should subtract cash refunds paid from the box from the expected amount', async () => {
+      salesOrderRepo.manager.query = jest.fn().mockResolvedValue([
+        {
+          collectionId: 'c1',
+          machineCode: 'M001',
+          machineName: 'Machine 1',
+          periodStart: new Date('2025-01-14T10:00:00Z'),
+          periodEnd: new Date('2025-01-15T10:00:00Z'),
+          actualAmount: '90000',
+          cashSalesAmount: '100000',
+          refundsAmount: '10000',
+          cashOrdersCount: '20',
+        },
+      ]);
+
+      const result = await service.getReconciliation({});
+
+      expect(result.items[0]).toMatchObject({
+        expectedAmount: 90000,
+        refundsAmount: 10000,
+        difference: 0,
+        status: 'matched',
+      });
+      const [sql, values] = (salesOrderRepo.manager.query as jest.Mock).mock.calls[0];
+      expect(sql).toContain('cash_refunds_from_box');
+      expect(values).toContain(PaymentStatus.REFUNDED);
+    });
+
+    it('should count orders linked to the machine through an alias code', async () => {
+      // Order imported as "VM-012", linked by the alias backfill to our machine "VM12"
+      salesOrderRepo.manager.query = jest.fn().mockResolvedValue([
+        {
+          collectionId: 'c1',
+          machineCode: 'VM12',
+          machineName: 'Machine 12',
+          periodStart: new Date('2025-01-14T10:00:00Z'),
+          periodEnd: new Date('2025-01-15T10:00:00Z'),
+          actualAmount: '50000',
+          cashSalesAmount: '50000',
+          refundsAmount: '0',
+          cashOrdersCount: '1',
+        },
+      ]);
+
+      const result = await service.getReconciliation({});
+
+      expect(result.items[0]).toMatchObject({ machineCode: 'VM12', expectedAmount: 50000, status: 'matched' });
+      const [sql] = (salesOrderRepo.manager.query as jest.Mock).mock.calls[0];
+      expect(sql).toContain(
+        '(so.machine_id = cp.machine_id OR (so.machine_id IS NULL AND LOWER(so.machine_code) = LOWER(cp.machine_code)))',
+      );
+      expect(sql).toContain(
+        '(r.machine_id = cp.machine_id OR (r.machine_id IS NULL AND LOWER(r.machine_code) = LOWER(cp.machine_code)))',
+      );
+      expect(sql).not.toMatch(/ON LOWER\(so\.machine_code\)/);
+    });
+  });
+
+  describe('exportReconciliation', () => {
+    it('should show gross cash sales, refunds and the expected amount separately', async () => {
+      salesOrderRepo.manager.query = jest.fn().mockResolvedValue([
+        {
+          collectionId: 'c1',
+          machineCode: 'M001',
+          machineName: 'Machine 1',
+          periodStart: new Date('2025-01-14T10:00:00Z'),
+          periodEnd: new Date('2025-01-15T10:00:00Z'),
+          actualAmount: '90000',
+          cashSalesAmount: '100000',
+          refundsAmount: '10000',
+          cashOrdersCount: '20',
+        },
+      ]);
+
+      const buffer = await service.exportReconciliation({});
+
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+      const sheet = workbook.worksheets[0];
+      expect(sheet.getRow(1).values).toEqual(expect.arrayContaining(['Продажи (нал)', 'Возвраты (нал)', 'Ожидаемо (нал)']));
+      const row = sheet.getRow(2).values as unknown[];
+      const header = sheet.getRow(1).values as unknown[];
+      expect(row[header.indexOf('Продажи (нал)')]).toBe(100000);
+      expect(row[header.indexOf('Возвраты (нал)')]).toBe(10000);
+      expect(row[header.indexOf('Ожидаемо (нал)')]).toBe(90000);
+    });
   });
 
   describe('getMachineCodes', () => {
@@ -241,6 +405,20 @@ describe('SalesService', () => {
       expect(result).toHaveLength(1);
       expect(result[0]).toHaveProperty('batchId');
       expect(result[0]).toHaveProperty('ordersCount');
+      expect(result[0].status).toBe('completed');
+    });
+
+    it('should report batches of failed jobs as failed', async () => {
+      const qb = createMockQueryBuilder();
+      qb.getRawMany.mockResolvedValue([
+        { batchId: 'batch-1', importedAt: '2025-01-15T10:00:00Z', ordersCount: '40' },
+      ]);
+      salesOrderRepo.createQueryBuilder.mockReturnValue(qb as any);
+      importJobRepo.find.mockResolvedValue([{ batchId: 'batch-1', status: 'failed' }]);
+
+      const result = await service.getImportBatches();
+
+      expect(result[0]).toMatchObject({ batchId: 'batch-1', ordersCount: 40, status: 'failed' });
     });
   });
 
@@ -251,6 +429,8 @@ describe('SalesService', () => {
       const result = await service.deleteBatch('batch-123');
 
       expect(salesOrderRepo.delete).toHaveBeenCalledWith({ importBatchId: 'batch-123' });
+      expect(rejectedRowRepo.delete).toHaveBeenCalledWith({ batchId: 'batch-123' });
+      expect(rejectedHeadersRepo.delete).toHaveBeenCalledWith({ batchId: 'batch-123' });
       expect(result).toEqual({ deleted: 50 });
     });
   });
@@ -298,4 +478,374 @@ describe('SalesService', () => {
       expect(result[0]).toHaveProperty('total');
     });
   });
+
+  describe('importFile', () => {
+    const buildFile = async (rows: unknown[][]) => {
+      const workbook = new ExcelJS.Workbook();
+      const sheet = workbook.addWorksheet('Orders');
+      rows.forEach((row) => sheet.addRow(row));
+      return Buffer.from(await workbook.xlsx.writeBuffer());
+    };
+
+    it('should use the built-in layout when no profile fits', async () => {
+      const qb = createMockQueryBuilder();
+      qb.execute.mockResolvedValue({ identifiers: [{ id: '1' }] });
+      salesOrderRepo.createQueryBuilder.mockReturnValue(qb as any);
+      const buffer = await buildFile([
+        ['Номер заказа', 'Ресурс оплаты', 'Код автомата', 'Цена', 'Дата заказа'],
+        ['1001', 'Наличные', 'A01', 12000, '2025-09-11 23:06:09'],
+        ['1002', 'VIP', 'A01', 12000, '2025-09-11 23:10:00'],
+      ]);
+
+      const result = await service.importFile(buffer, 'orders.xlsx');
+
+      expect(importProfilesService.resolveFormat).toHaveBeenCalledWith(expect.anything(), undefined);
+      expect(result.profileName).toBeNull();
+      expect(result.imported).toBe(1);
+      expect(result.skipped).toBe(1);
+      expect(qb.values).toHaveBeenCalledWith([
+        expect.objectContaining({ orderNumber: '1001', paymentMethod: PaymentMethod.CASH, machineCode: 'A01', price: 12000 }),
+      ]);
+    });
+
+    it('should link refunds of the batch to their orders after inserting', async () => {
+      const qb = createMockQueryBuilder();
+      qb.execute.mockResolvedValue({ identifiers: [{ id: '1' }] });
+      salesOrderRepo.createQueryBuilder.mockReturnValue(qb as any);
+      const buffer = await buildFile([
+        ['Номер заказа', 'Ресурс оплаты', 'Код автомата', 'Цена', 'Дата заказа'],
+        ['1001', 'Наличные', 'A01', 12000, '2025-09-11 23:06:09'],
+      ]);
+
+      const result = await service.importFile(buffer, 'orders.xlsx');
+
+      expect(salesOrderRepo.manager.query).toHaveBeenCalledWith(
+        expect.stringContaining('SET refund_of_id = o.id'),
+        [PaymentStatus.REFUNDED, PaymentStatus.PAID, result.batchId],
+      );
+    });
+
+    it('should read rows through the resolved profile format', async () => {
+      const qb = createMockQueryBuilder();
+      qb.execute.mockResolvedValue({ identifiers: [{ id: '1' }] });
+      salesOrderRepo.createQueryBuilder.mockReturnValue(qb as any);
+      importProfilesService.resolveFormat.mockResolvedValue({
+        profileName: 'Provider B',
+        headerRow: 2,
+        columns: { machineCode: 1, price: 2, paymentResource: 3, orderDate: 4, paymentStatus: 5 },
+        parsePaymentMethod: (v: string) => (v === 'cash' ? PaymentMethod.CASH : null),
+        parsePaymentStatus: (v: string) => (v === 'back' ? PaymentStatus.REFUNDED : PaymentStatus.PAID),
+        parseDate: () => new Date('2025-09-11T18:00:00Z'),
+        shouldSkip: (read: (field: string) => string) => read('machineCode') === 'TEST',
+      });
+      const buffer = await buildFile([
+        ['Export from provider B'],
+        ['Device', 'Sum', 'Pay', 'Time', 'State'],
+        ['B07', 5000, 'cash', 'x', 'back'],
+        ['TEST', 5000, 'cash', 'x', ''],
+      ]);
+
+      const result = await service.importFile(buffer, 'b.xlsx', 'profile-1');
+
+      expect(importProfilesService.resolveFormat).toHaveBeenCalledWith(expect.anything(), 'profile-1');
+      expect(result.profileName).toBe('Provider B');
+      expect(result.skipped).toBe(1);
+      expect(qb.values).toHaveBeenCalledWith([
+        expect.objectContaining({
+          machineCode: 'B07',
+          price: 5000,
+          paymentMethod: PaymentMethod.CASH,
+          paymentStatus: PaymentStatus.REFUNDED,
+          orderDate: new Date('2025-09-11T18:00:00Z'),
+        }),
+      ]);
+    });
+
+    it('should import a Windows-1251 CSV with semicolons the same way', async () => {
+      const qb = createMockQueryBuilder();
+      qb.execute.mockResolvedValue({ identifiers: [{ id: '1' }] });
+      salesOrderRepo.createQueryBuilder.mockReturnValue(qb as any);
+      const csv = [
+        'Номер заказа;Ресурс оплаты;Код автомата;Цена;Дата заказа',
+        '1001;Наличные;A01;12000;2025-09-11 23:06:09',
+        '1002;VIP;A01;12000;2025-09-11 23:10:00',
+      ].join('\r\n');
+      const buffer = Buffer.from(new Uint8Array([...csv].map((ch) => {
+        const code = ch.charCodeAt(0);
+        // Cyrillic А..я sit at 0xC0..0xFF in Windows-1251
+        return code >= 0x410 && code <= 0x44f ? code - 0x350 : code;
+      })));
+
+      const result = await service.importFile(buffer, 'orders.csv');
+
+      expect(result.imported).toBe(1);
+      expect(result.skipped).toBe(1);
+      expect(qb.values).toHaveBeenCalledWith([
+        expect.objectContaining({ orderNumber: '1001', paymentMethod: PaymentMethod.CASH, machineCode: 'A01', price: 12000 }),
+      ]);
+      expect(qb.orIgnore).toHaveBeenCalled();
+    });
+
+    it('should import a JSON array with nested fields', async () => {
+      const qb = createMockQueryBuilder();
+      qb.execute.mockResolvedValue({ identifiers: [{ id: '1' }] });
+      salesOrderRepo.createQueryBuilder.mockReturnValue(qb as any);
+      importProfilesService.resolveFormat.mockResolvedValue({
+        profileName: 'JSON feed',
+        headerRow: 1,
+        columns: { orderNumber: 1, machineCode: 2, price: 3, paymentResource: 4, orderDate: 5 },
+        parsePaymentMethod: (v: string) => (v === 'cash' ? PaymentMethod.CASH : null),
+        parsePaymentStatus: () => PaymentStatus.PAID,
+        parseDate: (v: unknown) => new Date(String(v)),
+        shouldSkip: () => false,
+      });
+      const buffer = Buffer.from(JSON.stringify([
+        { id: 77, machine: { code: 'J01' }, amount: 9000, payment: 'cash', time: '2025-09-11T18:00:00Z' },
+        'garbage',
+      ]));
+
+      const result = await service.importFile(buffer, 'feed.json');
+
+      const sheet = importProfilesService.resolveFormat.mock.calls[0][0];
+      expect(sheet.getRow(1).values).toEqual([undefined, 'id', 'machine.code', 'amount', 'payment', 'time']);
+      expect(result.imported).toBe(1);
+      expect(qb.values).toHaveBeenCalledWith([
+        expect.objectContaining({ orderNumber: '77', machineCode: 'J01', price: 9000, importBatchId: result.batchId }),
+      ]);
+    });
+
+    it('should save skipped and rejected rows with reason codes and raw values', async () => {
+      const qb = createMockQueryBuilder();
+      qb.execute.mockResolvedValue({ identifiers: [{ id: '1' }] });
+      salesOrderRepo.createQueryBuilder.mockReturnValue(qb as any);
+      const headersQb = createMockQueryBuilder();
+      rejectedHeadersRepo.createQueryBuilder.mockReturnValue(headersQb);
+      const buffer = await buildFile([
+        ['Номер заказа', 'Ресурс оплаты', 'Код автомата', 'Цена', 'Дата заказа'],
+        ['1001', 'Наличные', 'A01', 12000, '2025-09-11 23:06:09'],
+        ['1002', 'VIP', 'A01', 12000, '2025-09-11 23:10:00'],
+        ['1003', 'Наличные', 'A01', 0, '2025-09-11 23:12:00'],
+        ['1004', 'Наличные', 'A01', 5000, 'вчера'],
+      ]);
+
+      const result = await service.importFile(buffer, 'orders.xlsx');
+
+      expect(result.rejectedByReason).toEqual({
+        [ImportRejectReason.UNSUPPORTED_PAYMENT]: 1,
+        [ImportRejectReason.ZERO_PRICE]: 1,
+        [ImportRejectReason.INVALID_DATE]: 1,
+      });
+      expect(rejectedRowRepo.insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          batchId: result.batchId,
+          rowNumber: 3,
+          reason: ImportRejectReason.UNSUPPORTED_PAYMENT,
+          message: 'VIP',
+          rawValues: ['1002', 'VIP', 'A01', '12000', '2025-09-11 23:10:00'],
+        }),
+        expect.objectContaining({ rowNumber: 4, reason: ImportRejectReason.ZERO_PRICE }),
+        expect.objectContaining({ rowNumber: 5, reason: ImportRejectReason.INVALID_DATE }),
+      ]);
+      expect(rejectedRowRepo.insert.mock.calls[0][0][0]).not.toHaveProperty('headers');
+      expect(headersQb.values).toHaveBeenCalledTimes(1);
+      expect(headersQb.values).toHaveBeenCalledWith({
+        batchId: result.batchId,
+        headers: ['Номер заказа', 'Ресурс оплаты', 'Код автомата', 'Цена', 'Дата заказа'],
+      });
+      expect(headersQb.orIgnore).toHaveBeenCalled();
+    });
+
+    it('should reject JSON that is not an array', async () => {
+      await expect(service.importFile(Buffer.from('{"orders": 1}'), 'feed.json')).rejects.toThrow('массив');
+      await expect(service.importFile(Buffer.from('[{'), 'feed.json')).rejects.toThrow('Некорректный JSON');
+    });
+  });
+
+  describe('exportRejectedRows', () => {
+    it('should write rejected rows in the source layout with the reason appended', async () => {
+      rejectedRowRepo.find.mockResolvedValue([
+        {
+          rowNumber: 3,
+          reason: ImportRejectReason.UNSUPPORTED_PAYMENT,
+          message: 'VIP',
+          rawValues: ['1002', 'VIP', '12000'],
+        },
+      ]);
+      rejectedHeadersRepo.findOne.mockResolvedValue({ batchId: 'batch-1', headers: ['Номер заказа', 'Ресурс оплаты', 'Цена'] });
+
+      const buffer = await service.exportRejectedRows('batch-1');
+
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+      const sheet = workbook.worksheets[0];
+      expect(sheet.getRow(1).values).toEqual([undefined, 'Номер заказа', 'Ресурс оплаты', 'Цена', 'Причина', 'Строка файла']);
+      expect(sheet.getRow(2).values).toEqual([undefined, '1002', 'VIP', '12000', 'Оплата не наличными и не картой: VIP', 3]);
+    });
+
+    it('should throw NotFoundException when the batch has no rejected rows', async () => {
+      await expect(service.exportRejectedRows('batch-1')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('previewImport / confirmImport', () => {
+    const buildFile = async () => {
+      const workbook = new ExcelJS.Workbook();
+      const sheet = workbook.addWorksheet('Orders');
+      [
+        ['Номер заказа', 'Ресурс оплаты', 'Код автомата', 'Цена', 'Дата заказа'],
+        ['1001', 'Наличные', 'A01', 12000, '2025-09-11 10:00:00'],
+        ['1002', 'Наличные', 'A01', 8000, '2025-09-12 10:00:00'],
+        ['1002', 'Наличные', 'A01', 8000, '2025-09-12 10:00:00'],
+        ['1003', 'VIP', 'A01', 8000, '2025-09-13 10:00:00'],
+      ].forEach((row) => sheet.addRow(row));
+      return Buffer.from(await workbook.xlsx.writeBuffer());
+    };
+
+    it('should report counts, date range and sample rows without inserting', async () => {
+      const qb = createMockQueryBuilder();
+      // 1001 is already in the DB
+      qb.getMany.mockResolvedValue([
+        {
+          orderNumber: '1001',
+          machineCode: 'A01',
+          orderDate: new Date('2025-09-11T05:00:00.000Z'),
+          paymentStatus: PaymentStatus.PAID,
+        },
+      ]);
+      salesOrderRepo.createQueryBuilder.mockReturnValue(qb as any);
+
+      const preview = await service.previewImport(await buildFile(), 'orders.xlsx', 'user-1');
+
+      expect(qb.insert).not.toHaveBeenCalled();
+      expect(preview.token).toBeDefined();
+      expect(preview.totalRows).toBe(3);
+      expect(preview.duplicateCount).toBe(2);
+      expect(preview.newCount).toBe(1);
+      expect(preview.skipped).toBe(1);
+      expect(preview.machinesNotFound).toEqual(['A01']);
+      expect(preview.dateFrom).toBe('2025-09-11T05:00:00.000Z');
+      expect(preview.dateTo).toBe('2025-09-12T05:00:00.000Z');
+      expect(preview.sampleRows).toHaveLength(3);
+      expect(preview.columns).toContainEqual({ field: 'machineCode', column: 3, header: 'Код автомата' });
+    });
+
+    it('should cache only the file, not the parsed rows', async () => {
+      const file = await buildFile();
+      const { token } = await service.previewImport(file, 'orders.xlsx', 'user-1', 'profile-1');
+
+      expect(cache.get(`sales:import-preview:${token}`)).toEqual({
+        userId: 'user-1',
+        originalName: 'orders.xlsx',
+        profileId: 'profile-1',
+        file: file.toString('base64'),
+      });
+    });
+
+    it('should commit the previewed orders once for the same user', async () => {
+      const qb = createMockQueryBuilder();
+      qb.execute.mockResolvedValue({ identifiers: [{ id: '1' }, { id: '2' }] });
+      salesOrderRepo.createQueryBuilder.mockReturnValue(qb as any);
+
+      const { token } = await service.previewImport(await buildFile(), 'orders.xlsx', 'user-1');
+
+      await expect(service.confirmImport(token, 'user-2')).rejects.toThrow(BadRequestException);
+
+      const result = await service.confirmImport(token, 'user-1');
+      expect(result.imported).toBe(2);
+      expect(result.duplicates).toBe(1);
+      expect(qb.values).toHaveBeenCalledWith(
+        expect.arrayContaining([expect.objectContaining({ orderNumber: '1001', importBatchId: result.batchId })]),
+      );
+
+      await expect(service.confirmImport(token, 'user-1')).rejects.toThrow(BadRequestException);
+      expect(cache.size).toBe(0);
+    });
+  });
+
+  describe('background import', () => {
+    const buildLargeFile = async (count: number) => {
+      const workbook = new ExcelJS.Workbook();
+      const sheet = workbook.addWorksheet('Orders');
+      sheet.addRow(['Номер заказа', 'Ресурс оплаты', 'Код автомата', 'Цена', 'Дата заказа']);
+      for (let i = 1; i <= count; i++) {
+        sheet.addRow([String(1000 + i), i === 7 ? 'VIP' : 'Наличные', 'A01', 5000, '2025-09-11 10:00:00']);
+      }
+      return Buffer.from(await workbook.xlsx.writeBuffer());
+    };
+
+    it('should stream the workbook and insert orders in chunks', async () => {
+      const qb = createMockQueryBuilder();
+      qb.execute.mockImplementation(async () => ({
+        identifiers: qb.values.mock.calls[qb.values.mock.calls.length - 1][0].map(() => ({ id: 'x' })),
+      }));
+      salesOrderRepo.createQueryBuilder.mockReturnValue(qb as any);
+
+      const result = await service.importStream(await buildLargeFile(1201), 'big.xlsx');
+
+      expect(qb.values).toHaveBeenCalledTimes(3);
+      expect(qb.values.mock.calls[0][0]).toHaveLength(499);
+      expect(qb.values.mock.calls[0][0][0]).toMatchObject({
+        orderNumber: '1001',
+        machineCode: 'A01',
+        price: 5000,
+        importBatchId: result.batchId,
+      });
+      expect(result.imported).toBe(1200);
+      expect(result.skipped).toBe(1);
+      expect(result.rejectedByReason).toEqual({ [ImportRejectReason.UNSUPPORTED_PAYMENT]: 1 });
+      expect(rejectedRowRepo.insert).toHaveBeenCalledWith([
+        expect.objectContaining({ rowNumber: 8, reason: ImportRejectReason.UNSUPPORTED_PAYMENT, batchId: result.batchId }),
+      ]);
+    });
+
+    it('should run a job and push its result over the gateway', async () => {
+      const qb = createMockQueryBuilder();
+      qb.execute.mockResolvedValue({ identifiers: [{ id: '1' }] });
+      salesOrderRepo.createQueryBuilder.mockReturnValue(qb as any);
+
+      const job = await service.startImportJob(await buildLargeFile(1), 'big.xlsx', 'user-1');
+      expect(job).toMatchObject({ status: 'running', percent: 0, result: null });
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(notificationsGateway.notifyImportProgress).toHaveBeenLastCalledWith(
+        'user-1',
+        expect.objectContaining({ jobId: job.jobId, status: 'completed', percent: 100 }),
+      );
+      expect((await service.getImportJob(job.jobId, 'user-1')).result?.imported).toBe(1);
+      await expect(service.getImportJob(job.jobId, 'user-2')).rejects.toThrow(NotFoundException);
+    });
+
+    it('should import under the batch id stored on the job', async () => {
+      const qb = createMockQueryBuilder();
+      qb.execute.mockResolvedValue({ identifiers: [{ id: '1' }] });
+      salesOrderRepo.createQueryBuilder.mockReturnValue(qb as any);
+
+      const job = await service.startImportJob(await buildLargeFile(1), 'big.xlsx', 'user-1');
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const stored = importJobs.get(job.jobId)!;
+      expect(stored.status).toBe('completed');
+      expect(stored.result?.batchId).toBe(stored.batchId);
+    });
+
+    it('should mark running jobs without a heartbeat as failed', async () => {
+      const qb = createMockQueryBuilder();
+      importJobRepo.createQueryBuilder.mockReturnValue(qb as any);
+      importJobs.set('job-1', { id: 'job-1', userId: 'user-1', status: 'running' } as SalesImportJob);
+
+      await service.getImportJob('job-1', 'user-1');
+
+      expect(qb.set).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed' }));
+      expect(qb.where).toHaveBeenCalledWith('status = :status', { status: 'running' });
+      expect(qb.andWhere).toHaveBeenCalledWith('updated_at < :cutoff', { cutoff: expect.any(Date) });
+      expect(qb.execute).toHaveBeenCalled();
+    });
+
+    it('should refuse to preview files above the background threshold', async () => {
+      await expect(
+        service.previewImport(Buffer.alloc(BACKGROUND_IMPORT_THRESHOLD + 1), 'big.xlsx', 'user-1'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
 });
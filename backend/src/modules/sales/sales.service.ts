@@ -1,14 +1,24 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Injectable, Inject, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { Repository, In } from 'typeorm';
+import { Readable } from 'stream';
 import * as ExcelJS from 'exceljs';
 import { SalesOrder, PaymentMethod, PaymentStatus } from './entities/sales-order.entity';
 import { ImportFile } from './entities/import-file.entity';
-import { Machine } from '../machines/entities/machine.entity';
+import { ImportRejectedRow, ImportRejectReason } from './entities/import-rejected-row.entity';
+import { ImportRejectedHeaders } from './entities/import-rejected-headers.entity';
+import { SalesImportJob } from './entities/sales-import-job.entity';
 import { Collection, CollectionStatus } from '../collections/entities/collection.entity';
 import { SalesQueryDto, ReconciliationQueryDto } from './dto/sales-query.dto';
-import { ImportSalesResultDto } from './dto/import-sales.dto';
+import { ImportSalesResultDto, ImportPreviewDto, ImportJobDto, ImportJobStatus } from './dto/import-sales.dto';
+import { SalesImportField } from './entities/sales-import-profile.entity';
+import { SalesImportProfilesService, SalesImportFormat } from './sales-import-profiles.service';
+import { MachineCodesService } from './machine-codes.service';
 import { TelegramService } from '../../telegram/telegram.service';
+import { NotificationsGateway } from '../../notifications/notifications.gateway';
+import { decodeText, readCsvWorksheet } from '../../common/utils/csv';
 import { v4 as uuidv4 } from 'uuid';
 import {
   startOfDayTashkent,
@@ -16,7 +26,7 @@ import {
   PG_TASHKENT_TZ,
 } from '../../common/utils/timezone';
 
-/** Map Excel payment resource text to our enum */
+/** Map Excel payment resource text to our enum (built-in layout) */
 function parsePaymentMethod(value: string): PaymentMethod | null {
   if (!value) return null;
   const lower = value.trim().toLowerCase();
@@ -75,17 +85,7 @@ function parseDate(value: unknown): Date | null {
  * Column mapping detected from header row.
  * Maps semantic field names to 1-based column indices.
  */
-interface ColumnMap {
-  orderNumber: number;
-  product: number;
-  flavor: number;
-  paymentResource: number;
-  paymentStatus: number;
-  machineCode: number;
-  address: number;
-  price: number;
-  orderDate: number;
-}
+type ColumnMap = Record<SalesImportField, number>;
 
 /** Default column positions matching the 2026-format files */
 const DEFAULT_COLUMNS: ColumnMap = {
@@ -168,12 +168,274 @@ function detectColumns(headerRow: ExcelJS.Row, logger: Logger): ColumnMap {
   return result;
 }
 
+/**
+ * Flatten nested objects into dot-separated keys:
+ * { machine: { code: 'A01' } } → { 'machine.code': 'A01' }
+ */
+function flattenRecord(record: Record<string, unknown>, prefix = ''): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      Object.assign(flat, flattenRecord(value as Record<string, unknown>, path));
+    } else {
+      flat[path] = value;
+    }
+  }
+  return flat;
+}
+
+/**
+ * Lay a JSON array of orders out as a sheet: keys (in first-seen order)
+ * become the header row, so header detection and profiles work on them.
+ * Entries that aren't objects leave an empty row and are ignored.
+ */
+function jsonToWorksheet(records: unknown[]): ExcelJS.Worksheet {
+  const rows = records.map((r) =>
+    r && typeof r === 'object' && !Array.isArray(r) ? flattenRecord(r as Record<string, unknown>) : {},
+  );
+  const keySet = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((k) => keySet.add(k)));
+  const keys = [...keySet];
+
+  const worksheet = new ExcelJS.Workbook().addWorksheet('Orders');
+  worksheet.addRow(keys);
+  rows.forEach((row, i) => {
+    const values = keys.map((k) => {
+      const value = row[k];
+      if (value === null || value === undefined || value === '') return null;
+      return typeof value === 'number' ? value : Array.isArray(value) ? JSON.stringify(value) : String(value);
+    });
+    // Keep row numbers aligned with array positions for error messages
+    worksheet.getRow(i + 2).values = values;
+  });
+  return worksheet;
+}
+
+/** Truncate errors to 50 for client response */
+function truncateErrors(errors: string[]): string[] {
+  return errors.length > 50
+    ? [...errors.slice(0, 50), `... ещё ${errors.length - 50} ошибок (см. серверные логи)`]
+    : errors;
+}
+
+/** Cell value as text for the rejected-rows report; dates keep the sheet's wall time */
+function cellToText(cell: ExcelJS.Cell): string {
+  if (cell.value instanceof Date) {
+    return cell.value.toISOString().slice(0, 19).replace('T', ' ');
+  }
+  return cell.text.trim();
+}
+
+const REJECT_REASON_LABELS: Record<ImportRejectReason, string> = {
+  [ImportRejectReason.SKIP_RULE]: 'Правило пропуска профиля',
+  [ImportRejectReason.UNSUPPORTED_PAYMENT]: 'Оплата не наличными и не картой',
+  [ImportRejectReason.MISSING_MACHINE]: 'Не указан код автомата',
+  [ImportRejectReason.INVALID_DATE]: 'Невозможно распознать дату',
+  [ImportRejectReason.ZERO_PRICE]: 'Нулевая или нераспознанная цена',
+  [ImportRejectReason.PARSE_ERROR]: 'Ошибка разбора строки',
+};
+
+/** How long a previewed import can be confirmed */
+const PREVIEW_TTL_MS = 30 * 60 * 1000;
+
+/** Previews are kept in the shared cache, so any instance can confirm them */
+const previewCacheKey = (token: string) => `sales:import-preview:${token}`;
+
+const PREVIEW_SAMPLE_ROWS = 10;
+
+/** Orders and rejected rows are written in chunks of this size */
+const INSERT_CHUNK_SIZE = 500;
+
+/** Files above this size are imported as a background job with the streaming reader */
+export const BACKGROUND_IMPORT_THRESHOLD = 10 * 1024 * 1024;
+
+/** A running job without a heartbeat for this long died with its process */
+const STALE_IMPORT_JOB_MS = 15 * 60 * 1000;
+
+/** Rows between progress events of a streaming import */
+const PROGRESS_EVERY_ROWS = 5000;
+
+/** Rows kept before the layout is resolved; profiles allow a header up to row 50 */
+const STREAM_HEAD_ROWS = 50;
+
+const STREAM_CHUNK_BYTES = 64 * 1024;
+
+/** A row left out of the import, before a batch id is assigned */
+interface RejectedSalesRow {
+  rowNumber: number;
+  reason: ImportRejectReason;
+  message: string | null;
+  rawValues: string[];
+}
+
+function countByReason(rows: RejectedSalesRow[]): Partial<Record<ImportRejectReason, number>> {
+  const counts: Partial<Record<ImportRejectReason, number>> = {};
+  rows.forEach((r) => {
+    counts[r.reason] = (counts[r.reason] || 0) + 1;
+  });
+  return counts;
+}
+
+/** Header cells of a sheet, trimmed and keyed by column number */
+function readHeaderPreview(worksheet: ExcelJS.Worksheet, headerRow: number): Record<number, string> {
+  const headerPreview: Record<number, string> = {};
+  worksheet.getRow(headerRow).eachCell({ includeEmpty: false }, (cell, colNumber) => {
+    headerPreview[colNumber] = String(cell.value || '').trim();
+  });
+  return headerPreview;
+}
+
+interface RowParseStats {
+  skipped: number;
+  skippedPayment: number;
+  skippedMachineCode: number;
+  skippedRule: number;
+  errors: string[];
+  machineCodesFound: Set<string>;
+  machineCodesNotFound: Set<string>;
+}
+
+type RowParseResult = { order: Partial<SalesOrder> } | { rejected: RejectedSalesRow };
+
+/**
+ * Row handling shared by the in-memory and streaming imports: turns one
+ * data row into an order or a rejected row and keeps the counters.
+ */
+function createRowParser(
+  format: SalesImportFormat,
+  machineMap: Map<string, string>,
+  columnCount: number,
+  logger: Logger,
+): { stats: RowParseStats; parseRow: (row: ExcelJS.Row, rowNumber: number) => RowParseResult } {
+  const cols = format.columns;
+  const stats: RowParseStats = {
+    skipped: 0,
+    skippedPayment: 0,
+    skippedMachineCode: 0,
+    skippedRule: 0,
+    errors: [],
+    machineCodesFound: new Set<string>(),
+    machineCodesNotFound: new Set<string>(),
+  };
+
+  const parseRow = (row: ExcelJS.Row, rowNumber: number): RowParseResult => {
+    const reject = (reason: ImportRejectReason, message: string | null = null): RowParseResult => {
+      const length = Math.max(columnCount, row.cellCount);
+      const rawValues = Array.from({ length }, (_, i) => cellToText(row.getCell(i + 1)));
+      return { rejected: { rowNumber, reason, message, rawValues } };
+    };
+
+    try {
+      const read = (field: SalesImportField): string => {
+        const col = cols[field];
+        return col ? String(row.getCell(col).value || '').trim() : '';
+      };
+
+      if (format.shouldSkip(read)) {
+        stats.skipped++;
+        stats.skippedRule++;
+        return reject(ImportRejectReason.SKIP_RULE);
+      }
+
+      const paymentResource = read('paymentResource');
+      const paymentMethod = format.parsePaymentMethod(paymentResource);
+      if (!paymentMethod) {
+        stats.skipped++;
+        stats.skippedPayment++;
+        // Log first few skips for debugging
+        if (stats.skippedPayment <= 3) {
+          logger.debug(
+            `Row ${rowNumber} skipped: paymentResource="${paymentResource}" (col ${cols.paymentResource}) not recognized`,
+          );
+        }
+        return reject(ImportRejectReason.UNSUPPORTED_PAYMENT, paymentResource || null); // send, vip, test
+      }
+
+      const machineCode = read('machineCode');
+      if (!machineCode) {
+        stats.skipped++;
+        stats.skippedMachineCode++;
+        if (stats.skippedMachineCode <= 3) {
+          logger.debug(
+            `Row ${rowNumber} skipped: empty machineCode (col ${cols.machineCode})`,
+          );
+        }
+        return reject(ImportRejectReason.MISSING_MACHINE);
+      }
+
+      const price = parsePrice(row.getCell(cols.price).value);
+      if (price === 0) {
+        stats.errors.push(`Строка ${rowNumber}: нулевая или нераспознанная цена`);
+        return reject(ImportRejectReason.ZERO_PRICE);
+      }
+
+      const orderDate = format.parseDate(row.getCell(cols.orderDate).value);
+      if (!orderDate) {
+        stats.errors.push(`Строка ${rowNumber}: невозможно распознать дату`);
+        return reject(ImportRejectReason.INVALID_DATE);
+      }
+
+      const machineId = machineMap.get(machineCode.toLowerCase()) || null;
+      if (machineId) {
+        stats.machineCodesFound.add(machineCode.toLowerCase());
+      } else {
+        stats.machineCodesNotFound.add(machineCode);
+      }
+
+      return {
+        order: {
+          orderNumber: read('orderNumber') || undefined,
+          productName: read('product') || undefined,
+          flavor: read('flavor') || undefined,
+          paymentMethod,
+          paymentStatus: format.parsePaymentStatus(read('paymentStatus')),
+          machineCode,
+          machineId: machineId || undefined,
+          address: read('address') || undefined,
+          price,
+          orderDate,
+        },
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'ошибка парсинга';
+      stats.errors.push(`Строка ${rowNumber}: ${message}`);
+      return reject(ImportRejectReason.PARSE_ERROR, message);
+    }
+  };
+
+  return { stats, parseRow };
+}
+
+/** Orders parsed from a file, before a batch id is assigned */
+interface ParsedSalesFile {
+  format: SalesImportFormat;
+  headerPreview: Record<number, string>;
+  headers: string[];
+  orders: Partial<SalesOrder>[];
+  rejected: RejectedSalesRow[];
+  errors: string[];
+  skipped: number;
+  machinesFound: number;
+  machinesNotFound: string[];
+}
+
+/** Only the file is kept; it is parsed again on confirm */
+interface PendingImport {
+  userId: string;
+  originalName: string;
+  profileId: string | null;
+  /** File contents, base64 */
+  file: string;
+}
+
 export interface ReconciliationItem {
   machineCode: string;
   machineName: string;
   periodStart: string;
   periodEnd: string;
-  expectedAmount: number; // cash sales from orders
+  expectedAmount: number; // cash sales from orders, net of refunds
+  refundsAmount: number;  // cash refunds paid out of the box (0 unless the machine is set up so)
   actualAmount: number;   // collection amount
   difference: number;     // expected - actual
   percentDeviation: number;
@@ -204,145 +466,552 @@ export class SalesService {
     private readonly salesOrderRepository: Repository<SalesOrder>,
     @InjectRepository(ImportFile)
     private readonly importFileRepository: Repository<ImportFile>,
-    @InjectRepository(Machine)
-    private readonly machineRepository: Repository<Machine>,
+    @InjectRepository(ImportRejectedRow)
+    private readonly rejectedRowRepository: Repository<ImportRejectedRow>,
+    @InjectRepository(ImportRejectedHeaders)
+    private readonly rejectedHeadersRepository: Repository<ImportRejectedHeaders>,
+    @InjectRepository(SalesImportJob)
+    private readonly importJobRepository: Repository<SalesImportJob>,
     @InjectRepository(Collection)
     private readonly collectionRepository: Repository<Collection>,
     private readonly telegramService: TelegramService,
+    private readonly importProfilesService: SalesImportProfilesService,
+    private readonly machineCodesService: MachineCodesService,
+    private readonly notificationsGateway: NotificationsGateway,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
   ) {}
 
   /**
-   * Import Excel file with orders.
-   * Parses columns: A=orderNumber, C=product, D=flavor, E=paymentResource, G=paymentStatus,
-   * I=machineCode, J=address, K=price, M=orderDate
+   * Import a sales file (.xlsx, .csv or .json) with orders.
+   * CSV and JSON are loaded into a worksheet first, so every format shares
+   * the parsing, deduplication, batch tracking and archiving below.
+   * The layout comes from the chosen import profile, an auto-detected one,
+   * or the built-in format: A=orderNumber, C=product, D=flavor,
+   * E=paymentResource, G=paymentStatus, I=machineCode, J=address, K=price, M=orderDate
    *
    * Duplicate protection: uses ON CONFLICT DO NOTHING on the partial unique
-   * index (order_number, machine_code, order_date) WHERE order_number IS NOT NULL.
-   * Orders already present in the DB are silently skipped and counted as duplicates.
+   * index (order_number, machine_code, order_date, payment_status) WHERE
+   * order_number IS NOT NULL, so a refund row of an order is kept next to the
+   * sale. Orders already present in the DB are silently skipped and counted
+   * as duplicates.
    */
-  async importExcel(fileBuffer: Buffer, originalName?: string): Promise<ImportSalesResultDto> {
-    const workbook = new ExcelJS.Workbook();
-    await workbook.xlsx.load(fileBuffer as unknown as ExcelJS.Buffer);
+  async importFile(fileBuffer: Buffer, originalName?: string, profileId?: string): Promise<ImportSalesResultDto> {
+    const parsed = await this.parseFile(fileBuffer, originalName, profileId);
+    return this.commitParsed(parsed, fileBuffer, originalName);
+  }
 
-    const worksheet = workbook.worksheets[0];
-    if (!worksheet) {
-      throw new BadRequestException('Excel файл не содержит листов');
+  /**
+   * Parse a sales file without writing anything. The file is cached under a
+   * token for PREVIEW_TTL_MS so the same user can commit it via
+   * confirmImport(), which parses it again with the same profile.
+   */
+  async previewImport(
+    fileBuffer: Buffer,
+    originalName: string,
+    userId: string,
+    profileId?: string,
+  ): Promise<ImportPreviewDto> {
+    if (fileBuffer.length > BACKGROUND_IMPORT_THRESHOLD) {
+      throw new BadRequestException('Файл слишком большой для предпросмотра — загрузите его напрямую, импорт пройдёт в фоне');
     }
+    const parsed = await this.parseFile(fileBuffer, originalName, profileId);
+    const duplicates = await this.countDuplicates(parsed.orders);
 
-    // Detect column mapping from header row
-    const headerRow = worksheet.getRow(1);
-    const cols = detectColumns(headerRow, this.logger);
+    const token = uuidv4();
+    const expiresAt = Date.now() + PREVIEW_TTL_MS;
+    const pending: PendingImport = {
+      userId,
+      originalName,
+      profileId: profileId ?? null,
+      file: fileBuffer.toString('base64'),
+    };
+    await this.cacheManager.set(previewCacheKey(token), pending, PREVIEW_TTL_MS);
+
+    let dateFrom: Date | null = null;
+    let dateTo: Date | null = null;
+    for (const order of parsed.orders) {
+      const date = order.orderDate as Date;
+      if (!dateFrom || date < dateFrom) dateFrom = date;
+      if (!dateTo || date > dateTo) dateTo = date;
+    }
+    const headers = parsed.headerPreview;
 
-    // Log first few header values for debugging
-    const headerPreview: Record<number, string> = {};
-    headerRow.eachCell({ includeEmpty: false }, (cell, colNumber) => {
-      headerPreview[colNumber] = String(cell.value || '').trim();
-    });
-    this.logger.log(`Import file: "${originalName}", headers: ${JSON.stringify(headerPreview)}`);
-    this.logger.log(`Using column map: ${JSON.stringify(cols)}`);
+    return {
+      token,
+      expiresAt: new Date(expiresAt).toISOString(),
+      profileName: parsed.format.profileName,
+      columns: (Object.entries(parsed.format.columns) as [SalesImportField, number][])
+        .filter(([, column]) => !!column)
+        .map(([field, column]) => ({ field, column, header: headers[column] || null })),
+      sampleRows: parsed.orders.slice(0, PREVIEW_SAMPLE_ROWS).map((o) => ({
+        orderNumber: o.orderNumber || null,
+        productName: o.productName || null,
+        machineCode: o.machineCode as string,
+        paymentMethod: o.paymentMethod as PaymentMethod,
+        paymentStatus: o.paymentStatus as PaymentStatus,
+        price: o.price as number,
+        orderDate: (o.orderDate as Date).toISOString(),
+      })),
+      totalRows: parsed.orders.length,
+      newCount: parsed.orders.length - duplicates,
+      duplicateCount: duplicates,
+      skipped: parsed.skipped,
+      errors: truncateErrors(parsed.errors),
+      rejectedByReason: countByReason(parsed.rejected),
+      machinesFound: parsed.machinesFound,
+      machinesNotFound: parsed.machinesNotFound,
+      dateFrom: dateFrom ? dateFrom.toISOString() : null,
+      dateTo: dateTo ? dateTo.toISOString() : null,
+    };
+  }
+
+  /**
+   * Commit a previewed import. The token is single-use and only valid for
+   * the user who requested the preview.
+   */
+  async confirmImport(token: string, userId: string): Promise<ImportSalesResultDto> {
+    const pending = await this.cacheManager.get<PendingImport>(previewCacheKey(token));
+    if (!pending || pending.userId !== userId) {
+      throw new BadRequestException('Предпросмотр не найден или устарел, загрузите файл заново');
+    }
+    await this.cacheManager.del(previewCacheKey(token));
+    const fileBuffer = Buffer.from(pending.file, 'base64');
+    const parsed = await this.parseFile(fileBuffer, pending.originalName, pending.profileId ?? undefined);
+    return this.commitParsed(parsed, fileBuffer, pending.originalName);
+  }
+
+  /**
+   * Start importing a large file in the background. Progress and the final
+   * result are pushed to the user over the notifications WebSocket and can
+   * also be polled with getImportJob(). The job row is the source of truth,
+   * so the status outlives the process that runs the import.
+   */
+  async startImportJob(fileBuffer: Buffer, originalName: string, userId: string, profileId?: string): Promise<ImportJobDto> {
+    const job = await this.importJobRepository.save(this.importJobRepository.create({
+      id: uuidv4(),
+      userId,
+      fileName: originalName,
+      batchId: uuidv4(),
+      status: 'running',
+      percent: 0,
+      processedRows: 0,
+      result: null,
+      error: null,
+    }));
+    this.logger.log(`Sales import job ${job.id} started: ${originalName} (${fileBuffer.length} bytes)`);
+
+    this.runImportJob(job, fileBuffer, profileId).catch(
+      (err) => this.logger.error(`Sales import job ${job.id} crashed: ${err}`),
+    );
+    return this.toJobDto(job);
+  }
+
+  async getImportJob(jobId: string, userId: string): Promise<ImportJobDto> {
+    await this.failStaleImportJobs();
+    const job = await this.importJobRepository.findOne({ where: { id: jobId, userId } });
+    if (!job) {
+      throw new NotFoundException('Задача импорта не найдена');
+    }
+    return this.toJobDto(job);
+  }
+
+  private async runImportJob(job: SalesImportJob, fileBuffer: Buffer, profileId?: string): Promise<void> {
+    // Progress writes are chained so they land in order and before the final status
+    let saved = Promise.resolve();
+    const report = (update: Partial<Pick<SalesImportJob, 'status' | 'percent' | 'processedRows' | 'result' | 'error'>>) => {
+      Object.assign(job, update);
+      this.notificationsGateway.notifyImportProgress(job.userId, this.toJobDto(job));
+      saved = saved
+        .then(() => this.importJobRepository.update(job.id, update))
+        .then(
+          () => undefined,
+          (err) => this.logger.warn(`Failed to save sales import job ${job.id}: ${err}`),
+        );
+      return saved;
+    };
+
+    try {
+      // CSV and JSON have no streaming reader; they go through the in-memory path
+      const result = /\.(csv|json)$/i.test(job.fileName)
+        ? await this.commitParsed(
+            await this.parseFile(fileBuffer, job.fileName, profileId),
+            fileBuffer,
+            job.fileName,
+            (percent) => report({ percent }),
+            job.batchId,
+          )
+        : await this.importStream(
+            fileBuffer,
+            job.fileName,
+            profileId,
+            (percent, processedRows) => report({ percent, processedRows }),
+            job.batchId,
+          );
+      await report({ status: 'completed', percent: 100, result });
+    } catch (err) {
+      this.logger.error(`Sales import job ${job.id} failed: ${err}`);
+      await report({ status: 'failed', error: err instanceof Error ? err.message : 'Ошибка импорта' });
+    }
+  }
+
+  /** Mark jobs whose process died mid-import as failed */
+  private async failStaleImportJobs(): Promise<void> {
+    await this.importJobRepository
+      .createQueryBuilder()
+      .update(SalesImportJob)
+      .set({ status: 'failed', error: 'Импорт прерван: сервер перезапущен или задача зависла' })
+      .where('status = :status', { status: 'running' })
+      .andWhere('updated_at < :cutoff', { cutoff: new Date(Date.now() - STALE_IMPORT_JOB_MS) })
+      .execute();
+  }
+
+  private toJobDto(job: SalesImportJob): ImportJobDto {
+    return {
+      jobId: job.id,
+      status: job.status,
+      fileName: job.fileName,
+      percent: job.percent,
+      processedRows: job.processedRows,
+      result: job.result,
+      error: job.error,
+    };
+  }
 
-    // Build machine code → id lookup
-    const machines = await this.machineRepository.find();
-    const machineMap = new Map<string, string>();
-    machines.forEach((m) => {
-      machineMap.set(m.code.toLowerCase(), m.id);
+  /**
+   * Import an .xlsx with ExcelJS's streaming reader instead of loading the
+   * whole workbook: rows are parsed as they are read and written in chunks.
+   * The first rows are buffered so the layout is resolved exactly as in
+   * importFile(). Progress is estimated from the share of the file consumed.
+   */
+  async importStream(
+    fileBuffer: Buffer,
+    originalName: string,
+    profileId?: string,
+    onProgress?: (percent: number, processedRows: number) => void,
+    batchId = uuidv4(),
+  ): Promise<ImportSalesResultDto> {
+    let bytesRead = 0;
+    const input = Readable.from((function* () {
+      for (let i = 0; i < fileBuffer.length; i += STREAM_CHUNK_BYTES) {
+        const chunk = fileBuffer.subarray(i, i + STREAM_CHUNK_BYTES);
+        bytesRead += chunk.length;
+        yield chunk;
+      }
+    })());
+    const reader = new ExcelJS.stream.xlsx.WorkbookReader(input, {
+      worksheets: 'emit',
+      sharedStrings: 'cache',
+      styles: 'cache',
+      hyperlinks: 'ignore',
+      entries: 'emit',
     });
 
-    const batchId = uuidv4().substring(0, 8);
-    const orders: Partial<SalesOrder>[] = [];
-    const errors: string[] = [];
-    let skipped = 0;
-    let skippedPayment = 0;
-    let skippedMachineCode = 0;
-    const machineCodesNotFound = new Set<string>();
-    const machineCodesFound = new Set<string>();
-
-    // Skip header row (row 1)
-    worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
-      if (rowNumber === 1) return; // Skip header
+    const head = new ExcelJS.Workbook().addWorksheet('head');
+    let layout: {
+      format: SalesImportFormat;
+      headerPreview: Record<number, string>;
+      headers: string[];
+      parser: ReturnType<typeof createRowParser>;
+    } | null = null;
+    let orders: Partial<SalesOrder>[] = [];
+    let rejected: RejectedSalesRow[] = [];
+    const rejectedByReason: Partial<Record<ImportRejectReason, number>> = {};
+    let parsedOrders = 0;
+    let processedRows = 0;
+    let imported = 0;
+    let duplicates = 0;
 
-      try {
-        const paymentResource = String(row.getCell(cols.paymentResource).value || '').trim();
-        const paymentMethod = parsePaymentMethod(paymentResource);
-        if (!paymentMethod) {
-          skipped++;
-          skippedPayment++;
-          // Log first few skips for debugging
-          if (skippedPayment <= 3) {
-            this.logger.debug(
-              `Row ${rowNumber} skipped: paymentResource="${paymentResource}" (col ${cols.paymentResource}) not recognized`,
-            );
-          }
-          return; // Skip non-cash/card (send, vip, test)
-        }
+    const resolveLayout = async () => {
+      const format = (await this.importProfilesService.resolveFormat(head, profileId)) ?? this.builtInFormat(head);
+      const headerPreview = readHeaderPreview(head, format.headerRow);
+      const columnCount = head.columnCount;
+      this.logger.log(`Import file (streaming): "${originalName}", headers: ${JSON.stringify(headerPreview)}`);
+      this.logger.log(`Using profile: ${format.profileName ?? 'built-in'}, column map: ${JSON.stringify(format.columns)}`);
+      const machineMap = await this.machineCodesService.getLookup();
+      return {
+        format,
+        headerPreview,
+        headers: Array.from({ length: columnCount }, (_, i) => headerPreview[i + 1] || ''),
+        parser: createRowParser(format, machineMap, columnCount, this.logger),
+      };
+    };
 
-        const machineCode = String(row.getCell(cols.machineCode).value || '').trim();
-        if (!machineCode) {
-          skipped++;
-          skippedMachineCode++;
-          if (skippedMachineCode <= 3) {
-            this.logger.debug(
-              `Row ${rowNumber} skipped: empty machineCode (col ${cols.machineCode})`,
-            );
-          }
-          return;
-        }
+    const flush = async (headers: string[]) => {
+      const inserted = await this.insertOrders(orders, batchId);
+      imported += inserted;
+      duplicates += orders.length - inserted;
+      await this.saveRejectedRows(rejected, headers, batchId);
+      orders = [];
+      rejected = [];
+    };
 
-        const price = parsePrice(row.getCell(cols.price).value);
-        const orderDate = parseDate(row.getCell(cols.orderDate).value);
-        if (!orderDate) {
-          errors.push(`Строка ${rowNumber}: невозможно распознать дату`);
-          return;
-        }
+    const handleRow = async (row: ExcelJS.Row) => {
+      if (!layout || row.number <= layout.format.headerRow) return;
+      const result = layout.parser.parseRow(row, row.number);
+      if ('order' in result) {
+        orders.push(result.order);
+        parsedOrders++;
+      } else {
+        rejected.push(result.rejected);
+        rejectedByReason[result.rejected.reason] = (rejectedByReason[result.rejected.reason] || 0) + 1;
+      }
+      processedRows++;
+      if (orders.length + rejected.length >= INSERT_CHUNK_SIZE) await flush(layout.headers);
+      if (processedRows % PROGRESS_EVERY_ROWS === 0) {
+        onProgress?.(Math.min(99, Math.round((bytesRead / fileBuffer.length) * 100)), processedRows);
+      }
+    };
 
-        const machineId = machineMap.get(machineCode.toLowerCase()) || null;
-        if (machineId) {
-          machineCodesFound.add(machineCode.toLowerCase());
-        } else {
-          machineCodesNotFound.add(machineCode);
-        }
+    const startParsing = async () => {
+      layout = await resolveLayout();
+      const headRows: ExcelJS.Row[] = [];
+      head.eachRow({ includeEmpty: false }, (row) => headRows.push(row));
+      for (const row of headRows) await handleRow(row);
+    };
 
-        orders.push({
-          orderNumber: String(row.getCell(cols.orderNumber).value || '').trim() || undefined,
-          productName: String(row.getCell(cols.product).value || '').trim() || undefined,
-          flavor: String(row.getCell(cols.flavor).value || '').trim() || undefined,
-          paymentMethod,
-          paymentStatus: parsePaymentStatus(String(row.getCell(cols.paymentStatus).value || '')),
-          machineCode,
-          machineId: machineId || undefined,
-          address: String(row.getCell(cols.address).value || '').trim() || undefined,
-          price,
-          orderDate,
-          importBatchId: batchId,
-        });
-      } catch (err) {
-        errors.push(`Строка ${rowNumber}: ${err instanceof Error ? err.message : 'ошибка парсинга'}`);
+    let sheetFound = false;
+    for await (const worksheet of reader) {
+      sheetFound = true;
+      for await (const row of worksheet) {
+        if (!layout && row.number <= STREAM_HEAD_ROWS) {
+          head.getRow(row.number).values = row.values as ExcelJS.CellValue[];
+          continue;
+        }
+        if (!layout) await startParsing();
+        await handleRow(row);
       }
+      break; // Only the first sheet, as in importFile()
+    }
+    if (!sheetFound) {
+      throw new BadRequestException('Excel файл не содержит листов');
+    }
+    if (!layout) await startParsing();
+
+    const { format, headerPreview, headers, parser } = layout!;
+    await flush(headers);
+    await this.linkRefunds(batchId);
+
+    const { stats } = parser;
+    this.completeImport(
+      { batchId, imported, duplicates, skipped: stats.skipped, errors: stats.errors, parsedOrders, headerPreview },
+      fileBuffer,
+      originalName,
+    );
+
+    return {
+      imported,
+      skipped: stats.skipped,
+      duplicates,
+      errors: truncateErrors(stats.errors),
+      rejectedByReason,
+      batchId,
+      machinesFound: stats.machineCodesFound.size,
+      machinesNotFound: [...stats.machineCodesNotFound],
+      profileName: format.profileName,
+    };
+  }
+
+  /**
+   * Count parsed orders that ON CONFLICT DO NOTHING would drop: already in
+   * the DB or repeated within the file. Orders without a number never clash.
+   */
+  private async countDuplicates(orders: Partial<SalesOrder>[]): Promise<number> {
+    const keyOf = (o: Partial<SalesOrder>) =>
+      `${o.orderNumber}|${o.machineCode}|${(o.orderDate as Date).getTime()}|${o.paymentStatus}`;
+    const numbers = [...new Set(orders.map((o) => o.orderNumber).filter((n): n is string => !!n))];
+
+    const existing = new Set<string>();
+    const chunkSize = 1000;
+    for (let i = 0; i < numbers.length; i += chunkSize) {
+      const rows = await this.salesOrderRepository
+        .createQueryBuilder('o')
+        .select(['o.orderNumber', 'o.machineCode', 'o.orderDate', 'o.paymentStatus'])
+        .where('o.orderNumber IN (:...numbers)', { numbers: numbers.slice(i, i + chunkSize) })
+        .getMany();
+      rows.forEach((row) => existing.add(keyOf(row)));
+    }
+
+    const seen = new Set<string>();
+    let duplicates = 0;
+    for (const order of orders) {
+      if (!order.orderNumber) continue;
+      const key = keyOf(order);
+      if (existing.has(key) || seen.has(key)) duplicates++;
+      seen.add(key);
+    }
+    return duplicates;
+  }
+
+  private async parseFile(fileBuffer: Buffer, originalName?: string, profileId?: string): Promise<ParsedSalesFile> {
+    const worksheet = await this.readWorksheet(fileBuffer, originalName || '');
+
+    const format = (await this.importProfilesService.resolveFormat(worksheet, profileId)) ?? this.builtInFormat(worksheet);
+    const headerPreview = readHeaderPreview(worksheet, format.headerRow);
+    const columnCount = worksheet.columnCount;
+    const headers = Array.from({ length: columnCount }, (_, i) => headerPreview[i + 1] || '');
+    this.logger.log(`Import file: "${originalName}", headers: ${JSON.stringify(headerPreview)}`);
+    this.logger.log(`Using profile: ${format.profileName ?? 'built-in'}, column map: ${JSON.stringify(format.columns)}`);
+
+    // Machine code → id lookup, including vendor aliases
+    const machineMap = await this.machineCodesService.getLookup();
+    const parser = createRowParser(format, machineMap, columnCount, this.logger);
+
+    const orders: Partial<SalesOrder>[] = [];
+    const rejected: RejectedSalesRow[] = [];
+    worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+      if (rowNumber <= format.headerRow) return; // Skip header and anything above it
+      const result = parser.parseRow(row, rowNumber);
+      if ('order' in result) orders.push(result.order);
+      else rejected.push(result.rejected);
     });
 
-    // Batch insert with duplicate protection (chunks of 500)
-    // orIgnore() → ON CONFLICT DO NOTHING — silently skips duplicates
+    const { stats } = parser;
+    this.logger.log(
+      `Sales file parsed: ${orders.length} orders, ${stats.skipped} skipped ` +
+      `(payment: ${stats.skippedPayment}, machineCode: ${stats.skippedMachineCode}, rules: ${stats.skippedRule}), ` +
+      `${stats.errors.length} errors`,
+    );
+
+    return {
+      format,
+      headerPreview,
+      headers,
+      orders,
+      rejected,
+      errors: stats.errors,
+      skipped: stats.skipped,
+      machinesFound: stats.machineCodesFound.size,
+      machinesNotFound: [...stats.machineCodesNotFound],
+    };
+  }
+
+  /** Insert parsed orders under a new batch and archive the source file */
+  private async commitParsed(
+    parsed: ParsedSalesFile,
+    fileBuffer: Buffer,
+    originalName?: string,
+    onProgress?: (percent: number) => void,
+    batchId = uuidv4(),
+  ): Promise<ImportSalesResultDto> {
+    const { orders, errors, skipped } = parsed;
+
     let imported = 0;
     let duplicates = 0;
-    const chunkSize = 500;
-    for (let i = 0; i < orders.length; i += chunkSize) {
-      const chunk = orders.slice(i, i + chunkSize);
-      const result = await this.salesOrderRepository
+    for (let i = 0; i < orders.length; i += INSERT_CHUNK_SIZE) {
+      const chunk = orders.slice(i, i + INSERT_CHUNK_SIZE);
+      const inserted = await this.insertOrders(chunk, batchId);
+      imported += inserted;
+      duplicates += chunk.length - inserted;
+      onProgress?.(Math.round(((i + chunk.length) / orders.length) * 100));
+    }
+
+    await this.saveRejectedRows(parsed.rejected, parsed.headers, batchId);
+    await this.linkRefunds(batchId);
+    this.completeImport(
+      { batchId, imported, duplicates, skipped, errors, parsedOrders: orders.length, headerPreview: parsed.headerPreview },
+      fileBuffer,
+      originalName,
+    );
+
+    return {
+      imported,
+      skipped,
+      duplicates,
+      errors: truncateErrors(errors),
+      rejectedByReason: countByReason(parsed.rejected),
+      batchId,
+      machinesFound: parsed.machinesFound,
+      machinesNotFound: parsed.machinesNotFound,
+      profileName: parsed.format.profileName,
+    };
+  }
+
+  /**
+   * Insert one chunk with duplicate protection and return how many rows
+   * went in. orIgnore() → ON CONFLICT DO NOTHING — silently skips duplicates.
+   */
+  private async insertOrders(orders: Partial<SalesOrder>[], batchId: string): Promise<number> {
+    if (orders.length === 0) return 0;
+    const result = await this.salesOrderRepository
+      .createQueryBuilder()
+      .insert()
+      .into(SalesOrder)
+      .values(orders.map((o) => ({ ...o, importBatchId: batchId })))
+      .orIgnore()
+      .execute();
+    // result.identifiers contains only actually inserted rows
+    return result.identifiers.filter((id) => id?.id).length;
+  }
+
+  /**
+   * Link refunds to the paid orders they reverse by order number and machine.
+   * Works both ways, so a refund imported before its sale is linked once the
+   * sale arrives.
+   */
+  private async linkRefunds(batchId: string): Promise<void> {
+    try {
+      const [, linked] = await this.salesOrderRepository.manager.query(
+        `UPDATE sales_orders r
+         SET refund_of_id = o.id
+         FROM sales_orders o
+         WHERE r.payment_status = $1
+           AND r.refund_of_id IS NULL
+           AND o.payment_status = $2
+           AND o.order_number = r.order_number
+           AND LOWER(o.machine_code) = LOWER(r.machine_code)
+           AND (r.import_batch_id = $3 OR o.import_batch_id = $3)`,
+        [PaymentStatus.REFUNDED, PaymentStatus.PAID, batchId],
+      );
+      if (linked > 0) {
+        this.logger.log(`Sales import batch=${batchId}: ${linked} refund(s) linked to their orders`);
+      }
+    } catch (err) {
+      this.logger.warn(`Failed to link refunds for batch ${batchId}: ${err}`);
+    }
+  }
+
+  /**
+   * Keep rejected rows for the batch report. The orders are already in,
+   * so a failure here is logged rather than failing the import. The header
+   * row is written once per batch; later chunks of a stream leave it as is.
+   */
+  private async saveRejectedRows(rows: RejectedSalesRow[], headers: string[], batchId: string): Promise<void> {
+    if (rows.length === 0) return;
+    try {
+      await this.rejectedHeadersRepository
         .createQueryBuilder()
         .insert()
-        .into(SalesOrder)
-        .values(chunk)
+        .into(ImportRejectedHeaders)
+        .values({ batchId, headers })
         .orIgnore()
         .execute();
-      // result.identifiers contains only actually inserted rows
-      const actuallyInserted = result.identifiers.filter((id) => id?.id).length;
-      imported += actuallyInserted;
-      duplicates += chunk.length - actuallyInserted;
+      for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+        await this.rejectedRowRepository.insert(
+          rows.slice(i, i + INSERT_CHUNK_SIZE).map((r) => ({ ...r, batchId })),
+        );
+      }
+    } catch (err) {
+      this.logger.warn(`Failed to save rejected rows for batch ${batchId}: ${err}`);
     }
+  }
 
+  /** Log the outcome of an import and archive the source file */
+  private completeImport(
+    summary: {
+      batchId: string;
+      imported: number;
+      duplicates: number;
+      skipped: number;
+      errors: string[];
+      parsedOrders: number;
+      headerPreview: Record<number, string>;
+    },
+    fileBuffer: Buffer,
+    originalName?: string,
+  ): void {
+    const { batchId, imported, duplicates, skipped, errors } = summary;
     this.logger.log(
-      `Sales import complete: ${imported} imported, ${duplicates} duplicates, ${skipped} skipped ` +
-      `(payment: ${skippedPayment}, machineCode: ${skippedMachineCode}), ` +
+      `Sales import complete: ${imported} imported, ${duplicates} duplicates, ${skipped} skipped, ` +
       `${errors.length} errors, batch=${batchId}`,
     );
 
@@ -357,11 +1026,11 @@ export class SalesService {
     }
 
     // Warn if all rows were skipped — likely wrong column layout
-    if (skipped > 0 && imported === 0 && orders.length === 0) {
+    if (skipped > 0 && imported === 0 && summary.parsedOrders === 0) {
       this.logger.warn(
         `Sales import batch=${batchId}: ALL ${skipped} rows skipped! ` +
         `This likely means the Excel column layout doesn't match. ` +
-        `Headers: ${JSON.stringify(headerPreview)}`,
+        `Headers: ${JSON.stringify(summary.headerPreview)}`,
       );
     }
 
@@ -370,21 +1039,45 @@ export class SalesService {
     this.archiveFileToTelegram(fileBuffer, batchId, originalName || 'import.xlsx', imported).catch(
       (err) => this.logger.warn(`Failed to archive file for batch ${batchId}: ${err}`),
     );
+  }
+
+  private async readWorksheet(fileBuffer: Buffer, originalName: string): Promise<ExcelJS.Worksheet> {
+    const name = originalName.toLowerCase();
+    if (name.endsWith('.csv')) {
+      return readCsvWorksheet(decodeText(fileBuffer));
+    }
+    if (name.endsWith('.json')) {
+      let records: unknown;
+      try {
+        records = JSON.parse(decodeText(fileBuffer));
+      } catch {
+        throw new BadRequestException('Некорректный JSON файл');
+      }
+      if (!Array.isArray(records)) {
+        throw new BadRequestException('JSON файл должен содержать массив заказов');
+      }
+      return jsonToWorksheet(records);
+    }
 
-    // Truncate errors to 50 for client response
-    const errorsTruncated = errors.length > 50;
-    const clientErrors = errorsTruncated
-      ? [...errors.slice(0, 50), `... ещё ${errors.length - 50} ошибок (см. серверные логи)`]
-      : errors;
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(fileBuffer as unknown as ExcelJS.Buffer);
+    const worksheet = workbook.worksheets[0];
+    if (!worksheet) {
+      throw new BadRequestException('Excel файл не содержит листов');
+    }
+    return worksheet;
+  }
 
+  /** The original single-vendor layout: header patterns with positional fallback */
+  private builtInFormat(worksheet: ExcelJS.Worksheet): SalesImportFormat {
     return {
-      imported,
-      skipped,
-      duplicates,
-      errors: clientErrors,
-      batchId,
-      machinesFound: machineCodesFound.size,
-      machinesNotFound: [...machineCodesNotFound],
+      profileName: null,
+      headerRow: 1,
+      columns: detectColumns(worksheet.getRow(1), this.logger),
+      parsePaymentMethod,
+      parsePaymentStatus,
+      parseDate,
+      shouldSkip: () => false,
     };
   }
 
@@ -577,14 +1270,18 @@ export class SalesService {
    *   1. CTE "collection_pairs" — uses LAG() window function to build
    *      consecutive (prev, curr) pairs of RECEIVED collections per machine.
    *   2. LEFT JOIN sales_orders — aggregate cash/paid orders that fall
-   *      within each (prev_collected_at, collected_at] window.
-   *   3. One round-trip to the DB instead of (machines × collections) queries.
+   *      within each (prev_collected_at, collected_at] window. Orders match
+   *      the machine by machine_id, or by code while they are unlinked.
+   *   3. For machines that pay cash refunds out of the box, refunds in the
+   *      same window are subtracted from the expected amount.
+   *   4. One round-trip to the DB instead of (machines × collections) queries.
    */
   async getReconciliation(query: ReconciliationQueryDto): Promise<ReconciliationResult> {
     const params: Record<string, unknown> = {
       receivedStatus: CollectionStatus.RECEIVED,
       cashMethod: PaymentMethod.CASH,
       paidStatus: PaymentStatus.PAID,
+      refundedStatus: PaymentStatus.REFUNDED,
     };
 
     // Build optional WHERE clauses for collections
@@ -612,6 +1309,7 @@ export class SalesService {
           c.machine_id,
           m.code            AS machine_code,
           m.name            AS machine_name,
+          m.cash_refunds_from_box,
           c.amount,
           c.collected_at,
           LAG(c.collected_at) OVER (
@@ -628,11 +1326,23 @@ export class SalesService {
         cp.prev_collected_at AS "periodStart",
         cp.collected_at    AS "periodEnd",
         cp.amount          AS "actualAmount",
-        COALESCE(SUM(so.price), 0) AS "expectedAmount",
-        COUNT(so.id)       AS "cashOrdersCount"
+        COALESCE(SUM(so.price), 0) AS "cashSalesAmount",
+        COUNT(so.id)       AS "cashOrdersCount",
+        CASE WHEN cp.cash_refunds_from_box THEN COALESCE((
+          -- A refund counts as cash when the order it reverses was paid in cash
+          SELECT SUM(ABS(r.price))
+          FROM sales_orders r
+          LEFT JOIN sales_orders orig ON orig.id = r.refund_of_id
+          WHERE (r.machine_id = cp.machine_id OR (r.machine_id IS NULL AND LOWER(r.machine_code) = LOWER(cp.machine_code)))
+            AND r.payment_status = :refundedStatus
+            AND COALESCE(orig.payment_method, r.payment_method) = :cashMethod
+            AND r.order_date > cp.prev_collected_at
+            AND r.order_date <= cp.collected_at
+        ), 0) ELSE 0 END AS "refundsAmount"
       FROM collection_pairs cp
       LEFT JOIN sales_orders so
-        ON LOWER(so.machine_code) = LOWER(cp.machine_code)
+        -- Orders imported under an alias code are linked by machine_id
+        ON (so.machine_id = cp.machine_id OR (so.machine_id IS NULL AND LOWER(so.machine_code) = LOWER(cp.machine_code)))
         AND so.payment_method = :cashMethod
         AND so.payment_status = :paidStatus
         AND so.order_date > cp.prev_collected_at
@@ -640,8 +1350,10 @@ export class SalesService {
       WHERE cp.prev_collected_at IS NOT NULL
       GROUP BY
         cp.collection_id,
+        cp.machine_id,
         cp.machine_code,
         cp.machine_name,
+        cp.cash_refunds_from_box,
         cp.prev_collected_at,
         cp.collected_at,
         cp.amount
@@ -664,7 +1376,8 @@ export class SalesService {
       periodStart: Date;
       periodEnd: Date;
       actualAmount: string;
-      expectedAmount: string;
+      cashSalesAmount: string;
+      refundsAmount: string;
       cashOrdersCount: string;
     }> = await this.salesOrderRepository.manager.query(positionalSql, positionalValues);
 
@@ -674,13 +1387,14 @@ export class SalesService {
         `Reconciliation: ${rows.length} rows. First 3: ` +
         rows.slice(0, 3).map((r) =>
           `${r.machineCode}: period=${new Date(r.periodStart).toISOString()}..${new Date(r.periodEnd).toISOString()}, ` +
-          `expected=${r.expectedAmount}, actual=${r.actualAmount}, orders=${r.cashOrdersCount}`,
+          `sales=${r.cashSalesAmount}, refunds=${r.refundsAmount}, actual=${r.actualAmount}, orders=${r.cashOrdersCount}`,
         ).join(' | '),
       );
     }
 
     const items: ReconciliationItem[] = rows.map((r) => {
-      const expectedAmount = Math.round(Number(r.expectedAmount) * 100) / 100;
+      const refundsAmount = Math.round(Number(r.refundsAmount || 0) * 100) / 100;
+      const expectedAmount = Math.round((Number(r.cashSalesAmount) - refundsAmount) * 100) / 100;
       const actualAmount = Math.round(Number(r.actualAmount || 0) * 100) / 100;
       const difference = Math.round((expectedAmount - actualAmount) * 100) / 100;
       const percentDeviation = expectedAmount > 0
@@ -704,6 +1418,7 @@ export class SalesService {
         periodStart: new Date(r.periodStart).toISOString(),
         periodEnd: new Date(r.periodEnd).toISOString(),
         expectedAmount,
+        refundsAmount,
         actualAmount,
         difference,
         percentDeviation,
@@ -747,7 +1462,9 @@ export class SalesService {
       { header: 'Код', key: 'machineCode', width: 15 },
       { header: 'Начало периода', key: 'periodStart', width: 18 },
       { header: 'Конец периода', key: 'periodEnd', width: 18 },
-      { header: 'Продажи (нал)', key: 'expectedAmount', width: 18 },
+      { header: 'Продажи (нал)', key: 'cashSalesAmount', width: 18 },
+      { header: 'Возвраты (нал)', key: 'refundsAmount', width: 16 },
+      { header: 'Ожидаемо (нал)', key: 'expectedAmount', width: 18 },
       { header: 'Инкассация', key: 'actualAmount', width: 18 },
       { header: 'Разница', key: 'difference', width: 15 },
       { header: '% отклонения', key: 'percentDeviation', width: 14 },
@@ -778,7 +1495,10 @@ export class SalesService {
         machineCode: item.machineCode,
         periodStart: new Date(item.periodStart).toLocaleString('ru-RU', { timeZone: 'Asia/Tashkent' }),
         periodEnd: new Date(item.periodEnd).toLocaleString('ru-RU', { timeZone: 'Asia/Tashkent' }),
+        // Expected is net of refunds paid from the box; gross sales add them back
+        cashSalesAmount: Math.round((item.expectedAmount + item.refundsAmount) * 100) / 100,
         expectedAmount: item.expectedAmount,
+        refundsAmount: item.refundsAmount,
         actualAmount: item.actualAmount,
         difference: item.difference,
         percentDeviation: item.percentDeviation,
@@ -807,10 +1527,13 @@ export class SalesService {
     }
 
     // Summary row
+    const totalRefunds = Math.round(result.items.reduce((sum, item) => sum + item.refundsAmount, 0) * 100) / 100;
     sheet.addRow({});
     const summaryRow = sheet.addRow({
       machineName: 'ИТОГО',
+      cashSalesAmount: Math.round((result.summary.totalExpected + totalRefunds) * 100) / 100,
       expectedAmount: result.summary.totalExpected,
+      refundsAmount: totalRefunds,
       actualAmount: result.summary.totalActual,
       difference: result.summary.totalDifference,
       status: `Совп: ${result.summary.matchedCount}, Нед: ${result.summary.shortageCount}, Изл: ${result.summary.overageCount}`,
@@ -818,7 +1541,7 @@ export class SalesService {
     summaryRow.font = { bold: true };
 
     // Number format for amount columns
-    ['expectedAmount', 'actualAmount', 'difference'].forEach((key) => {
+    ['cashSalesAmount', 'refundsAmount', 'expectedAmount', 'actualAmount', 'difference'].forEach((key) => {
       const col = sheet.getColumn(key);
       col.numFmt = '#,##0.00';
     });
@@ -922,6 +1645,8 @@ export class SalesService {
    */
   async deleteBatch(batchId: string): Promise<{ deleted: number }> {
     const result = await this.salesOrderRepository.delete({ importBatchId: batchId });
+    await this.rejectedRowRepository.delete({ batchId });
+    await this.rejectedHeadersRepository.delete({ batchId });
     return { deleted: result.affected || 0 };
   }
 
@@ -938,13 +1663,65 @@ export class SalesService {
   }
 
   /**
-   * Get import batches info
+   * Rows of a batch that were skipped or rejected, in sheet order
+   */
+  async getRejectedRows(batchId: string): Promise<ImportRejectedRow[]> {
+    return this.rejectedRowRepository.find({
+      where: { batchId },
+      order: { rowNumber: 'ASC' },
+    });
+  }
+
+  /**
+   * Rejected rows as .xlsx in the source column layout, so they can be fixed
+   * and imported again. Reason and source row go in the trailing columns.
+   */
+  async exportRejectedRows(batchId: string): Promise<Buffer> {
+    const rows = await this.getRejectedRows(batchId);
+    if (rows.length === 0) {
+      throw new NotFoundException('Отклонённые строки не найдены');
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Отклонённые строки');
+
+    // Batches without a stored header row still export, with blank headers
+    const stored = await this.rejectedHeadersRepository.findOne({ where: { batchId } });
+    const headers = stored?.headers ?? Array.from({ length: Math.max(...rows.map((r) => r.rawValues.length)) }, () => '');
+    const headerRow = sheet.addRow([...headers, 'Причина', 'Строка файла']);
+    headerRow.font = { bold: true };
+    headerRow.fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: 'FFE8E8E8' },
+    };
+
+    for (const row of rows) {
+      const reason = REJECT_REASON_LABELS[row.reason] || row.reason;
+      const values = Array.from({ length: headers.length }, (_, i) => row.rawValues[i] || null);
+      sheet.addRow([...values, row.message ? `${reason}: ${row.message}` : reason, row.rowNumber]);
+    }
+
+    sheet.columns.forEach((col) => {
+      col.width = 18;
+    });
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return Buffer.from(buffer);
+  }
+
+  /**
+   * Get import batches info. Batches of background jobs carry the job status,
+   * so a batch left half-written by a job that died shows up as failed.
    */
   async getImportBatches(): Promise<Array<{
     batchId: string;
     importedAt: string;
     ordersCount: number;
+    rejectedCount: number;
+    status: ImportJobStatus;
   }>> {
+    await this.failStaleImportJobs();
     const results = await this.salesOrderRepository
       .createQueryBuilder('so')
       .select([
@@ -956,10 +1733,43 @@ export class SalesService {
       .orderBy('"importedAt"', 'DESC')
       .getRawMany();
 
-    return results.map((r) => ({
+    const rejected = await this.rejectedRowRepository
+      .createQueryBuilder('r')
+      .select([
+        'r.batchId AS "batchId"',
+        'MIN(r.createdAt) AS "importedAt"',
+        'COUNT(*) AS "rejectedCount"',
+      ])
+      .groupBy('r.batchId')
+      .getRawMany();
+    const rejectedByBatch = new Map(rejected.map((r) => [r.batchId as string, r]));
+
+    const batchIds = [...new Set([...results, ...rejected].map((r) => r.batchId as string))];
+    const jobs = batchIds.length > 0
+      ? await this.importJobRepository.find({ select: ['batchId', 'status'], where: { batchId: In(batchIds) } })
+      : [];
+    const statusByBatch = new Map(jobs.map((j) => [j.batchId, j.status]));
+
+    const batches = results.map((r) => ({
       batchId: r.batchId,
       importedAt: r.importedAt,
       ordersCount: parseInt(r.ordersCount) || 0,
+      rejectedCount: parseInt(rejectedByBatch.get(r.batchId)?.rejectedCount) || 0,
+      status: statusByBatch.get(r.batchId) ?? 'completed',
     }));
+
+    // Batches where every row was rejected have no orders but still have a report
+    const known = new Set(batches.map((b) => b.batchId));
+    for (const r of rejected) {
+      if (known.has(r.batchId)) continue;
+      batches.push({
+        batchId: r.batchId,
+        importedAt: r.importedAt,
+        ordersCount: 0,
+        rejectedCount: parseInt(r.rejectedCount) || 0,
+        status: statusByBatch.get(r.batchId) ?? 'completed',
+      });
+    }
+    return batches.sort((a, b) => new Date(b.importedAt).getTime() - new Date(a.importedAt).getTime());
   }
 }
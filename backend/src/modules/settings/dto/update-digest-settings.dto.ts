@@ -0,0 +1,56 @@
+import { ArrayMaxSize, IsArray, IsBoolean, IsEmail, IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { DIGEST_SECTIONS, DigestSection } from '../settings.service';
+
+export class UpdateDigestSettingsDto {
+  @ApiProperty({ description: 'Send the daily digest', required: false })
+  @IsBoolean()
+  @IsOptional()
+  dailyEnabled?: boolean;
+
+  @ApiProperty({ description: 'Send the weekly digest', required: false })
+  @IsBoolean()
+  @IsOptional()
+  weeklyEnabled?: boolean;
+
+  @ApiProperty({ description: 'Tashkent hour the digests go out at', required: false, minimum: 0, maximum: 23 })
+  @IsInt()
+  @Min(0)
+  @Max(23)
+  @IsOptional()
+  hour?: number;
+
+  @ApiProperty({ description: 'Weekday of the weekly digest, 1 = Monday … 7 = Sunday', required: false })
+  @IsInt()
+  @Min(1)
+  @Max(7)
+  @IsOptional()
+  weeklyDay?: number;
+
+  @ApiProperty({ description: 'Digest sections', required: false, enum: DIGEST_SECTIONS, isArray: true })
+  @IsArray()
+  @IsIn(DIGEST_SECTIONS, { each: true })
+  @IsOptional()
+  sections?: DigestSection[];
+
+  @ApiProperty({ description: 'List pending collections older than this many hours', required: false })
+  @IsInt()
+  @Min(1)
+  @Max(720)
+  @IsOptional()
+  pendingHours?: number;
+
+  @ApiProperty({ description: 'List machines not collected for this many days', required: false })
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  @IsOptional()
+  staleDays?: number;
+
+  @ApiProperty({ description: 'Extra addresses the digest is emailed to', required: false, type: [String] })
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsEmail({}, { each: true })
+  @IsOptional()
+  emailRecipients?: string[];
+}
@@ -1,6 +1,6 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { SettingsController } from './settings.controller';
-import { SettingsService, AppSettingsDto } from './settings.service';
+import { SettingsService, AppSettingsDto, DigestSettingsDto } from './settings.service';
 
 describe('SettingsController', () => {
   let controller: SettingsController;
@@ -11,6 +11,19 @@ describe('SettingsController', () => {
     shortageAlertThreshold: 10,
     collectionDistanceMeters: 50,
     defaultPageSize: 50,
+    pendingSlaHours: 24,
+    pendingEscalationHours: 12,
+  };
+
+  const mockDigestSettings: DigestSettingsDto = {
+    dailyEnabled: true,
+    weeklyEnabled: true,
+    hour: 9,
+    weeklyDay: 1,
+    sections: ['collections', 'pending', 'shortages', 'stale_machines', 'finance'],
+    pendingHours: 24,
+    staleDays: 7,
+    emailRecipients: [],
   };
 
   beforeEach(async () => {
@@ -22,6 +35,8 @@ describe('SettingsController', () => {
           useValue: {
             getAppSettings: jest.fn().mockResolvedValue(mockAppSettings),
             updateAppSettings: jest.fn().mockResolvedValue(mockAppSettings),
+            getDigestSettings: jest.fn().mockResolvedValue(mockDigestSettings),
+            updateDigestSettings: jest.fn().mockResolvedValue(mockDigestSettings),
           },
         },
       ],
@@ -65,4 +80,18 @@ describe('SettingsController', () => {
       });
     });
   });
+
+  describe('digest settings', () => {
+    it('should return digest settings', async () => {
+      const result = await controller.getDigestSettings();
+
+      expect(result).toEqual(mockDigestSettings);
+    });
+
+    it('should pass updates to the service', async () => {
+      await controller.updateDigestSettings({ hour: 8, sections: ['finance'] });
+
+      expect(settingsService.updateDigestSettings).toHaveBeenCalledWith({ hour: 8, sections: ['finance'] });
+    });
+  });
 });
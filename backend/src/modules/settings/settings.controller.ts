@@ -1,6 +1,7 @@
 import { Controller, Get, Put, Body } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
-import { SettingsService, AppSettingsDto } from './settings.service';
+import { SettingsService, AppSettingsDto, DigestSettingsDto } from './settings.service';
+import { UpdateDigestSettingsDto } from './dto/update-digest-settings.dto';
 import { Roles } from '../../common/decorators/roles.decorator';
 import { RequireModule } from '../../common/decorators/require-module.decorator';
 import { UserRole } from '../users/entities/user.entity';
@@ -27,4 +28,20 @@ export class SettingsController {
   ): Promise<AppSettingsDto> {
     return this.settingsService.updateAppSettings(body);
   }
+
+  @Get('digest')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get Telegram digest schedule and sections' })
+  async getDigestSettings(): Promise<DigestSettingsDto> {
+    return this.settingsService.getDigestSettings();
+  }
+
+  @Put('digest')
+  @Roles(UserRole.MANAGER, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Update Telegram digest schedule and sections' })
+  async updateDigestSettings(
+    @Body() dto: UpdateDigestSettingsDto,
+  ): Promise<DigestSettingsDto> {
+    return this.settingsService.updateDigestSettings(dto);
+  }
 }
@@ -290,6 +290,8 @@ describe('SettingsService', () => {
       expect(result.shortageAlertThreshold).toBe(10);
       expect(result.collectionDistanceMeters).toBe(50);
       expect(result.defaultPageSize).toBe(50);
+      expect(result.pendingSlaHours).toBe(24);
+      expect(result.pendingEscalationHours).toBe(12);
     });
 
     it('getAppSettings should return stored values', async () => {
@@ -306,6 +308,71 @@ describe('SettingsService', () => {
       expect(result.defaultPageSize).toBe(50); // default
     });
 
+    it('getDigestSettings should return defaults when no settings exist', async () => {
+      repository.find.mockResolvedValue([]);
+
+      const result = await service.getDigestSettings();
+
+      expect(result).toEqual({
+        dailyEnabled: true,
+        weeklyEnabled: true,
+        hour: 9,
+        weeklyDay: 1,
+        sections: ['collections', 'pending', 'shortages', 'stale_machines', 'finance'],
+        pendingHours: 24,
+        staleDays: 7,
+        emailRecipients: [],
+      });
+    });
+
+    it('getDigestSettings should parse stored values and drop unknown sections', async () => {
+      repository.find.mockResolvedValue([
+        { key: SETTING_KEYS.DIGEST_WEEKLY_ENABLED, value: 'false' } as any,
+        { key: SETTING_KEYS.DIGEST_HOUR, value: '7' } as any,
+        { key: SETTING_KEYS.DIGEST_SECTIONS, value: 'finance,bogus,pending' } as any,
+      ]);
+
+      const result = await service.getDigestSettings();
+
+      expect(result.weeklyEnabled).toBe(false);
+      expect(result.dailyEnabled).toBe(true);
+      expect(result.hour).toBe(7);
+      expect(result.sections).toEqual(['finance', 'pending']);
+    });
+
+    it('updateDigestSettings should store sections as a comma list', async () => {
+      repository.findOne.mockResolvedValue(null);
+      repository.create.mockImplementation((data) => data as Setting);
+      repository.save.mockImplementation(async (data) => data as Setting);
+      repository.find.mockResolvedValue([]);
+
+      await service.updateDigestSettings({ sections: ['collections', 'finance'], dailyEnabled: false });
+
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ key: SETTING_KEYS.DIGEST_SECTIONS, value: 'collections,finance' }),
+      );
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ key: SETTING_KEYS.DIGEST_DAILY_ENABLED, value: 'false' }),
+      );
+      expect(repository.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('updateDigestSettings should store email recipients and read them back as a list', async () => {
+      repository.findOne.mockResolvedValue(null);
+      repository.create.mockImplementation((data) => data as Setting);
+      repository.save.mockImplementation(async (data) => data as Setting);
+      repository.find.mockResolvedValue([
+        { key: SETTING_KEYS.DIGEST_EMAIL_RECIPIENTS, value: 'a@example.com,b@example.com' } as any,
+      ]);
+
+      const result = await service.updateDigestSettings({ emailRecipients: ['a@example.com', 'b@example.com'] });
+
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ key: SETTING_KEYS.DIGEST_EMAIL_RECIPIENTS, value: 'a@example.com,b@example.com' }),
+      );
+      expect(result.emailRecipients).toEqual(['a@example.com', 'b@example.com']);
+    });
+
     it('getNumericSetting should return default when setting does not exist', async () => {
       repository.findOne.mockResolvedValue(null);
 
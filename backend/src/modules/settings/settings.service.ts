@@ -17,6 +17,17 @@ export const SETTING_KEYS = {
   SHORTAGE_ALERT_THRESHOLD: 'shortage_alert_threshold',
   COLLECTION_DISTANCE_METERS: 'collection_distance_meters',
   DEFAULT_PAGE_SIZE: 'default_page_size',
+  PENDING_SLA_HOURS: 'pending_sla_hours',
+  PENDING_ESCALATION_HOURS: 'pending_escalation_hours',
+  // Telegram digest
+  DIGEST_DAILY_ENABLED: 'digest_daily_enabled',
+  DIGEST_WEEKLY_ENABLED: 'digest_weekly_enabled',
+  DIGEST_HOUR: 'digest_hour',
+  DIGEST_WEEKLY_DAY: 'digest_weekly_day',
+  DIGEST_SECTIONS: 'digest_sections',
+  DIGEST_PENDING_HOURS: 'digest_pending_hours',
+  DIGEST_STALE_DAYS: 'digest_stale_days',
+  DIGEST_EMAIL_RECIPIENTS: 'digest_email_recipients',
 } as const;
 
 export const APP_DEFAULTS = {
@@ -24,6 +35,24 @@ export const APP_DEFAULTS = {
   [SETTING_KEYS.SHORTAGE_ALERT_THRESHOLD]: '10',
   [SETTING_KEYS.COLLECTION_DISTANCE_METERS]: '50',
   [SETTING_KEYS.DEFAULT_PAGE_SIZE]: '50',
+  [SETTING_KEYS.PENDING_SLA_HOURS]: '24',
+  [SETTING_KEYS.PENDING_ESCALATION_HOURS]: '12',
+} as const;
+
+/** Digest parts in the order they appear in the message */
+export const DIGEST_SECTIONS = ['collections', 'pending', 'shortages', 'stale_machines', 'finance'] as const;
+
+export type DigestSection = (typeof DIGEST_SECTIONS)[number];
+
+export const DIGEST_DEFAULTS = {
+  [SETTING_KEYS.DIGEST_DAILY_ENABLED]: 'true',
+  [SETTING_KEYS.DIGEST_WEEKLY_ENABLED]: 'true',
+  [SETTING_KEYS.DIGEST_HOUR]: '9',
+  [SETTING_KEYS.DIGEST_WEEKLY_DAY]: '1',
+  [SETTING_KEYS.DIGEST_SECTIONS]: DIGEST_SECTIONS.join(','),
+  [SETTING_KEYS.DIGEST_PENDING_HOURS]: '24',
+  [SETTING_KEYS.DIGEST_STALE_DAYS]: '7',
+  [SETTING_KEYS.DIGEST_EMAIL_RECIPIENTS]: '',
 } as const;
 
 export interface AppSettingsDto {
@@ -31,6 +60,26 @@ export interface AppSettingsDto {
   shortageAlertThreshold: number;
   collectionDistanceMeters: number;
   defaultPageSize: number;
+  /** Hours a collection may wait for receipt before the operator is reminded */
+  pendingSlaHours: number;
+  /** Hours after that reminder before managers and admins are alerted */
+  pendingEscalationHours: number;
+}
+
+export interface DigestSettingsDto {
+  dailyEnabled: boolean;
+  weeklyEnabled: boolean;
+  /** Tashkent hour (0-23) both digests go out at */
+  hour: number;
+  /** ISO weekday of the weekly digest, 1 = Monday … 7 = Sunday */
+  weeklyDay: number;
+  sections: DigestSection[];
+  /** Collections waiting for a manager longer than this are listed */
+  pendingHours: number;
+  /** Machines without a collection for this many days are listed */
+  staleDays: number;
+  /** Extra addresses (e.g. the accountant) that get the digest by email */
+  emailRecipients: string[];
 }
 
 @Injectable()
@@ -139,6 +188,8 @@ export class SettingsService {
       SETTING_KEYS.SHORTAGE_ALERT_THRESHOLD,
       SETTING_KEYS.COLLECTION_DISTANCE_METERS,
       SETTING_KEYS.DEFAULT_PAGE_SIZE,
+      SETTING_KEYS.PENDING_SLA_HOURS,
+      SETTING_KEYS.PENDING_ESCALATION_HOURS,
     ];
 
     const settings = await this.settingsRepository.find({
@@ -164,6 +215,14 @@ export class SettingsService {
         map.get(SETTING_KEYS.DEFAULT_PAGE_SIZE) ??
           APP_DEFAULTS[SETTING_KEYS.DEFAULT_PAGE_SIZE],
       ),
+      pendingSlaHours: Number(
+        map.get(SETTING_KEYS.PENDING_SLA_HOURS) ??
+          APP_DEFAULTS[SETTING_KEYS.PENDING_SLA_HOURS],
+      ),
+      pendingEscalationHours: Number(
+        map.get(SETTING_KEYS.PENDING_ESCALATION_HOURS) ??
+          APP_DEFAULTS[SETTING_KEYS.PENDING_ESCALATION_HOURS],
+      ),
     };
   }
 
@@ -173,6 +232,8 @@ export class SettingsService {
       ['shortageAlertThreshold', SETTING_KEYS.SHORTAGE_ALERT_THRESHOLD, 'Shortage alert threshold (%)'],
       ['collectionDistanceMeters', SETTING_KEYS.COLLECTION_DISTANCE_METERS, 'Collection distance (meters)'],
       ['defaultPageSize', SETTING_KEYS.DEFAULT_PAGE_SIZE, 'Default page size'],
+      ['pendingSlaHours', SETTING_KEYS.PENDING_SLA_HOURS, 'Pending collection SLA (hours)'],
+      ['pendingEscalationHours', SETTING_KEYS.PENDING_ESCALATION_HOURS, 'Hours from operator reminder to manager alert'],
     ];
 
     for (const [field, key, description] of mapping) {
@@ -184,6 +245,53 @@ export class SettingsService {
     return this.getAppSettings();
   }
 
+  // ========= Telegram digest =========
+
+  async getDigestSettings(): Promise<DigestSettingsDto> {
+    const keys = Object.keys(DIGEST_DEFAULTS) as Array<keyof typeof DIGEST_DEFAULTS>;
+    const settings = await this.settingsRepository.find({
+      where: keys.map((key) => ({ key })),
+    });
+
+    const map = new Map(settings.map((s) => [s.key, s.value]));
+    const value = (key: keyof typeof DIGEST_DEFAULTS) => map.get(key) ?? DIGEST_DEFAULTS[key];
+
+    return {
+      dailyEnabled: value(SETTING_KEYS.DIGEST_DAILY_ENABLED) === 'true',
+      weeklyEnabled: value(SETTING_KEYS.DIGEST_WEEKLY_ENABLED) === 'true',
+      hour: Number(value(SETTING_KEYS.DIGEST_HOUR)),
+      weeklyDay: Number(value(SETTING_KEYS.DIGEST_WEEKLY_DAY)),
+      sections: value(SETTING_KEYS.DIGEST_SECTIONS)
+        .split(',')
+        .filter((s): s is DigestSection => (DIGEST_SECTIONS as readonly string[]).includes(s)),
+      pendingHours: Number(value(SETTING_KEYS.DIGEST_PENDING_HOURS)),
+      staleDays: Number(value(SETTING_KEYS.DIGEST_STALE_DAYS)),
+      emailRecipients: value(SETTING_KEYS.DIGEST_EMAIL_RECIPIENTS).split(',').filter(Boolean),
+    };
+  }
+
+  async updateDigestSettings(dto: Partial<DigestSettingsDto>): Promise<DigestSettingsDto> {
+    const mapping: Array<[keyof DigestSettingsDto, string, string]> = [
+      ['dailyEnabled', SETTING_KEYS.DIGEST_DAILY_ENABLED, 'Send the daily Telegram digest'],
+      ['weeklyEnabled', SETTING_KEYS.DIGEST_WEEKLY_ENABLED, 'Send the weekly Telegram digest'],
+      ['hour', SETTING_KEYS.DIGEST_HOUR, 'Digest send hour (Tashkent)'],
+      ['weeklyDay', SETTING_KEYS.DIGEST_WEEKLY_DAY, 'Weekly digest weekday (1 = Monday)'],
+      ['sections', SETTING_KEYS.DIGEST_SECTIONS, 'Digest sections'],
+      ['pendingHours', SETTING_KEYS.DIGEST_PENDING_HOURS, 'Digest: pending collections older than (hours)'],
+      ['staleDays', SETTING_KEYS.DIGEST_STALE_DAYS, 'Digest: machines not collected for (days)'],
+      ['emailRecipients', SETTING_KEYS.DIGEST_EMAIL_RECIPIENTS, 'Digest: extra email recipients'],
+    ];
+
+    for (const [field, key, description] of mapping) {
+      const value = dto[field];
+      if (value !== undefined) {
+        await this.set(key, Array.isArray(value) ? value.join(',') : String(value), description);
+      }
+    }
+
+    return this.getDigestSettings();
+  }
+
   async getNumericSetting(key: string, defaultValue: number): Promise<number> {
     const value = await this.get(key);
     if (value === null) return defaultValue;
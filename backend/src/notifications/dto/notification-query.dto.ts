@@ -0,0 +1,26 @@
+import { IsBoolean, IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class NotificationQueryDto {
+  @ApiProperty({ description: 'Only notifications the user has not read', required: false })
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  @IsOptional()
+  unreadOnly?: boolean;
+
+  @ApiProperty({ required: false, minimum: 1, default: 1 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  page?: number;
+
+  @ApiProperty({ required: false, minimum: 1, maximum: 100, default: 20 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+}
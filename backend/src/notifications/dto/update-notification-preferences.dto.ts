@@ -0,0 +1,30 @@
+import { IsEmail, IsObject, IsOptional, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ChannelSwitches, NotificationEvent } from '../entities/notification-preference.entity';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class UpdateNotificationPreferencesDto {
+  @ApiProperty({
+    description: 'Channel switches per event, e.g. { "collection_created": { "telegram": false } }',
+    required: false,
+  })
+  @IsObject()
+  @IsOptional()
+  events?: Partial<Record<NotificationEvent, Partial<ChannelSwitches>>>;
+
+  @ApiProperty({ description: 'Quiet hours start, Tashkent time HH:MM; null turns them off', required: false, nullable: true })
+  @Matches(TIME_PATTERN, { message: 'quietHoursStart must be HH:MM' })
+  @IsOptional()
+  quietHoursStart?: string | null;
+
+  @ApiProperty({ description: 'Quiet hours end, Tashkent time HH:MM', required: false, nullable: true })
+  @Matches(TIME_PATTERN, { message: 'quietHoursEnd must be HH:MM' })
+  @IsOptional()
+  quietHoursEnd?: string | null;
+
+  @ApiProperty({ description: 'Address for the email digest', required: false, nullable: true })
+  @IsEmail()
+  @IsOptional()
+  digestEmail?: string | null;
+}
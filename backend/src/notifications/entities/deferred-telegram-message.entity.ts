@@ -0,0 +1,30 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from '../../modules/users/entities/user.entity';
+
+/**
+ * A Telegram message held back by the recipient's quiet hours. It is sent
+ * once `deliverAt` has passed, then removed.
+ */
+@Entity('deferred_telegram_messages')
+@Index(['deliverAt'])
+export class DeferredTelegramMessage {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ type: 'text' })
+  text: string;
+
+  /** End of the quiet hours the message fell into */
+  @Column({ name: 'deliver_at', type: 'timestamp' })
+  deliverAt: Date;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
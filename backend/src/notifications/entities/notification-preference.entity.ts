@@ -0,0 +1,71 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn, OneToOne, JoinColumn } from 'typeorm';
+import { User, UserRole } from '../../modules/users/entities/user.entity';
+
+export enum NotificationEvent {
+  COLLECTION_CREATED = 'collection_created',
+  COLLECTION_RECEIVED = 'collection_received',
+  COLLECTION_CANCELLED = 'collection_cancelled',
+  MACHINE_APPROVED = 'machine_approved',
+  MACHINE_REJECTED = 'machine_rejected',
+  MACHINE_PENDING = 'machine_pending',
+  RECONCILIATION_SHORTAGE = 'reconciliation_shortage',
+  COLLECTION_OVERDUE = 'collection_overdue',
+  DIGEST = 'digest',
+}
+
+export enum NotificationChannel {
+  TELEGRAM = 'telegram',
+  WEB = 'web',
+  EMAIL = 'email',
+}
+
+export type ChannelSwitches = Record<NotificationChannel, boolean>;
+
+/** Events a role can receive at all; the others are hidden from its settings */
+export const ROLE_NOTIFICATION_EVENTS: Record<UserRole, NotificationEvent[]> = {
+  [UserRole.OPERATOR]: [
+    NotificationEvent.COLLECTION_RECEIVED,
+    NotificationEvent.COLLECTION_CANCELLED,
+    NotificationEvent.MACHINE_APPROVED,
+    NotificationEvent.MACHINE_REJECTED,
+  ],
+  [UserRole.MANAGER]: Object.values(NotificationEvent),
+  [UserRole.ADMIN]: Object.values(NotificationEvent),
+};
+
+/** Everything on except the email digest */
+export const DEFAULT_CHANNELS: ChannelSwitches = {
+  [NotificationChannel.TELEGRAM]: true,
+  [NotificationChannel.WEB]: true,
+  [NotificationChannel.EMAIL]: false,
+};
+
+/**
+ * Per-user notification settings. Only switches the user changed are stored
+ * in `events`; missing ones fall back to DEFAULT_CHANNELS.
+ */
+@Entity('notification_preferences')
+export class NotificationPreference {
+  @PrimaryColumn({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  events: Partial<Record<NotificationEvent, Partial<ChannelSwitches>>>;
+
+  /** Tashkent wall-clock "HH:MM"; may wrap past midnight */
+  @Column({ name: 'quiet_hours_start', type: 'varchar', length: 5, nullable: true })
+  quietHoursStart: string | null;
+
+  @Column({ name: 'quiet_hours_end', type: 'varchar', length: 5, nullable: true })
+  quietHoursEnd: string | null;
+
+  @Column({ name: 'digest_email', type: 'varchar', length: 255, nullable: true })
+  digestEmail: string | null;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
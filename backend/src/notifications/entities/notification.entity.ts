@@ -0,0 +1,45 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+import { UserRole } from '../../modules/users/entities/user.entity';
+
+export type NotificationType =
+  | 'collection_created'
+  | 'collection_received'
+  | 'collection_cancelled'
+  | 'machine_approved'
+  | 'machine_rejected'
+  | 'machine_pending'
+  | 'reconciliation_shortage';
+
+/**
+ * A notification as it was emitted over the socket. Recipients mirror the
+ * rooms it went to: users by id and whole roles. Read state is kept per user
+ * in readBy, so one row serves every recipient.
+ */
+@Entity('notifications')
+@Index(['createdAt'])
+export class Notification {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  type: NotificationType;
+
+  @Column({ type: 'jsonb' })
+  data: Record<string, unknown>;
+
+  @Column({ name: 'recipient_user_ids', type: 'uuid', array: true, default: () => "'{}'" })
+  recipientUserIds: string[];
+
+  @Column({ name: 'recipient_roles', type: 'varchar', length: 20, array: true, default: () => "'{}'" })
+  recipientRoles: UserRole[];
+
+  /** Recipients who turned the web channel off for this type */
+  @Column({ name: 'muted_user_ids', type: 'uuid', array: true, default: () => "'{}'" })
+  mutedUserIds: string[];
+
+  @Column({ name: 'read_by', type: 'uuid', array: true, default: () => "'{}'" })
+  readBy: string[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,202 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import {
+  NotificationChannel,
+  NotificationEvent,
+  NotificationPreference,
+} from './entities/notification-preference.entity';
+import { DeferredTelegramMessage } from './entities/deferred-telegram-message.entity';
+import { UserRole } from '../modules/users/entities/user.entity';
+
+describe('NotificationPreferencesService', () => {
+  let service: NotificationPreferencesService;
+  let repository: { findOne: jest.Mock; find: jest.Mock; create: jest.Mock; save: jest.Mock; manager: { query: jest.Mock } };
+  let deferredRepository: { find: jest.Mock; create: jest.Mock; save: jest.Mock; delete: jest.Mock };
+
+  const manager = { id: 'manager-1', role: UserRole.MANAGER };
+  const operator = { id: 'operator-1', role: UserRole.OPERATOR };
+
+  const preference = (overrides: Partial<NotificationPreference> = {}): NotificationPreference =>
+    ({
+      userId: 'manager-1',
+      events: {},
+      quietHoursStart: null,
+      quietHoursEnd: null,
+      digestEmail: null,
+      ...overrides,
+    }) as NotificationPreference;
+
+  beforeEach(async () => {
+    repository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      find: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockImplementation((data) => data),
+      save: jest.fn().mockImplementation(async (data) => data),
+      manager: { query: jest.fn().mockResolvedValue([]) },
+    };
+    deferredRepository = {
+      find: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockImplementation((data) => data),
+      save: jest.fn().mockImplementation(async (data) => data),
+      delete: jest.fn().mockResolvedValue({ affected: 0 }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationPreferencesService,
+        { provide: getRepositoryToken(NotificationPreference), useValue: repository },
+        { provide: getRepositoryToken(DeferredTelegramMessage), useValue: deferredRepository },
+      ],
+    }).compile();
+
+    service = module.get(NotificationPreferencesService);
+  });
+
+  describe('getForUser', () => {
+    it('should fill in defaults for the events of the role', async () => {
+      repository.findOne.mockResolvedValue(
+        preference({ userId: 'operator-1', events: { collection_received: { telegram: false } } }),
+      );
+
+      const result = await service.getForUser(operator);
+
+      expect(Object.keys(result.events)).toEqual([
+        NotificationEvent.COLLECTION_RECEIVED,
+        NotificationEvent.COLLECTION_CANCELLED,
+        NotificationEvent.MACHINE_APPROVED,
+        NotificationEvent.MACHINE_REJECTED,
+      ]);
+      expect(result.events.collection_received).toEqual({ telegram: false, web: true, email: false });
+      expect(result.events.machine_approved).toEqual({ telegram: true, web: true, email: false });
+    });
+  });
+
+  describe('update', () => {
+    it('should merge switches into the stored ones', async () => {
+      repository.findOne.mockResolvedValue(preference({ events: { collection_created: { web: false } } }));
+
+      const result = await service.update(manager, { events: { collection_created: { telegram: false } } });
+
+      expect(repository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ events: { collection_created: { web: false, telegram: false } } }),
+      );
+      expect(result.events.collection_created).toEqual({ telegram: false, web: false, email: false });
+    });
+
+    it('should reject unknown events', async () => {
+      await expect(
+        service.update(manager, { events: { nope: { telegram: false } } as never }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should require both ends of the quiet hours', async () => {
+      await expect(service.update(manager, { quietHoursStart: '22:00' })).rejects.toThrow(BadRequestException);
+    });
+
+    it('should turn quiet hours off with nulls', async () => {
+      repository.findOne.mockResolvedValue(preference({ quietHoursStart: '22:00', quietHoursEnd: '08:00' }));
+
+      const result = await service.update(manager, { quietHoursStart: null, quietHoursEnd: null });
+
+      expect(result.quietHoursStart).toBeNull();
+      expect(result.quietHoursEnd).toBeNull();
+    });
+  });
+
+  describe('filterRecipients', () => {
+    const users = [{ id: 'manager-1' }, { id: 'manager-2' }, { id: 'manager-3' }];
+
+    it('should drop users who switched the channel off and keep users without preferences', async () => {
+      repository.find.mockResolvedValue([
+        preference({ userId: 'manager-1', events: { collection_created: { telegram: false } } }),
+        preference({ userId: 'manager-2', events: { collection_created: { web: false } } }),
+      ]);
+
+      const result = await service.filterRecipients(users, 'collection_created', NotificationChannel.TELEGRAM);
+
+      expect(result.map((u) => u.id)).toEqual(['manager-2', 'manager-3']);
+    });
+
+    it('should hold back Telegram during quiet hours across midnight', async () => {
+      repository.find.mockResolvedValue([
+        preference({ userId: 'manager-1', quietHoursStart: '22:00', quietHoursEnd: '08:00' }),
+      ]);
+      // 23:30 in Tashkent
+      const night = new Date('2025-10-15T18:30:00Z');
+
+      const telegram = await service.filterRecipients(users, 'collection_created', NotificationChannel.TELEGRAM, night);
+      const web = await service.filterRecipients(users, 'collection_created', NotificationChannel.WEB, night);
+
+      expect(telegram.map((u) => u.id)).toEqual(['manager-2', 'manager-3']);
+      expect(web).toHaveLength(3);
+    });
+
+    it('should leave the email digest off by default', async () => {
+      const result = await service.filterRecipients(users, 'collection_created', NotificationChannel.EMAIL);
+
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('splitRecipients', () => {
+    it('should defer Telegram for a manager in quiet hours during the nightly run', async () => {
+      repository.find.mockResolvedValue([
+        preference({ userId: 'manager-1', quietHoursStart: '22:00', quietHoursEnd: '08:00' }),
+      ]);
+      // 02:00 in Tashkent, when the reconciliation runs
+      const nightlyRun = new Date('2025-10-15T21:00:00Z');
+
+      const result = await service.splitRecipients(
+        [{ id: 'manager-1' }, { id: 'manager-2' }],
+        'reconciliation_shortage',
+        NotificationChannel.TELEGRAM,
+        nightlyRun,
+      );
+
+      expect(result.ready.map((u) => u.id)).toEqual(['manager-2']);
+      // 08:00 in Tashkent
+      expect(result.deferred).toEqual([{ user: { id: 'manager-1' }, until: new Date('2025-10-16T03:00:00Z') }]);
+    });
+  });
+
+  describe('takeDueTelegram', () => {
+    it('should return due messages and remove them from the queue', async () => {
+      deferredRepository.find.mockResolvedValue([{ id: 'm-1' }, { id: 'm-2' }]);
+
+      const result = await service.takeDueTelegram(new Date('2025-10-16T03:00:00Z'));
+
+      expect(result).toHaveLength(2);
+      expect(deferredRepository.delete).toHaveBeenCalledWith({ id: expect.anything() });
+    });
+  });
+
+  describe('findDigestEmails', () => {
+    it('should return the stored addresses', async () => {
+      repository.manager.query.mockResolvedValue([{ email: 'boss@example.com' }]);
+
+      const result = await service.findDigestEmails(['manager-1', 'manager-2']);
+
+      expect(result).toEqual(['boss@example.com']);
+      expect(repository.manager.query).toHaveBeenCalledWith(expect.stringContaining('digest_email IS NOT NULL'), [
+        ['manager-1', 'manager-2'],
+      ]);
+    });
+
+    it('should skip the query without users', async () => {
+      expect(await service.findDigestEmails([])).toEqual([]);
+      expect(repository.manager.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isQuietTime', () => {
+    it('should handle quiet hours within one day', () => {
+      const quiet = { quietHoursStart: '13:00', quietHoursEnd: '14:00' };
+
+      // 13:30 and 14:00 in Tashkent
+      expect(service.isQuietTime(quiet, new Date('2025-10-15T08:30:00Z'))).toBe(true);
+      expect(service.isQuietTime(quiet, new Date('2025-10-15T09:00:00Z'))).toBe(false);
+    });
+  });
+});
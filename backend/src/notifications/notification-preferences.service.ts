@@ -0,0 +1,227 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThanOrEqual, Repository } from 'typeorm';
+import {
+  ChannelSwitches,
+  DEFAULT_CHANNELS,
+  NotificationChannel,
+  NotificationEvent,
+  NotificationPreference,
+  ROLE_NOTIFICATION_EVENTS,
+} from './entities/notification-preference.entity';
+import { DeferredTelegramMessage } from './entities/deferred-telegram-message.entity';
+import { UpdateNotificationPreferencesDto } from './dto/update-notification-preferences.dto';
+import { User } from '../modules/users/entities/user.entity';
+import { tashkentMinutesOfDay } from '../common/utils/timezone';
+
+/** Event name as a plain string, so socket payload types can be passed as is */
+export type NotificationEventKey = `${NotificationEvent}`;
+
+export interface NotificationPreferencesView {
+  /** Only the events the user's role can receive */
+  events: Partial<Record<NotificationEvent, ChannelSwitches>>;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  digestEmail: string | null;
+}
+
+export interface RecipientsSplit<T> {
+  /** Can be sent to right away */
+  ready: T[];
+  /** Telegram recipients in their quiet hours, with when the hours end */
+  deferred: Array<{ user: T; until: Date }>;
+}
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+/**
+ * Who wants which notification where. Quiet hours only affect Telegram:
+ * messages that fall into them are dropped, not sent later, unless the
+ * caller queues them with deferTelegram (the nightly shortage alerts do).
+ * The web inbox keeps everything the web channel allows.
+ */
+@Injectable()
+export class NotificationPreferencesService {
+  constructor(
+    @InjectRepository(NotificationPreference)
+    private readonly preferenceRepository: Repository<NotificationPreference>,
+    @InjectRepository(DeferredTelegramMessage)
+    private readonly deferredRepository: Repository<DeferredTelegramMessage>,
+  ) {}
+
+  async getForUser(user: Pick<User, 'id' | 'role'>): Promise<NotificationPreferencesView> {
+    const preference = await this.preferenceRepository.findOne({ where: { userId: user.id } });
+    return this.toView(user, preference);
+  }
+
+  async update(
+    user: Pick<User, 'id' | 'role'>,
+    dto: UpdateNotificationPreferencesDto,
+  ): Promise<NotificationPreferencesView> {
+    const preference =
+      (await this.preferenceRepository.findOne({ where: { userId: user.id } })) ||
+      this.preferenceRepository.create({ userId: user.id, events: {}, quietHoursStart: null, quietHoursEnd: null, digestEmail: null });
+
+    if (dto.events) {
+      const events = { ...preference.events };
+      for (const [event, switches] of Object.entries(dto.events)) {
+        if (!Object.values(NotificationEvent).includes(event as NotificationEvent)) {
+          throw new BadRequestException(`Unknown notification event: ${event}`);
+        }
+        const merged = { ...events[event as NotificationEvent] };
+        for (const [channel, enabled] of Object.entries(switches || {})) {
+          if (!Object.values(NotificationChannel).includes(channel as NotificationChannel) || typeof enabled !== 'boolean') {
+            throw new BadRequestException(`Invalid switch ${channel} for ${event}`);
+          }
+          merged[channel as NotificationChannel] = enabled;
+        }
+        events[event as NotificationEvent] = merged;
+      }
+      preference.events = events;
+    }
+
+    if (dto.quietHoursStart !== undefined || dto.quietHoursEnd !== undefined) {
+      const start = dto.quietHoursStart !== undefined ? dto.quietHoursStart : preference.quietHoursStart;
+      const end = dto.quietHoursEnd !== undefined ? dto.quietHoursEnd : preference.quietHoursEnd;
+      if (!start !== !end) {
+        throw new BadRequestException('Quiet hours need both a start and an end');
+      }
+      if (start && start === end) {
+        throw new BadRequestException('Quiet hours start and end must differ');
+      }
+      preference.quietHoursStart = start || null;
+      preference.quietHoursEnd = end || null;
+    }
+
+    if (dto.digestEmail !== undefined) {
+      preference.digestEmail = dto.digestEmail || null;
+    }
+
+    const saved = await this.preferenceRepository.save(preference);
+    return this.toView(user, saved);
+  }
+
+  /**
+   * The users who get `event` on `channel` right now. Telegram recipients in
+   * their quiet hours are left out; use splitRecipients to queue for them.
+   */
+  async filterRecipients<T extends Pick<User, 'id'>>(
+    users: T[],
+    event: NotificationEventKey,
+    channel: NotificationChannel,
+    now = new Date(),
+  ): Promise<T[]> {
+    return (await this.splitRecipients(users, event, channel, now)).ready;
+  }
+
+  /**
+   * Like filterRecipients, but keeps the Telegram recipients in their quiet
+   * hours apart, so the caller can queue the message for them.
+   */
+  async splitRecipients<T extends Pick<User, 'id'>>(
+    users: T[],
+    event: NotificationEventKey,
+    channel: NotificationChannel,
+    now = new Date(),
+  ): Promise<RecipientsSplit<T>> {
+    const split: RecipientsSplit<T> = { ready: [], deferred: [] };
+    if (users.length === 0) return split;
+
+    const preferences = await this.preferenceRepository.find({ where: { userId: In(users.map((u) => u.id)) } });
+    const byUser = new Map(preferences.map((p) => [p.userId, p]));
+
+    for (const user of users) {
+      const preference = byUser.get(user.id);
+      if (!preference) {
+        if (DEFAULT_CHANNELS[channel]) split.ready.push(user);
+        continue;
+      }
+      if (!this.isEnabled(preference, event, channel)) continue;
+      if (channel === NotificationChannel.TELEGRAM && this.isQuietTime(preference, now)) {
+        split.deferred.push({ user, until: this.quietHoursEndAfter(preference, now) });
+      } else {
+        split.ready.push(user);
+      }
+    }
+    return split;
+  }
+
+  /** Queue a Telegram message until the end of the recipient's quiet hours */
+  async deferTelegram(messages: Array<{ userId: string; text: string; deliverAt: Date }>): Promise<void> {
+    if (messages.length === 0) return;
+    await this.deferredRepository.save(messages.map((m) => this.deferredRepository.create(m)));
+  }
+
+  /** Queued Telegram messages whose quiet hours are over; they leave the queue */
+  async takeDueTelegram(now = new Date()): Promise<DeferredTelegramMessage[]> {
+    const due = await this.deferredRepository.find({
+      where: { deliverAt: LessThanOrEqual(now) },
+      relations: ['user'],
+      order: { deliverAt: 'ASC' },
+    });
+    if (due.length > 0) {
+      await this.deferredRepository.delete({ id: In(due.map((m) => m.id)) });
+    }
+    return due;
+  }
+
+  /** Digest addresses of those users who turned the email channel on for any event */
+  async findDigestEmails(userIds: string[]): Promise<string[]> {
+    if (userIds.length === 0) return [];
+    const rows: Array<{ email: string }> = await this.preferenceRepository.manager.query(
+      `SELECT digest_email AS "email" FROM notification_preferences
+       WHERE user_id = ANY($1) AND digest_email IS NOT NULL
+         AND EXISTS (SELECT 1 FROM jsonb_each(events) e WHERE e.value ->> 'email' = 'true')`,
+      [userIds],
+    );
+    return rows.map((r) => r.email);
+  }
+
+  /** Users who switched `channel` off for `event` */
+  async findMutedUserIds(event: NotificationEventKey, channel: NotificationChannel): Promise<string[]> {
+    const rows: Array<{ userId: string }> = await this.preferenceRepository.manager.query(
+      `SELECT user_id AS "userId" FROM notification_preferences WHERE events -> $1 ->> $2 = 'false'`,
+      [event, channel],
+    );
+    return rows.map((r) => r.userId);
+  }
+
+  isQuietTime(preference: Pick<NotificationPreference, 'quietHoursStart' | 'quietHoursEnd'>, now: Date): boolean {
+    if (!preference.quietHoursStart || !preference.quietHoursEnd) return false;
+
+    const current = tashkentMinutesOfDay(now);
+    const start = toMinutes(preference.quietHoursStart);
+    const end = toMinutes(preference.quietHoursEnd);
+    // 22:00–08:00 wraps past midnight
+    return start < end ? current >= start && current < end : current >= start || current < end;
+  }
+
+  /** The next moment the quiet hours end, at or after `now` */
+  private quietHoursEndAfter(preference: Pick<NotificationPreference, 'quietHoursEnd'>, now: Date): Date {
+    const current = tashkentMinutesOfDay(now);
+    const minutesLeft = (toMinutes(preference.quietHoursEnd as string) - current + 24 * 60) % (24 * 60);
+    const end = new Date(now.getTime() + minutesLeft * 60 * 1000);
+    end.setUTCSeconds(0, 0);
+    return end;
+  }
+
+  private isEnabled(preference: NotificationPreference, event: NotificationEventKey, channel: NotificationChannel): boolean {
+    return preference.events[event as NotificationEvent]?.[channel] ?? DEFAULT_CHANNELS[channel];
+  }
+
+  private toView(user: Pick<User, 'id' | 'role'>, preference: NotificationPreference | null): NotificationPreferencesView {
+    const events: Partial<Record<NotificationEvent, ChannelSwitches>> = {};
+    for (const event of ROLE_NOTIFICATION_EVENTS[user.role] || []) {
+      events[event] = { ...DEFAULT_CHANNELS, ...preference?.events[event] };
+    }
+    return {
+      events,
+      quietHoursStart: preference?.quietHoursStart ?? null,
+      quietHoursEnd: preference?.quietHoursEnd ?? null,
+      digestEmail: preference?.digestEmail ?? null,
+    };
+  }
+}
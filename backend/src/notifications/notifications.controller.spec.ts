@@ -0,0 +1,72 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotificationsController } from './notifications.controller';
+import { NotificationsService } from './notifications.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { User, UserRole } from '../modules/users/entities/user.entity';
+
+describe('NotificationsController', () => {
+  let controller: NotificationsController;
+  let service: jest.Mocked<NotificationsService>;
+  let preferencesService: jest.Mocked<NotificationPreferencesService>;
+
+  const mockUser = { id: 'user-1', role: UserRole.MANAGER } as User;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [NotificationsController],
+      providers: [
+        {
+          provide: NotificationsService,
+          useValue: {
+            findForUser: jest.fn(),
+            markRead: jest.fn(),
+            markAllRead: jest.fn(),
+          },
+        },
+        {
+          provide: NotificationPreferencesService,
+          useValue: {
+            getForUser: jest.fn(),
+            update: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    controller = module.get(NotificationsController);
+    service = module.get(NotificationsService);
+    preferencesService = module.get(NotificationPreferencesService);
+  });
+
+  it('should list notifications of the current user', async () => {
+    service.findForUser.mockResolvedValue({ data: [], total: 0, unreadCount: 0 });
+
+    const result = await controller.findAll({ page: 2 }, mockUser);
+
+    expect(service.findForUser).toHaveBeenCalledWith(mockUser, { page: 2 });
+    expect(result).toEqual({ data: [], total: 0, unreadCount: 0 });
+  });
+
+  it('should mark a notification read for the current user', async () => {
+    await controller.markRead('notification-1', mockUser);
+
+    expect(service.markRead).toHaveBeenCalledWith('notification-1', mockUser);
+  });
+
+  it('should mark all notifications read for the current user', async () => {
+    service.markAllRead.mockResolvedValue({ updated: 3 });
+
+    const result = await controller.markAllRead(mockUser);
+
+    expect(service.markAllRead).toHaveBeenCalledWith(mockUser);
+    expect(result).toEqual({ updated: 3 });
+  });
+
+  it('should update preferences of the current user', async () => {
+    const dto = { quietHoursStart: '22:00', quietHoursEnd: '08:00' };
+
+    await controller.updatePreferences(dto, mockUser);
+
+    expect(preferencesService.update).toHaveBeenCalledWith(mockUser, dto);
+  });
+});
@@ -0,0 +1,50 @@
+import { Controller, Get, Post, Put, Body, Param, Query, ParseUUIDPipe, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { NotificationsService } from './notifications.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { NotificationQueryDto } from './dto/notification-query.dto';
+import { UpdateNotificationPreferencesDto } from './dto/update-notification-preferences.dto';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { User } from '../modules/users/entities/user.entity';
+
+@ApiTags('notifications')
+@Controller('notifications')
+@ApiBearerAuth()
+export class NotificationsController {
+  constructor(
+    private readonly notificationsService: NotificationsService,
+    private readonly preferencesService: NotificationPreferencesService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Notifications of the current user, newest first, with the unread count' })
+  async findAll(@Query() query: NotificationQueryDto, @CurrentUser() user: User) {
+    return this.notificationsService.findForUser(user, query);
+  }
+
+  @Get('preferences')
+  @ApiOperation({ summary: 'Notification channels per event and quiet hours of the current user' })
+  async getPreferences(@CurrentUser() user: User) {
+    return this.preferencesService.getForUser(user);
+  }
+
+  @Put('preferences')
+  @ApiOperation({ summary: 'Update notification preferences of the current user' })
+  async updatePreferences(@Body() dto: UpdateNotificationPreferencesDto, @CurrentUser() user: User) {
+    return this.preferencesService.update(user, dto);
+  }
+
+  @Post('read-all')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark all notifications of the current user as read' })
+  async markAllRead(@CurrentUser() user: User) {
+    return this.notificationsService.markAllRead(user);
+  }
+
+  @Post(':id/read')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark a notification as read' })
+  async markRead(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: User) {
+    return this.notificationsService.markRead(id, user);
+  }
+}
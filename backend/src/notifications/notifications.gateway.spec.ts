@@ -2,6 +2,8 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { NotificationsGateway, NotificationPayload } from './notifications.gateway';
+import { NotificationsService } from './notifications.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
 import { Collection, CollectionStatus, CollectionSource } from '../modules/collections/entities/collection.entity';
 import { Machine, MachineStatus } from '../modules/machines/entities/machine.entity';
 
@@ -25,6 +27,7 @@ function createMockSocket(overrides: Record<string, any> = {}): any {
 function createMockServer(): any {
   const mockChain = {
     to: jest.fn().mockReturnThis(),
+    except: jest.fn().mockReturnThis(),
     emit: jest.fn(),
   };
   return {
@@ -64,9 +67,16 @@ describe('NotificationsGateway', () => {
   let gateway: NotificationsGateway;
   let jwtService: jest.Mocked<JwtService>;
   let configService: jest.Mocked<ConfigService>;
+  let notificationsService: { create: jest.Mock };
+  let preferencesService: { findMutedUserIds: jest.Mock };
   let mockServer: ReturnType<typeof createMockServer>;
 
   beforeEach(async () => {
+    notificationsService = {
+      create: jest.fn().mockResolvedValue({ id: 'notification-1', createdAt: new Date() }),
+    };
+    preferencesService = { findMutedUserIds: jest.fn().mockResolvedValue([]) };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         NotificationsGateway,
@@ -85,6 +95,8 @@ describe('NotificationsGateway', () => {
             }),
           },
         },
+        { provide: NotificationsService, useValue: notificationsService },
+        { provide: NotificationPreferencesService, useValue: preferencesService },
       ],
     }).compile();
 
@@ -384,8 +396,8 @@ describe('NotificationsGateway', () => {
   // notifyNewCollection
   // =========================================================================
   describe('notifyNewCollection', () => {
-    it('should emit notification to manager and admin rooms', () => {
-      gateway.notifyNewCollection(mockCollection as Collection);
+    it('should emit notification to manager and admin rooms', async () => {
+      await gateway.notifyNewCollection(mockCollection as Collection);
 
       expect(mockServer.to).toHaveBeenCalledWith('role:manager');
       expect(mockServer._chain.to).toHaveBeenCalledWith('role:admin');
@@ -404,8 +416,8 @@ describe('NotificationsGateway', () => {
   // notifyCollectionReceived
   // =========================================================================
   describe('notifyCollectionReceived', () => {
-    it('should emit notification to the operator and admin room', () => {
-      gateway.notifyCollectionReceived(mockCollection as Collection, 'operator-1');
+    it('should emit notification to the operator and admin room', async () => {
+      await gateway.notifyCollectionReceived(mockCollection as Collection, 'operator-1');
 
       // First call: to user
       expect(mockServer.to).toHaveBeenCalledWith('user:operator-1');
@@ -421,14 +433,49 @@ describe('NotificationsGateway', () => {
       // Second call: to admin
       expect(mockServer.to).toHaveBeenCalledWith('role:admin');
     });
+
+    it('should store the notification for the operator and admins before emitting', async () => {
+      notificationsService.create.mockImplementation(async () => {
+        expect(mockServer._chain.emit).not.toHaveBeenCalled();
+        return { id: 'notification-1', createdAt: new Date() };
+      });
+
+      await gateway.notifyCollectionReceived(mockCollection as Collection, 'operator-1');
+
+      expect(notificationsService.create).toHaveBeenCalledWith('collection_received', mockCollection, {
+        userIds: ['operator-1'],
+        roles: ['admin'],
+        mutedUserIds: [],
+      });
+      expect(mockServer._chain.emit).toHaveBeenCalledWith(
+        'notification',
+        expect.objectContaining({ id: 'notification-1' }),
+      );
+    });
+  });
+
+  describe('web notification preferences', () => {
+    it('should skip users who turned the web channel off', async () => {
+      preferencesService.findMutedUserIds.mockResolvedValue(['manager-2']);
+
+      await gateway.notifyNewCollection(mockCollection as Collection);
+
+      expect(preferencesService.findMutedUserIds).toHaveBeenCalledWith('collection_created', 'web');
+      expect(notificationsService.create).toHaveBeenCalledWith(
+        'collection_created',
+        mockCollection,
+        expect.objectContaining({ mutedUserIds: ['manager-2'] }),
+      );
+      expect(mockServer._chain.except).toHaveBeenCalledWith(['user:manager-2']);
+    });
   });
 
   // =========================================================================
   // notifyCollectionCancelled
   // =========================================================================
   describe('notifyCollectionCancelled', () => {
-    it('should emit notification to the operator, manager, and admin rooms', () => {
-      gateway.notifyCollectionCancelled(mockCollection as Collection, 'operator-2');
+    it('should emit notification to the operator, manager, and admin rooms', async () => {
+      await gateway.notifyCollectionCancelled(mockCollection as Collection, 'operator-2');
 
       expect(mockServer.to).toHaveBeenCalledWith('user:operator-2');
       expect(mockServer._chain.emit).toHaveBeenCalledWith(
@@ -450,8 +497,8 @@ describe('NotificationsGateway', () => {
   // notifyMachineApproved
   // =========================================================================
   describe('notifyMachineApproved', () => {
-    it('should emit notification to the creator and admin room', () => {
-      gateway.notifyMachineApproved(mockMachine as Machine, 'creator-1');
+    it('should emit notification to the creator and admin room', async () => {
+      await gateway.notifyMachineApproved(mockMachine as Machine, 'creator-1');
 
       expect(mockServer.to).toHaveBeenCalledWith('user:creator-1');
       expect(mockServer._chain.emit).toHaveBeenCalledWith(
@@ -471,8 +518,8 @@ describe('NotificationsGateway', () => {
   // notifyMachineRejected
   // =========================================================================
   describe('notifyMachineRejected', () => {
-    it('should emit notification to the creator', () => {
-      gateway.notifyMachineRejected(mockMachine as Machine, 'creator-2');
+    it('should emit notification to the creator', async () => {
+      await gateway.notifyMachineRejected(mockMachine as Machine, 'creator-2');
 
       expect(mockServer.to).toHaveBeenCalledWith('user:creator-2');
       expect(mockServer._chain.emit).toHaveBeenCalledWith(
@@ -486,6 +533,80 @@ describe('NotificationsGateway', () => {
     });
   });
 
+  // =========================================================================
+  // notifyMachinePending
+  // =========================================================================
+  describe('notifyMachinePending', () => {
+    it('should emit notification to the admin room except muted admins', async () => {
+      preferencesService.findMutedUserIds.mockResolvedValue(['admin-2']);
+
+      await gateway.notifyMachinePending(mockMachine as Machine);
+
+      expect(preferencesService.findMutedUserIds).toHaveBeenCalledWith('machine_pending', 'web');
+      expect(notificationsService.create).toHaveBeenCalledWith('machine_pending', mockMachine, {
+        roles: ['admin'],
+        mutedUserIds: ['admin-2'],
+      });
+      expect(mockServer.to).toHaveBeenCalledWith('role:admin');
+      expect(mockServer._chain.except).toHaveBeenCalledWith(['user:admin-2']);
+      expect(mockServer._chain.emit).toHaveBeenCalledWith(
+        'notification',
+        expect.objectContaining({ type: 'machine_pending', data: mockMachine }),
+      );
+    });
+  });
+
+  // =========================================================================
+  // notifyReconciliationShortage
+  // =========================================================================
+  describe('notifyReconciliationShortage', () => {
+    it('should store a summary for managers and admins', async () => {
+      await gateway.notifyReconciliationShortage([
+        { machineCode: 'A01', difference: 15000 },
+        { machineCode: 'A01', difference: 5000.5 },
+        { machineCode: 'B02', difference: 2000 },
+      ]);
+
+      expect(preferencesService.findMutedUserIds).toHaveBeenCalledWith('reconciliation_shortage', 'web');
+      expect(notificationsService.create).toHaveBeenCalledWith(
+        'reconciliation_shortage',
+        { count: 3, machineCodes: ['A01', 'B02'], totalDifference: 22000.5 },
+        { roles: ['manager', 'admin'], mutedUserIds: [] },
+      );
+      expect(mockServer.to).toHaveBeenCalledWith('role:manager');
+      expect(mockServer._chain.to).toHaveBeenCalledWith('role:admin');
+    });
+
+    it('should do nothing without shortages', async () => {
+      await gateway.notifyReconciliationShortage([]);
+
+      expect(notificationsService.create).not.toHaveBeenCalled();
+      expect(mockServer.to).not.toHaveBeenCalled();
+    });
+  });
+
+  // =========================================================================
+  // notifyImportProgress
+  // =========================================================================
+  describe('notifyImportProgress', () => {
+    it('should emit import progress only to the user who started the job', () => {
+      const job = {
+        jobId: 'job-1',
+        status: 'running' as const,
+        fileName: 'orders.xlsx',
+        percent: 40,
+        processedRows: 20000,
+        result: null,
+        error: null,
+      };
+
+      gateway.notifyImportProgress('user-1', job);
+
+      expect(mockServer.to).toHaveBeenCalledWith('user:user-1');
+      expect(mockServer._chain.emit).toHaveBeenCalledWith('import_progress', job);
+    });
+  });
+
   // =========================================================================
   // broadcast
   // =========================================================================
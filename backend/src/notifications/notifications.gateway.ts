@@ -12,10 +12,25 @@ import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { Collection } from '../modules/collections/entities/collection.entity';
 import { Machine } from '../modules/machines/entities/machine.entity';
+import { UserRole } from '../modules/users/entities/user.entity';
+import { ImportJobDto } from '../modules/sales/dto/import-sales.dto';
+import { NotificationType } from './entities/notification.entity';
+import { NotificationChannel } from './entities/notification-preference.entity';
+import { NotificationsService, NotificationRecipients } from './notifications.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
+
+/** Summary of the shortages one reconciliation run alerted about */
+export interface ReconciliationShortageData {
+  count: number;
+  machineCodes: string[];
+  totalDifference: number;
+}
 
 export interface NotificationPayload {
-  type: 'collection_created' | 'collection_received' | 'collection_cancelled' | 'machine_approved' | 'machine_rejected';
-  data: Collection | Machine;
+  /** Id of the stored notification, used to mark it read */
+  id?: string;
+  type: NotificationType;
+  data: Collection | Machine | ReconciliationShortageData;
   timestamp: Date;
 }
 
@@ -55,6 +70,8 @@ export class NotificationsGateway
   constructor(
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
+    private readonly notificationsService: NotificationsService,
+    private readonly preferencesService: NotificationPreferencesService,
   ) {}
 
   afterInit() {
@@ -122,63 +139,82 @@ export class NotificationsGateway
   }
 
   // Notify all connected managers and admins about new collection
-  notifyNewCollection(collection: Collection): void {
-    const payload: NotificationPayload = {
-      type: 'collection_created',
-      data: collection,
-      timestamp: new Date(),
-    };
+  async notifyNewCollection(collection: Collection): Promise<void> {
+    const { payload, mutedRooms } = await this.persist('collection_created', collection, {
+      roles: [UserRole.MANAGER, UserRole.ADMIN],
+    });
 
-    this.server.to('role:manager').to('role:admin').emit('notification', payload);
+    this.server.to('role:manager').to('role:admin').except(mutedRooms).emit('notification', payload);
     this.logger.debug(`Notified managers/admins about new collection: ${collection.id}`);
   }
 
   // Notify operator when their collection is received
-  notifyCollectionReceived(collection: Collection, operatorId: string): void {
-    const payload: NotificationPayload = {
-      type: 'collection_received',
-      data: collection,
-      timestamp: new Date(),
-    };
-
-    this.server.to(`user:${operatorId}`).emit('notification', payload);
-    this.server.to('role:admin').emit('notification', payload);
+  async notifyCollectionReceived(collection: Collection, operatorId: string): Promise<void> {
+    const { payload, mutedRooms } = await this.persist('collection_received', collection, {
+      userIds: [operatorId],
+      roles: [UserRole.ADMIN],
+    });
+
+    this.server.to(`user:${operatorId}`).except(mutedRooms).emit('notification', payload);
+    this.server.to('role:admin').except(mutedRooms).emit('notification', payload);
     this.logger.debug(`Notified operator ${operatorId} about received collection: ${collection.id}`);
   }
 
   // Notify about cancelled collection
-  notifyCollectionCancelled(collection: Collection, operatorId: string): void {
-    const payload: NotificationPayload = {
-      type: 'collection_cancelled',
-      data: collection,
-      timestamp: new Date(),
-    };
-
-    this.server.to(`user:${operatorId}`).emit('notification', payload);
-    this.server.to('role:manager').to('role:admin').emit('notification', payload);
+  async notifyCollectionCancelled(collection: Collection, operatorId: string): Promise<void> {
+    const { payload, mutedRooms } = await this.persist('collection_cancelled', collection, {
+      userIds: [operatorId],
+      roles: [UserRole.MANAGER, UserRole.ADMIN],
+    });
+
+    this.server.to(`user:${operatorId}`).except(mutedRooms).emit('notification', payload);
+    this.server.to('role:manager').to('role:admin').except(mutedRooms).emit('notification', payload);
   }
 
   // Notify about machine approval
-  notifyMachineApproved(machine: Machine, creatorId: string): void {
-    const payload: NotificationPayload = {
-      type: 'machine_approved',
-      data: machine,
-      timestamp: new Date(),
-    };
-
-    this.server.to(`user:${creatorId}`).emit('notification', payload);
-    this.server.to('role:admin').emit('notification', payload);
+  async notifyMachineApproved(machine: Machine, creatorId: string): Promise<void> {
+    const { payload, mutedRooms } = await this.persist('machine_approved', machine, {
+      userIds: [creatorId],
+      roles: [UserRole.ADMIN],
+    });
+
+    this.server.to(`user:${creatorId}`).except(mutedRooms).emit('notification', payload);
+    this.server.to('role:admin').except(mutedRooms).emit('notification', payload);
   }
 
   // Notify about machine rejection
-  notifyMachineRejected(machine: Machine, creatorId: string): void {
-    const payload: NotificationPayload = {
-      type: 'machine_rejected',
-      data: machine,
-      timestamp: new Date(),
+  async notifyMachineRejected(machine: Machine, creatorId: string): Promise<void> {
+    const { payload, mutedRooms } = await this.persist('machine_rejected', machine, { userIds: [creatorId] });
+
+    this.server.to(`user:${creatorId}`).except(mutedRooms).emit('notification', payload);
+  }
+
+  // Notify admins about a machine an operator added, waiting for approval
+  async notifyMachinePending(machine: Machine): Promise<void> {
+    const { payload, mutedRooms } = await this.persist('machine_pending', machine, { roles: [UserRole.ADMIN] });
+
+    this.server.to('role:admin').except(mutedRooms).emit('notification', payload);
+  }
+
+  // Notify managers and admins about shortages found by a reconciliation run
+  async notifyReconciliationShortage(shortages: Array<{ machineCode: string; difference: number }>): Promise<void> {
+    if (shortages.length === 0) return;
+
+    const data: ReconciliationShortageData = {
+      count: shortages.length,
+      machineCodes: [...new Set(shortages.map((s) => s.machineCode))],
+      totalDifference: Math.round(shortages.reduce((sum, s) => sum + s.difference, 0) * 100) / 100,
     };
+    const { payload, mutedRooms } = await this.persist('reconciliation_shortage', data, {
+      roles: [UserRole.MANAGER, UserRole.ADMIN],
+    });
 
-    this.server.to(`user:${creatorId}`).emit('notification', payload);
+    this.server.to('role:manager').to('role:admin').except(mutedRooms).emit('notification', payload);
+  }
+
+  // Progress of a background sales import, only to the user who started it
+  notifyImportProgress(userId: string, job: ImportJobDto): void {
+    this.server.to(`user:${userId}`).emit('import_progress', job);
   }
 
   // Broadcast to all connected clients
@@ -190,4 +226,19 @@ export class NotificationsGateway
   getConnectedClientsCount(): number {
     return this.connectedClients.size;
   }
+
+  // Store the notification first so recipients that are offline see it later.
+  // Users who turned the web channel off for this type neither get it live nor in the inbox.
+  private async persist(
+    type: NotificationType,
+    data: NotificationPayload['data'],
+    recipients: NotificationRecipients,
+  ): Promise<{ payload: NotificationPayload; mutedRooms: string[] }> {
+    const mutedUserIds = await this.preferencesService.findMutedUserIds(type, NotificationChannel.WEB);
+    const notification = await this.notificationsService.create(type, data, { ...recipients, mutedUserIds });
+    return {
+      payload: { id: notification.id, type, data, timestamp: notification.createdAt },
+      mutedRooms: mutedUserIds.map((id) => `user:${id}`),
+    };
+  }
 }
@@ -1,11 +1,19 @@
 import { Module, Global } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Notification } from './entities/notification.entity';
+import { NotificationPreference } from './entities/notification-preference.entity';
+import { DeferredTelegramMessage } from './entities/deferred-telegram-message.entity';
 import { NotificationsGateway } from './notifications.gateway';
+import { NotificationsService } from './notifications.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { NotificationsController } from './notifications.controller';
 
 @Global()
 @Module({
   imports: [
+    TypeOrmModule.forFeature([Notification, NotificationPreference, DeferredTelegramMessage]),
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: (configService: ConfigService) => ({
@@ -15,7 +23,8 @@ import { NotificationsGateway } from './notifications.gateway';
       inject: [ConfigService],
     }),
   ],
-  providers: [NotificationsGateway],
-  exports: [NotificationsGateway],
+  controllers: [NotificationsController],
+  providers: [NotificationsGateway, NotificationsService, NotificationPreferencesService],
+  exports: [NotificationsGateway, NotificationsService, NotificationPreferencesService],
 })
 export class NotificationsModule {}
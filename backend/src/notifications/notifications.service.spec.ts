@@ -0,0 +1,139 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+import { Notification } from './entities/notification.entity';
+import { User, UserRole } from '../modules/users/entities/user.entity';
+
+describe('NotificationsService', () => {
+  let service: NotificationsService;
+  let repository: any;
+  let mockQueryBuilder: any;
+  let query: jest.Mock;
+
+  const operator = { id: 'operator-1', role: UserRole.OPERATOR } as User;
+
+  const stored = (overrides: Partial<Notification> = {}): Notification => ({
+    id: 'notification-1',
+    type: 'collection_received',
+    data: { id: 'col-1', amount: 150000 },
+    recipientUserIds: ['operator-1'],
+    recipientRoles: [UserRole.ADMIN],
+    mutedUserIds: [],
+    readBy: [],
+    createdAt: new Date('2025-10-15T12:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    mockQueryBuilder = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      skip: jest.fn().mockReturnThis(),
+      take: jest.fn().mockReturnThis(),
+      getManyAndCount: jest.fn().mockResolvedValue([[], 0]),
+      getCount: jest.fn().mockResolvedValue(0),
+      getOne: jest.fn(),
+    };
+    query = jest.fn().mockResolvedValue([[], 0]);
+
+    repository = {
+      create: jest.fn().mockImplementation((data) => data),
+      save: jest.fn().mockImplementation(async (data) => ({ id: 'notification-1', createdAt: new Date(), ...data })),
+      createQueryBuilder: jest.fn().mockReturnValue(mockQueryBuilder),
+      manager: { query },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationsService,
+        { provide: getRepositoryToken(Notification), useValue: repository },
+      ],
+    }).compile();
+
+    service = module.get(NotificationsService);
+  });
+
+  describe('create', () => {
+    it('should store the payload as plain JSON with its recipients', async () => {
+      const collectedAt = new Date('2025-10-15T10:00:00Z');
+
+      await service.create('collection_created', { id: 'col-1', collectedAt }, { roles: [UserRole.MANAGER] });
+
+      expect(repository.save).toHaveBeenCalledWith({
+        type: 'collection_created',
+        data: { id: 'col-1', collectedAt: '2025-10-15T10:00:00.000Z' },
+        recipientUserIds: [],
+        recipientRoles: [UserRole.MANAGER],
+        mutedUserIds: [],
+        readBy: [],
+      });
+    });
+  });
+
+  describe('findForUser', () => {
+    it('should page notifications addressed to the user or their role', async () => {
+      mockQueryBuilder.getManyAndCount.mockResolvedValue([[stored({ readBy: ['operator-1'] }), stored({ id: 'n-2' })], 12]);
+      mockQueryBuilder.getCount.mockResolvedValue(3);
+
+      const result = await service.findForUser(operator, { page: 2, limit: 10 });
+
+      expect(mockQueryBuilder.where).toHaveBeenCalledWith(expect.stringContaining('ANY(n.recipientRoles)'), {
+        userId: 'operator-1',
+        role: UserRole.OPERATOR,
+      });
+      expect(mockQueryBuilder.skip).toHaveBeenCalledWith(10);
+      expect(mockQueryBuilder.take).toHaveBeenCalledWith(10);
+      expect(result.total).toBe(12);
+      expect(result.unreadCount).toBe(3);
+      expect(result.data.map((n) => n.read)).toEqual([true, false]);
+      expect(result.data[0]).not.toHaveProperty('readBy');
+    });
+
+    it('should filter unread notifications when asked', async () => {
+      await service.findForUser(operator, { unreadOnly: true });
+
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('NOT (:readerId = ANY(n.readBy))', {
+        readerId: 'operator-1',
+      });
+    });
+  });
+
+  describe('markRead', () => {
+    it('should add the user to the readers', async () => {
+      mockQueryBuilder.getOne.mockResolvedValue(stored());
+
+      const result = await service.markRead('notification-1', operator);
+
+      expect(query).toHaveBeenCalledWith(expect.stringContaining('array_append'), ['notification-1', 'operator-1']);
+      expect(result.read).toBe(true);
+    });
+
+    it('should not update a notification that is already read', async () => {
+      mockQueryBuilder.getOne.mockResolvedValue(stored({ readBy: ['operator-1'] }));
+
+      const result = await service.markRead('notification-1', operator);
+
+      expect(query).not.toHaveBeenCalled();
+      expect(result.read).toBe(true);
+    });
+
+    it('should throw when the notification is not addressed to the user', async () => {
+      mockQueryBuilder.getOne.mockResolvedValue(null);
+
+      await expect(service.markRead('notification-9', operator)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('markAllRead', () => {
+    it('should return the number of notifications marked', async () => {
+      query.mockResolvedValue([[], 4]);
+
+      const result = await service.markAllRead(operator);
+
+      expect(query).toHaveBeenCalledWith(expect.any(String), ['operator-1', UserRole.OPERATOR]);
+      expect(result).toEqual({ updated: 4 });
+    });
+  });
+});
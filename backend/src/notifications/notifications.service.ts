@@ -0,0 +1,117 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { Notification, NotificationType } from './entities/notification.entity';
+import { NotificationQueryDto } from './dto/notification-query.dto';
+import { User, UserRole } from '../modules/users/entities/user.entity';
+
+export interface NotificationRecipients {
+  userIds?: string[];
+  roles?: UserRole[];
+  /** Recipients that must not see it, e.g. with the web channel off */
+  mutedUserIds?: string[];
+}
+
+/** A stored notification as one user sees it */
+export interface NotificationItem {
+  id: string;
+  type: NotificationType;
+  data: Record<string, unknown>;
+  timestamp: Date;
+  read: boolean;
+}
+
+@Injectable()
+export class NotificationsService {
+  constructor(
+    @InjectRepository(Notification)
+    private readonly notificationRepository: Repository<Notification>,
+  ) {}
+
+  async create(type: NotificationType, data: object, recipients: NotificationRecipients): Promise<Notification> {
+    const notification = this.notificationRepository.create({
+      type,
+      // Round-trip through JSON so dates and relations are stored as they were emitted
+      data: JSON.parse(JSON.stringify(data)),
+      recipientUserIds: recipients.userIds || [],
+      recipientRoles: recipients.roles || [],
+      mutedUserIds: recipients.mutedUserIds || [],
+      readBy: [],
+    });
+    return this.notificationRepository.save(notification);
+  }
+
+  async findForUser(
+    user: User,
+    query: NotificationQueryDto,
+  ): Promise<{ data: NotificationItem[]; total: number; unreadCount: number }> {
+    const qb = this.visibleTo(user);
+    if (query.unreadOnly) {
+      this.whereUnread(qb, user);
+    }
+
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    qb.orderBy('n.createdAt', 'DESC').skip((page - 1) * limit).take(limit);
+
+    const [notifications, total] = await qb.getManyAndCount();
+    const unreadCount = await this.countUnread(user);
+    return { data: notifications.map((n) => this.toItem(n, user)), total, unreadCount };
+  }
+
+  async countUnread(user: User): Promise<number> {
+    return this.whereUnread(this.visibleTo(user), user).getCount();
+  }
+
+  async markRead(id: string, user: User): Promise<NotificationItem> {
+    const notification = await this.visibleTo(user).andWhere('n.id = :id', { id }).getOne();
+    if (!notification) {
+      throw new NotFoundException('Notification not found');
+    }
+
+    if (!notification.readBy.includes(user.id)) {
+      await this.notificationRepository.manager.query(
+        `UPDATE notifications SET read_by = array_append(read_by, $2)
+         WHERE id = $1 AND NOT ($2 = ANY(read_by))`,
+        [id, user.id],
+      );
+      notification.readBy = [...notification.readBy, user.id];
+    }
+    return this.toItem(notification, user);
+  }
+
+  async markAllRead(user: User): Promise<{ updated: number }> {
+    const [, updated] = await this.notificationRepository.manager.query(
+      `UPDATE notifications SET read_by = array_append(read_by, $1)
+       WHERE ($1 = ANY(recipient_user_ids) OR $2 = ANY(recipient_roles))
+         AND NOT ($1 = ANY(muted_user_ids))
+         AND NOT ($1 = ANY(read_by))`,
+      [user.id, user.role],
+    );
+    return { updated: Number(updated) || 0 };
+  }
+
+  private visibleTo(user: User): SelectQueryBuilder<Notification> {
+    return this.notificationRepository
+      .createQueryBuilder('n')
+      .where('(:userId = ANY(n.recipientUserIds) OR :role = ANY(n.recipientRoles))', {
+        userId: user.id,
+        role: user.role,
+      })
+      .andWhere('NOT (:userId = ANY(n.mutedUserIds))');
+  }
+
+  private whereUnread(qb: SelectQueryBuilder<Notification>, user: User): SelectQueryBuilder<Notification> {
+    return qb.andWhere('NOT (:readerId = ANY(n.readBy))', { readerId: user.id });
+  }
+
+  private toItem(notification: Notification, user: User): NotificationItem {
+    return {
+      id: notification.id,
+      type: notification.type,
+      data: notification.data,
+      timestamp: notification.createdAt,
+      read: notification.readBy.includes(user.id),
+    };
+  }
+}
@@ -337,6 +337,7 @@ describe('SessionStorage', () => {
         'awaiting_location',
         'confirming',
         'entering_amount',
+        'entering_denominations',
         'searching_machine',
         'creating_machine_code',
         'creating_machine_name',
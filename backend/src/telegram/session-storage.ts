@@ -14,6 +14,7 @@ export interface SessionData {
     | 'awaiting_location'
     | 'confirming'
     | 'entering_amount'
+    | 'entering_denominations'
     | 'searching_machine'
     | 'creating_machine_code'
     | 'creating_machine_name'
@@ -22,7 +23,8 @@ export interface SessionData {
     | 'editing_text'
     | 'editing_machine_code'
     | 'editing_machine_name'
-    | 'editing_machine_location';
+    | 'editing_machine_location'
+    | 'awaiting_route_location';
   selectedMachineId?: string;
   collectionTime?: Date;
   pendingCollectionId?: string;
@@ -6,6 +6,10 @@ import { InvitesService } from '../modules/invites/invites.service';
 import { MachinesService } from '../modules/machines/machines.service';
 import { CollectionsService } from '../modules/collections/collections.service';
 import { SettingsService } from '../modules/settings/settings.service';
+import { CashForecastService } from '../modules/machines/cash-forecast.service';
+import { RoutePlannerService } from '../modules/machines/route-planner.service';
+import { NotificationPreferencesService } from '../notifications/notification-preferences.service';
+import { NotificationChannel, NotificationEvent } from '../notifications/entities/notification-preference.entity';
 import { User, UserRole } from '../modules/users/entities/user.entity';
 
 // Mock grammy Bot
@@ -38,6 +42,7 @@ describe('TelegramService', () => {
   let service: TelegramService;
   let usersService: jest.Mocked<UsersService>;
   let configService: jest.Mocked<ConfigService>;
+  let preferencesService: jest.Mocked<NotificationPreferencesService>;
 
   const mockUser: User = {
     id: 'user-123',
@@ -121,12 +126,36 @@ describe('TelegramService', () => {
             set: jest.fn(),
           },
         },
+        {
+          provide: CashForecastService,
+          useValue: {
+            getForecast: jest.fn(),
+          },
+        },
+        {
+          provide: RoutePlannerService,
+          useValue: {
+            plan: jest.fn(),
+          },
+        },
+        {
+          provide: NotificationPreferencesService,
+          useValue: {
+            filterRecipients: jest.fn().mockImplementation(async (users) => users),
+            splitRecipients: jest.fn().mockImplementation(async (users) => ({ ready: users, deferred: [] })),
+            deferTelegram: jest.fn().mockResolvedValue(undefined),
+            takeDueTelegram: jest.fn().mockResolvedValue([]),
+            getForUser: jest.fn(),
+            update: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
     service = module.get<TelegramService>(TelegramService);
     usersService = module.get(UsersService);
     configService = module.get(ConfigService);
+    preferencesService = module.get(NotificationPreferencesService);
   });
 
   it('should be defined', () => {
@@ -150,6 +179,9 @@ describe('TelegramService', () => {
           { provide: MachinesService, useValue: {} },
           { provide: CollectionsService, useValue: {} },
           { provide: SettingsService, useValue: {} },
+          { provide: CashForecastService, useValue: {} },
+          { provide: RoutePlannerService, useValue: {} },
+          { provide: NotificationPreferencesService, useValue: {} },
         ],
       }).compile();
 
@@ -185,6 +217,9 @@ describe('TelegramService', () => {
           { provide: MachinesService, useValue: {} },
           { provide: CollectionsService, useValue: {} },
           { provide: SettingsService, useValue: {} },
+          { provide: CashForecastService, useValue: {} },
+          { provide: RoutePlannerService, useValue: {} },
+          { provide: NotificationPreferencesService, useValue: {} },
         ],
       }).compile();
 
@@ -282,6 +317,22 @@ describe('TelegramService', () => {
       ).resolves.not.toThrow();
     });
 
+    it('should skip managers who turned the Telegram channel off', async () => {
+      usersService.findAllActive.mockResolvedValue([mockManager]);
+      preferencesService.filterRecipients.mockResolvedValue([]);
+
+      const bot = (service as any).bot;
+
+      await service.notifyManagersAboutNewCollection('Machine-001', 'Operator Name', new Date());
+
+      expect(preferencesService.filterRecipients).toHaveBeenCalledWith(
+        [mockManager],
+        'collection_created',
+        'telegram',
+      );
+      expect(bot.api.sendMessage).not.toHaveBeenCalled();
+    });
+
     it('should not throw when no managers found', async () => {
       usersService.findAllActive.mockResolvedValue([]);
 
@@ -295,6 +346,136 @@ describe('TelegramService', () => {
     });
   });
 
+  describe('pending collection escalation', () => {
+    const stale = {
+      collectedAt: new Date('2024-01-15T10:30:00Z'),
+      machine: { name: 'Lobby <1>', code: 'M-1' },
+      operator: { name: 'Operator Name' },
+    };
+
+    beforeEach(async () => {
+      await service.onModuleInit();
+      (service as any).bot.api.sendMessage.mockResolvedValue({ message_id: 1 });
+    });
+
+    it('should remind the operator about overdue collections', async () => {
+      const bot = (service as any).bot;
+
+      const delivered = await service.remindOperatorAboutPendingCollections(mockUser, [stale], 24);
+
+      expect(delivered).toBe(true);
+      expect(bot.api.sendMessage).toHaveBeenCalledWith(
+        mockUser.telegramId,
+        expect.stringContaining('Lobby &lt;1&gt;'),
+        expect.any(Object),
+      );
+      expect(bot.api.sendMessage.mock.calls[0][1]).toContain('дольше 24 ч');
+    });
+
+    it('should not remind an operator without Telegram', async () => {
+      const delivered = await service.remindOperatorAboutPendingCollections({ telegramId: null as any }, [stale], 24);
+
+      expect(delivered).toBe(false);
+      expect((service as any).bot.api.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should alert the managers their preferences allow', async () => {
+      usersService.findAllActive.mockResolvedValue([mockManager]);
+      preferencesService.filterRecipients.mockResolvedValue([mockManager]);
+      const bot = (service as any).bot;
+
+      const delivered = await service.alertManagersAboutStaleCollections([stale], 36);
+
+      expect(delivered).toBe(1);
+      expect(preferencesService.filterRecipients).toHaveBeenCalledWith(
+        [mockManager],
+        NotificationEvent.COLLECTION_OVERDUE,
+        NotificationChannel.TELEGRAM,
+      );
+      expect(bot.api.sendMessage).toHaveBeenCalledWith(
+        mockManager.telegramId,
+        expect.stringContaining('Инкассации не приняты'),
+        expect.any(Object),
+      );
+    });
+
+    it('should report no deliveries when every manager muted the alert', async () => {
+      usersService.findAllActive.mockResolvedValue([mockManager]);
+      preferencesService.filterRecipients.mockResolvedValue([]);
+
+      const delivered = await service.alertManagersAboutStaleCollections([stale], 36);
+
+      expect(delivered).toBe(0);
+      expect((service as any).bot.api.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('notifyReconciliationShortages', () => {
+    const shortage = {
+      machineName: 'Lobby',
+      machineCode: 'M-1',
+      periodStart: '2025-02-01T10:00:00.000Z',
+      periodEnd: '2025-02-02T10:00:00.000Z',
+      expectedAmount: 100000,
+      actualAmount: 80000,
+      difference: 20000,
+      percentDeviation: 20,
+    };
+
+    beforeEach(async () => {
+      await service.onModuleInit();
+    });
+
+    it('should return how many managers got the alert', async () => {
+      usersService.findAllActive.mockResolvedValue([mockManager]);
+      preferencesService.splitRecipients.mockResolvedValue({ ready: [mockManager], deferred: [] });
+      (service as any).bot.api.sendMessage.mockResolvedValue({ message_id: 1 });
+
+      await expect(service.notifyReconciliationShortages([shortage])).resolves.toBe(1);
+    });
+
+    it('should return 0 when preferences leave no recipients', async () => {
+      usersService.findAllActive.mockResolvedValue([mockManager]);
+      preferencesService.splitRecipients.mockResolvedValue({ ready: [], deferred: [] });
+
+      await expect(service.notifyReconciliationShortages([shortage])).resolves.toBe(0);
+      expect((service as any).bot.api.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should queue the alert for managers in quiet hours and count them as reached', async () => {
+      const until = new Date('2025-10-16T03:00:00Z');
+      usersService.findAllActive.mockResolvedValue([mockManager]);
+      preferencesService.splitRecipients.mockResolvedValue({ ready: [], deferred: [{ user: mockManager, until }] });
+
+      await expect(service.notifyReconciliationShortages([shortage])).resolves.toBe(1);
+      expect((service as any).bot.api.sendMessage).not.toHaveBeenCalled();
+      expect(preferencesService.deferTelegram).toHaveBeenCalledWith([
+        { userId: 'manager-123', text: expect.stringContaining('Lobby'), deliverAt: until },
+      ]);
+    });
+  });
+
+  describe('deliverDeferredMessages', () => {
+    beforeEach(async () => {
+      await service.onModuleInit();
+    });
+
+    it('should send due messages to users still linked and active', async () => {
+      preferencesService.takeDueTelegram.mockResolvedValue([
+        { id: 'm-1', userId: mockManager.id, user: mockManager, text: 'Shortage' },
+        { id: 'm-2', userId: 'gone', user: { ...mockManager, isActive: false }, text: 'Shortage' },
+      ] as any);
+      (service as any).bot.api.sendMessage.mockResolvedValue({ message_id: 1 });
+
+      await service.deliverDeferredMessages();
+
+      expect((service as any).bot.api.sendMessage).toHaveBeenCalledTimes(1);
+      expect((service as any).bot.api.sendMessage).toHaveBeenCalledWith(mockManager.telegramId, 'Shortage', {
+        parse_mode: 'HTML',
+      });
+    });
+  });
+
   describe('escapeHtml (via message formatting)', () => {
     // escapeHtml is private, but we can test it indirectly
     // by checking that HTML special characters don't break message sending
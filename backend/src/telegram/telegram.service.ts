@@ -1,15 +1,30 @@
 import { Injectable, OnModuleInit, OnModuleDestroy, Logger, Inject, forwardRef } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { Bot, InlineKeyboard, Keyboard, session, Context, SessionFlavor } from 'grammy';
 import { limit } from '@grammyjs/ratelimiter';
 import { UsersService } from '../modules/users/users.service';
 import { InvitesService } from '../modules/invites/invites.service';
 import { MachinesService } from '../modules/machines/machines.service';
+import { CashForecastService } from '../modules/machines/cash-forecast.service';
+import { RoutePlannerService, PlannedRoute } from '../modules/machines/route-planner.service';
 import { CollectionsService } from '../modules/collections/collections.service';
 import { SettingsService, SETTING_KEYS } from '../modules/settings/settings.service';
+import { NotificationPreferencesService, NotificationPreferencesView } from '../notifications/notification-preferences.service';
+import { NotificationChannel, NotificationEvent } from '../notifications/entities/notification-preference.entity';
 import { User, UserRole } from '../modules/users/entities/user.entity';
 import { Machine, MachineStatus } from '../modules/machines/entities/machine.entity';
+import { Collection } from '../modules/collections/entities/collection.entity';
+import { isOverdue } from '../modules/collections/collection-escalation.service';
 import { createSessionStorage, SessionData } from './session-storage';
+import {
+  BASE_CURRENCY,
+  findInvalidDenomination,
+  formatDenominations,
+  parseDenominationInput,
+  sumDenominations,
+} from '../common/utils/denominations';
+import { PG_TASHKENT_TZ } from '../common/utils/timezone';
 
 type MyContext = Context & SessionFlavor<SessionData> & { user?: User };
 
@@ -17,6 +32,26 @@ type MyContext = Context & SessionFlavor<SessionData> & { user?: User };
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 const isValidUUID = (str: string): boolean => UUID_REGEX.test(str);
 
+const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, string> = {
+  [NotificationEvent.COLLECTION_CREATED]: '📥 Новая инкассация',
+  [NotificationEvent.COLLECTION_RECEIVED]: '✅ Инкассация принята',
+  [NotificationEvent.COLLECTION_CANCELLED]: '❌ Инкассация отменена',
+  [NotificationEvent.MACHINE_APPROVED]: '🎉 Автомат одобрен',
+  [NotificationEvent.MACHINE_REJECTED]: '⛔ Автомат отклонён',
+  [NotificationEvent.MACHINE_PENDING]: '🔍 Автомат на модерации',
+  [NotificationEvent.RECONCILIATION_SHORTAGE]: '⚠️ Недостача при сверке',
+  [NotificationEvent.COLLECTION_OVERDUE]: '🔥 Инкассация не сдана вовремя',
+  [NotificationEvent.DIGEST]: '📊 Дайджест',
+};
+
+// Presets the bot cycles through; the web settings page takes any time
+const QUIET_HOURS_PRESETS: Array<[string, string] | null> = [
+  null,
+  ['22:00', '08:00'],
+  ['23:00', '07:00'],
+  ['21:00', '09:00'],
+];
+
 // Helper to extract error message from unknown error type
 const getErrorMessage = (error: unknown): string => {
   if (error instanceof Error) return error.message;
@@ -37,6 +72,9 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
     @Inject(forwardRef(() => CollectionsService))
     private readonly collectionsService: CollectionsService,
     private readonly settingsService: SettingsService,
+    private readonly cashForecastService: CashForecastService,
+    private readonly routePlannerService: RoutePlannerService,
+    private readonly notificationPreferencesService: NotificationPreferencesService,
   ) { }
 
   async onModuleInit() {
@@ -156,6 +194,7 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
           { command: 'collect', description: '📦 Новый сбор' },
           { command: 'mycollections', description: '📋 Мои сборы за сегодня' },
           { command: 'pending', description: '📥 Ожидают приёма' },
+          { command: 'route', description: '🗺 Кого собрать сегодня' },
           { command: 'help', description: '❓ Помощь' },
         ]).catch(err => this.logger.warn('Failed to set bot commands:', err));
 
@@ -311,15 +350,20 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
       `${distanceLine}\n\n` +
       `<i>Ожидает приёма в системе.</i>`;
 
-    for (const manager of managers) {
-      if (manager.telegramId) {
-        await this.sendMessage(manager.telegramId, message);
-      }
+    const recipients = await this.notificationPreferencesService.filterRecipients(
+      managers.filter((m) => m.telegramId),
+      NotificationEvent.COLLECTION_CREATED,
+      NotificationChannel.TELEGRAM,
+    );
+    for (const manager of recipients) {
+      await this.sendMessage(manager.telegramId, message);
     }
   }
 
   /**
-   * Notify managers about significant reconciliation shortages (>10%)
+   * Notify managers about significant reconciliation shortages (>10%).
+   * Managers in their quiet hours get it when the hours end. Returns how
+   * many of them got the message or have it queued.
    */
   async notifyReconciliationShortages(
     shortages: Array<{
@@ -332,11 +376,11 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
       difference: number;
       percentDeviation: number;
     }>,
-  ): Promise<void> {
-    if (shortages.length === 0) return;
+  ): Promise<number> {
+    if (shortages.length === 0) return 0;
 
     const managers = await this.usersService.findAllActive([UserRole.MANAGER, UserRole.ADMIN]);
-    if (managers.length === 0) return;
+    if (managers.length === 0) return 0;
 
     const formatNum = (n: number) => new Intl.NumberFormat('ru-RU').format(Math.round(n));
 
@@ -359,13 +403,111 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
       `${lines.join('\n\n')}${more}\n\n` +
       `<i>Откройте раздел «Продажи → Сверка» для деталей.</i>`;
 
-    for (const manager of managers) {
-      if (manager.telegramId) {
-        await this.sendMessage(manager.telegramId, message);
+    // The nightly run falls into most quiet hours, so the alert waits for them to end
+    const { ready, deferred } = await this.notificationPreferencesService.splitRecipients(
+      managers.filter((m) => m.telegramId),
+      NotificationEvent.RECONCILIATION_SHORTAGE,
+      NotificationChannel.TELEGRAM,
+    );
+    let delivered = 0;
+    for (const manager of ready) {
+      if (await this.sendMessage(manager.telegramId, message)) delivered++;
+    }
+    await this.notificationPreferencesService.deferTelegram(
+      deferred.map(({ user, until }) => ({ userId: user.id, text: message, deliverAt: until })),
+    );
+
+    this.logger.log(
+      `Reconciliation shortage alerts sent to ${delivered}/${ready.length} managers, ${deferred.length} queued for after quiet hours`,
+    );
+    return delivered + deferred.length;
+  }
+
+  /** Send the messages held back by quiet hours that have ended */
+  @Cron(CronExpression.EVERY_10_MINUTES, { timeZone: PG_TASHKENT_TZ })
+  async deliverDeferredMessages() {
+    try {
+      const due = await this.notificationPreferencesService.takeDueTelegram();
+      let delivered = 0;
+      for (const message of due) {
+        // Unlinked from Telegram or deactivated while the message waited
+        if (!message.user?.telegramId || !message.user.isActive) continue;
+        if (await this.sendMessage(message.user.telegramId, message.text)) delivered++;
+      }
+      if (due.length > 0) {
+        this.logger.log(`Deferred messages delivered: ${delivered}/${due.length}`);
       }
+    } catch (error) {
+      this.logger.error('Failed to deliver deferred messages:', error);
     }
+  }
+
+  /**
+   * First escalation step: remind an operator to hand over cash for
+   * collections still waiting past the SLA. Returns whether it was delivered.
+   */
+  async remindOperatorAboutPendingCollections(
+    operator: Pick<User, 'telegramId'>,
+    collections: Array<Pick<Collection, 'collectedAt'> & { machine: Pick<Machine, 'name'> }>,
+    slaHours: number,
+  ): Promise<boolean> {
+    if (collections.length === 0 || !operator.telegramId) return false;
+
+    const lines = collections.slice(0, 10).map(
+      (c) =>
+        `  • <b>${this.escapeHtml(c.machine.name)}</b> — ` +
+        `${c.collectedAt.toLocaleString('ru-RU', { timeZone: 'Asia/Tashkent' })}`,
+    );
+    const more = collections.length > 10 ? `\n  ... и ещё ${collections.length - 10}` : '';
+
+    const message =
+      `⏰ <b>Сдайте наличные</b>\n\n` +
+      `Эти инкассации ждут приёма дольше ${slaHours} ч:\n\n` +
+      `${lines.join('\n')}${more}\n\n` +
+      `<i>Передайте деньги менеджеру, иначе о задержке узнают менеджеры и администратор.</i>`;
+
+    return this.sendMessage(operator.telegramId, message);
+  }
+
+  /**
+   * Second escalation step: tell managers and admins about collections still
+   * pending long after the SLA. Returns how many of them got the alert.
+   */
+  async alertManagersAboutStaleCollections(
+    collections: Array<
+      Pick<Collection, 'collectedAt'> & { machine: Pick<Machine, 'name' | 'code'>; operator: Pick<User, 'name'> }
+    >,
+    slaHours: number,
+  ): Promise<number> {
+    if (collections.length === 0) return 0;
+
+    const managers = await this.notificationPreferencesService.filterRecipients(
+      (await this.usersService.findAllActive([UserRole.MANAGER, UserRole.ADMIN])).filter((m) => m.telegramId),
+      NotificationEvent.COLLECTION_OVERDUE,
+      NotificationChannel.TELEGRAM,
+    );
+    if (managers.length === 0) return 0;
+
+    const lines = collections.slice(0, 10).map(
+      (c) =>
+        `  • <b>${this.escapeHtml(c.machine.name)}</b> (${this.escapeHtml(c.machine.code)})\n` +
+        `    👤 ${this.escapeHtml(c.operator.name)}, ` +
+        `${c.collectedAt.toLocaleString('ru-RU', { timeZone: 'Asia/Tashkent' })}`,
+    );
+    const more = collections.length > 10 ? `\n\n... и ещё ${collections.length - 10}` : '';
+
+    const message =
+      `🔥 <b>Инкассации не приняты!</b>\n\n` +
+      `<b>${collections.length}</b> ждут приёма дольше ${slaHours} ч:\n\n` +
+      `${lines.join('\n\n')}${more}\n\n` +
+      `<i>Откройте «Приём» в боте или на сайте.</i>`;
 
-    this.logger.log(`Reconciliation shortage alerts sent to ${managers.filter((m) => m.telegramId).length} managers`);
+    let delivered = 0;
+    for (const manager of managers) {
+      if (await this.sendMessage(manager.telegramId, message)) delivered++;
+    }
+    this.logger.log(`Stale collection alert sent to ${delivered}/${managers.length} managers`);
+    return delivered;
   }
 
   private setupHandlers() {
@@ -577,7 +719,7 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
       pending.slice(0, 8).forEach((c) => {
         const time = this.formatTime(c.collectedAt);
         const displayName = c.machine.name.length > 18 ? c.machine.name.slice(0, 16) + '..' : c.machine.name;
-        keyboard.text(`⏳ ${time}  ${displayName}`, `receive_${c.id}_0`).row();
+        keyboard.text(`${isOverdue(c) ? '🔥' : '⏳'} ${time}  ${displayName}`, `receive_${c.id}_0`).row();
       });
       if (pending.length > 8) {
         keyboard.text(`📋 Все (${pending.length})`, 'pending_collections_0').row();
@@ -588,8 +730,66 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
         `╭─────────────────────╮\n` +
         `│  📥  <b>ПРИЁМ</b>\n` +
         `╰─────────────────────╯\n\n` +
-        `Ожидают: <b>${pending.length}</b>\n\n` +
-        `Выберите для приёма:`,
+        `Ожидают: <b>${pending.length}</b>\n` +
+        this.formatOverdueLine(pending) +
+        `\nВыберите для приёма:`,
+        {
+          parse_mode: 'HTML',
+          reply_markup: keyboard,
+        },
+      );
+    });
+
+    // /route - Machines expected to fill up today, most urgent first
+    this.bot.command('route', async (ctx) => {
+      if (!ctx.user) return;
+      const forecast = await this.cashForecastService.getForecast();
+      const route = forecast.filter((f) => f.collectToday);
+
+      const formatForecast = (f: (typeof forecast)[number], index: number) => {
+        const fill = f.fillPercent !== null ? ` · ${Math.round(f.fillPercent)}%` : '';
+        const location = f.machine.location ? `\n     📍 ${this.escapeHtml(f.machine.location)}` : '';
+        return `${index + 1}. <b>${this.escapeHtml(f.machine.name)}</b> (${this.escapeHtml(f.machine.code)})` +
+          location +
+          `\n     💰 ~${Math.round(f.expectedCash).toLocaleString('ru-RU')} сум${fill}`;
+      };
+
+      if (route.length === 0) {
+        const upcoming = forecast.filter((f) => f.daysUntilFull !== null).slice(0, 3);
+        const next = upcoming.length > 0
+          ? `\n\n<b>Ближайшие:</b>\n\n` + upcoming
+            .map((f, i) => `${formatForecast(f, i)}\n     ⏳ заполнится через ~${Math.ceil(f.daysUntilFull!)} дн.`)
+            .join('\n')
+          : '';
+        await ctx.reply(
+          `╭─────────────────────╮\n` +
+          `│  🗺  <b>МАРШРУТ</b>\n` +
+          `╰─────────────────────╯\n\n` +
+          `Сегодня срочных инкассаций нет 👍` +
+          next,
+          {
+            parse_mode: 'HTML',
+            reply_markup: new InlineKeyboard().text('🏠 Меню', 'main_menu'),
+          },
+        );
+        return;
+      }
+
+      const keyboard = new InlineKeyboard();
+      route.slice(0, 8).forEach((f) => {
+        const displayName = f.machine.name.length > 22 ? f.machine.name.slice(0, 20) + '..' : f.machine.name;
+        keyboard.text(`📦 ${displayName}`, `machine_${f.machine.id}`).row();
+      });
+      keyboard.text('🧭 Порядок объезда', 'route_plan').row();
+      keyboard.text('🏠 Меню', 'main_menu');
+
+      await ctx.reply(
+        `╭─────────────────────╮\n` +
+        `│  🗺  <b>МАРШРУТ</b>\n` +
+        `╰─────────────────────╯\n\n` +
+        `Собрать сегодня: <b>${route.length}</b>\n` +
+        `<i>Оценка по импортированным продажам</i>\n\n` +
+        route.slice(0, 15).map(formatForecast).join('\n\n'),
         {
           parse_mode: 'HTML',
           reply_markup: keyboard,
@@ -609,7 +809,8 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
         `<b>Команды:</b>\n\n` +
         `/start — Главное меню\n` +
         `/collect — Новый сбор\n` +
-        `/mycollections — Мои сборы сегодня\n`;
+        `/mycollections — Мои сборы сегодня\n` +
+        `/route — Кого собрать сегодня\n`;
 
       if (isManager) {
         helpText += `/pending — Приём инкассаций\n`;
@@ -642,6 +843,14 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
     // Handle text messages
     this.bot.on('message:text', async (ctx) => {
       // Handle cancel button from location request keyboard
+      if (ctx.message.text === '❌ Отмена' && ctx.session.step === 'awaiting_route_location') {
+        ctx.session.step = 'idle';
+        await ctx.reply('❌ Построение маршрута отменено', {
+          reply_markup: { remove_keyboard: true },
+        });
+        return;
+      }
+
       if (ctx.message.text === '❌ Отмена' && (ctx.session.step === 'awaiting_location' || ctx.session.step === 'setting_machine_location' || ctx.session.step === 'editing_machine_location')) {
         const wasCreatingMachine = ctx.session.step === 'setting_machine_location';
         const wasEditingLocation = ctx.session.step === 'editing_machine_location';
@@ -728,6 +937,69 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
         return;
       }
 
+      // Denomination breakdown input for receiving collection ("5000x10 1000x3")
+      if (ctx.session.step === 'entering_denominations' && ctx.session.pendingCollectionId && ctx.user) {
+        const denominations = parseDenominationInput(ctx.message.text);
+        const maxAmount = this.configService.get<number>('app.maxCollectionAmount') || 1_000_000_000;
+
+        if (!denominations || denominations.length === 0) {
+          await ctx.reply(
+            'Не удалось распознать. Формат: <code>номинал x количество</code>, например:\n' +
+            '<code>5000x10 10000x3 1000x5</code>',
+            { parse_mode: 'HTML' },
+          );
+          return;
+        }
+
+        const invalid = findInvalidDenomination(denominations);
+        if (invalid) {
+          await ctx.reply(`Неизвестный номинал: ${invalid.currency} ${invalid.value}`);
+          return;
+        }
+
+        const amount = sumDenominations(denominations);
+        if (amount <= 0) {
+          await ctx.reply(`Укажите хотя бы одну купюру в ${BASE_CURRENCY}`);
+          return;
+        }
+
+        if (amount > maxAmount) {
+          await ctx.reply(`Сумма не может превышать ${maxAmount.toLocaleString('ru-RU')} сум`);
+          return;
+        }
+
+        try {
+          await this.collectionsService.receive(ctx.session.pendingCollectionId, ctx.user.id, {
+            amount,
+            denominations,
+          });
+
+          ctx.session.step = 'idle';
+          ctx.session.pendingCollectionId = undefined;
+
+          await ctx.reply(
+            `╭─────────────────────╮\n` +
+            `│  ✅  <b>ПРИНЯТО</b>\n` +
+            `╰─────────────────────╯\n\n` +
+            `💰  <b>${amount.toLocaleString('ru-RU')}</b> сум\n` +
+            `🧮  ${this.escapeHtml(formatDenominations(denominations))}\n\n` +
+            `Инкассация успешно принята!`,
+            {
+              parse_mode: 'HTML',
+              reply_markup: new InlineKeyboard()
+                .text('📥 Ещё приём', 'pending_collections')
+                .text('🏠 Меню', 'main_menu'),
+            },
+          );
+        } catch (error: unknown) {
+          const safeError = this.escapeHtml(getErrorMessage(error));
+          await ctx.reply(`❌ Ошибка: ${safeError}`);
+          ctx.session.step = 'idle';
+          ctx.session.pendingCollectionId = undefined;
+        }
+        return;
+      }
+
       // Search machine - text input
       if (ctx.session.step === 'searching_machine' && ctx.user) {
         const query = ctx.message.text.trim();
@@ -1185,6 +1457,23 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
 
     // Handle location messages (for collection from operator)
     this.bot.on('message:location', async (ctx) => {
+      // Start point for the collection route
+      if (ctx.session.step === 'awaiting_route_location' && ctx.user) {
+        const { latitude, longitude } = ctx.message.location;
+        ctx.session.step = 'idle';
+
+        await ctx.reply('✅ Локация получена!', {
+          reply_markup: { remove_keyboard: true },
+        });
+        const route = await this.routePlannerService.plan({ startLatitude: latitude, startLongitude: longitude });
+        await ctx.reply(this.formatPlannedRoute(route), {
+          parse_mode: 'HTML',
+          link_preview_options: { is_disabled: true },
+          reply_markup: new InlineKeyboard().text('🏠 Меню', 'main_menu'),
+        });
+        return;
+      }
+
       // Operator: sending location for collection
       if (ctx.session.step === 'awaiting_location' && ctx.session.selectedMachineId && ctx.user) {
         const { latitude, longitude } = ctx.message.location;
@@ -1586,6 +1875,24 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
       );
     });
 
+    // Route order for today's machines: ask where the operator starts from
+    this.bot.callbackQuery('route_plan', async (ctx) => {
+      if (!ctx.user) return;
+      await ctx.answerCallbackQuery();
+      ctx.session.step = 'awaiting_route_location';
+
+      const locationKeyboard = new Keyboard()
+        .requestLocation('📍 Отправить локацию')
+        .row()
+        .text('❌ Отмена')
+        .resized()
+        .oneTime();
+
+      await ctx.reply('Отправьте геолокацию — маршрут начнётся отсюда:', {
+        reply_markup: locationKeyboard,
+      });
+    });
+
     // Noop handler (for "... more items" button)
     this.bot.callbackQuery('noop', async (ctx) => {
       if (!ctx.user) return;
@@ -2454,7 +2761,7 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
         const time = this.formatTime(c.collectedAt);
         // Truncate long names for button text (no HTML escaping needed for buttons)
         const displayName = c.machine.name.length > 18 ? c.machine.name.slice(0, 16) + '..' : c.machine.name;
-        keyboard.text(`⏳ ${time}  ${displayName}`, `receive_${c.id}_${page}`).row();
+        keyboard.text(`${isOverdue(c) ? '🔥' : '⏳'} ${time}  ${displayName}`, `receive_${c.id}_${page}`).row();
       });
 
       // Pagination buttons
@@ -2475,8 +2782,9 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
         `╭─────────────────────╮\n` +
         `│  📥  <b>ПРИЁМ</b>\n` +
         `╰─────────────────────╯\n\n` +
-        `Ожидают: <b>${pending.length}</b>\n\n` +
-        `Нажмите для приёма:`,
+        `Ожидают: <b>${pending.length}</b>\n` +
+        this.formatOverdueLine(pending) +
+        `\nНажмите для приёма:`,
         {
           parse_mode: 'HTML',
           reply_markup: keyboard,
@@ -2525,7 +2833,58 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
         `✏️ Введите сумму <i>(сум)</i>:`,
         {
           parse_mode: 'HTML',
-          reply_markup: new InlineKeyboard().text('❌ Отмена', `pending_collections_${returnPage}`),
+          reply_markup: new InlineKeyboard()
+            .text('🧮 По купюрам', `receive_denoms_${collection.id}_${returnPage}`)
+            .row()
+            .text('❌ Отмена', `pending_collections_${returnPage}`),
+        },
+      );
+    });
+
+    // Receive collection — denomination entry mode
+    this.bot.callbackQuery(/^receive_denoms_([a-f0-9-]+)_(\d+)$/, async (ctx) => {
+      if (!ctx.user) return;
+      if (ctx.user.role !== UserRole.MANAGER && ctx.user.role !== UserRole.ADMIN) {
+        await ctx.answerCallbackQuery('Недостаточно прав');
+        return;
+      }
+      await ctx.answerCallbackQuery();
+
+      const collectionId = ctx.match[1];
+      const returnPage = ctx.match[2];
+
+      if (!isValidUUID(collectionId)) {
+        await ctx.editMessageText('❌ Неверный ID инкассации');
+        return;
+      }
+      const collection = await this.collectionsService.findById(collectionId);
+      if (!collection) {
+        await ctx.editMessageText('❌ Инкассация не найдена');
+        return;
+      }
+
+      ctx.session.step = 'entering_denominations';
+      ctx.session.pendingCollectionId = collection.id;
+
+      const safeMachineName = this.escapeHtml(collection.machine.name);
+      const operatorBreakdown = formatDenominations(collection.denominations);
+
+      await ctx.editMessageText(
+        `╭─────────────────────╮\n` +
+        `│  🧮  <b>ПРИЁМ ПО КУПЮРАМ</b>\n` +
+        `╰─────────────────────╯\n\n` +
+        `🏧  <b>${safeMachineName}</b>\n` +
+        (operatorBreakdown ? `👤  Оператор: ${this.escapeHtml(operatorBreakdown)}\n` : '') +
+        `\n────────────────────\n` +
+        `✏️ Введите <i>номинал x количество</i>:\n` +
+        `<code>5000x10 10000x3 1000x5</code>\n\n` +
+        `<i>Иностранная валюта: USD 100x1 — не входит в сумму</i>`,
+        {
+          parse_mode: 'HTML',
+          reply_markup: new InlineKeyboard()
+            .text('✏️ Ввести сумму', `receive_${collection.id}_${returnPage}`)
+            .row()
+            .text('❌ Отмена', `pending_collections_${returnPage}`),
         },
       );
     });
@@ -3498,6 +3857,8 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
         {
           parse_mode: 'HTML',
           reply_markup: new InlineKeyboard()
+            .text('🔔 Уведомления', 'notif_prefs')
+            .row()
             .text('🚫 Деактивировать', 'confirm_deactivate')
             .row()
             .text('◀️ Назад', 'help'),
@@ -3505,6 +3866,62 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
       );
     });
 
+    // Notification preferences
+    this.bot.callbackQuery('notif_prefs', async (ctx) => {
+      if (!ctx.user) return;
+      await ctx.answerCallbackQuery();
+
+      const preferences = await this.notificationPreferencesService.getForUser(ctx.user);
+      await ctx.editMessageText(this.formatNotificationPreferences(preferences), {
+        parse_mode: 'HTML',
+        reply_markup: this.buildNotificationPreferencesKeyboard(preferences),
+      });
+    });
+
+    // Toggle one channel of one event
+    this.bot.callbackQuery(/^np_(telegram|web)_([a-z_]+)$/, async (ctx) => {
+      if (!ctx.user) return;
+
+      const channel = ctx.match[1] as NotificationChannel;
+      const event = ctx.match[2] as NotificationEvent;
+      const current = await this.notificationPreferencesService.getForUser(ctx.user);
+      const switches = current.events[event];
+      if (!switches) {
+        await ctx.answerCallbackQuery('Недоступно');
+        return;
+      }
+
+      const preferences = await this.notificationPreferencesService.update(ctx.user, {
+        events: { [event]: { [channel]: !switches[channel] } },
+      });
+      await ctx.answerCallbackQuery(switches[channel] ? 'Выключено' : 'Включено');
+      await ctx.editMessageText(this.formatNotificationPreferences(preferences), {
+        parse_mode: 'HTML',
+        reply_markup: this.buildNotificationPreferencesKeyboard(preferences),
+      });
+    });
+
+    // Cycle quiet hours through the presets
+    this.bot.callbackQuery('np_quiet', async (ctx) => {
+      if (!ctx.user) return;
+
+      const current = await this.notificationPreferencesService.getForUser(ctx.user);
+      const index = QUIET_HOURS_PRESETS.findIndex((p) =>
+        p ? p[0] === current.quietHoursStart && p[1] === current.quietHoursEnd : !current.quietHoursStart,
+      );
+      const next = QUIET_HOURS_PRESETS[(index + 1) % QUIET_HOURS_PRESETS.length];
+
+      const preferences = await this.notificationPreferencesService.update(ctx.user, {
+        quietHoursStart: next ? next[0] : null,
+        quietHoursEnd: next ? next[1] : null,
+      });
+      await ctx.answerCallbackQuery(next ? `${next[0]}–${next[1]}` : 'Тихие часы выключены');
+      await ctx.editMessageText(this.formatNotificationPreferences(preferences), {
+        parse_mode: 'HTML',
+        reply_markup: this.buildNotificationPreferencesKeyboard(preferences),
+      });
+    });
+
     // Confirm deactivation
     this.bot.callbackQuery('confirm_deactivate', async (ctx) => {
       if (!ctx.user) return;
@@ -3902,6 +4319,50 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
     return kb;
   }
 
+  private async wantsTelegram(user: User, event: NotificationEvent): Promise<boolean> {
+    const allowed = await this.notificationPreferencesService.filterRecipients(
+      [user],
+      event,
+      NotificationChannel.TELEGRAM,
+    );
+    return allowed.length > 0;
+  }
+
+  private formatNotificationPreferences(preferences: NotificationPreferencesView): string {
+    const mark = (on: boolean) => (on ? '✅' : '❌');
+    const lines = Object.entries(preferences.events).map(
+      ([event, switches]) =>
+        `${NOTIFICATION_EVENT_LABELS[event as NotificationEvent]}\n` +
+        `      TG ${mark(switches.telegram)}  ·  Веб ${mark(switches.web)}`,
+    );
+    const quiet = preferences.quietHoursStart
+      ? `${preferences.quietHoursStart}–${preferences.quietHoursEnd}`
+      : 'выключены';
+
+    return (
+      `╭─────────────────────╮\n` +
+      `│  🔔  <b>УВЕДОМЛЕНИЯ</b>\n` +
+      `╰─────────────────────╯\n\n` +
+      `${lines.join('\n')}\n\n` +
+      `────────────────────\n` +
+      `🌙  Тихие часы: <b>${quiet}</b>\n` +
+      `<i>В тихие часы бот молчит. Недостачи он пришлёт\nпосле них, остальное — только в веб-версии</i>`
+    );
+  }
+
+  private buildNotificationPreferencesKeyboard(preferences: NotificationPreferencesView): InlineKeyboard {
+    const kb = new InlineKeyboard();
+    for (const [event, switches] of Object.entries(preferences.events)) {
+      const icon = NOTIFICATION_EVENT_LABELS[event as NotificationEvent].split(' ')[0];
+      kb.text(`${icon} TG ${switches.telegram ? '✅' : '❌'}`, `np_telegram_${event}`)
+        .text(`${icon} Веб ${switches.web ? '✅' : '❌'}`, `np_web_${event}`)
+        .row();
+    }
+    kb.text('🌙 Тихие часы', 'np_quiet').row();
+    kb.text('◀️ Назад', 'settings');
+    return kb;
+  }
+
   private async notifyAdminNewMachine(machine: Machine, creator: User): Promise<void> {
     const adminTelegramId = this.configService.get<number>('admin.telegramId');
 
@@ -3910,6 +4371,11 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
       return;
     }
 
+    const admin = await this.usersService.findByTelegramId(adminTelegramId);
+    if (admin && !(await this.wantsTelegram(admin, NotificationEvent.MACHINE_PENDING))) {
+      return;
+    }
+
     const safeMachineName = this.escapeHtml(machine.name);
     const safeCreatorName = this.escapeHtml(creator.name);
     const safeUsername = creator.telegramUsername ? `@${this.escapeHtml(creator.telegramUsername)}` : '';
@@ -3941,6 +4407,7 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
     try {
       const creator = await this.usersService.findById(machine.createdById);
       if (!creator || !creator.telegramId) return;
+      if (!(await this.wantsTelegram(creator, NotificationEvent.MACHINE_APPROVED))) return;
 
       const safeMachineName = this.escapeHtml(machine.name);
       await this.bot.api.sendMessage(
@@ -3962,6 +4429,7 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
     try {
       const creator = await this.usersService.findById(machine.createdById);
       if (!creator || !creator.telegramId) return;
+      if (!(await this.wantsTelegram(creator, NotificationEvent.MACHINE_REJECTED))) return;
 
       const safeMachineName = this.escapeHtml(machine.name);
       const safeReason = machine.rejectionReason
@@ -4103,6 +4571,46 @@ export class TelegramService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /** Ordered stops with Google Maps links, for the /route flow */
+  private formatPlannedRoute(route: PlannedRoute): string {
+    const header =
+      `╭─────────────────────╮\n` +
+      `│  🧭  <b>ПОРЯДОК ОБЪЕЗДА</b>\n` +
+      `╰─────────────────────╯\n\n`;
+
+    if (route.stops.length === 0) {
+      return header + (route.skipped.length > 0
+        ? `У автоматов на маршруте не указаны координаты.`
+        : `Сегодня срочных инкассаций нет 👍`);
+    }
+
+    const formatKm = (meters: number) => (meters / 1000).toFixed(1).replace('.', ',');
+    const lines = route.stops.map((s) =>
+      `${s.order}. <a href="https://maps.google.com/?q=${s.latitude},${s.longitude}">${this.escapeHtml(s.machine.name)}</a>` +
+      ` (${this.escapeHtml(s.machine.code)}) — ${formatKm(s.distanceFromPreviousMeters)} км`,
+    );
+    const points = [
+      ...(route.start ? [route.start] : []),
+      ...route.stops,
+    ].map((p) => `${p.latitude},${p.longitude}`);
+
+    let text = header +
+      `Автоматов: <b>${route.stops.length}</b> · ~${formatKm(route.totalDistanceMeters)} км по прямой\n\n` +
+      lines.join('\n') +
+      `\n\n🗺 <a href="https://www.google.com/maps/dir/${points.join('/')}">Открыть весь маршрут</a>`;
+
+    if (route.skipped.length > 0) {
+      text += `\n\n⚠️ Без координат: ${route.skipped.map((m) => this.escapeHtml(m.name)).join(', ')}`;
+    }
+    return text;
+  }
+
+  /** "🔥 Просрочено: N" line for pending lists, empty when nothing is overdue */
+  private formatOverdueLine(pending: Collection[]): string {
+    const overdue = pending.filter(isOverdue).length;
+    return overdue > 0 ? `🔥 Просрочено: <b>${overdue}</b>\n` : '';
+  }
+
   private escapeHtml(text: string): string {
     // Escape special HTML characters
     return text
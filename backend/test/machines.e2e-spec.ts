@@ -3,6 +3,9 @@ import { INestApplication, ValidationPipe } from '@nestjs/common';
 import * as request from 'supertest';
 import { MachinesController } from '../src/modules/machines/machines.controller';
 import { MachinesService } from '../src/modules/machines/machines.service';
+import { MachineScorecardService } from '../src/modules/machines/machine-scorecard.service';
+import { CashForecastService } from '../src/modules/machines/cash-forecast.service';
+import { RoutePlannerService } from '../src/modules/machines/route-planner.service';
 import { Machine, MachineStatus } from '../src/modules/machines/entities/machine.entity';
 import { User, UserRole } from '../src/modules/users/entities/user.entity';
 import { JwtAuthGuard } from '../src/common/guards/jwt-auth.guard';
@@ -100,6 +103,24 @@ describe('MachinesController (e2e)', () => {
             activate: jest.fn(),
           },
         },
+        {
+          provide: MachineScorecardService,
+          useValue: {
+            getScorecard: jest.fn(),
+          },
+        },
+        {
+          provide: CashForecastService,
+          useValue: {
+            getForecast: jest.fn(),
+          },
+        },
+        {
+          provide: RoutePlannerService,
+          useValue: {
+            plan: jest.fn(),
+          },
+        },
       ],
     })
       .overrideGuard(JwtAuthGuard)
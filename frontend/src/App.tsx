@@ -15,9 +15,12 @@ const HistoryByDate = lazy(() => import('./pages/HistoryByDate'))
 const ExcelImport = lazy(() => import('./pages/ExcelImport'))
 const Reports = lazy(() => import('./pages/Reports'))
 const Machines = lazy(() => import('./pages/Machines'))
+const MachineScorecard = lazy(() => import('./pages/MachineScorecard'))
+const CollectionRoute = lazy(() => import('./pages/CollectionRoute'))
 const Users = lazy(() => import('./pages/Users'))
 const Sales = lazy(() => import('./pages/Sales'))
 const SettingsPage = lazy(() => import('./pages/SettingsPage'))
+const NotificationSettings = lazy(() => import('./pages/NotificationSettings'))
 const TelegramMapPicker = lazy(() => import('./pages/TelegramMapPicker'))
 
 function PageLoader() {
@@ -100,6 +103,22 @@ export default function App() {
             </ModuleRoute>
           }
         />
+        <Route
+          path="machines/route"
+          element={
+            <ModuleRoute module="machines">
+              <SuspenseWrapper><CollectionRoute /></SuspenseWrapper>
+            </ModuleRoute>
+          }
+        />
+        <Route
+          path="machines/:id"
+          element={
+            <ModuleRoute module="machines">
+              <SuspenseWrapper><MachineScorecard /></SuspenseWrapper>
+            </ModuleRoute>
+          }
+        />
         <Route
           path="users"
           element={
@@ -116,6 +135,7 @@ export default function App() {
             </ModuleRoute>
           }
         />
+        <Route path="settings/notifications" element={<SuspenseWrapper><NotificationSettings /></SuspenseWrapper>} />
       </Route>
 
       {/* Catch-all 404 */}
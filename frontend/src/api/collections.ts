@@ -21,12 +21,45 @@ export interface Collection {
   latitude?: number
   longitude?: number
   distanceFromMachine?: number
+  denominations?: DenominationCount[] | null
+  /** Reminders and alerts sent while it waited past the SLA */
+  escalations?: CollectionEscalation[]
+  createdAt: string
+}
+
+export interface CollectionEscalation {
+  level: 'operator_reminder' | 'manager_alert'
+  at: string
+  /** Telegram messages delivered */
+  notified: number
+}
+
+/** One manager receipt covering several collections of an operator */
+export interface CashHandover {
+  id: string
+  operatorId: string
+  managerId: string
+  totalAmount: number
+  collectionsCount: number
+  notes?: string | null
+  collections?: Collection[]
   createdAt: string
 }
 
 /** Distance threshold in meters — beyond this, collection is flagged */
 export const DISTANCE_WARNING_THRESHOLD = 50
 
+/** Banknote/coin count; UZS entries must add up to the collection amount */
+export interface DenominationCount {
+  currency?: string
+  value: number
+  count: number
+}
+
+/** UZS face values offered in the denomination entry mode (banknotes, then coins) */
+export const UZS_BANKNOTES = [200000, 100000, 50000, 20000, 10000, 5000, 2000, 1000]
+export const UZS_COINS = [500, 200, 100, 50]
+
 export interface CollectionQuery {
   status?: string
   machineId?: string
@@ -74,12 +107,27 @@ export const collectionsApi = {
     return response.data
   },
 
-  receive: async (id: string, data: { amount: number; notes?: string }): Promise<Collection> => {
+  handover: async (data: {
+    operatorId: string
+    items: { collectionId: string; amount: number }[]
+    notes?: string
+  }): Promise<CashHandover> => {
+    const response = await apiClient.post('/collections/handovers', data)
+    return response.data
+  },
+
+  receive: async (
+    id: string,
+    data: { amount: number; notes?: string; denominations?: DenominationCount[] },
+  ): Promise<Collection> => {
     const response = await apiClient.patch(`/collections/${id}/receive`, data)
     return response.data
   },
 
-  edit: async (id: string, data: { amount?: number; reason: string; notes?: string }): Promise<Collection> => {
+  edit: async (
+    id: string,
+    data: { amount?: number; reason: string; notes?: string; denominations?: DenominationCount[] },
+  ): Promise<Collection> => {
     const response = await apiClient.patch(`/collections/${id}/edit`, data)
     return response.data
   },
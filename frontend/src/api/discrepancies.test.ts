@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { discrepanciesApi } from './discrepancies'
+
+// Mock the client module
+vi.mock('./client', () => ({
+  apiClient: {
+    get: vi.fn(),
+    post: vi.fn(),
+    patch: vi.fn(),
+  },
+}))
+
+import { apiClient } from './client'
+
+const mockGet = vi.mocked(apiClient.get)
+const mockPost = vi.mocked(apiClient.post)
+const mockPatch = vi.mocked(apiClient.patch)
+
+describe('discrepanciesApi', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should pass filters as query params', async () => {
+    mockGet.mockResolvedValue({ data: { data: [], total: 0 } })
+
+    await discrepanciesApi.getAll({ collectionId: 'c1', activeOnly: true })
+
+    expect(mockGet).toHaveBeenCalledWith('/discrepancies', {
+      params: { collectionId: 'c1', activeOnly: true },
+      signal: undefined,
+    })
+  })
+
+  it('should patch case updates', async () => {
+    mockPatch.mockResolvedValue({ data: { id: 'd1', status: 'written_off' } })
+
+    const result = await discrepanciesApi.update('d1', { status: 'written_off', resolution: 'Ошибка продаж' })
+
+    expect(mockPatch).toHaveBeenCalledWith('/discrepancies/d1', { status: 'written_off', resolution: 'Ошибка продаж' })
+    expect(result.status).toBe('written_off')
+  })
+
+  it('should upload attachment as FormData', async () => {
+    mockPost.mockResolvedValue({ data: { id: 'a1' } })
+
+    const file = new File(['photo'], 'receipt.jpg', { type: 'image/jpeg' })
+    await discrepanciesApi.uploadAttachment('d1', file)
+
+    expect(mockPost).toHaveBeenCalledWith('/discrepancies/d1/attachments', expect.any(FormData), expect.objectContaining({
+      headers: { 'Content-Type': 'multipart/form-data' },
+    }))
+  })
+})
@@ -0,0 +1,136 @@
+import { apiClient } from './client'
+import { User } from './auth'
+import { Collection } from './collections'
+
+export type DiscrepancyKind = 'shortage' | 'overage'
+
+export type DiscrepancyStatus =
+  | 'open'
+  | 'investigating'
+  | 'explained'
+  | 'written_off'
+  | 'recovered_from_operator'
+
+export const CLOSED_DISCREPANCY_STATUSES: DiscrepancyStatus[] = [
+  'explained',
+  'written_off',
+  'recovered_from_operator',
+]
+
+export const DISCREPANCY_STATUS_LABELS: Record<DiscrepancyStatus, string> = {
+  open: 'Открыт',
+  investigating: 'Расследуется',
+  explained: 'Объяснено',
+  written_off: 'Списано',
+  recovered_from_operator: 'Взыскано с оператора',
+}
+
+export interface DiscrepancyComment {
+  id: string
+  caseId: string
+  authorId: string
+  author?: User
+  text: string | null
+  statusFrom: DiscrepancyStatus | null
+  statusTo: DiscrepancyStatus | null
+  createdAt: string
+}
+
+export interface DiscrepancyAttachment {
+  id: string
+  caseId: string
+  originalName: string
+  mimeType: string | null
+  fileSize: number
+  uploadedById: string
+  uploadedBy?: User
+  createdAt: string
+}
+
+export interface DiscrepancyCase {
+  id: string
+  collectionId: string
+  collection?: Collection
+  kind: DiscrepancyKind
+  status: DiscrepancyStatus
+  expectedAmount: number
+  actualAmount: number
+  difference: number
+  ownerId: string | null
+  owner?: User | null
+  resolution: string | null
+  recoveredAmount: number | null
+  createdById: string
+  createdBy?: User
+  closedAt: string | null
+  comments?: DiscrepancyComment[]
+  attachments?: DiscrepancyAttachment[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface DiscrepancyQuery {
+  status?: DiscrepancyStatus
+  activeOnly?: boolean
+  ownerId?: string
+  collectionId?: string
+  page?: number
+  limit?: number
+}
+
+export interface CreateDiscrepancyCaseData {
+  collectionId: string
+  kind: DiscrepancyKind
+  ownerId?: string
+  comment?: string
+}
+
+export interface UpdateDiscrepancyCaseData {
+  status?: DiscrepancyStatus
+  ownerId?: string | null
+  resolution?: string
+  recoveredAmount?: number
+  comment?: string
+}
+
+export const discrepanciesApi = {
+  getAll: async (query: DiscrepancyQuery = {}, signal?: AbortSignal): Promise<{ data: DiscrepancyCase[]; total: number }> => {
+    const response = await apiClient.get('/discrepancies', { params: query, signal })
+    return response.data
+  },
+
+  getById: async (id: string, signal?: AbortSignal): Promise<DiscrepancyCase> => {
+    const response = await apiClient.get(`/discrepancies/${id}`, { signal })
+    return response.data
+  },
+
+  create: async (data: CreateDiscrepancyCaseData): Promise<DiscrepancyCase> => {
+    const response = await apiClient.post('/discrepancies', data)
+    return response.data
+  },
+
+  update: async (id: string, data: UpdateDiscrepancyCaseData): Promise<DiscrepancyCase> => {
+    const response = await apiClient.patch(`/discrepancies/${id}`, data)
+    return response.data
+  },
+
+  addComment: async (id: string, text: string): Promise<DiscrepancyComment> => {
+    const response = await apiClient.post(`/discrepancies/${id}/comments`, { text })
+    return response.data
+  },
+
+  uploadAttachment: async (id: string, file: File): Promise<DiscrepancyAttachment> => {
+    const formData = new FormData()
+    formData.append('file', file)
+    const response = await apiClient.post(`/discrepancies/${id}/attachments`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      timeout: 60000,
+    })
+    return response.data
+  },
+
+  getAttachmentUrl: async (id: string, attachmentId: string): Promise<{ url: string; originalName: string }> => {
+    const response = await apiClient.get(`/discrepancies/${id}/attachments/${attachmentId}/url`)
+    return response.data
+  },
+}
@@ -1,15 +1,140 @@
 import { apiClient } from './client'
 
+export interface DepositAllocation {
+    id: string
+    depositId: string
+    collectionId: string
+    amount: number
+}
+
 export interface BankDeposit {
     id: string
     amount: number
     depositDate: string
     notes?: string
+    slipNumber?: string | null
+    bankAccount?: string | null
+    bankReference?: string | null
+    bankConfirmedAt?: string | null
+    cancelledAt?: string | null
     createdById: string
     createdBy: {
         id: string
         name: string
     }
+    allocations?: DepositAllocation[]
+}
+
+export interface DepositHistoryEntry {
+    id: string
+    depositId: string
+    fieldName: string
+    oldValue: string | null
+    newValue: string | null
+    reason: string
+    changedBy: {
+        id: string
+        name: string
+    }
+    createdAt: string
+}
+
+export interface EditDepositData {
+    amount?: number
+    date?: string
+    notes?: string
+    slipNumber?: string
+    bankAccount?: string
+    reason: string
+}
+
+export interface UnallocatedCollection {
+    collectionId: string
+    machineCode: string
+    machineName: string
+    operatorName: string
+    receivedAt: string
+    amount: number
+    allocated: number
+    remaining: number
+}
+
+export interface UnallocatedReport {
+    items: UnallocatedCollection[]
+    count: number
+    total: number
+}
+
+export type StatementLineStatus = 'matched' | 'confirmed' | 'unmatched'
+
+export interface StatementLine {
+    row: number
+    date: string
+    amount: number
+    reference: string | null
+    description: string | null
+    account: string | null
+    status: StatementLineStatus
+    depositId: string | null
+    depositDate: string | null
+}
+
+export interface StatementImportResult {
+    headerRow: number
+    columns: Record<string, number>
+    lines: StatementLine[]
+    summary: {
+        credits: number
+        matched: number
+        confirmed: number
+        unmatched: number
+        unmatchedAmount: number
+        debitsSkipped: number
+    }
+    errors: string[]
+}
+
+/** Column overrides: a 1-based number, a column letter or part of the header text */
+export interface StatementImportOptions {
+    headerRow?: number
+    dateWindowDays?: number
+    dateColumn?: string
+    creditColumn?: string
+    debitColumn?: string
+    referenceColumn?: string
+    descriptionColumn?: string
+}
+
+export type CashFlowGroupBy = 'day' | 'week' | 'month'
+
+export interface CashFlowQuery {
+    from?: string
+    to?: string
+    groupBy?: CashFlowGroupBy
+}
+
+export interface CashFlowPeriod {
+    start: string
+    end: string
+    opening: number
+    received: number
+    receivedCount: number
+    deposited: number
+    depositsCount: number
+    closing: number
+}
+
+export interface CashFlowReport {
+    from: string
+    to: string
+    groupBy: CashFlowGroupBy
+    periods: CashFlowPeriod[]
+    totals: {
+        opening: number
+        received: number
+        deposited: number
+        closing: number
+    }
 }
 
 export interface FinanceBalance {
@@ -18,12 +143,62 @@ export interface FinanceBalance {
     balance: number
 }
 
+export interface OperatorBalance {
+    operatorId: string
+    operatorName: string
+    pendingCount: number
+    declaredAmount: number
+    undeclaredCount: number
+    oldestCollectedAt: string
+    ageing: {
+        upTo24h: number
+        upTo72h: number
+        over72h: number
+    }
+    lastHandoverAt: string | null
+    collections: {
+        id: string
+        machineCode: string
+        machineName: string
+        collectedAt: string
+        declaredAmount: number | null
+    }[]
+}
+
+export interface OperatorBalances {
+    operators: OperatorBalance[]
+    totals: {
+        pendingCount: number
+        declaredAmount: number
+        over72h: number
+    }
+}
+
 export const financeApi = {
     getBalance: async (signal?: AbortSignal): Promise<FinanceBalance> => {
         const response = await apiClient.get('/finance/balance', { signal })
         return response.data
     },
 
+    getCashFlow: async (query: CashFlowQuery = {}, signal?: AbortSignal): Promise<CashFlowReport> => {
+        const response = await apiClient.get('/finance/cash-flow', { params: query, signal })
+        return response.data
+    },
+
+    exportCashFlow: async (query: CashFlowQuery = {}, signal?: AbortSignal): Promise<Blob> => {
+        const response = await apiClient.get('/finance/cash-flow/export', {
+            params: query,
+            responseType: 'blob',
+            signal,
+        })
+        return response.data
+    },
+
+    getOperatorBalances: async (signal?: AbortSignal): Promise<OperatorBalances> => {
+        const response = await apiClient.get('/finance/operators/balances', { signal })
+        return response.data
+    },
+
     getDeposits: async (signal?: AbortSignal): Promise<BankDeposit[]> => {
         const response = await apiClient.get('/finance/deposits', { signal })
         return response.data
@@ -33,8 +208,67 @@ export const financeApi = {
         amount: number
         date: string
         notes?: string
+        slipNumber?: string
+        bankAccount?: string
+        allocations?: { collectionId: string; amount: number }[]
     }): Promise<BankDeposit> => {
         const response = await apiClient.post('/finance/deposits', data)
         return response.data
     },
+
+    editDeposit: async (id: string, data: EditDepositData): Promise<BankDeposit> => {
+        const response = await apiClient.patch(`/finance/deposits/${id}`, data)
+        return response.data
+    },
+
+    cancelDeposit: async (id: string, reason: string): Promise<BankDeposit> => {
+        const response = await apiClient.patch(`/finance/deposits/${id}/cancel`, { reason })
+        return response.data
+    },
+
+    getDepositHistory: async (id: string, signal?: AbortSignal): Promise<DepositHistoryEntry[]> => {
+        const response = await apiClient.get(`/finance/deposits/${id}/history`, { signal })
+        return response.data
+    },
+
+    allocateDeposit: async (
+        id: string,
+        allocations: { collectionId: string; amount: number }[],
+    ): Promise<BankDeposit> => {
+        const response = await apiClient.post(`/finance/deposits/${id}/allocations`, { allocations })
+        return response.data
+    },
+
+    getUnallocated: async (
+        query: { from?: string; to?: string; limit?: number } = {},
+        signal?: AbortSignal,
+    ): Promise<UnallocatedReport> => {
+        const response = await apiClient.get('/finance/unallocated', { params: query, signal })
+        return response.data
+    },
+
+    importStatement: async (file: File, options: StatementImportOptions = {}): Promise<StatementImportResult> => {
+        const formData = new FormData()
+        formData.append('file', file)
+        for (const [key, value] of Object.entries(options)) {
+            if (value !== undefined && value !== '') formData.append(key, String(value))
+        }
+        const response = await apiClient.post('/finance/statements/import', formData, {
+            headers: { 'Content-Type': 'multipart/form-data' },
+            timeout: 60000,
+        })
+        return response.data
+    },
+
+    confirmStatement: async (lines: {
+        date: string
+        amount: number
+        reference?: string
+        description?: string
+        account?: string
+        depositId?: string
+    }[]): Promise<{ confirmed: number; created: number; skipped: number }> => {
+        const response = await apiClient.post('/finance/statements/confirm', { lines })
+        return response.data
+    },
 }
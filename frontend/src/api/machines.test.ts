@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { machinesApi } from './machines'
+
+// Mock the client module
+vi.mock('./client', () => ({
+  apiClient: {
+    get: vi.fn(),
+    post: vi.fn(),
+  },
+}))
+
+import { apiClient } from './client'
+
+const mockGet = vi.mocked(apiClient.get)
+const mockPost = vi.mocked(apiClient.post)
+
+describe('machinesApi', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should request the scorecard for a period', async () => {
+    mockGet.mockResolvedValue({ data: { machine: { id: 'm1' } } })
+
+    const result = await machinesApi.getScorecard('m1', { from: '2025-01-01', to: '2025-06-30' })
+
+    expect(mockGet).toHaveBeenCalledWith('/machines/m1/scorecard', {
+      params: { from: '2025-01-01', to: '2025-06-30' },
+      signal: undefined,
+    })
+    expect(result.machine.id).toBe('m1')
+  })
+
+  it('should request the cash forecast', async () => {
+    mockGet.mockResolvedValue({ data: [] })
+
+    await machinesApi.getCashForecast()
+
+    expect(mockGet).toHaveBeenCalledWith('/machines/cash-forecast', { signal: undefined })
+  })
+
+  it('should post the machines and start point to plan a route', async () => {
+    mockPost.mockResolvedValue({ data: { start: null, stops: [], totalDistanceMeters: 0, skipped: [] } })
+
+    await machinesApi.planRoute({ machineIds: ['m1', 'm2'], startLatitude: 41.3, startLongitude: 69.2 })
+
+    expect(mockPost).toHaveBeenCalledWith('/machines/route', {
+      machineIds: ['m1', 'm2'],
+      startLatitude: 41.3,
+      startLongitude: 69.2,
+    })
+  })
+})
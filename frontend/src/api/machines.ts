@@ -8,6 +8,8 @@ export interface Machine {
   latitude?: number
   longitude?: number
   isActive: boolean
+  cashRefundsFromBox: boolean
+  cashCapacity?: number | null
   status?: 'pending' | 'approved' | 'rejected'
   createdAt: string
   updatedAt: string
@@ -19,6 +21,8 @@ export interface CreateMachineData {
   location?: string
   latitude?: number
   longitude?: number
+  cashRefundsFromBox?: boolean
+  cashCapacity?: number | null
 }
 
 export interface UpdateMachineData {
@@ -28,6 +32,8 @@ export interface UpdateMachineData {
   latitude?: number
   longitude?: number
   isActive?: boolean
+  cashRefundsFromBox?: boolean
+  cashCapacity?: number | null
 }
 
 export interface MachineLocation {
@@ -60,6 +66,77 @@ export interface UpdateMachineLocationData {
   isCurrent?: boolean
 }
 
+export interface MachineScorecard {
+  machine: { id: string; code: string; name: string; location: string | null; isActive: boolean }
+  period: { from: string; to: string }
+  revenue: { total: number; cash: number; card: number; ordersCount: number; cashShare: number }
+  revenueTrend: { month: string; cash: number; card: number; total: number; ordersCount: number }[]
+  collections: {
+    count: number
+    totalAmount: number
+    averageDaysBetween: number | null
+    lastCollectedAt: string | null
+  }
+  discrepancies: {
+    reconciledCount: number
+    shortageCount: number
+    cumulativeShortage: number
+    overageCount: number
+    cumulativeOverage: number
+  }
+  distance: {
+    thresholdMeters: number
+    checkedCount: number
+    anomalies: { collectionId: string; collectedAt: string; distanceMeters: number; operatorName: string | null }[]
+  }
+  locations: {
+    id: string
+    address: string
+    validFrom: string
+    validTo: string | null
+    isCurrent: boolean
+    days: number
+    revenue: number
+    ordersCount: number
+    revenuePerDay: number
+  }[]
+}
+
+export interface MachineCashForecast {
+  machine: { id: string; code: string; name: string; location: string | null }
+  lastCollectedAt: string | null
+  lastSaleAt: string | null
+  importedCash: number
+  expectedCash: number
+  dailyAverage: number
+  cashCapacity: number | null
+  fillPercent: number | null
+  daysUntilFull: number | null
+  projectedFullAt: string | null
+  collectToday: boolean
+}
+
+export interface RouteStop {
+  order: number
+  machine: { id: string; code: string; name: string; location: string | null }
+  latitude: number
+  longitude: number
+  distanceFromPreviousMeters: number
+}
+
+export interface PlannedRoute {
+  start: { latitude: number; longitude: number } | null
+  stops: RouteStop[]
+  totalDistanceMeters: number
+  skipped: { id: string; code: string; name: string }[]
+}
+
+export interface PlanRouteData {
+  machineIds?: string[]
+  startLatitude?: number
+  startLongitude?: number
+}
+
 export const machinesApi = {
   getAll: async (activeOnly = true, signal?: AbortSignal, approvedOnly = false): Promise<Machine[]> => {
     const response = await apiClient.get('/machines', {
@@ -94,6 +171,25 @@ export const machinesApi = {
     return response.data
   },
 
+  getCashForecast: async (signal?: AbortSignal): Promise<MachineCashForecast[]> => {
+    const response = await apiClient.get('/machines/cash-forecast', { signal })
+    return response.data
+  },
+
+  planRoute: async (data: PlanRouteData): Promise<PlannedRoute> => {
+    const response = await apiClient.post('/machines/route', data)
+    return response.data
+  },
+
+  getScorecard: async (
+    id: string,
+    query: { from?: string; to?: string } = {},
+    signal?: AbortSignal,
+  ): Promise<MachineScorecard> => {
+    const response = await apiClient.get(`/machines/${id}/scorecard`, { params: query, signal })
+    return response.data
+  },
+
   // Machine Locations
   getLocations: async (machineId: string, signal?: AbortSignal): Promise<MachineLocation[]> => {
     const response = await apiClient.get(`/machines/${machineId}/locations`, { signal })
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { mailApi } from './mail'
+import { reportsApi } from './reports'
+
+vi.mock('./client', () => ({
+  apiClient: {
+    get: vi.fn(),
+    post: vi.fn(),
+  },
+}))
+
+import { apiClient } from './client'
+
+const mockGet = vi.mocked(apiClient.get)
+const mockPost = vi.mocked(apiClient.post)
+
+describe('mailApi', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should fetch whether SMTP is configured', async () => {
+    mockGet.mockResolvedValue({ data: { enabled: true } })
+
+    const result = await mailApi.getStatus()
+
+    expect(mockGet).toHaveBeenCalledWith('/mail/status', { signal: undefined })
+    expect(result.enabled).toBe(true)
+  })
+
+  it('should fetch the delivery log with paging params', async () => {
+    mockGet.mockResolvedValue({ data: { data: [], total: 0 } })
+
+    await mailApi.getDeliveries({ kind: 'digest', page: 2 })
+
+    expect(mockGet).toHaveBeenCalledWith('/mail/deliveries', { params: { kind: 'digest', page: 2 }, signal: undefined })
+  })
+})
+
+describe('reportsApi.emailExport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should post the recipients with the period as params', async () => {
+    mockPost.mockResolvedValue({ data: { id: 'd1', status: 'sent' } })
+
+    const result = await reportsApi.emailExport({ from: '2025-02-01', to: '2025-02-28' }, ['a@example.com'])
+
+    expect(mockPost).toHaveBeenCalledWith(
+      '/reports/export/email',
+      { recipients: ['a@example.com'] },
+      { params: { from: '2025-02-01', to: '2025-02-28' } },
+    )
+    expect(result.id).toBe('d1')
+  })
+})
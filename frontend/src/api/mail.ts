@@ -0,0 +1,31 @@
+import { apiClient } from './client'
+
+export type EmailKind = 'report' | 'reconciliation' | 'digest'
+
+export interface EmailDelivery {
+  id: string
+  kind: EmailKind
+  recipients: string[]
+  subject: string
+  status: 'sent' | 'failed'
+  messageId: string | null
+  error: string | null
+  attachments: { filename: string; size: number }[]
+  requestedById: string | null
+  createdAt: string
+}
+
+export const mailApi = {
+  getStatus: async (signal?: AbortSignal): Promise<{ enabled: boolean }> => {
+    const response = await apiClient.get('/mail/status', { signal })
+    return response.data
+  },
+
+  getDeliveries: async (
+    params: { kind?: EmailKind; page?: number; limit?: number } = {},
+    signal?: AbortSignal,
+  ): Promise<{ data: EmailDelivery[]; total: number }> => {
+    const response = await apiClient.get('/mail/deliveries', { params, signal })
+    return response.data
+  },
+}
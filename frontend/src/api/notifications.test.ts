@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { notificationsApi } from './notifications'
+
+vi.mock('./client', () => ({
+  apiClient: {
+    get: vi.fn(),
+    post: vi.fn(),
+    put: vi.fn(),
+  },
+}))
+
+import { apiClient } from './client'
+
+const mockGet = vi.mocked(apiClient.get)
+const mockPost = vi.mocked(apiClient.post)
+const mockPut = vi.mocked(apiClient.put)
+
+describe('notificationsApi', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should request a page of notifications', async () => {
+    mockGet.mockResolvedValue({ data: { data: [], total: 0, unreadCount: 2 } })
+
+    const result = await notificationsApi.getAll({ limit: 50 })
+
+    expect(mockGet).toHaveBeenCalledWith('/notifications', { params: { limit: 50 }, signal: undefined })
+    expect(result.unreadCount).toBe(2)
+  })
+
+  it('should mark a notification read', async () => {
+    mockPost.mockResolvedValue({ data: { id: 'n1', read: true } })
+
+    await notificationsApi.markRead('n1')
+
+    expect(mockPost).toHaveBeenCalledWith('/notifications/n1/read')
+  })
+
+  it('should mark all notifications read', async () => {
+    mockPost.mockResolvedValue({ data: { updated: 3 } })
+
+    const result = await notificationsApi.markAllRead()
+
+    expect(mockPost).toHaveBeenCalledWith('/notifications/read-all')
+    expect(result.updated).toBe(3)
+  })
+  it('should save notification preferences', async () => {
+    mockPut.mockResolvedValue({ data: { events: {}, quietHoursStart: '22:00', quietHoursEnd: '08:00', digestEmail: null } })
+
+    await notificationsApi.updatePreferences({ quietHoursStart: '22:00', quietHoursEnd: '08:00' })
+
+    expect(mockPut).toHaveBeenCalledWith('/notifications/preferences', {
+      quietHoursStart: '22:00',
+      quietHoursEnd: '08:00',
+    })
+  })
+})
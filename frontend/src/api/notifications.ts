@@ -0,0 +1,71 @@
+import { apiClient } from './client'
+import { NotificationData, NotificationType } from '../hooks/useNotifications'
+
+export interface StoredNotification {
+  id: string
+  type: NotificationType
+  data: NotificationData
+  timestamp: string
+  read: boolean
+}
+
+export interface NotificationsPage {
+  data: StoredNotification[]
+  total: number
+  unreadCount: number
+}
+
+export type NotificationEvent =
+  | StoredNotification['type']
+  | 'machine_pending'
+  | 'reconciliation_shortage'
+  | 'collection_overdue'
+  | 'digest'
+
+export type NotificationChannel = 'telegram' | 'web' | 'email'
+
+export type ChannelSwitches = Record<NotificationChannel, boolean>
+
+export interface NotificationPreferences {
+  events: Partial<Record<NotificationEvent, ChannelSwitches>>
+  quietHoursStart: string | null
+  quietHoursEnd: string | null
+  digestEmail: string | null
+}
+
+export interface UpdateNotificationPreferencesData {
+  events?: Partial<Record<NotificationEvent, Partial<ChannelSwitches>>>
+  quietHoursStart?: string | null
+  quietHoursEnd?: string | null
+  digestEmail?: string | null
+}
+
+export const notificationsApi = {
+  getAll: async (
+    query: { unreadOnly?: boolean; page?: number; limit?: number } = {},
+    signal?: AbortSignal,
+  ): Promise<NotificationsPage> => {
+    const response = await apiClient.get('/notifications', { params: query, signal })
+    return response.data
+  },
+
+  markRead: async (id: string): Promise<StoredNotification> => {
+    const response = await apiClient.post(`/notifications/${id}/read`)
+    return response.data
+  },
+
+  markAllRead: async (): Promise<{ updated: number }> => {
+    const response = await apiClient.post('/notifications/read-all')
+    return response.data
+  },
+
+  getPreferences: async (signal?: AbortSignal): Promise<NotificationPreferences> => {
+    const response = await apiClient.get('/notifications/preferences', { signal })
+    return response.data
+  },
+
+  updatePreferences: async (data: UpdateNotificationPreferencesData): Promise<NotificationPreferences> => {
+    const response = await apiClient.put('/notifications/preferences', data)
+    return response.data
+  },
+}
@@ -1,4 +1,5 @@
 import { apiClient } from './client'
+import { EmailDelivery } from './mail'
 
 export interface DashboardSummary {
   pending: number
@@ -35,6 +36,37 @@ export interface OperatorReport {
   totalAmount: number
 }
 
+export interface LocationReport {
+  location: { id: string; address: string; validFrom: string; validTo: string | null; isCurrent: boolean }
+  machine: { id: string; code: string; name: string }
+  days: number
+  revenue: number
+  ordersCount: number
+  revenuePerDay: number
+  collectionsCount: number
+  collectionsAmount: number
+}
+
+export interface LocationMove {
+  machine: { id: string; code: string; name: string }
+  fromAddress: string
+  toAddress: string
+  movedOn: string
+  revenuePerDayBefore: number
+  revenuePerDayAfter: number
+  changePercent: number | null
+}
+
+export interface AddressRanking {
+  rank: number
+  address: string
+  machinesCount: number
+  days: number
+  revenue: number
+  revenuePerDay: number
+  collectionsAmount: number
+}
+
 export interface ReportQuery {
   from?: string
   to?: string
@@ -78,6 +110,16 @@ export const reportsApi = {
     return response.data
   },
 
+  getByLocation: async (query: ReportQuery = {}, signal?: AbortSignal): Promise<{
+    period: { from: string; to: string }
+    data: LocationReport[]
+    moves: LocationMove[]
+    ranking: AddressRanking[]
+  }> => {
+    const response = await apiClient.get('/reports/by-location', { params: query, signal })
+    return response.data
+  },
+
   exportExcel: async (query: ReportQuery = {}, signal?: AbortSignal): Promise<Blob> => {
     const response = await apiClient.get('/reports/export', {
       params: query,
@@ -86,4 +128,9 @@ export const reportsApi = {
     })
     return response.data
   },
+
+  emailExport: async (query: ReportQuery, recipients: string[]): Promise<EmailDelivery> => {
+    const response = await apiClient.post('/reports/export/email', { recipients }, { params: query })
+    return response.data
+  },
 }
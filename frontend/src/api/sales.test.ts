@@ -7,6 +7,7 @@ vi.mock('./client', () => ({
     get: vi.fn(),
     post: vi.fn(),
     put: vi.fn(),
+    patch: vi.fn(),
     delete: vi.fn(),
   },
 }))
@@ -15,6 +16,7 @@ import { apiClient } from './client'
 
 const mockGet = vi.mocked(apiClient.get)
 const mockPost = vi.mocked(apiClient.post)
+const mockPatch = vi.mocked(apiClient.patch)
 const mockDelete = vi.mocked(apiClient.delete)
 
 describe('salesApi', () => {
@@ -36,6 +38,72 @@ describe('salesApi', () => {
       }))
       expect(result).toEqual(mockResult)
     })
+
+    it('should send the chosen import profile with the file', async () => {
+      mockPost.mockResolvedValue({ data: {} })
+
+      const file = new File(['test'], 'orders.xlsx')
+      await salesApi.import(file, { profileId: 'p1' })
+
+      const formData = mockPost.mock.calls[0][1] as FormData
+      expect(formData.get('profileId')).toBe('p1')
+    })
+  })
+
+  describe('import preview', () => {
+    it('should upload the file for preview and confirm by token', async () => {
+      mockPost.mockResolvedValueOnce({ data: { token: 't1', totalRows: 3 } })
+      mockPost.mockResolvedValueOnce({ data: { imported: 3 } })
+
+      const preview = await salesApi.previewImport(new File(['test'], 'orders.csv'))
+      const result = await salesApi.confirmImport(preview.token)
+
+      expect(mockPost).toHaveBeenNthCalledWith(1, '/sales/import/preview', expect.any(FormData), expect.any(Object))
+      expect(mockPost).toHaveBeenNthCalledWith(2, '/sales/import/confirm', { token: 't1' }, { timeout: 120000 })
+      expect(result).toEqual({ imported: 3 })
+    })
+
+    it('should fetch the status of a background import', async () => {
+      mockGet.mockResolvedValue({ data: { jobId: 'job-1', status: 'running', percent: 40 } })
+
+      const job = await salesApi.getImportJob('job-1')
+
+      expect(mockGet).toHaveBeenCalledWith('/sales/import/jobs/job-1', { signal: undefined })
+      expect(job.percent).toBe(40)
+    })
+  })
+
+  describe('product analytics', () => {
+    it('should request the product mix for a machine', async () => {
+      mockGet.mockResolvedValue({ data: { items: [] } })
+
+      await salesApi.getProductMix({ from: '2025-09-01', to: '2025-09-30', machineCode: 'A01' })
+
+      expect(mockGet).toHaveBeenCalledWith('/sales/analytics/product-mix', {
+        params: { from: '2025-09-01', to: '2025-09-30', machineCode: 'A01' },
+        signal: undefined,
+      })
+    })
+  })
+
+  describe('import profiles', () => {
+    it('should list profiles', async () => {
+      const profiles = [{ id: 'p1', name: 'Provider B' }]
+      mockGet.mockResolvedValue({ data: profiles })
+
+      const result = await salesApi.getImportProfiles()
+
+      expect(mockGet).toHaveBeenCalledWith('/sales/import-profiles', { signal: undefined })
+      expect(result).toEqual(profiles)
+    })
+
+    it('should patch a profile by id', async () => {
+      mockPatch.mockResolvedValue({ data: { id: 'p1', isActive: false } })
+
+      await salesApi.updateImportProfile('p1', { isActive: false })
+
+      expect(mockPatch).toHaveBeenCalledWith('/sales/import-profiles/p1', { isActive: false })
+    })
   })
 
   describe('getOrders', () => {
@@ -181,4 +249,41 @@ describe('salesApi', () => {
       expect(result).toBeInstanceOf(Blob)
     })
   })
+
+  describe('emailReconciliation', () => {
+    it('should post the recipients with the filters as params', async () => {
+      mockPost.mockResolvedValue({ data: { id: 'd1', status: 'sent' } })
+
+      const result = await salesApi.emailReconciliation({ from: '2025-02-01', to: '2025-02-28' }, ['a@example.com'])
+
+      expect(mockPost).toHaveBeenCalledWith(
+        '/sales/reconciliation/export/email',
+        { recipients: ['a@example.com'] },
+        { params: { from: '2025-02-01', to: '2025-02-28' } },
+      )
+      expect(result.status).toBe('sent')
+    })
+  })
+
+  describe('machine codes', () => {
+    it('should map an unknown code to a machine', async () => {
+      mockPost.mockResolvedValue({ data: { alias: { id: 'a1' }, updated: 12 } })
+
+      const result = await salesApi.mapMachineCode('VM-012', 'm1')
+
+      expect(mockPost).toHaveBeenCalledWith('/sales/machine-codes/map', { code: 'VM-012', machineId: 'm1' })
+      expect(result.updated).toBe(12)
+    })
+  })
+
+  describe('rejected rows', () => {
+    it('should download the rejected rows of a batch as blob', async () => {
+      mockGet.mockResolvedValue({ data: new Blob(['test']) })
+
+      const result = await salesApi.exportRejectedRows('b1')
+
+      expect(mockGet).toHaveBeenCalledWith('/sales/batches/b1/rejected/export', { responseType: 'blob' })
+      expect(result).toBeInstanceOf(Blob)
+    })
+  })
 })
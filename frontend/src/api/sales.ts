@@ -1,4 +1,6 @@
 import { apiClient } from './client'
+import { Machine } from './machines'
+import { EmailDelivery } from './mail'
 
 export interface SalesOrder {
   id: string
@@ -17,14 +19,109 @@ export interface SalesOrder {
   importedAt: string
 }
 
+export type ImportRejectReason =
+  | 'skip_rule'
+  | 'unsupported_payment'
+  | 'missing_machine'
+  | 'invalid_date'
+  | 'zero_price'
+  | 'parse_error'
+
+export interface ImportRejectedRow {
+  id: string
+  batchId: string
+  rowNumber: number
+  reason: ImportRejectReason
+  message: string | null
+  rawValues: string[]
+  createdAt: string
+}
+
 export interface ImportResult {
   imported: number
   skipped: number
   duplicates: number
   errors: string[]
+  rejectedByReason: Partial<Record<ImportRejectReason, number>>
   batchId: string
   machinesFound: number
   machinesNotFound: string[]
+  profileName: string | null
+}
+
+/** Files above this size are imported by the server as a background job */
+export const BACKGROUND_IMPORT_THRESHOLD = 10 * 1024 * 1024
+
+export interface ImportJob {
+  jobId: string
+  status: 'running' | 'completed' | 'failed'
+  fileName: string
+  percent: number
+  processedRows: number
+  result: ImportResult | null
+  error: string | null
+}
+
+export interface ImportPreview {
+  token: string
+  expiresAt: string
+  profileName: string | null
+  columns: { field: SalesImportField; column: number; header: string | null }[]
+  sampleRows: {
+    orderNumber: string | null
+    productName: string | null
+    machineCode: string
+    paymentMethod: 'cash' | 'card'
+    paymentStatus: 'paid' | 'refunded'
+    price: number
+    orderDate: string
+  }[]
+  totalRows: number
+  newCount: number
+  duplicateCount: number
+  skipped: number
+  errors: string[]
+  rejectedByReason: Partial<Record<ImportRejectReason, number>>
+  machinesFound: number
+  machinesNotFound: string[]
+  dateFrom: string | null
+  dateTo: string | null
+}
+
+export type SalesImportField =
+  | 'orderNumber'
+  | 'product'
+  | 'flavor'
+  | 'paymentResource'
+  | 'paymentStatus'
+  | 'machineCode'
+  | 'address'
+  | 'price'
+  | 'orderDate'
+
+export interface ImportProfileSkipRule {
+  field: SalesImportField
+  match: 'contains' | 'equals' | 'empty'
+  value?: string
+}
+
+export interface ImportProfileData {
+  name: string
+  description?: string
+  columns: Partial<Record<SalesImportField, string>>
+  headerRow: number
+  dateFormat: string
+  timezone: string
+  payments: { cash: string[]; card: string[]; refund?: string[] }
+  skipRules: ImportProfileSkipRule[]
+  detectHeaders: string[]
+  isActive: boolean
+}
+
+export interface ImportProfile extends ImportProfileData {
+  id: string
+  createdAt: string
+  updatedAt: string
 }
 
 export interface SalesQuery {
@@ -65,7 +162,10 @@ export interface ReconciliationItem {
   machineName: string
   periodStart: string
   periodEnd: string
+  /** Cash sales net of refundsAmount */
   expectedAmount: number
+  /** Cash refunds paid out of the box; 0 unless the machine is set up so */
+  refundsAmount: number
   actualAmount: number
   difference: number
   percentDeviation: number
@@ -102,37 +202,135 @@ export interface TopMachineItem {
   count: number
 }
 
+export interface ProductSalesItem {
+  productName: string | null
+  flavor: string | null
+  machineCode: string
+  machineName: string | null
+  units: number
+  revenue: number
+}
+
+export interface SalesHeatmapCell {
+  /** 1 = Monday … 7 = Sunday, Tashkent time */
+  weekday: number
+  hour: number
+  units: number
+  revenue: number
+}
+
+export interface ProductMixItem {
+  productName: string | null
+  flavor: string | null
+  units: number
+  revenue: number
+  share: number
+  previousUnits: number
+  previousRevenue: number
+  previousShare: number
+  shareChange: number
+}
+
+export interface ProductMixResult {
+  period: { from: string; to: string }
+  comparePeriod: { from: string; to: string }
+  items: ProductMixItem[]
+}
+
+export interface ProductAnalyticsQuery {
+  from?: string
+  to?: string
+  machineCode?: string
+}
+
+export interface UnresolvedMachineCode {
+  code: string
+  ordersCount: number
+  firstOrderDate: string
+  lastOrderDate: string
+  suggestedMachine: { id: string; code: string; name: string } | null
+}
+
+export interface MachineCodeAlias {
+  id: string
+  code: string
+  machineId: string
+  machine: Machine
+  createdAt: string
+}
+
 export interface ImportBatch {
   batchId: string
   importedAt: string
   ordersCount: number
+  rejectedCount: number
+  /** Status of the background job that wrote the batch; 'completed' for direct imports */
+  status: ImportJob['status']
+}
+
+interface UploadOptions {
+  profileId?: string
+  onUploadProgress?: (progress: { loaded: number; total: number; percent: number }) => void
+  signal?: AbortSignal
+}
+
+async function uploadSalesFile<T>(url: string, file: File, options?: UploadOptions): Promise<T> {
+  const formData = new FormData()
+  formData.append('file', file)
+  if (options?.profileId) formData.append('profileId', options.profileId)
+  const response = await apiClient.post(url, formData, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+    timeout: 120000, // 2 min for large files
+    signal: options?.signal,
+    onUploadProgress: options?.onUploadProgress
+      ? (progressEvent) => {
+          const total = progressEvent.total || file.size
+          const loaded = progressEvent.loaded
+          options.onUploadProgress!({ loaded, total, percent: Math.round((loaded / total) * 100) })
+        }
+      : undefined,
+  })
+  return response.data
 }
 
 export const salesApi = {
-  import: async (
-    file: File,
-    options?: {
-      onUploadProgress?: (progress: { loaded: number; total: number; percent: number }) => void
-      signal?: AbortSignal
-    },
-  ): Promise<ImportResult> => {
-    const formData = new FormData()
-    formData.append('file', file)
-    const response = await apiClient.post('/sales/import', formData, {
-      headers: { 'Content-Type': 'multipart/form-data' },
-      timeout: 120000, // 2 min for large files
-      signal: options?.signal,
-      onUploadProgress: options?.onUploadProgress
-        ? (progressEvent) => {
-            const total = progressEvent.total || file.size
-            const loaded = progressEvent.loaded
-            options.onUploadProgress!({ loaded, total, percent: Math.round((loaded / total) * 100) })
-          }
-        : undefined,
-    })
+  /** Returns an ImportJob instead of the result for files above BACKGROUND_IMPORT_THRESHOLD */
+  import: (file: File, options?: UploadOptions): Promise<ImportResult | ImportJob> =>
+    uploadSalesFile('/sales/import', file, options),
+
+  /** Parse the file without saving; commit with confirmImport(token) */
+  previewImport: (file: File, options?: UploadOptions): Promise<ImportPreview> =>
+    uploadSalesFile('/sales/import/preview', file, options),
+
+  confirmImport: async (token: string): Promise<ImportResult> => {
+    const response = await apiClient.post('/sales/import/confirm', { token }, { timeout: 120000 })
     return response.data
   },
 
+  getImportJob: async (jobId: string, signal?: AbortSignal): Promise<ImportJob> => {
+    const response = await apiClient.get(`/sales/import/jobs/${jobId}`, { signal })
+    return response.data
+  },
+
+  getImportProfiles: async (signal?: AbortSignal): Promise<ImportProfile[]> => {
+    const response = await apiClient.get('/sales/import-profiles', { signal })
+    return response.data
+  },
+
+  createImportProfile: async (data: ImportProfileData): Promise<ImportProfile> => {
+    const response = await apiClient.post('/sales/import-profiles', data)
+    return response.data
+  },
+
+  updateImportProfile: async (id: string, data: Partial<ImportProfileData>): Promise<ImportProfile> => {
+    const response = await apiClient.patch(`/sales/import-profiles/${id}`, data)
+    return response.data
+  },
+
+  deleteImportProfile: async (id: string): Promise<void> => {
+    await apiClient.delete(`/sales/import-profiles/${id}`)
+  },
+
   getOrders: async (query: SalesQuery = {}, signal?: AbortSignal): Promise<{ data: SalesOrder[]; total: number }> => {
     const response = await apiClient.get('/sales/orders', { params: query, signal })
     return response.data
@@ -174,6 +372,25 @@ export const salesApi = {
     return response.data
   },
 
+  getProductSales: async (query: ProductAnalyticsQuery = {}, signal?: AbortSignal): Promise<ProductSalesItem[]> => {
+    const response = await apiClient.get('/sales/analytics/products', { params: query, signal })
+    return response.data
+  },
+
+  getSalesHeatmap: async (query: ProductAnalyticsQuery = {}, signal?: AbortSignal): Promise<SalesHeatmapCell[]> => {
+    const response = await apiClient.get('/sales/analytics/heatmap', { params: query, signal })
+    return response.data
+  },
+
+  /** Without compareFrom/compareTo the server compares with the preceding period of equal length */
+  getProductMix: async (
+    query: ProductAnalyticsQuery & { from: string; to: string; compareFrom?: string; compareTo?: string },
+    signal?: AbortSignal,
+  ): Promise<ProductMixResult> => {
+    const response = await apiClient.get('/sales/analytics/product-mix', { params: query, signal })
+    return response.data
+  },
+
   getTopMachines: async (
     query: { from?: string; to?: string; limit?: number } = {},
     signal?: AbortSignal,
@@ -184,7 +401,7 @@ export const salesApi = {
 
   notifyShortages: async (
     query: { machineCode?: string; from?: string; to?: string } = {},
-  ): Promise<{ totalItems: number; shortagesFound: number; alertsSent: boolean }> => {
+  ): Promise<{ runId: string; totalItems: number; shortagesFound: number; alertsSent: boolean }> => {
     const response = await apiClient.post('/sales/reconciliation/notify', null, { params: query })
     return response.data
   },
@@ -201,8 +418,55 @@ export const salesApi = {
     return response.data
   },
 
+  emailReconciliation: async (
+    query: { machineCode?: string; from?: string; to?: string },
+    recipients: string[],
+  ): Promise<EmailDelivery> => {
+    const response = await apiClient.post('/sales/reconciliation/export/email', { recipients }, { params: query })
+    return response.data
+  },
+
   getImportFileUrl: async (batchId: string): Promise<{ url: string; originalName: string }> => {
     const response = await apiClient.get(`/sales/batches/${batchId}/file`)
     return response.data
   },
+
+  getUnresolvedMachineCodes: async (signal?: AbortSignal): Promise<UnresolvedMachineCode[]> => {
+    const response = await apiClient.get('/sales/machine-codes/unresolved', { signal })
+    return response.data
+  },
+
+  /** Link the code to an existing machine; returns how many orders got linked */
+  mapMachineCode: async (code: string, machineId: string): Promise<{ alias: MachineCodeAlias | null; updated: number }> => {
+    const response = await apiClient.post('/sales/machine-codes/map', { code, machineId })
+    return response.data
+  },
+
+  createMachineFromCode: async (
+    data: { code: string; name?: string; location?: string },
+  ): Promise<{ machine: Machine; updated: number }> => {
+    const response = await apiClient.post('/sales/machine-codes/create-machine', data)
+    return response.data
+  },
+
+  getMachineAliases: async (signal?: AbortSignal): Promise<MachineCodeAlias[]> => {
+    const response = await apiClient.get('/sales/machine-aliases', { signal })
+    return response.data
+  },
+
+  deleteMachineAlias: async (id: string): Promise<void> => {
+    await apiClient.delete(`/sales/machine-aliases/${id}`)
+  },
+
+  getRejectedRows: async (batchId: string, signal?: AbortSignal): Promise<ImportRejectedRow[]> => {
+    const response = await apiClient.get(`/sales/batches/${batchId}/rejected`, { signal })
+    return response.data
+  },
+
+  exportRejectedRows: async (batchId: string): Promise<Blob> => {
+    const response = await apiClient.get(`/sales/batches/${batchId}/rejected/export`, {
+      responseType: 'blob',
+    })
+    return response.data
+  },
 }
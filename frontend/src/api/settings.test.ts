@@ -62,4 +62,27 @@ describe('settingsApi', () => {
       expect(result).toEqual(updated)
     })
   })
+
+  describe('getDigestSettings', () => {
+    it('should fetch digest settings from /settings/digest', async () => {
+      const mockSettings = { dailyEnabled: true, weeklyEnabled: false, hour: 9, weeklyDay: 1, sections: ['finance'], pendingHours: 24, staleDays: 7, emailRecipients: [] }
+      mockGet.mockResolvedValue({ data: mockSettings })
+      const controller = new AbortController()
+
+      const result = await settingsApi.getDigestSettings(controller.signal)
+
+      expect(mockGet).toHaveBeenCalledWith('/settings/digest', { signal: controller.signal })
+      expect(result).toEqual(mockSettings)
+    })
+  })
+
+  describe('updateDigestSettings', () => {
+    it('should PUT partial digest settings', async () => {
+      mockPut.mockResolvedValue({ data: {} })
+
+      await settingsApi.updateDigestSettings({ hour: 8, sections: ['collections', 'pending'] })
+
+      expect(mockPut).toHaveBeenCalledWith('/settings/digest', { hour: 8, sections: ['collections', 'pending'] })
+    })
+  })
 })
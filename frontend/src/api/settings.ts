@@ -5,6 +5,24 @@ export interface AppSettings {
   shortageAlertThreshold: number
   collectionDistanceMeters: number
   defaultPageSize: number
+  pendingSlaHours: number
+  pendingEscalationHours: number
+}
+
+export type DigestSection = 'collections' | 'pending' | 'shortages' | 'stale_machines' | 'finance'
+
+export interface DigestSettings {
+  dailyEnabled: boolean
+  weeklyEnabled: boolean
+  /** Tashkent hour, 0-23 */
+  hour: number
+  /** 1 = Monday … 7 = Sunday */
+  weeklyDay: number
+  sections: DigestSection[]
+  pendingHours: number
+  staleDays: number
+  /** Extra addresses that get the digest by email */
+  emailRecipients: string[]
 }
 
 export const settingsApi = {
@@ -17,4 +35,14 @@ export const settingsApi = {
     const response = await apiClient.put('/settings/app', settings)
     return response.data
   },
+
+  getDigestSettings: async (signal?: AbortSignal): Promise<DigestSettings> => {
+    const response = await apiClient.get('/settings/digest', { signal })
+    return response.data
+  },
+
+  updateDigestSettings: async (settings: Partial<DigestSettings>): Promise<DigestSettings> => {
+    const response = await apiClient.put('/settings/digest', settings)
+    return response.data
+  },
 }
@@ -0,0 +1,250 @@
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { X, Upload } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { financeApi, StatementImportOptions, StatementImportResult, StatementLine } from '../api/finance'
+import { getErrorMessage } from '../utils/getErrorMessage'
+import ModalOverlay from './ui/ModalOverlay'
+
+const formatAmount = (amount: number) => new Intl.NumberFormat('ru-RU').format(amount)
+
+const STATUS_BADGES: Record<StatementLine['status'], { label: string; className: string }> = {
+  matched: { label: 'Найден депозит', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' },
+  confirmed: { label: 'Уже подтверждён', className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300' },
+  unmatched: { label: 'Нет депозита', className: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400' },
+}
+
+const COLUMN_FIELDS: { key: keyof StatementImportOptions; label: string }[] = [
+  { key: 'dateColumn', label: 'Дата' },
+  { key: 'creditColumn', label: 'Кредит' },
+  { key: 'debitColumn', label: 'Дебет' },
+  { key: 'referenceColumn', label: '№ документа' },
+  { key: 'descriptionColumn', label: 'Назначение' },
+]
+
+/**
+ * Upload a bank statement, review how its credits match recorded deposits
+ * and confirm: matched deposits get marked as seen by the bank, selected
+ * unmatched lines become new deposits.
+ */
+export default function BankStatementImport({ onClose, onDone }: { onClose: () => void; onDone: () => void }) {
+  const [file, setFile] = useState<File | null>(null)
+  const [options, setOptions] = useState<Record<string, string>>({})
+  const [showOptions, setShowOptions] = useState(false)
+  const [result, setResult] = useState<StatementImportResult | null>(null)
+  const [selected, setSelected] = useState<Record<number, boolean>>({})
+  const [isLoading, setIsLoading] = useState(false)
+
+  const handleParse = async () => {
+    if (!file) return
+    setIsLoading(true)
+    try {
+      const parsed = await financeApi.importStatement(file, {
+        ...options,
+        headerRow: options.headerRow ? Number(options.headerRow) : undefined,
+        dateWindowDays: options.dateWindowDays ? Number(options.dateWindowDays) : undefined,
+      })
+      setResult(parsed)
+      // Matches are confirmed by default; creating deposits is opt-in per line
+      setSelected(Object.fromEntries(parsed.lines.map((l) => [l.row, l.status === 'matched'])))
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error, 'Не удалось прочитать выписку'))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const chosen = result ? result.lines.filter((l) => l.status !== 'confirmed' && selected[l.row]) : []
+  const toConfirm = chosen.filter((l) => l.depositId).length
+  const toCreate = chosen.length - toConfirm
+
+  const handleConfirm = async () => {
+    if (chosen.length === 0) return
+    setIsLoading(true)
+    try {
+      const res = await financeApi.confirmStatement(chosen.map((l) => ({
+        date: l.date,
+        amount: l.amount,
+        reference: l.reference || undefined,
+        description: l.description || undefined,
+        account: l.account || undefined,
+        depositId: l.depositId || undefined,
+      })))
+      toast.success(`Подтверждено: ${res.confirmed}, создано: ${res.created}${res.skipped ? `, пропущено: ${res.skipped}` : ''}`)
+      onDone()
+      onClose()
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <ModalOverlay onClose={onClose} disableClose={isLoading}>
+      <div className="bg-white dark:bg-gray-800 rounded-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="font-semibold text-lg">Импорт банковской выписки</h2>
+          <button onClick={onClose} disabled={isLoading} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg disabled:opacity-50">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="file"
+              accept=".xlsx,.csv"
+              className="text-sm"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null)
+                setResult(null)
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => setShowOptions(!showOptions)}
+              className="text-sm text-primary-600 hover:underline"
+            >
+              {showOptions ? 'Скрыть настройки' : 'Настройка колонок'}
+            </button>
+            <button
+              onClick={handleParse}
+              disabled={!file || isLoading}
+              className="btn btn-primary text-sm flex items-center gap-2 ml-auto"
+            >
+              <Upload className="w-4 h-4" />
+              {isLoading && !result ? 'Обработка...' : 'Сопоставить'}
+            </button>
+          </div>
+
+          {showOptions && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+              {COLUMN_FIELDS.map(({ key, label }) => (
+                <label key={key} className="space-y-1">
+                  <span className="text-gray-500 dark:text-gray-400">{label}</span>
+                  <input
+                    type="text"
+                    className="input text-sm"
+                    placeholder="авто"
+                    maxLength={100}
+                    value={options[key] || ''}
+                    onChange={(e) => setOptions({ ...options, [key]: e.target.value })}
+                  />
+                </label>
+              ))}
+              <label className="space-y-1">
+                <span className="text-gray-500 dark:text-gray-400">Строка заголовка</span>
+                <input
+                  type="number"
+                  min="1"
+                  max="50"
+                  className="input text-sm"
+                  placeholder="авто"
+                  value={options.headerRow || ''}
+                  onChange={(e) => setOptions({ ...options, headerRow: e.target.value })}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-gray-500 dark:text-gray-400">Окно дат, дней</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="31"
+                  className="input text-sm"
+                  placeholder="3"
+                  value={options.dateWindowDays || ''}
+                  onChange={(e) => setOptions({ ...options, dateWindowDays: e.target.value })}
+                />
+              </label>
+              <div className="col-span-2 md:col-span-4 text-xs text-gray-400">
+                Колонку можно указать номером (3), буквой (C) или частью заголовка («кредит»)
+              </div>
+            </div>
+          )}
+        </div>
+
+        {result && (
+          <>
+            <div className="px-4 py-2 text-sm flex flex-wrap gap-x-4 gap-y-1 text-gray-600 dark:text-gray-300">
+              <span>Поступлений: {result.summary.credits}</span>
+              <span className="text-green-600 dark:text-green-400">Найдено: {result.summary.matched}</span>
+              <span>Уже подтверждено: {result.summary.confirmed}</span>
+              <span className="text-orange-600 dark:text-orange-400">
+                Без депозита: {result.summary.unmatched} ({formatAmount(result.summary.unmatchedAmount)} сум)
+              </span>
+              {result.summary.debitsSkipped > 0 && (
+                <span className="text-gray-400">Списаний пропущено: {result.summary.debitsSkipped}</span>
+              )}
+            </div>
+            {result.errors.length > 0 && (
+              <div className="mx-4 mb-2 p-2 rounded bg-red-50 dark:bg-red-900/20 text-xs text-red-600 dark:text-red-400">
+                {result.errors.slice(0, 5).join('; ')}
+                {result.errors.length > 5 && ` и ещё ${result.errors.length - 5}`}
+              </div>
+            )}
+
+            <div className="flex-1 overflow-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700/50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 w-8" />
+                    <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Дата</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-500 dark:text-gray-400">Сумма</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Документ</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Статус</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {result.lines.map((line) => (
+                    <tr key={line.row}>
+                      <td className="px-3 py-2">
+                        <input
+                          type="checkbox"
+                          className="w-4 h-4"
+                          disabled={line.status === 'confirmed'}
+                          checked={line.status !== 'confirmed' && !!selected[line.row]}
+                          onChange={(e) => setSelected({ ...selected, [line.row]: e.target.checked })}
+                        />
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">{format(new Date(line.date), 'dd.MM.yyyy')}</td>
+                      <td className="px-3 py-2 text-right font-medium">{formatAmount(line.amount)}</td>
+                      <td className="px-3 py-2 max-w-xs">
+                        <div>{line.reference || '—'}</div>
+                        {line.description && <div className="text-xs text-gray-400 truncate">{line.description}</div>}
+                      </td>
+                      <td className="px-3 py-2">
+                        <span className={`px-1.5 py-0.5 rounded text-xs ${STATUS_BADGES[line.status].className}`}>
+                          {STATUS_BADGES[line.status].label}
+                        </span>
+                        {line.depositDate && (
+                          <div className="text-xs text-gray-400 mt-0.5">
+                            депозит от {format(new Date(line.depositDate), 'dd.MM.yyyy')}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between gap-3">
+              <div className="text-sm text-gray-600 dark:text-gray-300">
+                Подтвердить: {toConfirm} • создать депозитов: {toCreate}
+              </div>
+              <div className="flex gap-2">
+                <button onClick={onClose} disabled={isLoading} className="btn btn-secondary">
+                  Отмена
+                </button>
+                <button onClick={handleConfirm} disabled={isLoading || chosen.length === 0} className="btn btn-primary">
+                  {isLoading ? 'Сохранение...' : 'Применить'}
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </ModalOverlay>
+  )
+}
@@ -0,0 +1,86 @@
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import { format } from 'date-fns'
+import { BankDeposit } from '../api/finance'
+import ModalOverlay from './ui/ModalOverlay'
+
+interface CancelDepositModalProps {
+  deposit: BankDeposit
+  onClose: () => void
+  onSubmit: (reason: string) => Promise<void>
+}
+
+export default function CancelDepositModal({ deposit, onClose, onSubmit }: CancelDepositModalProps) {
+  const [reason, setReason] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!reason.trim()) return
+    setIsSubmitting(true)
+    try {
+      await onSubmit(reason.trim())
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <ModalOverlay onClose={onClose} disableClose={isSubmitting}>
+      <div className="bg-white dark:bg-gray-800 rounded-xl w-full max-w-md">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="font-semibold text-lg">Отмена депозита</h2>
+          <button onClick={onClose} disabled={isSubmitting} className="p-1 hover:bg-gray-100 rounded-lg disabled:opacity-50">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <div className="space-y-2 text-sm">
+            <div className="flex items-center gap-2">
+              <span className="text-gray-500">Дата:</span>
+              <span>{format(new Date(deposit.depositDate), 'dd.MM.yyyy HH:mm')}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-gray-500">Сумма:</span>
+              <span className="font-medium">{Number(deposit.amount).toLocaleString('ru-RU')} сум</span>
+            </div>
+            {deposit.slipNumber && (
+              <div className="flex items-center gap-2">
+                <span className="text-gray-500">Квитанция:</span>
+                <span>{deposit.slipNumber}</span>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            Депозит перестанет учитываться в балансе, а привязанные инкассации снова станут нераспределёнными.
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              Причина отмены <span className="text-red-500">*</span>
+            </label>
+            <textarea
+              className="input min-h-[80px] resize-none"
+              placeholder="Укажите причину отмены"
+              required
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+            />
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button type="button" onClick={onClose} disabled={isSubmitting} className="btn btn-secondary flex-1">
+              Назад
+            </button>
+            <button type="submit" disabled={isSubmitting || !reason.trim()} className="btn btn-danger flex-1">
+              {isSubmitting ? 'Отмена...' : 'Отменить депозит'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </ModalOverlay>
+  )
+}
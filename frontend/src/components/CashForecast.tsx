@@ -0,0 +1,94 @@
+import { useQuery } from '@tanstack/react-query'
+import { formatDistanceToNow } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import { Link } from 'react-router-dom'
+import { Banknote } from 'lucide-react'
+import { machinesApi } from '../api/machines'
+
+const formatAmount = (amount: number) => new Intl.NumberFormat('ru-RU').format(Math.round(amount))
+
+const fillColor = (percent: number) =>
+  percent >= 90 ? 'bg-red-500' : percent >= 70 ? 'bg-orange-500' : 'bg-green-500'
+
+export default function CashForecast() {
+  const { data, isLoading } = useQuery({
+    queryKey: ['dashboard', 'cash-forecast'],
+    queryFn: ({ signal }) => machinesApi.getCashForecast(signal),
+  })
+
+  const route = (data || []).filter((f) => f.collectToday)
+  // Nothing urgent: show what fills up next instead of an empty card
+  const shown = route.length > 0 ? route : (data || []).filter((f) => f.daysUntilFull !== null).slice(0, 5)
+
+  return (
+    <div className="card">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-600 flex items-center justify-between">
+        <h2 className="font-semibold">🗺 Собрать сегодня</h2>
+        <div className="flex items-center gap-3">
+          {route.length > 0 && (
+            <Link to="/machines/route" className="text-sm text-primary-600 hover:underline">
+              Построить маршрут
+            </Link>
+          )}
+          <span className={`badge ${route.length > 0 ? 'badge-danger' : 'badge-success'}`}>{route.length}</span>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="p-8 text-center text-gray-500 dark:text-gray-400">Загрузка...</div>
+      ) : shown.length === 0 ? (
+        <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+          Нет прогноза — укажите вместимость кассы у автоматов
+        </div>
+      ) : (
+        <>
+          {route.length === 0 && (
+            <div className="px-4 pt-3 text-sm text-green-600 dark:text-green-400">
+              Срочных инкассаций нет. Ближайшие:
+            </div>
+          )}
+          <div className="divide-y divide-gray-100 dark:divide-gray-700">
+            {shown.map((f) => (
+              <div key={f.machine.id} className="p-4 flex items-center justify-between gap-4">
+                <div className="flex items-center gap-4 min-w-0">
+                  <div className="w-10 h-10 bg-green-100 dark:bg-green-900/30 rounded-lg flex items-center justify-center flex-shrink-0">
+                    <Banknote className="w-5 h-5 text-green-600 dark:text-green-400" />
+                  </div>
+                  <div className="min-w-0">
+                    <Link
+                      to={`/machines/${f.machine.id}`}
+                      className="font-medium text-gray-900 dark:text-gray-100 hover:underline"
+                    >
+                      {f.machine.name}
+                    </Link>
+                    <div className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                      {f.machine.location || f.machine.code}
+                      {f.lastCollectedAt && (
+                        <> • собран {formatDistanceToNow(new Date(f.lastCollectedAt), { addSuffix: true, locale: ru })}</>
+                      )}
+                    </div>
+                    {f.fillPercent !== null && (
+                      <div className="mt-1 h-1.5 w-40 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                        <div className={`h-full ${fillColor(f.fillPercent)}`} style={{ width: `${f.fillPercent}%` }} />
+                      </div>
+                    )}
+                  </div>
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <div className="font-medium">~{formatAmount(f.expectedCash)} сум</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {f.daysUntilFull === 0
+                      ? 'касса заполнена'
+                      : f.daysUntilFull !== null
+                        ? `заполнится через ~${Math.ceil(f.daysUntilFull)} дн.`
+                        : ''}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+import { useQuery } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { X } from 'lucide-react'
+import { BankDeposit, DepositHistoryEntry, financeApi } from '../api/finance'
+import ModalOverlay from './ui/ModalOverlay'
+
+const FIELD_LABELS: Record<string, string> = {
+  amount: 'Сумма',
+  depositDate: 'Дата',
+  notes: 'Примечание',
+  slipNumber: '№ квитанции',
+  bankAccount: 'Счёт',
+  status: 'Статус',
+  allocations: 'Привязки',
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  active: 'Активен',
+  cancelled: 'Отменён',
+}
+
+function formatValue(entry: DepositHistoryEntry, value: string | null) {
+  if (!value) return '—'
+  if (entry.fieldName === 'amount') return `${Number(value).toLocaleString('ru-RU')} сум`
+  if (entry.fieldName === 'depositDate') return format(new Date(value), 'dd.MM.yyyy HH:mm')
+  if (entry.fieldName === 'status') return STATUS_LABELS[value] || value
+  return value
+}
+
+/**
+ * Side panel with the audit trail of a bank deposit.
+ */
+export default function DepositHistoryDrawer({ deposit, onClose }: { deposit: BankDeposit; onClose: () => void }) {
+  const { data: history, isLoading } = useQuery({
+    queryKey: ['deposit-history', deposit.id],
+    queryFn: ({ signal }) => financeApi.getDepositHistory(deposit.id, signal),
+  })
+
+  return (
+    <ModalOverlay onClose={onClose}>
+      <div className="fixed inset-y-0 right-0 w-full max-w-md bg-white dark:bg-gray-800 shadow-xl flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h2 className="font-semibold text-lg">История депозита</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {format(new Date(deposit.depositDate), 'dd.MM.yyyy')} • {Number(deposit.amount).toLocaleString('ru-RU')} сум
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4">
+          {isLoading ? (
+            <div className="text-center text-gray-500 dark:text-gray-400">Загрузка...</div>
+          ) : !history?.length ? (
+            <div className="text-center text-gray-500 dark:text-gray-400">Изменений не было</div>
+          ) : (
+            <ol className="space-y-4">
+              {history.map((entry) => (
+                <li key={entry.id} className="border-l-2 border-gray-200 dark:border-gray-600 pl-3 text-sm">
+                  <div className="text-xs text-gray-400">
+                    {format(new Date(entry.createdAt), 'dd.MM.yyyy HH:mm')} • {entry.changedBy?.name}
+                  </div>
+                  <div className="font-medium">{FIELD_LABELS[entry.fieldName] || entry.fieldName}</div>
+                  <div>
+                    <span className="line-through text-gray-400">{formatValue(entry, entry.oldValue)}</span>
+                    {' → '}
+                    <span>{formatValue(entry, entry.newValue)}</span>
+                  </div>
+                  <div className="text-gray-600 dark:text-gray-300 italic">{entry.reason}</div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </ModalOverlay>
+  )
+}
@@ -1,31 +1,170 @@
 import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { format } from 'date-fns'
 import { X } from 'lucide-react'
 import toast from 'react-hot-toast'
+import { financeApi, BankDeposit } from '../api/finance'
 import { getErrorMessage } from '../utils/getErrorMessage'
 import ModalOverlay from './ui/ModalOverlay'
 
+export interface DepositFormData {
+    amount: number
+    notes: string
+    date: string
+    slipNumber?: string
+    bankAccount?: string
+    allocations?: { collectionId: string; amount: number }[]
+}
+
 interface DepositModalProps {
     onClose: () => void
-    onSubmit: (data: { amount: number; notes: string; date: string }) => Promise<void>
+    onSubmit: (data: DepositFormData) => Promise<void>
     maxAmount: number
 }
 
+/** Entered allocation amounts keyed by collection id; empty string means not selected */
+type AllocationDraft = Record<string, string>
+
+function draftToAllocations(draft: AllocationDraft) {
+    return Object.entries(draft)
+        .map(([collectionId, value]) => ({ collectionId, amount: Number(value) }))
+        .filter((item) => item.amount > 0)
+}
+
+/**
+ * List of received collections not yet covered by a deposit. Amounts may be
+ * lowered to allocate a collection partially.
+ */
+function AllocationPicker({
+    budget,
+    value,
+    onChange,
+}: {
+    budget: number
+    value: AllocationDraft
+    onChange: (value: AllocationDraft) => void
+}) {
+    const { data, isLoading } = useQuery({
+        queryKey: ['finance-unallocated'],
+        queryFn: ({ signal }) => financeApi.getUnallocated({}, signal),
+    })
+
+    const allocated = draftToAllocations(value).reduce((sum, item) => sum + item.amount, 0)
+
+    // Fill oldest collections first until the deposit amount is used up
+    const handleAutoFill = () => {
+        if (!data) return
+        let left = budget
+        const next: AllocationDraft = {}
+        for (const item of data.items) {
+            if (left <= 0) break
+            const amount = Math.min(item.remaining, left)
+            next[item.collectionId] = String(amount)
+            left -= amount
+        }
+        onChange(next)
+    }
+
+    if (isLoading) {
+        return <div className="text-sm text-gray-500 dark:text-gray-400">Загрузка инкассаций...</div>
+    }
+    if (!data?.items.length) {
+        return <div className="text-sm text-gray-500 dark:text-gray-400">Все принятые инкассации уже привязаны к депозитам</div>
+    }
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+                <span className={allocated > budget ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-300'}>
+                    Привязано: {allocated.toLocaleString('ru-RU')} из {budget.toLocaleString('ru-RU')} сум
+                </span>
+                <button
+                    type="button"
+                    onClick={handleAutoFill}
+                    disabled={budget <= 0}
+                    className="text-primary-600 hover:underline disabled:opacity-50"
+                >
+                    Автоподбор
+                </button>
+            </div>
+            <div className="max-h-60 overflow-auto divide-y divide-gray-100 dark:divide-gray-700 border border-gray-100 dark:border-gray-700 rounded-lg">
+                {data.items.map((item) => {
+                    const selected = value[item.collectionId] !== undefined && value[item.collectionId] !== ''
+                    return (
+                        <div key={item.collectionId} className="flex items-center gap-2 p-2 text-sm">
+                            <input
+                                type="checkbox"
+                                className="w-4 h-4"
+                                checked={selected}
+                                onChange={(e) => {
+                                    const next = { ...value }
+                                    if (e.target.checked) {
+                                        next[item.collectionId] = String(item.remaining)
+                                    } else {
+                                        delete next[item.collectionId]
+                                    }
+                                    onChange(next)
+                                }}
+                            />
+                            <div className="flex-1 min-w-0">
+                                <div className="truncate">{item.machineName}</div>
+                                <div className="text-xs text-gray-400">
+                                    {format(new Date(item.receivedAt), 'dd.MM.yy')} • {item.operatorName}
+                                    {item.allocated > 0 && <> • остаток из {item.amount.toLocaleString('ru-RU')}</>}
+                                </div>
+                            </div>
+                            <input
+                                type="number"
+                                min="0"
+                                max={item.remaining}
+                                className="input w-28 text-sm"
+                                disabled={!selected}
+                                placeholder={item.remaining.toLocaleString('ru-RU')}
+                                value={value[item.collectionId] ?? ''}
+                                onChange={(e) => onChange({ ...value, [item.collectionId]: e.target.value })}
+                            />
+                        </div>
+                    )
+                })}
+            </div>
+            {data.count > data.items.length && (
+                <div className="text-xs text-gray-400">
+                    Показаны {data.items.length} самых старых из {data.count}
+                </div>
+            )}
+        </div>
+    )
+}
+
 export default function DepositModal({ onClose, onSubmit, maxAmount }: DepositModalProps) {
     const [amount, setAmount] = useState('')
     const [notes, setNotes] = useState('')
     const [date, setDate] = useState(new Date().toISOString().split('T')[0])
+    const [slipNumber, setSlipNumber] = useState('')
+    const [bankAccount, setBankAccount] = useState('')
+    const [allocations, setAllocations] = useState<AllocationDraft>({})
+    const [showAllocations, setShowAllocations] = useState(false)
     const [loading, setLoading] = useState(false)
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault()
         if (!amount) return
 
+        const items = showAllocations ? draftToAllocations(allocations) : []
+        if (items.reduce((sum, item) => sum + item.amount, 0) > parseFloat(amount)) {
+            toast.error('Привязано больше, чем сумма депозита')
+            return
+        }
+
         setLoading(true)
         try {
             await onSubmit({
                 amount: parseFloat(amount),
                 notes,
                 date,
+                slipNumber: slipNumber.trim() || undefined,
+                bankAccount: bankAccount.trim() || undefined,
+                allocations: items.length ? items : undefined,
             })
             onClose()
         } catch (error: unknown) {
@@ -37,7 +176,7 @@ export default function DepositModal({ onClose, onSubmit, maxAmount }: DepositMo
 
     return (
         <ModalOverlay onClose={onClose} disableClose={loading}>
-            <div className="bg-white dark:bg-gray-800 rounded-2xl w-full max-w-md overflow-hidden">
+            <div className="bg-white dark:bg-gray-800 rounded-2xl w-full max-w-lg overflow-hidden max-h-[90vh] flex flex-col">
                 <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
                     <h3 className="font-bold text-lg">Сдача денег в банк</h3>
                     <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg">
@@ -45,7 +184,7 @@ export default function DepositModal({ onClose, onSubmit, maxAmount }: DepositMo
                     </button>
                 </div>
 
-                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-auto">
                     <div>
                         <label className="block text-sm font-medium text-gray-700 mb-1">
                             Дата сдачи *
@@ -78,15 +217,63 @@ export default function DepositModal({ onClose, onSubmit, maxAmount }: DepositMo
                         </div>
                     </div>
 
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                № квитанции
+                            </label>
+                            <input
+                                type="text"
+                                maxLength={50}
+                                className="input"
+                                value={slipNumber}
+                                onChange={(e) => setSlipNumber(e.target.value)}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Счёт
+                            </label>
+                            <input
+                                type="text"
+                                maxLength={50}
+                                className="input"
+                                value={bankAccount}
+                                onChange={(e) => setBankAccount(e.target.value)}
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                            <input
+                                type="checkbox"
+                                className="w-4 h-4"
+                                checked={showAllocations}
+                                onChange={(e) => setShowAllocations(e.target.checked)}
+                            />
+                            Привязать к инкассациям
+                        </label>
+                        {showAllocations && (
+                            <div className="mt-2">
+                                <AllocationPicker
+                                    budget={parseFloat(amount) || 0}
+                                    value={allocations}
+                                    onChange={setAllocations}
+                                />
+                            </div>
+                        )}
+                    </div>
+
                     <div>
                         <label className="block text-sm font-medium text-gray-700 mb-1">
                             Примечание
                         </label>
                         <textarea
-                            className="input min-h-[100px]"
+                            className="input min-h-[80px]"
                             value={notes}
                             onChange={(e) => setNotes(e.target.value)}
-                            placeholder="Номер квитанции, банк и т.д."
+                            placeholder="Банк, отделение и т.д."
                         />
                     </div>
 
@@ -112,3 +299,84 @@ export default function DepositModal({ onClose, onSubmit, maxAmount }: DepositMo
         </ModalOverlay>
     )
 }
+
+/**
+ * Attribute the remaining part of an existing deposit to collections.
+ */
+export function AllocateDepositModal({
+    deposit,
+    onClose,
+    onSubmit,
+}: {
+    deposit: BankDeposit
+    onClose: () => void
+    onSubmit: (allocations: { collectionId: string; amount: number }[]) => Promise<void>
+}) {
+    const [allocations, setAllocations] = useState<AllocationDraft>({})
+    const [loading, setLoading] = useState(false)
+
+    const alreadyAllocated = (deposit.allocations || []).reduce((sum, a) => sum + Number(a.amount), 0)
+    const budget = Math.round((Number(deposit.amount) - alreadyAllocated) * 100) / 100
+
+    const handleSubmit = async () => {
+        const items = draftToAllocations(allocations)
+        if (!items.length) return
+        if (items.reduce((sum, item) => sum + item.amount, 0) > budget) {
+            toast.error('Привязано больше, чем остаток депозита')
+            return
+        }
+
+        setLoading(true)
+        try {
+            await onSubmit(items)
+            onClose()
+        } catch (error: unknown) {
+            toast.error(getErrorMessage(error))
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    return (
+        <ModalOverlay onClose={onClose} disableClose={loading}>
+            <div className="bg-white dark:bg-gray-800 rounded-2xl w-full max-w-lg overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+                    <div>
+                        <h3 className="font-bold text-lg">Привязка депозита</h3>
+                        <div className="text-sm text-gray-500">
+                            {format(new Date(deposit.depositDate), 'dd.MM.yyyy')}
+                            {deposit.slipNumber && <> • № {deposit.slipNumber}</>}
+                            {' '}• остаток {budget.toLocaleString('ru-RU')} сум
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg">
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4">
+                    <AllocationPicker budget={budget} value={allocations} onChange={setAllocations} />
+
+                    <div className="flex gap-3 pt-2">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="btn btn-secondary flex-1"
+                            disabled={loading}
+                        >
+                            Отмена
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleSubmit}
+                            className="btn btn-primary flex-1"
+                            disabled={loading || draftToAllocations(allocations).length === 0}
+                        >
+                            {loading ? 'Сохранение...' : 'Привязать'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </ModalOverlay>
+    )
+}
@@ -0,0 +1,233 @@
+import { useState, useEffect } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Save, Loader2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { settingsApi, DigestSettings, DigestSection } from '../api/settings'
+import { mailApi } from '../api/mail'
+import { getErrorMessage } from '../utils/getErrorMessage'
+
+const SECTIONS: { key: DigestSection; label: string }[] = [
+  { key: 'collections', label: 'Инкассации за период' },
+  { key: 'pending', label: 'Долго ждут приёма' },
+  { key: 'shortages', label: 'Недостачи по сверке' },
+  { key: 'stale_machines', label: 'Автоматы без инкассации' },
+  { key: 'finance', label: 'Остаток денег на руках' },
+]
+
+const WEEKDAYS = ['Понедельник', 'Вторник', 'Среда', 'Четверг', 'Пятница', 'Суббота', 'Воскресенье']
+
+export default function DigestSettingsCard() {
+  const queryClient = useQueryClient()
+  const [settings, setSettings] = useState<DigestSettings | null>(null)
+  // Edited as text so separators can be typed; parsed on save
+  const [emails, setEmails] = useState('')
+  const [dirty, setDirty] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['settings', 'digest'],
+    queryFn: ({ signal }) => settingsApi.getDigestSettings(signal),
+  })
+
+  const { data: mailStatus } = useQuery({
+    queryKey: ['mail', 'status'],
+    queryFn: ({ signal }) => mailApi.getStatus(signal),
+  })
+
+  useEffect(() => {
+    if (data) {
+      setSettings(data)
+      setEmails(data.emailRecipients.join(', '))
+      setDirty(false)
+    }
+  }, [data])
+
+  const update = (patch: Partial<DigestSettings>) => {
+    setSettings(prev => (prev ? { ...prev, ...patch } : prev))
+    setDirty(true)
+  }
+
+  const toggleSection = (section: DigestSection) => {
+    if (!settings) return
+    // Keep the order the digest prints them in
+    const sections = settings.sections.includes(section)
+      ? settings.sections.filter((s) => s !== section)
+      : SECTIONS.map((s) => s.key).filter((s) => s === section || settings.sections.includes(s))
+    update({ sections })
+  }
+
+  const handleSave = async () => {
+    if (!settings) return
+    setSaving(true)
+    try {
+      const updated = await settingsApi.updateDigestSettings({
+        ...settings,
+        emailRecipients: emails.split(/[\s,;]+/).filter(Boolean),
+      })
+      setSettings(updated)
+      setEmails(updated.emailRecipients.join(', '))
+      setDirty(false)
+      queryClient.invalidateQueries({ queryKey: ['settings', 'digest'] })
+      toast.success('Настройки дайджеста сохранены')
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="card p-6 flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-primary-600" />
+      </div>
+    )
+  }
+
+  if (isError || !settings) {
+    return (
+      <div className="card p-6 text-center text-red-500">
+        Не удалось загрузить настройки дайджеста
+      </div>
+    )
+  }
+
+  return (
+    <div className="card p-6 space-y-6">
+      <div className="border-b border-gray-200 dark:border-gray-600 pb-2">
+        <h2 className="text-lg font-semibold">Telegram-дайджест</h2>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Сводка для менеджеров и администраторов: ежедневная — за вчера, еженедельная — за 7 дней
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <label className="flex items-center gap-2 cursor-pointer text-sm">
+          <input
+            type="checkbox"
+            checked={settings.dailyEnabled}
+            onChange={() => update({ dailyEnabled: !settings.dailyEnabled })}
+          />
+          Ежедневный дайджест
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer text-sm">
+          <input
+            type="checkbox"
+            checked={settings.weeklyEnabled}
+            onChange={() => update({ weeklyEnabled: !settings.weeklyEnabled })}
+          />
+          Еженедельный дайджест
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-6">
+        <div className="space-y-1">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Время отправки
+          </label>
+          <select
+            className="input w-auto"
+            value={settings.hour}
+            onChange={(e) => update({ hour: Number(e.target.value) })}
+          >
+            {Array.from({ length: 24 }, (_, h) => (
+              <option key={h} value={h}>{`${String(h).padStart(2, '0')}:00`}</option>
+            ))}
+          </select>
+        </div>
+        {settings.weeklyEnabled && (
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              День недельного
+            </label>
+            <select
+              className="input w-auto"
+              value={settings.weeklyDay}
+              onChange={(e) => update({ weeklyDay: Number(e.target.value) })}
+            >
+              {WEEKDAYS.map((day, i) => (
+                <option key={day} value={i + 1}>{day}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 -mt-4">Время ташкентское</p>
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-gray-700 dark:text-gray-300">Разделы</div>
+        {SECTIONS.map((s) => (
+          <label key={s.key} className="flex items-center gap-2 cursor-pointer text-sm">
+            <input
+              type="checkbox"
+              checked={settings.sections.includes(s.key)}
+              onChange={() => toggleSection(s.key)}
+            />
+            {s.label}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-6">
+        <div className="space-y-1">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Ждут приёма дольше (часов)
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={720}
+            className="input w-28"
+            value={settings.pendingHours}
+            onChange={(e) => update({ pendingHours: Number(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Без инкассации дольше (дней)
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={365}
+            className="input w-28"
+            value={settings.staleDays}
+            onChange={(e) => update({ staleDays: Number(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Отправлять на email
+        </label>
+        <input
+          type="text"
+          className="input"
+          placeholder="accountant@example.com, director@example.com"
+          value={emails}
+          onChange={(e) => {
+            setEmails(e.target.value)
+            setDirty(true)
+          }}
+        />
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {mailStatus?.enabled
+            ? 'Письмо с теми же разделами и Excel-отчётом за период. Менеджеры, указавшие свой email в настройках уведомлений, получают его тоже'
+            : 'Почта не настроена на сервере — письма отправляться не будут'}
+        </p>
+      </div>
+
+      <div className="flex items-center gap-3 pt-4 border-t border-gray-200 dark:border-gray-600">
+        <button
+          onClick={handleSave}
+          disabled={!dirty || saving}
+          className="btn btn-primary flex items-center gap-2 disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          {saving ? 'Сохранение...' : 'Сохранить дайджест'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,488 @@
+import { useState, useRef } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { X, Paperclip, Send, ChevronLeft, ChevronRight } from 'lucide-react'
+import toast from 'react-hot-toast'
+import {
+  discrepanciesApi,
+  DiscrepancyCase,
+  DiscrepancyStatus,
+  DiscrepancyQuery,
+  CLOSED_DISCREPANCY_STATUSES,
+  DISCREPANCY_STATUS_LABELS,
+} from '../api/discrepancies'
+import { usersApi } from '../api/users'
+import { useAuthStore } from '../contexts/AuthContext'
+import { getErrorMessage } from '../utils/getErrorMessage'
+import ModalOverlay from './ui/ModalOverlay'
+
+const formatAmount = (amount: number) => new Intl.NumberFormat('ru-RU').format(Math.round(amount))
+
+const STATUS_STYLES: Record<DiscrepancyStatus, string> = {
+  open: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+  investigating: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
+  explained: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  written_off: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-400',
+  recovered_from_operator: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+}
+
+export function DiscrepancyStatusBadge({ status }: { status: DiscrepancyStatus }) {
+  return (
+    <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[status]}`}>
+      {DISCREPANCY_STATUS_LABELS[status]}
+    </span>
+  )
+}
+
+export default function DiscrepancyCases() {
+  const [query, setQuery] = useState<DiscrepancyQuery>({ activeOnly: true, page: 1, limit: 20 })
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['discrepancies', query],
+    queryFn: ({ signal }) => discrepanciesApi.getAll(query, signal),
+  })
+
+  const totalPages = data ? Math.ceil(data.total / (query.limit || 20)) : 0
+
+  const handleFilterChange = (value: string) => {
+    if (value === 'active') {
+      setQuery({ ...query, status: undefined, activeOnly: true, page: 1 })
+    } else if (value === 'all') {
+      setQuery({ ...query, status: undefined, activeOnly: undefined, page: 1 })
+    } else {
+      setQuery({ ...query, status: value as DiscrepancyStatus, activeOnly: undefined, page: 1 })
+    }
+  }
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex flex-wrap gap-3 items-end">
+        <div>
+          <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Статус</label>
+          <select
+            className="input text-sm"
+            value={query.status || (query.activeOnly ? 'active' : 'all')}
+            onChange={(e) => handleFilterChange(e.target.value)}
+          >
+            <option value="active">Активные</option>
+            <option value="all">Все</option>
+            {(Object.keys(DISCREPANCY_STATUS_LABELS) as DiscrepancyStatus[]).map((s) => (
+              <option key={s} value={s}>{DISCREPANCY_STATUS_LABELS[s]}</option>
+            ))}
+          </select>
+        </div>
+        {data && (
+          <div className="text-sm text-gray-500 dark:text-gray-400 pb-2">Найдено: {data.total}</div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="py-8 text-center text-gray-500 dark:text-gray-400">Загрузка...</div>
+      ) : !data?.data.length ? (
+        <div className="py-8 text-center text-gray-500 dark:text-gray-400">
+          Кейсов нет. Откройте кейс из детализации сверки.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 dark:bg-gray-700/50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400">Открыт</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400">Автомат</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400">Оператор</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400">Разница</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400">Ответственный</th>
+                <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 dark:text-gray-400">Статус</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+              {data.data.map((dc) => (
+                <tr
+                  key={dc.id}
+                  className="hover:bg-gray-100 dark:hover:bg-gray-700/70 text-sm cursor-pointer transition-colors"
+                  onClick={() => setSelectedId(dc.id)}
+                >
+                  <td className="px-3 py-2 text-gray-600 dark:text-gray-300 whitespace-nowrap text-xs">
+                    {format(new Date(dc.createdAt), 'dd.MM.yy HH:mm')}
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-gray-900 dark:text-gray-100">{dc.collection?.machine.name}</div>
+                    <div className="text-xs text-gray-400 font-mono">{dc.collection?.machine.code}</div>
+                  </td>
+                  <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{dc.collection?.operator.name}</td>
+                  <td className={`px-3 py-2 text-right font-medium whitespace-nowrap ${
+                    dc.kind === 'shortage' ? 'text-red-600 dark:text-red-400' : 'text-orange-600 dark:text-orange-400'
+                  }`}>
+                    {dc.kind === 'shortage' ? '−' : '+'}{formatAmount(Math.abs(Number(dc.difference)))}
+                  </td>
+                  <td className="px-3 py-2 text-gray-700 dark:text-gray-300">
+                    {dc.owner?.name || <span className="text-gray-400">—</span>}
+                  </td>
+                  <td className="px-3 py-2 text-center">
+                    <DiscrepancyStatusBadge status={dc.status} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2">
+          <button
+            className="btn btn-secondary p-2"
+            disabled={(query.page || 1) <= 1}
+            onClick={() => setQuery({ ...query, page: (query.page || 1) - 1 })}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-sm text-gray-600 dark:text-gray-300">
+            {query.page || 1} / {totalPages}
+          </span>
+          <button
+            className="btn btn-secondary p-2"
+            disabled={(query.page || 1) >= totalPages}
+            onClick={() => setQuery({ ...query, page: (query.page || 1) + 1 })}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {selectedId && (
+        <DiscrepancyCaseModal caseId={selectedId} onClose={() => setSelectedId(null)} />
+      )}
+    </div>
+  )
+}
+
+// ======================== CASE MODAL ========================
+
+export function DiscrepancyCaseModal({ caseId, onClose }: { caseId: string; onClose: () => void }) {
+  const queryClient = useQueryClient()
+  const { user } = useAuthStore()
+  const isAdmin = user?.role === 'admin'
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [status, setStatus] = useState<DiscrepancyStatus | ''>('')
+  const [resolution, setResolution] = useState('')
+  const [recoveredAmount, setRecoveredAmount] = useState('')
+  const [comment, setComment] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [isUploading, setIsUploading] = useState(false)
+
+  const { data: dc, isLoading } = useQuery({
+    queryKey: ['discrepancies', 'detail', caseId],
+    queryFn: ({ signal }) => discrepanciesApi.getById(caseId, signal),
+  })
+
+  // The user list is admin-only on the backend; managers can take a case themselves
+  const { data: owners } = useQuery({
+    queryKey: ['users', 'case-owners'],
+    queryFn: ({ signal }) => usersApi.getAll(undefined, false, signal),
+    enabled: isAdmin,
+    select: (users) => users.filter((u) => u.role !== 'operator'),
+  })
+
+  const refresh = (updated?: DiscrepancyCase) => {
+    if (updated) {
+      queryClient.setQueryData(['discrepancies', 'detail', caseId], updated)
+    }
+    queryClient.invalidateQueries({ queryKey: ['discrepancies'] })
+  }
+
+  const handleUpdate = async (data: Parameters<typeof discrepanciesApi.update>[1]) => {
+    setIsSaving(true)
+    try {
+      const updated = await discrepanciesApi.update(caseId, data)
+      refresh(updated)
+      return true
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error))
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleStatusSubmit = async () => {
+    if (!status) return
+    const closing = CLOSED_DISCREPANCY_STATUSES.includes(status)
+    if (closing && !resolution.trim() && !dc?.resolution) {
+      toast.error('Укажите решение для закрытия кейса')
+      return
+    }
+    if (status === 'recovered_from_operator' && !recoveredAmount && !dc?.recoveredAmount) {
+      toast.error('Укажите взысканную сумму')
+      return
+    }
+
+    const ok = await handleUpdate({
+      status,
+      resolution: resolution.trim() || undefined,
+      recoveredAmount: recoveredAmount ? Number(recoveredAmount) : undefined,
+      comment: comment.trim() || undefined,
+    })
+    if (ok) {
+      toast.success('Статус обновлён')
+      setStatus('')
+      setComment('')
+    }
+  }
+
+  const handleComment = async () => {
+    if (!comment.trim()) return
+    setIsSaving(true)
+    try {
+      await discrepanciesApi.addComment(caseId, comment.trim())
+      setComment('')
+      refresh()
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setIsUploading(true)
+    try {
+      await discrepanciesApi.uploadAttachment(caseId, file)
+      toast.success('Файл прикреплён')
+      refresh()
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error))
+    } finally {
+      setIsUploading(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  const handleDownload = async (attachmentId: string) => {
+    try {
+      const { url } = await discrepanciesApi.getAttachmentUrl(caseId, attachmentId)
+      window.open(url, '_blank', 'noopener')
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error))
+    }
+  }
+
+  const isClosed = dc ? CLOSED_DISCREPANCY_STATUSES.includes(dc.status) : false
+
+  return (
+    <ModalOverlay onClose={onClose} disableClose={isSaving || isUploading}>
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              {dc?.kind === 'overage' ? 'Излишек' : 'Недостача'}
+            </h2>
+            {dc?.collection && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {dc.collection.machine.name} ({dc.collection.machine.code}) · {dc.collection.operator.name}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {isLoading || !dc ? (
+          <div className="py-8 text-center text-gray-500 dark:text-gray-400">Загрузка...</div>
+        ) : (
+          <div className="flex-1 overflow-auto p-4 space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+              <div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">Ожидаемое</div>
+                <div className="font-bold mt-1">{formatAmount(Number(dc.expectedAmount))}</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">Инкассация</div>
+                <div className="font-bold mt-1">{formatAmount(Number(dc.actualAmount))}</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">Разница</div>
+                <div className={`font-bold mt-1 ${dc.kind === 'shortage' ? 'text-red-600 dark:text-red-400' : 'text-orange-600 dark:text-orange-400'}`}>
+                  {formatAmount(Math.abs(Number(dc.difference)))}
+                </div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">Статус</div>
+                <div className="mt-1"><DiscrepancyStatusBadge status={dc.status} /></div>
+              </div>
+            </div>
+
+            {/* Owner */}
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-gray-500 dark:text-gray-400">Ответственный:</span>
+              {isAdmin && owners ? (
+                <select
+                  className="input text-sm w-auto"
+                  value={dc.ownerId || ''}
+                  disabled={isSaving}
+                  onChange={(e) => handleUpdate({ ownerId: e.target.value || null })}
+                >
+                  <option value="">— не назначен —</option>
+                  {owners.map((u) => (
+                    <option key={u.id} value={u.id}>{u.name}</option>
+                  ))}
+                </select>
+              ) : (
+                <>
+                  <span className="font-medium">{dc.owner?.name || '—'}</span>
+                  {user && dc.ownerId !== user.id && (
+                    <button
+                      className="text-primary-600 hover:underline disabled:opacity-50"
+                      disabled={isSaving}
+                      onClick={() => handleUpdate({ ownerId: user.id })}
+                    >
+                      Взять себе
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+
+            {dc.resolution && (
+              <div className="text-sm">
+                <span className="text-gray-500 dark:text-gray-400">Решение: </span>
+                {dc.resolution}
+                {dc.recoveredAmount != null && (
+                  <span className="text-gray-500 dark:text-gray-400"> (взыскано {formatAmount(Number(dc.recoveredAmount))})</span>
+                )}
+              </div>
+            )}
+
+            {/* Status change */}
+            <div className="space-y-2 p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+              <div className="flex flex-wrap gap-2 items-center">
+                <select
+                  className="input text-sm w-auto"
+                  value={status}
+                  onChange={(e) => setStatus(e.target.value as DiscrepancyStatus | '')}
+                >
+                  <option value="">{isClosed ? 'Переоткрыть…' : 'Сменить статус…'}</option>
+                  {(Object.keys(DISCREPANCY_STATUS_LABELS) as DiscrepancyStatus[])
+                    .filter((s) => s !== dc.status)
+                    .map((s) => (
+                      <option key={s} value={s}>{DISCREPANCY_STATUS_LABELS[s]}</option>
+                    ))}
+                </select>
+                {status === 'recovered_from_operator' && (
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    className="input text-sm w-40"
+                    placeholder="Взыскано, сум"
+                    value={recoveredAmount}
+                    onChange={(e) => setRecoveredAmount(e.target.value)}
+                  />
+                )}
+              </div>
+              {status && CLOSED_DISCREPANCY_STATUSES.includes(status) && (
+                <input
+                  type="text"
+                  className="input text-sm"
+                  placeholder="Решение (обязательно)"
+                  maxLength={2000}
+                  value={resolution}
+                  onChange={(e) => setResolution(e.target.value)}
+                />
+              )}
+            </div>
+
+            {/* Activity */}
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">История</h3>
+              <div className="space-y-2">
+                {dc.comments?.map((c) => (
+                  <div key={c.id} className="text-sm border-l-2 border-gray-200 dark:border-gray-600 pl-3">
+                    <div className="text-xs text-gray-400">
+                      {format(new Date(c.createdAt), 'dd.MM.yy HH:mm')} · {c.author?.name}
+                    </div>
+                    {c.statusTo && (
+                      <div className="text-gray-600 dark:text-gray-300">
+                        {c.statusFrom ? `${DISCREPANCY_STATUS_LABELS[c.statusFrom]} → ` : ''}
+                        {DISCREPANCY_STATUS_LABELS[c.statusTo]}
+                      </div>
+                    )}
+                    {c.text && <div className="whitespace-pre-wrap text-gray-900 dark:text-gray-100">{c.text}</div>}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Attachments */}
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Файлы</h3>
+              {dc.attachments?.length ? (
+                <ul className="space-y-1 text-sm">
+                  {dc.attachments.map((a) => (
+                    <li key={a.id}>
+                      <button
+                        className="text-primary-600 hover:underline"
+                        onClick={() => handleDownload(a.id)}
+                      >
+                        {a.originalName}
+                      </button>
+                      <span className="text-xs text-gray-400 ml-2">
+                        {a.uploadedBy?.name} · {format(new Date(a.createdAt), 'dd.MM.yy')}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="text-sm text-gray-400">Нет файлов</div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 space-y-2">
+          <textarea
+            className="input text-sm"
+            rows={2}
+            maxLength={2000}
+            placeholder="Комментарий"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+          />
+          <div className="flex flex-wrap justify-end gap-2">
+            <input ref={fileInputRef} type="file" className="hidden" onChange={handleUpload} />
+            <button
+              className="btn btn-secondary flex items-center gap-1"
+              disabled={isUploading}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Paperclip className="w-4 h-4" />
+              {isUploading ? 'Загрузка...' : 'Файл'}
+            </button>
+            {status ? (
+              <button className="btn btn-primary" disabled={isSaving} onClick={handleStatusSubmit}>
+                Сохранить статус
+              </button>
+            ) : (
+              <button
+                className="btn btn-primary flex items-center gap-1"
+                disabled={isSaving || !comment.trim()}
+                onClick={handleComment}
+              >
+                <Send className="w-4 h-4" />
+                Отправить
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </ModalOverlay>
+  )
+}
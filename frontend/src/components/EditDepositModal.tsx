@@ -0,0 +1,139 @@
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { format } from 'date-fns'
+import { X } from 'lucide-react'
+import { BankDeposit, EditDepositData } from '../api/finance'
+import ModalOverlay from './ui/ModalOverlay'
+
+interface EditDepositModalProps {
+  deposit: BankDeposit
+  onClose: () => void
+  onSubmit: (data: EditDepositData) => Promise<void>
+}
+
+interface EditFormData {
+  amount: number
+  date: string
+  slipNumber: string
+  bankAccount: string
+  notes: string
+  reason: string
+}
+
+export default function EditDepositModal({ deposit, onClose, onSubmit }: EditDepositModalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const initial: Omit<EditFormData, 'reason'> = {
+    amount: Number(deposit.amount) || 0,
+    date: format(new Date(deposit.depositDate), "yyyy-MM-dd'T'HH:mm"),
+    slipNumber: deposit.slipNumber || '',
+    bankAccount: deposit.bankAccount || '',
+    notes: deposit.notes || '',
+  }
+  const { register, handleSubmit, formState: { errors } } = useForm<EditFormData>({
+    defaultValues: initial,
+  })
+
+  // Only changed fields are sent, so the audit trail lists real corrections
+  const handleFormSubmit = async (data: EditFormData) => {
+    const changes: EditDepositData = { reason: data.reason }
+    if (data.amount !== initial.amount) changes.amount = data.amount
+    if (data.date !== initial.date) changes.date = new Date(data.date).toISOString()
+    if (data.slipNumber !== initial.slipNumber) changes.slipNumber = data.slipNumber
+    if (data.bankAccount !== initial.bankAccount) changes.bankAccount = data.bankAccount
+    if (data.notes !== initial.notes) changes.notes = data.notes
+
+    setIsSubmitting(true)
+    try {
+      await onSubmit(changes)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <ModalOverlay onClose={onClose} disableClose={isSubmitting}>
+      <div className="bg-white dark:bg-gray-800 rounded-xl w-full max-w-md">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="font-semibold text-lg">Исправление депозита</h2>
+          <button onClick={onClose} disabled={isSubmitting} className="p-1 hover:bg-gray-100 rounded-lg disabled:opacity-50">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit(handleFormSubmit)} className="p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium mb-1">Сумма (сум)</label>
+              <input
+                type="number"
+                min="1"
+                className="input"
+                {...register('amount', {
+                  required: 'Введите сумму',
+                  valueAsNumber: true,
+                  min: { value: 1, message: 'Сумма должна быть больше 0' },
+                  max: { value: 1000000000, message: 'Сумма не может превышать 1,000,000,000' },
+                })}
+              />
+              {errors.amount && (
+                <p className="text-red-500 text-sm mt-1">{errors.amount.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Дата сдачи</label>
+              <input
+                type="datetime-local"
+                className="input"
+                {...register('date', { required: 'Укажите дату' })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">№ квитанции</label>
+              <input type="text" maxLength={50} className="input" {...register('slipNumber')} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Счёт</label>
+              <input type="text" maxLength={50} className="input" {...register('bankAccount')} />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Примечание</label>
+            <textarea
+              className="input min-h-[60px] resize-none"
+              {...register('notes', {
+                maxLength: { value: 1000, message: 'Максимум 1000 символов' },
+              })}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              Причина изменения <span className="text-red-500">*</span>
+            </label>
+            <textarea
+              className="input min-h-[80px] resize-none"
+              placeholder="Укажите причину изменения"
+              {...register('reason', {
+                required: 'Укажите причину',
+                maxLength: { value: 500, message: 'Максимум 500 символов' },
+              })}
+            />
+            {errors.reason && (
+              <p className="text-red-500 text-sm mt-1">{errors.reason.message}</p>
+            )}
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button type="button" onClick={onClose} disabled={isSubmitting} className="btn btn-secondary flex-1">
+              Отмена
+            </button>
+            <button type="submit" disabled={isSubmitting} className="btn btn-primary flex-1">
+              {isSubmitting ? 'Сохранение...' : 'Сохранить'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </ModalOverlay>
+  )
+}
@@ -0,0 +1,71 @@
+import { useQuery } from '@tanstack/react-query'
+import { Loader2 } from 'lucide-react'
+import { format } from 'date-fns'
+import { mailApi, EmailKind } from '../api/mail'
+
+const KIND_LABELS: Record<EmailKind, string> = {
+  report: 'Отчёт',
+  reconciliation: 'Сверка',
+  digest: 'Дайджест',
+}
+
+export default function EmailDeliveriesCard() {
+  const { data: status } = useQuery({
+    queryKey: ['mail', 'status'],
+    queryFn: ({ signal }) => mailApi.getStatus(signal),
+  })
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['mail', 'deliveries'],
+    queryFn: ({ signal }) => mailApi.getDeliveries({ limit: 20 }, signal),
+    enabled: !!status?.enabled,
+  })
+
+  if (!status?.enabled) return null
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div className="border-b border-gray-200 dark:border-gray-600 pb-2">
+        <h2 className="text-lg font-semibold">Отправленные письма</h2>
+        <p className="text-xs text-gray-500 dark:text-gray-400">Последние 20 писем с отчётами, сверками и дайджестами</p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-6 h-6 animate-spin text-primary-600" />
+        </div>
+      ) : !data?.data.length ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Писем пока не было</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="py-2 pr-3">Дата</th>
+                <th className="py-2 pr-3">Тип</th>
+                <th className="py-2 pr-3">Кому</th>
+                <th className="py-2">Статус</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.data.map((d) => (
+                <tr key={d.id} className="border-t border-gray-100 dark:border-gray-700">
+                  <td className="py-2 pr-3 whitespace-nowrap">{format(new Date(d.createdAt), 'dd.MM.yyyy HH:mm')}</td>
+                  <td className="py-2 pr-3">{KIND_LABELS[d.kind]}</td>
+                  <td className="py-2 pr-3 break-all">{d.recipients.join(', ')}</td>
+                  <td className="py-2">
+                    {d.status === 'sent' ? (
+                      <span className="text-green-600 dark:text-green-400">Отправлено</span>
+                    ) : (
+                      <span className="text-red-500" title={d.error || undefined}>Ошибка</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
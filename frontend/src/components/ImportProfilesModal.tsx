@@ -0,0 +1,393 @@
+import { useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { X, Plus, Pencil, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { salesApi, ImportProfile, ImportProfileData, ImportProfileSkipRule, SalesImportField } from '../api/sales'
+import { getErrorMessage } from '../utils/getErrorMessage'
+import ModalOverlay from './ui/ModalOverlay'
+
+const FIELDS: { key: SalesImportField; label: string; required?: boolean }[] = [
+  { key: 'machineCode', label: 'Код автомата', required: true },
+  { key: 'price', label: 'Цена', required: true },
+  { key: 'paymentResource', label: 'Способ оплаты', required: true },
+  { key: 'orderDate', label: 'Дата заказа', required: true },
+  { key: 'paymentStatus', label: 'Статус оплаты' },
+  { key: 'orderNumber', label: 'Номер заказа' },
+  { key: 'product', label: 'Продукт' },
+  { key: 'flavor', label: 'Вкус' },
+  { key: 'address', label: 'Адрес' },
+]
+
+const MATCH_LABELS: Record<ImportProfileSkipRule['match'], string> = {
+  contains: 'содержит',
+  equals: 'равно',
+  empty: 'пусто',
+}
+
+interface ProfileForm {
+  name: string
+  description: string
+  columns: Partial<Record<SalesImportField, string>>
+  headerRow: string
+  dateFormat: string
+  timezone: string
+  cash: string
+  card: string
+  refund: string
+  detectHeaders: string
+  skipRules: ImportProfileSkipRule[]
+  isActive: boolean
+}
+
+const EMPTY_FORM: ProfileForm = {
+  name: '',
+  description: '',
+  columns: {},
+  headerRow: '1',
+  dateFormat: 'auto',
+  timezone: 'Asia/Tashkent',
+  cash: 'наличн',
+  card: 'карт, qr',
+  refund: 'возвращ, refund',
+  detectHeaders: '',
+  skipRules: [],
+  isActive: true,
+}
+
+const splitList = (value: string) => value.split(',').map((s) => s.trim()).filter(Boolean)
+
+function toForm(profile: ImportProfile): ProfileForm {
+  return {
+    name: profile.name,
+    description: profile.description || '',
+    columns: { ...profile.columns },
+    headerRow: String(profile.headerRow),
+    dateFormat: profile.dateFormat,
+    timezone: profile.timezone,
+    cash: profile.payments.cash.join(', '),
+    card: profile.payments.card.join(', '),
+    refund: (profile.payments.refund || []).join(', '),
+    detectHeaders: profile.detectHeaders.join(', '),
+    skipRules: profile.skipRules.map((rule) => ({ ...rule })),
+    isActive: profile.isActive,
+  }
+}
+
+function toData(form: ProfileForm): ImportProfileData {
+  const columns = Object.fromEntries(
+    Object.entries(form.columns).filter(([, value]) => value?.trim()).map(([key, value]) => [key, value!.trim()]),
+  )
+  return {
+    name: form.name.trim(),
+    description: form.description.trim(),
+    columns,
+    headerRow: Number(form.headerRow) || 1,
+    dateFormat: form.dateFormat.trim() || 'auto',
+    timezone: form.timezone.trim() || 'Asia/Tashkent',
+    payments: { cash: splitList(form.cash), card: splitList(form.card), refund: splitList(form.refund) },
+    skipRules: form.skipRules.map((rule) => (rule.match === 'empty' ? { field: rule.field, match: rule.match } : rule)),
+    detectHeaders: splitList(form.detectHeaders),
+    isActive: form.isActive,
+  }
+}
+
+/**
+ * Admin editor for sales import profiles: column mapping, date format and
+ * timezone, payment keywords and skip rules per telemetry provider.
+ */
+export default function ImportProfilesModal({ onClose }: { onClose: () => void }) {
+  const queryClient = useQueryClient()
+  const [editing, setEditing] = useState<ImportProfile | 'new' | null>(null)
+  const [form, setForm] = useState<ProfileForm>(EMPTY_FORM)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { data: profiles, isLoading } = useQuery({
+    queryKey: ['sales', 'import-profiles'],
+    queryFn: ({ signal }) => salesApi.getImportProfiles(signal),
+  })
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['sales', 'import-profiles'] })
+
+  const startEdit = (profile: ImportProfile | 'new') => {
+    setEditing(profile)
+    setForm(profile === 'new' ? EMPTY_FORM : toForm(profile))
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    try {
+      const data = toData(form)
+      if (editing === 'new') {
+        await salesApi.createImportProfile(data)
+        toast.success('Профиль создан')
+      } else if (editing) {
+        await salesApi.updateImportProfile(editing.id, data)
+        toast.success('Профиль сохранён')
+      }
+      setEditing(null)
+      refresh()
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (profile: ImportProfile) => {
+    if (!confirm(`Удалить профиль «${profile.name}»?`)) return
+    try {
+      await salesApi.deleteImportProfile(profile.id)
+      toast.success('Профиль удалён')
+      refresh()
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error))
+    }
+  }
+
+  const updateRule = (index: number, patch: Partial<ImportProfileSkipRule>) => {
+    setForm({ ...form, skipRules: form.skipRules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)) })
+  }
+
+  return (
+    <ModalOverlay onClose={onClose} disableClose={isSaving}>
+      <div className="bg-white dark:bg-gray-800 rounded-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="font-semibold text-lg">
+            {editing === 'new' ? 'Новый профиль импорта' : editing ? `Профиль «${editing.name}»` : 'Профили импорта'}
+          </h2>
+          <button onClick={onClose} disabled={isSaving} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg disabled:opacity-50">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!editing ? (
+          <div className="flex-1 overflow-auto p-4 space-y-3">
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Файлы, не подходящие ни под один профиль, разбираются встроенным форматом.
+            </p>
+            {isLoading ? (
+              <div className="text-center text-gray-500 dark:text-gray-400">Загрузка...</div>
+            ) : !profiles?.length ? (
+              <div className="text-center text-gray-500 dark:text-gray-400 py-4">Профилей пока нет</div>
+            ) : (
+              <div className="divide-y divide-gray-100 dark:divide-gray-700">
+                {profiles.map((profile) => (
+                  <div key={profile.id} className="py-3 flex items-center justify-between gap-3">
+                    <div className={profile.isActive ? '' : 'opacity-50'}>
+                      <div className="font-medium">
+                        {profile.name}
+                        {!profile.isActive && <span className="ml-2 text-xs text-gray-400">отключён</span>}
+                      </div>
+                      {profile.description && (
+                        <div className="text-sm text-gray-500 dark:text-gray-400">{profile.description}</div>
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => startEdit(profile)}
+                        className="p-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+                        title="Редактировать"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(profile)}
+                        className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg"
+                        title="Удалить"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <button onClick={() => startEdit('new')} className="btn btn-primary inline-flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              Добавить профиль
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSave} className="flex-1 overflow-auto p-4 space-y-4 text-sm">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <label className="space-y-1">
+                <span className="font-medium">Название <span className="text-red-500">*</span></span>
+                <input
+                  className="input"
+                  required
+                  maxLength={100}
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="font-medium">Описание</span>
+                <input
+                  className="input"
+                  maxLength={500}
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </label>
+            </div>
+
+            <fieldset className="space-y-2">
+              <legend className="font-medium">Колонки</legend>
+              <p className="text-xs text-gray-400">Номер (3), буква (C) или часть заголовка («способ оплаты»)</p>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {FIELDS.map(({ key, label, required }) => (
+                  <label key={key} className="space-y-1">
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {label}
+                      {required && <span className="text-red-500"> *</span>}
+                    </span>
+                    <input
+                      className="input"
+                      required={required}
+                      maxLength={100}
+                      value={form.columns[key] || ''}
+                      onChange={(e) => setForm({ ...form, columns: { ...form.columns, [key]: e.target.value } })}
+                    />
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <label className="space-y-1">
+                <span className="font-medium">Строка заголовка</span>
+                <input
+                  type="number"
+                  min="1"
+                  max="50"
+                  className="input"
+                  value={form.headerRow}
+                  onChange={(e) => setForm({ ...form, headerRow: e.target.value })}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="font-medium">Формат даты</span>
+                <input
+                  className="input"
+                  placeholder="auto или dd.MM.yyyy HH:mm"
+                  maxLength={50}
+                  value={form.dateFormat}
+                  onChange={(e) => setForm({ ...form, dateFormat: e.target.value })}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="font-medium">Часовой пояс</span>
+                <input
+                  className="input"
+                  placeholder="Asia/Tashkent"
+                  maxLength={50}
+                  value={form.timezone}
+                  onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+                />
+              </label>
+            </div>
+
+            <fieldset className="space-y-2">
+              <legend className="font-medium">Способы оплаты (ключевые слова через запятую)</legend>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                <label className="space-y-1">
+                  <span className="text-gray-500 dark:text-gray-400">Наличные</span>
+                  <input className="input" value={form.cash} onChange={(e) => setForm({ ...form, cash: e.target.value })} />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-gray-500 dark:text-gray-400">Безнал</span>
+                  <input className="input" value={form.card} onChange={(e) => setForm({ ...form, card: e.target.value })} />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-gray-500 dark:text-gray-400">Возврат (в статусе)</span>
+                  <input className="input" value={form.refund} onChange={(e) => setForm({ ...form, refund: e.target.value })} />
+                </label>
+              </div>
+              <p className="text-xs text-gray-400">Строки с другими способами оплаты пропускаются</p>
+            </fieldset>
+
+            <fieldset className="space-y-2">
+              <legend className="font-medium">Пропускать строки</legend>
+              {form.skipRules.map((rule, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <select
+                    className="input w-auto"
+                    value={rule.field}
+                    onChange={(e) => updateRule(index, { field: e.target.value as SalesImportField })}
+                  >
+                    {FIELDS.map(({ key, label }) => (
+                      <option key={key} value={key}>{label}</option>
+                    ))}
+                  </select>
+                  <select
+                    className="input w-auto"
+                    value={rule.match}
+                    onChange={(e) => updateRule(index, { match: e.target.value as ImportProfileSkipRule['match'] })}
+                  >
+                    {Object.entries(MATCH_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  {rule.match !== 'empty' && (
+                    <input
+                      className="input w-auto flex-1"
+                      required
+                      maxLength={100}
+                      value={rule.value || ''}
+                      onChange={(e) => updateRule(index, { value: e.target.value })}
+                    />
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setForm({ ...form, skipRules: form.skipRules.filter((_, i) => i !== index) })}
+                    className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg"
+                    title="Удалить правило"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setForm({ ...form, skipRules: [...form.skipRules, { field: 'machineCode', match: 'equals', value: '' }] })}
+                className="text-primary-600 hover:underline"
+              >
+                + Добавить правило
+              </button>
+            </fieldset>
+
+            <label className="space-y-1 block">
+              <span className="font-medium">Заголовки для автоопределения (через запятую)</span>
+              <input
+                className="input"
+                placeholder="по умолчанию — заголовки из колонок"
+                value={form.detectHeaders}
+                onChange={(e) => setForm({ ...form, detectHeaders: e.target.value })}
+              />
+            </label>
+
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                className="w-4 h-4"
+                checked={form.isActive}
+                onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+              />
+              Активен
+            </label>
+
+            <div className="flex gap-3 pt-2">
+              <button type="button" onClick={() => setEditing(null)} disabled={isSaving} className="btn btn-secondary flex-1">
+                Назад
+              </button>
+              <button type="submit" disabled={isSaving} className="btn btn-primary flex-1">
+                {isSaving ? 'Сохранение...' : 'Сохранить'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </ModalOverlay>
+  )
+}
@@ -0,0 +1,215 @@
+import { useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { Link2, Plus, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { salesApi, UnresolvedMachineCode } from '../api/sales'
+import { machinesApi, Machine } from '../api/machines'
+import { useAuthStore } from '../contexts/AuthContext'
+import { getErrorMessage } from '../utils/getErrorMessage'
+
+function UnresolvedCodeRow({
+  item,
+  machines,
+  onResolved,
+}: {
+  item: UnresolvedMachineCode
+  machines: Machine[]
+  onResolved: () => void
+}) {
+  const [machineId, setMachineId] = useState(item.suggestedMachine?.id ?? '')
+  const [newName, setNewName] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const handleMap = async () => {
+    if (!machineId) return
+    setSaving(true)
+    try {
+      const res = await salesApi.mapMachineCode(item.code, machineId)
+      toast.success(`Код ${item.code} сопоставлен, привязано заказов: ${res.updated}`)
+      onResolved()
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCreate = async () => {
+    setSaving(true)
+    try {
+      const res = await salesApi.createMachineFromCode({ code: item.code, name: newName?.trim() || undefined })
+      toast.success(`Автомат ${res.machine.code} создан и ждёт подтверждения, привязано заказов: ${res.updated}`)
+      onResolved()
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <tr className="border-t border-gray-100 dark:border-gray-700">
+      <td className="py-2 pr-3 font-mono">{item.code}</td>
+      <td className="py-2 pr-3 text-right">{item.ordersCount}</td>
+      <td className="py-2 pr-3 text-gray-500 dark:text-gray-400 whitespace-nowrap">
+        {format(new Date(item.firstOrderDate), 'dd.MM.yyyy')} — {format(new Date(item.lastOrderDate), 'dd.MM.yyyy')}
+      </td>
+      <td className="py-2">
+        {newName === null ? (
+          <div className="flex flex-wrap gap-2">
+            <select
+              className="input text-sm w-auto"
+              value={machineId}
+              onChange={(e) => setMachineId(e.target.value)}
+              disabled={saving}
+            >
+              <option value="">Выберите автомат</option>
+              {machines.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.code} — {m.name}{m.status === 'pending' ? ' (ожидает)' : ''}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleMap}
+              disabled={saving || !machineId}
+              className="btn btn-primary text-sm inline-flex items-center gap-1.5"
+            >
+              <Link2 className="w-4 h-4" />
+              Сопоставить
+            </button>
+            <button
+              onClick={() => setNewName(item.code)}
+              disabled={saving}
+              className="btn btn-secondary text-sm inline-flex items-center gap-1.5"
+            >
+              <Plus className="w-4 h-4" />
+              Новый автомат
+            </button>
+          </div>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            <input
+              className="input text-sm w-auto"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Название автомата"
+              maxLength={255}
+              disabled={saving}
+            />
+            <button onClick={handleCreate} disabled={saving} className="btn btn-primary text-sm">
+              Создать
+            </button>
+            <button onClick={() => setNewName(null)} disabled={saving} className="btn btn-secondary text-sm">
+              Отмена
+            </button>
+          </div>
+        )}
+        {item.suggestedMachine && newName === null && (
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Похоже на {item.suggestedMachine.code} — {item.suggestedMachine.name}
+          </p>
+        )}
+      </td>
+    </tr>
+  )
+}
+
+export default function MachineCodesResolver() {
+  const queryClient = useQueryClient()
+  const { user } = useAuthStore()
+  const isAdmin = user?.role === 'admin'
+
+  const { data: unresolved, isLoading } = useQuery({
+    queryKey: ['sales', 'machine-codes', 'unresolved'],
+    queryFn: ({ signal }) => salesApi.getUnresolvedMachineCodes(signal),
+  })
+
+  const { data: aliases } = useQuery({
+    queryKey: ['sales', 'machine-aliases'],
+    queryFn: ({ signal }) => salesApi.getMachineAliases(signal),
+  })
+
+  const { data: machines } = useQuery({
+    queryKey: ['machines'],
+    queryFn: ({ signal }) => machinesApi.getAll(true, signal),
+  })
+
+  const handleResolved = () => {
+    queryClient.invalidateQueries({ queryKey: ['sales'] })
+    queryClient.invalidateQueries({ queryKey: ['machines'] })
+  }
+
+  const handleDeleteAlias = async (id: string, code: string) => {
+    if (!confirm(`Удалить соответствие для кода ${code}? Уже привязанные заказы останутся привязанными.`)) return
+    try {
+      await salesApi.deleteMachineAlias(id)
+      queryClient.invalidateQueries({ queryKey: ['sales', 'machine-aliases'] })
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error))
+    }
+  }
+
+  return (
+    <div className="p-4 space-y-6">
+      <div>
+        <h3 className="font-semibold mb-1">Неизвестные коды автоматов</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+          Заказы с этими кодами не привязаны к автоматам и не попадают в сверку. Сопоставьте код с автоматом
+          или создайте новый — заказы привяжутся автоматически, а код будет распознаваться при следующих импортах.
+        </p>
+        {isLoading ? (
+          <div className="text-gray-500 dark:text-gray-400 text-sm">Загрузка...</div>
+        ) : !unresolved || unresolved.length === 0 ? (
+          <div className="text-green-600 dark:text-green-400 text-sm">Все коды сопоставлены</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-500 dark:text-gray-400">
+                <tr>
+                  <th className="py-1 pr-3">Код</th>
+                  <th className="py-1 pr-3 text-right">Заказов</th>
+                  <th className="py-1 pr-3">Период</th>
+                  <th className="py-1">Автомат</th>
+                </tr>
+              </thead>
+              <tbody>
+                {unresolved.map((item) => (
+                  <UnresolvedCodeRow key={item.code} item={item} machines={machines || []} onResolved={handleResolved} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {aliases && aliases.length > 0 && (
+        <div>
+          <h3 className="font-semibold mb-3">Соответствия кодов</h3>
+          <div className="divide-y divide-gray-100 dark:divide-gray-700">
+            {aliases.map((alias) => (
+              <div key={alias.id} className="py-2 flex items-center justify-between text-sm">
+                <div>
+                  <span className="font-mono">{alias.code}</span>
+                  <span className="mx-2 text-gray-400">→</span>
+                  <span className="font-medium">{alias.machine.code}</span>
+                  <span className="ml-2 text-gray-500 dark:text-gray-400">{alias.machine.name}</span>
+                </div>
+                {isAdmin && (
+                  <button
+                    onClick={() => handleDeleteAlias(alias.id, alias.code)}
+                    className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg"
+                    title="Удалить соответствие"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
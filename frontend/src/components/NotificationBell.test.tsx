@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { render, screen, fireEvent } from '@testing-library/react'
+import { render as rtlRender, screen, fireEvent } from '@testing-library/react'
+import { MemoryRouter } from 'react-router-dom'
 import NotificationBell from './NotificationBell'
+import { notificationsApi } from '../api/notifications'
 
 // Mock the notifications store
 const mockNotifications = [
@@ -27,9 +29,18 @@ vi.mock('../hooks/useNotifications', () => ({
     markAsRead: vi.fn(),
     markAllAsRead: vi.fn(),
     clearAll: vi.fn(),
+    setHistory: vi.fn(),
   })),
 }))
 
+vi.mock('../api/notifications', () => ({
+  notificationsApi: {
+    getAll: vi.fn(() => Promise.resolve({ data: [], total: 0, unreadCount: 0 })),
+    markRead: vi.fn(() => Promise.resolve({})),
+    markAllRead: vi.fn(() => Promise.resolve({ updated: 0 })),
+  },
+}))
+
 // Mock date-fns
 vi.mock('date-fns', () => ({
   formatDistanceToNow: vi.fn(() => '5 минут назад'),
@@ -39,6 +50,8 @@ vi.mock('date-fns/locale', () => ({
   ru: {},
 }))
 
+const render = (ui: React.ReactElement) => rtlRender(<MemoryRouter>{ui}</MemoryRouter>)
+
 describe('NotificationBell', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -102,4 +115,34 @@ describe('NotificationBell', () => {
     const listItems = screen.getAllByRole('listitem')
     expect(listItems.length).toBeGreaterThan(0)
   })
+  it('should load notification history on mount', () => {
+    render(<NotificationBell />)
+
+    expect(notificationsApi.getAll).toHaveBeenCalledWith({ limit: 50 }, expect.any(AbortSignal))
+  })
+
+  it('should mark an unread notification read on the server', () => {
+    render(<NotificationBell />)
+
+    fireEvent.click(screen.getByRole('button', { name: /уведомления/i }))
+    fireEvent.click(screen.getByText(/Новая инкассация с автомата M001/i))
+
+    expect(notificationsApi.markRead).toHaveBeenCalledWith('1')
+  })
+
+  it('should not send already read notifications to the server', () => {
+    render(<NotificationBell />)
+
+    fireEvent.click(screen.getByRole('button', { name: /уведомления/i }))
+    fireEvent.click(screen.getByText(/Инкассация принята/i))
+
+    expect(notificationsApi.markRead).not.toHaveBeenCalled()
+  })
+  it('should link to notification settings', () => {
+    render(<NotificationBell />)
+
+    fireEvent.click(screen.getByRole('button', { name: /уведомления/i }))
+
+    expect(screen.getByRole('link', { name: /настройки уведомлений/i })).toHaveAttribute('href', '/settings/notifications')
+  })
 })
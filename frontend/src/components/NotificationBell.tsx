@@ -1,13 +1,48 @@
 import { useState, useRef, useEffect } from 'react'
-import { Bell, X, CheckCheck } from 'lucide-react'
+import { Link } from 'react-router-dom'
+import { Bell, X, CheckCheck, Settings } from 'lucide-react'
+import * as Sentry from '@sentry/react'
 import { useNotificationsStore, NotificationData } from '../hooks/useNotifications'
+import { notificationsApi } from '../api/notifications'
 import { formatDistanceToNow } from 'date-fns'
 import { ru } from 'date-fns/locale'
 
+const reportError = (error: unknown) =>
+  Sentry.captureException(error, { tags: { component: 'NotificationBell' } })
+
 export default function NotificationBell() {
   const [isOpen, setIsOpen] = useState(false)
   const dropdownRef = useRef<HTMLDivElement>(null)
-  const { notifications, unreadCount, markAsRead, markAllAsRead, clearAll } = useNotificationsStore()
+  const { notifications, unreadCount, markAsRead, markAllAsRead, clearAll, setHistory } = useNotificationsStore()
+
+  // Notifications that came in while this user was offline
+  useEffect(() => {
+    const controller = new AbortController()
+    notificationsApi
+      .getAll({ limit: 50 }, controller.signal)
+      .then((page) => {
+        setHistory(
+          page.data.map((n) => ({ ...n, timestamp: new Date(n.timestamp) })),
+          page.unreadCount,
+        )
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) reportError(error)
+      })
+    return () => controller.abort()
+  }, [setHistory])
+
+  const handleRead = (id: string) => {
+    const notification = notifications.find((n) => n.id === id)
+    if (!notification || notification.read) return
+    markAsRead(id)
+    notificationsApi.markRead(id).catch(reportError)
+  }
+
+  const handleReadAll = () => {
+    markAllAsRead()
+    notificationsApi.markAllRead().catch(reportError)
+  }
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -32,6 +67,10 @@ export default function NotificationBell() {
         return '🎉'
       case 'machine_rejected':
         return '⛔'
+      case 'machine_pending':
+        return '🔍'
+      case 'reconciliation_shortage':
+        return '⚠️'
       default:
         return '📢'
     }
@@ -49,6 +88,10 @@ export default function NotificationBell() {
         return `Автомат "${data.code}" был одобрен`
       case 'machine_rejected':
         return `Автомат "${data.code}" был отклонён: ${data.rejectionReason || '—'}`
+      case 'machine_pending':
+        return `Новый автомат "${data.code}" ждёт одобрения`
+      case 'reconciliation_shortage':
+        return `Недостачи при сверке: ${data.count ?? 0} (${data.machineCodes?.join(', ') || '—'})`
       default:
         return 'Новое уведомление'
     }
@@ -83,9 +126,18 @@ export default function NotificationBell() {
           <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
             <h3 className="font-medium text-gray-900 dark:text-gray-100" id="notifications-heading">Уведомления</h3>
             <div className="flex gap-1">
+              <Link
+                to="/settings/notifications"
+                onClick={() => setIsOpen(false)}
+                className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                title="Настройки уведомлений"
+                aria-label="Настройки уведомлений"
+              >
+                <Settings className="w-4 h-4 text-gray-500" aria-hidden="true" />
+              </Link>
               {unreadCount > 0 && (
                 <button
-                  onClick={markAllAsRead}
+                  onClick={handleReadAll}
                   className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
                   title="Отметить все как прочитанные"
                   aria-label="Отметить все как прочитанные"
@@ -118,11 +170,11 @@ export default function NotificationBell() {
                   className={`px-4 py-3 border-b border-gray-100 dark:border-gray-700 last:border-b-0 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 ${
                     !notification.read ? 'bg-blue-50 dark:bg-blue-900/20' : ''
                   }`}
-                  onClick={() => markAsRead(notification.id)}
+                  onClick={() => handleRead(notification.id)}
                   role="listitem"
                   aria-label={`${getNotificationText(notification.type, notification.data)}${!notification.read ? ', непрочитано' : ''}`}
                   tabIndex={0}
-                  onKeyDown={(e) => e.key === 'Enter' && markAsRead(notification.id)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleRead(notification.id)}
                 >
                   <div className="flex gap-3">
                     <span className="text-lg">{getNotificationIcon(notification.type)}</span>
@@ -0,0 +1,209 @@
+import { useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { formatDistanceToNow, format } from 'date-fns'
+import { ru } from 'date-fns/locale'
+import { X, Wallet } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { financeApi, OperatorBalance } from '../api/finance'
+import { collectionsApi } from '../api/collections'
+import { getErrorMessage } from '../utils/getErrorMessage'
+import ModalOverlay from './ui/ModalOverlay'
+
+const formatAmount = (amount: number) => new Intl.NumberFormat('ru-RU').format(amount)
+
+export default function OperatorBalances() {
+  const [handoverFor, setHandoverFor] = useState<OperatorBalance | null>(null)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['dashboard', 'operator-balances'],
+    queryFn: ({ signal }) => financeApi.getOperatorBalances(signal),
+  })
+
+  return (
+    <div className="card">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-600 flex items-center justify-between">
+        <h2 className="font-semibold">💼 Наличные у операторов</h2>
+        {data && data.totals.over72h > 0 && (
+          <span className="badge badge-danger">{data.totals.over72h} старше 3 дней</span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="p-8 text-center text-gray-500 dark:text-gray-400">Загрузка...</div>
+      ) : data && data.operators.length > 0 ? (
+        <div className="divide-y divide-gray-100 dark:divide-gray-700">
+          {data.operators.map((balance) => (
+            <div
+              key={balance.operatorId}
+              className="p-4 flex items-center justify-between gap-4 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+            >
+              <div className="flex items-center gap-4 min-w-0">
+                <div className="w-10 h-10 bg-purple-100 dark:bg-purple-900/30 rounded-lg flex items-center justify-center flex-shrink-0">
+                  <Wallet className="w-5 h-5 text-purple-600 dark:text-purple-400" />
+                </div>
+                <div className="min-w-0">
+                  <div className="font-medium text-gray-900 dark:text-gray-100">{balance.operatorName}</div>
+                  <div className="text-sm text-gray-500 dark:text-gray-400">
+                    {balance.pendingCount} инкасс.
+                    {balance.declaredAmount > 0 && <> • ~{formatAmount(balance.declaredAmount)} сум</>}
+                    {balance.undeclaredCount > 0 && balance.declaredAmount > 0 && (
+                      <> (+{balance.undeclaredCount} без подсчёта)</>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-1 mt-1 text-xs">
+                    {balance.ageing.upTo24h > 0 && (
+                      <span className="px-1.5 py-0.5 rounded bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                        до 24ч: {balance.ageing.upTo24h}
+                      </span>
+                    )}
+                    {balance.ageing.upTo72h > 0 && (
+                      <span className="px-1.5 py-0.5 rounded bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400">
+                        1–3 дня: {balance.ageing.upTo72h}
+                      </span>
+                    )}
+                    {balance.ageing.over72h > 0 && (
+                      <span className="px-1.5 py-0.5 rounded bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400">
+                        &gt;3 дней: {balance.ageing.over72h}
+                      </span>
+                    )}
+                    <span className="text-gray-400">
+                      старейшая {formatDistanceToNow(new Date(balance.oldestCollectedAt), { addSuffix: true, locale: ru })}
+                    </span>
+                  </div>
+                </div>
+              </div>
+              <button
+                onClick={() => setHandoverFor(balance)}
+                className="btn btn-primary text-sm flex-shrink-0"
+              >
+                Принять сдачу
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+          ✅ Все наличные сданы
+        </div>
+      )}
+
+      {handoverFor && (
+        <HandoverModal balance={handoverFor} onClose={() => setHandoverFor(null)} />
+      )}
+    </div>
+  )
+}
+
+// ======================== HANDOVER MODAL ========================
+
+function HandoverModal({ balance, onClose }: { balance: OperatorBalance; onClose: () => void }) {
+  const queryClient = useQueryClient()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [notes, setNotes] = useState('')
+  // Partial handovers are allowed: unchecked collections stay with the operator
+  const [selected, setSelected] = useState<Record<string, boolean>>(
+    () => Object.fromEntries(balance.collections.map((c) => [c.id, true])),
+  )
+  const [amounts, setAmounts] = useState<Record<string, string>>(
+    () => Object.fromEntries(balance.collections.map((c) => [c.id, c.declaredAmount ? String(c.declaredAmount) : ''])),
+  )
+
+  const items = balance.collections
+    .filter((c) => selected[c.id])
+    .map((c) => ({ collectionId: c.id, amount: Number(amounts[c.id]) }))
+  const total = items.reduce((sum, item) => sum + (item.amount || 0), 0)
+  const isValid = items.length > 0 && items.every((item) => item.amount > 0)
+
+  const handleSubmit = async () => {
+    if (!isValid) {
+      toast.error('Укажите сумму для каждой выбранной инкассации')
+      return
+    }
+    setIsSubmitting(true)
+    try {
+      await collectionsApi.handover({
+        operatorId: balance.operatorId,
+        items,
+        notes: notes.trim() || undefined,
+      })
+      toast.success(`Принято ${items.length} инкасс. на ${formatAmount(total)} сум`)
+      queryClient.invalidateQueries({ queryKey: ['dashboard'] })
+      queryClient.invalidateQueries({ queryKey: ['pending-collections'] })
+      onClose()
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <ModalOverlay onClose={onClose} disableClose={isSubmitting}>
+      <div className="bg-white dark:bg-gray-800 rounded-xl w-full max-w-lg max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h2 className="font-semibold text-lg">Сдача наличных</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{balance.operatorName}</p>
+          </div>
+          <button onClick={onClose} disabled={isSubmitting} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg disabled:opacity-50">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-2">
+          {balance.collections.map((c) => (
+            <div key={c.id} className="flex items-center gap-3 text-sm">
+              <input
+                type="checkbox"
+                checked={!!selected[c.id]}
+                onChange={(e) => setSelected({ ...selected, [c.id]: e.target.checked })}
+                className="w-4 h-4"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate">{c.machineName}</div>
+                <div className="text-xs text-gray-400">
+                  {c.machineCode} • {format(new Date(c.collectedAt), 'dd.MM HH:mm')}
+                </div>
+              </div>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                className="input w-36 text-sm"
+                placeholder="Сумма"
+                disabled={!selected[c.id]}
+                value={amounts[c.id]}
+                onChange={(e) => setAmounts({ ...amounts, [c.id]: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+          <input
+            type="text"
+            className="input text-sm"
+            placeholder="Примечание"
+            maxLength={1000}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+          <div className="flex items-center justify-between">
+            <div className="text-sm">
+              Итого: <span className="font-bold">{formatAmount(total)}</span> сум
+              <span className="text-gray-400 ml-1">({items.length} из {balance.collections.length})</span>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={onClose} disabled={isSubmitting} className="btn btn-secondary">
+                Отмена
+              </button>
+              <button onClick={handleSubmit} disabled={isSubmitting || !isValid} className="btn btn-primary">
+                {isSubmitting ? 'Сохранение...' : 'Принять'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </ModalOverlay>
+  )
+}
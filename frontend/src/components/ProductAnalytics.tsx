@@ -0,0 +1,237 @@
+import { useState, useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { format, subDays } from 'date-fns'
+import { Package } from 'lucide-react'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { salesApi, SalesHeatmapCell } from '../api/sales'
+
+const formatAmount = (amount: number) => new Intl.NumberFormat('ru-RU').format(Math.round(amount))
+
+const WEEKDAYS = ['Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб', 'Вс']
+const HOURS = Array.from({ length: 24 }, (_, i) => i)
+
+const productLabel = (productName: string | null, flavor: string | null) =>
+  `${productName || 'Без названия'}${flavor ? ` · ${flavor}` : ''}`
+
+function SalesHeatmap({ cells }: { cells: SalesHeatmapCell[] }) {
+  const byKey = useMemo(() => new Map(cells.map((c) => [`${c.weekday}:${c.hour}`, c])), [cells])
+  const maxUnits = useMemo(() => Math.max(1, ...cells.map((c) => c.units)), [cells])
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs border-separate border-spacing-0.5">
+        <thead>
+          <tr>
+            <th />
+            {HOURS.map((h) => (
+              <th key={h} className="w-7 font-normal text-gray-400">{h}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {WEEKDAYS.map((day, i) => (
+            <tr key={day}>
+              <td className="pr-2 text-gray-500 dark:text-gray-400">{day}</td>
+              {HOURS.map((h) => {
+                const cell = byKey.get(`${i + 1}:${h}`)
+                const intensity = cell ? cell.units / maxUnits : 0
+                return (
+                  <td
+                    key={h}
+                    className="w-7 h-6 rounded bg-gray-100 dark:bg-gray-700"
+                    style={cell ? { backgroundColor: `rgba(16, 185, 129, ${0.15 + intensity * 0.85})` } : undefined}
+                    title={cell
+                      ? `${day} ${h}:00 — ${cell.units} шт., ${formatAmount(cell.revenue)} сум`
+                      : `${day} ${h}:00 — нет продаж`}
+                  />
+                )
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default function ProductAnalytics() {
+  const defaultFrom = useMemo(() => format(subDays(new Date(), 30), 'yyyy-MM-dd'), [])
+  const defaultTo = useMemo(() => format(new Date(), 'yyyy-MM-dd'), [])
+  const [from, setFrom] = useState(defaultFrom)
+  const [to, setTo] = useState(defaultTo)
+  const [machineCode, setMachineCode] = useState('')
+
+  const query = useMemo(() => ({ from, to, machineCode: machineCode || undefined }), [from, to, machineCode])
+
+  const { data: machineCodes } = useQuery({
+    queryKey: ['sales', 'machine-codes'],
+    queryFn: ({ signal }) => salesApi.getMachineCodes(signal),
+  })
+
+  const { data: products, isLoading: loadingProducts } = useQuery({
+    queryKey: ['sales', 'analytics', 'products', query],
+    queryFn: ({ signal }) => salesApi.getProductSales(query, signal),
+  })
+
+  const { data: heatmap } = useQuery({
+    queryKey: ['sales', 'analytics', 'heatmap', query],
+    queryFn: ({ signal }) => salesApi.getSalesHeatmap(query, signal),
+  })
+
+  const { data: mix } = useQuery({
+    queryKey: ['sales', 'analytics', 'product-mix', query],
+    queryFn: ({ signal }) => salesApi.getProductMix(query, signal),
+    enabled: !!from && !!to,
+  })
+
+  // Totals per product across machines for the chart
+  const topProducts = useMemo(() => {
+    const totals = new Map<string, { label: string; units: number; revenue: number }>()
+    for (const item of products || []) {
+      const label = productLabel(item.productName, item.flavor)
+      const entry = totals.get(label) ?? { label, units: 0, revenue: 0 }
+      entry.units += item.units
+      entry.revenue += item.revenue
+      totals.set(label, entry)
+    }
+    return [...totals.values()].sort((a, b) => b.units - a.units).slice(0, 10)
+  }, [products])
+
+  return (
+    <div className="p-4 space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <Package className="w-5 h-5 text-primary-600" />
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Период:</span>
+        <input type="date" className="input w-auto" value={from} onChange={(e) => setFrom(e.target.value)} />
+        <span className="text-gray-400">—</span>
+        <input type="date" className="input w-auto" value={to} onChange={(e) => setTo(e.target.value)} />
+        <select className="input w-auto" value={machineCode} onChange={(e) => setMachineCode(e.target.value)}>
+          <option value="">Все автоматы</option>
+          {(machineCodes || []).map((code) => (
+            <option key={code} value={code}>{code}</option>
+          ))}
+        </select>
+      </div>
+
+      {loadingProducts ? (
+        <div className="p-12 text-center text-gray-500 dark:text-gray-400">Загрузка аналитики...</div>
+      ) : !products || products.length === 0 ? (
+        <div className="p-12 text-center text-gray-500 dark:text-gray-400">Нет продаж за выбранный период</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-4">Топ товаров по количеству</h3>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={topProducts} layout="vertical" margin={{ left: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis type="number" tick={{ fontSize: 11 }} allowDecimals={false} />
+                  <YAxis
+                    type="category"
+                    dataKey="label"
+                    tick={{ fontSize: 11 }}
+                    width={140}
+                    tickFormatter={(val: string) => val.length > 20 ? val.slice(0, 20) + '…' : val}
+                  />
+                  <Tooltip formatter={(value: number | string | undefined) => `${value ?? 0} шт.`} />
+                  <Bar dataKey="units" name="Продано" fill="#10b981" radius={[0, 4, 4, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-4">
+                Продажи по дням недели и часам
+              </h3>
+              <SalesHeatmap cells={heatmap || []} />
+              <p className="mt-2 text-xs text-gray-400">Время ташкентское, чем темнее — тем больше продаж</p>
+            </div>
+          </div>
+
+          {mix && mix.items.length > 0 && (
+            <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">Изменение ассортимента</h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                Доля в проданных штуках по сравнению с {format(new Date(mix.comparePeriod.from), 'dd.MM.yyyy')} —{' '}
+                {format(new Date(mix.comparePeriod.to), 'dd.MM.yyyy')}
+              </p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="text-left text-gray-500 dark:text-gray-400">
+                    <tr>
+                      <th className="py-1 pr-3">Товар</th>
+                      <th className="py-1 pr-3 text-right">Шт.</th>
+                      <th className="py-1 pr-3 text-right">Было шт.</th>
+                      <th className="py-1 pr-3 text-right">Доля</th>
+                      <th className="py-1 pr-3 text-right">Была доля</th>
+                      <th className="py-1 text-right">Изменение</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {mix.items.map((item) => (
+                      <tr
+                        key={`${item.productName}|${item.flavor}`}
+                        className="border-t border-gray-100 dark:border-gray-700"
+                      >
+                        <td className="py-1.5 pr-3">{productLabel(item.productName, item.flavor)}</td>
+                        <td className="py-1.5 pr-3 text-right">{item.units}</td>
+                        <td className="py-1.5 pr-3 text-right text-gray-500 dark:text-gray-400">{item.previousUnits}</td>
+                        <td className="py-1.5 pr-3 text-right">{item.share.toFixed(1)}%</td>
+                        <td className="py-1.5 pr-3 text-right text-gray-500 dark:text-gray-400">
+                          {item.previousShare.toFixed(1)}%
+                        </td>
+                        <td className={`py-1.5 text-right font-medium ${
+                          item.shareChange > 0
+                            ? 'text-green-600 dark:text-green-400'
+                            : item.shareChange < 0
+                              ? 'text-red-600 dark:text-red-400'
+                              : 'text-gray-400'
+                        }`}>
+                          {item.shareChange > 0 ? '+' : ''}{item.shareChange.toFixed(1)} п.п.
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">Товары по автоматам</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-gray-500 dark:text-gray-400">
+                  <tr>
+                    <th className="py-1 pr-3">Товар</th>
+                    <th className="py-1 pr-3">Вкус</th>
+                    <th className="py-1 pr-3">Автомат</th>
+                    <th className="py-1 pr-3 text-right">Шт.</th>
+                    <th className="py-1 text-right">Выручка</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {products.map((item) => (
+                    <tr
+                      key={`${item.productName}|${item.flavor}|${item.machineCode}`}
+                      className="border-t border-gray-100 dark:border-gray-700"
+                    >
+                      <td className="py-1.5 pr-3">{item.productName || 'Без названия'}</td>
+                      <td className="py-1.5 pr-3 text-gray-500 dark:text-gray-400">{item.flavor || '—'}</td>
+                      <td className="py-1.5 pr-3">
+                        {item.machineName || item.machineCode}
+                        {item.machineName && <span className="ml-1 text-xs text-gray-400 font-mono">{item.machineCode}</span>}
+                      </td>
+                      <td className="py-1.5 pr-3 text-right">{item.units}</td>
+                      <td className="py-1.5 text-right font-medium">{formatAmount(item.revenue)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
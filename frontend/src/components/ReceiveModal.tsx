@@ -1,7 +1,13 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { X } from 'lucide-react'
-import { Collection, DISTANCE_WARNING_THRESHOLD } from '../api/collections'
+import {
+  Collection,
+  DenominationCount,
+  DISTANCE_WARNING_THRESHOLD,
+  UZS_BANKNOTES,
+  UZS_COINS,
+} from '../api/collections'
 import { format } from 'date-fns'
 import ModalOverlay from './ui/ModalOverlay'
 import DistanceBadge from './DistanceBadge'
@@ -9,27 +15,77 @@ import DistanceBadge from './DistanceBadge'
 interface ReceiveModalProps {
   collection: Collection
   onClose: () => void
-  onSubmit: (amount: number, notes?: string) => Promise<void>
+  onSubmit: (amount: number, notes?: string, denominations?: DenominationCount[]) => Promise<void>
 }
 
+type EntryMode = 'amount' | 'denominations'
+
+const isBaseCurrency = (d: DenominationCount) => !d.currency || d.currency === 'UZS'
+
 export default function ReceiveModal({ collection, onClose, onSubmit }: ReceiveModalProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
-  const { register, handleSubmit, watch, formState: { errors } } = useForm<{
+  // Start in denomination mode if the operator already counted the notes
+  const operatorBreakdown = collection.denominations ?? []
+  const [mode, setMode] = useState<EntryMode>(operatorBreakdown.length > 0 ? 'denominations' : 'amount')
+  const [counts, setCounts] = useState<Record<number, number>>(() =>
+    Object.fromEntries(operatorBreakdown.filter(isBaseCurrency).map((d) => [d.value, d.count])),
+  )
+  const { register, handleSubmit, watch, setValue, formState: { errors } } = useForm<{
     amount: number
     notes?: string
   }>()
 
   const amount = watch('amount')
+  const countedTotal = Object.entries(counts).reduce((sum, [value, count]) => sum + Number(value) * count, 0)
+
+  useEffect(() => {
+    if (mode === 'denominations') {
+      setValue('amount', countedTotal, { shouldValidate: countedTotal > 0 })
+    }
+  }, [mode, countedTotal, setValue])
+
+  const setCount = (value: number, raw: string) => {
+    const count = Math.max(0, Math.floor(Number(raw) || 0))
+    setCounts((prev) => ({ ...prev, [value]: count }))
+  }
 
   const handleFormSubmit = async (data: { amount: number; notes?: string }) => {
     setIsSubmitting(true)
     try {
-      await onSubmit(data.amount, data.notes)
+      if (mode === 'denominations') {
+        const denominations: DenominationCount[] = [
+          ...Object.entries(counts)
+            .filter(([, count]) => count > 0)
+            .map(([value, count]) => ({ currency: 'UZS', value: Number(value), count })),
+          // Foreign notes reported by the operator are kept as-is
+          ...operatorBreakdown.filter((d) => !isBaseCurrency(d)),
+        ]
+        await onSubmit(countedTotal, data.notes, denominations)
+      } else {
+        await onSubmit(data.amount, data.notes)
+      }
     } finally {
       setIsSubmitting(false)
     }
   }
 
+  const renderCountInput = (value: number) => (
+    <label key={value} className="flex items-center gap-2 text-sm">
+      <span className="w-20 text-right text-gray-600 dark:text-gray-400">{value.toLocaleString('ru-RU')}</span>
+      <span className="text-gray-400">×</span>
+      <input
+        type="number"
+        min="0"
+        step="1"
+        inputMode="numeric"
+        className="input py-1"
+        value={counts[value] || ''}
+        onChange={(e) => setCount(value, e.target.value)}
+        placeholder="0"
+      />
+    </label>
+  )
+
   return (
     <ModalOverlay onClose={onClose} disableClose={isSubmitting}>
       <div className="bg-white dark:bg-gray-800 rounded-xl w-full max-w-md">
@@ -71,6 +127,44 @@ export default function ReceiveModal({ collection, onClose, onSubmit }: ReceiveM
             </div>
           )}
 
+          <div className="flex rounded-lg bg-gray-100 dark:bg-gray-700 p-1 text-sm">
+            {([['amount', 'Сумма'], ['denominations', '🧮 По купюрам']] as const).map(([value, label]) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setMode(value)}
+                className={`flex-1 rounded-md py-1.5 transition-colors ${
+                  mode === value
+                    ? 'bg-white dark:bg-gray-800 shadow font-medium'
+                    : 'text-gray-500 dark:text-gray-400'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'denominations' && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                {UZS_BANKNOTES.map(renderCountInput)}
+              </div>
+              <p className="text-xs text-gray-500">Монеты</p>
+              <div className="grid grid-cols-2 gap-2">
+                {UZS_COINS.map(renderCountInput)}
+              </div>
+              {operatorBreakdown.some((d) => !isBaseCurrency(d)) && (
+                <p className="text-xs text-gray-500">
+                  Валюта (не входит в сумму):{' '}
+                  {operatorBreakdown
+                    .filter((d) => !isBaseCurrency(d))
+                    .map((d) => `${d.currency} ${d.value}×${d.count}`)
+                    .join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium mb-1">
               Сумма (сум) <span className="text-red-500">*</span>
@@ -80,7 +174,8 @@ export default function ReceiveModal({ collection, onClose, onSubmit }: ReceiveM
               min="1"
               step="1"
               className="input"
-              placeholder="Введите сумму"
+              readOnly={mode === 'denominations'}
+              placeholder={mode === 'denominations' ? 'Считается по купюрам' : 'Введите сумму'}
               {...register('amount', {
                 required: 'Введите сумму',
                 valueAsNumber: true,
@@ -1,8 +1,12 @@
 import { useState } from 'react'
-import { useQuery } from '@tanstack/react-query'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { format } from 'date-fns'
 import { X } from 'lucide-react'
+import toast from 'react-hot-toast'
 import { ReconciliationItem, salesApi } from '../api/sales'
+import { discrepanciesApi } from '../api/discrepancies'
+import { getErrorMessage } from '../utils/getErrorMessage'
+import { DiscrepancyStatusBadge, DiscrepancyCaseModal } from './DiscrepancyCases'
 
 const formatAmount = (amount: number) => new Intl.NumberFormat('ru-RU').format(Math.round(amount))
 
@@ -70,6 +74,11 @@ export default function ReconciliationTable({ items }: ReconciliationTableProps)
                   <td className="px-3 py-2 text-right text-gray-900 dark:text-gray-100 whitespace-nowrap">
                     {formatAmount(item.expectedAmount)}
                     <div className="text-xs text-gray-400">{item.cashOrdersCount} заказов</div>
+                    {item.refundsAmount > 0 && (
+                      <div className="text-xs text-purple-500 dark:text-purple-400">
+                        возвраты −{formatAmount(item.refundsAmount)}
+                      </div>
+                    )}
                   </td>
                   <td className="px-3 py-2 text-right font-medium text-gray-900 dark:text-gray-100 whitespace-nowrap">
                     {formatAmount(item.actualAmount)}
@@ -179,6 +188,11 @@ function ReconciliationDetailModal({
             <div className="text-lg font-bold text-gray-900 dark:text-gray-100 mt-1">
               {formatAmount(item.expectedAmount)}
             </div>
+            {item.refundsAmount > 0 && (
+              <div className="text-xs text-purple-500 dark:text-purple-400">
+                с учётом возвратов −{formatAmount(item.refundsAmount)}
+              </div>
+            )}
           </div>
           <div className="text-center">
             <div className="text-xs text-gray-500 dark:text-gray-400">Инкассация</div>
@@ -259,7 +273,10 @@ function ReconciliationDetailModal({
         </div>
 
         {/* Footer */}
-        <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end">
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex items-center justify-end gap-3">
+          {(item.status === 'shortage' || item.status === 'overage') && (
+            <DiscrepancyCaseAction item={item} />
+          )}
           <button
             onClick={onClose}
             className="btn btn-secondary"
@@ -271,3 +288,57 @@ function ReconciliationDetailModal({
     </div>
   )
 }
+
+// ======================== CASE ACTION ========================
+
+function DiscrepancyCaseAction({ item }: { item: ReconciliationItem }) {
+  const queryClient = useQueryClient()
+  const [isCreating, setIsCreating] = useState(false)
+  const [openCaseId, setOpenCaseId] = useState<string | null>(null)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['discrepancies', { collectionId: item.collectionId }],
+    queryFn: ({ signal }) => discrepanciesApi.getAll({ collectionId: item.collectionId }, signal),
+  })
+  const existing = data?.data[0]
+
+  const handleCreate = async () => {
+    setIsCreating(true)
+    try {
+      const created = await discrepanciesApi.create({
+        collectionId: item.collectionId,
+        kind: item.status === 'overage' ? 'overage' : 'shortage',
+      })
+      toast.success('Кейс открыт')
+      queryClient.invalidateQueries({ queryKey: ['discrepancies'] })
+      setOpenCaseId(created.id)
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error))
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  if (isLoading) return null
+
+  return (
+    <>
+      {existing ? (
+        <button
+          className="flex items-center gap-2 text-sm text-primary-600 hover:underline"
+          onClick={() => setOpenCaseId(existing.id)}
+        >
+          Кейс <DiscrepancyStatusBadge status={existing.status} />
+        </button>
+      ) : (
+        <button className="btn btn-primary" disabled={isCreating} onClick={handleCreate}>
+          {isCreating ? 'Открытие...' : 'Открыть кейс'}
+        </button>
+      )}
+
+      {openCaseId && (
+        <DiscrepancyCaseModal caseId={openCaseId} onClose={() => setOpenCaseId(null)} />
+      )}
+    </>
+  )
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import ModalOverlay from './ui/ModalOverlay'
+
+interface SendEmailModalProps {
+  title: string
+  /** What gets attached, shown above the address field */
+  description: string
+  onClose: () => void
+  onSubmit: (recipients: string[]) => Promise<void>
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const parseRecipients = (value: string) =>
+  value.split(/[\s,;]+/).map((s) => s.trim()).filter(Boolean)
+
+export default function SendEmailModal({ title, description, onClose, onSubmit }: SendEmailModalProps) {
+  const [value, setValue] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const recipients = parseRecipients(value)
+  const invalid = recipients.filter((r) => !EMAIL_RE.test(r))
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (recipients.length === 0 || invalid.length > 0) return
+    setIsSubmitting(true)
+    try {
+      await onSubmit(recipients)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <ModalOverlay onClose={onClose} disableClose={isSubmitting}>
+      <div className="bg-white dark:bg-gray-800 rounded-xl w-full max-w-md">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="font-semibold text-lg">{title}</h2>
+          <button onClick={onClose} disabled={isSubmitting} className="p-1 hover:bg-gray-100 rounded-lg disabled:opacity-50">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">{description}</p>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              Получатели <span className="text-red-500">*</span>
+            </label>
+            <textarea
+              className="input min-h-[80px] resize-none"
+              placeholder="accountant@example.com"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Через запятую, до 10 адресов</p>
+            {invalid.length > 0 && (
+              <p className="text-xs text-red-500 mt-1">Неверный адрес: {invalid.join(', ')}</p>
+            )}
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button type="button" onClick={onClose} disabled={isSubmitting} className="btn btn-secondary flex-1">
+              Отмена
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting || recipients.length === 0 || recipients.length > 10 || invalid.length > 0}
+              className="btn btn-primary flex-1"
+            >
+              {isSubmitting ? 'Отправка...' : 'Отправить'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </ModalOverlay>
+  )
+}
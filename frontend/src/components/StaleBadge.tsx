@@ -0,0 +1,30 @@
+import { format } from 'date-fns'
+import { Flame } from 'lucide-react'
+import { CollectionEscalation } from '../api/collections'
+
+const LEVEL_LABELS: Record<CollectionEscalation['level'], string> = {
+  operator_reminder: 'напоминание оператору',
+  manager_alert: 'оповещены менеджеры',
+}
+
+/**
+ * Marks a pending collection that waited past the SLA; the tooltip lists
+ * the escalation steps taken so far.
+ */
+export default function StaleBadge({ escalations }: { escalations?: CollectionEscalation[] }) {
+  if (!escalations || escalations.length === 0) return null
+
+  const title = escalations
+    .map((e) => `${format(new Date(e.at), 'dd.MM HH:mm')} — ${LEVEL_LABELS[e.level]}`)
+    .join('\n')
+
+  return (
+    <span
+      className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400"
+      title={title}
+    >
+      <Flame className="w-3 h-3" />
+      Просрочена
+    </span>
+  )
+}
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { act } from '@testing-library/react'
-import { useNotificationsStore } from './useNotifications'
+import { useNotificationsStore, useImportProgressStore } from './useNotifications'
 
 describe('useNotificationsStore', () => {
   beforeEach(() => {
@@ -444,6 +444,49 @@ describe('useNotificationsStore', () => {
     })
   })
 
+  describe('setHistory method', () => {
+    const stored = (id: string, read: boolean) => ({
+      id,
+      type: 'collection_created' as const,
+      data: { machine: { code: 'M001' } },
+      timestamp: new Date(),
+      read,
+    })
+
+    it('should replace the list with server history and its unread count', () => {
+      act(() => {
+        useNotificationsStore.getState().setHistory([stored('a', false), stored('b', true)], 5)
+      })
+
+      const state = useNotificationsStore.getState()
+      expect(state.notifications.map((n) => n.id)).toEqual(['a', 'b'])
+      expect(state.unreadCount).toBe(5)
+    })
+
+    it('should keep live notifications the history does not have yet', () => {
+      act(() => {
+        useNotificationsStore.getState().addNotification({ ...stored('live', false), id: 'live' })
+        useNotificationsStore.getState().addNotification({ ...stored('a', false), id: 'a' })
+        useNotificationsStore.getState().setHistory([stored('a', false)], 1)
+      })
+
+      const state = useNotificationsStore.getState()
+      expect(state.notifications.map((n) => n.id)).toEqual(['live', 'a'])
+      expect(state.unreadCount).toBe(2)
+    })
+
+    it('should not add the same stored notification twice', () => {
+      act(() => {
+        useNotificationsStore.getState().setHistory([stored('a', false)], 1)
+        useNotificationsStore.getState().addNotification({ ...stored('a', false), id: 'a' })
+      })
+
+      const state = useNotificationsStore.getState()
+      expect(state.notifications).toHaveLength(1)
+      expect(state.unreadCount).toBe(1)
+    })
+  })
+
   describe('Integration tests', () => {
     it('should handle complex workflow', () => {
       let id1: string
@@ -536,3 +579,31 @@ describe('useNotificationsStore', () => {
     })
   })
 })
+
+describe('useImportProgressStore', () => {
+  beforeEach(() => {
+    useImportProgressStore.setState({ jobs: {} })
+  })
+
+  it('should keep the latest state of each job', () => {
+    const job = {
+      jobId: 'job-1',
+      status: 'running' as const,
+      fileName: 'big.xlsx',
+      percent: 10,
+      processedRows: 5000,
+      result: null,
+      error: null,
+    }
+
+    act(() => {
+      useImportProgressStore.getState().update(job)
+      useImportProgressStore.getState().update({ ...job, percent: 40, processedRows: 20000 })
+      useImportProgressStore.getState().update({ ...job, jobId: 'job-2', percent: 5 })
+    })
+
+    const { jobs } = useImportProgressStore.getState()
+    expect(Object.keys(jobs)).toEqual(['job-1', 'job-2'])
+    expect(jobs['job-1']).toMatchObject({ percent: 40, processedRows: 20000 })
+  })
+})
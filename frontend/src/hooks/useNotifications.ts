@@ -3,17 +3,30 @@ import { io, Socket } from 'socket.io-client'
 import { create } from 'zustand'
 import toast from 'react-hot-toast'
 import { useAuthStore } from '../contexts/AuthContext'
+import { ImportJob } from '../api/sales'
 
 export interface NotificationData {
   machine?: { code: string }
   amount?: number
   code?: string
   rejectionReason?: string
+  /** Reconciliation shortage summary */
+  count?: number
+  machineCodes?: string[]
 }
 
+export type NotificationType =
+  | 'collection_created'
+  | 'collection_received'
+  | 'collection_cancelled'
+  | 'machine_approved'
+  | 'machine_rejected'
+  | 'machine_pending'
+  | 'reconciliation_shortage'
+
 interface Notification {
   id: string
-  type: 'collection_created' | 'collection_received' | 'collection_cancelled' | 'machine_approved' | 'machine_rejected'
+  type: NotificationType
   data: NotificationData
   timestamp: Date
   read: boolean
@@ -22,7 +35,10 @@ interface Notification {
 interface NotificationsState {
   notifications: Notification[]
   unreadCount: number
-  addNotification: (notification: Omit<Notification, 'id' | 'read'>) => void
+  /** Live notification; id is the stored one when the server sent it */
+  addNotification: (notification: Omit<Notification, 'id' | 'read'> & { id?: string }) => void
+  /** Replace the list with history loaded from the server, keeping live ones it doesn't have yet */
+  setHistory: (notifications: Notification[], unreadCount: number) => void
   markAsRead: (id: string) => void
   markAllAsRead: () => void
   clearAll: () => void
@@ -35,14 +51,28 @@ export const useNotificationsStore = create<NotificationsState>((set) => ({
   addNotification: (notification) => {
     const newNotification: Notification = {
       ...notification,
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: notification.id || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       read: false,
     }
 
-    set((state) => ({
-      notifications: [newNotification, ...state.notifications].slice(0, 50), // Keep last 50
-      unreadCount: state.unreadCount + 1,
-    }))
+    set((state) => {
+      if (state.notifications.some((n) => n.id === newNotification.id)) return state
+      return {
+        notifications: [newNotification, ...state.notifications].slice(0, 50), // Keep last 50
+        unreadCount: state.unreadCount + 1,
+      }
+    })
+  },
+
+  setHistory: (history, unreadCount) => {
+    set((state) => {
+      const known = new Set(history.map((n) => n.id))
+      const live = state.notifications.filter((n) => !known.has(n.id))
+      return {
+        notifications: [...live, ...history].slice(0, 50),
+        unreadCount: unreadCount + live.filter((n) => !n.read).length,
+      }
+    })
   },
 
   markAsRead: (id) => {
@@ -72,6 +102,20 @@ export const useNotificationsStore = create<NotificationsState>((set) => ({
   },
 }))
 
+interface ImportProgressState {
+  jobs: Record<string, ImportJob>
+  update: (job: ImportJob) => void
+}
+
+/** Live state of background sales imports, pushed over the socket */
+export const useImportProgressStore = create<ImportProgressState>((set) => ({
+  jobs: {},
+
+  update: (job) => {
+    set((state) => ({ jobs: { ...state.jobs, [job.jobId]: job } }))
+  },
+}))
+
 const getNotificationMessage = (type: string, data: NotificationData): string => {
   switch (type) {
     case 'collection_created':
@@ -84,6 +128,10 @@ const getNotificationMessage = (type: string, data: NotificationData): string =>
       return `Автомат "${data.code}" одобрен`
     case 'machine_rejected':
       return `Автомат "${data.code}" отклонён`
+    case 'machine_pending':
+      return `Автомат "${data.code}" ждёт одобрения`
+    case 'reconciliation_shortage':
+      return `Недостачи при сверке: ${data.count ?? 0}`
     default:
       return 'Новое уведомление'
   }
@@ -93,6 +141,7 @@ export function useNotifications() {
   const socketRef = useRef<Socket | null>(null)
   const { isAuthenticated } = useAuthStore()
   const { addNotification } = useNotificationsStore()
+  const updateImportJob = useImportProgressStore((state) => state.update)
 
   const connect = useCallback(() => {
     if (!isAuthenticated) return
@@ -116,8 +165,9 @@ export function useNotifications() {
       console.log('WebSocket disconnected:', reason)
     })
 
-    socketRef.current.on('notification', (payload: { type: string; data: NotificationData; timestamp: Date }) => {
+    socketRef.current.on('notification', (payload: { id?: string; type: string; data: NotificationData; timestamp: Date }) => {
       addNotification({
+        id: payload.id,
         type: payload.type as Notification['type'],
         data: payload.data,
         timestamp: new Date(payload.timestamp),
@@ -131,10 +181,14 @@ export function useNotifications() {
       })
     })
 
+    socketRef.current.on('import_progress', (job: ImportJob) => {
+      updateImportJob(job)
+    })
+
     socketRef.current.on('connect_error', (error) => {
       console.error('WebSocket connection error:', error.message)
     })
-  }, [isAuthenticated, addNotification])
+  }, [isAuthenticated, addNotification, updateImportJob])
 
   const disconnect = useCallback(() => {
     if (socketRef.current) {
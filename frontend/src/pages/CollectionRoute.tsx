@@ -0,0 +1,260 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { MapContainer, TileLayer, Marker, Polyline, Popup, useMap } from 'react-leaflet'
+import L from 'leaflet'
+import 'leaflet/dist/leaflet.css'
+import toast from 'react-hot-toast'
+import { ArrowLeft, ExternalLink, Navigation, Route } from 'lucide-react'
+import { machinesApi, PlannedRoute } from '../api/machines'
+import { getErrorMessage } from '../utils/getErrorMessage'
+
+// Default to Tashkent, Uzbekistan
+const DEFAULT_CENTER: [number, number] = [41.2995, 69.2401]
+
+const formatDistance = (meters: number) =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)} км` : `${meters} м`
+
+const mapsLink = (lat: number, lng: number) => `https://www.google.com/maps/search/?api=1&query=${lat},${lng}`
+
+const stopIcon = (label: string, color: string) =>
+  L.divIcon({
+    className: '',
+    html: `<div style="background:${color};color:#fff;width:28px;height:28px;border-radius:9999px;display:flex;align-items:center;justify-content:center;font-weight:600;font-size:13px;border:2px solid #fff;box-shadow:0 1px 3px rgba(0,0,0,.4)">${label}</div>`,
+    iconSize: [28, 28],
+    iconAnchor: [14, 14],
+  })
+
+// Component to fit the map to the planned route
+function FitRoute({ points }: { points: [number, number][] }) {
+  const map = useMap()
+  useEffect(() => {
+    if (points.length === 1) map.setView(points[0], 15)
+    else if (points.length > 1) map.fitBounds(points, { padding: [30, 30] })
+  }, [points, map])
+  return null
+}
+
+export default function CollectionRoute() {
+  const [picked, setPicked] = useState<string[] | null>(null)
+  const [start, setStart] = useState<{ latitude: number; longitude: number } | null>(null)
+  const [isLocating, setIsLocating] = useState(false)
+  const [route, setRoute] = useState<PlannedRoute | null>(null)
+
+  const { data: machines = [], isLoading } = useQuery({
+    queryKey: ['machines', 'approved'],
+    queryFn: ({ signal }) => machinesApi.getAll(true, signal, true),
+  })
+
+  const { data: forecast = [] } = useQuery({
+    queryKey: ['dashboard', 'cash-forecast'],
+    queryFn: ({ signal }) => machinesApi.getCashForecast(signal),
+  })
+
+  const dueIds = useMemo(() => forecast.filter((f) => f.collectToday).map((f) => f.machine.id), [forecast])
+  // Until the user picks machines themselves, the route covers the ones due today
+  const selected = picked ?? dueIds
+
+  const planMutation = useMutation({
+    mutationFn: machinesApi.planRoute,
+    onSuccess: (data) => {
+      setRoute(data)
+      if (data.skipped.length > 0) {
+        toast.error(`Без координат: ${data.skipped.map((m) => m.name).join(', ')}`)
+      }
+    },
+    onError: (error: unknown) => {
+      toast.error(getErrorMessage(error))
+    },
+  })
+
+  const toggle = (id: string) => {
+    setPicked(selected.includes(id) ? selected.filter((s) => s !== id) : [...selected, id])
+  }
+
+  const locate = () => {
+    if (!navigator.geolocation) {
+      toast.error('Геолокация не поддерживается вашим браузером')
+      return
+    }
+    setIsLocating(true)
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setStart({ latitude: position.coords.latitude, longitude: position.coords.longitude })
+        setIsLocating(false)
+      },
+      () => {
+        toast.error('Не удалось определить местоположение')
+        setIsLocating(false)
+      },
+      { enableHighAccuracy: true, timeout: 10000 },
+    )
+  }
+
+  const buildRoute = () => {
+    planMutation.mutate({
+      machineIds: selected,
+      ...(start && { startLatitude: start.latitude, startLongitude: start.longitude }),
+    })
+  }
+
+  const path = useMemo<[number, number][]>(() => {
+    if (!route) return []
+    const points: [number, number][] = route.stops.map((s) => [s.latitude, s.longitude])
+    return route.start ? [[route.start.latitude, route.start.longitude], ...points] : points
+  }, [route])
+
+  const directionsLink = path.length > 0
+    ? `https://www.google.com/maps/dir/${path.map(([lat, lng]) => `${lat},${lng}`).join('/')}`
+    : null
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Link
+            to="/machines"
+            className="p-2 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+            title="К списку автоматов"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold">Маршрут инкассации</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Порядок объезда по кратчайшему расстоянию по прямой
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <button onClick={locate} disabled={isLocating} className="btn btn-secondary flex items-center gap-2">
+            <Navigation className={`w-4 h-4 ${isLocating ? 'animate-spin' : ''}`} />
+            {start ? 'Старт: моё местоположение' : 'Моё местоположение'}
+          </button>
+          <button
+            onClick={buildRoute}
+            disabled={selected.length === 0 || planMutation.isPending}
+            className="btn btn-primary flex items-center gap-2"
+          >
+            <Route className="w-4 h-4" />
+            {planMutation.isPending ? 'Построение...' : 'Построить маршрут'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">Автоматы</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+            Выбрано {selected.length}. По умолчанию — те, что нужно собрать сегодня
+          </p>
+          {isLoading ? (
+            <div className="text-sm text-gray-500 dark:text-gray-400">Загрузка...</div>
+          ) : (
+            <div className="max-h-[480px] overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+              {machines.map((m) => (
+                <label key={m.id} className="flex items-center gap-3 py-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(m.id)}
+                    onChange={() => toggle(m.id)}
+                  />
+                  <span className="min-w-0">
+                    <span className="font-medium">{m.name}</span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {m.location || m.code}
+                      {(m.latitude == null || m.longitude == null) && ' · нет координат'}
+                    </span>
+                  </span>
+                  {dueIds.includes(m.id) && <span className="badge badge-danger ml-auto">сегодня</span>}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          <div className="relative h-[400px] rounded-xl overflow-hidden border border-gray-200 dark:border-gray-700">
+            <MapContainer center={DEFAULT_CENTER} zoom={12} style={{ height: '100%', width: '100%' }} className="z-0">
+              <TileLayer
+                attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
+                url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+              />
+              {route?.start && (
+                <Marker position={[route.start.latitude, route.start.longitude]} icon={stopIcon('●', '#6b7280')}>
+                  <Popup>Старт</Popup>
+                </Marker>
+              )}
+              {route?.stops.map((stop) => (
+                <Marker key={stop.machine.id} position={[stop.latitude, stop.longitude]} icon={stopIcon(String(stop.order), '#2563eb')}>
+                  <Popup>
+                    {stop.order}. {stop.machine.name}
+                    {stop.machine.location && <><br />{stop.machine.location}</>}
+                  </Popup>
+                </Marker>
+              ))}
+              {path.length > 1 && <Polyline positions={path} color="#2563eb" />}
+              <FitRoute points={path} />
+            </MapContainer>
+          </div>
+
+          {route && (
+            <div className="card">
+              <div className="p-4 border-b border-gray-200 dark:border-gray-600 flex items-center justify-between gap-4">
+                <h2 className="font-semibold">
+                  {route.stops.length} ост. · {formatDistance(route.totalDistanceMeters)}
+                </h2>
+                {directionsLink && (
+                  <a
+                    href={directionsLink}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-primary-600 hover:underline inline-flex items-center gap-1"
+                  >
+                    Открыть в Google Maps <ExternalLink className="w-3.5 h-3.5" />
+                  </a>
+                )}
+              </div>
+              {route.stops.length === 0 ? (
+                <div className="p-8 text-center text-gray-500 dark:text-gray-400">Нет автоматов с координатами</div>
+              ) : (
+                <div className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {route.stops.map((stop) => (
+                    <div key={stop.machine.id} className="p-4 flex items-center justify-between gap-4">
+                      <div className="flex items-center gap-4 min-w-0">
+                        <div className="w-8 h-8 bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300 rounded-full flex items-center justify-center font-semibold flex-shrink-0">
+                          {stop.order}
+                        </div>
+                        <div className="min-w-0">
+                          <div className="font-medium">{stop.machine.name}</div>
+                          <div className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                            {stop.machine.location || stop.machine.code}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="text-right flex-shrink-0">
+                        {(route.start || stop.order > 1) && (
+                          <div className="text-sm text-gray-500 dark:text-gray-400">
+                            +{formatDistance(stop.distanceFromPreviousMeters)}
+                          </div>
+                        )}
+                        <a
+                          href={mapsLink(stop.latitude, stop.longitude)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs text-primary-600 hover:underline"
+                        >
+                          На карте
+                        </a>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
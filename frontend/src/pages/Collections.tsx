@@ -4,10 +4,11 @@ import { History } from 'lucide-react'
 import CollectionsList from './collections/CollectionsList'
 import PendingCollections from './collections/PendingCollections'
 import BankDeposits from './collections/BankDeposits'
+import CashFlow from './collections/CashFlow'
 import { useQuery } from '@tanstack/react-query'
 import { collectionsApi } from '../api/collections'
 
-type Tab = 'list' | 'pending' | 'finance'
+type Tab = 'list' | 'pending' | 'finance' | 'cashflow'
 
 export default function Collections() {
   const [activeTab, setActiveTab] = useState<Tab>('list')
@@ -75,6 +76,19 @@ export default function Collections() {
           >
             Касса и Банк
           </button>
+
+          <button
+            onClick={() => setActiveTab('cashflow')}
+            className={`
+              whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors
+              ${activeTab === 'cashflow'
+                ? 'border-primary-500 text-primary-600 dark:text-primary-400'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }
+            `}
+          >
+            Движение наличных
+          </button>
         </nav>
       </div>
 
@@ -83,6 +97,7 @@ export default function Collections() {
         {activeTab === 'list' && <CollectionsList />}
         {activeTab === 'pending' && <PendingCollections />}
         {activeTab === 'finance' && <BankDeposits />}
+        {activeTab === 'cashflow' && <CashFlow />}
       </div>
     </div>
   )
@@ -1,9 +1,10 @@
 import { useQuery } from '@tanstack/react-query'
 import { useState } from 'react'
-import { collectionsApi, Collection } from '../api/collections'
+import { collectionsApi, Collection, DenominationCount } from '../api/collections'
 import { format } from 'date-fns'
 import { Clock } from 'lucide-react'
 import ReceiveModal from '../components/ReceiveModal'
+import StaleBadge from '../components/StaleBadge'
 import toast from 'react-hot-toast'
 import { getErrorMessage } from '../utils/getErrorMessage'
 
@@ -15,10 +16,10 @@ export default function CollectionsPending() {
     queryFn: ({ signal }) => collectionsApi.getPending(signal),
   })
 
-  const handleReceive = async (amount: number, notes?: string) => {
+  const handleReceive = async (amount: number, notes?: string, denominations?: DenominationCount[]) => {
     if (!selectedCollection) return
     try {
-      await collectionsApi.receive(selectedCollection.id, { amount, notes })
+      await collectionsApi.receive(selectedCollection.id, { amount, notes, denominations })
       toast.success('Инкассация принята!')
       setSelectedCollection(null)
       refetch()
@@ -51,7 +52,10 @@ export default function CollectionsPending() {
                     <Clock className="w-6 h-6 text-yellow-600 dark:text-yellow-400" />
                   </div>
                   <div>
-                    <div className="font-medium text-lg text-gray-900 dark:text-gray-100">{collection.machine.name}</div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-lg text-gray-900 dark:text-gray-100">{collection.machine.name}</span>
+                      <StaleBadge escalations={collection.escalations} />
+                    </div>
                     <div className="text-sm text-gray-500 dark:text-gray-400 space-x-2">
                       <span>📍 {collection.machine.code}</span>
                       <span>•</span>
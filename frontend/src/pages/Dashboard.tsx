@@ -1,13 +1,15 @@
 import { useQuery } from '@tanstack/react-query'
 import { Clock, Banknote, Calendar, AlertTriangle, CheckCircle, ArrowRight } from 'lucide-react'
 import { reportsApi } from '../api/reports'
-import { collectionsApi, Collection } from '../api/collections'
+import { collectionsApi, Collection, DenominationCount } from '../api/collections'
 import { salesApi } from '../api/sales'
 import { format } from 'date-fns'
 import { useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import ReceiveModal from '../components/ReceiveModal'
 import DistanceBadge from '../components/DistanceBadge'
+import OperatorBalances from '../components/OperatorBalances'
+import CashForecast from '../components/CashForecast'
 import toast from 'react-hot-toast'
 import { getErrorMessage } from '../utils/getErrorMessage'
 
@@ -30,10 +32,10 @@ export default function Dashboard() {
     queryFn: ({ signal }) => salesApi.getReconciliation({}, signal),
   })
 
-  const handleReceive = async (amount: number, notes?: string) => {
+  const handleReceive = async (amount: number, notes?: string, denominations?: DenominationCount[]) => {
     if (!selectedCollection) return
     try {
-      await collectionsApi.receive(selectedCollection.id, { amount, notes })
+      await collectionsApi.receive(selectedCollection.id, { amount, notes, denominations })
       toast.success('Инкассация принята!')
       setSelectedCollection(null)
       refetchPending()
@@ -183,6 +185,12 @@ export default function Dashboard() {
         </div>
       )}
 
+      {/* Machines to collect today */}
+      <CashForecast />
+
+      {/* Cash held by operators */}
+      <OperatorBalances />
+
       {/* Pending collections */}
       <div className="card">
         <div className="p-4 border-b border-gray-200 dark:border-gray-600 flex items-center justify-between">
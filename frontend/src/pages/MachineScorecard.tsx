@@ -0,0 +1,202 @@
+import { useState, useMemo } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { format, subDays } from 'date-fns'
+import { ArrowLeft, MapPin } from 'lucide-react'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { machinesApi } from '../api/machines'
+import { getErrorMessage } from '../utils/getErrorMessage'
+
+const formatAmount = (amount: number) => new Intl.NumberFormat('ru-RU').format(Math.round(amount))
+
+const formatMonth = (month: string) => {
+  const [year, m] = month.split('-')
+  return `${m}.${year}`
+}
+
+function KpiCard({ label, value, hint, tone }: { label: string; value: string; hint?: string; tone?: 'red' | 'green' }) {
+  const toneClass = tone === 'red'
+    ? 'text-red-600 dark:text-red-400'
+    : tone === 'green'
+      ? 'text-green-600 dark:text-green-400'
+      : ''
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+      <p className="text-sm text-gray-500 dark:text-gray-400">{label}</p>
+      <p className={`text-2xl font-bold mt-1 ${toneClass}`}>{value}</p>
+      {hint && <p className="text-xs text-gray-400 mt-1">{hint}</p>}
+    </div>
+  )
+}
+
+export default function MachineScorecard() {
+  const { id = '' } = useParams<{ id: string }>()
+  const defaultFrom = useMemo(() => format(subDays(new Date(), 365), 'yyyy-MM-dd'), [])
+  const defaultTo = useMemo(() => format(new Date(), 'yyyy-MM-dd'), [])
+  const [from, setFrom] = useState(defaultFrom)
+  const [to, setTo] = useState(defaultTo)
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['machines', id, 'scorecard', from, to],
+    queryFn: ({ signal }) => machinesApi.getScorecard(id, { from, to }, signal),
+    enabled: !!id,
+  })
+
+  const trend = useMemo(
+    () => (data?.revenueTrend || []).map((p) => ({ ...p, label: formatMonth(p.month) })),
+    [data],
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Link
+            to="/machines"
+            className="p-2 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+            title="К списку автоматов"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold">{data ? data.machine.name : 'Показатели автомата'}</h1>
+            {data && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                <span className="font-mono">{data.machine.code}</span>
+                {data.machine.location && ` · ${data.machine.location}`}
+                {!data.machine.isActive && ' · деактивирован'}
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <input type="date" className="input w-auto" value={from} onChange={(e) => setFrom(e.target.value)} />
+          <span className="text-gray-400">—</span>
+          <input type="date" className="input w-auto" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="card p-12 text-center text-gray-500 dark:text-gray-400">Загрузка...</div>
+      ) : error ? (
+        <div className="card p-12 text-center text-red-600 dark:text-red-400">{getErrorMessage(error)}</div>
+      ) : data && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <KpiCard
+              label="Выручка"
+              value={`${formatAmount(data.revenue.total)} сум`}
+              hint={`${data.revenue.ordersCount} заказов`}
+            />
+            <KpiCard
+              label="Доля наличных"
+              value={`${data.revenue.cashShare.toFixed(1)}%`}
+              hint={`${formatAmount(data.revenue.cash)} нал. / ${formatAmount(data.revenue.card)} безнал.`}
+            />
+            <KpiCard
+              label="Дней между инкассациями"
+              value={data.collections.averageDaysBetween !== null ? data.collections.averageDaysBetween.toFixed(1) : '—'}
+              hint={data.collections.lastCollectedAt
+                ? `${data.collections.count} инкассаций, последняя ${format(new Date(data.collections.lastCollectedAt), 'dd.MM.yyyy')}`
+                : 'Инкассаций не было'}
+            />
+            <KpiCard
+              label="Накопленная недостача"
+              value={`${formatAmount(data.discrepancies.cumulativeShortage)} сум`}
+              hint={`${data.discrepancies.shortageCount} из ${data.discrepancies.reconciledCount} сверок`
+                + (data.discrepancies.overageCount > 0
+                  ? `, излишки ${formatAmount(data.discrepancies.cumulativeOverage)} сум`
+                  : '')}
+              tone={data.discrepancies.cumulativeShortage > 0 ? 'red' : undefined}
+            />
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-4">Выручка по месяцам</h3>
+            {trend.length === 0 ? (
+              <div className="py-12 text-center text-gray-500 dark:text-gray-400">Нет продаж за выбранный период</div>
+            ) : (
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={trend}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                  <YAxis tick={{ fontSize: 11 }} tickFormatter={(val: number) => formatAmount(val)} width={90} />
+                  <Tooltip formatter={(value: number | string | undefined) => `${formatAmount(Number(value ?? 0))} сум`} />
+                  <Legend />
+                  <Bar dataKey="cash" name="Наличные" stackId="revenue" fill="#10b981" />
+                  <Bar dataKey="card" name="Безналичные" stackId="revenue" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">Выручка по локациям</h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">Только дни внутри выбранного периода</p>
+              {data.locations.length === 0 ? (
+                <div className="text-sm text-gray-500 dark:text-gray-400">История локаций не заполнена</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-gray-500 dark:text-gray-400">
+                      <tr>
+                        <th className="py-1 pr-3">Адрес</th>
+                        <th className="py-1 pr-3">Период</th>
+                        <th className="py-1 pr-3 text-right">Выручка</th>
+                        <th className="py-1 text-right">В день</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {data.locations.map((loc) => (
+                        <tr key={loc.id} className="border-t border-gray-100 dark:border-gray-700">
+                          <td className="py-1.5 pr-3">
+                            <span className="inline-flex items-center gap-1">
+                              <MapPin className={`w-3.5 h-3.5 ${loc.isCurrent ? 'text-primary-600' : 'text-gray-400'}`} />
+                              {loc.address}
+                            </span>
+                          </td>
+                          <td className="py-1.5 pr-3 text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                            {format(new Date(loc.validFrom), 'dd.MM.yyyy')} —{' '}
+                            {loc.validTo ? format(new Date(loc.validTo), 'dd.MM.yyyy') : 'сейчас'}
+                          </td>
+                          <td className="py-1.5 pr-3 text-right">{formatAmount(loc.revenue)}</td>
+                          <td className="py-1.5 text-right font-medium">{formatAmount(loc.revenuePerDay)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">Аномалии расстояния</h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                Инкассации дальше {data.distance.thresholdMeters} м от автомата
+                (проверено {data.distance.checkedCount})
+              </p>
+              {data.distance.anomalies.length === 0 ? (
+                <div className="text-sm text-green-600 dark:text-green-400">Аномалий нет</div>
+              ) : (
+                <div className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {data.distance.anomalies.map((a) => (
+                    <div key={a.collectionId} className="py-2 flex items-center justify-between text-sm">
+                      <div>
+                        <span>{format(new Date(a.collectedAt), 'dd.MM.yyyy HH:mm')}</span>
+                        {a.operatorName && <span className="ml-2 text-gray-500 dark:text-gray-400">{a.operatorName}</span>}
+                      </div>
+                      <span className="font-medium text-red-600 dark:text-red-400">
+                        {formatAmount(a.distanceMeters)} м
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import { useState, useCallback } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { useForm } from 'react-hook-form'
+import { useNavigate } from 'react-router-dom'
 import {
   machinesApi,
   Machine,
@@ -24,6 +25,8 @@ import {
   Clock,
   CheckCircle,
   Ban,
+  BarChart3,
+  Route,
 } from 'lucide-react'
 import toast from 'react-hot-toast'
 import { getErrorMessage } from '../utils/getErrorMessage'
@@ -34,6 +37,8 @@ interface MachineForm {
   name: string
   location: string
   isActive: boolean
+  cashRefundsFromBox: boolean
+  cashCapacity: string
 }
 
 interface LocationForm {
@@ -45,6 +50,7 @@ interface LocationForm {
 
 export default function Machines() {
   const queryClient = useQueryClient()
+  const navigate = useNavigate()
   const [showModal, setShowModal] = useState(false)
   const [editingMachine, setEditingMachine] = useState<Machine | null>(null)
   const [showInactive, setShowInactive] = useState(false)
@@ -203,13 +209,15 @@ export default function Machines() {
         name: machine.name,
         location: machine.location || '',
         isActive: machine.isActive,
+        cashRefundsFromBox: machine.cashRefundsFromBox,
+        cashCapacity: machine.cashCapacity != null ? String(Number(machine.cashCapacity)) : '',
       })
       const lat = machine.latitude != null ? Number(machine.latitude) : undefined
       const lng = machine.longitude != null ? Number(machine.longitude) : undefined
       setSelectedCoords({ lat, lng })
       setShowMap(!!(lat && lng))
     } else {
-      reset({ code: '', name: '', location: '', isActive: true })
+      reset({ code: '', name: '', location: '', isActive: true, cashRefundsFromBox: false, cashCapacity: '' })
       setSelectedCoords({})
       setShowMap(false)
     }
@@ -305,6 +313,7 @@ export default function Machines() {
       ...data,
       latitude: selectedCoords.lat,
       longitude: selectedCoords.lng,
+      cashCapacity: data.cashCapacity ? Number(data.cashCapacity) : null,
     }
 
     if (editingMachine) {
@@ -317,6 +326,8 @@ export default function Machines() {
           latitude: machineData.latitude,
           longitude: machineData.longitude,
           isActive: String(machineData.isActive) === 'true',
+          cashRefundsFromBox: machineData.cashRefundsFromBox,
+          cashCapacity: machineData.cashCapacity,
         },
       })
     } else {
@@ -361,10 +372,16 @@ export default function Machines() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-bold">Автоматы</h1>
-        <button onClick={() => openModal()} className="btn btn-primary flex items-center gap-2">
-          <Plus className="w-4 h-4" />
-          Добавить
-        </button>
+        <div className="flex items-center gap-3">
+          <button onClick={() => navigate('/machines/route')} className="btn btn-secondary flex items-center gap-2">
+            <Route className="w-4 h-4" />
+            Маршрут
+          </button>
+          <button onClick={() => openModal()} className="btn btn-primary flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            Добавить
+          </button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -453,6 +470,13 @@ export default function Machines() {
                       >
                         <Edit className="w-4 h-4" />
                       </button>
+                      <button
+                        onClick={() => navigate(`/machines/${machine.id}`)}
+                        className="p-2 text-gray-500 dark:text-gray-400 hover:text-primary-600 dark:hover:text-primary-400 hover:bg-primary-50 dark:hover:bg-primary-900/30 rounded-lg"
+                        title="Показатели"
+                      >
+                        <BarChart3 className="w-4 h-4" />
+                      </button>
                       <button
                         onClick={() => openLocationsModal(machine)}
                         className="p-2 text-gray-500 dark:text-gray-400 hover:text-amber-600 dark:hover:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/30 rounded-lg"
@@ -569,6 +593,35 @@ export default function Machines() {
                 )}
               </div>
 
+              <label className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  {...register('cashRefundsFromBox')}
+                  className="mt-0.5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span className="text-sm">
+                  Возвраты наличными выдаются из кассы автомата
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    Сверка уменьшит ожидаемую сумму инкассации на сумму таких возвратов
+                  </span>
+                </span>
+              </label>
+
+              <div>
+                <label className="block text-sm font-medium mb-1">Вместимость кассы, сум</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={1000}
+                  className="input"
+                  placeholder="Не задана"
+                  {...register('cashCapacity')}
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Нужна для прогноза заполнения и маршрута инкассации
+                </p>
+              </div>
+
               {editingMachine && (
                 <div>
                   <label className="block text-sm font-medium mb-2">Статус</label>
@@ -0,0 +1,207 @@
+import { useState, useEffect } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Save, Loader2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import {
+  notificationsApi,
+  NotificationPreferences,
+  NotificationEvent,
+  NotificationChannel,
+} from '../api/notifications'
+import { getErrorMessage } from '../utils/getErrorMessage'
+
+const EVENT_LABELS: Record<NotificationEvent, string> = {
+  collection_created: 'Новая инкассация',
+  collection_received: 'Инкассация принята',
+  collection_cancelled: 'Инкассация отменена',
+  machine_approved: 'Автомат одобрен',
+  machine_rejected: 'Автомат отклонён',
+  machine_pending: 'Новый автомат на модерации',
+  reconciliation_shortage: 'Недостача при сверке',
+  collection_overdue: 'Инкассация не сдана вовремя',
+  digest: 'Дайджест',
+}
+
+const CHANNELS: { key: NotificationChannel; label: string }[] = [
+  { key: 'telegram', label: 'Telegram' },
+  { key: 'web', label: 'Веб' },
+  { key: 'email', label: 'Email-дайджест' },
+]
+
+export default function NotificationSettings() {
+  const queryClient = useQueryClient()
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null)
+  const [dirty, setDirty] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['notifications', 'preferences'],
+    queryFn: ({ signal }) => notificationsApi.getPreferences(signal),
+  })
+
+  useEffect(() => {
+    if (data) {
+      setPreferences(data)
+      setDirty(false)
+    }
+  }, [data])
+
+  const update = (patch: Partial<NotificationPreferences>) => {
+    setPreferences(prev => (prev ? { ...prev, ...patch } : prev))
+    setDirty(true)
+  }
+
+  const toggle = (event: NotificationEvent, channel: NotificationChannel) => {
+    if (!preferences) return
+    const switches = preferences.events[event]
+    if (!switches) return
+    update({ events: { ...preferences.events, [event]: { ...switches, [channel]: !switches[channel] } } })
+  }
+
+  const quietEnabled = !!preferences?.quietHoursStart
+  const emailEnabled = Object.values(preferences?.events || {}).some((s) => s.email)
+
+  const handleSave = async () => {
+    if (!preferences) return
+    setSaving(true)
+    try {
+      const updated = await notificationsApi.updatePreferences({
+        events: preferences.events,
+        quietHoursStart: preferences.quietHoursStart,
+        quietHoursEnd: preferences.quietHoursEnd,
+        digestEmail: preferences.digestEmail || null,
+      })
+      setPreferences(updated)
+      setDirty(false)
+      queryClient.invalidateQueries({ queryKey: ['notifications', 'preferences'] })
+      toast.success('Настройки уведомлений сохранены')
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-primary-600" />
+      </div>
+    )
+  }
+
+  if (isError || !preferences) {
+    return (
+      <div className="text-center py-12 text-red-500">
+        Ошибка загрузки настроек. Попробуйте обновить страницу.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6 max-w-2xl">
+      <h1 className="text-2xl font-bold">Уведомления</h1>
+
+      <div className="card p-6 space-y-6">
+        <h2 className="text-lg font-semibold border-b border-gray-200 dark:border-gray-600 pb-2">
+          События и каналы
+        </h2>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="py-2 pr-3">Событие</th>
+                {CHANNELS.map((c) => (
+                  <th key={c.key} className="py-2 px-3 text-center">{c.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {(Object.keys(preferences.events) as NotificationEvent[]).map((event) => (
+                <tr key={event} className="border-t border-gray-100 dark:border-gray-700">
+                  <td className="py-2 pr-3">{EVENT_LABELS[event]}</td>
+                  {CHANNELS.map((c) => (
+                    <td key={c.key} className="py-2 px-3 text-center">
+                      <input
+                        type="checkbox"
+                        aria-label={`${EVENT_LABELS[event]}: ${c.label}`}
+                        checked={!!preferences.events[event]?.[c.key]}
+                        onChange={() => toggle(event, c.key)}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {emailEnabled && (
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Email для дайджеста
+            </label>
+            <input
+              type="email"
+              className="input"
+              placeholder="name@example.com"
+              value={preferences.digestEmail || ''}
+              onChange={(e) => update({ digestEmail: e.target.value })}
+            />
+          </div>
+        )}
+
+        <h2 className="text-lg font-semibold border-b border-gray-200 dark:border-gray-600 pb-2 pt-4">
+          Тихие часы
+        </h2>
+
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 cursor-pointer text-sm">
+            <input
+              type="checkbox"
+              checked={quietEnabled}
+              onChange={() =>
+                update(quietEnabled
+                  ? { quietHoursStart: null, quietHoursEnd: null }
+                  : { quietHoursStart: '22:00', quietHoursEnd: '08:00' })
+              }
+            />
+            Не присылать сообщения в Telegram ночью
+          </label>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Время ташкентское. Недостачи по сверке придут в Telegram, когда тихие часы закончатся. Остальные сообщения за эти часы не досылаются, они остаются в колокольчике на сайте
+          </p>
+          {quietEnabled && (
+            <div className="flex items-center gap-3">
+              <input
+                type="time"
+                className="input w-auto"
+                value={preferences.quietHoursStart || ''}
+                onChange={(e) => update({ quietHoursStart: e.target.value })}
+              />
+              <span className="text-gray-400">—</span>
+              <input
+                type="time"
+                className="input w-auto"
+                value={preferences.quietHoursEnd || ''}
+                onChange={(e) => update({ quietHoursEnd: e.target.value })}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 pt-4 border-t border-gray-200 dark:border-gray-600">
+          <button
+            onClick={handleSave}
+            disabled={!dirty || saving}
+            className="btn btn-primary flex items-center gap-2 disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            {saving ? 'Сохранение...' : 'Сохранить'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,17 +1,28 @@
 import { useState } from 'react'
 import { useQuery } from '@tanstack/react-query'
 import { reportsApi, ReportQuery } from '../api/reports'
-import { Download } from 'lucide-react'
+import { mailApi } from '../api/mail'
+import { Download, Mail } from 'lucide-react'
 import toast from 'react-hot-toast'
+import SendEmailModal from '../components/SendEmailModal'
+import { getErrorMessage } from '../utils/getErrorMessage'
 
-type Tab = 'machine' | 'date' | 'operator'
+type Tab = 'machine' | 'date' | 'operator' | 'location'
 
 const formatAmount = (amount: number) => new Intl.NumberFormat('ru-RU').format(amount)
 
+const formatDate = (date: string) => date.split('-').reverse().join('.')
+
 export default function Reports() {
   const [activeTab, setActiveTab] = useState<Tab>('machine')
   const [query, setQuery] = useState<ReportQuery>({})
   const [exporting, setExporting] = useState(false)
+  const [emailOpen, setEmailOpen] = useState(false)
+
+  const { data: mailStatus } = useQuery({
+    queryKey: ['mail', 'status'],
+    queryFn: ({ signal }) => mailApi.getStatus(signal),
+  })
 
   const { data: byMachine, isLoading: loadingMachine } = useQuery({
     queryKey: ['reports-by-machine', query],
@@ -31,6 +42,12 @@ export default function Reports() {
     enabled: activeTab === 'operator',
   })
 
+  const { data: byLocation, isLoading: loadingLocation } = useQuery({
+    queryKey: ['reports-by-location', query],
+    queryFn: ({ signal }) => reportsApi.getByLocation(query, signal),
+    enabled: activeTab === 'location',
+  })
+
   const handleExport = async () => {
     if (exporting) return
     setExporting(true)
@@ -52,22 +69,54 @@ export default function Reports() {
     }
   }
 
+  const handleEmail = async (recipients: string[]) => {
+    try {
+      const delivery = await reportsApi.emailExport(query, recipients)
+      if (delivery.status === 'failed') {
+        toast.error(`Письмо не отправлено: ${delivery.error}`)
+        return
+      }
+      toast.success('Отчёт отправлен на почту')
+      setEmailOpen(false)
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error))
+    }
+  }
+
   const tabs = [
     { id: 'machine' as Tab, label: 'По автоматам' },
     { id: 'date' as Tab, label: 'По датам' },
     { id: 'operator' as Tab, label: 'По операторам' },
+    { id: 'location' as Tab, label: 'По локациям' },
   ]
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-bold">Отчёты</h1>
-        <button onClick={handleExport} disabled={exporting} className="btn btn-primary flex items-center gap-2 disabled:opacity-50">
-          <Download className="w-4 h-4" />
-          {exporting ? 'Экспорт...' : 'Excel'}
-        </button>
+        <div className="flex items-center gap-2">
+          {mailStatus?.enabled && (
+            <button onClick={() => setEmailOpen(true)} className="btn btn-secondary flex items-center gap-2">
+              <Mail className="w-4 h-4" />
+              Email
+            </button>
+          )}
+          <button onClick={handleExport} disabled={exporting} className="btn btn-primary flex items-center gap-2 disabled:opacity-50">
+            <Download className="w-4 h-4" />
+            {exporting ? 'Экспорт...' : 'Excel'}
+          </button>
+        </div>
       </div>
 
+      {emailOpen && (
+        <SendEmailModal
+          title="Отчёт на почту"
+          description="Excel-отчёт за выбранный период придёт вложением"
+          onClose={() => setEmailOpen(false)}
+          onSubmit={handleEmail}
+        />
+      )}
+
       {/* Date range */}
       <div className="card p-4 flex flex-wrap items-center gap-4">
         <span className="text-sm text-gray-500 dark:text-gray-400">Период:</span>
@@ -243,6 +292,137 @@ export default function Reports() {
             )}
           </div>
         )}
+
+        {/* By Location */}
+        {activeTab === 'location' && (
+          <div className="overflow-x-auto">
+            {loadingLocation ? (
+              <div className="p-8 text-center text-gray-500 dark:text-gray-400">Загрузка...</div>
+            ) : !byLocation?.data?.length ? (
+              <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+                Нет данных за выбранный период — проверьте, что у автоматов заполнена история локаций
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-200 dark:divide-gray-600">
+                <div>
+                  <h3 className="px-4 pt-4 pb-2 font-semibold">Рейтинг адресов</h3>
+                  <table className="w-full">
+                    <thead className="bg-gray-50 dark:bg-gray-700/50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-sm font-medium text-gray-500 dark:text-gray-400">#</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium text-gray-500 dark:text-gray-400">Адрес</th>
+                        <th className="px-4 py-3 text-right text-sm font-medium text-gray-500 dark:text-gray-400">Автоматов</th>
+                        <th className="px-4 py-3 text-right text-sm font-medium text-gray-500 dark:text-gray-400">Дней</th>
+                        <th className="px-4 py-3 text-right text-sm font-medium text-gray-500 dark:text-gray-400">Продажи</th>
+                        <th className="px-4 py-3 text-right text-sm font-medium text-gray-500 dark:text-gray-400">В день</th>
+                        <th className="px-4 py-3 text-right text-sm font-medium text-gray-500 dark:text-gray-400">Инкассировано</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                      {byLocation.ranking.map((item) => (
+                        <tr key={item.address} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                          <td className="px-4 py-3 text-gray-500 dark:text-gray-400">{item.rank}</td>
+                          <td className="px-4 py-3 text-gray-900 dark:text-gray-100">{item.address}</td>
+                          <td className="px-4 py-3 text-right text-gray-900 dark:text-gray-100">{item.machinesCount}</td>
+                          <td className="px-4 py-3 text-right text-gray-900 dark:text-gray-100">{item.days}</td>
+                          <td className="px-4 py-3 text-right text-gray-900 dark:text-gray-100">{formatAmount(item.revenue)}</td>
+                          <td className="px-4 py-3 text-right font-medium text-gray-900 dark:text-gray-100">
+                            {formatAmount(Math.round(item.revenuePerDay))}
+                          </td>
+                          <td className="px-4 py-3 text-right text-gray-500 dark:text-gray-400">
+                            {formatAmount(item.collectionsAmount)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {byLocation.moves.length > 0 && (
+                  <div>
+                    <h3 className="px-4 pt-4 pb-2 font-semibold">Переезды</h3>
+                    <table className="w-full">
+                      <thead className="bg-gray-50 dark:bg-gray-700/50">
+                        <tr>
+                          <th className="px-4 py-3 text-left text-sm font-medium text-gray-500 dark:text-gray-400">Автомат</th>
+                          <th className="px-4 py-3 text-left text-sm font-medium text-gray-500 dark:text-gray-400">Дата</th>
+                          <th className="px-4 py-3 text-left text-sm font-medium text-gray-500 dark:text-gray-400">Откуда → куда</th>
+                          <th className="px-4 py-3 text-right text-sm font-medium text-gray-500 dark:text-gray-400">До, в день</th>
+                          <th className="px-4 py-3 text-right text-sm font-medium text-gray-500 dark:text-gray-400">После, в день</th>
+                          <th className="px-4 py-3 text-right text-sm font-medium text-gray-500 dark:text-gray-400">Изменение</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                        {byLocation.moves.map((move) => (
+                          <tr key={`${move.machine.id}-${move.movedOn}`} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                            <td className="px-4 py-3 text-sm font-mono text-gray-900 dark:text-gray-100">{move.machine.code}</td>
+                            <td className="px-4 py-3 text-gray-900 dark:text-gray-100">{formatDate(move.movedOn)}</td>
+                            <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">
+                              {move.fromAddress} → {move.toAddress}
+                            </td>
+                            <td className="px-4 py-3 text-right text-gray-900 dark:text-gray-100">
+                              {formatAmount(Math.round(move.revenuePerDayBefore))}
+                            </td>
+                            <td className="px-4 py-3 text-right text-gray-900 dark:text-gray-100">
+                              {formatAmount(Math.round(move.revenuePerDayAfter))}
+                            </td>
+                            <td className={`px-4 py-3 text-right font-medium ${
+                              move.changePercent === null
+                                ? 'text-gray-400'
+                                : move.changePercent >= 0
+                                  ? 'text-green-600 dark:text-green-400'
+                                  : 'text-red-600 dark:text-red-400'
+                            }`}>
+                              {move.changePercent === null
+                                ? '—'
+                                : `${move.changePercent > 0 ? '+' : ''}${move.changePercent.toFixed(1)}%`}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                <div>
+                  <h3 className="px-4 pt-4 pb-2 font-semibold">Автоматы по локациям</h3>
+                  <table className="w-full">
+                    <thead className="bg-gray-50 dark:bg-gray-700/50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-sm font-medium text-gray-500 dark:text-gray-400">Код</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium text-gray-500 dark:text-gray-400">Адрес</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium text-gray-500 dark:text-gray-400">Период</th>
+                        <th className="px-4 py-3 text-right text-sm font-medium text-gray-500 dark:text-gray-400">Продажи</th>
+                        <th className="px-4 py-3 text-right text-sm font-medium text-gray-500 dark:text-gray-400">В день</th>
+                        <th className="px-4 py-3 text-right text-sm font-medium text-gray-500 dark:text-gray-400">Инкассаций</th>
+                        <th className="px-4 py-3 text-right text-sm font-medium text-gray-500 dark:text-gray-400">Сумма</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                      {byLocation.data.map((item) => (
+                        <tr key={item.location.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                          <td className="px-4 py-3 text-sm font-mono text-gray-900 dark:text-gray-100">{item.machine.code}</td>
+                          <td className="px-4 py-3 text-gray-900 dark:text-gray-100">{item.location.address}</td>
+                          <td className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                            {formatDate(item.location.validFrom)} — {item.location.validTo ? formatDate(item.location.validTo) : 'сейчас'}
+                          </td>
+                          <td className="px-4 py-3 text-right text-gray-900 dark:text-gray-100">{formatAmount(item.revenue)}</td>
+                          <td className="px-4 py-3 text-right font-medium text-gray-900 dark:text-gray-100">
+                            {formatAmount(Math.round(item.revenuePerDay))}
+                          </td>
+                          <td className="px-4 py-3 text-right text-gray-900 dark:text-gray-100">{item.collectionsCount}</td>
+                          <td className="px-4 py-3 text-right text-gray-900 dark:text-gray-100">
+                            {formatAmount(item.collectionsAmount)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   )
@@ -1,20 +1,71 @@
-import { useState, useCallback, useMemo } from 'react'
+import { useState, useCallback, useMemo, useEffect } from 'react'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
-import { salesApi, SalesQuery, ImportResult } from '../api/sales'
-import { Upload, Search, Trash2, ChevronLeft, ChevronRight, Bell, Download, BarChart3, X } from 'lucide-react'
+import {
+  salesApi, SalesQuery, ImportResult, ImportPreview, ImportJob, SalesImportField, ImportRejectReason,
+  BACKGROUND_IMPORT_THRESHOLD,
+} from '../api/sales'
+import { mailApi } from '../api/mail'
+import { Upload, Search, Trash2, ChevronLeft, ChevronRight, Bell, Download, BarChart3, X, Settings, FileWarning, Mail } from 'lucide-react'
 import { format, subDays } from 'date-fns'
 import toast from 'react-hot-toast'
 import { getErrorMessage } from '../utils/getErrorMessage'
 import ReconciliationTable from '../components/ReconciliationTable'
+import DiscrepancyCases from '../components/DiscrepancyCases'
+import ImportProfilesModal from '../components/ImportProfilesModal'
+import MachineCodesResolver from '../components/MachineCodesResolver'
+import ProductAnalytics from '../components/ProductAnalytics'
+import SendEmailModal from '../components/SendEmailModal'
+import { useAuthStore } from '../contexts/AuthContext'
+import { useImportProgressStore } from '../hooks/useNotifications'
 import {
   BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip,
   ResponsiveContainer, Legend, PieChart, Pie, Cell,
 } from 'recharts'
 
-type Tab = 'import' | 'orders' | 'reconciliation' | 'analytics'
+type Tab = 'import' | 'orders' | 'reconciliation' | 'cases' | 'machine-codes' | 'analytics' | 'products'
 
 const formatAmount = (amount: number) => new Intl.NumberFormat('ru-RU').format(amount)
 
+const MAX_FILE_SIZE = 50 * 1024 * 1024 // 50 MB
+
+const formatFileSize = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} МБ`
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(0)} КБ`
+  return `${bytes} Б`
+}
+
+const IMPORT_FIELD_LABELS: Record<SalesImportField, string> = {
+  orderNumber: 'Номер заказа',
+  product: 'Товар',
+  flavor: 'Вкус',
+  paymentResource: 'Способ оплаты',
+  paymentStatus: 'Статус оплаты',
+  machineCode: 'Код автомата',
+  address: 'Адрес',
+  price: 'Цена',
+  orderDate: 'Дата заказа',
+}
+
+const REJECT_REASON_LABELS: Record<ImportRejectReason, string> = {
+  skip_rule: 'правило пропуска',
+  unsupported_payment: 'не нал/карта',
+  missing_machine: 'нет кода автомата',
+  invalid_date: 'дата не распознана',
+  zero_price: 'нулевая цена',
+  parse_error: 'ошибка разбора',
+}
+
+function RejectedSummary({ counts }: { counts: Partial<Record<ImportRejectReason, number>> }) {
+  const entries = Object.entries(counts) as [ImportRejectReason, number][]
+  if (entries.length === 0) return null
+  return (
+    <div className="text-sm text-gray-600 dark:text-gray-300">
+      Не импортируются:{' '}
+      {entries.map(([reason, count]) => `${REJECT_REASON_LABELS[reason] ?? reason} — ${count}`).join(', ')}
+    </div>
+  )
+}
+
 export default function Sales() {
   const [activeTab, setActiveTab] = useState<Tab>('reconciliation')
   const queryClient = useQueryClient()
@@ -23,7 +74,10 @@ export default function Sales() {
     { id: 'import' as Tab, label: '📥 Импорт' },
     { id: 'orders' as Tab, label: '📊 База продаж' },
     { id: 'reconciliation' as Tab, label: '🔍 Сверка' },
+    { id: 'cases' as Tab, label: '🗂 Расхождения' },
+    { id: 'machine-codes' as Tab, label: '🔗 Коды автоматов' },
     { id: 'analytics' as Tab, label: '📈 Аналитика' },
+    { id: 'products' as Tab, label: '🥤 Товары' },
   ]
 
   return (
@@ -48,10 +102,18 @@ export default function Sales() {
           ))}
         </div>
 
-        {activeTab === 'import' && <ImportTab onImportSuccess={() => queryClient.invalidateQueries({ queryKey: ['sales'] })} />}
+        {activeTab === 'import' && (
+          <ImportTab
+            onImportSuccess={() => queryClient.invalidateQueries({ queryKey: ['sales'] })}
+            onResolveMachineCodes={() => setActiveTab('machine-codes')}
+          />
+        )}
         {activeTab === 'orders' && <OrdersTab />}
         {activeTab === 'reconciliation' && <ReconciliationTab />}
+        {activeTab === 'cases' && <DiscrepancyCases />}
+        {activeTab === 'machine-codes' && <MachineCodesResolver />}
         {activeTab === 'analytics' && <AnalyticsTab />}
+        {activeTab === 'products' && <ProductAnalytics />}
       </div>
     </div>
   )
@@ -59,31 +121,57 @@ export default function Sales() {
 
 // ======================== IMPORT TAB ========================
 
-function ImportTab({ onImportSuccess }: { onImportSuccess: () => void }) {
+function ImportTab({
+  onImportSuccess,
+  onResolveMachineCodes,
+}: {
+  onImportSuccess: () => void
+  onResolveMachineCodes: () => void
+}) {
   const [importing, setImporting] = useState(false)
   const [result, setResult] = useState<ImportResult | null>(null)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [confirming, setConfirming] = useState(false)
   const [deletingBatch, setDeletingBatch] = useState<string | null>(null)
   const [isDragging, setIsDragging] = useState(false)
   const [uploadProgress, setUploadProgress] = useState<{ loaded: number; total: number; percent: number } | null>(null)
   const [abortController, setAbortController] = useState<AbortController | null>(null)
+  const [profileId, setProfileId] = useState('')
+  const [showProfiles, setShowProfiles] = useState(false)
+  const [jobId, setJobId] = useState<string | null>(null)
+  const { user } = useAuthStore()
+  const isAdmin = user?.role === 'admin'
 
   const { data: batches, refetch: refetchBatches } = useQuery({
     queryKey: ['sales', 'batches'],
     queryFn: ({ signal }) => salesApi.getBatches(signal),
   })
 
-  const MAX_FILE_SIZE = 50 * 1024 * 1024 // 50 MB
-
-  const formatFileSize = (bytes: number) => {
-    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} МБ`
-    if (bytes >= 1024) return `${(bytes / 1024).toFixed(0)} КБ`
-    return `${bytes} Б`
-  }
+  // Background import: progress comes over the socket, polling is the fallback
+  const liveJob = useImportProgressStore((state) => (jobId ? state.jobs[jobId] : undefined))
+  const { data: polledJob } = useQuery({
+    queryKey: ['sales', 'import-job', jobId],
+    queryFn: ({ signal }) => salesApi.getImportJob(jobId!, signal),
+    enabled: !!jobId,
+    refetchInterval: 5000,
+  })
+  const job: ImportJob | undefined = useMemo(() => {
+    if (!liveJob || !polledJob) return liveJob ?? polledJob
+    if (liveJob.status !== 'running') return liveJob
+    if (polledJob.status !== 'running') return polledJob
+    return liveJob.processedRows >= polledJob.processedRows ? liveJob : polledJob
+  }, [liveJob, polledJob])
+
+  const { data: profiles } = useQuery({
+    queryKey: ['sales', 'import-profiles'],
+    queryFn: ({ signal }) => salesApi.getImportProfiles(signal),
+  })
+  const activeProfiles = useMemo(() => (profiles || []).filter((p) => p.isActive), [profiles])
 
-  const validateFile = (file: File): boolean => {
+  const validateFile = useCallback((file: File): boolean => {
     const ext = file.name.toLowerCase()
-    if (!ext.endsWith('.xlsx') && !ext.endsWith('.xls')) {
-      toast.error('Поддерживаются только файлы Excel (.xlsx, .xls)')
+    if (!['.xlsx', '.xls', '.csv', '.json'].some((e) => ext.endsWith(e))) {
+      toast.error('Поддерживаются только файлы Excel (.xlsx, .xls), CSV и JSON')
       return false
     }
     if (file.size > MAX_FILE_SIZE) {
@@ -91,7 +179,16 @@ function ImportTab({ onImportSuccess }: { onImportSuccess: () => void }) {
       return false
     }
     return true
-  }
+  }, [])
+
+  const handleImportDone = useCallback((res: ImportResult) => {
+    setResult(res)
+    const parts = [`Импортировано: ${res.imported}`]
+    if (res.duplicates > 0) parts.push(`дубликатов: ${res.duplicates}`)
+    toast.success(parts.join(', '))
+    onImportSuccess()
+    refetchBatches()
+  }, [onImportSuccess, refetchBatches])
 
   const startUpload = useCallback(async (file: File) => {
     if (!validateFile(file)) return
@@ -100,19 +197,26 @@ function ImportTab({ onImportSuccess }: { onImportSuccess: () => void }) {
     setAbortController(controller)
     setImporting(true)
     setResult(null)
+    setPreview(null)
     setUploadProgress({ loaded: 0, total: file.size, percent: 0 })
 
     try {
-      const res = await salesApi.import(file, {
+      const options = {
+        profileId: profileId || undefined,
         signal: controller.signal,
-        onUploadProgress: (progress) => setUploadProgress(progress),
-      })
-      setResult(res)
-      const parts = [`Импортировано: ${res.imported}`]
-      if (res.duplicates > 0) parts.push(`дубликатов: ${res.duplicates}`)
-      toast.success(parts.join(', '))
-      onImportSuccess()
-      refetchBatches()
+        onUploadProgress: setUploadProgress,
+      }
+      // Large files skip the preview: the server imports them in the background
+      if (file.size > BACKGROUND_IMPORT_THRESHOLD) {
+        const res = await salesApi.import(file, options)
+        if ('jobId' in res) {
+          setJobId(res.jobId)
+        } else {
+          handleImportDone(res)
+        }
+      } else {
+        setPreview(await salesApi.previewImport(file, options))
+      }
     } catch (error: unknown) {
       if (controller.signal.aborted) {
         toast.error('Загрузка отменена')
@@ -124,7 +228,34 @@ function ImportTab({ onImportSuccess }: { onImportSuccess: () => void }) {
       setUploadProgress(null)
       setAbortController(null)
     }
-  }, [onImportSuccess, refetchBatches])
+  }, [profileId, validateFile, handleImportDone])
+
+  useEffect(() => {
+    if (!job || job.status === 'running') return
+    setJobId(null)
+    if (job.status === 'completed' && job.result) {
+      handleImportDone(job.result)
+    } else {
+      toast.error(job.error || 'Ошибка импорта')
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [job?.status])
+
+  const handleConfirmImport = async () => {
+    if (!preview) return
+    setConfirming(true)
+    try {
+      const res = await salesApi.confirmImport(preview.token)
+      setPreview(null)
+      handleImportDone(res)
+    } catch (error: unknown) {
+      // An expired token can't be retried — the file has to be uploaded again
+      setPreview(null)
+      toast.error(getErrorMessage(error))
+    } finally {
+      setConfirming(false)
+    }
+  }
 
   const handleFileUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
@@ -149,17 +280,31 @@ function ImportTab({ onImportSuccess }: { onImportSuccess: () => void }) {
     e.preventDefault()
     e.stopPropagation()
     setIsDragging(false)
-    if (importing) return
+    if (importing || jobId) return
 
     const file = e.dataTransfer.files[0]
     if (!file) return
     startUpload(file)
-  }, [importing, startUpload])
+  }, [importing, jobId, startUpload])
 
   const handleCancelUpload = useCallback(() => {
     abortController?.abort()
   }, [abortController])
 
+  const handleDownloadRejected = async (batchId: string) => {
+    try {
+      const blob = await salesApi.exportRejectedRows(batchId)
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `rejected_${batchId}.xlsx`
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error))
+    }
+  }
+
   const handleDeleteBatch = async (batchId: string) => {
     if (!confirm('Удалить все заказы из этого импорта?')) return
     setDeletingBatch(batchId)
@@ -177,6 +322,30 @@ function ImportTab({ onImportSuccess }: { onImportSuccess: () => void }) {
 
   return (
     <div className="p-4 space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm text-gray-500 dark:text-gray-400">Формат файла:</span>
+        <select
+          className="input w-auto"
+          value={profileId}
+          onChange={(e) => setProfileId(e.target.value)}
+          disabled={importing || !!preview || !!jobId}
+        >
+          <option value="">Определить автоматически</option>
+          {activeProfiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+        {isAdmin && (
+          <button
+            onClick={() => setShowProfiles(true)}
+            className="btn btn-secondary text-sm inline-flex items-center gap-1.5"
+          >
+            <Settings className="w-4 h-4" />
+            Профили импорта
+          </button>
+        )}
+      </div>
+
       {/* Upload area with drag & drop */}
       <div
         onDragOver={handleDragOver}
@@ -232,19 +401,19 @@ function ImportTab({ onImportSuccess }: { onImportSuccess: () => void }) {
               isDragging ? 'text-primary-500' : 'text-gray-400'
             }`} />
             <p className="text-gray-600 dark:text-gray-300 mb-2">
-              {isDragging ? 'Отпустите файл для загрузки' : 'Перетащите Excel файл сюда или нажмите кнопку'}
+              {isDragging ? 'Отпустите файл для загрузки' : 'Перетащите файл продаж сюда или нажмите кнопку'}
             </p>
             <p className="text-sm text-gray-400 dark:text-gray-500 mb-4">
-              Поддерживаются файлы .xlsx и .xls до 50 МБ
+              Поддерживаются файлы .xlsx, .xls, .csv (UTF-8 или Windows-1251) и .json до 50 МБ
             </p>
             <label className="btn btn-primary inline-flex items-center gap-2 cursor-pointer">
               <Upload className="w-4 h-4" />
               Выбрать файл
               <input
                 type="file"
-                accept=".xlsx,.xls"
+                accept=".xlsx,.xls,.csv,.json"
                 onChange={handleFileUpload}
-                disabled={importing}
+                disabled={importing || !!jobId}
                 className="hidden"
               />
             </label>
@@ -252,10 +421,152 @@ function ImportTab({ onImportSuccess }: { onImportSuccess: () => void }) {
         )}
       </div>
 
+      {jobId && (
+        <div className="bg-primary-50 dark:bg-primary-900/20 border border-primary-200 dark:border-primary-800 rounded-lg p-4 space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium text-gray-700 dark:text-gray-300">
+              Импорт в фоне{job ? `: ${job.fileName}` : '...'}
+            </span>
+            <span className="text-gray-500 dark:text-gray-400">
+              {job ? `${job.percent}% · обработано строк: ${formatAmount(job.processedRows)}` : '0%'}
+            </span>
+          </div>
+          <div className="h-2.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-primary-500 rounded-full transition-all duration-300 ease-out"
+              style={{ width: `${job?.percent ?? 0}%` }}
+            />
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Большой файл обрабатывается на сервере — результат появится здесь автоматически
+          </p>
+        </div>
+      )}
+
+      {/* Dry-run preview: nothing is saved until the user confirms */}
+      {preview && (
+        <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4 space-y-3">
+          <h3 className="font-semibold text-blue-700 dark:text-blue-400">
+            Предпросмотр импорта
+            <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+              формат: {preview.profileName ?? 'встроенный'}
+            </span>
+          </h3>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+            <div>
+              <span className="text-gray-500 dark:text-gray-400">Новых:</span>{' '}
+              <span className="font-medium text-green-700 dark:text-green-400">{preview.newCount}</span>
+            </div>
+            <div>
+              <span className="text-gray-500 dark:text-gray-400">Дубликаты:</span>{' '}
+              <span className={`font-medium ${preview.duplicateCount > 0 ? 'text-orange-600 dark:text-orange-400' : ''}`}>
+                {preview.duplicateCount}
+              </span>
+            </div>
+            <div>
+              <span className="text-gray-500 dark:text-gray-400">Пропущено:</span>{' '}
+              <span className="font-medium">{preview.skipped}</span>
+            </div>
+            <div>
+              <span className="text-gray-500 dark:text-gray-400">Автоматов найдено:</span>{' '}
+              <span className="font-medium">{preview.machinesFound}</span>
+            </div>
+            <div>
+              <span className="text-gray-500 dark:text-gray-400">Период:</span>{' '}
+              <span className="font-medium">
+                {preview.dateFrom && preview.dateTo
+                  ? `${format(new Date(preview.dateFrom), 'dd.MM.yyyy')} — ${format(new Date(preview.dateTo), 'dd.MM.yyyy')}`
+                  : '—'}
+              </span>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2 text-xs">
+            {preview.columns.map((col) => (
+              <span key={col.field} className="px-2 py-1 rounded bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+                {IMPORT_FIELD_LABELS[col.field]} ← <span className="text-gray-500 dark:text-gray-400">{col.header || `колонка ${col.column}`}</span>
+              </span>
+            ))}
+          </div>
+          <RejectedSummary counts={preview.rejectedByReason} />
+          {preview.machinesNotFound.length > 0 && (
+            <div className="text-sm text-orange-600 dark:text-orange-400">
+              Автоматы не найдены в системе: {preview.machinesNotFound.join(', ')}
+            </div>
+          )}
+          {preview.errors.length > 0 && (
+            <details className="text-sm text-red-600 dark:text-red-400">
+              <summary className="cursor-pointer">Ошибки ({preview.errors.length})</summary>
+              <ul className="mt-2 space-y-1 ml-4 list-disc">
+                {preview.errors.map((err, i) => (
+                  <li key={i}>{err}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+          {preview.sampleRows.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-gray-500 dark:text-gray-400">
+                  <tr>
+                    <th className="py-1 pr-3">Заказ</th>
+                    <th className="py-1 pr-3">Дата</th>
+                    <th className="py-1 pr-3">Автомат</th>
+                    <th className="py-1 pr-3">Товар</th>
+                    <th className="py-1 pr-3">Оплата</th>
+                    <th className="py-1 text-right">Сумма</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-blue-100 dark:divide-blue-900/40">
+                  {preview.sampleRows.map((row, i) => (
+                    <tr key={i}>
+                      <td className="py-1 pr-3 font-mono text-xs">{row.orderNumber || '—'}</td>
+                      <td className="py-1 pr-3">{format(new Date(row.orderDate), 'dd.MM.yyyy HH:mm')}</td>
+                      <td className="py-1 pr-3">{row.machineCode}</td>
+                      <td className="py-1 pr-3">{row.productName || '—'}</td>
+                      <td className="py-1 pr-3">
+                        {row.paymentMethod === 'cash' ? 'Наличные' : 'Карта'}
+                        {row.paymentStatus === 'refunded' && <span className="ml-1 text-red-500">(возврат)</span>}
+                      </td>
+                      <td className="py-1 text-right">{formatAmount(row.price)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {preview.totalRows > preview.sampleRows.length && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Показано {preview.sampleRows.length} из {preview.totalRows} строк
+                </p>
+              )}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={handleConfirmImport}
+              disabled={confirming || preview.newCount === 0}
+              className="btn btn-primary text-sm"
+            >
+              {confirming ? 'Импорт...' : `Импортировать (${preview.newCount})`}
+            </button>
+            <button
+              onClick={() => setPreview(null)}
+              disabled={confirming}
+              className="btn btn-secondary text-sm"
+            >
+              Отмена
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Import result */}
       {result && (
         <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4 space-y-2">
-          <h3 className="font-semibold text-green-700 dark:text-green-400">Результат импорта</h3>
+          <h3 className="font-semibold text-green-700 dark:text-green-400">
+            Результат импорта
+            <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+              формат: {result.profileName ?? 'встроенный'}
+            </span>
+          </h3>
           <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
             <div>
               <span className="text-gray-500 dark:text-gray-400">Импортировано:</span>{' '}
@@ -280,9 +591,13 @@ function ImportTab({ onImportSuccess }: { onImportSuccess: () => void }) {
               <span className="font-mono text-xs">{result.batchId}</span>
             </div>
           </div>
+          <RejectedSummary counts={result.rejectedByReason} />
           {result.machinesNotFound.length > 0 && (
             <div className="text-sm text-orange-600 dark:text-orange-400">
               Автоматы не найдены в системе: {result.machinesNotFound.join(', ')}
+              <button onClick={onResolveMachineCodes} className="ml-2 underline hover:no-underline">
+                Сопоставить коды
+              </button>
             </div>
           )}
           {result.errors.length > 0 && (
@@ -295,6 +610,15 @@ function ImportTab({ onImportSuccess }: { onImportSuccess: () => void }) {
               </ul>
             </details>
           )}
+          {Object.keys(result.rejectedByReason).length > 0 && (
+            <button
+              onClick={() => handleDownloadRejected(result.batchId)}
+              className="btn btn-secondary text-sm inline-flex items-center gap-1.5"
+            >
+              <FileWarning className="w-4 h-4" />
+              Скачать отклонённые строки (.xlsx)
+            </button>
+          )}
         </div>
       )}
 
@@ -313,8 +637,35 @@ function ImportTab({ onImportSuccess }: { onImportSuccess: () => void }) {
                   </span>
                   <span className="mx-2 text-gray-400">•</span>
                   <span className="text-sm font-medium">{batch.ordersCount} заказов</span>
+                  {batch.rejectedCount > 0 && (
+                    <>
+                      <span className="mx-2 text-gray-400">•</span>
+                      <span className="text-sm text-orange-600 dark:text-orange-400">{batch.rejectedCount} отклонено</span>
+                    </>
+                  )}
+                  {batch.status === 'running' && (
+                    <>
+                      <span className="mx-2 text-gray-400">•</span>
+                      <span className="text-sm text-blue-600 dark:text-blue-400">импортируется</span>
+                    </>
+                  )}
+                  {batch.status === 'failed' && (
+                    <>
+                      <span className="mx-2 text-gray-400">•</span>
+                      <span className="text-sm text-red-600 dark:text-red-400">прерван, загружен не полностью</span>
+                    </>
+                  )}
                 </div>
                 <div className="flex gap-1">
+                  {batch.rejectedCount > 0 && (
+                    <button
+                      onClick={() => handleDownloadRejected(batch.batchId)}
+                      className="p-2 text-orange-500 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-lg"
+                      title="Скачать отклонённые строки"
+                    >
+                      <FileWarning className="w-4 h-4" />
+                    </button>
+                  )}
                   <button
                     onClick={async () => {
                       try {
@@ -347,6 +698,8 @@ function ImportTab({ onImportSuccess }: { onImportSuccess: () => void }) {
           </div>
         </div>
       )}
+
+      {showProfiles && <ImportProfilesModal onClose={() => setShowProfiles(false)} />}
     </div>
   )
 }
@@ -520,6 +873,12 @@ function ReconciliationTab() {
   const [query, setQuery] = useState<{ machineCode?: string; from?: string; to?: string }>({})
   const [notifying, setNotifying] = useState(false)
   const [exporting, setExporting] = useState(false)
+  const [emailOpen, setEmailOpen] = useState(false)
+
+  const { data: mailStatus } = useQuery({
+    queryKey: ['mail', 'status'],
+    queryFn: ({ signal }) => mailApi.getStatus(signal),
+  })
 
   const { data: machineCodes } = useQuery({
     queryKey: ['sales', 'machine-codes'],
@@ -565,6 +924,20 @@ function ReconciliationTab() {
     }
   }
 
+  const handleEmail = async (recipients: string[]) => {
+    try {
+      const delivery = await salesApi.emailReconciliation(query, recipients)
+      if (delivery.status === 'failed') {
+        toast.error(`Письмо не отправлено: ${delivery.error}`)
+        return
+      }
+      toast.success('Сверка отправлена на почту')
+      setEmailOpen(false)
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error))
+    }
+  }
+
   return (
     <div className="space-y-4">
       {/* Filters */}
@@ -613,9 +986,29 @@ function ReconciliationTab() {
             <Download className="w-4 h-4" />
             {exporting ? 'Экспорт...' : 'Excel'}
           </button>
+          {mailStatus?.enabled && (
+            <button
+              onClick={() => setEmailOpen(true)}
+              disabled={!data?.items?.length}
+              className="btn btn-secondary text-sm flex items-center gap-1 disabled:opacity-50"
+              title="Отправить отчёт сверки на почту"
+            >
+              <Mail className="w-4 h-4" />
+              Email
+            </button>
+          )}
         </div>
       </div>
 
+      {emailOpen && (
+        <SendEmailModal
+          title="Сверка на почту"
+          description="Excel-файл сверки с текущими фильтрами придёт вложением"
+          onClose={() => setEmailOpen(false)}
+          onSubmit={handleEmail}
+        />
+      )}
+
       {/* Summary cards */}
       {data?.summary && (
         <div className="px-4 grid grid-cols-2 md:grid-cols-4 gap-3">
@@ -5,11 +5,22 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 // Mock settings API
 const mockGetAppSettings = vi.fn()
 const mockUpdateAppSettings = vi.fn()
+const mockGetDigestSettings = vi.fn()
+const mockUpdateDigestSettings = vi.fn()
 
 vi.mock('../api/settings', () => ({
   settingsApi: {
     getAppSettings: (...args: unknown[]) => mockGetAppSettings(...args),
     updateAppSettings: (...args: unknown[]) => mockUpdateAppSettings(...args),
+    getDigestSettings: (...args: unknown[]) => mockGetDigestSettings(...args),
+    updateDigestSettings: (...args: unknown[]) => mockUpdateDigestSettings(...args),
+  },
+}))
+
+vi.mock('../api/mail', () => ({
+  mailApi: {
+    getStatus: () => Promise.resolve({ enabled: true }),
+    getDeliveries: () => Promise.resolve({ data: [], total: 0 }),
   },
 }))
 
@@ -39,6 +50,19 @@ const defaultSettings = {
   shortageAlertThreshold: 10,
   collectionDistanceMeters: 50,
   defaultPageSize: 50,
+  pendingSlaHours: 24,
+  pendingEscalationHours: 12,
+}
+
+const digestSettings = {
+  dailyEnabled: true,
+  weeklyEnabled: true,
+  hour: 9,
+  weeklyDay: 1,
+  sections: ['collections', 'pending', 'shortages', 'stale_machines', 'finance'],
+  pendingHours: 24,
+  staleDays: 7,
+  emailRecipients: [],
 }
 
 describe('SettingsPage', () => {
@@ -46,6 +70,8 @@ describe('SettingsPage', () => {
     vi.clearAllMocks()
     mockGetAppSettings.mockResolvedValue(defaultSettings)
     mockUpdateAppSettings.mockResolvedValue(defaultSettings)
+    mockGetDigestSettings.mockResolvedValue(digestSettings)
+    mockUpdateDigestSettings.mockResolvedValue(digestSettings)
   })
 
   it('should render loading state initially', () => {
@@ -69,6 +95,7 @@ describe('SettingsPage', () => {
     expect(screen.getByText('Порог Telegram-алерта (%)')).toBeInTheDocument()
     expect(screen.getByText('Допуск геолокации (метры)')).toBeInTheDocument()
     expect(screen.getByText('Записей на странице')).toBeInTheDocument()
+    expect(screen.getByText('Срок приёма (часы)')).toBeInTheDocument()
   })
 
   it('should display current setting values', async () => {
@@ -80,6 +107,7 @@ describe('SettingsPage', () => {
 
     expect(screen.getByText('10%')).toBeInTheDocument()
     expect(screen.getByText('50м')).toBeInTheDocument()
+    expect(screen.getByText('24ч')).toBeInTheDocument()
   })
 
   it('should enable save button when settings change', async () => {
@@ -148,4 +176,43 @@ describe('SettingsPage', () => {
       expect(screen.getByText(/Ошибка загрузки настроек/)).toBeInTheDocument()
     })
   })
+
+  it('should save digest sections in print order', async () => {
+    mockGetDigestSettings.mockResolvedValue({ ...digestSettings, sections: ['finance'] })
+
+    render(<SettingsPage />, { wrapper: createWrapper() })
+
+    await waitFor(() => {
+      expect(screen.getByText('Telegram-дайджест')).toBeInTheDocument()
+    })
+
+    fireEvent.click(screen.getByLabelText('Инкассации за период'))
+    fireEvent.click(screen.getByText('Сохранить дайджест'))
+
+    await waitFor(() => {
+      expect(mockUpdateDigestSettings).toHaveBeenCalledWith(
+        expect.objectContaining({ sections: ['collections', 'finance'] }),
+      )
+    })
+    expect(mockUpdateAppSettings).not.toHaveBeenCalled()
+  })
+
+  it('should save digest email recipients as a list', async () => {
+    render(<SettingsPage />, { wrapper: createWrapper() })
+
+    await waitFor(() => {
+      expect(screen.getByText('Telegram-дайджест')).toBeInTheDocument()
+    })
+
+    fireEvent.change(screen.getByPlaceholderText(/accountant@example.com/), {
+      target: { value: 'a@example.com,  b@example.com;' },
+    })
+    fireEvent.click(screen.getByText('Сохранить дайджест'))
+
+    await waitFor(() => {
+      expect(mockUpdateDigestSettings).toHaveBeenCalledWith(
+        expect.objectContaining({ emailRecipients: ['a@example.com', 'b@example.com'] }),
+      )
+    })
+  })
 })
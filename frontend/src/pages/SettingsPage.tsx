@@ -4,12 +4,16 @@ import { Save, RotateCcw, Loader2 } from 'lucide-react'
 import toast from 'react-hot-toast'
 import { settingsApi, AppSettings } from '../api/settings'
 import { getErrorMessage } from '../utils/getErrorMessage'
+import DigestSettingsCard from '../components/DigestSettingsCard'
+import EmailDeliveriesCard from '../components/EmailDeliveriesCard'
 
 const DEFAULTS: AppSettings = {
   reconciliationTolerance: 5,
   shortageAlertThreshold: 10,
   collectionDistanceMeters: 50,
   defaultPageSize: 50,
+  pendingSlaHours: 24,
+  pendingEscalationHours: 12,
 }
 
 export default function SettingsPage() {
@@ -156,6 +160,54 @@ export default function SettingsPage() {
           </div>
         </div>
 
+        {/* Pending SLA */}
+        <div className="space-y-1">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Срок приёма (часы)
+          </label>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Дольше этого инкассация считается просроченной, и оператору приходит напоминание сдать деньги
+          </p>
+          <div className="flex items-center gap-3">
+            <input
+              type="range"
+              min={1}
+              max={72}
+              step={1}
+              value={settings.pendingSlaHours}
+              onChange={(e) => handleChange('pendingSlaHours', Number(e.target.value))}
+              className="flex-1"
+            />
+            <span className="w-16 text-center font-mono text-sm bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded">
+              {settings.pendingSlaHours}ч
+            </span>
+          </div>
+        </div>
+
+        {/* Escalation delay */}
+        <div className="space-y-1">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Эскалация менеджерам (часы)
+          </label>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Через сколько часов после напоминания оператору сообщить менеджерам и администратору
+          </p>
+          <div className="flex items-center gap-3">
+            <input
+              type="range"
+              min={1}
+              max={72}
+              step={1}
+              value={settings.pendingEscalationHours}
+              onChange={(e) => handleChange('pendingEscalationHours', Number(e.target.value))}
+              className="flex-1"
+            />
+            <span className="w-16 text-center font-mono text-sm bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded">
+              {settings.pendingEscalationHours}ч
+            </span>
+          </div>
+        </div>
+
         <h2 className="text-lg font-semibold border-b border-gray-200 dark:border-gray-600 pb-2 pt-4">
           Отображение
         </h2>
@@ -196,6 +248,9 @@ export default function SettingsPage() {
           </button>
         </div>
       </div>
+
+      <DigestSettingsCard />
+      <EmailDeliveriesCard />
     </div>
   )
 }
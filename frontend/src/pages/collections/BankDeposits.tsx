@@ -1,14 +1,29 @@
 import { useQuery } from '@tanstack/react-query'
 import { useState } from 'react'
-import { financeApi } from '../../api/finance'
+import { financeApi, BankDeposit, EditDepositData } from '../../api/finance'
 import { format } from 'date-fns'
-import { Plus, Wallet, TrendingDown, ArrowDownRight } from 'lucide-react'
-import DepositModal from '../../components/DepositModal'
+import { Plus, Wallet, TrendingDown, ArrowDownRight, Link2, FileSpreadsheet, Edit, Trash2, History } from 'lucide-react'
+import DepositModal, { AllocateDepositModal, DepositFormData } from '../../components/DepositModal'
+import BankStatementImport from '../../components/BankStatementImport'
+import EditDepositModal from '../../components/EditDepositModal'
+import CancelDepositModal from '../../components/CancelDepositModal'
+import DepositHistoryDrawer from '../../components/DepositHistoryDrawer'
+import { useAuthStore } from '../../contexts/AuthContext'
 import toast from 'react-hot-toast'
 import { getErrorMessage } from '../../utils/getErrorMessage'
 
+const allocatedSum = (deposit: BankDeposit) =>
+    (deposit.allocations || []).reduce((sum, a) => sum + Number(a.amount), 0)
+
 export default function BankDeposits() {
+    const { user } = useAuthStore()
+    const isAdmin = user?.role === 'admin'
     const [isModalOpen, setIsModalOpen] = useState(false)
+    const [editDeposit, setEditDeposit] = useState<BankDeposit | null>(null)
+    const [cancelDeposit, setCancelDeposit] = useState<BankDeposit | null>(null)
+    const [historyDeposit, setHistoryDeposit] = useState<BankDeposit | null>(null)
+    const [allocatingDeposit, setAllocatingDeposit] = useState<BankDeposit | null>(null)
+    const [isStatementOpen, setIsStatementOpen] = useState(false)
 
     const { data: balance, refetch: refetchBalance } = useQuery({
         queryKey: ['finance-balance'],
@@ -20,22 +35,60 @@ export default function BankDeposits() {
         queryFn: ({ signal }) => financeApi.getDeposits(signal),
     })
 
-    const handleDeposit = async (data: { amount: number; notes: string; date: string }) => {
+    const { data: unallocated, refetch: refetchUnallocated } = useQuery({
+        queryKey: ['finance-unallocated'],
+        queryFn: ({ signal }) => financeApi.getUnallocated({}, signal),
+    })
+
+    // Errors propagate to the modal so the form stays open with its data
+    const handleDeposit = async (data: DepositFormData) => {
+        await financeApi.createDeposit(data)
+        toast.success('Сдача в банк зафиксирована!')
+        setIsModalOpen(false)
+        refetchBalance()
+        refetchDeposits()
+        refetchUnallocated()
+    }
+
+    const handleEdit = async (data: EditDepositData) => {
+        if (!editDeposit) return
+        try {
+            await financeApi.editDeposit(editDeposit.id, data)
+            toast.success('Депозит исправлен')
+            setEditDeposit(null)
+            refetchBalance()
+            refetchDeposits()
+        } catch (error: unknown) {
+            toast.error(getErrorMessage(error))
+        }
+    }
+
+    const handleCancel = async (reason: string) => {
+        if (!cancelDeposit) return
         try {
-            await financeApi.createDeposit(data)
-            toast.success('Сдача в банк зафиксирована!')
-            setIsModalOpen(false)
+            await financeApi.cancelDeposit(cancelDeposit.id, reason)
+            toast.success('Депозит отменён')
+            setCancelDeposit(null)
             refetchBalance()
             refetchDeposits()
+            refetchUnallocated()
         } catch (error: unknown) {
             toast.error(getErrorMessage(error))
         }
     }
 
+    const handleAllocate = async (allocations: { collectionId: string; amount: number }[]) => {
+        if (!allocatingDeposit) return
+        await financeApi.allocateDeposit(allocatingDeposit.id, allocations)
+        toast.success('Депозит привязан к инкассациям')
+        refetchDeposits()
+        refetchUnallocated()
+    }
+
     return (
         <div className="space-y-6">
             {/* Stats Cards */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
                 <div className="card p-6 bg-gradient-to-br from-primary-500 to-primary-600 text-white border-none">
                     <div className="flex items-center gap-4 mb-4">
                         <div className="w-12 h-12 bg-white/20 rounded-xl flex items-center justify-center backdrop-blur-sm">
@@ -84,12 +137,36 @@ export default function BankDeposits() {
                         </div>
                     </div>
                 </div>
+
+                <div className="card p-6">
+                    <div className="flex items-center gap-4">
+                        <div className="w-12 h-12 bg-orange-100 dark:bg-orange-900/30 rounded-xl flex items-center justify-center">
+                            <Link2 className="w-6 h-6 text-orange-600 dark:text-orange-400" />
+                        </div>
+                        <div>
+                            <div className="text-gray-500 dark:text-gray-400 text-sm font-medium">Не привязано к депозитам</div>
+                            <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                                {unallocated?.total.toLocaleString('ru-RU') || 0} сум
+                            </div>
+                            <div className="text-xs text-gray-400">
+                                {unallocated?.count || 0} инкассаций
+                            </div>
+                        </div>
+                    </div>
+                </div>
             </div>
 
             {/* History Table */}
             <div className="card">
-                <div className="px-6 py-4 border-b border-gray-100 dark:border-gray-700">
+                <div className="px-6 py-4 border-b border-gray-100 dark:border-gray-700 flex items-center justify-between">
                     <h3 className="font-bold text-lg">История сдачи</h3>
+                    <button
+                        onClick={() => setIsStatementOpen(true)}
+                        className="btn btn-secondary text-sm flex items-center gap-2"
+                    >
+                        <FileSpreadsheet className="w-4 h-4" />
+                        Импорт выписки
+                    </button>
                 </div>
                 <div className="overflow-x-auto">
                     <table className="w-full">
@@ -97,20 +174,26 @@ export default function BankDeposits() {
                             <tr>
                                 <th className="px-6 py-3 text-left text-sm font-medium text-gray-500 dark:text-gray-400">Дата</th>
                                 <th className="px-6 py-3 text-left text-sm font-medium text-gray-500 dark:text-gray-400">Сумма</th>
+                                <th className="px-6 py-3 text-left text-sm font-medium text-gray-500 dark:text-gray-400">Квитанция</th>
+                                <th className="px-6 py-3 text-left text-sm font-medium text-gray-500 dark:text-gray-400">Привязано</th>
                                 <th className="px-6 py-3 text-left text-sm font-medium text-gray-500 dark:text-gray-400">Кто сдал</th>
                                 <th className="px-6 py-3 text-left text-sm font-medium text-gray-500 dark:text-gray-400">Примечание</th>
+                                <th className="px-6 py-3" />
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
                             {deposits?.length === 0 ? (
                                 <tr>
-                                    <td colSpan={4} className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">
+                                    <td colSpan={7} className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">
                                         История пуста
                                     </td>
                                 </tr>
                             ) : (
                                 deposits?.map((deposit) => (
-                                    <tr key={deposit.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                                    <tr
+                                        key={deposit.id}
+                                        className={`hover:bg-gray-50 dark:hover:bg-gray-700/50 ${deposit.cancelledAt ? 'opacity-60' : ''}`}
+                                    >
                                         <td className="px-6 py-3 text-sm text-gray-900 dark:text-gray-100">
                                             <div>{format(new Date(deposit.depositDate), 'dd.MM.yyyy')}</div>
                                             <div className="text-gray-500 dark:text-gray-400 text-xs">
@@ -118,7 +201,45 @@ export default function BankDeposits() {
                                             </div>
                                         </td>
                                         <td className="px-6 py-3 text-sm font-medium text-gray-900 dark:text-gray-100">
-                                            {Number(deposit.amount).toLocaleString('ru-RU')} сум
+                                            <span className={deposit.cancelledAt ? 'line-through' : ''}>
+                                                {Number(deposit.amount).toLocaleString('ru-RU')} сум
+                                            </span>
+                                            {deposit.cancelledAt && (
+                                                <div className="text-xs font-normal text-red-600 dark:text-red-400">Отменён</div>
+                                            )}
+                                            {deposit.bankConfirmedAt && (
+                                                <div
+                                                    className="text-xs font-normal text-green-600 dark:text-green-400"
+                                                    title={`Подтверждено выпиской ${format(new Date(deposit.bankConfirmedAt), 'dd.MM.yyyy')}`}
+                                                >
+                                                    ✓ в выписке
+                                                </div>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-3 text-sm text-gray-700 dark:text-gray-300">
+                                            <div>{deposit.slipNumber || '—'}</div>
+                                            {deposit.bankAccount && (
+                                                <div className="text-xs text-gray-400 font-mono">{deposit.bankAccount}</div>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-3 text-sm">
+                                            {deposit.cancelledAt ? (
+                                                <span className="text-gray-400">—</span>
+                                            ) : allocatedSum(deposit) >= Number(deposit.amount) ? (
+                                                <span className="text-green-600 dark:text-green-400">✓ полностью</span>
+                                            ) : (
+                                                <div className="flex items-center gap-2">
+                                                    <span className="text-gray-600 dark:text-gray-300">
+                                                        {allocatedSum(deposit).toLocaleString('ru-RU')}
+                                                    </span>
+                                                    <button
+                                                        onClick={() => setAllocatingDeposit(deposit)}
+                                                        className="text-primary-600 hover:underline text-xs"
+                                                    >
+                                                        Привязать
+                                                    </button>
+                                                </div>
+                                            )}
                                         </td>
                                         <td className="px-6 py-3 text-sm">
                                             <div className="flex items-center gap-2">
@@ -131,6 +252,35 @@ export default function BankDeposits() {
                                         <td className="px-6 py-3 text-sm text-gray-500 dark:text-gray-400">
                                             {deposit.notes || '—'}
                                         </td>
+                                        <td className="px-6 py-3">
+                                            <div className="flex items-center gap-1 justify-end">
+                                                <button
+                                                    onClick={() => setHistoryDeposit(deposit)}
+                                                    className="p-1.5 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+                                                    title="История изменений"
+                                                >
+                                                    <History className="w-4 h-4" />
+                                                </button>
+                                                {isAdmin && !deposit.cancelledAt && (
+                                                    <>
+                                                        <button
+                                                            onClick={() => setEditDeposit(deposit)}
+                                                            className="p-1.5 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg"
+                                                            title="Исправить"
+                                                        >
+                                                            <Edit className="w-4 h-4" />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => setCancelDeposit(deposit)}
+                                                            className="p-1.5 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg"
+                                                            title="Отменить"
+                                                        >
+                                                            <Trash2 className="w-4 h-4" />
+                                                        </button>
+                                                    </>
+                                                )}
+                                            </div>
+                                        </td>
                                     </tr>
                                 ))
                             )}
@@ -147,6 +297,44 @@ export default function BankDeposits() {
                     maxAmount={balance?.balance || 0}
                 />
             )}
+
+            {isStatementOpen && (
+                <BankStatementImport
+                    onClose={() => setIsStatementOpen(false)}
+                    onDone={() => {
+                        refetchBalance()
+                        refetchDeposits()
+                    }}
+                />
+            )}
+
+            {editDeposit && (
+                <EditDepositModal
+                    deposit={editDeposit}
+                    onClose={() => setEditDeposit(null)}
+                    onSubmit={handleEdit}
+                />
+            )}
+
+            {cancelDeposit && (
+                <CancelDepositModal
+                    deposit={cancelDeposit}
+                    onClose={() => setCancelDeposit(null)}
+                    onSubmit={handleCancel}
+                />
+            )}
+
+            {historyDeposit && (
+                <DepositHistoryDrawer deposit={historyDeposit} onClose={() => setHistoryDeposit(null)} />
+            )}
+
+            {allocatingDeposit && (
+                <AllocateDepositModal
+                    deposit={allocatingDeposit}
+                    onClose={() => setAllocatingDeposit(null)}
+                    onSubmit={handleAllocate}
+                />
+            )}
         </div>
     )
 }
@@ -0,0 +1,162 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { Download } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { financeApi, CashFlowGroupBy, CashFlowQuery } from '../../api/finance'
+import { getErrorMessage } from '../../utils/getErrorMessage'
+
+const formatAmount = (amount: number) => new Intl.NumberFormat('ru-RU').format(amount)
+
+const GROUP_OPTIONS: { value: CashFlowGroupBy; label: string }[] = [
+    { value: 'day', label: 'По дням' },
+    { value: 'week', label: 'По неделям' },
+    { value: 'month', label: 'По месяцам' },
+]
+
+const formatDay = (date: string) => format(new Date(`${date}T00:00:00`), 'dd.MM.yyyy')
+
+export default function CashFlow() {
+    const [query, setQuery] = useState<CashFlowQuery>({ groupBy: 'day' })
+    const [exporting, setExporting] = useState(false)
+    const isRangeInvalid = !!query.from && !!query.to && query.from > query.to
+
+    const { data, isLoading, error } = useQuery({
+        queryKey: ['finance-cash-flow', query],
+        queryFn: ({ signal }) => financeApi.getCashFlow(query, signal),
+        enabled: !isRangeInvalid,
+    })
+
+    const handleExport = async () => {
+        if (exporting) return
+        setExporting(true)
+        try {
+            const blob = await financeApi.exportCashFlow(query)
+            const url = window.URL.createObjectURL(blob)
+            const a = document.createElement('a')
+            a.href = url
+            a.download = `vendcash-cash-flow-${data?.from ?? ''}-${data?.to ?? ''}.xlsx`
+            document.body.appendChild(a)
+            a.click()
+            window.URL.revokeObjectURL(url)
+            document.body.removeChild(a)
+            toast.success('Отчёт скачан')
+        } catch {
+            toast.error('Ошибка экспорта')
+        } finally {
+            setExporting(false)
+        }
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="card p-4 flex flex-wrap items-center gap-4">
+                <span className="text-sm text-gray-500 dark:text-gray-400">Период:</span>
+                <input
+                    type="date"
+                    className="input w-auto"
+                    value={query.from || ''}
+                    onChange={(e) => setQuery({ ...query, from: e.target.value || undefined })}
+                />
+                <span>—</span>
+                <input
+                    type="date"
+                    className="input w-auto"
+                    value={query.to || ''}
+                    min={query.from || undefined}
+                    onChange={(e) => setQuery({ ...query, to: e.target.value || undefined })}
+                />
+                <select
+                    className="input w-auto"
+                    value={query.groupBy}
+                    onChange={(e) => setQuery({ ...query, groupBy: e.target.value as CashFlowGroupBy })}
+                >
+                    {GROUP_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+                {isRangeInvalid && (
+                    <span className="text-red-500 text-sm">Дата «от» не может быть позже «до»</span>
+                )}
+                <button
+                    onClick={handleExport}
+                    disabled={exporting || !data}
+                    className="btn btn-primary flex items-center gap-2 disabled:opacity-50 ml-auto"
+                >
+                    <Download className="w-4 h-4" />
+                    {exporting ? 'Экспорт...' : 'Excel'}
+                </button>
+            </div>
+
+            {data && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="card p-4">
+                        <div className="text-sm text-gray-500 dark:text-gray-400">На начало {formatDay(data.from)}</div>
+                        <div className="text-xl font-bold">{formatAmount(data.totals.opening)} сум</div>
+                    </div>
+                    <div className="card p-4">
+                        <div className="text-sm text-gray-500 dark:text-gray-400">Принято</div>
+                        <div className="text-xl font-bold text-green-600 dark:text-green-400">+{formatAmount(data.totals.received)}</div>
+                    </div>
+                    <div className="card p-4">
+                        <div className="text-sm text-gray-500 dark:text-gray-400">Сдано в банк</div>
+                        <div className="text-xl font-bold text-red-600 dark:text-red-400">−{formatAmount(data.totals.deposited)}</div>
+                    </div>
+                    <div className="card p-4">
+                        <div className="text-sm text-gray-500 dark:text-gray-400">На конец {formatDay(data.to)}</div>
+                        <div className="text-xl font-bold">{formatAmount(data.totals.closing)} сум</div>
+                    </div>
+                </div>
+            )}
+
+            <div className="card overflow-x-auto">
+                <table className="w-full">
+                    <thead className="bg-gray-50 dark:bg-gray-700/50">
+                        <tr>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-gray-500 dark:text-gray-400">Период</th>
+                            <th className="px-4 py-3 text-right text-sm font-medium text-gray-500 dark:text-gray-400">На начало</th>
+                            <th className="px-4 py-3 text-right text-sm font-medium text-gray-500 dark:text-gray-400">Принято</th>
+                            <th className="px-4 py-3 text-right text-sm font-medium text-gray-500 dark:text-gray-400">Сдано в банк</th>
+                            <th className="px-4 py-3 text-right text-sm font-medium text-gray-500 dark:text-gray-400">На конец</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                        {isLoading ? (
+                            <tr>
+                                <td colSpan={5} className="px-4 py-8 text-center text-gray-500 dark:text-gray-400">Загрузка...</td>
+                            </tr>
+                        ) : error ? (
+                            <tr>
+                                <td colSpan={5} className="px-4 py-8 text-center text-red-500">{getErrorMessage(error)}</td>
+                            </tr>
+                        ) : (
+                            data?.periods.map((period) => (
+                                <tr key={period.start} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 text-sm">
+                                    <td className="px-4 py-2 whitespace-nowrap">
+                                        {period.start === period.end
+                                            ? formatDay(period.start)
+                                            : `${formatDay(period.start)} — ${formatDay(period.end)}`}
+                                    </td>
+                                    <td className="px-4 py-2 text-right">{formatAmount(period.opening)}</td>
+                                    <td className="px-4 py-2 text-right text-green-600 dark:text-green-400">
+                                        {period.received ? `+${formatAmount(period.received)}` : '—'}
+                                        {period.receivedCount > 0 && (
+                                            <span className="text-xs text-gray-400 ml-1">({period.receivedCount})</span>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-2 text-right text-red-600 dark:text-red-400">
+                                        {period.deposited ? `−${formatAmount(period.deposited)}` : '—'}
+                                        {period.depositsCount > 0 && (
+                                            <span className="text-xs text-gray-400 ml-1">({period.depositsCount})</span>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-2 text-right font-medium">{formatAmount(period.closing)}</td>
+                                </tr>
+                            ))
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    )
+}
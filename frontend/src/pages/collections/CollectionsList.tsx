@@ -1,6 +1,6 @@
 import { useQuery } from '@tanstack/react-query'
 import { useState, useEffect } from 'react'
-import { collectionsApi, Collection, CollectionQuery, BulkCancelResult } from '../../api/collections'
+import { collectionsApi, Collection, CollectionQuery, BulkCancelResult, DenominationCount } from '../../api/collections'
 import { machinesApi } from '../../api/machines'
 import { format } from 'date-fns'
 import { Filter, ChevronLeft, ChevronRight, Edit, Trash2, XSquare } from 'lucide-react'
@@ -34,10 +34,10 @@ export default function CollectionsList() {
         queryFn: ({ signal }) => machinesApi.getAll(true, signal),
     })
 
-    const handleReceive = async (amount: number, notes?: string) => {
+    const handleReceive = async (amount: number, notes?: string, denominations?: DenominationCount[]) => {
         if (!selectedCollection) return
         try {
-            await collectionsApi.receive(selectedCollection.id, { amount, notes })
+            await collectionsApi.receive(selectedCollection.id, { amount, notes, denominations })
             toast.success('Инкассация принята!')
             setSelectedCollection(null)
             refetch()
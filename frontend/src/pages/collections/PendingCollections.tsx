@@ -1,10 +1,11 @@
 import { useQuery } from '@tanstack/react-query'
 import { useState } from 'react'
-import { collectionsApi, Collection } from '../../api/collections'
+import { collectionsApi, Collection, DenominationCount } from '../../api/collections'
 import { format } from 'date-fns'
 import { Clock } from 'lucide-react'
 import ReceiveModal from '../../components/ReceiveModal'
 import DistanceBadge from '../../components/DistanceBadge'
+import StaleBadge from '../../components/StaleBadge'
 import toast from 'react-hot-toast'
 import { getErrorMessage } from '../../utils/getErrorMessage'
 
@@ -16,10 +17,10 @@ export default function PendingCollections() {
         queryFn: ({ signal }) => collectionsApi.getPending(signal),
     })
 
-    const handleReceive = async (amount: number, notes?: string) => {
+    const handleReceive = async (amount: number, notes?: string, denominations?: DenominationCount[]) => {
         if (!selectedCollection) return
         try {
-            await collectionsApi.receive(selectedCollection.id, { amount, notes })
+            await collectionsApi.receive(selectedCollection.id, { amount, notes, denominations })
             toast.success('Инкассация принята!')
             setSelectedCollection(null)
             refetch()
@@ -48,6 +49,7 @@ export default function PendingCollections() {
                                         <div className="flex items-center gap-2">
                                             <span className="font-medium text-lg text-gray-900 dark:text-gray-100">{collection.machine.name}</span>
                                             <DistanceBadge distance={collection.distanceFromMachine} />
+                                            <StaleBadge escalations={collection.escalations} />
                                         </div>
                                         <div className="text-sm text-gray-500 dark:text-gray-400 space-x-2">
                                             <span>📍 {collection.machine.code}</span>